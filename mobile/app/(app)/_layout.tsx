@@ -131,6 +131,20 @@ export default function AppLayout() {
               headerShown: false,
             }}
           />
+          <Stack.Screen
+            name="story/[id]/tree"
+            options={{
+              title: 'Story Map',
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen
+            name="story/[id]/bible"
+            options={{
+              title: 'Story Bible',
+              headerShown: false,
+            }}
+          />
           <Stack.Screen
             name="write/[id]"
             options={{
@@ -160,6 +174,13 @@ export default function AppLayout() {
               headerShown: false,
             }}
           />
+          <Stack.Screen
+            name="premium"
+            options={{
+              title: 'Premium',
+              headerShown: false,
+            }}
+          />
           <Stack.Screen
             name="settings"
             options={{
@@ -15,7 +15,8 @@ import { useAuthStore } from '@/stores/authStore';
 import { Button } from '@/components/Button';
 import { Input } from '@/components/Input';
 import { Card } from '@/components/Card';
-import { Theme } from '@/lib/types';
+import { Theme, TurnMode } from '@/lib/types';
+import { TURN_MODE_OPTIONS, DEFAULT_STORY_SETTINGS } from '@/lib/storySettings';
 
 const COLORS = {
   text: '#212121',
@@ -36,6 +37,7 @@ const THEME_OPTIONS = [
 export default function CreateStoryScreen() {
   const [title, setTitle] = useState('');
   const [theme, setTheme] = useState<Theme | null>(null);
+  const [turnMode, setTurnMode] = useState<TurnMode>(DEFAULT_STORY_SETTINGS.turnMode);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -72,7 +74,7 @@ export default function CreateStoryScreen() {
       const selectedTheme = theme || 'romance';
 
       if (isConfigured) {
-        await createStorySupabase(title, selectedTheme);
+        await createStorySupabase(title, selectedTheme, { turnMode });
       } else {
         createStoryDemo(title, selectedTheme);
       }
@@ -132,6 +134,32 @@ export default function CreateStoryScreen() {
             </Pressable>
           ))}
 
+          {isConfigured && (
+            <>
+              <Text style={styles.themeLabel}>Taking Turns</Text>
+              {TURN_MODE_OPTIONS.map((option) => (
+                <Pressable
+                  key={option.value}
+                  style={[
+                    styles.themeOption,
+                    turnMode === option.value && styles.themeOptionSelected,
+                  ]}
+                  onPress={() => setTurnMode(option.value)}
+                  accessibilityLabel={option.label}
+                  accessibilityHint={option.description}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: turnMode === option.value }}
+                >
+                  <Text style={styles.themeOptionText}>{option.label}</Text>
+                  <Text style={styles.optionDescription}>{option.description}</Text>
+                </Pressable>
+              ))}
+              <Text style={styles.settingsHint}>
+                You can change this and the other story rules later from the story screen.
+              </Text>
+            </>
+          )}
+
           {error && (
             <Text style={styles.errorText}>{error}</Text>
           )}
@@ -211,6 +239,16 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: COLORS.text,
   },
+  optionDescription: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  settingsHint: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+  },
   buttonSpacing: {
     marginTop: 16,
   },
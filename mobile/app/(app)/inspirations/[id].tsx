@@ -285,6 +285,7 @@ export default function InspirationsScreen() {
   const renderInspirationItem = ({ item }: { item: Inspiration }) => {
     const authorName = getAuthorName(item);
     const canDeleteItem = canDelete(item);
+    const wovenChapter = item.woven_chapter;
 
     return (
       <Card key={item.id} variant="elevated" style={styles.inspirationCard}>
@@ -301,6 +302,15 @@ export default function InspirationsScreen() {
               </View>
             )}
             <Text style={styles.authorLabel}>By {authorName}</Text>
+            {wovenChapter && (
+              <Pressable
+                onPress={() => router.push(`/story/${item.story_id}?branch=${wovenChapter.id}`)}
+                accessibilityLabel={`Read chapter ${wovenChapter.chapter_number}`}
+                accessibilityHint="Opens the chapter this inspiration was woven into"
+              >
+                <Text style={styles.wovenLabel}>✨ Woven into Chapter {wovenChapter.chapter_number}</Text>
+              </Pressable>
+            )}
           </View>
 
           <View style={styles.inspirationActions}>
@@ -635,6 +645,12 @@ const styles = StyleSheet.create({
     color: COLORS.textSecondary,
     fontStyle: 'italic',
   },
+  wovenLabel: {
+    fontSize: 14,
+    color: COLORS.primary,
+    fontWeight: '600',
+    marginTop: 4,
+  },
   inspirationActions: {
     justifyContent: 'center',
   },
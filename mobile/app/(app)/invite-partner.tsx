@@ -137,8 +137,8 @@ export default function InvitePartnerScreen() {
 
         <Text style={styles.heading}>Share Your Story</Text>
         <Text style={styles.description}>
-          Your partner can join your story using this pairing code. Share it via your favorite
-          messaging app.
+          Your partner can join your story using this pairing code. Writing as a group? Everyone
+          you share it with can join until the story is full.
         </Text>
 
         {/* Pairing Code Card */}
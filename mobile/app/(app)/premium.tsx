@@ -0,0 +1,246 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Feather, MaterialIcons } from '@expo/vector-icons';
+import { useEntitlementStore } from '@/stores/entitlementStore';
+import { getPurchaseProvider } from '@/lib/purchases';
+import type { FeatureEntitlement } from '@/lib/types';
+
+const describeQuota = (feature: FeatureEntitlement): string | null => {
+  if (!feature.granted) return null;
+  if (feature.quota === null) return feature.feature === 'branches' ? 'Unlimited' : null;
+  return feature.feature === 'monthly_tokens' ? `${feature.quota} a month` : `Up to ${feature.quota}`;
+};
+
+export default function PremiumScreen() {
+  const {
+    entitlements,
+    products,
+    isLoading,
+    isPurchasing,
+    error,
+    fetchEntitlements,
+    fetchProducts,
+    subscribe,
+    cancelSubscription,
+  } = useEntitlementStore();
+
+  useEffect(() => {
+    fetchEntitlements();
+    fetchProducts();
+  }, [fetchEntitlements, fetchProducts]);
+
+  const { tier, subscription } = entitlements;
+  const features = Object.values(entitlements.features) as FeatureEntitlement[];
+  const canCancel = !!getPurchaseProvider().cancelSubscription && !!subscription;
+
+  const handleSubscribe = async (productId: string) => {
+    const success = await subscribe(productId);
+    if (success) {
+      Alert.alert('Welcome to Premium', 'Your new features and token allowance are ready.');
+    }
+  };
+
+  const handleCancel = () => {
+    Alert.alert('End subscription', 'Go back to the free plan now?', [
+      { text: 'Keep Premium', style: 'cancel' },
+      { text: 'End now', style: 'destructive', onPress: () => cancelSubscription() },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Feather name="arrow-left" size={24} color="#212121" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Premium</Text>
+        </View>
+
+        <View style={styles.planCard}>
+          <MaterialIcons name="workspace-premium" size={40} color="#FFFFFF" />
+          <Text style={styles.planName}>{tier === 'premium' ? 'Premium' : 'Free plan'}</Text>
+          {subscription && (
+            <Text style={styles.planDetail}>
+              {subscription.status === 'canceled' ? 'Ends' : 'Renews'}{' '}
+              {new Date(subscription.current_period_end).toLocaleDateString()}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>What your plan includes</Text>
+          {isLoading && features.length === 0 ? (
+            <ActivityIndicator color="#E91E63" />
+          ) : (
+            features.map(feature => {
+              const quota = describeQuota(feature);
+              return (
+                <View key={feature.feature} style={styles.featureRow}>
+                  <Feather
+                    name={feature.granted ? 'check-circle' : 'lock'}
+                    size={20}
+                    color={feature.granted ? '#4CAF50' : '#9C27B0'}
+                  />
+                  <View style={styles.featureText}>
+                    <Text style={styles.featureName}>{feature.name}</Text>
+                    <Text style={styles.featureDescription}>{feature.description}</Text>
+                  </View>
+                  {quota && <Text style={styles.featureQuota}>{quota}</Text>}
+                </View>
+              );
+            })
+          )}
+        </View>
+
+        {tier !== 'premium' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Upgrade</Text>
+            {products.map(product => (
+              <TouchableOpacity
+                key={product.id}
+                style={[styles.productButton, isPurchasing && styles.disabled]}
+                onPress={() => handleSubscribe(product.id)}
+                disabled={isPurchasing}
+              >
+                <Text style={styles.productName}>{product.name}</Text>
+                <Feather name="chevron-right" size={20} color="#FFFFFF" />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {canCancel && (
+          <TouchableOpacity style={styles.cancelButton} onPress={handleCancel} disabled={isPurchasing}>
+            <Text style={styles.cancelText}>End subscription</Text>
+          </TouchableOpacity>
+        )}
+
+        {isPurchasing && <ActivityIndicator color="#E91E63" style={styles.spinner} />}
+        {error && <Text style={styles.error}>{error}</Text>}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FAFAFA',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#212121',
+  },
+  planCard: {
+    alignItems: 'center',
+    backgroundColor: '#9C27B0',
+    borderRadius: 16,
+    padding: 24,
+    marginBottom: 24,
+  },
+  planName: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginTop: 8,
+  },
+  planDetail: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.9)',
+    marginTop: 4,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 12,
+  },
+  featureRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  featureText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  featureName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  featureDescription: {
+    fontSize: 13,
+    color: '#757575',
+    marginTop: 2,
+  },
+  featureQuota: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#9C27B0',
+    marginLeft: 8,
+  },
+  productButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#E91E63',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+  },
+  productName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    padding: 12,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: '#F44336',
+    fontWeight: '500',
+  },
+  spinner: {
+    marginTop: 12,
+  },
+  error: {
+    fontSize: 14,
+    color: '#F44336',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
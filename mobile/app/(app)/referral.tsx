@@ -53,7 +53,7 @@ interface ReferralStats {
 
 export default function ReferralScreen() {
   const { user } = useAuthStore();
-  const { balance, addTokens } = useTokenStore();
+  const { balance } = useTokenStore();
 
   const [stats, setStats] = useState<ReferralStats>({
     totalReferrals: 0,
@@ -27,7 +27,7 @@ const REFERRAL_BONUS = 50;
 
 export default function RedeemReferralScreen() {
   const { user } = useAuthStore();
-  const { addTokens } = useTokenStore();
+  const { fetchBalance } = useTokenStore();
 
   const [referralCode, setReferralCode] = useState('');
   const [loading, setLoading] = useState(false);
@@ -56,93 +56,30 @@ export default function RedeemReferralScreen() {
       return;
     }
 
-    // Check if user is trying to use their own code
-    const { data: ownProfile } = await (supabase
-      .from('profiles')
-      .select('referral_code')
-      .eq('id', user.id)
-      .single() as any);
-
-    if ((ownProfile as any)?.referral_code === trimmedCode) {
-      setError('You cannot use your own referral code');
-      return;
-    }
-
     setLoading(true);
     setError(undefined);
 
     try {
-      // Find the referrer by code
-      const { data: referrer, error: referrerError } = await (supabase
-        .from('profiles')
-        .select('id, display_name, referral_count')
-        .eq('referral_code', trimmedCode)
-        .single() as any);
-
-      if (referrerError || !referrer) {
-        setError('Referral code not found');
-        setLoading(false);
-        return;
-      }
-
-      // Check if user has already used a referral code
-      const { data: existingReferral } = await (supabase
-        .from('referrals')
-        .select('*')
-        .eq('referred_user_id', user.id)
-        .single() as any);
-
-      if (existingReferral) {
-        setError('You have already used a referral code');
-        setLoading(false);
-        return;
-      }
-
-      // Check if this specific referral already exists
-      const { data: duplicateReferral } = await (supabase
-        .from('referrals')
-        .select('*')
-        .eq('referrer_id', referrer.id)
-        .eq('referred_user_id', user.id)
-        .single() as any);
+      // The server checks the code, records the referral and pays both sides once
+      const { data: result, error: redeemError } = await (supabase.rpc as any)(
+        'redeem_referral_code',
+        { p_code: trimmedCode }
+      );
 
-      if (duplicateReferral) {
-        setError('This referral has already been processed');
+      if (redeemError) {
+        console.error('Failed to redeem referral:', redeemError);
+        setError('Failed to process referral. Please try again.');
         setLoading(false);
         return;
       }
 
-      // Create referral record
-      const { error: insertError } = await (supabase.from('referrals') as any).insert({
-        referrer_id: referrer.id,
-        referred_user_id: user.id,
-        referral_code: trimmedCode,
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-        reward_amount: REFERRAL_BONUS,
-      });
-
-      if (insertError) {
-        setError('Failed to process referral. Please try again.');
+      if (!result?.success) {
+        setError(result?.error || 'Failed to process referral. Please try again.');
         setLoading(false);
         return;
       }
 
-      // Award sparks to the new user
-      await addTokens(REFERRAL_BONUS, 'bonus', 'referral');
-
-      // Award sparks to the referrer (this happens server-side in production)
-      const { error: updateError } = await (supabase.rpc as any)(
-        'award_referral_bonus',
-        {
-          referrer_id: referrer.id,
-          bonus_amount: REFERRAL_BONUS,
-        }
-      );
-
-      if (updateError) {
-        console.error('Failed to award referrer bonus:', updateError);
-      }
+      await fetchBalance();
 
       // Show success alert
       Alert.alert(
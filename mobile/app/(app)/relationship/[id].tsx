@@ -1,18 +1,54 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { View, StyleSheet, ScrollView, RefreshControl, Text, TouchableOpacity } from 'react-native';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { Card } from '@/components/Card';
 import { Button } from '@/components/Button';
+import { TrendChart } from '@/components/TrendChart';
 import { useRelationshipStore } from '@/stores/relationshipStore';
 import { useStoriesStore } from '@/stores/storiesStore';
 import { theme } from '@/lib/theme';
+import { relationshipAnalyzer, toneScore, RelationshipAnalysis } from '@/lib/relationshipAnalyzer';
+import { getSnapshot, saveSnapshot } from '@/lib/localDatabase';
+import type { RelationshipSnapshot } from '@/lib/types';
 import { AntDesign, Feather, MaterialIcons } from '@expo/vector-icons';
 
+type TrendMetric = 'balance' | 'response' | 'tone';
+
+const TREND_METRICS: { id: TrendMetric; label: string }[] = [
+  { id: 'balance', label: 'Balance' },
+  { id: 'response', label: 'Response time' },
+  { id: 'tone', label: 'Tone' },
+];
+
+const TREND_RANGES = [
+  { days: 28, label: '4 weeks' },
+  { days: 90, label: '3 months' },
+  { days: 180, label: '6 months' },
+];
+
+const formatHours = (hours: number) =>
+  hours < 48 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`;
+
+const trendValue = (snapshot: RelationshipSnapshot, metric: TrendMetric): number | null => {
+  switch (metric) {
+    case 'balance':
+      return snapshot.writing_balance;
+    case 'response':
+      return snapshot.avg_response_hours;
+    case 'tone':
+      return snapshot.positivity === null ? null : toneScore(snapshot.positivity);
+  }
+};
+
 export default function RelationshipDashboard() {
   const { id: relationshipId } = useLocalSearchParams();
   const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
-  const [streakCount, setStreakCount] = useState(0);
+  const [analysis, setAnalysis] = useState<RelationshipAnalysis | null>(null);
+  const [trends, setTrends] = useState<RelationshipSnapshot[]>([]);
+  const [trendMetric, setTrendMetric] = useState<TrendMetric>('balance');
+  const [trendDays, setTrendDays] = useState(TREND_RANGES[1].days);
+  const streakCount = analysis?.streakSync.currentStreak ?? 0;
 
   const {
     relationship,
@@ -32,10 +68,45 @@ export default function RelationshipDashboard() {
     }
   }, [relationshipId, fetchRelationship]);
 
+  const loadAnalysis = useCallback(async () => {
+    if (!relationshipId || typeof relationshipId !== 'string') return;
+    const key = `relationship-analysis:${relationshipId}`;
+    try {
+      const result = await relationshipAnalyzer.analyzeRelationship(relationshipId);
+      setAnalysis(result);
+      saveSnapshot(key, result).catch(() => {});
+    } catch {
+      // Offline, show the last analysis; the rest of the dashboard works without it
+      setAnalysis(await getSnapshot<RelationshipAnalysis>(key).catch(() => null));
+    }
+  }, [relationshipId]);
+
+  const loadTrends = useCallback(async () => {
+    if (!relationshipId || typeof relationshipId !== 'string') return;
+    const key = `relationship-trends:${relationshipId}:${trendDays}`;
+    try {
+      const result = await relationshipAnalyzer.getTrends(relationshipId, trendDays);
+      setTrends(result);
+      saveSnapshot(key, result).catch(() => {});
+    } catch (error) {
+      console.error('Error loading relationship trends:', error);
+      const saved = await getSnapshot<RelationshipSnapshot[]>(key).catch(() => null);
+      if (saved) setTrends(saved);
+    }
+  }, [relationshipId, trendDays]);
+
+  useEffect(() => {
+    loadAnalysis();
+  }, [loadAnalysis]);
+
+  useEffect(() => {
+    loadTrends();
+  }, [loadTrends]);
+
   const onRefresh = async () => {
     setRefreshing(true);
     if (relationshipId && typeof relationshipId === 'string') {
-      await fetchRelationship();
+      await Promise.all([fetchRelationship(), loadAnalysis(), loadTrends()]);
     }
     setRefreshing(false);
   };
@@ -213,6 +284,77 @@ export default function RelationshipDashboard() {
           </View>
         </Card>
 
+        {/* Trends */}
+        <Card style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Writing Together</Text>
+            <Text style={styles.sectionSubtitle}>Last 7 days, each day</Text>
+          </View>
+          {analysis && (
+            <View style={styles.insightsGrid}>
+              <View style={styles.insightItem}>
+                <Text style={styles.insightValue}>{analysis.writingBalance}%</Text>
+                <Text style={styles.insightLabel}>Balance</Text>
+              </View>
+              <View style={styles.insightItem}>
+                <Text style={styles.insightValue}>
+                  {analysis.responseTime.averageHours === null
+                    ? '–'
+                    : formatHours(analysis.responseTime.averageHours)}
+                </Text>
+                <Text style={styles.insightLabel}>Avg. reply</Text>
+              </View>
+              <View style={styles.insightItem}>
+                <Text style={styles.insightValue}>{analysis.emotionalTone.positivity}</Text>
+                <Text style={styles.insightLabel}>Positivity</Text>
+              </View>
+            </View>
+          )}
+          {analysis && analysis.groupStories > 0 && (
+            <Text style={styles.groupNote}>
+              {`Includes ${analysis.groupStories} group ${analysis.groupStories === 1 ? 'story' : 'stories'}. Replies only count stories you write as a pair.`}
+            </Text>
+          )}
+          <View style={styles.chipRow}>
+            {TREND_METRICS.map(metric => (
+              <TouchableOpacity
+                key={metric.id}
+                style={[styles.chip, trendMetric === metric.id && styles.chipActive]}
+                onPress={() => setTrendMetric(metric.id)}
+              >
+                <Text style={[styles.chipText, trendMetric === metric.id && styles.chipTextActive]}>
+                  {metric.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TrendChart
+            points={trends.map(snapshot => ({
+              date: snapshot.snapshot_date,
+              value: trendValue(snapshot, trendMetric),
+            }))}
+            minValue={0}
+            maxValue={trendMetric === 'response' ? undefined : 100}
+            formatValue={trendMetric === 'response' ? formatHours : value => String(Math.round(value))}
+          />
+          <View style={styles.chipRow}>
+            {TREND_RANGES.map(range => (
+              <TouchableOpacity
+                key={range.days}
+                style={[styles.chip, trendDays === range.days && styles.chipActive]}
+                onPress={() => setTrendDays(range.days)}
+              >
+                <Text style={[styles.chipText, trendDays === range.days && styles.chipTextActive]}>
+                  {range.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {analysis && analysis.suggestions.length > 0 && (
+            <Text style={styles.suggestionText}>{analysis.suggestions[0]}</Text>
+          )}
+        </Card>
+
         {/* Daily Questions */}
         <Card style={styles.card}>
           <View style={styles.sectionHeader}>
@@ -408,4 +550,38 @@ const styles = StyleSheet.create({
   questionsButton: {
     marginTop: 8,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginVertical: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FCE4EC',
+  },
+  chipActive: {
+    backgroundColor: '#E91E63',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#E91E63',
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: '#757575',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  groupNote: {
+    fontSize: 13,
+    color: '#757575',
+    marginBottom: 8,
+  },
 });
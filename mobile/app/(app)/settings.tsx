@@ -31,6 +31,12 @@ const SETTINGS_ITEMS = [
     icon: 'lock',
     route: 'settings/privacy',
   },
+  {
+    title: 'Offline Stories',
+    description: 'Stories saved for reading without a connection',
+    icon: 'download',
+    route: 'settings/offline',
+  },
 ];
 
 export default function SettingsScreen() {
@@ -50,6 +50,12 @@ export default function SettingsLayout() {
           title: 'Notifications',
         }}
       />
+      <Stack.Screen
+        name="offline"
+        options={{
+          title: 'Offline Stories',
+        }}
+      />
     </Stack>
   );
 }
\ No newline at end of file
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  TouchableOpacity,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Feather } from '@expo/vector-icons';
+import { useOfflineLibraryStore } from '@/stores/offlineLibraryStore';
+import { useOfflineStore } from '@/stores/offlineStore';
+import { Button } from '@/components/Button';
+import { formatBytes } from '@/lib/localDatabase';
+import type { StoryDownload } from '@/lib/types';
+
+export default function OfflineStoriesScreen() {
+  const {
+    downloads,
+    usage,
+    syncingStoryIds,
+    loadDownloads,
+    setStoryDownloaded,
+    syncDownloadedStories,
+  } = useOfflineLibraryStore();
+  const isConnected = useOfflineStore((state) => state.isConnected);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDownloads();
+  }, []);
+
+  const stories = Object.values(downloads).sort((a, b) => a.title.localeCompare(b.title));
+
+  const handleSyncAll = async () => {
+    setIsSyncing(true);
+    try {
+      await syncDownloadedStories();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleRemove = (download: StoryDownload) => {
+    Alert.alert(
+      'Remove the offline copy?',
+      `"${download.title || 'This story'}" stays in your library, but it will need a connection to open.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setRemovingId(download.storyId);
+            try {
+              await setStoryDownloaded(download.storyId, false);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove the offline copy');
+            } finally {
+              setRemovingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const describeSync = (download: StoryDownload): string => {
+    if (syncingStoryIds.includes(download.storyId)) return 'Syncing...';
+    if (!download.syncedAt) return 'Not synced yet';
+    return `Synced ${new Date(download.syncedAt).toLocaleString()}`;
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Feather name="arrow-left" size={24} color="#757575" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Offline Stories</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        {/* Storage */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Storage</Text>
+          <Text style={styles.usage}>{formatBytes(usage.totalBytes)}</Text>
+          <Text style={styles.description}>
+            Used on this device by chapters, characters, ideas and image thumbnails
+            {stories.length > 0 ? ` from ${stories.length} ${stories.length === 1 ? 'story' : 'stories'}` : ''}.
+          </Text>
+          <Button
+            variant="secondary"
+            size="sm"
+            onPress={handleSyncAll}
+            isLoading={isSyncing}
+            disabled={!isConnected || stories.length === 0}
+            style={styles.syncButton}
+          >
+            Sync now
+          </Button>
+          {!isConnected && (
+            <Text style={styles.description}>You're offline. Stories sync when you reconnect.</Text>
+          )}
+        </View>
+
+        {/* Downloaded stories */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Downloaded</Text>
+
+          {stories.length === 0 ? (
+            <Text style={styles.description}>
+              Turn on "Available offline" on a story to read it without a connection.
+            </Text>
+          ) : (
+            stories.map((download) => (
+              <View key={download.storyId} style={styles.storyItem}>
+                <TouchableOpacity
+                  style={styles.storyLeft}
+                  onPress={() => router.push(`/story/${download.storyId}`)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.storyTitle}>{download.title || 'Untitled story'}</Text>
+                  <Text style={styles.description}>
+                    {formatBytes(usage.stories[download.storyId] || 0)} · {describeSync(download)}
+                  </Text>
+                </TouchableOpacity>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onPress={() => handleRemove(download)}
+                  isLoading={removingId === download.storyId}
+                >
+                  Remove
+                </Button>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FAFAFA',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#212121',
+    flex: 1,
+    textAlign: 'center',
+  },
+  placeholder: {
+    width: 40,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 16,
+  },
+  usage: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#E91E63',
+    marginBottom: 4,
+  },
+  description: {
+    fontSize: 14,
+    color: '#757575',
+  },
+  syncButton: {
+    marginTop: 16,
+    marginBottom: 8,
+    alignSelf: 'flex-start',
+  },
+  storyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#F5F5F5',
+  },
+  storyLeft: {
+    flex: 1,
+    marginRight: 12,
+  },
+  storyTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#212121',
+    marginBottom: 2,
+  },
+});
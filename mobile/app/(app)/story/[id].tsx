@@ -11,6 +11,8 @@ import {
   FlatList,
   ActivityIndicator,
   Animated,
+  Image,
+  Switch,
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { useStoriesStore } from '@/stores/storiesStore';
@@ -18,8 +20,14 @@ import { useDemoStore } from '@/stores/demoStore';
 import { useAuthStore } from '@/stores/authStore';
 import { useGamificationStore } from '@/stores/gamificationStore';
 import { usePresenceStore } from '@/stores/presenceStore';
+import { useNarrationStore } from '@/stores/narrationStore';
+import { useListenTogetherStore } from '@/stores/listenTogetherStore';
+import { useCoWritingStore } from '@/stores/coWritingStore';
+import { useOfflineStore } from '@/stores/offlineStore';
+import { useOfflineLibraryStore } from '@/stores/offlineLibraryStore';
 import { supabase } from '@/lib/supabase';
-import { Story, Chapter, Media } from '@/lib/types';
+import { Story, Chapter, ChapterChoice, ChapterNode, Media } from '@/lib/types';
+import { buildChapterTree, findChoice, getActivePath, getBranchPath, flattenChapterTree, getOpenChoices } from '@/lib/chapterTree';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { Card } from '@/components/Card';
 import { Button } from '@/components/Button';
@@ -28,6 +36,14 @@ import MediaGallery from '@/components/MediaGallery';
 import { AICoverArtGenerator } from '@/components/AICoverArtGenerator';
 import { ExportDialog } from '@/components/ExportDialog';
 import { ShareableCardDialog } from '@/components/ShareableCardDialog';
+import { NarrationPlayer } from '@/components/NarrationPlayer';
+import { ChapterHistory } from '@/components/ChapterHistory';
+import { TurnSettingsDialog } from '@/components/TurnSettingsDialog';
+import { StorySettingsDialog } from '@/components/StorySettingsDialog';
+import { StoryWritersDialog } from '@/components/StoryWritersDialog';
+import { getTurnDeadline, formatTimeLeft } from '@/lib/storyTurns';
+import { getStorySettings } from '@/lib/storySettings';
+import { formatBytes } from '@/lib/localDatabase';
 import { Theme } from '@/lib/types';
 
 const ACTIONS_ROW_HEIGHT = 80;
@@ -80,20 +96,32 @@ const generatePairingCode = (): string => {
 };
 
 export default function StoryDetailScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
-  const { currentStory, isLoading, fetchStory, subscribeToStory, unsubscribe, isConfigured } = useStoriesStore();
+  const { id, branch } = useLocalSearchParams<{ id: string; branch?: string }>();
+  const { currentStory, isLoading, fetchStory, fetchChapterTree, setStoryCover, subscribeToStory, unsubscribe, isConfigured, skipTurn, passTurn, chapterConflicts, fetchChapterConflicts } = useStoriesStore();
+  const lastSyncAt = useOfflineStore((state) => state.lastSyncAt);
+  const isConnected = useOfflineStore((state) => state.isConnected);
+  const { downloads, usage, syncingStoryIds, loadDownloads, setStoryDownloaded } = useOfflineLibraryStore();
   const { getStory, getChapters } = useDemoStore();
   const isAuthConfigured = useAuthStore((state) => state.isConfigured);
   const { profile } = useAuthStore((state) => ({ profile: state.profile }));
   const { streak } = useGamificationStore();
+  const coWriteInvite = useCoWritingStore((state) => (state.sessionId ? null : state.invite));
 
   const [story, setStory] = useState<Story | null>(null);
   const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [chapterTree, setChapterTree] = useState<ChapterNode | null>(null);
   const [media, setMedia] = useState<Media[]>([]);
   const [isLoadingChapters, setIsLoadingChapters] = useState(false);
   const [error, setError] = useState<string>('');
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [showShareCardDialog, setShowShareCardDialog] = useState(false);
+  const [showNarration, setShowNarration] = useState(false);
+  const [historyChapter, setHistoryChapter] = useState<Chapter | null>(null);
+  const [showTurnSettings, setShowTurnSettings] = useState(false);
+  const [showStorySettings, setShowStorySettings] = useState(false);
+  const [showWriters, setShowWriters] = useState(false);
+  const [isHandingOver, setIsHandingOver] = useState(false);
+  const [isSavingOffline, setIsSavingOffline] = useState(false);
   const [showMediaGallery, setShowMediaGallery] = useState(false);
   const [showAICoverArt, setShowAICoverArt] = useState(false);
   const [presence, setPresence] = useState(PRESENCE_STATES.offline);
@@ -112,22 +140,22 @@ export default function StoryDetailScreen() {
           setIsLoadingChapters(true);
           setError('');
           try {
-            const { data, error: fetchError } = await supabase
-              .from('chapters')
-              .select('*')
-              .eq('story_id', id)
-              .order('chapter_number', { ascending: true });
-
-            if (fetchError) throw fetchError;
-            setChapters(data || []);
-
-            // Fetch media
-            const { data: mediaData } = await supabase
-              .from('media')
-              .select('*')
-              .eq('story_id', id);
-
-            setMedia(mediaData || []);
+            // Show the branch being written; other branches stay in the tree
+            const tree = await fetchChapterTree(id);
+            setChapterTree(tree);
+            setChapters(branch ? getBranchPath(tree, branch) : getActivePath(tree));
+
+            // Fetch media, or the thumbnails saved with a downloaded story
+            if (useOfflineStore.getState().isConnected) {
+              const { data: mediaData } = await supabase
+                .from('media')
+                .select('*')
+                .eq('story_id', id);
+
+              setMedia(mediaData || []);
+            } else {
+              setMedia(await useOfflineLibraryStore.getState().loadMedia(id));
+            }
           } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Failed to fetch chapters';
             setError(errorMessage);
@@ -146,14 +174,56 @@ export default function StoryDetailScreen() {
         const demoStory = getStory(id);
         if (demoStory) {
           setStory(demoStory);
-          setChapters(getChapters(id || ''));
+          const tree = buildChapterTree(getChapters(id || ''));
+          setChapterTree(tree);
+          setChapters(branch ? getBranchPath(tree, branch) : getActivePath(tree));
         }
         // Simulate partner presence
         setTimeout(() => setPresence(PRESENCE_STATES.online), 2000);
       }
     }
+  }, [id, branch, isAuthConfigured]);
+
+  useEffect(() => {
+    if (isAuthConfigured) {
+      loadDownloads();
+    }
+  }, [isAuthConfigured]);
+
+  // Chapters written offline can come back as conflicts whenever the outbox syncs
+  useEffect(() => {
+    if (isAuthConfigured && id) {
+      fetchChapterConflicts(id);
+    }
+  }, [id, isAuthConfigured, lastSyncAt]);
+
+  // Narration keeps playing while the player is closed, but not after leaving the story.
+  // While the story is open, partners can see and join each other's listening
+  // and writing sessions.
+  useEffect(() => {
+    if (isAuthConfigured && id) {
+      useListenTogetherStore.getState().watch(id);
+      useCoWritingStore.getState().watch(id);
+    }
+    return () => {
+      useListenTogetherStore.getState().unwatch();
+      useCoWritingStore.getState().unwatch();
+      useNarrationStore.getState().stop();
+    };
   }, [id, isAuthConfigured]);
 
+  // Keep the tree in step with realtime refreshes of the current story
+  useEffect(() => {
+    if (isAuthConfigured && currentStory?.id === id && currentStory.chapterTree !== undefined) {
+      setChapterTree(currentStory.chapterTree);
+      setChapters(
+        branch
+          ? getBranchPath(currentStory.chapterTree, branch)
+          : getActivePath(currentStory.chapterTree)
+      );
+    }
+  }, [id, branch, isAuthConfigured, currentStory?.id, currentStory?.chapterTree]);
+
   // Animate presence changes
   useEffect(() => {
     Animated.sequence([
@@ -172,7 +242,11 @@ export default function StoryDetailScreen() {
 
   // Use currentStory from Supabase or demo story
   const displayStory = isAuthConfigured ? currentStory : story;
-  const displayChapters = isAuthConfigured ? chapters : getChapters(id || '');
+  const displayChapters = chapters;
+  const lastChapter = (displayChapters[displayChapters.length - 1] as ChapterNode | undefined) || null;
+  const endingChoices = lastChapter?.choices || [];
+  const openChoices = lastChapter ? getOpenChoices(lastChapter) : [];
+  const hasBranches = flattenChapterTree(chapterTree).some(node => node.choices.length > 0);
 
   if ((isAuthConfigured && (isLoading || !currentStory)) || (!isAuthConfigured && !story)) {
     return <LoadingSpinner />;
@@ -193,18 +267,176 @@ export default function StoryDetailScreen() {
 
   const theme = THEME_INFO[displayStory.theme];
   const hasPartner = true; // Always true in demo mode
-  const isMyTurn = true; // Demo mode allows writing anytime
+  // Demo mode allows writing anytime
+  const storySettings = getStorySettings(displayStory);
+  const isFreeForAll = storySettings.turnMode === 'free';
+  const isMyTurn = !isAuthConfigured || (!!profile && displayStory.current_turn === profile.id);
+  const turnDeadline = isAuthConfigured && storySettings.turnMode === 'timed' ? getTurnDeadline(displayStory) : null;
 
   const getAuthorName = (authorId: string): string => {
     if (!isAuthConfigured) {
       const profile = DEMO_PROFILES[authorId];
       return profile?.display_name || 'Author';
     }
-    return 'Author';
+    const member = currentStory?.members.find(m => m.user_id === authorId);
+    return member?.profile?.display_name || 'Author';
+  };
+
+  // Bylines for exported books
+  const exportAuthors = Object.fromEntries(
+    displayChapters.map(chapter => [chapter.author_id, getAuthorName(chapter.author_id)])
+  );
+
+  const turnHolderName = displayStory.current_turn ? getAuthorName(displayStory.current_turn) : 'your partner';
+
+  // Everyone else in the story, in turn order
+  const coWriterNames = (currentStory?.members || [])
+    .filter(member => member.user_id !== profile?.id)
+    .map(member => member.profile?.display_name || 'Writer');
+  const coWritersText = !isAuthConfigured || coWriterNames.length === 0
+    ? 'Partner'
+    : coWriterNames.length <= 2
+      ? coWriterNames.join(' and ')
+      : `${coWriterNames.slice(0, -1).join(', ')} and ${coWriterNames[coWriterNames.length - 1]}`;
+  const openConflicts = isAuthConfigured && id ? chapterConflicts[id] || [] : [];
+  const offlineDownload = id ? downloads[id] : undefined;
+  const isSyncingOffline = isSavingOffline || (!!id && syncingStoryIds.includes(id));
+
+  const describeDeadline = (): string | null => {
+    if (!turnDeadline) return null;
+    if (turnDeadline.phase === 'on_time') {
+      return `Due in ${formatTimeLeft(turnDeadline.deadline)}`;
+    }
+    if (turnDeadline.phase === 'grace') {
+      return `Overdue · passes on in ${formatTimeLeft(turnDeadline.graceEndsAt)}`;
+    }
+    return 'Overdue · passing on shortly';
+  };
+  const deadlineText = describeDeadline();
+
+  const runHandOver = async (handOver: () => Promise<void>) => {
+    setIsHandingOver(true);
+    try {
+      await handOver();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to hand over your turn');
+    } finally {
+      setIsHandingOver(false);
+    }
+  };
+
+  const handleSkipTurn = () => {
+    Alert.alert(
+      'Skip your turn?',
+      'The next writer takes over without a chapter from you.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Skip', style: 'destructive', onPress: () => runHandOver(() => skipTurn(displayStory.id)) },
+      ]
+    );
+  };
+
+  const handlePassPen = () => {
+    const others = (currentStory?.members || []).filter(m => m.user_id !== profile?.id);
+    if (others.length <= 1) {
+      runHandOver(() => passTurn(displayStory.id, others[0]?.user_id));
+      return;
+    }
+
+    Alert.alert(
+      'Pass the pen to...',
+      undefined,
+      [
+        ...others.map(member => ({
+          text: member.profile?.display_name || 'Writer',
+          onPress: () => runHandOver(() => passTurn(displayStory.id, member.user_id)),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleToggleOffline = (downloaded: boolean) => {
+    const apply = async () => {
+      setIsSavingOffline(true);
+      try {
+        await setStoryDownloaded(displayStory.id, downloaded);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update the offline copy');
+      } finally {
+        setIsSavingOffline(false);
+      }
+    };
+
+    if (downloaded) {
+      apply();
+      return;
+    }
+
+    Alert.alert(
+      'Remove the offline copy?',
+      'The story stays in your library, but it will need a connection to open.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: apply },
+      ]
+    );
+  };
+
+  // Partners get their own narration voice
+  const narrationPartners = Object.fromEntries(
+    (currentStory?.members || []).map(member => [member.user_id, member.profile?.display_name || 'Partner'])
+  );
+
+  const handleCoverGenerated = async (coverUrl: string) => {
+    if (!isAuthConfigured) {
+      return;
+    }
+    try {
+      await setStoryCover(displayStory.id, coverUrl);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save cover art');
+    }
+  };
+
+  const handleContinueChoice = (choice: ChapterChoice) => {
+    router.push(`/write/${id}?choiceId=${choice.id}`);
   };
 
   const handleWriteChapter = () => {
-    router.push(`/write/${id}`);
+    if (endingChoices.length === 0) {
+      router.push(`/write/${id}`);
+      return;
+    }
+
+    if (openChoices.length === 0) {
+      Alert.alert(
+        'Every path is written',
+        'Each choice at the end of this chapter already has a chapter. Continue from the latest one instead.'
+      );
+      return;
+    }
+
+    // The last chapter ends with choices, so ask which one to continue
+    Alert.alert(
+      'Which way does the story go?',
+      undefined,
+      [
+        ...openChoices.map(choice => ({
+          text: choice.title,
+          onPress: () => handleContinueChoice(choice),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleStoryMap = () => {
+    router.push(`/story/${id}/tree`);
+  };
+
+  const handleStoryBible = () => {
+    router.push(`/story/${id}/bible`);
   };
 
   const handleInspirations = () => {
@@ -217,6 +449,14 @@ export default function StoryDetailScreen() {
       { text: 'Close', style: 'cancel' },
     ];
 
+    // Every member can read how a chapter changed
+    if (isAuthConfigured) {
+      buttons.unshift({
+        text: 'History',
+        onPress: () => setHistoryChapter(chapter),
+      });
+    }
+
     // Add edit button for chapter owner
     if (canEdit) {
       buttons.unshift({
@@ -277,11 +517,25 @@ export default function StoryDetailScreen() {
               </Text>
             </Animated.View>
             <Text style={styles.partnerStatus}>
-              Writing with {isAuthConfigured ? 'Partner' : 'Partner'}
+              Writing with {coWritersText}
             </Text>
           </View>
         )}
 
+        {/* Offline chapters waiting for a decision */}
+        {openConflicts.length > 0 && (
+          <Card variant="outlined" style={[styles.statusCard, styles.conflictCard]}>
+            <Text style={styles.conflictText}>
+              {openConflicts.length === 1
+                ? 'A chapter written offline clashed with the story and needs a decision.'
+                : `${openConflicts.length} chapters written offline clashed with the story and need a decision.`}
+            </Text>
+            <Button variant="secondary" size="sm" onPress={() => router.push(`/story/${id}/conflicts`)}>
+              Sort it out
+            </Button>
+          </Card>
+        )}
+
         {/* Status Card */}
         <Card variant="outlined" style={styles.statusCard}>
           {hasPartner ? (
@@ -291,8 +545,20 @@ export default function StoryDetailScreen() {
                 {isAuthConfigured ? 'Partner' : 'Partner'}
               </Text>
               <Text style={styles.turnStatus}>
-                {isMyTurn ? "It's your turn to write!" : "Waiting for partner's turn"}
+                {isFreeForAll
+                  ? 'Free for all: write whenever you like'
+                  : isMyTurn ? "It's your turn to write!" : `Waiting for ${turnHolderName}`}
               </Text>
+              {storySettings.targetChapters !== null && (
+                <Text style={styles.turnDeadline}>
+                  {`Chapter ${displayChapters.length} of ${storySettings.targetChapters}`}
+                </Text>
+              )}
+              {deadlineText && (
+                <Text style={[styles.turnDeadline, turnDeadline?.phase !== 'on_time' && styles.turnOverdue]}>
+                  {deadlineText}
+                </Text>
+              )}
               <View style={styles.quickActions}>
                 <Button
                   variant="ghost"
@@ -308,7 +574,54 @@ export default function StoryDetailScreen() {
                 >
                   💡 Ideas
                 </Button>
+                {isAuthConfigured && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onPress={() => setShowTurnSettings(true)}
+                  >
+                    ⏱️ Turns
+                  </Button>
+                )}
+                {isAuthConfigured && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onPress={() => setShowStorySettings(true)}
+                  >
+                    ⚙️ Rules
+                  </Button>
+                )}
+                {isAuthConfigured && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onPress={() => setShowWriters(true)}
+                  >
+                    👥 Writers
+                  </Button>
+                )}
               </View>
+              {isAuthConfigured && !isFreeForAll && isMyTurn && displayStory.current_turn && (
+                <View style={styles.quickActions}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onPress={handlePassPen}
+                    disabled={isHandingOver}
+                  >
+                    🖊️ Pass the pen
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onPress={handleSkipTurn}
+                    disabled={isHandingOver}
+                  >
+                    ⏭️ Skip my turn
+                  </Button>
+                </View>
+              )}
             </View>
           ) : (
             <View style={styles.statusContent}>
@@ -318,6 +631,25 @@ export default function StoryDetailScreen() {
           )}
         </Card>
 
+        {/* A partner is writing the next chapter and the draft is open */}
+        {coWriteInvite && (
+          <Card variant="outlined" style={styles.coWriteCard}>
+            <Text style={styles.insightsTitle}>Writing together</Text>
+            <Text style={styles.offlineText}>
+              {coWriteInvite.userIds.map(getAuthorName).join(' and ')}{' '}
+              {coWriteInvite.userIds.length === 1 ? 'is' : 'are'} writing the next chapter. Join to write it with them.
+            </Text>
+            <Button
+              variant="secondary"
+              size="sm"
+              onPress={() => router.push(`/write/${id}?session=${coWriteInvite.sessionId}`)}
+              style={styles.coWriteButton}
+            >
+              ✍️ Join
+            </Button>
+          </Card>
+        )}
+
         {/* AI Cover Art */}
         <Card variant="elevated" style={styles.coverArtCard}>
           <View style={styles.coverArtHeader}>
@@ -330,9 +662,18 @@ export default function StoryDetailScreen() {
               🎨 Generate
             </Button>
           </View>
-          <View style={styles.coverArtPlaceholder}>
-            <Text style={styles.coverArtText}>🖼️ AI-generated art will appear here</Text>
-          </View>
+          {displayStory.cover_image_url ? (
+            <Image
+              source={{ uri: displayStory.cover_image_url }}
+              style={styles.coverArtImage}
+              resizeMode="cover"
+              accessibilityLabel={`${displayStory.title} cover art`}
+            />
+          ) : (
+            <View style={styles.coverArtPlaceholder}>
+              <Text style={styles.coverArtText}>🖼️ AI-generated art will appear here</Text>
+            </View>
+          )}
         </Card>
 
         {/* Relationship Insights */}
@@ -354,11 +695,55 @@ export default function StoryDetailScreen() {
           </View>
         </Card>
 
+        {/* Offline copy */}
+        {isAuthConfigured && (
+          <Card variant="outlined" style={styles.offlineCard}>
+            <View style={styles.offlineRow}>
+              <Text style={styles.insightsTitle}>Available offline</Text>
+              <Switch
+                value={!!offlineDownload}
+                onValueChange={handleToggleOffline}
+                disabled={isSavingOffline || (!offlineDownload && !isConnected)}
+                trackColor={{ true: COLORS.primary, false: COLORS.border }}
+              />
+            </View>
+            <Text style={styles.offlineText}>
+              {isSyncingOffline
+                ? 'Saving chapters, characters, ideas and images to this device...'
+                : offlineDownload
+                  ? `${formatBytes(usage.stories[offlineDownload.storyId] || 0)} on this device · ${
+                      offlineDownload.syncedAt
+                        ? `synced ${new Date(offlineDownload.syncedAt).toLocaleString()}`
+                        : 'not synced yet'
+                    }`
+                  : isConnected
+                    ? 'Keep chapters, characters, ideas and images on this device to read without a connection.'
+                    : 'Connect to the internet to download this story.'}
+            </Text>
+          </Card>
+        )}
+
         {/* Chapters Section */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Chapters ({displayChapters.length})</Text>
             <View style={styles.sectionActions}>
+              {hasBranches ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onPress={handleStoryMap}
+                >
+                  🌳 Story Map
+                </Button>
+              ) : null}
+              <Button
+                variant="ghost"
+                size="sm"
+                onPress={handleStoryBible}
+              >
+                📖 Story Bible
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -373,6 +758,16 @@ export default function StoryDetailScreen() {
               >
                 📥 Export
               </Button>
+              {isAuthConfigured && displayChapters.length > 0 ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onPress={() => setShowNarration(true)}
+                  accessibilityLabel="Listen to the story"
+                >
+                  🎧 Listen
+                </Button>
+              ) : null}
             </View>
           </View>
 
@@ -393,6 +788,7 @@ export default function StoryDetailScreen() {
               data={displayChapters}
               renderItem={({ item }) => {
                 const canEdit = profile && item.author_id === profile.id;
+                const viaChoice = item.choice_id ? findChoice(chapterTree, item.choice_id)?.choice : null;
                 return (
                   <Pressable
                     key={item.id}
@@ -416,11 +812,16 @@ export default function StoryDetailScreen() {
                           )}
                         </View>
                       </View>
+                      {viaChoice && (
+                        <Text style={styles.viaChoiceLabel}>↳ {viaChoice.title}</Text>
+                      )}
                       <Text style={styles.chapterPreview} numberOfLines={4}>
                         {item.ai_enhanced_content || item.content}
                       </Text>
                       <View style={styles.chapterFooter}>
-                        <Text style={styles.authorLabel}>By {getAuthorName(item.author_id)}</Text>
+                        <Text style={styles.authorLabel}>
+                          By {[item.author_id, ...(item.co_author_ids || [])].map(getAuthorName).join(' & ')}
+                        </Text>
                         {canEdit && (
                           <TouchableOpacity
                             style={styles.editButton}
@@ -439,6 +840,38 @@ export default function StoryDetailScreen() {
               showsVerticalScrollIndicator={false}
             />
           )}
+
+          {/* Choice endings of the last chapter */}
+          {endingChoices.length > 0 && (
+            <View style={styles.choicesSection}>
+              <Text style={styles.choicesTitle}>What happens next?</Text>
+              {endingChoices.map(choice => {
+                const isOpen = openChoices.some(open => open.id === choice.id);
+                return (
+                  <Pressable
+                    key={choice.id}
+                    onPress={() => handleContinueChoice(choice)}
+                    disabled={!isOpen}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Continue with ${choice.title}`}
+                  >
+                    <Card
+                      variant="outlined"
+                      style={isOpen ? styles.choiceCard : [styles.choiceCard, styles.choiceCardTaken]}
+                    >
+                      <Text style={styles.choiceTitle}>{choice.title}</Text>
+                      {choice.description && (
+                        <Text style={styles.choiceDescription}>{choice.description}</Text>
+                      )}
+                      <Text style={styles.choiceStatus}>
+                        {isOpen ? '✍️ Write this path' : '✓ Already written'}
+                      </Text>
+                    </Card>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
         </View>
 
         {/* Media Gallery Preview */}
@@ -547,10 +980,7 @@ export default function StoryDetailScreen() {
           storyTitle={displayStory.title}
           theme={displayStory.theme}
           onClose={() => setShowAICoverArt(false)}
-          onCoverGenerated={(coverUrl: any) => {
-            // Save cover art
-            console.log('Cover art generated:', coverUrl);
-          }}
+          onCoverGenerated={handleCoverGenerated}
         />
       </Modal>
 
@@ -562,6 +992,49 @@ export default function StoryDetailScreen() {
         story={displayStory}
         chapters={displayChapters}
         inspirations={[]}
+        authors={exportAuthors}
+      />
+
+      <ChapterHistory
+        visible={historyChapter !== null}
+        onClose={() => setHistoryChapter(null)}
+        chapter={historyChapter}
+        canRestore={!!profile && historyChapter?.author_id === profile.id}
+      />
+
+      {isAuthConfigured && (
+        <TurnSettingsDialog
+          visible={showTurnSettings}
+          onClose={() => setShowTurnSettings(false)}
+          story={displayStory}
+          writers={narrationPartners}
+        />
+      )}
+
+      {isAuthConfigured && (
+        <StorySettingsDialog
+          visible={showStorySettings}
+          onClose={() => setShowStorySettings(false)}
+          story={displayStory}
+        />
+      )}
+
+      {isAuthConfigured && (
+        <StoryWritersDialog
+          visible={showWriters}
+          onClose={() => setShowWriters(false)}
+          story={displayStory}
+          members={currentStory?.members || []}
+          currentUserId={profile?.id}
+        />
+      )}
+
+      <NarrationPlayer
+        visible={showNarration}
+        onClose={() => setShowNarration(false)}
+        story={displayStory}
+        chapters={displayChapters}
+        partners={narrationPartners}
       />
 
       <ShareableCardDialog
@@ -670,6 +1143,16 @@ const styles = StyleSheet.create({
   statusCard: {
     marginBottom: 8,
   },
+  conflictCard: {
+    borderColor: '#E91E63',
+    backgroundColor: '#FCE4EC',
+    gap: 8,
+  },
+  conflictText: {
+    fontSize: 14,
+    color: '#212121',
+    lineHeight: 20,
+  },
   statusContent: {
     alignItems: 'center',
     gap: 4,
@@ -691,6 +1174,14 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     textAlign: 'center',
   },
+  turnDeadline: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+  turnOverdue: {
+    color: COLORS.error,
+  },
   pairingCode: {
     fontSize: 32,
     fontWeight: '700',
@@ -700,6 +1191,7 @@ const styles = StyleSheet.create({
   },
   quickActions: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
     marginTop: 8,
   },
@@ -724,6 +1216,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  coverArtImage: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 8,
+  },
   coverArtText: {
     fontSize: 14,
     color: COLORS.textSecondary,
@@ -731,6 +1228,28 @@ const styles = StyleSheet.create({
   insightsCard: {
     marginBottom: 8,
   },
+  offlineCard: {
+    marginBottom: 8,
+    gap: 4,
+  },
+  offlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  coWriteCard: {
+    marginBottom: 8,
+    gap: 4,
+  },
+  coWriteButton: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  offlineText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    lineHeight: 18,
+  },
   insightsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -850,6 +1369,44 @@ const styles = StyleSheet.create({
     color: COLORS.textSecondary,
     marginTop: 8,
   },
+  viaChoiceLabel: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: COLORS.accent,
+    marginBottom: 4,
+  },
+  choicesSection: {
+    marginTop: 8,
+  },
+  choicesTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  choiceCard: {
+    marginBottom: 8,
+    borderColor: COLORS.accent,
+  },
+  choiceCardTaken: {
+    opacity: 0.6,
+    borderColor: COLORS.border,
+  },
+  choiceTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  choiceDescription: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+  },
+  choiceStatus: {
+    fontSize: 12,
+    color: COLORS.accent,
+    marginTop: 8,
+  },
   chapterBadges: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,360 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Text,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { useStoriesStore } from '@/stores/storiesStore';
+import { useAuthStore } from '@/stores/authStore';
+import { useStoryBibleStore } from '@/stores/storyBibleStore';
+import { StoryBibleSection } from '@/lib/types';
+import { BIBLE_SECTION_HINTS, MAX_BIBLE_SECTION_LENGTH, MAX_BIBLE_TITLE_LENGTH } from '@/lib/storyBible';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { Input } from '@/components/Input';
+import { TextArea } from '@/components/TextArea';
+
+const COLORS = {
+  primary: '#E91E63',
+  surface: '#FFFFFF',
+  text: '#212121',
+  textSecondary: '#757575',
+  background: '#FAFAFA',
+  border: '#E0E0E0',
+  error: '#F44336',
+  accent: '#9C27B0',
+  highlight: '#FCE4EC',
+};
+
+export default function StoryBibleScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { currentStory, fetchStory } = useStoriesStore();
+  const profile = useAuthStore((state) => state.profile);
+  const {
+    sections,
+    drafts,
+    changedByPartner,
+    savingIds,
+    isLoading,
+    error,
+    openBible,
+    closeBible,
+    editSection,
+    discardDraft,
+    addSection,
+    renameSection,
+    removeSection,
+  } = useStoryBibleStore();
+
+  const [newTitle, setNewTitle] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [renaming, setRenaming] = useState<{ sectionId: string; title: string } | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    if (currentStory?.id !== id) {
+      fetchStory(id);
+    }
+    openBible(id);
+
+    return () => {
+      closeBible();
+    };
+  }, [id]);
+
+  if (isLoading && sections.length === 0) {
+    return <LoadingSpinner />;
+  }
+
+  const getEditorName = (userId: string | null): string | null => {
+    if (!userId) return null;
+    if (profile && userId === profile.id) {
+      return 'you';
+    }
+    const member = currentStory?.members.find(m => m.user_id === userId);
+    return member?.profile?.display_name || 'your partner';
+  };
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      await addSection(newTitle);
+      setNewTitle('');
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to add section');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    try {
+      await renameSection(renaming.sectionId, renaming.title);
+      setRenaming(null);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to rename section');
+    }
+  };
+
+  const handleRemove = (section: StoryBibleSection) => {
+    Alert.alert(
+      `Remove "${section.title}"?`,
+      'It is removed for both of you.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeSection(section.id);
+            } catch (err) {
+              Alert.alert('Error', err instanceof Error ? err.message : 'Failed to remove section');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const describeStatus = (section: StoryBibleSection): string | null => {
+    if (savingIds.includes(section.id)) return 'Saving…';
+    if (drafts[section.id] !== undefined) return 'Not saved yet';
+    const editor = getEditorName(section.updated_by);
+    return editor && section.content ? `Last edited by ${editor}` : null;
+  };
+
+  const describePartnerChange = (section: StoryBibleSection): string => {
+    const editor = getEditorName(section.updated_by);
+    if (editor === 'you') {
+      return 'You changed this on another device while typing here.';
+    }
+    return editor === 'your partner' || !editor
+      ? 'Your partner changed this while you were typing.'
+      : `${editor} changed this while you were typing.`;
+  };
+
+  const renderSection = (section: StoryBibleSection) => {
+    const draft = drafts[section.id];
+    const status = describeStatus(section);
+    const isRenaming = renaming?.sectionId === section.id;
+
+    return (
+      <Card key={section.id} variant="outlined" style={styles.sectionCard}>
+        {isRenaming ? (
+          <View>
+            <Input
+              label="Section name"
+              value={renaming.title}
+              onChangeText={(title) => setRenaming({ sectionId: section.id, title })}
+              maxLength={MAX_BIBLE_TITLE_LENGTH}
+            />
+            <View style={styles.actions}>
+              <Button variant="ghost" size="sm" onPress={() => setRenaming(null)}>
+                Cancel
+              </Button>
+              <Button variant="primary" size="sm" onPress={handleRename} disabled={!renaming.title.trim()}>
+                Rename
+              </Button>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+            {section.kind === 'custom' && (
+              <View style={styles.sectionActions}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onPress={() => setRenaming({ sectionId: section.id, title: section.title })}
+                >
+                  Rename
+                </Button>
+                <Button variant="ghost" size="sm" onPress={() => handleRemove(section)}>
+                  Remove
+                </Button>
+              </View>
+            )}
+          </View>
+        )}
+
+        {changedByPartner.includes(section.id) && (
+          <View style={styles.partnerNotice}>
+            <Text style={styles.partnerNoticeText}>
+              {describePartnerChange(section)} Your version will save over theirs unless you switch.
+            </Text>
+            <Text style={styles.partnerVersion} numberOfLines={6}>
+              {section.content || 'They emptied it.'}
+            </Text>
+            <View style={styles.actions}>
+              <Button variant="secondary" size="sm" onPress={() => discardDraft(section.id)}>
+                Use theirs
+              </Button>
+            </View>
+          </View>
+        )}
+
+        <TextArea
+          description={BIBLE_SECTION_HINTS[section.kind]}
+          value={draft ?? section.content}
+          onChangeText={(content) => editSection(section.id, content)}
+          placeholder="Nothing here yet"
+          maxLength={MAX_BIBLE_SECTION_LENGTH}
+          rows={5}
+        />
+        {status && <Text style={styles.status}>{status}</Text>}
+      </Card>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <Button variant="ghost" size="sm" onPress={() => router.back()}>
+          ← Back
+        </Button>
+        <Text style={styles.title}>Story Bible</Text>
+        {currentStory?.title && <Text style={styles.subtitle}>{currentStory.title}</Text>}
+        <Text style={styles.stats}>
+          Notes you both keep as you go. The AI reads them too, so suggestions stay true to your story.
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        {sections.map(renderSection)}
+
+        <Card variant="outlined" style={styles.sectionCard}>
+          <Input
+            label="Add a section"
+            value={newTitle}
+            onChangeText={setNewTitle}
+            placeholder="e.g. Characters' pets"
+            maxLength={MAX_BIBLE_TITLE_LENGTH}
+          />
+          <View style={styles.actions}>
+            <Button
+              variant="primary"
+              size="sm"
+              onPress={handleAdd}
+              isLoading={isAdding}
+              disabled={!newTitle.trim()}
+            >
+              Add section
+            </Button>
+          </View>
+        </Card>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    paddingTop: 56,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  stats: {
+    fontSize: 13,
+    color: COLORS.accent,
+    marginTop: 8,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  error: {
+    fontSize: 14,
+    color: COLORS.error,
+    marginBottom: 12,
+  },
+  sectionCard: {
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.text,
+    flexShrink: 1,
+  },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  partnerNotice: {
+    backgroundColor: COLORS.highlight,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  partnerNoticeText: {
+    fontSize: 13,
+    color: COLORS.text,
+    lineHeight: 18,
+    marginBottom: 6,
+  },
+  partnerVersion: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    lineHeight: 20,
+  },
+  status: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+});
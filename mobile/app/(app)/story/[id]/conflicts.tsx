@@ -0,0 +1,416 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Text,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { useStoriesStore } from '@/stores/storiesStore';
+import { useAuthStore } from '@/stores/authStore';
+import { ChapterConflict, ChapterConflictResolution } from '@/lib/types';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { Input } from '@/components/Input';
+import { TextArea } from '@/components/TextArea';
+
+const COLORS = {
+  primary: '#E91E63',
+  surface: '#FFFFFF',
+  text: '#212121',
+  textSecondary: '#757575',
+  background: '#FAFAFA',
+  border: '#E0E0E0',
+  error: '#F44336',
+  accent: '#9C27B0',
+  highlight: '#FCE4EC',
+};
+
+const DEFAULT_BRANCH_TITLES: [string, string] = ['As it was written', 'Another way'];
+
+type Editing =
+  | { type: 'merge'; conflictId: string; content: string }
+  | { type: 'branch'; conflictId: string; titles: [string, string] };
+
+const stripTags = (content: string) => content.replace(/<[^>]*>/g, '');
+
+export default function ChapterConflictsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { currentStory, fetchStory, chapterConflicts, fetchChapterConflicts, resolveChapterConflict } = useStoriesStore();
+  const profile = useAuthStore((state) => state.profile);
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Editing | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        await Promise.all([
+          currentStory?.id !== id ? fetchStory(id) : Promise.resolve(),
+          fetchChapterConflicts(id),
+        ]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [id]);
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  const conflicts = chapterConflicts[id || ''] || [];
+
+  const getAuthorName = (authorId: string): string => {
+    if (profile && authorId === profile.id) {
+      return 'You';
+    }
+    const member = currentStory?.members.find(m => m.user_id === authorId);
+    return member?.profile?.display_name || 'Your partner';
+  };
+
+  const findExisting = (conflict: ChapterConflict) =>
+    conflict.existing_chapter_id
+      ? currentStory?.chapters?.find(chapter => chapter.id === conflict.existing_chapter_id) || null
+      : null;
+
+  // A chapter that now ends with choices can take the offline one as another
+  const canAddAsChoice = (conflict: ChapterConflict): boolean => {
+    if (conflict.existing_chapter_id || !conflict.parent_chapter_id) return false;
+    const parent = currentStory?.chapters?.find(chapter => chapter.id === conflict.parent_chapter_id);
+    const choiceCount = parent?.choices?.length || 0;
+    return choiceCount > 0 && choiceCount < 4;
+  };
+
+  const describeConflict = (conflict: ChapterConflict): string => {
+    const author = getAuthorName(conflict.author_id);
+    const wrote = author === 'You' ? 'You wrote' : `${author} wrote`;
+    switch (conflict.reason) {
+      case 'taken':
+        return `${wrote} this offline, but the story was continued from the same place before it synced.`;
+      case 'turn':
+        return `${wrote} this offline, but the turn had moved on by the time it synced.`;
+      case 'rules':
+        return `${wrote} this offline, but the story no longer took it when it synced: ${conflict.refusal || 'it breaks the story\'s rules'}.`;
+      default:
+        return `${wrote} this offline, but the chapter it continued has since been removed.`;
+    }
+  };
+
+  const resolve = async (
+    conflict: ChapterConflict,
+    resolution: ChapterConflictResolution,
+    options?: { content?: string; choiceTitles?: [string, string] }
+  ) => {
+    setResolvingId(conflict.id);
+    try {
+      await resolveChapterConflict(conflict, resolution, options);
+      setEditing(null);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  // The offline text stays on the conflict, but it leaves the story
+  const handleKeepExisting = (conflict: ChapterConflict) => {
+    Alert.alert(
+      'Keep the chapter already in the story?',
+      'The offline chapter will be set aside. It stays saved with the story.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep it', onPress: () => resolve(conflict, 'keep_existing') },
+      ]
+    );
+  };
+
+  const handleKeepOffline = (conflict: ChapterConflict, hasExisting: boolean) => {
+    if (!hasExisting) {
+      resolve(conflict, 'keep_offline');
+      return;
+    }
+    Alert.alert(
+      'Use the offline chapter?',
+      'It takes the place of the chapter in the story. The replaced text stays in that chapter\'s history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Use it', onPress: () => resolve(conflict, 'keep_offline') },
+      ]
+    );
+  };
+
+  const startMerge = (conflict: ChapterConflict) => {
+    const existing = findExisting(conflict);
+    setEditing({
+      type: 'merge',
+      conflictId: conflict.id,
+      content: existing ? `${existing.content}\n\n${conflict.content}` : conflict.content,
+    });
+  };
+
+  const renderEditor = (conflict: ChapterConflict) => {
+    if (!editing || editing.conflictId !== conflict.id) return null;
+
+    if (editing.type === 'merge') {
+      return (
+        <View style={styles.editor}>
+          <TextArea
+            label="Merged chapter"
+            description="Both texts are here. Edit them into one chapter."
+            value={editing.content}
+            onChangeText={(content) => setEditing({ ...editing, content })}
+            rows={10}
+          />
+          <View style={styles.actions}>
+            <Button variant="ghost" size="sm" onPress={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onPress={() => resolve(conflict, 'merge', { content: editing.content })}
+              isLoading={resolvingId === conflict.id}
+              disabled={!editing.content.trim()}
+            >
+              Save merged chapter
+            </Button>
+          </View>
+        </View>
+      );
+    }
+
+    const [existingTitle, offlineTitle] = editing.titles;
+    const hasExisting = !!conflict.existing_chapter_id;
+    return (
+      <View style={styles.editor}>
+        <Text style={styles.editorHint}>
+          {hasExisting
+            ? 'Both chapters stay, as two choices at the end of the chapter before them. Name each path.'
+            : 'The offline chapter becomes another choice at the end of the chapter before it. Name its path.'}
+        </Text>
+        {hasExisting && (
+          <Input
+            label="Chapter already in the story"
+            value={existingTitle}
+            onChangeText={(title) => setEditing({ ...editing, titles: [title, offlineTitle] })}
+            maxLength={120}
+          />
+        )}
+        <Input
+          label="Offline chapter"
+          value={offlineTitle}
+          onChangeText={(title) => setEditing({ ...editing, titles: [existingTitle, title] })}
+          maxLength={120}
+        />
+        <View style={styles.actions}>
+          <Button variant="ghost" size="sm" onPress={() => setEditing(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            size="sm"
+            onPress={() => resolve(conflict, 'branch', { choiceTitles: editing.titles })}
+            isLoading={resolvingId === conflict.id}
+          >
+            {hasExisting ? 'Keep both' : 'Add as a choice'}
+          </Button>
+        </View>
+      </View>
+    );
+  };
+
+  const renderConflict = (conflict: ChapterConflict) => {
+    const existing = findExisting(conflict);
+    const hasExisting = !!conflict.existing_chapter_id;
+    const isBusy = resolvingId === conflict.id;
+
+    return (
+      <Card key={conflict.id} variant="outlined" style={styles.conflictCard}>
+        <Text style={styles.reason}>{describeConflict(conflict)}</Text>
+
+        {hasExisting && (
+          <View style={styles.version}>
+            <Text style={styles.versionLabel}>
+              In the story{existing ? ` · by ${getAuthorName(existing.author_id)}` : ''}
+            </Text>
+            <Text style={styles.versionText} numberOfLines={editing?.conflictId === conflict.id ? undefined : 8}>
+              {existing ? stripTags(existing.content) : 'Open the story to read the chapter written here.'}
+            </Text>
+          </View>
+        )}
+
+        <View style={[styles.version, styles.offlineVersion]}>
+          <Text style={styles.versionLabel}>
+            Written offline · by {[conflict.author_id, ...(conflict.co_author_ids || [])].map(getAuthorName).join(' & ')}
+          </Text>
+          <Text style={styles.versionText} numberOfLines={editing?.conflictId === conflict.id ? undefined : 8}>
+            {stripTags(conflict.content)}
+          </Text>
+        </View>
+
+        {editing?.conflictId === conflict.id ? (
+          renderEditor(conflict)
+        ) : (
+          <View style={styles.actions}>
+            {hasExisting && (
+              <Button variant="secondary" size="sm" onPress={() => handleKeepExisting(conflict)} disabled={isBusy}>
+                Keep the story's
+              </Button>
+            )}
+            <Button
+              variant="secondary"
+              size="sm"
+              onPress={() => handleKeepOffline(conflict, hasExisting)}
+              isLoading={isBusy}
+            >
+              {hasExisting ? 'Use offline' : 'Add it to the story'}
+            </Button>
+            <Button variant="secondary" size="sm" onPress={() => startMerge(conflict)} disabled={isBusy}>
+              Merge
+            </Button>
+            {((hasExisting && conflict.parent_chapter_id) || canAddAsChoice(conflict)) && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onPress={() => setEditing({ type: 'branch', conflictId: conflict.id, titles: DEFAULT_BRANCH_TITLES })}
+                disabled={isBusy}
+              >
+                {hasExisting ? 'Keep both as branches' : 'Add as another choice'}
+              </Button>
+            )}
+          </View>
+        )}
+      </Card>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Button variant="ghost" size="sm" onPress={() => router.back()}>
+          ← Back
+        </Button>
+        <Text style={styles.title}>Chapters to Sort Out</Text>
+        {currentStory?.title && <Text style={styles.subtitle}>{currentStory.title}</Text>}
+        <Text style={styles.stats}>
+          Chapters written offline that clashed when they synced. Either of you can decide.
+        </Text>
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {conflicts.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>🤝</Text>
+            <Text style={styles.emptyText}>Nothing to sort out</Text>
+          </View>
+        ) : (
+          conflicts.map(renderConflict)
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    paddingTop: 56,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  stats: {
+    fontSize: 13,
+    color: COLORS.accent,
+    marginTop: 8,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  conflictCard: {
+    marginBottom: 16,
+  },
+  reason: {
+    fontSize: 14,
+    color: COLORS.text,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  version: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  offlineVersion: {
+    backgroundColor: COLORS.highlight,
+    borderColor: COLORS.primary,
+  },
+  versionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginBottom: 4,
+  },
+  versionText: {
+    fontSize: 14,
+    color: COLORS.text,
+    lineHeight: 20,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  editor: {
+    marginTop: 8,
+  },
+  editorHint: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginBottom: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+  },
+});
@@ -0,0 +1,340 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  Text,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { useStoriesStore } from '@/stores/storiesStore';
+import { useDemoStore } from '@/stores/demoStore';
+import { useAuthStore } from '@/stores/authStore';
+import { ChapterChoice, ChapterNode } from '@/lib/types';
+import {
+  buildChapterTree,
+  getActivePath,
+  getBranchTips,
+  getOpenChoices,
+  getUnpickedChoices,
+} from '@/lib/chapterTree';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+
+const COLORS = {
+  primary: '#E91E63',
+  surface: '#FFFFFF',
+  text: '#212121',
+  textSecondary: '#757575',
+  background: '#FAFAFA',
+  border: '#E0E0E0',
+  error: '#F44336',
+  accent: '#9C27B0',
+};
+
+// Indent per branch level; deeper levels stop indenting so cards stay readable
+const INDENT = 16;
+const MAX_INDENT_DEPTH = 4;
+
+const DEMO_PROFILES: Record<string, string> = {
+  'demo-user': 'You',
+  'demo-partner': 'Partner',
+};
+
+export default function StoryTreeScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { currentStory, fetchStory, fetchChapterTree } = useStoriesStore();
+  const { getStory, getChapters } = useDemoStore();
+  const isAuthConfigured = useAuthStore((state) => state.isConfigured);
+  const profile = useAuthStore((state) => state.profile);
+
+  const [tree, setTree] = useState<ChapterNode | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!id) return;
+
+    if (!isAuthConfigured) {
+      setTree(buildChapterTree(getChapters(id)));
+      setIsLoading(false);
+      return;
+    }
+
+    const loadTree = async () => {
+      setIsLoading(true);
+      setError('');
+      try {
+        if (currentStory?.id !== id) {
+          await fetchStory(id);
+        }
+        setTree(await fetchChapterTree(id));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load story map');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadTree();
+  }, [id, isAuthConfigured]);
+
+  // Pick up branches written while the screen is open
+  useEffect(() => {
+    if (isAuthConfigured && currentStory?.id === id && currentStory.chapterTree !== undefined) {
+      setTree(currentStory.chapterTree);
+    }
+  }, [id, isAuthConfigured, currentStory?.id, currentStory?.chapterTree]);
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  const title = isAuthConfigured ? currentStory?.title : getStory(id || '')?.title;
+  const activeIds = new Set(getActivePath(tree).map(node => node.id));
+  const storylines = getBranchTips(tree).length;
+  const unpicked = getUnpickedChoices(tree);
+
+  const getAuthorName = (authorId: string): string => {
+    if (!isAuthConfigured) {
+      return DEMO_PROFILES[authorId] || 'Author';
+    }
+    if (profile && authorId === profile.id) {
+      return 'You';
+    }
+    const member = currentStory?.members.find(m => m.user_id === authorId);
+    return member?.profile?.display_name || 'Partner';
+  };
+
+  const handleReadBranch = (node: ChapterNode) => {
+    router.push(`/story/${id}?branch=${node.id}`);
+  };
+
+  const handleRevive = (choice: ChapterChoice) => {
+    if (!isAuthConfigured) {
+      Alert.alert('Demo Mode', 'Set up Supabase to continue a branch with your partner.');
+      return;
+    }
+    Alert.alert(
+      'Revive this path?',
+      `"${choice.title}" becomes its own storyline. The path you're on now stays as it is.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Write it', onPress: () => router.push(`/write/${id}?choiceId=${choice.id}`) },
+      ]
+    );
+  };
+
+  const renderChapter = (node: ChapterNode, depth: number) => {
+    const isActive = activeIds.has(node.id);
+    return (
+      <Pressable
+        key={node.id}
+        onPress={() => handleReadBranch(node)}
+        accessibilityRole="button"
+        accessibilityLabel={`Read the branch through chapter ${node.chapter_number}`}
+        style={{ marginLeft: Math.min(depth, MAX_INDENT_DEPTH) * INDENT }}
+      >
+        <Card
+          variant={isActive ? 'elevated' : 'outlined'}
+          style={isActive ? [styles.nodeCard, styles.nodeCardActive] : styles.nodeCard}
+        >
+          <View style={styles.nodeHeader}>
+            <Text style={styles.nodeNumber}>Chapter {node.chapter_number}</Text>
+            {isActive && <Text style={styles.activeBadge}>Current path</Text>}
+          </View>
+          {node.choice && (
+            <Text style={styles.viaChoice}>↳ {node.choice.title}</Text>
+          )}
+          <Text style={styles.nodePreview} numberOfLines={2}>
+            {node.content.replace(/<[^>]*>/g, '')}
+          </Text>
+          <Text style={styles.nodeAuthor}>By {getAuthorName(node.author_id)}</Text>
+        </Card>
+      </Pressable>
+    );
+  };
+
+  // Linear chapters stay at the same depth; each choice starts an indented branch
+  const renderBranch = (node: ChapterNode, depth: number): React.ReactNode => {
+    if (node.choices.length === 0) {
+      return (
+        <View key={node.id}>
+          {renderChapter(node, depth)}
+          {node.children.map(child => renderBranch(child, depth))}
+        </View>
+      );
+    }
+
+    const open = getOpenChoices(node);
+    return (
+      <View key={node.id}>
+        {renderChapter(node, depth)}
+        {node.choices.map(choice => {
+          const child = node.children.find(c => c.choice_id === choice.id);
+          if (child) {
+            return renderBranch(child, depth + 1);
+          }
+          const isUnpicked = open.some(o => o.id === choice.id) && node.children.length > 0;
+          return (
+            <Pressable
+              key={choice.id}
+              onPress={() => handleRevive(choice)}
+              accessibilityRole="button"
+              accessibilityLabel={`Continue ${choice.title}`}
+              style={{ marginLeft: Math.min(depth + 1, MAX_INDENT_DEPTH) * INDENT }}
+            >
+              <View style={styles.openChoice}>
+                <Text style={styles.openChoiceTitle}>{choice.title}</Text>
+                <Text style={styles.openChoiceAction}>
+                  {isUnpicked ? '🌱 Revive this path' : '✍️ Write this path'}
+                </Text>
+              </View>
+            </Pressable>
+          );
+        })}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Button variant="ghost" size="sm" onPress={() => router.back()}>
+          ← Back
+        </Button>
+        <Text style={styles.title}>Story Map</Text>
+        {title && <Text style={styles.subtitle}>{title}</Text>}
+        <Text style={styles.stats}>
+          {storylines} {storylines === 1 ? 'storyline' : 'storylines'} • {unpicked.length} unpicked {unpicked.length === 1 ? 'choice' : 'choices'}
+        </Text>
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : !tree ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>🌳</Text>
+            <Text style={styles.emptyText}>No chapters yet</Text>
+          </View>
+        ) : (
+          renderBranch(tree, 0)
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    paddingTop: 56,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  stats: {
+    fontSize: 13,
+    color: COLORS.accent,
+    marginTop: 8,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  nodeCard: {
+    marginBottom: 8,
+  },
+  nodeCardActive: {
+    borderLeftWidth: 3,
+    borderLeftColor: COLORS.primary,
+  },
+  nodeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  nodeNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  activeBadge: {
+    fontSize: 11,
+    color: COLORS.primary,
+    fontWeight: '500',
+  },
+  viaChoice: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: COLORS.accent,
+    marginTop: 4,
+  },
+  nodePreview: {
+    fontSize: 14,
+    color: COLORS.text,
+    lineHeight: 20,
+    marginTop: 4,
+  },
+  nodeAuthor: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 6,
+  },
+  openChoice: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: COLORS.accent,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  openChoiceTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  openChoiceAction: {
+    fontSize: 12,
+    color: COLORS.accent,
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 14,
+    color: COLORS.error,
+    textAlign: 'center',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+  },
+});
@@ -11,50 +11,69 @@ import {
 } from 'react-native';
 import { useAuthStore } from '@/stores/authStore';
 import { useTokenStore } from '@/stores/tokenStore';
+import { useRelationshipStore } from '@/stores/relationshipStore';
+import { useEntitlementStore } from '@/stores/entitlementStore';
 import { router } from 'expo-router';
 import { Feather, MaterialIcons } from '@expo/vector-icons';
 import { Card } from '@/components/Card';
 import { Button } from '@/components/Button';
 import { GiftSparksDialog } from '@/components/GiftSparksDialog';
+import { CoupleWalletCard } from '@/components/CoupleWalletCard';
 import { theme } from '@/lib/theme';
 import { COLORS } from '@/lib/theme';
-
-const PURCHASE_OPTIONS = [
-  { id: 'starter', name: 'Starter Pack', tokens: 50, price: 0.99, description: 'Perfect for beginners' },
-  { id: 'regular', name: 'Regular Pack', tokens: 150, price: 2.99, description: 'Most popular' },
-  { id: 'premium', name: 'Premium Pack', tokens: 500, price: 7.99, description: 'Best value' },
-  { id: 'ultimate', name: 'Ultimate Pack', tokens: 1500, price: 19.99, description: 'For serious writers' },
-];
-
-interface Transaction {
-  id: string;
-  amount: number;
-  description: string;
-  created_at: string;
-}
+import type { TokenTransaction } from '@/lib/types';
+import { PURCHASE_OPTIONS } from '@/lib/tokenManager';
+import {
+  formatStatementMonth,
+  getFeatureLabel,
+  shareStatementCsv,
+  StatementLine,
+} from '@/lib/tokenStatement';
 
 export default function WalletScreen() {
   const { profile } = useAuthStore();
-  const { balance, tokens, setBalance, deductTokens } = useTokenStore();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const {
+    balance,
+    tokens,
+    statement,
+    isLoading,
+    fetchBalance,
+    fetchStatement,
+    purchaseTokens,
+  } = useTokenStore();
+  const currentRelationship = useRelationshipStore(state => state.currentRelationship);
+  const tier = useEntitlementStore(state => state.entitlements.tier);
+  const [month, setMonth] = useState(() => new Date());
+  const [isExporting, setIsExporting] = useState(false);
   const [giftDialogVisible, setGiftDialogVisible] = useState(false);
 
   useEffect(() => {
-    loadTransactions();
-  }, []);
+    fetchStatement(month);
+  }, [month, fetchStatement]);
 
-  const loadTransactions = async () => {
-    // In a real app, this would load from Supabase
-    setTransactions([
-      { id: '1', amount: 100, description: 'Welcome bonus', created_at: new Date().toISOString() },
-    ]);
+  const now = new Date();
+  const isCurrentMonth = month.getFullYear() === now.getFullYear() && month.getMonth() === now.getMonth();
+
+  const changeMonth = (offset: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + offset, 1));
   };
 
   const refreshData = async () => {
-    setIsLoading(true);
-    await loadTransactions();
-    setIsLoading(false);
+    await Promise.all([fetchStatement(month), fetchBalance()]);
+  };
+
+  const handleExport = async () => {
+    if (!statement) return;
+
+    setIsExporting(true);
+    try {
+      await shareStatementCsv(statement);
+    } catch (error) {
+      console.error('Error exporting statement:', error);
+      Alert.alert('Error', 'Failed to export statement');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const handlePurchase = async (optionId: string) => {
@@ -63,20 +82,30 @@ export default function WalletScreen() {
 
     Alert.alert(
       'Confirm Purchase',
-      `Are you sure you want to purchase ${option.name} (${option.tokens} tokens) for $${option.price}?`,
+      `Are you sure you want to purchase the ${option.name} Pack (${option.tokens} tokens) for $${option.price}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Purchase',
           onPress: async () => {
-            Alert.alert('Coming Soon', 'In-app purchases will be available soon!');
+            const success = await purchaseTokens(option.id);
+            if (success) {
+              fetchStatement(month);
+              Alert.alert('Purchase Complete', `${option.tokens} tokens were added to your wallet.`);
+              return;
+            }
+
+            const { error } = useTokenStore.getState();
+            if (error) {
+              Alert.alert('Purchase Failed', error);
+            }
           },
         },
       ]
     );
   };
 
-  const renderTransaction = ({ item }: { item: Transaction }) => {
+  const renderTransaction = ({ item }: { item: TokenTransaction }) => {
     const isPositive = item.amount > 0;
     const formattedAmount = isPositive ? `+${item.amount}` : `${item.amount}`;
 
@@ -90,6 +119,7 @@ export default function WalletScreen() {
             <Text style={styles.transactionDescription}>{item.description}</Text>
             <Text style={styles.transactionDate}>
               {new Date(item.created_at).toLocaleDateString()}
+              {item.feature_type ? ` · ${getFeatureLabel(item.feature_type)}` : ''}
             </Text>
           </View>
         </View>
@@ -100,6 +130,22 @@ export default function WalletScreen() {
     );
   };
 
+  const renderLines = (lines: StatementLine[], color: string) => {
+    const largest = Math.max(...lines.map(line => line.amount), 1);
+
+    return lines.map(line => (
+      <View key={line.key} style={styles.statementLine}>
+        <View style={styles.statementLineHeader}>
+          <Text style={styles.statementLineLabel}>{line.label}</Text>
+          <Text style={styles.statementLineAmount}>{line.amount} tokens</Text>
+        </View>
+        <View style={styles.statementBarTrack}>
+          <View style={[styles.statementBar, { width: `${(line.amount / largest) * 100}%`, backgroundColor: color }]} />
+        </View>
+      </View>
+    ));
+  };
+
   return (
     <View style={styles.container}>
       <ScrollView
@@ -121,11 +167,37 @@ export default function WalletScreen() {
           </View>
         </View>
 
+        {/* Shared wallet with a partner */}
+        {currentRelationship && currentRelationship.status !== 'ended' && profile && (
+          <View style={styles.coupleWalletSection}>
+            <CoupleWalletCard relationshipId={currentRelationship.id} userId={profile.id} />
+          </View>
+        )}
+
         {/* Purchase Options */}
         <View style={styles.purchaseSection}>
           <Text style={styles.sectionTitle}>Get More Tokens</Text>
           <Text style={styles.sectionSubtitle}>Unlock premium features and boost your creativity</Text>
 
+          {/* Plan */}
+          <TouchableOpacity
+            style={styles.giftButton}
+            onPress={() => router.push('/premium')}
+          >
+            <View style={styles.giftButtonContent}>
+              <MaterialIcons name="workspace-premium" size={28} color="#9C27B0" />
+              <View style={styles.giftTextContainer}>
+                <Text style={styles.giftTitle}>{tier === 'premium' ? 'Premium' : 'Free plan'}</Text>
+                <Text style={styles.giftDescription}>
+                  {tier === 'premium'
+                    ? 'Manage your subscription'
+                    : 'Unlimited branches, advanced twists, studio voices and more'}
+                </Text>
+              </View>
+              <Feather name="chevron-right" size={20} color="#BDBDBD" />
+            </View>
+          </TouchableOpacity>
+
           {/* Gift Sparks Button */}
           <TouchableOpacity
             style={styles.giftButton}
@@ -154,7 +226,7 @@ export default function WalletScreen() {
               >
                 <View style={styles.purchaseHeader}>
                   <View>
-                    <Text style={styles.packageName}>{item.name}</Text>
+                    <Text style={styles.packageName}>{item.name} Pack</Text>
                     <Text style={styles.packageTokens}>{item.tokens} Tokens</Text>
                   </View>
                   <View style={styles.priceContainer}>
@@ -169,25 +241,88 @@ export default function WalletScreen() {
           </ScrollView>
         </View>
 
-        {/* Transaction History */}
+        {/* Monthly Statement */}
         <View style={styles.transactionSection}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Transaction History</Text>
-            <Text style={styles.transactionCount}>{transactions.length} transactions</Text>
+            <Text style={styles.sectionTitle}>Statement</Text>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={handleExport}
+              disabled={!statement || isExporting}
+            >
+              <Feather name="download" size={16} color="#E91E63" />
+              <Text style={styles.exportButtonText}>{isExporting ? 'Exporting...' : 'CSV'}</Text>
+            </TouchableOpacity>
           </View>
 
-          {transactions.length > 0 ? (
-            <View style={styles.transactionList}>
-              {transactions.map((item) => (
-                <View key={item.id}>{renderTransaction({ item })}</View>
-              ))}
-            </View>
-          ) : (
-            <View style={styles.emptyTransactions}>
-              <Feather name="inbox" size={48} color="#BDBDBD" />
-              <Text style={styles.emptyText}>No transactions yet</Text>
-              <Text style={styles.emptySubtext}>Your transaction history will appear here</Text>
-            </View>
+          <View style={styles.monthSwitcher}>
+            <TouchableOpacity onPress={() => changeMonth(-1)} style={styles.monthButton}>
+              <Feather name="chevron-left" size={20} color="#212121" />
+            </TouchableOpacity>
+            <Text style={styles.monthLabel}>{formatStatementMonth(month)}</Text>
+            <TouchableOpacity
+              onPress={() => changeMonth(1)}
+              style={styles.monthButton}
+              disabled={isCurrentMonth}
+            >
+              <Feather name="chevron-right" size={20} color={isCurrentMonth ? '#BDBDBD' : '#212121'} />
+            </TouchableOpacity>
+          </View>
+
+          {statement && (
+            <>
+              <View style={styles.summaryCard}>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>Opening</Text>
+                  <Text style={styles.summaryValue}>{statement.openingBalance}</Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>Earned</Text>
+                  <Text style={[styles.summaryValue, { color: '#4CAF50' }]}>+{statement.earned}</Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>Spent</Text>
+                  <Text style={[styles.summaryValue, { color: '#F44336' }]}>−{statement.spent}</Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>Closing</Text>
+                  <Text style={styles.summaryValue}>{statement.closingBalance}</Text>
+                </View>
+              </View>
+
+              {statement.spending.length > 0 && (
+                <View style={styles.statementGroup}>
+                  <Text style={styles.statementGroupTitle}>Spending by feature</Text>
+                  {renderLines(statement.spending, '#E91E63')}
+                </View>
+              )}
+
+              {statement.earnings.length > 0 && (
+                <View style={styles.statementGroup}>
+                  <Text style={styles.statementGroupTitle}>Earnings</Text>
+                  {renderLines(statement.earnings, '#4CAF50')}
+                </View>
+              )}
+
+              <View style={styles.sectionHeader}>
+                <Text style={styles.statementGroupTitle}>Transactions</Text>
+                <Text style={styles.transactionCount}>{statement.transactions.length} transactions</Text>
+              </View>
+
+              {statement.transactions.length > 0 ? (
+                <View style={styles.transactionList}>
+                  {statement.transactions.map((item) => (
+                    <View key={item.id}>{renderTransaction({ item })}</View>
+                  ))}
+                </View>
+              ) : (
+                <View style={styles.emptyTransactions}>
+                  <Feather name="inbox" size={48} color="#BDBDBD" />
+                  <Text style={styles.emptyText}>No transactions this month</Text>
+                  <Text style={styles.emptySubtext}>Spending and earnings will appear here</Text>
+                </View>
+              )}
+            </>
           )}
         </View>
 
@@ -261,6 +396,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginRight: 4,
   },
+  coupleWalletSection: {
+    paddingHorizontal: 20,
+    paddingTop: 30,
+    marginBottom: -30,
+  },
   purchaseSection: {
     padding: 20,
     paddingTop: 30,
@@ -370,6 +510,101 @@ const styles = StyleSheet.create({
   transactionList: {
     paddingBottom: 20,
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#FCE4EC',
+    backgroundColor: '#FFF5F8',
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#E91E63',
+  },
+  monthSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  monthButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+  },
+  monthLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    backgroundColor: '#FFFFFF',
+  },
+  summaryItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#757575',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#212121',
+  },
+  statementGroup: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    backgroundColor: '#FFFFFF',
+  },
+  statementGroupTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+    color: '#212121',
+  },
+  statementLine: {
+    marginBottom: 12,
+  },
+  statementLineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  statementLineLabel: {
+    fontSize: 14,
+    color: '#212121',
+  },
+  statementLineAmount: {
+    fontSize: 14,
+    color: '#757575',
+  },
+  statementBarTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#F5F5F5',
+    overflow: 'hidden',
+  },
+  statementBar: {
+    height: 6,
+    borderRadius: 3,
+  },
   transaction: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -18,14 +18,27 @@ import { useStoriesStore } from '@/stores/storiesStore';
 import { useDemoStore } from '@/stores/demoStore';
 import { useAuthStore } from '@/stores/authStore';
 import { useTokenStore } from '@/stores/tokenStore';
+import { useEntitlementStore } from '@/stores/entitlementStore';
+import { useOfflineStore } from '@/stores/offlineStore';
+import { useCoWritingStore } from '@/stores/coWritingStore';
+import { getQuota, showUpgradePrompt } from '@/lib/entitlements';
 import { supabase } from '@/lib/supabase';
-import { Story } from '@/lib/types';
+import { Story, ChapterChoice } from '@/lib/types';
+import {
+  MAX_CHAPTER_CHOICES,
+  MIN_CHAPTER_CHOICES,
+  MAX_CHOICE_TITLE_LENGTH,
+  MAX_CHOICE_DESCRIPTION_LENGTH,
+} from '@/lib/chapterTree';
+import { countWords, getStorySettings, validateChapterLength, DEFAULT_STORY_SETTINGS } from '@/lib/storySettings';
+import { toRichText } from '@/lib/coWriting';
 import { Button } from '@/components/Button';
 import { Input } from '@/components/Input';
 import { TextArea } from '@/components/TextArea';
 import { Card } from '@/components/Card';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import RichTextEditor from '@/components/RichTextEditor';
+import { CoWriterCursors } from '@/components/CoWriterCursors';
 import { Theme } from '@/lib/types';
 
 // Placeholder components for missing ones
@@ -139,11 +152,18 @@ const aiTools = [
 ];
 
 export default function WriteChapterScreen() {
-  const { id, chapterId } = useLocalSearchParams<{ id: string; chapterId?: string }>();
+  const { id, chapterId, choiceId, session } = useLocalSearchParams<{
+    id: string;
+    chapterId?: string;
+    choiceId?: string;
+    session?: string;
+  }>();
   const { currentStory, fetchStory } = useStoriesStore();
   const { getStory, addChapter, updateChapter, getChapters } = useDemoStore();
   const isAuthConfigured = useAuthStore((state) => state.isConfigured);
   const { tokens } = useTokenStore();
+  const entitlements = useEntitlementStore((state) => state.entitlements);
+  const isConnected = useOfflineStore((state) => state.isConnected);
   const isEditMode = !!chapterId;
 
   const {
@@ -156,6 +176,21 @@ export default function WriteChapterScreen() {
     setContextSnippet,
     enhanceWithAI,
     submitChapter,
+    choiceDrafts,
+    setChoiceDrafts,
+    branchSuggestions,
+    branchConsequences,
+    isSuggestingChoices,
+    suggestBranchChoices,
+    acceptBranchSuggestion,
+    rejectBranchSuggestion,
+    plotHooks,
+    acceptedPlotHooks,
+    isWeavingPlot,
+    suggestPlotHooks,
+    acceptPlotHook,
+    rejectPlotHook,
+    removeAcceptedPlotHook,
     saveDraft,
     reset,
     selectedFormat,
@@ -174,8 +209,14 @@ export default function WriteChapterScreen() {
   const [selectedTool, setSelectedTool] = useState<string | null>(null);
   const [isLoadingChapter, setIsLoadingChapter] = useState(false);
   const [originalChapter, setOriginalChapter] = useState<any>(null);
+  const [continuingChoice, setContinuingChoice] = useState<ChapterChoice | null>(null);
+  const [branchCount, setBranchCount] = useState(0);
   const lastSavedContentRef = useRef(draftContent);
 
+  const coWriting = useCoWritingStore();
+  const isCoWriting = !!coWriting.sessionId;
+  const isCoWriteStarter = isCoWriting && coWriting.starterId === coWriting.userId;
+
   useEffect(() => {
     if (id) {
       if (isAuthConfigured) {
@@ -228,6 +269,164 @@ export default function WriteChapterScreen() {
     };
   }, [id, isAuthConfigured, saveDraft, reset, fetchStory, getStory, chapterId, getChapters]);
 
+  // New chapters can be written together. Opening an invite joins straight away.
+  useEffect(() => {
+    if (!isAuthConfigured || !id || isEditMode) return;
+
+    const start = async () => {
+      const store = useCoWritingStore.getState();
+      await store.watch(id);
+      if (session && store.sessionId !== session) {
+        try {
+          await useCoWritingStore.getState().joinSession(session);
+        } catch (err) {
+          Alert.alert('Could not join', err instanceof Error ? err.message : 'Failed to join the writing session');
+        }
+      }
+    };
+    start();
+
+    return () => {
+      useCoWritingStore.getState().leaveSession();
+    };
+  }, [id, session, isAuthConfigured, isEditMode]);
+
+  // While writing together, the draft is the merged one
+  useEffect(() => {
+    if (isCoWriting && coWriting.text !== draftContent) {
+      setDraftContent(coWriting.text);
+    }
+  }, [isCoWriting, coWriting.text]);
+
+  // The session can end from the other side
+  useEffect(() => {
+    const { ended } = coWriting;
+    if (!ended) return;
+    coWriting.clearEnded();
+
+    if (ended.reason === 'finished') {
+      Alert.alert(
+        'Chapter Submitted!',
+        'The chapter you wrote together has been added to the story.',
+        [{ text: 'OK', onPress: () => (router.canGoBack() ? router.back() : router.replace('/(app)')) }]
+      );
+    } else {
+      Alert.alert(
+        'Writing session ended',
+        'The session was closed before the chapter was submitted. The draft stays here so you can keep writing.'
+      );
+    }
+  }, [coWriting.ended]);
+
+  // Load the choice this chapter continues so the writer sees which path they're on
+  useEffect(() => {
+    if (!isAuthConfigured || !choiceId || isEditMode) {
+      setContinuingChoice(null);
+      return;
+    }
+
+    const loadChoice = async () => {
+      const { data, error } = await supabase
+        .from('chapter_choices')
+        .select('*')
+        .eq('id', choiceId)
+        .eq('story_id', id)
+        .single();
+
+      if (error || !data) {
+        console.error('Error loading choice:', error);
+        return;
+      }
+      setContinuingChoice(data);
+    };
+    loadChoice();
+  }, [id, choiceId, isAuthConfigured, isEditMode]);
+
+  // Count the story's branch points so the free plan's limit shows before submitting
+  useEffect(() => {
+    if (!isAuthConfigured || isEditMode) return;
+
+    const loadBranchCount = async () => {
+      const { data, error } = await supabase
+        .from('chapter_choices')
+        .select('chapter_id')
+        .eq('story_id', id);
+
+      if (error) {
+        console.error('Error counting branches:', error);
+        return;
+      }
+      setBranchCount(new Set((data || []).map((c: { chapter_id: string }) => c.chapter_id)).size);
+    };
+    loadBranchCount();
+  }, [id, isAuthConfigured, isEditMode]);
+
+  // undefined while the plan loads, null when branches are unlimited
+  const branchQuota = getQuota(entitlements, 'branches');
+  const isBranchLimitReached = typeof branchQuota === 'number' && branchCount >= branchQuota;
+
+  const promptBranchUpgrade = () =>
+    showUpgradePrompt(`Free stories can branch ${branchQuota} times. Premium unlocks unlimited branches.`);
+
+  const handleAddChoice = () => {
+    if (choiceDrafts.length === 0 && isBranchLimitReached) {
+      promptBranchUpgrade();
+      return;
+    }
+
+    const base = choiceDrafts.length === 0
+      ? Array.from({ length: MIN_CHAPTER_CHOICES }, () => ({ title: '', description: null }))
+      : [...choiceDrafts, { title: '', description: null }];
+    setChoiceDrafts(base.slice(0, MAX_CHAPTER_CHOICES));
+  };
+
+  const handleUpdateChoice = (index: number, title: string) => {
+    setChoiceDrafts(choiceDrafts.map((choice, i) => (i === index ? { ...choice, title } : choice)));
+  };
+
+  const handleUpdateChoiceDescription = (index: number, description: string) => {
+    setChoiceDrafts(choiceDrafts.map((choice, i) => (i === index ? { ...choice, description } : choice)));
+  };
+
+  const handleRemoveChoice = (index: number) => {
+    const remaining = choiceDrafts.filter((_, i) => i !== index);
+    // A single choice is not a choice, so drop the section entirely
+    setChoiceDrafts(remaining.length < MIN_CHAPTER_CHOICES ? [] : remaining);
+  };
+
+  const handleSuggestChoices = async () => {
+    if (!id) return;
+    if (choiceDrafts.length === 0 && isBranchLimitReached) {
+      promptBranchUpgrade();
+      return;
+    }
+    try {
+      await suggestBranchChoices(id, { choiceId: choiceId || null });
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to suggest choices');
+    }
+  };
+
+  const handleAcceptSuggestion = (index: number) => {
+    try {
+      acceptBranchSuggestion(index);
+    } catch (err) {
+      Alert.alert('No room', err instanceof Error ? err.message : 'Remove a choice first');
+    }
+  };
+
+  const handleWeavePlotHooks = async () => {
+    if (!id) return;
+    try {
+      await suggestPlotHooks(id, { choiceId: choiceId || null });
+      if (useEditorStore.getState().plotHooks.length === 0) {
+        Alert.alert('Nothing to weave', 'Add inspirations to this story and the Plot Weaver will turn them into ideas.');
+      }
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to weave plot hooks');
+    }
+  };
+
   const loadChapterForEdit = async (cid: string) => {
     setIsLoadingChapter(true);
     try {
@@ -259,6 +458,11 @@ export default function WriteChapterScreen() {
   };
 
   const displayStory = isAuthConfigured ? currentStory : story;
+  // The server holds chapters to the same rules
+  const storySettings = displayStory ? getStorySettings(displayStory) : DEFAULT_STORY_SETTINGS;
+  const canUseAI = storySettings.aiEnhancementAllowed;
+  const wordCount = countWords(draftContent);
+  const hasLengthRule = storySettings.minChapterWords > 0 || storySettings.maxChapterWords !== null;
 
   const validate = () => {
     if (!draftContent.trim()) {
@@ -270,6 +474,11 @@ export default function WriteChapterScreen() {
       setLocalError('Chapter content must be at least 50 characters long');
       return false;
     }
+    const lengthError = validateChapterLength(draftContent, storySettings);
+    if (lengthError) {
+      setLocalError(lengthError);
+      return false;
+    }
     return true;
   };
 
@@ -279,6 +488,11 @@ export default function WriteChapterScreen() {
       return;
     }
 
+    if (!canUseAI) {
+      setLocalError('AI enhancement is turned off for this story');
+      return;
+    }
+
     setLocalError('');
     setIsDemoEnhancing(true);
     setSelectedTool(toolId || 'enhance');
@@ -320,9 +534,55 @@ export default function WriteChapterScreen() {
     applyFormatting(format);
   };
 
+  // Edits made while writing together go through the session
+  const updateDraft = (content: string) => {
+    if (isCoWriting) {
+      coWriting.edit(content);
+    } else {
+      setDraftContent(content);
+    }
+  };
+
+  const getMemberName = (userId: string): string => {
+    if (userId === coWriting.userId) return 'You';
+    const member = currentStory?.members.find(m => m.user_id === userId);
+    return member?.profile?.display_name || 'Writer';
+  };
+
+  const handleStartCoWriting = async () => {
+    try {
+      await coWriting.startSession(draftContent);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to start writing together');
+    }
+  };
+
+  const handleJoinCoWriting = (sessionId: string) => {
+    const join = async () => {
+      try {
+        await coWriting.joinSession(sessionId);
+      } catch (err) {
+        Alert.alert('Could not join', err instanceof Error ? err.message : 'Failed to join the writing session');
+      }
+    };
+
+    if (!draftContent.trim()) {
+      join();
+      return;
+    }
+    Alert.alert(
+      'Join the shared draft?',
+      'Your own draft will be replaced by the one you write together.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Join', onPress: join },
+      ]
+    );
+  };
+
   const handleMediaInsert = (media: any) => {
     const mediaText = `\n\n[Image: ${media.type}]${media.caption ? ` - ${media.caption}` : ''}\n`;
-    setDraftContent(draftContent + mediaText);
+    updateDraft(draftContent + mediaText);
     setShowMediaPicker(false);
   };
 
@@ -400,11 +660,21 @@ export default function WriteChapterScreen() {
             ]
           );
         } else {
-          // CREATE MODE: Create new chapter
-          await submitChapter(id);
+          // CREATE MODE: Create new chapter. A chapter written together is
+          // credited to everyone whose words are in it.
+          const credits = isCoWriteStarter
+            ? { coAuthorIds: coWriting.getCoAuthorIds(), contentRich: toRichText(contentToSubmit) }
+            : undefined;
+          const chapter = await submitChapter(id, { choiceId: choiceId || null }, credits);
+          if (isCoWriteStarter) {
+            await coWriting.finishSession(chapter.id);
+          }
+          const isQueued = useOfflineStore.getState().isPending(chapter.id);
           Alert.alert(
-            'Chapter Submitted!',
-            'Your chapter has been added to the story.',
+            isQueued ? 'Chapter Saved Offline' : 'Chapter Submitted!',
+            isQueued
+              ? 'Your chapter will be added to the story as soon as you are back online.'
+              : 'Your chapter has been added to the story.',
             [
               {
                 text: 'OK',
@@ -500,6 +770,67 @@ export default function WriteChapterScreen() {
         </View>
 
         <View style={styles.content}>
+          {continuingChoice && (
+            <Card variant="outlined" style={styles.choiceBanner}>
+              <Text style={styles.choiceBannerLabel}>Continuing the path</Text>
+              <Text style={styles.choiceBannerTitle}>{continuingChoice.title}</Text>
+              {continuingChoice.description && (
+                <Text style={styles.sectionHint}>{continuingChoice.description}</Text>
+              )}
+            </Card>
+          )}
+
+          {/* Write together */}
+          {!isEditMode && isAuthConfigured && (
+            <Card variant="outlined" style={styles.card}>
+              <Text style={styles.sectionLabel}>Write together</Text>
+              {isCoWriting ? (
+                <>
+                  <Text style={styles.sectionHint}>
+                    {coWriting.participants.length > 1
+                      ? `Writing with ${coWriting.participants
+                          .filter(userId => userId !== coWriting.userId)
+                          .map(getMemberName)
+                          .join(' and ')}. You both see every change as it's typed.`
+                      : 'Waiting for your partner to join from the story...'}
+                  </Text>
+                  {!isCoWriteStarter && coWriting.starterId && (
+                    <Text style={styles.sectionHint}>
+                      {getMemberName(coWriting.starterId)} submits the chapter when you're both happy with it.
+                    </Text>
+                  )}
+                  <Button variant="ghost" size="sm" onPress={() => coWriting.leaveSession()}>
+                    {isCoWriteStarter ? 'End session' : 'Leave'}
+                  </Button>
+                </>
+              ) : coWriting.invite ? (
+                <>
+                  <Text style={styles.sectionHint}>
+                    {coWriting.invite.userIds.map(getMemberName).join(' and ')}{' '}
+                    {coWriting.invite.userIds.length === 1 ? 'is' : 'are'} writing this chapter. Join to write it together.
+                  </Text>
+                  <Button variant="secondary" size="sm" onPress={() => handleJoinCoWriting(coWriting.invite!.sessionId)}>
+                    ✍️ Join
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.sectionHint}>
+                    Open this draft to your partner and write the chapter at the same time.
+                  </Text>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onPress={handleStartCoWriting}
+                    disabled={!isConnected}
+                  >
+                    ✍️ Write together
+                  </Button>
+                </>
+              )}
+            </Card>
+          )}
+
           <Card variant="outlined" style={styles.card}>
             <Text style={styles.sectionLabel}>Context Snippet (Optional)</Text>
             <Text style={styles.sectionHint}>
@@ -533,14 +864,16 @@ export default function WriteChapterScreen() {
                 >
                   📷 Media
                 </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onPress={() => setShowAIPanel(!showAIPanel)}
-                  style={styles.editorToolButton}
-                >
-                  🤖 AI
-                </Button>
+                {canUseAI && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onPress={() => setShowAIPanel(!showAIPanel)}
+                    style={styles.editorToolButton}
+                  >
+                    🤖 AI
+                  </Button>
+                )}
               </View>
             </View>
 
@@ -551,12 +884,17 @@ export default function WriteChapterScreen() {
             {/* Rich Text Editor */}
             <RichTextEditor
               value={draftContent}
-              onChangeText={setDraftContent}
+              onChangeText={updateDraft}
+              onSelectionChange={({ start, end }) => coWriting.setSelection(start, end)}
               onFormat={handleApplyFormatting}
               error={localError && !draftContent.trim() ? localError : ''}
               style={styles.inputSpacing}
             />
 
+            {isCoWriting && (
+              <CoWriterCursors text={draftContent} cursors={coWriting.cursors} getName={getMemberName} />
+            )}
+
             {/* Token Cost Indicator */}
             <TokenCostIndicator
               content={draftContent}
@@ -564,17 +902,28 @@ export default function WriteChapterScreen() {
               style={styles.inputSpacing}
             />
 
+            {hasLengthRule && (
+              <Text style={styles.sectionHint}>
+                {`${wordCount} words · `}
+                {storySettings.maxChapterWords === null
+                  ? `at least ${storySettings.minChapterWords} per chapter`
+                  : `${storySettings.minChapterWords}–${storySettings.maxChapterWords} per chapter`}
+              </Text>
+            )}
+
             <View style={styles.buttonRow}>
-              <Button
-                style={styles.flexButton}
-                onPress={() => handleEnhance()}
-                isLoading={isLoading}
-                disabled={!draftContent.trim()}
-                accessibilityLabel="Enhance with AI"
-                accessibilityHint="Use AI to enhance your writing"
-              >
-                {isAuthConfigured ? '✨ AI Enhance' : '✨ Demo Enhance'}
-              </Button>
+              {canUseAI && (
+                <Button
+                  style={styles.flexButton}
+                  onPress={() => handleEnhance()}
+                  isLoading={isLoading}
+                  disabled={!draftContent.trim()}
+                  accessibilityLabel="Enhance with AI"
+                  accessibilityHint="Use AI to enhance your writing"
+                >
+                  {isAuthConfigured ? '✨ AI Enhance' : '✨ Demo Enhance'}
+                </Button>
+              )}
 
               <Button
                 variant="ghost"
@@ -592,8 +941,167 @@ export default function WriteChapterScreen() {
             )}
           </Card>
 
+          {/* Plot Weaver */}
+          {!isEditMode && isAuthConfigured && (
+            <Card variant="outlined" style={styles.card}>
+              <Text style={styles.sectionLabel}>Plot Weaver</Text>
+              <Text style={styles.sectionHint}>
+                Turn moments you both saved as inspirations into ideas for this chapter.
+              </Text>
+              {acceptedPlotHooks.map((hook) => (
+                <View key={hook.inspirationId} style={styles.choiceRow}>
+                  <Text style={styles.wovenHook}>🧵 {hook.hook}</Text>
+                  <TouchableOpacity
+                    onPress={() => removeAcceptedPlotHook(hook.inspirationId)}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    accessibilityLabel="Stop weaving this inspiration"
+                  >
+                    <Text style={styles.choiceRemove}>×</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onPress={handleWeavePlotHooks}
+                isLoading={isWeavingPlot}
+                disabled={isWeavingPlot}
+                accessibilityLabel="Weave inspirations into plot hooks"
+              >
+                🧵 Weave inspirations
+              </Button>
+              {plotHooks.map((hook, index) => (
+                <View key={hook.inspirationId} style={styles.suggestion}>
+                  <Text style={styles.choiceBannerLabel}>From “{hook.inspiration}”</Text>
+                  <Text style={styles.suggestionTitle}>{hook.hook}</Text>
+                  {hook.howToUse ? (
+                    <Text style={styles.sectionHint}>{hook.howToUse}</Text>
+                  ) : null}
+                  <View style={styles.suggestionActions}>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onPress={() => acceptPlotHook(index)}
+                      accessibilityLabel="Weave this into the chapter"
+                    >
+                      Weave it in
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onPress={() => rejectPlotHook(index)}
+                      accessibilityLabel="Dismiss plot hook"
+                    >
+                      Dismiss
+                    </Button>
+                  </View>
+                </View>
+              ))}
+            </Card>
+          )}
+
+          {/* Choice endings */}
+          {!isEditMode && isAuthConfigured && (
+            <Card variant="outlined" style={styles.card}>
+              <Text style={styles.sectionLabel}>Choice Ending (Optional)</Text>
+              <Text style={styles.sectionHint}>
+                End on a decision with {MIN_CHAPTER_CHOICES}-{MAX_CHAPTER_CHOICES} paths. The next chapter picks one.
+                {typeof branchQuota === 'number' &&
+                  ` ${Math.max(branchQuota - branchCount, 0)} of ${branchQuota} free branches left.`}
+              </Text>
+              {choiceDrafts.map((choice, index) => (
+                <View key={index} style={styles.choiceDraft}>
+                  <View style={styles.choiceRow}>
+                    <Input
+                      placeholder={`Choice ${index + 1}, e.g. 'Open the letter'`}
+                      value={choice.title}
+                      onChangeText={(text) => handleUpdateChoice(index, text)}
+                      maxLength={MAX_CHOICE_TITLE_LENGTH}
+                      accessibilityLabel={`Choice ${index + 1}`}
+                      containerStyle={styles.choiceInput}
+                    />
+                    <TouchableOpacity
+                      onPress={() => handleRemoveChoice(index)}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      accessibilityLabel={`Remove choice ${index + 1}`}
+                    >
+                      <Text style={styles.choiceRemove}>×</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {choice.description !== null && (
+                    <Input
+                      placeholder="Where this path leads (optional)"
+                      value={choice.description}
+                      onChangeText={(text) => handleUpdateChoiceDescription(index, text)}
+                      maxLength={MAX_CHOICE_DESCRIPTION_LENGTH}
+                      accessibilityLabel={`Choice ${index + 1} teaser`}
+                    />
+                  )}
+                </View>
+              ))}
+              {choiceDrafts.length < MAX_CHAPTER_CHOICES && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onPress={handleAddChoice}
+                  accessibilityLabel="Add choice"
+                >
+                  {choiceDrafts.length === 0 ? '🔀 End with choices' : '+ Add choice'}
+                </Button>
+              )}
+              {choiceDrafts.length < MAX_CHAPTER_CHOICES && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onPress={handleSuggestChoices}
+                  isLoading={isSuggestingChoices}
+                  disabled={isSuggestingChoices}
+                  accessibilityLabel="Suggest choices with AI"
+                >
+                  ✨ Suggest choices
+                </Button>
+              )}
+
+              {branchConsequences && (
+                <View style={styles.consequences}>
+                  <Text style={styles.choiceBannerLabel}>Where this leaves things</Text>
+                  <Text style={styles.consequencesText}>{branchConsequences}</Text>
+                </View>
+              )}
+              {branchSuggestions.map((suggestion, index) => (
+                <View key={`${suggestion.title}-${index}`} style={styles.suggestion}>
+                  <View style={styles.suggestionHeader}>
+                    <Text style={styles.suggestionTitle}>{suggestion.title}</Text>
+                    <Text style={styles.suggestionTone}>{suggestion.tone}</Text>
+                  </View>
+                  {suggestion.teaser ? (
+                    <Text style={styles.sectionHint}>{suggestion.teaser}</Text>
+                  ) : null}
+                  <View style={styles.suggestionActions}>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onPress={() => handleAcceptSuggestion(index)}
+                      accessibilityLabel={`Use ${suggestion.title}`}
+                    >
+                      Use it
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onPress={() => rejectBranchSuggestion(index)}
+                      accessibilityLabel={`Dismiss ${suggestion.title}`}
+                    >
+                      Dismiss
+                    </Button>
+                  </View>
+                </View>
+              ))}
+            </Card>
+          )}
+
           {/* AI Panel */}
-          {showAIPanel && (
+          {showAIPanel && canUseAI && (
             <Card variant="elevated" style={styles.aiPanelCard}>
               <View style={styles.aiPanelHeader}>
                 <Text style={styles.aiPanelTitle}>AI Writing Assistant</Text>
@@ -671,7 +1179,7 @@ export default function WriteChapterScreen() {
               <Button
                 variant="secondary"
                 onPress={() => {
-                  setDraftContent(displayEnhanced || '');
+                  updateDraft(displayEnhanced || '');
                   setShowPreview(false);
                   (handleEnhance as any).demoEnhanced = null;
                   setSelectedTool(null);
@@ -689,7 +1197,7 @@ export default function WriteChapterScreen() {
             <Button
               onPress={handleSubmit}
               isLoading={isSubmitting || isLoadingChapter}
-              disabled={!draftContent.trim()}
+              disabled={!draftContent.trim() || (isCoWriting && !isCoWriteStarter)}
               accessibilityLabel={isEditMode ? "Update chapter" : "Submit chapter"}
               accessibilityHint={isEditMode ? "Update your chapter" : "Submit your chapter to the story"}
             >
@@ -791,6 +1299,85 @@ const styles = StyleSheet.create({
   inputSpacing: {
     marginTop: 8,
   },
+  choiceBanner: {
+    padding: 16,
+    borderColor: COLORS.primary,
+  },
+  choiceBannerLabel: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+  },
+  choiceBannerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginTop: 2,
+  },
+  choiceDraft: {
+    marginBottom: 8,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  choiceInput: {
+    flex: 1,
+  },
+  choiceRemove: {
+    fontSize: 20,
+    color: COLORS.textSecondary,
+  },
+  consequences: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  consequencesText: {
+    fontSize: 14,
+    color: COLORS.text,
+    lineHeight: 20,
+    marginTop: 4,
+  },
+  suggestion: {
+    marginTop: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: COLORS.primary,
+    borderRadius: 8,
+  },
+  suggestionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 4,
+  },
+  suggestionTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  suggestionTone: {
+    fontSize: 12,
+    color: COLORS.primary,
+    textTransform: 'capitalize',
+  },
+  suggestionActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  wovenHook: {
+    flex: 1,
+    fontSize: 14,
+    color: COLORS.text,
+    lineHeight: 20,
+  },
   editorHeader: {
     marginBottom: 12,
   },
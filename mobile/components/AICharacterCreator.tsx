@@ -14,6 +14,8 @@ import {
 import { Feather } from '@expo/vector-icons';
 import { supabase } from '@/lib/supabase';
 import { useAuthStore } from '@/stores/authStore';
+import { useEntitlementStore } from '@/stores/entitlementStore';
+import { isEntitled, showUpgradePrompt } from '@/lib/entitlements';
 
 interface Character {
   id?: string;
@@ -65,6 +67,7 @@ export function AICharacterCreator({
   const [isGeneratingAvatar, setIsGeneratingAvatar] = useState(false);
   const [showAvatarPreview, setShowAvatarPreview] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const entitlements = useEntitlementStore((state) => state.entitlements);
 
   const handleGenerateAvatar = async () => {
     if (!name.trim()) {
@@ -277,25 +280,34 @@ export function AICharacterCreator({
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Art Style</Text>
             <View style={styles.styleButtons}>
-              {STYLE_OPTIONS.map((styleOption) => (
-                <TouchableOpacity
-                  key={styleOption.value}
-                  style={[
-                    styles.styleButton,
-                    style === styleOption.value && styles.styleButtonSelected,
-                  ]}
-                  onPress={() => setStyle(styleOption.value)}
-                >
-                  <Text
+              {STYLE_OPTIONS.map((styleOption) => {
+                const locked = !isEntitled(entitlements, 'premium_art_styles', styleOption.value);
+                return (
+                  <TouchableOpacity
+                    key={styleOption.value}
                     style={[
-                      styles.styleButtonText,
-                      style === styleOption.value && styles.styleButtonTextSelected,
+                      styles.styleButton,
+                      style === styleOption.value && styles.styleButtonSelected,
+                      locked && styles.styleButtonLocked,
                     ]}
+                    onPress={() =>
+                      locked
+                        ? showUpgradePrompt('Premium art styles are part of Premium.', onClose)
+                        : setStyle(styleOption.value)
+                    }
                   >
-                    {styleOption.label}
-                  </Text>
-                </TouchableOpacity>
-              ))}
+                    {locked && <Feather name="lock" size={14} color="#9C27B0" />}
+                    <Text
+                      style={[
+                        styles.styleButtonText,
+                        style === styleOption.value && styles.styleButtonTextSelected,
+                      ]}
+                    >
+                      {styleOption.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
             </View>
           </View>
 
@@ -458,6 +470,12 @@ const styles = StyleSheet.create({
     backgroundColor: '#9C27B0',
     borderColor: '#9C27B0',
   },
+  styleButtonLocked: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderColor: '#E1BEE7',
+  },
   styleButtonText: {
     color: '#212121',
     fontWeight: '500',
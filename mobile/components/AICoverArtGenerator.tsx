@@ -14,6 +14,8 @@ import {
 import { Feather } from '@expo/vector-icons';
 import { supabase } from '@/lib/supabase';
 import { useAuthStore } from '@/stores/authStore';
+import { useEntitlementStore } from '@/stores/entitlementStore';
+import { isEntitled, showUpgradePrompt } from '@/lib/entitlements';
 
 interface CoverArtGeneratorProps {
   visible?: boolean;
@@ -46,6 +48,7 @@ export function AICoverArtGenerator({
   onCoverGenerated,
 }: CoverArtGeneratorProps) {
   const { user } = useAuthStore();
+  const entitlements = useEntitlementStore((state) => state.entitlements);
 
   const handleGenerated = (imageUrl: string) => {
     onGenerated?.(imageUrl);
@@ -136,22 +139,34 @@ export function AICoverArtGenerator({
 
         <Text style={styles.label}>Style:</Text>
         <View style={styles.styleButtons}>
-          {STYLE_OPTIONS.map((option) => (
-            <TouchableOpacity
-              key={option}
-              style={[styles.styleButton, style === option && styles.styleButtonSelected]}
-              onPress={() => setStyle(option)}
-            >
-              <Text
+          {STYLE_OPTIONS.map((option) => {
+            const locked = !isEntitled(entitlements, 'premium_art_styles', option);
+            return (
+              <TouchableOpacity
+                key={option}
                 style={[
-                  styles.styleButtonText,
-                  style === option && styles.styleButtonTextSelected,
+                  styles.styleButton,
+                  style === option && styles.styleButtonSelected,
+                  locked && styles.styleButtonLocked,
                 ]}
+                onPress={() =>
+                  locked
+                    ? showUpgradePrompt('Premium art styles are part of Premium.', onClose)
+                    : setStyle(option)
+                }
               >
-                {option}
-              </Text>
-            </TouchableOpacity>
-          ))}
+                {locked && <Feather name="lock" size={12} color="#9C27B0" />}
+                <Text
+                  style={[
+                    styles.styleButtonText,
+                    style === option && styles.styleButtonTextSelected,
+                  ]}
+                >
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
         </View>
 
         <Text style={styles.label}>Dimensions:</Text>
@@ -315,6 +330,12 @@ const styles = StyleSheet.create({
     backgroundColor: '#E91E63',
     borderColor: '#E91E63',
   },
+  styleButtonLocked: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderColor: '#E1BEE7',
+  },
   styleButtonText: {
     color: '#212121',
     fontWeight: '500',
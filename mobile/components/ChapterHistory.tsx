@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Chapter, ChapterRevision } from '../lib/types';
+import { describeRevision, diffWords, getDiffStats, toPlainText } from '../lib/chapterRevisions';
+import { useStoriesStore } from '../stores/storiesStore';
+
+interface ChapterHistoryProps {
+  visible: boolean;
+  onClose: () => void;
+  chapter: Chapter | null;
+  // Only the author can restore; everyone in the story can read the history
+  canRestore: boolean;
+}
+
+type CompareMode = 'revisions' | 'enhancement';
+
+const formatRevisionDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export function ChapterHistory({ visible, onClose, chapter, canRestore }: ChapterHistoryProps) {
+  const { fetchChapterRevisions, restoreChapterRevision } = useStoriesStore();
+  const [revisions, setRevisions] = useState<ChapterRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<CompareMode>('revisions');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const chapterId = chapter?.id;
+
+  useEffect(() => {
+    if (!visible || !chapterId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setMode('revisions');
+    fetchChapterRevisions(chapterId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        setSelectedId(loaded[0]?.id || null);
+      })
+      .catch((error) => {
+        console.error('Error loading chapter history:', error);
+        Alert.alert('Error', 'Failed to load chapter history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, chapterId, fetchChapterRevisions]);
+
+  // Newest first, so the revision before the selected one is the next in the list
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1];
+
+  const diff = useMemo(() => {
+    if (mode === 'enhancement') {
+      return chapter?.ai_enhanced_content
+        ? diffWords(toPlainText(chapter.content), toPlainText(chapter.ai_enhanced_content))
+        : [];
+    }
+    if (!selected) return [];
+    // The first revision is compared with nothing, so it shows as all new
+    return diffWords(previous ? toPlainText(previous.content) : '', toPlainText(selected.content));
+  }, [mode, chapter, selected, previous]);
+
+  const stats = getDiffStats(diff);
+
+  const handleRestore = (revision: ChapterRevision) => {
+    if (!chapter) return;
+
+    Alert.alert(
+      `Restore revision ${revision.revision_number}?`,
+      'The current text stays in the history, so you can switch back later.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            setIsRestoring(true);
+            try {
+              await restoreChapterRevision(chapter.story_id, revision.id);
+              const loaded = await fetchChapterRevisions(chapter.id);
+              setRevisions(loaded);
+              setSelectedId(loaded[0]?.id || null);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to restore revision');
+            } finally {
+              setIsRestoring(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modal}>
+        <View style={styles.header}>
+          <Text style={styles.title}>
+            History{chapter ? ` · Chapter ${chapter.chapter_number}` : ''}
+          </Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Feather name="x" size={24} color="#757575" />
+          </TouchableOpacity>
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator color="#E91E63" style={styles.loading} />
+        ) : (
+          <ScrollView style={styles.container}>
+            <View style={styles.chips}>
+              <TouchableOpacity
+                style={[styles.chip, mode === 'revisions' && styles.selectedChip]}
+                onPress={() => setMode('revisions')}
+              >
+                <Text style={[styles.chipText, mode === 'revisions' && styles.selectedChipText]}>Revisions</Text>
+              </TouchableOpacity>
+              {chapter?.ai_enhanced_content && (
+                <TouchableOpacity
+                  style={[styles.chip, mode === 'enhancement' && styles.selectedChip]}
+                  onPress={() => setMode('enhancement')}
+                >
+                  <Text style={[styles.chipText, mode === 'enhancement' && styles.selectedChipText]}>
+                    ✨ Original vs AI
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {mode === 'revisions' && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.revisionList}>
+                {revisions.map((revision, index) => (
+                  <TouchableOpacity
+                    key={revision.id}
+                    style={[styles.revisionCard, revision.id === selectedId && styles.selectedRevisionCard]}
+                    onPress={() => setSelectedId(revision.id)}
+                  >
+                    <Text style={styles.revisionTitle}>
+                      #{revision.revision_number}{index === 0 ? ' · Current' : ''}
+                    </Text>
+                    <Text style={styles.revisionMeta}>{describeRevision(revision)}</Text>
+                    <Text style={styles.revisionMeta}>{formatRevisionDate(revision.created_at)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+
+            <Text style={styles.stats}>
+              <Text style={styles.addedText}>+{stats.added} words</Text>
+              {'  '}
+              <Text style={styles.removedText}>−{stats.removed} words</Text>
+            </Text>
+
+            <Text style={styles.diffText}>
+              {diff.map((part, index) => (
+                <Text
+                  key={index}
+                  style={part.op === 'insert' ? styles.inserted : part.op === 'delete' ? styles.deleted : undefined}
+                >
+                  {part.text}
+                </Text>
+              ))}
+            </Text>
+
+            {mode === 'revisions' && canRestore && selected && selectedIndex > 0 && (
+              <TouchableOpacity
+                style={styles.restoreButton}
+                onPress={() => handleRestore(selected)}
+                disabled={isRestoring}
+              >
+                {isRestoring ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <>
+                    <Feather name="rotate-ccw" size={18} color="#FFFFFF" />
+                    <Text style={styles.restoreButtonText}>Restore revision {selected.revision_number}</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loading: {
+    marginTop: 48,
+  },
+  container: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#FAFAFA',
+  },
+  selectedChip: {
+    backgroundColor: '#E91E63',
+    borderColor: '#E91E63',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#212121',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  revisionList: {
+    marginBottom: 16,
+  },
+  revisionCard: {
+    padding: 12,
+    marginRight: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    minWidth: 120,
+  },
+  selectedRevisionCard: {
+    borderColor: '#E91E63',
+    backgroundColor: '#FCE4EC',
+  },
+  revisionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  revisionMeta: {
+    fontSize: 12,
+    color: '#757575',
+    marginTop: 2,
+  },
+  stats: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  addedText: {
+    color: '#2E7D32',
+  },
+  removedText: {
+    color: '#C62828',
+  },
+  diffText: {
+    fontSize: 16,
+    lineHeight: 26,
+    color: '#212121',
+  },
+  inserted: {
+    backgroundColor: '#E8F5E9',
+    color: '#2E7D32',
+  },
+  deleted: {
+    backgroundColor: '#FFEBEE',
+    color: '#C62828',
+    textDecorationLine: 'line-through',
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 24,
+    marginBottom: 24,
+    paddingVertical: 14,
+    borderRadius: 24,
+    backgroundColor: '#9C27B0',
+  },
+  restoreButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default ChapterHistory;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { CoWriterCursor } from '../lib/coWriting';
+
+interface CoWriterCursorsProps {
+  text: string;
+  cursors: CoWriterCursor[];
+  getName: (userId: string) => string;
+}
+
+// Characters of context shown on each side of a partner's caret
+const CONTEXT = 28;
+// Longest selection shown in full
+const MAX_SELECTION = 60;
+
+const clipStart = (text: string) =>
+  text.length > CONTEXT ? `…${text.slice(-CONTEXT)}` : text;
+
+const clipEnd = (text: string) =>
+  text.length > CONTEXT ? `${text.slice(0, CONTEXT)}…` : text;
+
+const clipSelection = (text: string) =>
+  text.length > MAX_SELECTION
+    ? `${text.slice(0, MAX_SELECTION / 2)}…${text.slice(-MAX_SELECTION / 2)}`
+    : text;
+
+// One line per partner showing where in the draft they are: the text around
+// their caret, with their selection highlighted in their color
+export function CoWriterCursors({ text, cursors, getName }: CoWriterCursorsProps) {
+  if (cursors.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {cursors.map((cursor) => {
+        const before = clipStart(text.slice(0, cursor.start)).replace(/\n/g, ' ');
+        const selected = clipSelection(text.slice(cursor.start, cursor.end)).replace(/\n/g, ' ');
+        const after = clipEnd(text.slice(cursor.end)).replace(/\n/g, ' ');
+
+        return (
+          <View key={cursor.userId} style={styles.row}>
+            <View style={[styles.dot, { backgroundColor: cursor.color }]} />
+            <Text style={[styles.name, { color: cursor.color }]}>{getName(cursor.userId)}</Text>
+            <Text style={styles.excerpt} numberOfLines={1}>
+              {before}
+              {selected ? (
+                <Text style={{ backgroundColor: `${cursor.color}33` }}>{selected}</Text>
+              ) : (
+                <Text style={[styles.caret, { color: cursor.color }]}>|</Text>
+              )}
+              {after}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#FAFAFA',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  name: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  excerpt: {
+    flex: 1,
+    fontSize: 13,
+    color: '#757575',
+  },
+  caret: {
+    fontWeight: '700',
+  },
+});
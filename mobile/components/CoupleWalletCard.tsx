@@ -0,0 +1,339 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Feather, MaterialIcons } from '@expo/vector-icons';
+import { Card } from './Card';
+import { Button } from './Button';
+import { useCoupleWalletStore } from '../stores/coupleWalletStore';
+import { useTokenStore } from '../stores/tokenStore';
+import { getFeatureLabel } from '../lib/tokenStatement';
+import type { CoupleWalletTransaction } from '../lib/types';
+
+interface CoupleWalletCardProps {
+  relationshipId: string;
+  userId: string;
+}
+
+const FUND_AMOUNTS = [10, 25, 50];
+const CAP_OPTIONS: (number | null)[] = [null, 10, 25, 50, 100];
+
+const describeTransaction = (transaction: CoupleWalletTransaction): string => {
+  if (transaction.type === 'spend' || transaction.type === 'refund') {
+    return `${transaction.type === 'refund' ? 'Refund · ' : ''}${getFeatureLabel(transaction.feature_type)}`;
+  }
+  return transaction.description;
+};
+
+export function CoupleWalletCard({ relationshipId, userId }: CoupleWalletCardProps) {
+  const {
+    wallet,
+    members,
+    transactions,
+    displayNames,
+    isLoading,
+    error,
+    fetchWallet,
+    createWallet,
+    acceptWallet,
+    fundWallet,
+    setMonthlyCap,
+    closeWallet,
+    getSpentThisMonth,
+  } = useCoupleWalletStore();
+  const balance = useTokenStore(state => state.balance);
+
+  useEffect(() => {
+    fetchWallet(relationshipId);
+  }, [relationshipId, fetchWallet]);
+
+  const me = members.find(member => member.user_id === userId);
+  const nameOf = (id: string) => (id === userId ? 'You' : displayNames[id] || 'Partner');
+
+  const handleFund = async (amount: number) => {
+    if (amount > balance) {
+      Alert.alert('Not enough tokens', `You have ${balance} tokens.`);
+      return;
+    }
+    const funded = await fundWallet(amount);
+    if (!funded) {
+      Alert.alert('Error', useCoupleWalletStore.getState().error || 'Failed to add tokens');
+    }
+  };
+
+  const handleClose = () => {
+    Alert.alert(
+      'Close shared wallet?',
+      'The tokens left are returned to each of you in proportion to what you put in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Close wallet', style: 'destructive', onPress: () => closeWallet() },
+      ]
+    );
+  };
+
+  if (!wallet) {
+    return (
+      <Card style={styles.card}>
+        <View style={styles.header}>
+          <MaterialIcons name="favorite" size={24} color="#E91E63" />
+          <Text style={styles.title}>Shared Wallet</Text>
+        </View>
+        <Text style={styles.description}>
+          Pool tokens with your partner. AI features on stories you write together are paid from the shared wallet first.
+        </Text>
+        {error && <Text style={styles.error}>{error}</Text>}
+        <Button onPress={() => createWallet(relationshipId)} isLoading={isLoading} size="sm">
+          Start a shared wallet
+        </Button>
+      </Card>
+    );
+  }
+
+  if (wallet.status === 'pending') {
+    const waitingForMe = me && !me.joined_at;
+
+    return (
+      <Card style={styles.card}>
+        <View style={styles.header}>
+          <MaterialIcons name="favorite" size={24} color="#E91E63" />
+          <Text style={styles.title}>Shared Wallet</Text>
+        </View>
+        <Text style={styles.description}>
+          {waitingForMe
+            ? `${nameOf(wallet.created_by)} invited you to share a token wallet.`
+            : 'Waiting for your partner to accept the shared wallet.'}
+        </Text>
+        <View style={styles.actions}>
+          {waitingForMe && (
+            <Button onPress={acceptWallet} isLoading={isLoading} size="sm">
+              Accept
+            </Button>
+          )}
+          <Button onPress={handleClose} variant="ghost" size="sm" disabled={isLoading}>
+            {waitingForMe ? 'Decline' : 'Cancel'}
+          </Button>
+        </View>
+      </Card>
+    );
+  }
+
+  return (
+    <Card style={styles.card}>
+      <View style={styles.header}>
+        <MaterialIcons name="favorite" size={24} color="#E91E63" />
+        <Text style={styles.title}>Shared Wallet</Text>
+        <Text style={styles.balance}>{wallet.balance} tokens</Text>
+      </View>
+
+      <Text style={styles.label}>Add from your balance</Text>
+      <View style={styles.chips}>
+        {FUND_AMOUNTS.map(amount => (
+          <TouchableOpacity
+            key={amount}
+            style={styles.chip}
+            onPress={() => handleFund(amount)}
+            disabled={isLoading}
+          >
+            <Text style={styles.chipText}>+{amount}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {members.map(member => {
+        const spent = getSpentThisMonth(member.user_id);
+
+        return (
+          <View key={member.user_id} style={styles.member}>
+            <View style={styles.memberHeader}>
+              <Text style={styles.memberName}>{nameOf(member.user_id)}</Text>
+              <Text style={styles.memberStats}>
+                Put in {member.contributed_total} · Spent {spent}
+                {member.monthly_cap !== null ? ` of ${member.monthly_cap}` : ''} this month
+              </Text>
+            </View>
+            <View style={styles.chips}>
+              {CAP_OPTIONS.map(cap => {
+                const selected = member.monthly_cap === cap;
+                return (
+                  <TouchableOpacity
+                    key={cap ?? 'none'}
+                    style={[styles.capChip, selected && styles.capChipSelected]}
+                    onPress={() => !selected && setMonthlyCap(member.user_id, cap)}
+                    disabled={isLoading}
+                  >
+                    <Text style={[styles.capChipText, selected && styles.capChipTextSelected]}>
+                      {cap === null ? 'No cap' : cap}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        );
+      })}
+
+      <Text style={styles.label}>History</Text>
+      {transactions.length === 0 ? (
+        <Text style={styles.description}>Nothing spent or added yet</Text>
+      ) : (
+        transactions.slice(0, 20).map(transaction => (
+          <View key={transaction.id} style={styles.transaction}>
+            <View style={styles.transactionInfo}>
+              <Text style={styles.transactionTitle}>{describeTransaction(transaction)}</Text>
+              <Text style={styles.transactionMeta}>
+                {nameOf(transaction.user_id)} · {new Date(transaction.created_at).toLocaleDateString()}
+              </Text>
+            </View>
+            <Text style={[styles.transactionAmount, { color: transaction.amount > 0 ? '#4CAF50' : '#F44336' }]}>
+              {transaction.amount > 0 ? `+${transaction.amount}` : transaction.amount}
+            </Text>
+          </View>
+        ))
+      )}
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <TouchableOpacity style={styles.closeButton} onPress={handleClose} disabled={isLoading}>
+        <Feather name="log-out" size={14} color="#757575" />
+        <Text style={styles.closeButtonText}>Close and split the balance</Text>
+      </TouchableOpacity>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 20,
+    borderRadius: 12,
+    marginBottom: 20,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#212121',
+  },
+  balance: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#E91E63',
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#757575',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#212121',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#FFF5F8',
+    borderWidth: 1,
+    borderColor: '#FCE4EC',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#E91E63',
+  },
+  member: {
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F5F5F5',
+  },
+  memberHeader: {
+    marginBottom: 8,
+  },
+  memberName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  memberStats: {
+    fontSize: 13,
+    color: '#757575',
+    marginTop: 2,
+  },
+  capChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#F5F5F5',
+  },
+  capChipSelected: {
+    backgroundColor: '#9C27B0',
+  },
+  capChipText: {
+    fontSize: 12,
+    color: '#757575',
+  },
+  capChipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  transaction: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  transactionInfo: {
+    flex: 1,
+  },
+  transactionTitle: {
+    fontSize: 14,
+    color: '#212121',
+  },
+  transactionMeta: {
+    fontSize: 12,
+    color: '#757575',
+    marginTop: 2,
+  },
+  transactionAmount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    minWidth: 50,
+    textAlign: 'right',
+  },
+  error: {
+    fontSize: 13,
+    color: '#F44336',
+    marginBottom: 8,
+  },
+  closeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 8,
+  },
+  closeButtonText: {
+    fontSize: 13,
+    color: '#757575',
+  },
+});
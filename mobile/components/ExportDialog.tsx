@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -12,28 +12,12 @@ import {
 import { Feather } from '@expo/vector-icons';
 import { Button } from './Button';
 import { Switch } from './Switch';
-import { Story, Chapter } from '../lib/types';
+import { Story, Chapter, AutoBookRule } from '../lib/types';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { exportStory, shareExportDownload, ExportFormat, ExportOptions } from '../lib/storyExport';
+import { useStoriesStore } from '../stores/storiesStore';
 
-// Define ExportFormat and ExportOptions locally since storyExport may not exist
-export type ExportFormat = 'pdf' | 'markdown' | 'text';
-
-export interface ExportOptions {
-  format: ExportFormat;
-  includeMetadata: boolean;
-  includeInspiration: boolean;
-}
-
-// Placeholder export function - replace with actual implementation
-const exportStory = async (
-  story: Story,
-  chapters: Chapter[],
-  inspirations: string[],
-  options: ExportOptions
-): Promise<void> => {
-  // This is a placeholder - implement actual export logic
-  console.log('Exporting story:', { story, chapters, inspirations, options });
-  await new Promise(resolve => setTimeout(resolve, 1000));
-};
+export type { ExportFormat, ExportOptions } from '../lib/storyExport';
 
 interface ExportDialogProps {
   visible: boolean;
@@ -41,14 +25,21 @@ interface ExportDialogProps {
   story: Story;
   chapters: Chapter[];
   inspirations: string[];
+  // Display names by user id, used for the byline and chapter headings
+  authors?: Record<string, string>;
 }
 
 const FORMAT_INFO: Record<ExportFormat, { label: string; description: string; icon: keyof typeof Feather.glyphMap }> = {
   pdf: {
     label: 'PDF',
-    description: 'Beautiful formatting with styles',
+    description: 'Printable book with cover and contents',
     icon: 'file-text',
   },
+  epub: {
+    label: 'ePub',
+    description: 'E-book for Apple Books, Kindle and more',
+    icon: 'book-open',
+  },
   markdown: {
     label: 'Markdown',
     description: 'Plain text with formatting',
@@ -61,17 +52,127 @@ const FORMAT_INFO: Record<ExportFormat, { label: string; description: string; ic
   },
 };
 
+// Milestones a story can turn into a book at
+const AUTO_BOOK_OPTIONS: {
+  key: string;
+  label: string;
+  trigger_type: AutoBookRule['trigger_type'];
+  chapter_interval: number | null;
+}[] = [
+  { key: 'every_10', label: 'Every 10 chapters', trigger_type: 'every_n_chapters', chapter_interval: 10 },
+  { key: 'every_30', label: 'Every 30 chapters', trigger_type: 'every_n_chapters', chapter_interval: 30 },
+  { key: 'completed', label: 'When the story is finished', trigger_type: 'story_completed', chapter_interval: null },
+];
+
 export function ExportDialog({
   visible,
   onClose,
   story,
   chapters,
   inspirations,
+  authors = {},
 }: ExportDialogProps) {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('pdf');
   const [includeMetadata, setIncludeMetadata] = useState(true);
   const [includeInspiration, setIncludeInspiration] = useState(true);
+  const [includeImages, setIncludeImages] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  const {
+    submitExportRequest,
+    removeExport,
+    fetchAutoBookRule,
+    saveAutoBookRule,
+    fetchMilestoneBooks,
+  } = useStoriesStore();
+  const job = useStoriesStore((state) => state.exportQueue.find(item => item.id === jobId));
+  const isJobRunning = !!job && (job.status === 'pending' || job.status === 'processing');
+  const autoBookRule = useStoriesStore((state) => state.autoBookRules[story.id]);
+  const milestoneBooks = useStoriesStore((state) => state.milestoneBooks[story.id]) || [];
+  const [isSavingRule, setIsSavingRule] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !isSupabaseConfigured()) return;
+    fetchAutoBookRule(story.id);
+    fetchMilestoneBooks(story.id);
+  }, [visible, story.id]);
+
+  const selectedAutoBookKey = autoBookRule?.enabled
+    ? AUTO_BOOK_OPTIONS.find(option =>
+        option.trigger_type === autoBookRule.trigger_type &&
+        (option.trigger_type === 'story_completed' || option.chapter_interval === autoBookRule.chapter_interval)
+      )?.key
+    : undefined;
+
+  const handleSaveAutoBook = async (
+    option: typeof AUTO_BOOK_OPTIONS[number] | null,
+    format: AutoBookRule['format'] = autoBookRule?.format || 'pdf'
+  ) => {
+    setIsSavingRule(true);
+    try {
+      await saveAutoBookRule(
+        story.id,
+        option && {
+          trigger_type: option.trigger_type,
+          chapter_interval: option.chapter_interval,
+          format,
+          include_images: true,
+        }
+      );
+    } catch (error) {
+      console.error('Error saving auto book rule:', error);
+      Alert.alert('Error', 'Could not update automatic books. Please try again.');
+    } finally {
+      setIsSavingRule(false);
+    }
+  };
+
+  const handleDownloadMilestoneBook = async (book: typeof milestoneBooks[number]) => {
+    if (!book.download_url || (book.download_expires_at && new Date(book.download_expires_at) < new Date())) {
+      Alert.alert('Link Expired', 'This book\'s download link has expired. Export the story again to get a fresh copy.');
+      return;
+    }
+    try {
+      await shareExportDownload(story, book.format, book.download_url);
+    } catch (error) {
+      console.error('Error downloading milestone book:', error);
+      Alert.alert('Download Failed', 'Unable to download this book. Please try again.');
+    }
+  };
+
+  // Books are rendered on the server; once ready, download and share them
+  useEffect(() => {
+    if (!job || (job.status !== 'completed' && job.status !== 'failed')) return;
+
+    const finish = async () => {
+      removeExport(job.id);
+      setJobId(null);
+
+      if (job.status === 'failed' || !job.downloadUrl) {
+        Alert.alert(
+          'Export Failed',
+          job.error || 'Unable to export your story. Please try again.',
+          [{ text: 'OK', style: 'default' }]
+        );
+        return;
+      }
+
+      try {
+        await shareExportDownload(story, job.format, job.downloadUrl);
+        onClose();
+      } catch (error) {
+        console.error('Error downloading export:', error);
+        Alert.alert(
+          'Download Failed',
+          'Your book is ready but could not be downloaded. Please try again.',
+          [{ text: 'OK', style: 'default' }]
+        );
+      }
+    };
+
+    finish();
+  }, [job?.status]);
 
   const handleExport = async () => {
     setIsExporting(true);
@@ -80,10 +181,23 @@ export function ExportDialog({
       format: selectedFormat,
       includeMetadata,
       includeInspiration,
+      includeImages,
     };
 
     try {
-      await exportStory(story, chapters, inspirations, options);
+      if ((selectedFormat === 'pdf' || selectedFormat === 'epub') && isSupabaseConfigured()) {
+        const id = await submitExportRequest(story.id, {
+          format: selectedFormat,
+          includeImages,
+          includeMetadata,
+          includeInspiration,
+          chapters: chapters.map(chapter => chapter.id),
+        });
+        setJobId(id);
+        return;
+      }
+
+      await exportStory(story, chapters, inspirations, options, authors);
       onClose();
     } catch (error) {
       Alert.alert(
@@ -195,8 +309,101 @@ export function ExportDialog({
                 onValueChange={setIncludeInspiration}
               />
             </View>
+
+            {(selectedFormat === 'pdf' || selectedFormat === 'epub') && (
+              <View style={styles.optionItem}>
+                <View style={styles.optionContent}>
+                  <Text style={styles.optionLabel}>Include Images</Text>
+                  <Text style={styles.optionDescription}>
+                    Add the cover art and chapter photos
+                  </Text>
+                </View>
+                <Switch
+                  value={includeImages}
+                  onValueChange={setIncludeImages}
+                />
+              </View>
+            )}
           </View>
 
+          {/* Automatic books at story milestones */}
+          {isSupabaseConfigured() && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Automatic Books</Text>
+
+              <View style={styles.optionItem}>
+                <View style={styles.optionContent}>
+                  <Text style={styles.optionLabel}>Make a book at milestones</Text>
+                  <Text style={styles.optionDescription}>
+                    Free, and you both get notified when it's ready
+                  </Text>
+                </View>
+                <Switch
+                  value={!!autoBookRule?.enabled}
+                  onValueChange={(enabled) => handleSaveAutoBook(enabled ? AUTO_BOOK_OPTIONS[1] : null)}
+                  disabled={isSavingRule}
+                />
+              </View>
+
+              {autoBookRule?.enabled && (
+                <>
+                  <View style={styles.chips}>
+                    {AUTO_BOOK_OPTIONS.map(option => (
+                      <TouchableOpacity
+                        key={option.key}
+                        style={[styles.chip, selectedAutoBookKey === option.key && styles.selectedChip]}
+                        onPress={() => handleSaveAutoBook(option)}
+                        disabled={isSavingRule}
+                        accessibilityLabel={option.label}
+                      >
+                        <Text style={[styles.chipText, selectedAutoBookKey === option.key && styles.selectedChipText]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <View style={styles.chips}>
+                    {(['pdf', 'epub'] as const).map(format => (
+                      <TouchableOpacity
+                        key={format}
+                        style={[styles.chip, autoBookRule.format === format && styles.selectedChip]}
+                        onPress={() => handleSaveAutoBook(
+                          AUTO_BOOK_OPTIONS.find(option => option.key === selectedAutoBookKey) || AUTO_BOOK_OPTIONS[1],
+                          format
+                        )}
+                        disabled={isSavingRule}
+                        accessibilityLabel={`Make ${FORMAT_INFO[format].label} books`}
+                      >
+                        <Text style={[styles.chipText, autoBookRule.format === format && styles.selectedChipText]}>
+                          {FORMAT_INFO[format].label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              {milestoneBooks.map(book => (
+                <TouchableOpacity
+                  key={book.id}
+                  style={styles.milestoneBook}
+                  onPress={() => handleDownloadMilestoneBook(book)}
+                  accessibilityLabel={`Download ${book.milestone_title || 'milestone book'}`}
+                >
+                  <Feather name="award" size={18} color="#E91E63" style={styles.formatIcon} />
+                  <View style={styles.formatText}>
+                    <Text style={styles.optionLabel}>{book.milestone_title || 'Milestone book'}</Text>
+                    <Text style={styles.optionDescription}>
+                      {FORMAT_INFO[book.format].label}
+                      {book.completed_at && ` • ${new Date(book.completed_at).toLocaleDateString()}`}
+                    </Text>
+                  </View>
+                  <Feather name="download" size={18} color="#757575" />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
           {/* Preview Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Preview</Text>
@@ -205,7 +412,20 @@ export function ExportDialog({
                 {chapters.length} chapter{chapters.length !== 1 ? 's' : ''} included
                 {includeInspiration && inspirations.length > 0 && ` • ${inspirations.length} inspiration${inspirations.length !== 1 ? 's' : ''}`}
               </Text>
+              {(selectedFormat === 'pdf' || selectedFormat === 'epub') && isSupabaseConfigured() && (
+                <Text style={styles.previewText}>Costs 5 tokens, charged once your book is ready</Text>
+              )}
             </View>
+            {isJobRunning && job && (
+              <View style={styles.progress}>
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${job.progress}%` }]} />
+                </View>
+                <Text style={styles.progressText}>
+                  {job.status === 'pending' ? 'Waiting to start…' : `Building your book… ${job.progress}%`}
+                </Text>
+              </View>
+            )}
           </View>
         </ScrollView>
 
@@ -221,8 +441,8 @@ export function ExportDialog({
             variant="primary"
             onPress={handleExport}
             style={styles.actionButton}
-            isLoading={isExporting}
-            disabled={isExporting}
+            isLoading={isExporting || isJobRunning}
+            disabled={isExporting || isJobRunning}
           >
             Export {FORMAT_INFO[selectedFormat].label}
           </Button>
@@ -348,6 +568,58 @@ const styles = StyleSheet.create({
     color: '#757575',
     textAlign: 'center',
   },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#FAFAFA',
+  },
+  selectedChip: {
+    backgroundColor: '#E91E63',
+    borderColor: '#E91E63',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#212121',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  milestoneBook: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F5F5F5',
+    marginTop: 8,
+  },
+  progress: {
+    marginTop: 12,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#F5F5F5',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#E91E63',
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#757575',
+    textAlign: 'center',
+    marginTop: 6,
+  },
   actions: {
     flexDirection: 'row',
     gap: 12,
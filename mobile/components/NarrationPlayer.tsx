@@ -0,0 +1,628 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Story, Chapter, NarrationSpeakerType } from '../lib/types';
+import { useNarrationStore, voiceNoteQueueId, NarrationVoiceNote } from '../stores/narrationStore';
+import { useListenTogetherStore } from '../stores/listenTogetherStore';
+import { useEntitlementStore } from '../stores/entitlementStore';
+import { isEntitled, showUpgradePrompt } from '../lib/entitlements';
+
+interface NarrationPlayerProps {
+  visible: boolean;
+  onClose: () => void;
+  story: Story;
+  // Chapters in reading order; the audiobook plays them one after another
+  chapters: Chapter[];
+  // Display names by user id, for the partner voice pickers
+  partners: Record<string, string>;
+}
+
+interface VoiceRow {
+  key: string;
+  label: string;
+  speakerType: NarrationSpeakerType;
+  speakerId: string | null;
+}
+
+const SPEEDS = [0.75, 1, 1.25, 1.5];
+
+const formatTime = (millis: number) => {
+  const totalSeconds = Math.floor(millis / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export function NarrationPlayer({
+  visible,
+  onClose,
+  story,
+  chapters,
+  partners,
+}: NarrationPlayerProps) {
+  const {
+    storyId,
+    voices,
+    defaultVoiceId,
+    storyVoices,
+    characters,
+    isLoadingVoices,
+    voiceNotes,
+    narrations,
+    current,
+    positionMillis,
+    rate,
+    isPlaying,
+    isLoading,
+    error,
+    loadVoices,
+    loadVoiceNotes,
+    setVoice,
+    playStory,
+    playVoiceNote,
+    togglePlayback,
+    setRate,
+    skipToChapter,
+    nextChapter,
+    previousChapter,
+  } = useNarrationStore();
+  const {
+    sessionId,
+    role,
+    hostId,
+    participants,
+    invite,
+    error: listenError,
+    startSession,
+    joinSession,
+    leaveSession,
+  } = useListenTogetherStore();
+  const entitlements = useEntitlementStore(state => state.entitlements);
+
+  useEffect(() => {
+    if (visible) {
+      loadVoices(story.id);
+      loadVoiceNotes(story.id);
+    }
+  }, [visible, story.id, loadVoices, loadVoiceNotes]);
+
+  // Followers hear what the host plays, so their own controls are off
+  const isFollowing = role === 'follower';
+  const nameOf = (userId: string) => partners[userId] || 'Your partner';
+
+  const isThisStory = storyId === story.id && current !== null;
+  const currentChapter = isThisStory ? chapters.find(c => c.id === current.chapterId) : undefined;
+  const currentVoiceNote = isThisStory
+    ? voiceNotes.find(n => voiceNoteQueueId(n.mediaId) === current.chapterId)
+    : undefined;
+  const currentNarration = isThisStory ? narrations[current.chapterId] : undefined;
+
+  // Progress through the whole chapter, not just the segment playing
+  const chapterElapsed = currentNarration && current
+    ? currentNarration.segments
+        .slice(0, current.segmentIndex)
+        .reduce((sum, s) => sum + s.durationMs, 0) + positionMillis
+    : 0;
+  const chapterDuration = currentNarration?.durationMs || 0;
+
+  const voiceRows: VoiceRow[] = [
+    { key: 'narrator', label: 'Narrator', speakerType: 'narrator', speakerId: null },
+    ...Object.entries(partners).map(([id, name]) => ({
+      key: `partner-${id}`,
+      label: `${name}'s chapters`,
+      speakerType: 'partner' as const,
+      speakerId: id,
+    })),
+    ...characters.map(c => ({
+      key: `character-${c.id}`,
+      label: c.name,
+      speakerType: 'character' as const,
+      speakerId: c.id,
+    })),
+  ];
+
+  const handlePlay = async () => {
+    if (isThisStory) {
+      await togglePlayback();
+    } else {
+      await playStory(story.id, chapters);
+    }
+  };
+
+  const handleChapterPress = async (chapter: Chapter) => {
+    if (isThisStory) {
+      await skipToChapter(chapter.id);
+    } else {
+      await playStory(story.id, chapters, chapter.id);
+    }
+  };
+
+  const handleVoiceNotePress = async (note: NarrationVoiceNote) => {
+    await playVoiceNote(story.id, note);
+  };
+
+  const handleListenTogether = async () => {
+    try {
+      if (sessionId) {
+        await leaveSession();
+      } else if (invite) {
+        await joinSession(invite.sessionId);
+      } else {
+        await startSession();
+      }
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to listen together');
+    }
+  };
+
+  const listenStatus = () => {
+    const others = participants.filter(p => p.userId !== hostId).map(p => nameOf(p.userId));
+    if (role === 'host') {
+      return others.length > 0
+        ? `You're hosting. ${others.join(' and ')} ${others.length === 1 ? 'is' : 'are'} listening along.`
+        : 'You\'re hosting. Waiting for your partner to join.';
+    }
+    if (role === 'follower') {
+      return hostId ? `Following ${nameOf(hostId)}. They control playback.` : 'Connecting to the host...';
+    }
+    if (invite) {
+      return `${invite.userIds.map(nameOf).join(' and ')} ${invite.userIds.length === 1 ? 'is' : 'are'} listening. Join to hear it together.`;
+    }
+    return 'Play chapters and voice notes in sync on both your phones.';
+  };
+
+  const handleVoiceSelect = async (row: VoiceRow, voiceId: string | null) => {
+    const pack = voices.find(v => v.id === voiceId)?.pack;
+    if (pack && !isEntitled(entitlements, 'voice_packs', pack)) {
+      showUpgradePrompt('Studio voices are part of Premium.', onClose);
+      return;
+    }
+
+    try {
+      await setVoice(story.id, row.speakerType, row.speakerId, voiceId);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to change voice');
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modal}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Listen</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Feather name="x" size={24} color="#757575" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.container}>
+          <Text style={styles.storyTitle}>{story.title}</Text>
+
+          {/* Now playing */}
+          <View style={styles.nowPlaying}>
+            <Text style={styles.nowPlayingLabel}>
+              {currentVoiceNote
+                ? `Voice note · Chapter ${currentVoiceNote.chapterNumber}`
+                : currentChapter ? `Chapter ${currentChapter.chapter_number}` : 'Play the story as an audiobook'}
+            </Text>
+            <View style={styles.progressBar}>
+              <View
+                style={[
+                  styles.progressFill,
+                  { width: `${chapterDuration > 0 ? Math.min(100, (chapterElapsed / chapterDuration) * 100) : 0}%` },
+                ]}
+              />
+            </View>
+            <View style={styles.timeRow}>
+              <Text style={styles.timeText}>{formatTime(chapterElapsed)}</Text>
+              <Text style={styles.timeText}>{formatTime(chapterDuration)}</Text>
+            </View>
+
+            <View style={styles.controls}>
+              <TouchableOpacity
+                onPress={previousChapter}
+                disabled={!isThisStory || isFollowing}
+                style={styles.controlButton}
+                accessibilityLabel="Previous chapter"
+              >
+                <Feather name="skip-back" size={24} color={isThisStory && !isFollowing ? '#212121' : '#BDBDBD'} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handlePlay}
+                disabled={chapters.length === 0 || isFollowing}
+                style={[styles.playButton, isFollowing && styles.disabledButton]}
+                accessibilityLabel={isPlaying ? 'Pause narration' : 'Play narration'}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Feather name={isThisStory && isPlaying ? 'pause' : 'play'} size={28} color="#FFFFFF" />
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={nextChapter}
+                disabled={!isThisStory || isFollowing}
+                style={styles.controlButton}
+                accessibilityLabel="Next chapter"
+              >
+                <Feather name="skip-forward" size={24} color={isThisStory && !isFollowing ? '#212121' : '#BDBDBD'} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={[styles.chips, styles.speedChips]}>
+              {SPEEDS.map(speed => (
+                <TouchableOpacity
+                  key={speed}
+                  style={[styles.chip, rate === speed && styles.selectedChip]}
+                  onPress={() => setRate(speed)}
+                  disabled={isFollowing}
+                  accessibilityLabel={`Play at ${speed}x speed`}
+                >
+                  <Text style={[styles.chipText, rate === speed && styles.selectedChipText]}>{speed}x</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+            <Text style={styles.hint}>
+              Narrating a chapter for the first time costs 1 token. Chapters you have heard before are free.
+            </Text>
+          </View>
+
+          {/* Listen together */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Listen together</Text>
+            <Text style={styles.listenStatus}>{listenStatus()}</Text>
+            {listenError && <Text style={styles.errorText}>{listenError}</Text>}
+            <TouchableOpacity
+              style={[styles.listenButton, !!sessionId && styles.leaveButton]}
+              onPress={handleListenTogether}
+            >
+              <Feather name={sessionId ? 'log-out' : invite ? 'headphones' : 'radio'} size={18} color={sessionId ? '#E91E63' : '#FFFFFF'} />
+              <Text style={[styles.listenButtonText, !!sessionId && styles.leaveButtonText]}>
+                {sessionId ? 'Leave' : invite ? 'Join' : 'Start listening together'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Chapter markers */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Chapters</Text>
+            {chapters.map(chapter => {
+              const narration = narrations[chapter.id];
+              const isCurrent = isThisStory && current?.chapterId === chapter.id;
+              return (
+                <TouchableOpacity
+                  key={chapter.id}
+                  style={[styles.chapterRow, isCurrent && styles.currentChapterRow]}
+                  onPress={() => handleChapterPress(chapter)}
+                  disabled={isFollowing}
+                  accessibilityLabel={`Play chapter ${chapter.chapter_number}`}
+                >
+                  <Feather
+                    name={isCurrent && isPlaying ? 'volume-2' : 'bookmark'}
+                    size={18}
+                    color={isCurrent ? '#E91E63' : '#757575'}
+                  />
+                  <Text style={[styles.chapterLabel, isCurrent && styles.currentChapterLabel]}>
+                    Chapter {chapter.chapter_number}
+                  </Text>
+                  <Text style={styles.timeText}>
+                    {narration ? formatTime(narration.durationMs) : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {/* Voice notes */}
+          {voiceNotes.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Voice notes</Text>
+              {voiceNotes.map(note => {
+                const isCurrent = currentVoiceNote?.mediaId === note.mediaId;
+                return (
+                  <TouchableOpacity
+                    key={note.mediaId}
+                    style={[styles.chapterRow, isCurrent && styles.currentChapterRow]}
+                    onPress={() => handleVoiceNotePress(note)}
+                    disabled={isFollowing}
+                    accessibilityLabel={`Play voice note for chapter ${note.chapterNumber}`}
+                  >
+                    <Feather
+                      name={isCurrent && isPlaying ? 'volume-2' : 'mic'}
+                      size={18}
+                      color={isCurrent ? '#E91E63' : '#757575'}
+                    />
+                    <Text style={[styles.chapterLabel, isCurrent && styles.currentChapterLabel]} numberOfLines={1}>
+                      Chapter {note.chapterNumber} · {note.caption || nameOf(note.userId)}
+                    </Text>
+                    <Text style={styles.timeText}>{note.durationMs > 0 ? formatTime(note.durationMs) : ''}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Voices */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Voices</Text>
+            {isLoadingVoices && voices.length === 0 ? (
+              <ActivityIndicator color="#E91E63" />
+            ) : (
+              voiceRows.map(row => {
+                const selected = storyVoices.find(
+                  v => v.speaker_type === row.speakerType && v.speaker_id === row.speakerId
+                )?.voice_id || null;
+                return (
+                  <View key={row.key} style={styles.voiceRow}>
+                    <Text style={styles.optionLabel}>{row.label}</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                      <View style={styles.chips}>
+                        <TouchableOpacity
+                          style={[styles.chip, !selected && styles.selectedChip]}
+                          onPress={() => handleVoiceSelect(row, null)}
+                        >
+                          <Text style={[styles.chipText, !selected && styles.selectedChipText]}>
+                            {row.speakerType === 'narrator'
+                              ? `Default (${voices.find(v => v.id === defaultVoiceId)?.name || 'auto'})`
+                              : 'Same as narrator'}
+                          </Text>
+                        </TouchableOpacity>
+                        {voices.map(voice => {
+                          const locked = !isEntitled(entitlements, 'voice_packs', voice.pack);
+                          return (
+                            <TouchableOpacity
+                              key={voice.id}
+                              style={[
+                                styles.chip,
+                                styles.voiceChip,
+                                selected === voice.id && styles.selectedChip,
+                                locked && styles.lockedChip,
+                              ]}
+                              onPress={() => handleVoiceSelect(row, voice.id)}
+                            >
+                              {locked && <Feather name="lock" size={12} color="#9C27B0" />}
+                              <Text style={[styles.chipText, selected === voice.id && styles.selectedChipText]}>
+                                {voice.name}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </ScrollView>
+                  </View>
+                );
+              })
+            )}
+            <Text style={styles.hint}>
+              Each partner&apos;s chapters are read in their voice. Dialogue uses the voice of the character who says it.
+            </Text>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  container: {
+    flex: 1,
+    marginBottom: 24,
+  },
+  storyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  nowPlaying: {
+    backgroundColor: '#FAFAFA',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  nowPlayingLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: '#E0E0E0',
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#E91E63',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  timeText: {
+    fontSize: 12,
+    color: '#757575',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 32,
+    marginTop: 12,
+  },
+  controlButton: {
+    padding: 8,
+  },
+  playButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#E91E63',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabledButton: {
+    backgroundColor: '#BDBDBD',
+  },
+  speedChips: {
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+  listenStatus: {
+    fontSize: 14,
+    color: '#757575',
+    marginBottom: 12,
+  },
+  listenButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 24,
+    backgroundColor: '#E91E63',
+  },
+  leaveButton: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E91E63',
+  },
+  listenButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  leaveButtonText: {
+    color: '#E91E63',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#F44336',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#757575',
+    marginTop: 12,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 12,
+  },
+  chapterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F5F5F5',
+  },
+  currentChapterRow: {
+    backgroundColor: '#FCE4EC',
+    borderRadius: 8,
+  },
+  chapterLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#212121',
+  },
+  currentChapterLabel: {
+    fontWeight: '600',
+    color: '#E91E63',
+  },
+  voiceRow: {
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F5F5F5',
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#212121',
+    marginBottom: 2,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#FAFAFA',
+  },
+  selectedChip: {
+    backgroundColor: '#E91E63',
+    borderColor: '#E91E63',
+  },
+  voiceChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  lockedChip: {
+    borderColor: '#E1BEE7',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#212121',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+});
+
+export default NarrationPlayer;
@@ -1,7 +1,8 @@
 import React, { useEffect, useState } from 'react';
-import { StyleSheet, View, Text, TouchableOpacity, Animated, Platform } from 'react-native';
+import { StyleSheet, View, Text, TouchableOpacity, Animated } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useOfflineStore } from '@/stores/offlineStore';
+import type { OutboxEntry } from '@/lib/types';
 
 interface OfflineBannerProps {
   style?: any;
@@ -16,133 +17,92 @@ const colors = {
   white: '#FFFFFF',
 };
 
+const MAX_LISTED = 5;
+
+const describeEntry = (entry: OutboxEntry, queuedIds: Set<string>): string => {
+  if (entry.status === 'failed') {
+    return entry.lastError || 'Could not sync';
+  }
+  if (entry.dependsOn.some(id => queuedIds.has(id))) {
+    return 'Waiting for an earlier change';
+  }
+  if (entry.attempts > 0) {
+    const seconds = Math.max(0, Math.round((entry.nextAttemptAt - Date.now()) / 1000));
+    return seconds > 0 ? `Retrying in ${seconds}s` : 'Retrying';
+  }
+  return 'Waiting to sync';
+};
+
 export const OfflineBanner: React.FC<OfflineBannerProps> = ({
   style,
   testID = 'offline-banner'
 }) => {
-  const { isConnected, isSyncing, queue, syncOfflineData } = useOfflineStore();
-  const [isVisible, setIsVisible] = useState(!isConnected);
+  const { isConnected, isSyncing, queue, syncOfflineData, retryEntry, discardEntry } = useOfflineStore();
   const [isExpanded, setIsExpanded] = useState(false);
-  const animatedHeight = React.useRef(new Animated.Value(0)).current;
   const animatedOpacity = React.useRef(new Animated.Value(0)).current;
 
-  useEffect(() => {
-    if (!isConnected && !isVisible) {
-      setIsVisible(true);
-      animateBannerIn();
-    } else if (isConnected && isVisible) {
-      // Delay hiding to show success message if syncing
-      if (queue.length > 0 && isSyncing) {
-        setTimeout(() => {
-          setIsVisible(false);
-          animateBannerOut();
-        }, 2000);
-      } else {
-        setIsVisible(false);
-        animateBannerOut();
-      }
-    }
-  }, [isConnected, queue.length, isSyncing]);
+  const failedCount = queue.filter(entry => entry.status === 'failed').length;
+  // Shown while offline and for as long as anything is waiting to sync
+  const isVisible = !isConnected || queue.length > 0;
 
-  const animateBannerIn = () => {
-    Animated.parallel([
-      Animated.timing(animatedHeight, {
-        toValue: 1,
-        duration: 300,
-        useNativeDriver: false,
-      }),
-      Animated.timing(animatedOpacity, {
-        toValue: 1,
-        duration: 300,
-        useNativeDriver: true,
-      }),
-    ]).start();
-  };
-
-  const animateBannerOut = () => {
-    Animated.parallel([
-      Animated.timing(animatedHeight, {
-        toValue: 0,
-        duration: 300,
-        useNativeDriver: false,
-      }),
-      Animated.timing(animatedOpacity, {
-        toValue: 0,
-        duration: 300,
-        useNativeDriver: true,
-      }),
-    ]).start();
-  };
-
-  const handlePress = () => {
-    if (!isConnected) return;
+  useEffect(() => {
+    Animated.timing(animatedOpacity, {
+      toValue: isVisible ? 1 : 0,
+      duration: 300,
+      useNativeDriver: true,
+    }).start();
 
-    if (isExpanded) {
+    if (!isVisible) {
       setIsExpanded(false);
-      Animated.timing(animatedHeight, {
-        toValue: 1,
-        duration: 300,
-        useNativeDriver: false,
-      }).start();
-    } else {
-      setIsExpanded(true);
-      const contentHeight = isSyncing
-        ? 120
-        : queue.length > 0
-          ? 100
-          : 80;
-      Animated.timing(animatedHeight, {
-        toValue: contentHeight / 80, // Normalize to our base height
-        duration: 300,
-        useNativeDriver: false,
-      }).start();
     }
-  };
-
-  const handleSync = () => {
-    syncOfflineData();
-  };
+  }, [isVisible, animatedOpacity]);
 
   if (!isVisible) {
     return null;
   }
 
+  const queuedIds = new Set(queue.map(entry => entry.id));
+
   const getBannerColor = () => {
-    if (isConnected && queue.length === 0) {
-      return colors.success;
+    if (failedCount > 0 || !isConnected) {
+      return colors.error;
     }
-    if (isConnected && isSyncing) {
+    if (queue.length > 0) {
       return colors.warning;
     }
-    return colors.error;
+    return colors.success;
   };
 
   const getStatusText = () => {
+    const pending = queue.length > 0
+      ? ` · ${queue.length} change${queue.length > 1 ? 's' : ''} waiting`
+      : '';
+
     if (!isConnected) {
-      return 'You\'re offline';
+      return `You're offline${pending}`;
     }
 
     if (isSyncing) {
-      return 'Syncing offline data...';
+      return 'Syncing offline changes...';
     }
 
-    if (queue.length > 0) {
-      return `${queue.length} action${queue.length > 1 ? 's' : ''} ready to sync`;
+    if (failedCount > 0) {
+      return `${failedCount} change${failedCount > 1 ? 's' : ''} could not sync`;
     }
 
-    return 'All data synced!';
+    return `${queue.length} change${queue.length > 1 ? 's' : ''} waiting to sync`;
   };
 
   const getStatusIcon = () => {
     if (!isConnected) {
-      return <Ionicons name="close-circle" size={20} color="white" />;
+      return <Ionicons name="cloud-offline" size={20} color="white" />;
     }
 
-    if (isSyncing) {
-      return <Ionicons name="refresh" size={20} color="white" />;
+    if (failedCount > 0) {
+      return <Ionicons name="alert-circle" size={20} color="white" />;
     }
 
-    return <Ionicons name="checkmark-circle" size={20} color="white" />;
+    return <Ionicons name="refresh" size={20} color="white" />;
   };
 
   return (
@@ -153,25 +113,30 @@ export const OfflineBanner: React.FC<OfflineBannerProps> = ({
         {
           backgroundColor: getBannerColor(),
           opacity: animatedOpacity,
-          height: animatedHeight,
         },
         style,
       ]}
     >
       <TouchableOpacity
         style={styles.content}
-        onPress={handlePress}
+        onPress={() => setIsExpanded(expanded => !expanded)}
         activeOpacity={0.8}
+        disabled={queue.length === 0}
+        accessibilityLabel={queue.length > 0 ? 'Show changes waiting to sync' : undefined}
       >
         <View style={styles.leftContent}>
           {getStatusIcon()}
           <Text style={styles.statusText}>{getStatusText()}</Text>
+          {queue.length > 0 && (
+            <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={16} color="white" />
+          )}
         </View>
 
-        {isConnected && (
+        {isConnected && queue.length > 0 && (
           <TouchableOpacity
             style={styles.syncButton}
-            onPress={handleSync}
+            onPress={() => syncOfflineData()}
+            disabled={isSyncing}
             activeOpacity={0.7}
           >
             {isSyncing ? (
@@ -183,7 +148,7 @@ export const OfflineBanner: React.FC<OfflineBannerProps> = ({
         )}
       </TouchableOpacity>
 
-      {isExpanded && (
+      {isExpanded && queue.length > 0 && (
         <View style={styles.expandedContent}>
           <View style={styles.queueInfo}>
             <Ionicons
@@ -192,26 +157,37 @@ export const OfflineBanner: React.FC<OfflineBannerProps> = ({
               color="white"
               style={{ marginRight: 8 }}
             />
-            <Text style={styles.queueText}>
-              {queue.length} action{queue.length > 1 ? 's' : ''} in queue
-            </Text>
+            <Text style={styles.queueText}>Pending sync</Text>
           </View>
 
-          {queue.slice(0, 3).map((action, index) => (
-            <View key={action.id} style={styles.actionItem}>
-              <Text style={styles.actionText}>
-                {action.type.replace('_', ' ').toLowerCase()}
-                {action.retries > 0 && ` (${action.retries} retry${action.retries > 1 ? 's' : ''})`}
-              </Text>
-              <Text style={styles.timestampText}>
-                {new Date(action.timestamp).toLocaleTimeString()}
-              </Text>
+          {queue.slice(0, MAX_LISTED).map(entry => (
+            <View key={entry.id} style={styles.actionItem}>
+              <View style={styles.actionDetails}>
+                <Text style={styles.actionText} numberOfLines={1}>{entry.label}</Text>
+                <Text style={styles.timestampText} numberOfLines={2}>
+                  {describeEntry(entry, queuedIds)} · {new Date(entry.createdAt).toLocaleTimeString()}
+                </Text>
+              </View>
+              {entry.status === 'failed' && (
+                <View style={styles.entryActions}>
+                  <TouchableOpacity
+                    style={styles.entryButton}
+                    onPress={() => retryEntry(entry.id)}
+                    disabled={!isConnected}
+                  >
+                    <Text style={styles.syncButtonText}>Retry</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.entryButton} onPress={() => discardEntry(entry.id)}>
+                    <Text style={styles.syncButtonText}>Discard</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
             </View>
           ))}
 
-          {queue.length > 3 && (
+          {queue.length > MAX_LISTED && (
             <Text style={styles.moreText}>
-              +{queue.length - 3} more actions
+              +{queue.length - MAX_LISTED} more
             </Text>
           )}
         </View>
@@ -290,10 +266,24 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     marginBottom: 4,
   },
+  actionDetails: {
+    flex: 1,
+  },
   actionText: {
     color: 'white',
     fontSize: 12,
-    flex: 1,
+    fontWeight: '600',
+  },
+  entryActions: {
+    flexDirection: 'row',
+    gap: 6,
+    marginLeft: 8,
+  },
+  entryButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
   },
   timestampText: {
     color: 'rgba(255, 255, 255, 0.8)',
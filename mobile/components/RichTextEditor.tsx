@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import {
   StyleSheet,
   View,
@@ -27,6 +27,7 @@ interface RichTextEditorProps {
   onFormat?: (format: string) => void;
   error?: string;
   style?: any;
+  onSelectionChange?: (selection: { start: number; end: number }) => void;
 }
 
 // Simple rich text editor using React Native TextInput
@@ -41,12 +42,20 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
   onFormat,
   error,
   style,
+  onSelectionChange,
 }) => {
   const [content, setContent] = useState(value || initialValue);
   const [showImagePicker, setShowImagePicker] = useState(false);
   const [toolbarVisible, setToolbarVisible] = useState(true);
   const inputRef = useRef<TextInput>(null);
 
+  // Follow changes made outside the editor, such as a co-writer's edits
+  useEffect(() => {
+    if (value !== undefined) {
+      setContent(current => (current === value ? current : value));
+    }
+  }, [value]);
+
   const handleContentChange = useCallback((newContent: string) => {
     setContent(newContent);
     onChange?.(newContent);
@@ -127,6 +136,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
               numberOfLines={10}
               value={content}
               onChangeText={handleContentChange}
+              onSelectionChange={(event) => onSelectionChange?.(event.nativeEvent.selection)}
               placeholder={placeholder}
               placeholderTextColor="#999"
               editable={editable}
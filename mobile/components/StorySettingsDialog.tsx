@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button } from './Button';
+import { Story, StorySettings } from '../lib/types';
+import {
+  TURN_MODE_OPTIONS,
+  CONTENT_RATING_OPTIONS,
+  MIN_WORD_OPTIONS,
+  MAX_WORD_OPTIONS,
+  TARGET_CHAPTER_OPTIONS,
+  getStorySettings,
+} from '../lib/storySettings';
+import { useStoriesStore } from '../stores/storiesStore';
+
+interface StorySettingsDialogProps {
+  visible: boolean;
+  onClose: () => void;
+  story: Story;
+}
+
+export function StorySettingsDialog({ visible, onClose, story }: StorySettingsDialogProps) {
+  const { updateStorySettings } = useStoriesStore();
+  const [settings, setSettings] = useState<StorySettings>(getStorySettings(story));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSettings(getStorySettings(story));
+    }
+  }, [visible, story]);
+
+  const update = (changes: Partial<StorySettings>) => {
+    setSettings(current => ({ ...current, ...changes }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateStorySettings(story.id, settings);
+      onClose();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save story settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOptions = <T extends string | number | null>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void,
+    isDisabled: (value: T) => boolean = () => false
+  ) => (
+    <View style={styles.options}>
+      {options.map(option => {
+        const isSelected = option.value === selected;
+        const disabled = isDisabled(option.value);
+        return (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[styles.option, isSelected && styles.selectedOption, disabled && styles.disabledOption]}
+            onPress={() => onSelect(option.value)}
+            disabled={disabled}
+            accessibilityState={{ selected: isSelected, disabled }}
+          >
+            <Text style={[styles.optionText, isSelected && styles.selectedOptionText]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modal}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Story Rules</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Feather name="x" size={24} color="#757575" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.container}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Turns</Text>
+            {TURN_MODE_OPTIONS.map(option => {
+              const isSelected = settings.turnMode === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.modeOption, isSelected && styles.selectedModeOption]}
+                  onPress={() => update({ turnMode: option.value })}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text style={styles.modeLabel}>{option.label}</Text>
+                  <Text style={styles.sectionHint}>{option.description}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Shortest chapter</Text>
+            {renderOptions(
+              MIN_WORD_OPTIONS.map(words => ({
+                value: words,
+                label: words === 0 ? 'Any length' : `${words} words`,
+              })),
+              settings.minChapterWords,
+              words => update({ minChapterWords: words })
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Longest chapter</Text>
+            {renderOptions(
+              MAX_WORD_OPTIONS.map(words => ({
+                value: words,
+                label: words === null ? 'No limit' : `${words} words`,
+              })),
+              settings.maxChapterWords,
+              words => update({ maxChapterWords: words }),
+              words => words !== null && words < settings.minChapterWords
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.sectionTitle}>AI enhancement</Text>
+                <Text style={styles.sectionHint}>Let either of you polish chapters with AI.</Text>
+              </View>
+              <Switch
+                value={settings.aiEnhancementAllowed}
+                onValueChange={allowed => update({ aiEnhancementAllowed: allowed })}
+                trackColor={{ false: '#E0E0E0', true: '#F8BBD0' }}
+                thumbColor={settings.aiEnhancementAllowed ? '#E91E63' : '#FAFAFA'}
+              />
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Content rating</Text>
+            <Text style={styles.sectionHint}>AI suggestions stay within it.</Text>
+            {renderOptions(
+              CONTENT_RATING_OPTIONS,
+              settings.contentRating,
+              rating => update({ contentRating: rating })
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Target length</Text>
+            {renderOptions(
+              TARGET_CHAPTER_OPTIONS.map(chapters => ({
+                value: chapters,
+                label: chapters === null ? 'Open-ended' : `${chapters} chapters`,
+              })),
+              settings.targetChapters,
+              chapters => update({ targetChapters: chapters })
+            )}
+          </View>
+        </ScrollView>
+
+        <Button variant="primary" onPress={handleSave} isLoading={isSaving}>
+          Save
+        </Button>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  container: {
+    flex: 1,
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: '#757575',
+    marginBottom: 12,
+  },
+  modeOption: {
+    padding: 12,
+    paddingBottom: 0,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#E0E0E0',
+    marginTop: 8,
+  },
+  selectedModeOption: {
+    borderColor: '#E91E63',
+    backgroundColor: '#FCE4EC',
+  },
+  modeLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 2,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#FAFAFA',
+  },
+  selectedOption: {
+    backgroundColor: '#E91E63',
+    borderColor: '#E91E63',
+  },
+  disabledOption: {
+    opacity: 0.4,
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#212121',
+  },
+  selectedOptionText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchText: {
+    flex: 1,
+  },
+});
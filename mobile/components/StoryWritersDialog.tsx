@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button } from './Button';
+import { Story, StoryWithMembers } from '../lib/types';
+import { GROUP_SIZE_OPTIONS, getMaxMembers } from '../lib/storySettings';
+import { useStoriesStore } from '../stores/storiesStore';
+
+type Member = StoryWithMembers['members'][number];
+
+interface StoryWritersDialogProps {
+  visible: boolean;
+  onClose: () => void;
+  story: Story;
+  members: Member[];
+  currentUserId?: string;
+}
+
+const byTurnOrder = (members: Member[]): Member[] =>
+  [...members].sort((a, b) => (a.turn_order ?? Infinity) - (b.turn_order ?? Infinity));
+
+export function StoryWritersDialog({ visible, onClose, story, members, currentUserId }: StoryWritersDialogProps) {
+  const { updateStoryWriters } = useStoriesStore();
+  const [order, setOrder] = useState<Member[]>(byTurnOrder(members));
+  const [maxMembers, setMaxMembers] = useState(getMaxMembers(story));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setOrder(byTurnOrder(members));
+      setMaxMembers(getMaxMembers(story));
+    }
+  }, [visible, story, members]);
+
+  const move = (index: number, offset: number) => {
+    setOrder(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateStoryWriters(story.id, order.map(member => member.user_id), maxMembers);
+      onClose();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save writers');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openSeats = maxMembers - order.length;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modal}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Writers</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Feather name="x" size={24} color="#757575" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.container}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Turn order</Text>
+            <Text style={styles.sectionHint}>Turns go down the list and start again at the top.</Text>
+            {order.map((member, index) => (
+              <View key={member.user_id} style={styles.writerRow}>
+                <Text style={styles.position}>{index + 1}</Text>
+                <Text style={styles.writerName} numberOfLines={1}>
+                  {member.profile?.display_name || 'Writer'}
+                  {member.user_id === currentUserId ? ' (you)' : ''}
+                </Text>
+                <TouchableOpacity
+                  style={styles.moveButton}
+                  onPress={() => move(index, -1)}
+                  disabled={index === 0}
+                  accessibilityLabel={`Move ${member.profile?.display_name || 'writer'} up`}
+                >
+                  <Feather name="chevron-up" size={20} color={index === 0 ? '#E0E0E0' : '#757575'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.moveButton}
+                  onPress={() => move(index, 1)}
+                  disabled={index === order.length - 1}
+                  accessibilityLabel={`Move ${member.profile?.display_name || 'writer'} down`}
+                >
+                  <Feather
+                    name="chevron-down"
+                    size={20}
+                    color={index === order.length - 1 ? '#E0E0E0' : '#757575'}
+                  />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Group size</Text>
+            <Text style={styles.sectionHint}>
+              {openSeats > 0
+                ? `${openSeats} more ${openSeats === 1 ? 'writer' : 'writers'} can join with code ${story.pairing_code}.`
+                : 'The story is full. Make room to invite someone else.'}
+            </Text>
+            <View style={styles.options}>
+              {GROUP_SIZE_OPTIONS.map(size => {
+                const isSelected = size === maxMembers;
+                const disabled = size < order.length;
+                return (
+                  <TouchableOpacity
+                    key={size}
+                    style={[styles.option, isSelected && styles.selectedOption, disabled && styles.disabledOption]}
+                    onPress={() => setMaxMembers(size)}
+                    disabled={disabled}
+                    accessibilityState={{ selected: isSelected, disabled }}
+                  >
+                    <Text style={[styles.optionText, isSelected && styles.selectedOptionText]}>
+                      {size === 2 ? 'Just two' : `Up to ${size}`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </ScrollView>
+
+        <Button variant="primary" onPress={handleSave} isLoading={isSaving}>
+          Save
+        </Button>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  container: {
+    flex: 1,
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: '#757575',
+    marginBottom: 12,
+  },
+  writerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F5F5F5',
+  },
+  position: {
+    width: 28,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#E91E63',
+  },
+  writerName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#212121',
+  },
+  moveButton: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#FAFAFA',
+  },
+  selectedOption: {
+    backgroundColor: '#E91E63',
+    borderColor: '#E91E63',
+  },
+  disabledOption: {
+    opacity: 0.4,
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#212121',
+  },
+  selectedOptionText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, LayoutChangeEvent } from 'react-native';
+import { Svg, Path, Line, Circle } from 'react-native-svg';
+
+export interface TrendPoint {
+  date: string;
+  value: number | null; // null leaves a gap in the line
+}
+
+interface TrendChartProps {
+  points: TrendPoint[];
+  height?: number;
+  color?: string;
+  // Fixed range for percentages; otherwise the chart fits the data
+  minValue?: number;
+  maxValue?: number;
+  formatValue?: (value: number) => string;
+  emptyText?: string;
+}
+
+const PADDING = 8;
+
+export function TrendChart({
+  points,
+  height = 140,
+  color = '#E91E63',
+  minValue,
+  maxValue,
+  formatValue = value => String(Math.round(value)),
+  emptyText = 'Not enough writing yet to show a trend',
+}: TrendChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const values = points.map(p => p.value).filter((v): v is number => v !== null);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  if (values.length < 2) {
+    return (
+      <View style={[styles.empty, { height }]}>
+        <Text style={styles.emptyText}>{emptyText}</Text>
+      </View>
+    );
+  }
+
+  const low = minValue ?? Math.min(...values);
+  let high = maxValue ?? Math.max(...values);
+  if (high === low) high = low + 1;
+
+  const x = (index: number) =>
+    PADDING + (points.length > 1 ? (index / (points.length - 1)) * (width - PADDING * 2) : 0);
+  const y = (value: number) =>
+    PADDING + (1 - (value - low) / (high - low)) * (height - PADDING * 2);
+
+  // A new segment starts after every gap
+  let path = '';
+  let drawing = false;
+  points.forEach((point, index) => {
+    if (point.value === null) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? 'L' : 'M'}${x(index).toFixed(1)},${y(point.value).toFixed(1)} `;
+    drawing = true;
+  });
+
+  const lastIndex = points.map(p => p.value !== null).lastIndexOf(true);
+  const latest = points[lastIndex].value as number;
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return (
+    <View>
+      <View style={styles.scale}>
+        <Text style={styles.scaleText}>{formatValue(high)}</Text>
+        <Text style={[styles.latest, { color }]}>{formatValue(latest)}</Text>
+      </View>
+      <View style={{ height }} onLayout={onLayout}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            <Line
+              x1={PADDING}
+              y1={height - PADDING}
+              x2={width - PADDING}
+              y2={height - PADDING}
+              stroke="#E0E0E0"
+              strokeWidth={1}
+            />
+            <Path d={path} stroke={color} strokeWidth={2.5} fill="none" strokeLinejoin="round" />
+            <Circle cx={x(lastIndex)} cy={y(latest)} r={4} fill={color} />
+          </Svg>
+        )}
+      </View>
+      <View style={styles.scale}>
+        <Text style={styles.scaleText}>{formatDate(points[0].date)}</Text>
+        <Text style={styles.scaleText}>{formatDate(points[points.length - 1].date)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  empty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#757575',
+    textAlign: 'center',
+  },
+  scale: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 4,
+  },
+  scaleText: {
+    fontSize: 12,
+    color: '#757575',
+  },
+  latest: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,302 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button } from './Button';
+import { Story, StoryTurn, TurnOutcome, TurnSettings } from '../lib/types';
+import {
+  DEADLINE_HOUR_OPTIONS,
+  GRACE_HOUR_OPTIONS,
+  REMINDER_HOUR_OPTIONS,
+  MAX_TURN_REMINDERS,
+  formatHourOption,
+  formatTimeLeft,
+  getTurnSettings,
+} from '../lib/storyTurns';
+import { useStoriesStore } from '../stores/storiesStore';
+
+interface TurnSettingsDialogProps {
+  visible: boolean;
+  onClose: () => void;
+  story: Story;
+  // Display names by user id, for the turn history
+  writers: Record<string, string>;
+}
+
+const OUTCOME_LABELS: Record<TurnOutcome, string> = {
+  written: 'Wrote a chapter',
+  skipped: 'Skipped',
+  passed: 'Passed the pen',
+  expired: 'Ran out of time',
+};
+
+export function TurnSettingsDialog({ visible, onClose, story, writers }: TurnSettingsDialogProps) {
+  const { fetchStoryTurns, updateTurnSettings } = useStoriesStore();
+  const [settings, setSettings] = useState<TurnSettings>(getTurnSettings(story));
+  const [turns, setTurns] = useState<StoryTurn[]>([]);
+  const [isLoadingTurns, setIsLoadingTurns] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSettings(getTurnSettings(story));
+    }
+  }, [visible, story]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setIsLoadingTurns(true);
+    fetchStoryTurns(story.id)
+      .then(setTurns)
+      .catch(error => console.error('Error loading turns:', error))
+      .finally(() => setIsLoadingTurns(false));
+  }, [visible, story.id, fetchStoryTurns]);
+
+  const toggleReminder = (hours: number) => {
+    setSettings(current => {
+      if (current.reminderHours.includes(hours)) {
+        return { ...current, reminderHours: current.reminderHours.filter(h => h !== hours) };
+      }
+      if (current.reminderHours.length >= MAX_TURN_REMINDERS) return current;
+      return { ...current, reminderHours: [...current.reminderHours, hours].sort((a, b) => b - a) };
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateTurnSettings(story.id, {
+        ...settings,
+        // A reminder before the turn starts would never fire
+        reminderHours: settings.reminderHours.filter(h => h <= settings.deadlineHours),
+      });
+      onClose();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save turn settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOptions = (
+    options: number[],
+    isSelected: (hours: number) => boolean,
+    onSelect: (hours: number) => void,
+    isDisabled: (hours: number) => boolean = () => false
+  ) => (
+    <View style={styles.options}>
+      {options.map(hours => {
+        const selected = isSelected(hours);
+        const disabled = isDisabled(hours);
+        return (
+          <TouchableOpacity
+            key={hours}
+            style={[styles.option, selected && styles.selectedOption, disabled && styles.disabledOption]}
+            onPress={() => onSelect(hours)}
+            disabled={disabled}
+            accessibilityState={{ selected, disabled }}
+          >
+            <Text style={[styles.optionText, selected && styles.selectedOptionText]}>
+              {formatHourOption(hours)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modal}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Turns</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Feather name="x" size={24} color="#757575" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.container}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Time to write</Text>
+            <Text style={styles.sectionHint}>How long each writer has once it is their turn.</Text>
+            {renderOptions(
+              DEADLINE_HOUR_OPTIONS,
+              hours => settings.deadlineHours === hours,
+              hours => setSettings(current => ({ ...current, deadlineHours: hours }))
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Grace period</Text>
+            <Text style={styles.sectionHint}>
+              Extra time after the deadline before the turn passes on.
+            </Text>
+            {renderOptions(
+              GRACE_HOUR_OPTIONS,
+              hours => settings.graceHours === hours,
+              hours => setSettings(current => ({ ...current, graceHours: hours }))
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Reminders before the deadline</Text>
+            <Text style={styles.sectionHint}>Up to {MAX_TURN_REMINDERS}, sent to whoever is writing.</Text>
+            {renderOptions(
+              REMINDER_HOUR_OPTIONS,
+              hours => settings.reminderHours.includes(hours),
+              toggleReminder,
+              hours => hours > settings.deadlineHours
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Recent turns</Text>
+            {isLoadingTurns ? (
+              <ActivityIndicator color="#E91E63" />
+            ) : turns.length === 0 ? (
+              <Text style={styles.sectionHint}>No turns yet.</Text>
+            ) : (
+              turns.map(turn => (
+                <View key={turn.id} style={styles.turnRow}>
+                  <View style={styles.turnText}>
+                    <Text style={styles.turnWriter}>{writers[turn.user_id] || 'Writer'}</Text>
+                    <Text style={styles.turnOutcome}>
+                      {turn.outcome ? OUTCOME_LABELS[turn.outcome] : 'Writing now'}
+                    </Text>
+                  </View>
+                  <Text
+                    style={[
+                      styles.turnTime,
+                      !!turn.ended_at && new Date(turn.ended_at) > new Date(turn.deadline_at) && styles.lateTime,
+                    ]}
+                  >
+                    {turn.ended_at
+                      ? formatTimeLeft(new Date(turn.ended_at), new Date(turn.started_at))
+                      : `${formatTimeLeft(new Date(turn.deadline_at))} left`}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+        </ScrollView>
+
+        <Button variant="primary" onPress={handleSave} isLoading={isSaving}>
+          Save
+        </Button>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  container: {
+    flex: 1,
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: '#757575',
+    marginBottom: 12,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#FAFAFA',
+  },
+  selectedOption: {
+    backgroundColor: '#E91E63',
+    borderColor: '#E91E63',
+  },
+  disabledOption: {
+    opacity: 0.4,
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#212121',
+  },
+  selectedOptionText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  turnRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F5F5F5',
+  },
+  turnText: {
+    flex: 1,
+  },
+  turnWriter: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#212121',
+  },
+  turnOutcome: {
+    fontSize: 13,
+    color: '#757575',
+  },
+  turnTime: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '500',
+  },
+  lateTime: {
+    color: '#F44336',
+  },
+});
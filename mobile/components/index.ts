@@ -38,12 +38,20 @@ export { default as RichTextToolbar } from './RichTextToolbar';
 export { default as ImagePicker } from './ImagePicker';
 export { default as AudioRecorder } from './AudioRecorder';
 export { default as VoiceNotePlayer } from './VoiceNotePlayer';
+export { NarrationPlayer } from './NarrationPlayer';
+export { ChapterHistory } from './ChapterHistory';
+export { TurnSettingsDialog } from './TurnSettingsDialog';
+export { StorySettingsDialog } from './StorySettingsDialog';
+export { StoryWritersDialog } from './StoryWritersDialog';
+export { CoWriterCursors } from './CoWriterCursors';
 export { default as MediaGallery } from './MediaGallery';
 
 // Relationship
 export { RelationshipMilestone } from './RelationshipMilestone';
 export { DailyIntentionCard } from './DailyIntentionCard';
 export { ConnectionScore } from './ConnectionScore';
+export { CoupleWalletCard } from './CoupleWalletCard';
+export { TrendChart } from './TrendChart';
 
 // Export & Dialog
 export { ExportDialog, default as ExportDialogModal } from './ExportDialog';
@@ -1,4 +1,7 @@
 import { supabase } from './supabase';
+import { NarrationSpeakerType } from './types';
+import { createIdempotencyKey } from './tokenManager';
+import { requireEntitlement } from './entitlements';
 
 // Get Supabase URL for direct fetch calls
 const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
@@ -178,6 +181,101 @@ export interface AICharacterConsistencyResponse {
   cached?: boolean;
 }
 
+export type AIBranchTone =
+  | 'romantic'
+  | 'playful'
+  | 'dramatic'
+  | 'mysterious'
+  | 'tender'
+  | 'adventurous'
+  | 'humorous';
+
+export interface AIBranchRequest {
+  storyId: string;
+  choiceId?: string;
+  parentChapterId?: string;
+  draftContent?: string;
+  count?: number;
+  userId?: string;
+}
+
+export interface AIBranchChoice {
+  title: string;
+  teaser: string;
+  tone: AIBranchTone;
+}
+
+export interface AIBranchResponse {
+  consequences: string;
+  choices: AIBranchChoice[];
+}
+
+export interface AITwistRequest {
+  storyContext: string;
+  recentChapters: string[];
+  context?: string; // Real-life context the twists may draw on
+  storyId?: string;
+  mode?: 'standard' | 'advanced'; // advanced needs the advanced_twists entitlement
+}
+
+export interface AITwistResponse {
+  twists: string[];
+}
+
+export interface AIPlotWeaverRequest {
+  storyId: string;
+  choiceId?: string;
+  parentChapterId?: string;
+  draftContent?: string;
+  count?: number;
+  userId?: string;
+}
+
+export interface AIPlotHook {
+  inspirationId: string;
+  inspiration: string;
+  hook: string;
+  howToUse: string;
+}
+
+export interface AIPlotWeaverResponse {
+  hooks: AIPlotHook[];
+  unusedCount: number;
+}
+
+export interface AINarrationVoice {
+  id: string;
+  name: string;
+  gender: 'female' | 'male' | 'neutral';
+  language: string;
+  pack: string; // 'standard' or a voice pack; see the voice_packs entitlement
+}
+
+export interface AINarrationVoicesResponse {
+  provider: string;
+  defaultVoiceId: string;
+  voices: AINarrationVoice[];
+}
+
+export interface AINarrationSegment {
+  mediaId: string;
+  url: string;
+  speakerType: NarrationSpeakerType;
+  speakerId: string | null;
+  voiceId: string;
+  durationMs: number;
+}
+
+export interface AIChapterNarration {
+  chapterId: string;
+  chapterNumber: number;
+  provider: string;
+  durationMs: number;
+  segments: AINarrationSegment[];
+  cached: boolean;
+  tokensCharged: number;
+}
+
 export interface AIUsageStats {
   total_cost: number;
   total_tokens: number;
@@ -264,6 +362,8 @@ class AIClient {
           'apikey': SUPABASE_ANON_KEY,
         },
         body: JSON.stringify({
+          // The function charges tokens once per key; callers may pass their own to retry safely
+          idempotencyKey: createIdempotencyKey(functionName),
           ...request,
           userId: session.user.id,  // Pass userId directly to bypass JWT auth
         }),
@@ -295,6 +395,7 @@ class AIClient {
 
   // Cover Art Generation
   async generateCoverArt(request: AICoverArtRequest): Promise<AICoverArtResponse> {
+    requireEntitlement('premium_art_styles', request.style);
     return this.callAIFunction('ai-cover-art', request);
   }
 
@@ -305,6 +406,7 @@ class AIClient {
 
   // Character Avatar Generation
   async generateCharacterAvatar(request: AICharacterAvatarRequest): Promise<AICharacterAvatarResponse> {
+    requireEntitlement('premium_art_styles', request.style);
     return this.callAIFunction('ai-character-avatar', request);
   }
 
@@ -323,6 +425,49 @@ class AIClient {
     return this.callAIFunction('ai-character-consistency', request);
   }
 
+  // Branch choices: consequences of the path taken plus candidate choice endings.
+  // Not cached so asking again gives fresh ideas.
+  async generateBranchChoices(request: AIBranchRequest): Promise<AIBranchResponse> {
+    return this.callAIFunction('ai-branch', request, false);
+  }
+
+  // Plot twists. Advanced twists come with a setup and payoff and need
+  // Premium. Not cached so asking again gives fresh twists.
+  async generatePlotTwists(request: AITwistRequest): Promise<AITwistResponse> {
+    if (request.mode === 'advanced') {
+      requireEntitlement('advanced_twists');
+    }
+
+    // ai-twist checks the caller's JWT itself, so this goes through
+    // functions.invoke, which sends the session token
+    const { data, error } = await supabase.functions.invoke('ai-twist', {
+      body: { idempotencyKey: createIdempotencyKey('ai-twist'), ...request },
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'AI function failed');
+    }
+    return data.data as AITwistResponse;
+  }
+
+  // Plot Weaver: turns unused inspirations from both partners into plot hooks.
+  // Not cached, inspirations are marked as used once a chapter weaves them in.
+  async weavePlotHooks(request: AIPlotWeaverRequest): Promise<AIPlotWeaverResponse> {
+    return this.callAIFunction('ai-plot-weaver', request, false);
+  }
+
+  // Narration: the voices the configured TTS provider offers
+  async getNarrationVoices(): Promise<AINarrationVoicesResponse> {
+    return this.callAIFunction('narrate-chapter', { action: 'voices' });
+  }
+
+  // Narrate a chapter. Audio is cached server-side per text and voice, so
+  // this is not cached here: a changed voice must reach the function.
+  async narrateChapter(chapterId: string): Promise<AIChapterNarration> {
+    return this.callAIFunction('narrate-chapter', { action: 'narrate', chapterId }, false);
+  }
+
   // Update existing chapter
   async updateChapter(chapterId: string, content: string, contextSnippet?: string): Promise<void> {
     const { data: { user } } = await supabase.auth.getSession();
@@ -0,0 +1,145 @@
+/**
+ * Chapter Revisions
+ *
+ * Every change to a chapter's text is kept in chapter_revisions. These helpers
+ * compare two versions word by word, for the history view and for showing what
+ * the AI enhancement changed.
+ */
+
+import type { ChapterRevision } from './types';
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Past this many word pairs the comparison is too slow on a phone; the changed
+// middle is then shown as one removal and one insertion
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Words with the whitespace that follows them, so the text reads back unchanged
+const tokenize = (text: string): string[] => text.match(/\s*\S+\s*/g) || [];
+
+const word = (token: string) => token.trim();
+
+/**
+ * Chapters are stored as HTML; diffs compare the words a reader sees
+ */
+export const toPlainText = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Word-level diff from `before` to `after`. Equal runs use the spacing of
+ * `after`. Neighbouring parts of the same kind are merged.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  const push = (op: DiffOp, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) {
+      last.text += text;
+    } else {
+      parts.push({ op, text });
+    }
+  };
+
+  // Edits are usually local, so trim the shared start and end first
+  let start = 0;
+  while (start < a.length && start < b.length && word(a[start]) === word(b[start])) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && word(a[endA - 1]) === word(b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  b.slice(0, start).forEach(token => push('equal', token));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    midA.forEach(token => push('delete', token));
+    midB.forEach(token => push('insert', token));
+  } else {
+    // lcs[i * width + j] = longest common run of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = word(midA[i]) === word(midB[j])
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (word(midA[i]) === word(midB[j])) {
+        push('equal', midB[j]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push('delete', midA[i]);
+        i++;
+      } else {
+        push('insert', midB[j]);
+        j++;
+      }
+    }
+    midA.slice(i).forEach(token => push('delete', token));
+    midB.slice(j).forEach(token => push('insert', token));
+  }
+
+  b.slice(endB).forEach(token => push('equal', token));
+
+  return parts;
+};
+
+export const getDiffStats = (parts: DiffPart[]): DiffStats =>
+  parts.reduce(
+    (stats, part) => {
+      const words = tokenize(part.text).length;
+      if (part.op === 'insert') stats.added += words;
+      if (part.op === 'delete') stats.removed += words;
+      return stats;
+    },
+    { added: 0, removed: 0 }
+  );
+
+export const describeRevision = (revision: ChapterRevision): string => {
+  switch (revision.reason) {
+    case 'created':
+      return 'Original';
+    case 'restored':
+      return 'Restored';
+    case 'resolved':
+      return 'Conflict resolved';
+    default:
+      return 'Edited';
+  }
+};
@@ -0,0 +1,223 @@
+/**
+ * Chapter Tree
+ *
+ * Chapters can end with 2-4 choices, and each choice can be continued by its
+ * own chapter. These helpers turn the flat chapters + chapter_choices rows into
+ * a tree and answer the common questions about it (which path to show, what
+ * the next chapter continues, which choices are still open).
+ */
+
+import type { Chapter, ChapterChoice, ChapterChoiceDraft, ChapterNode } from './types';
+
+export const MIN_CHAPTER_CHOICES = 2;
+export const MAX_CHAPTER_CHOICES = 4;
+export const MAX_CHOICE_TITLE_LENGTH = 120;
+export const MAX_CHOICE_DESCRIPTION_LENGTH = 500;
+
+const byCreatedAt = (a: Chapter, b: Chapter) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+/**
+ * Build the story tree from flat rows. Returns null for a story with no chapters.
+ */
+export const buildChapterTree = (
+  chapters: Chapter[],
+  choices: ChapterChoice[] = []
+): ChapterNode | null => {
+  if (chapters.length === 0) return null;
+
+  const choicesByChapter = new Map<string, ChapterChoice[]>();
+  const choicesById = new Map<string, ChapterChoice>();
+  for (const choice of choices) {
+    choicesById.set(choice.id, choice);
+    const list = choicesByChapter.get(choice.chapter_id) || [];
+    list.push(choice);
+    choicesByChapter.set(choice.chapter_id, list);
+  }
+
+  const nodes = new Map<string, ChapterNode>();
+  for (const chapter of [...chapters].sort(byCreatedAt)) {
+    nodes.set(chapter.id, {
+      ...chapter,
+      choices: (choicesByChapter.get(chapter.id) || []).sort((a, b) => a.position - b.position),
+      choice: chapter.choice_id ? choicesById.get(chapter.choice_id) || null : null,
+      children: [],
+    });
+  }
+
+  const roots: ChapterNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_chapter_id ? nodes.get(node.parent_chapter_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  // Children follow the order of the choices they continue
+  for (const node of nodes.values()) {
+    node.children.sort(
+      (a, b) => (a.choice?.position ?? 0) - (b.choice?.position ?? 0)
+    );
+  }
+
+  // Stories only have one root; the earliest wins if old data has more
+  return roots[0] || null;
+};
+
+// Most recent created_at anywhere in a subtree
+const latestActivity = (node: ChapterNode): number =>
+  node.children.reduce(
+    (latest, child) => Math.max(latest, latestActivity(child)),
+    new Date(node.created_at).getTime()
+  );
+
+/**
+ * Path from the root to the leaf that was written most recently. This is the
+ * branch the couple is currently writing and the one screens show by default.
+ */
+export const getActivePath = (root: ChapterNode | null): ChapterNode[] => {
+  const path: ChapterNode[] = [];
+  let node = root;
+  while (node) {
+    path.push(node);
+    node = node.children.reduce<ChapterNode | null>(
+      (best, child) => (!best || latestActivity(child) > latestActivity(best) ? child : best),
+      null
+    );
+  }
+  return path;
+};
+
+/**
+ * Depth-first search for a chapter by id
+ */
+export const findChapterNode = (
+  root: ChapterNode | null,
+  chapterId: string
+): ChapterNode | null => {
+  if (!root) return null;
+  if (root.id === chapterId) return root;
+  for (const child of root.children) {
+    const found = findChapterNode(child, chapterId);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * Path from the root down to a chapter, or an empty array if it is not in the tree
+ */
+export const getPathToChapter = (
+  root: ChapterNode | null,
+  chapterId: string
+): ChapterNode[] => {
+  if (!root) return [];
+  if (root.id === chapterId) return [root];
+  for (const child of root.children) {
+    const path = getPathToChapter(child, chapterId);
+    if (path.length > 0) return [root, ...path];
+  }
+  return [];
+};
+
+/**
+ * Find a choice anywhere in the tree, together with the chapter that offers it
+ */
+export const findChoice = (
+  root: ChapterNode | null,
+  choiceId: string
+): { chapter: ChapterNode; choice: ChapterChoice } | null => {
+  if (!root) return null;
+  const choice = root.choices.find(c => c.id === choiceId);
+  if (choice) return { chapter: root, choice };
+  for (const child of root.children) {
+    const found = findChoice(child, choiceId);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * Choices on a chapter that nobody has continued yet
+ */
+export const getOpenChoices = (node: ChapterNode): ChapterChoice[] =>
+  node.choices.filter(choice => !node.children.some(child => child.choice_id === choice.id));
+
+/**
+ * Flatten the tree in depth-first order
+ */
+export const flattenChapterTree = (root: ChapterNode | null): ChapterNode[] => {
+  if (!root) return [];
+  return [root, ...root.children.flatMap(flattenChapterTree)];
+};
+
+/**
+ * Path through a chapter: the route from the root down to it, then on through
+ * its most recently written descendants. Used to read a single branch.
+ */
+export const getBranchPath = (
+  root: ChapterNode | null,
+  chapterId: string
+): ChapterNode[] => {
+  const path = getPathToChapter(root, chapterId);
+  if (path.length === 0) return getActivePath(root);
+  return [...path, ...getActivePath(path[path.length - 1]).slice(1)];
+};
+
+/**
+ * Choices nobody picked on chapters the story has already moved past. Either
+ * partner can revive one and continue it as a parallel storyline.
+ */
+export const getUnpickedChoices = (
+  root: ChapterNode | null
+): { chapter: ChapterNode; choice: ChapterChoice }[] =>
+  flattenChapterTree(root)
+    .filter(node => node.children.length > 0)
+    .flatMap(node => getOpenChoices(node).map(choice => ({ chapter: node, choice })));
+
+/**
+ * Leaves of the tree, one per storyline
+ */
+export const getBranchTips = (root: ChapterNode | null): ChapterNode[] =>
+  flattenChapterTree(root).filter(node => node.children.length === 0);
+
+/**
+ * Check the choice endings a writer entered. Blank rows are ignored, so an
+ * editor can show empty slots. Returns an error message or null.
+ */
+export const validateChoiceDrafts = (drafts: ChapterChoiceDraft[]): string | null => {
+  const filled = drafts.filter(d => d.title.trim().length > 0);
+  if (filled.length === 0) return null;
+
+  if (filled.length < MIN_CHAPTER_CHOICES || filled.length > MAX_CHAPTER_CHOICES) {
+    return `A chapter must end with ${MIN_CHAPTER_CHOICES} to ${MAX_CHAPTER_CHOICES} choices`;
+  }
+
+  if (filled.some(d => d.title.trim().length > MAX_CHOICE_TITLE_LENGTH)) {
+    return `Choice titles must be ${MAX_CHOICE_TITLE_LENGTH} characters or less`;
+  }
+
+  if (filled.some(d => (d.description?.trim().length ?? 0) > MAX_CHOICE_DESCRIPTION_LENGTH)) {
+    return `Choice descriptions must be ${MAX_CHOICE_DESCRIPTION_LENGTH} characters or less`;
+  }
+
+  const titles = filled.map(d => d.title.trim().toLowerCase());
+  if (new Set(titles).size !== titles.length) {
+    return 'Each choice needs a different title';
+  }
+
+  return null;
+};
+
+/**
+ * Trim drafts and drop blank rows before sending them with the chapter
+ */
+export const normalizeChoiceDrafts = (drafts: ChapterChoiceDraft[]): ChapterChoiceDraft[] =>
+  drafts
+    .filter(d => d.title.trim().length > 0)
+    .map(d => ({
+      title: d.title.trim(),
+      description: d.description?.trim() ? d.description.trim() : null,
+    }));
@@ -0,0 +1,288 @@
+// Co-writing: partners type into one chapter draft at the same time. Each
+// device keeps the draft as a sequence CRDT (an RGA): every character has an
+// id made of a Lamport counter and the id of the device that typed it, and
+// sits after the character it was typed after. Edits travel as operations
+// over the story's realtime channel and merge the same way on every device,
+// whatever order they arrive in.
+
+import type { RichTextNode } from './richTextSerializer';
+import type { RichTextContent } from './types';
+
+// A run of characters typed one after another. The first sits after `after`
+// (null: the start of the draft); character i gets counter + i.
+export type CoWriteOp =
+  | { kind: 'insert'; site: string; counter: number; after: string | null; text: string }
+  | { kind: 'delete'; ids: string[] };
+
+// Where a caret or selection end sits: after the character with this id
+export type CoWriteAnchor = string | null;
+
+export type CoWriteEvent =
+  // Edits made since the last flush
+  | { type: 'ops'; sessionId: string; userId: string; ops: CoWriteOp[] }
+  | { type: 'cursor'; sessionId: string; userId: string; anchor: CoWriteAnchor; head: CoWriteAnchor }
+  // A member joined, or missed an edit, and wants the whole draft
+  | { type: 'join'; sessionId: string; userId: string }
+  // The whole draft, sent by the member who started the session
+  | { type: 'state'; sessionId: string; to: string; ops: CoWriteOp[] }
+  | { type: 'leave'; sessionId: string; userId: string }
+  // The chapter was submitted and the session is over
+  | { type: 'finish'; sessionId: string; chapterId: string };
+
+export interface CoWriterCursor {
+  userId: string;
+  color: string;
+  start: number;
+  end: number;
+}
+
+interface CoWriteChar {
+  id: string;
+  counter: number;
+  site: string;
+  after: string | null;
+  value: string;
+  deleted: boolean;
+}
+
+const CURSOR_COLORS = ['#2196F3', '#9C27B0', '#FF9800', '#009688', '#3F51B5', '#795548'];
+
+const charId = (counter: number, site: string) => `${counter}@${site}`;
+
+// Later characters win the spot straight after their anchor. Ties on the
+// counter (two devices typing at once) are broken by site, so every device
+// picks the same order.
+const isAfter = (a: CoWriteChar, b: { counter: number; site: string }) =>
+  a.counter !== b.counter ? a.counter > b.counter : a.site > b.site;
+
+export class CoWriteDocument {
+  private chars: CoWriteChar[] = [];
+  private byId: Map<string, CoWriteChar> = new Map();
+  private clock = 0;
+  // Operations that arrived before the characters they refer to
+  private pending: CoWriteOp[] = [];
+
+  constructor(readonly site: string) {}
+
+  get text(): string {
+    let text = '';
+    for (const char of this.chars) {
+      if (!char.deleted) text += char.value;
+    }
+    return text;
+  }
+
+  get hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+
+  /**
+   * Turns the editor's new text into operations, applies them here and
+   * returns them for the other members. Only the changed span is touched.
+   */
+  localEdit(nextText: string): CoWriteOp[] {
+    const visible = this.chars.filter(char => !char.deleted);
+    const current = visible.map(char => char.value).join('');
+    if (current === nextText) return [];
+
+    let start = 0;
+    while (start < current.length && start < nextText.length && current[start] === nextText[start]) {
+      start++;
+    }
+    let currentEnd = current.length;
+    let nextEnd = nextText.length;
+    while (currentEnd > start && nextEnd > start && current[currentEnd - 1] === nextText[nextEnd - 1]) {
+      currentEnd--;
+      nextEnd--;
+    }
+
+    const ops: CoWriteOp[] = [];
+    if (currentEnd > start) {
+      ops.push({ kind: 'delete', ids: visible.slice(start, currentEnd).map(char => char.id) });
+    }
+    if (nextEnd > start) {
+      const text = nextText.slice(start, nextEnd);
+      ops.push({
+        kind: 'insert',
+        site: this.site,
+        counter: this.clock + 1,
+        after: start > 0 ? visible[start - 1].id : null,
+        text,
+      });
+    }
+
+    this.apply(ops);
+    return ops;
+  }
+
+  /**
+   * Merges operations from any member. Ones already seen are ignored, and
+   * ones that refer to characters not seen yet wait until they arrive.
+   */
+  apply(ops: CoWriteOp[]): void {
+    let queue = [...this.pending, ...ops];
+    this.pending = [];
+
+    // Keep going while operations keep unlocking others
+    let progressed = true;
+    while (queue.length > 0 && progressed) {
+      progressed = false;
+      const waiting: CoWriteOp[] = [];
+      for (const op of queue) {
+        if (this.applyOne(op)) {
+          progressed = true;
+        } else {
+          waiting.push(op);
+        }
+      }
+      queue = waiting;
+    }
+    this.pending = queue;
+  }
+
+  private applyOne(op: CoWriteOp): boolean {
+    if (op.kind === 'delete') {
+      if (op.ids.some(id => !this.byId.has(id))) return false;
+      op.ids.forEach(id => {
+        this.byId.get(id)!.deleted = true;
+      });
+      return true;
+    }
+
+    if (op.after !== null && !this.byId.has(op.after)) return false;
+
+    let after = op.after;
+    for (let i = 0; i < op.text.length; i++) {
+      const counter = op.counter + i;
+      const id = charId(counter, op.site);
+      if (!this.byId.has(id)) {
+        this.integrate({ id, counter, site: op.site, after, value: op.text[i], deleted: false });
+      }
+      after = id;
+    }
+    this.clock = Math.max(this.clock, op.counter + op.text.length - 1);
+    return true;
+  }
+
+  private integrate(char: CoWriteChar) {
+    let position = char.after === null ? 0 : this.chars.indexOf(this.byId.get(char.after)!) + 1;
+    // Skip characters typed later after the same anchor, and everything
+    // typed after those (their counters are higher still)
+    while (position < this.chars.length && isAfter(this.chars[position], char)) {
+      position++;
+    }
+    this.chars.splice(position, 0, char);
+    this.byId.set(char.id, char);
+  }
+
+  /**
+   * The whole draft as operations, for a member who just joined. Characters
+   * typed in one go are folded back into runs.
+   */
+  snapshot(): CoWriteOp[] {
+    const ops: CoWriteOp[] = [];
+    let run: Extract<CoWriteOp, { kind: 'insert' }> | null = null;
+    let previous: CoWriteChar | null = null;
+
+    for (const char of this.chars) {
+      const continues = run && previous &&
+        char.site === run.site &&
+        char.counter === previous.counter + 1 &&
+        char.after === previous.id;
+      if (run && continues) {
+        run.text += char.value;
+      } else {
+        run = { kind: 'insert', site: char.site, counter: char.counter, after: char.after, text: char.value };
+        ops.push(run);
+      }
+      previous = char;
+    }
+
+    const deleted = this.chars.filter(char => char.deleted).map(char => char.id);
+    if (deleted.length > 0) {
+      ops.push({ kind: 'delete', ids: deleted });
+    }
+    return ops;
+  }
+
+  /**
+   * The anchor for a caret at this index of the text
+   */
+  anchorAt(index: number): CoWriteAnchor {
+    if (index <= 0) return null;
+    let seen = 0;
+    for (const char of this.chars) {
+      if (char.deleted) continue;
+      seen++;
+      if (seen === index) return char.id;
+    }
+    return this.lastVisibleId();
+  }
+
+  /**
+   * Where an anchor is in the current text. A deleted anchor character
+   * leaves the caret where it stood.
+   */
+  indexOf(anchor: CoWriteAnchor): number {
+    if (anchor === null) return 0;
+    let index = 0;
+    for (const char of this.chars) {
+      if (!char.deleted) index++;
+      if (char.id === anchor) return index;
+    }
+    return index;
+  }
+
+  /**
+   * The users whose words are in the draft
+   */
+  contributors(): string[] {
+    const users = new Set<string>();
+    for (const char of this.chars) {
+      if (!char.deleted && char.value.trim()) users.add(siteUserId(char.site));
+    }
+    return [...users];
+  }
+
+  private lastVisibleId(): string | null {
+    for (let i = this.chars.length - 1; i >= 0; i--) {
+      if (!this.chars[i].deleted) return this.chars[i].id;
+    }
+    return null;
+  }
+}
+
+/**
+ * A device's site id. It starts with the user id so contributions can be
+ * credited, and is unique per session join so a rejoin never reuses ids.
+ */
+export function createSite(userId: string): string {
+  return `${userId}~${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function siteUserId(site: string): string {
+  return site.split('~')[0];
+}
+
+/**
+ * The draft as rich text: one paragraph per block of text between blank lines
+ */
+export function toRichText(text: string): RichTextContent {
+  const children: RichTextNode[] = text
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(content => ({ type: 'paragraph', content }));
+  return { type: 'doc', children };
+}
+
+/**
+ * The same color for a member on every device
+ */
+export function cursorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
@@ -0,0 +1,119 @@
+/**
+ * Entitlements
+ *
+ * What the writer's plan unlocks. The rules live on the server
+ * (tier_entitlements); this module loads them with get_entitlements and
+ * answers the same questions the edge functions ask check_entitlement, so the
+ * UI locks exactly what the server would refuse.
+ */
+
+import { Alert } from 'react-native';
+import { router } from 'expo-router';
+import { supabase } from './supabase';
+import { AppError, ErrorCategory, ErrorSeverity } from './errorHandling';
+import type {
+  EntitlementFeatureKey,
+  FeatureEntitlement,
+  Subscription,
+  SubscriptionTier,
+} from './types';
+
+export interface Entitlements {
+  tier: SubscriptionTier;
+  subscription: Subscription | null;
+  features: Partial<Record<EntitlementFeatureKey, FeatureEntitlement>>;
+}
+
+export const FREE_ENTITLEMENTS: Entitlements = {
+  tier: 'free',
+  subscription: null,
+  features: {},
+};
+
+export const UPGRADE_REQUIRED = 'UPGRADE_REQUIRED';
+
+// The last loaded entitlements, for callers outside React such as aiClient
+let current: Entitlements = FREE_ENTITLEMENTS;
+
+export const getCurrentEntitlements = (): Entitlements => current;
+
+export async function loadEntitlements(): Promise<Entitlements> {
+  const { data, error } = await supabase.rpc('get_entitlements');
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to load your plan');
+
+  const features: Entitlements['features'] = {};
+  for (const feature of (data.features || []) as FeatureEntitlement[]) {
+    features[feature.feature] = feature;
+  }
+
+  current = { tier: data.tier, subscription: data.subscription || null, features };
+  return current;
+}
+
+export const clearEntitlements = () => {
+  current = FREE_ENTITLEMENTS;
+};
+
+/**
+ * Same rule as the server: an option outside a feature's gated values is
+ * always allowed, anything else needs the feature. Until the rules have
+ * loaded nothing is locked here; the server still checks.
+ */
+export const isEntitled = (
+  entitlements: Entitlements,
+  feature: EntitlementFeatureKey,
+  value?: string
+): boolean => {
+  const entry = entitlements.features[feature];
+  if (!entry) return true;
+  if (entry.gated_values && (value === undefined || !entry.gated_values.includes(value))) return true;
+  return entry.granted;
+};
+
+// undefined when the feature is not included at all, null when unlimited
+export const getQuota = (
+  entitlements: Entitlements,
+  feature: EntitlementFeatureKey
+): number | null | undefined => {
+  const entry = entitlements.features[feature];
+  return entry?.granted ? entry.quota : undefined;
+};
+
+export const isUpgradeRequired = (error: unknown): boolean =>
+  error instanceof AppError && error.code === UPGRADE_REQUIRED;
+
+/**
+ * Throws an AppError with code UPGRADE_REQUIRED when the current plan does
+ * not include the feature (or the chosen option of it)
+ */
+export function requireEntitlement(feature: EntitlementFeatureKey, value?: string): void {
+  if (isEntitled(current, feature, value)) return;
+
+  const name = current.features[feature]?.name || 'This feature';
+  throw new AppError(
+    `${name} are part of Premium`,
+    ErrorSeverity.LOW,
+    ErrorCategory.VALIDATION,
+    UPGRADE_REQUIRED,
+    { feature, value }
+  );
+}
+
+/**
+ * Explains why an option is locked and offers the Premium screen. Pass
+ * beforeNavigate to close a modal first.
+ */
+export function showUpgradePrompt(message: string, beforeNavigate?: () => void): void {
+  Alert.alert('Premium', message, [
+    { text: 'Not now', style: 'cancel' },
+    {
+      text: 'See Premium',
+      onPress: () => {
+        beforeNavigate?.();
+        router.push('/premium');
+      },
+    },
+  ]);
+}
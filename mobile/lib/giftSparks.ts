@@ -148,63 +148,28 @@ class GiftSparksManager {
    */
   async redeemGiftCode(userId: string, code: string): Promise<{ success: boolean; amount?: number; error?: string }> {
     try {
-      // Find the gift code
-      const { data: giftCode, error: findError } = await supabase
-        .from('gift_codes')
-        .select('*')
-        .eq('code', code.toUpperCase())
-        .single();
-
-      if (findError || !giftCode) {
-        return { success: false, error: 'Invalid gift code' };
-      }
-
-      // Check if already redeemed
-      if (giftCode.redeemed) {
-        return { success: false, error: 'This gift code has already been redeemed' };
-      }
-
-      // Check if expired
-      if (new Date(giftCode.expires_at) < new Date()) {
-        return { success: false, error: 'This gift code has expired' };
-      }
-
-      // Check if user is trying to redeem their own gift
-      if (giftCode.purchaser_id === userId) {
-        return { success: false, error: 'You cannot redeem your own gift code' };
-      }
-
-      // Mark as redeemed and add tokens
-      const { error: redeemError } = await supabase
-        .from('gift_codes')
-        .update({
-          redeemed: true,
-          redeemed_by: userId,
-          redeemed_at: new Date().toISOString(),
-        })
-        .eq('id', giftCode.id);
+      // The server checks the code, marks it redeemed and credits the tokens
+      // in one transaction, so a code cannot be redeemed twice
+      const { data: result, error: redeemError } = await supabase.rpc('redeem_gift_code', {
+        p_code: code,
+      });
 
       if (redeemError) throw redeemError;
-
-      // Add tokens to user's balance
-      await supabase.rpc('add_tokens', {
-        user_id: userId,
-        amount: giftCode.amount,
-        transaction_type: 'gift',
-        feature_type: 'gift_redemption',
-      });
+      if (!result?.success) {
+        return { success: false, error: result?.error || 'Invalid gift code' };
+      }
 
       // Track the redemption
       await supabase.from('analytics_events').insert({
         user_id: userId,
         event_name: 'gift_code_redeemed',
         event_properties: {
-          amount: giftCode.amount,
-          gift_code_id: giftCode.id,
+          amount: result.amount,
+          code: code.toUpperCase(),
         },
       });
 
-      return { success: true, amount: giftCode.amount };
+      return { success: true, amount: result.amount };
     } catch (error) {
       console.error('[GiftSparks] Failed to redeem gift code:', error);
       return { success: false, error: 'Failed to redeem gift code. Please try again.' };
@@ -221,40 +186,17 @@ class GiftSparksManager {
     message?: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      // Check sender has enough balance
-      const { data: senderBalance } = await supabase
-        .from('user_tokens')
-        .select('balance')
-        .eq('user_id', fromUserId)
-        .single();
-
-      if (!senderBalance || senderBalance.balance < amount) {
-        return { success: false, error: 'Insufficient spark balance' };
-      }
-
-      // Deduct from sender
-      await supabase.rpc('add_tokens', {
-        user_id: fromUserId,
-        amount: -amount,
-        transaction_type: 'gift_sent',
-        feature_type: 'direct_gift',
+      // Takes from the sender and gives to the recipient in one transaction
+      const { data: result, error: sendError } = await supabase.rpc('send_gift', {
+        p_to_user_id: toUserId,
+        p_amount: amount,
+        p_message: message ?? null,
       });
 
-      // Add to recipient
-      await supabase.rpc('add_tokens', {
-        user_id: toUserId,
-        amount: amount,
-        transaction_type: 'gift',
-        feature_type: 'direct_gift',
-      });
-
-      // Create gift record
-      await supabase.from('gifts').insert({
-        from_user_id: fromUserId,
-        to_user_id: toUserId,
-        amount,
-        message,
-      });
+      if (sendError) throw sendError;
+      if (!result?.success) {
+        return { success: false, error: result?.error || 'Failed to send gift. Please try again.' };
+      }
 
       // Track analytics
       await supabase.from('analytics_events').insert({
@@ -7,6 +7,7 @@ export * from './errorHandling';
 export * from './storyExport';
 export * from './sentry';
 export * from './offlineStorage';
+export * from './chapterTree';
 
 // Real-time and networking
 export * from './realtime';
@@ -0,0 +1,101 @@
+// Listen together: partners hear the same narration or voice note at the same
+// time. One member hosts and broadcasts the playback state over the story's
+// realtime channel; everyone else follows it and corrects their own drift.
+
+// What is playing. Voice notes carry their URL so followers can play them
+// without looking the media row up first.
+export type ListenSource =
+  | { kind: 'narration'; chapterId: string }
+  | { kind: 'voice_note'; chapterId: string; chapterNumber: number; mediaId: string; userId: string; url: string; durationMs: number };
+
+export interface ListenPlaybackState {
+  source: ListenSource;
+  segmentIndex: number;
+  positionMillis: number;
+  isPlaying: boolean;
+  rate: number;
+}
+
+export type ListenEvent =
+  // Sent by the host on every change and every HOST_HEARTBEAT_MS. seq only grows,
+  // across host handoffs too, so a late message from an old host is ignored.
+  | {
+      type: 'state';
+      sessionId: string;
+      hostId: string;
+      seq: number;
+      chapters: { id: string; chapter_number: number }[];
+      state: ListenPlaybackState;
+    }
+  // A member joined and wants the current state straight away
+  | { type: 'join'; sessionId: string; userId: string }
+  // A member left on purpose; if it was the host, the others pick a new one
+  | { type: 'leave'; sessionId: string; userId: string };
+
+export interface ListenParticipant {
+  userId: string;
+  since: number; // When they joined the session
+}
+
+export type DriftCorrection =
+  | { action: 'none' }
+  | { action: 'nudge'; factor: number }
+  | { action: 'seek'; positionMillis: number };
+
+export const HOST_HEARTBEAT_MS = 2000;
+
+// A host that has not been heard from for this long is treated as gone, even
+// if presence has not caught up yet
+export const HOST_TIMEOUT_MS = 3 * HOST_HEARTBEAT_MS + 1000;
+
+// Below this, two players sound in sync
+const DRIFT_TOLERANCE_MS = 120;
+
+// Above this, catching up by playing faster would take too long; jump instead
+const DRIFT_SEEK_MS = 800;
+
+// How much faster or slower a follower plays while catching up
+const NUDGE = 0.05;
+
+/**
+ * Where the host is now, given the last state it sent and when it arrived
+ */
+export function expectedPosition(state: ListenPlaybackState, receivedAt: number, now: number = Date.now()): number {
+  if (!state.isPlaying) return state.positionMillis;
+  return state.positionMillis + (now - receivedAt) * state.rate;
+}
+
+/**
+ * How a follower should correct itself. Small drift is smoothed out by playing
+ * slightly faster or slower; large drift is a seek.
+ */
+export function correctDrift(localMillis: number, expectedMillis: number): DriftCorrection {
+  const drift = localMillis - expectedMillis;
+
+  if (Math.abs(drift) <= DRIFT_TOLERANCE_MS) {
+    return { action: 'none' };
+  }
+  if (Math.abs(drift) >= DRIFT_SEEK_MS) {
+    return { action: 'seek', positionMillis: Math.max(0, Math.round(expectedMillis)) };
+  }
+  // Ahead of the host: slow down. Behind: speed up.
+  return { action: 'nudge', factor: drift > 0 ? 1 - NUDGE : 1 + NUDGE };
+}
+
+/**
+ * The next host when the current one leaves: whoever has been in the session
+ * longest. Every member runs this on the same presence list, so they agree
+ * without another round trip.
+ */
+export function electHost(participants: ListenParticipant[]): string | null {
+  if (participants.length === 0) return null;
+
+  const [first] = [...participants].sort((a, b) =>
+    a.since !== b.since ? a.since - b.since : a.userId.localeCompare(b.userId)
+  );
+  return first.userId;
+}
+
+export function createSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
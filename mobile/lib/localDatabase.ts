@@ -0,0 +1,311 @@
+/**
+ * Local Story Database
+ *
+ * Stories downloaded for offline reading are mirrored into an on-device
+ * SQLite database. Every row is kept as JSON under its kind and id, next to
+ * the story it belongs to and the server's updated_at, so a story can be
+ * refreshed with only what changed since its last sync and removed in one
+ * go. Chapter image thumbnails are saved as files and listed alongside.
+ * Screens that are not about one story (the relationship dashboard) keep
+ * their last loaded state here as snapshots.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import * as FileSystem from 'expo-file-system';
+import type { LocalRecordKind, OfflineMediaFile, OfflineStorageUsage, StoryDownload } from './types';
+
+const DATABASE_NAME = 'offline-library.db';
+const SCHEMA_VERSION = 1;
+
+// SQLite limits how many values one statement can bind
+const MAX_BATCH = 200;
+
+export const OFFLINE_MEDIA_DIRECTORY = `${FileSystem.documentDirectory}offline-media/`;
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const migrate = async (db: SQLite.SQLiteDatabase) => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  if ((row?.user_version ?? 0) >= SCHEMA_VERSION) return;
+
+  await db.execAsync(`
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS records (
+      kind TEXT NOT NULL,
+      id TEXT NOT NULL,
+      story_id TEXT,
+      updated_at TEXT,
+      data TEXT NOT NULL,
+      bytes INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (kind, id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_records_story ON records(story_id, kind);
+    CREATE TABLE IF NOT EXISTS story_downloads (
+      story_id TEXT PRIMARY KEY NOT NULL,
+      title TEXT NOT NULL,
+      downloaded_at TEXT NOT NULL,
+      synced_at TEXT,
+      cursors TEXT NOT NULL DEFAULT '{}'
+    );
+    CREATE TABLE IF NOT EXISTS media_files (
+      media_id TEXT PRIMARY KEY NOT NULL,
+      story_id TEXT NOT NULL,
+      chapter_id TEXT NOT NULL,
+      uri TEXT NOT NULL,
+      bytes INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_media_files_story ON media_files(story_id);
+    PRAGMA user_version = ${SCHEMA_VERSION};
+  `);
+};
+
+/**
+ * The database, opened and migrated on first use
+ */
+export const getLocalDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = SQLite.openDatabaseAsync(DATABASE_NAME)
+      .then(async (db) => {
+        await migrate(db);
+        return db;
+      })
+      .catch((error) => {
+        databasePromise = null;
+        throw error;
+      });
+  }
+  return databasePromise;
+};
+
+const chunk = <T>(items: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += MAX_BATCH) {
+    chunks.push(items.slice(i, i + MAX_BATCH));
+  }
+  return chunks;
+};
+
+const placeholders = (count: number) => new Array(count).fill('?').join(', ');
+
+/**
+ * Saves rows of one kind, replacing any stored under the same ids
+ */
+export const putRecords = async <T extends { id: string; updated_at?: string | null }>(
+  kind: LocalRecordKind,
+  storyId: string | null,
+  rows: T[]
+): Promise<void> => {
+  if (rows.length === 0) return;
+  const db = await getLocalDatabase();
+
+  await db.withTransactionAsync(async () => {
+    for (const row of rows) {
+      const data = JSON.stringify(row);
+      await db.runAsync(
+        'INSERT OR REPLACE INTO records (kind, id, story_id, updated_at, data, bytes) VALUES (?, ?, ?, ?, ?, ?)',
+        kind,
+        row.id,
+        storyId,
+        row.updated_at ?? null,
+        data,
+        data.length
+      );
+    }
+  });
+};
+
+export const deleteRecords = async (kind: LocalRecordKind, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await getLocalDatabase();
+
+  for (const batch of chunk(ids)) {
+    await db.runAsync(
+      `DELETE FROM records WHERE kind = ? AND id IN (${placeholders(batch.length)})`,
+      kind,
+      ...batch
+    );
+  }
+};
+
+/**
+ * Drops the story's rows of one kind that are not in `ids`, which is how
+ * rows deleted on the server leave the device. Returns the dropped ids.
+ */
+export const keepOnlyRecords = async (
+  kind: LocalRecordKind,
+  storyId: string,
+  ids: string[]
+): Promise<string[]> => {
+  const db = await getLocalDatabase();
+  const keep = new Set(ids);
+  const stored = await db.getAllAsync<{ id: string }>(
+    'SELECT id FROM records WHERE kind = ? AND story_id = ?',
+    kind,
+    storyId
+  );
+  const removed = stored.map(row => row.id).filter(id => !keep.has(id));
+  await deleteRecords(kind, removed);
+  return removed;
+};
+
+export const getRecords = async <T>(kind: LocalRecordKind, storyId: string): Promise<T[]> => {
+  const db = await getLocalDatabase();
+  const rows = await db.getAllAsync<{ data: string }>(
+    'SELECT data FROM records WHERE kind = ? AND story_id = ?',
+    kind,
+    storyId
+  );
+  return rows.map(row => JSON.parse(row.data) as T);
+};
+
+export const getRecord = async <T>(kind: LocalRecordKind, id: string): Promise<T | null> => {
+  const db = await getLocalDatabase();
+  const row = await db.getFirstAsync<{ data: string }>(
+    'SELECT data FROM records WHERE kind = ? AND id = ?',
+    kind,
+    id
+  );
+  return row ? (JSON.parse(row.data) as T) : null;
+};
+
+/**
+ * Keeps the last loaded state of a screen under a key of its choosing
+ */
+export const saveSnapshot = async <T>(key: string, data: T): Promise<void> => {
+  await putRecords('snapshot', null, [{ id: key, updated_at: new Date().toISOString(), data }]);
+};
+
+export const getSnapshot = async <T>(key: string): Promise<T | null> => {
+  const record = await getRecord<{ data: T }>('snapshot', key);
+  return record ? record.data : null;
+};
+
+type DownloadRow = {
+  story_id: string;
+  title: string;
+  downloaded_at: string;
+  synced_at: string | null;
+  cursors: string;
+};
+
+const toDownload = (row: DownloadRow): StoryDownload => ({
+  storyId: row.story_id,
+  title: row.title,
+  downloadedAt: row.downloaded_at,
+  syncedAt: row.synced_at,
+  cursors: JSON.parse(row.cursors || '{}'),
+});
+
+export const listDownloads = async (): Promise<StoryDownload[]> => {
+  const db = await getLocalDatabase();
+  const rows = await db.getAllAsync<DownloadRow>('SELECT * FROM story_downloads ORDER BY downloaded_at');
+  return rows.map(toDownload);
+};
+
+export const getDownload = async (storyId: string): Promise<StoryDownload | null> => {
+  const db = await getLocalDatabase();
+  const row = await db.getFirstAsync<DownloadRow>('SELECT * FROM story_downloads WHERE story_id = ?', storyId);
+  return row ? toDownload(row) : null;
+};
+
+export const saveDownload = async (download: StoryDownload): Promise<void> => {
+  const db = await getLocalDatabase();
+  await db.runAsync(
+    'INSERT OR REPLACE INTO story_downloads (story_id, title, downloaded_at, synced_at, cursors) VALUES (?, ?, ?, ?, ?)',
+    download.storyId,
+    download.title,
+    download.downloadedAt,
+    download.syncedAt,
+    JSON.stringify(download.cursors)
+  );
+};
+
+type MediaFileRow = { media_id: string; story_id: string; chapter_id: string; uri: string; bytes: number };
+
+const toMediaFile = (row: MediaFileRow): OfflineMediaFile => ({
+  mediaId: row.media_id,
+  storyId: row.story_id,
+  chapterId: row.chapter_id,
+  uri: row.uri,
+  bytes: row.bytes,
+});
+
+export const getMediaFiles = async (storyId: string): Promise<OfflineMediaFile[]> => {
+  const db = await getLocalDatabase();
+  const rows = await db.getAllAsync<MediaFileRow>('SELECT * FROM media_files WHERE story_id = ?', storyId);
+  return rows.map(toMediaFile);
+};
+
+export const putMediaFile = async (file: OfflineMediaFile): Promise<void> => {
+  const db = await getLocalDatabase();
+  await db.runAsync(
+    'INSERT OR REPLACE INTO media_files (media_id, story_id, chapter_id, uri, bytes) VALUES (?, ?, ?, ?, ?)',
+    file.mediaId,
+    file.storyId,
+    file.chapterId,
+    file.uri,
+    file.bytes
+  );
+};
+
+/**
+ * Deletes thumbnails and their files. Files already gone are ignored.
+ */
+export const deleteMediaFiles = async (files: OfflineMediaFile[]): Promise<void> => {
+  if (files.length === 0) return;
+  const db = await getLocalDatabase();
+
+  for (const file of files) {
+    await FileSystem.deleteAsync(file.uri, { idempotent: true });
+  }
+  for (const batch of chunk(files.map(file => file.mediaId))) {
+    await db.runAsync(
+      `DELETE FROM media_files WHERE media_id IN (${placeholders(batch.length)})`,
+      ...batch
+    );
+  }
+};
+
+/**
+ * Removes everything kept for a story: its rows, thumbnails and download
+ */
+export const removeStoryData = async (storyId: string): Promise<void> => {
+  const db = await getLocalDatabase();
+
+  await FileSystem.deleteAsync(`${OFFLINE_MEDIA_DIRECTORY}${storyId}/`, { idempotent: true });
+  await db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM records WHERE story_id = ?', storyId);
+    await db.runAsync('DELETE FROM media_files WHERE story_id = ?', storyId);
+    await db.runAsync('DELETE FROM story_downloads WHERE story_id = ?', storyId);
+  });
+};
+
+/**
+ * Bytes used on the device, in total and for each downloaded story
+ */
+export const getStorageUsage = async (): Promise<OfflineStorageUsage> => {
+  const db = await getLocalDatabase();
+  const [records, media] = await Promise.all([
+    db.getAllAsync<{ story_id: string | null; bytes: number }>(
+      'SELECT story_id, SUM(bytes) AS bytes FROM records GROUP BY story_id'
+    ),
+    db.getAllAsync<{ story_id: string; bytes: number }>(
+      'SELECT story_id, SUM(bytes) AS bytes FROM media_files GROUP BY story_id'
+    ),
+  ]);
+
+  const usage: OfflineStorageUsage = { totalBytes: 0, stories: {} };
+  for (const row of [...records, ...media]) {
+    usage.totalBytes += row.bytes || 0;
+    if (row.story_id) {
+      usage.stories[row.story_id] = (usage.stories[row.story_id] || 0) + (row.bytes || 0);
+    }
+  }
+  return usage;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -17,7 +17,6 @@ import {
   ScheduleConfig,
   setupNotificationChannels,
   getBestDailyIntentionTime,
-  getBestTurnReminderTime,
   getPersonalizedReminder,
 } from './notificationTemplates';
 
@@ -219,22 +218,51 @@ class NotificationScheduler {
   }
 
   /**
-   * Schedule turn reminder at optimal time
+   * Schedule reminders for a turn, `hoursBefore` its deadline. Replaces the
+   * story's earlier turn reminders; reminders already in the past or inside
+   * quiet hours are left out.
    */
   async scheduleTurnReminder(
     storyId: string,
     storyTitle: string,
+    deadline: Date,
+    hoursBefore: number[],
     templateParams?: Record<string, unknown>
-  ): Promise<string | null> {
-    const bestTimes = getBestTurnReminderTime();
-    const scheduledHour = bestTimes[0].hour;
-
-    return this.scheduleDaily(
-      'your_turn',
-      scheduledHour,
-      0,
-      { storyId, storyTitle, ...templateParams }
-    );
+  ): Promise<string[]> {
+    await this.cancelTurnReminders(storyId);
+
+    const identifiers: string[] = [];
+    for (const hours of hoursBefore) {
+      const remindAt = new Date(deadline.getTime() - hours * 60 * 60 * 1000);
+      if (remindAt.getTime() <= Date.now() || this.isInQuietHours(remindAt)) continue;
+
+      const identifier = await this.schedule(
+        'your_turn',
+        { triggerDate: remindAt, respectQuietHours: false },
+        { storyId, storyTitle, hoursLeft: hours, turnReminder: true, ...templateParams }
+      );
+      if (identifier) identifiers.push(identifier);
+    }
+
+    return identifiers;
+  }
+
+  /**
+   * Cancel the turn reminders scheduled for a story
+   */
+  async cancelTurnReminders(storyId: string): Promise<void> {
+    try {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      const reminders = scheduled.filter(
+        n => n.content.data?.turnReminder && n.content.data?.storyId === storyId
+      );
+
+      for (const reminder of reminders) {
+        await this.cancel(reminder.identifier);
+      }
+    } catch (error) {
+      console.error('[NotificationScheduler] Failed to cancel turn reminders:', error);
+    }
   }
 
   /**
@@ -369,13 +397,12 @@ class NotificationScheduler {
   }
 
   /**
-   * Check if current time is in quiet hours
+   * Check if a time (now by default) is in quiet hours
    */
-  private isInQuietHours(): boolean {
+  private isInQuietHours(at: Date = new Date()): boolean {
     if (!this.quietHours.enabled) return false;
 
-    const now = new Date();
-    const currentHour = now.getHours();
+    const currentHour = at.getHours();
 
     const { startHour, endHour } = this.quietHours;
 
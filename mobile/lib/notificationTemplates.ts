@@ -101,9 +101,11 @@ export const NOTIFICATION_TEMPLATES: Record<NotificationCategory, (params?: any)
     id: `your-turn-${params.storyId || Date.now()}`,
     category: 'your_turn',
     title: '✍️ Your turn to write!',
-    body: params.storyTitle
-      ? `Continue your story "${params.storyTitle}"`
-      : 'Your partner is waiting for your chapter!',
+    body: params.hoursLeft && params.storyTitle
+      ? `"${params.storyTitle}" is due in ${params.hoursLeft}h`
+      : params.storyTitle
+        ? `Continue your story "${params.storyTitle}"`
+        : 'Your partner is waiting for your chapter!',
     data: { type: 'your_turn', storyId: params.storyId, screen: 'write', ...params },
     priority: 'high',
     sound: 'default',
@@ -0,0 +1,211 @@
+/**
+ * Outbox
+ *
+ * Writes made while offline are queued as typed mutations and replayed in
+ * the order they were made. Rows created offline get their id on the device
+ * (createClientId), so a later mutation can reference them before they reach
+ * the server; the offline store holds such a mutation back until the one
+ * creating the row has synced. Replays have to be safe to repeat, since a
+ * write can reach the server without its response reaching us.
+ */
+
+import { supabase } from './supabase';
+import type { OutboxMutation } from './types';
+import { STORY_CREATION_COST, TokenManager } from './tokenManager';
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 10 * 60 * 1000;
+export const MAX_OUTBOX_ATTEMPTS = 8;
+
+// Postgres duplicate key: the row was already written by an earlier attempt
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * The server understood the mutation and refused it. Retrying the same
+ * write will not help, so the entry is marked failed straight away.
+ */
+export class OutboxRejectedError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = 'OutboxRejectedError';
+  }
+}
+
+/**
+ * A v4 UUID, which the server accepts as a row id
+ */
+export const createClientId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+/**
+ * Milliseconds to wait before attempt number `attempts + 1`: doubling from
+ * two seconds up to ten minutes, with some jitter so devices that come back
+ * online together do not retry in step.
+ */
+export const backoffDelay = (attempts: number): number => {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+/**
+ * Whether a failed request never reached the server
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false;
+  const { message, code } = error as { message?: string; code?: string };
+  return (
+    code === '429' ||
+    /network request failed|failed to fetch|network error|timed? ?out/i.test(message || '')
+  );
+};
+
+// Ids of rows this mutation points at, so it can wait for them to be created
+export const mutationRefs = (mutation: OutboxMutation): string[] => {
+  switch (mutation.type) {
+    case 'submit_chapter':
+      return [mutation.storyId, mutation.parentChapterId, mutation.choiceId]
+        .filter((id): id is string => !!id);
+    case 'insert_row':
+    case 'upsert_row':
+      return Object.values(mutation.values).filter((v): v is string => typeof v === 'string');
+    case 'update_rows':
+    case 'delete_rows':
+      return Object.values(mutation.match);
+    default:
+      return [];
+  }
+};
+
+const checkRpcResult = (data: unknown, fallback: string) => {
+  const result = data as { success: boolean; error?: string } | null;
+  if (!result?.success) {
+    throw new OutboxRejectedError(result?.error || fallback);
+  }
+};
+
+/**
+ * Sends one mutation to the server. Throws OutboxRejectedError when the
+ * server refuses it, and the request error otherwise.
+ */
+export const runMutation = async (mutation: OutboxMutation): Promise<void> => {
+  switch (mutation.type) {
+    case 'create_story': {
+      const { story } = mutation;
+      const { error } = await supabase.from('stories').insert(story);
+      if (error && error.code !== UNIQUE_VIOLATION) throw error;
+
+      const { error: memberError } = await supabase
+        .from('story_members')
+        .upsert(
+          { story_id: story.id, user_id: story.created_by, role: 'creator', turn_order: 1 },
+          { onConflict: 'story_id,user_id', ignoreDuplicates: true }
+        );
+      if (memberError) throw memberError;
+
+      // Charged as it would have been online; the key is the story id, so a
+      // repeated replay is charged once
+      const balance = await TokenManager.getTokenBalance(story.created_by);
+      if (balance >= STORY_CREATION_COST) {
+        await TokenManager.spendTokens(story.created_by, STORY_CREATION_COST, `Created "${story.title}"`, {
+          featureType: 'story',
+          storyId: story.id,
+          idempotencyKey: `story:${story.id}`,
+        });
+      }
+      return;
+    }
+
+    case 'submit_chapter': {
+      // A chapter that no longer fits where it was written (the partner wrote
+      // there first, the turn moved on, or the story's rules changed) is set
+      // aside on the server as a chapter conflict for the couple to resolve,
+      // and counts as synced
+      const { data, error } = await supabase.rpc('submit_chapter', {
+        p_story_id: mutation.storyId,
+        p_content: mutation.content,
+        p_parent_chapter_id: mutation.parentChapterId,
+        p_choice_id: mutation.choiceId,
+        p_context_snippet: mutation.contextSnippet,
+        p_ai_enhanced_content: mutation.aiEnhancedContent,
+        p_choices: mutation.choices && mutation.choices.length > 0 ? mutation.choices : null,
+        p_inspiration_ids: mutation.inspirationIds,
+        p_chapter_id: mutation.chapterId,
+        p_hold_conflicts: true,
+      });
+      if (error) throw error;
+      checkRpcResult(data, 'Failed to submit chapter');
+
+      if (mutation.coAuthorIds && mutation.coAuthorIds.length > 0) {
+        const { data: credited, error: creditError } = await supabase.rpc('record_co_written_chapter', {
+          p_chapter_id: mutation.chapterId,
+          p_co_author_ids: mutation.coAuthorIds,
+          p_content_rich: mutation.contentRich ?? null,
+        });
+        if (creditError) throw creditError;
+        // A chapter held as a conflict keeps the credit on the conflict until
+        // it is resolved. The chapter has synced either way, so a refused
+        // credit does not hold the entry back.
+        const result = credited as { success: boolean; error?: string } | null;
+        if (!result?.success) {
+          console.warn('Co-authors not recorded:', result?.error);
+        }
+      }
+      return;
+    }
+
+    case 'join_story': {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase.rpc('join_story_by_pairing_code', {
+        p_pairing_code: mutation.pairingCode,
+      });
+      if (error) throw error;
+
+      // Joined on an earlier attempt
+      const result = data as { success: boolean; error?: string } | null;
+      if (result?.error === 'Already a member of this story') return;
+      checkRpcResult(data, 'Failed to join story');
+      return;
+    }
+
+    case 'insert_row': {
+      const { error } = await supabase.from(mutation.table).insert(mutation.values);
+      if (error && error.code !== UNIQUE_VIOLATION) throw error;
+      return;
+    }
+
+    case 'upsert_row': {
+      const { error } = await supabase.from(mutation.table).upsert(mutation.values);
+      if (error) throw error;
+      return;
+    }
+
+    case 'update_rows': {
+      let query = supabase.from(mutation.table).update(mutation.values);
+      for (const [column, value] of Object.entries(mutation.match)) {
+        query = query.eq(column, value);
+      }
+      const { error } = await query;
+      if (error) throw error;
+      return;
+    }
+
+    case 'delete_rows': {
+      let query = supabase.from(mutation.table).delete();
+      for (const [column, value] of Object.entries(mutation.match)) {
+        query = query.eq(column, value);
+      }
+      const { error } = await query;
+      if (error) throw error;
+      return;
+    }
+  }
+};
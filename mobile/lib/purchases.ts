@@ -0,0 +1,109 @@
+/**
+ * Purchases
+ *
+ * The app only talks to the PurchaseProvider interface, so a store SDK is one
+ * more implementation plus a case in getPurchaseProvider. Providers never
+ * grant anything themselves: the server records the subscription once the
+ * purchase is verified, and the app reloads its entitlements. Token packs
+ * work the same way: the provider returns the store receipt, and the
+ * verify-purchase edge function credits the tokens.
+ */
+
+import { supabase } from './supabase';
+import type { StoreProvider, SubscriptionProduct, SubscriptionTier } from './types';
+
+export interface PurchaseResult {
+  success: boolean;
+  error?: string;
+  tier?: SubscriptionTier;
+  balance?: number; // Upgrading tops up this month's token allowance
+}
+
+export interface StoreReceiptResult {
+  success: boolean;
+  canceled?: boolean; // The buyer closed the store sheet
+  error?: string;
+  receipt?: string;
+  transactionId?: string; // The store transaction, when the receipt holds several
+}
+
+export interface PurchaseProvider {
+  id: string;
+  store?: StoreProvider; // Where token packs are bought; unset when they cannot be
+  getProducts(): Promise<SubscriptionProduct[]>;
+  purchaseSubscription(productId: string): Promise<PurchaseResult>;
+  cancelSubscription?(): Promise<PurchaseResult>;
+  buyTokenPack?(packId: string): Promise<StoreReceiptResult>;
+}
+
+const fetchProducts = async (): Promise<SubscriptionProduct[]> => {
+  const { data, error } = await supabase
+    .from('subscription_products')
+    .select('*')
+    .order('billing_period', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Subscribes without a store, for development and testing. The server only
+// accepts it when app.settings.stub_purchases is on.
+class StubPurchaseProvider implements PurchaseProvider {
+  id = 'stub';
+  store: StoreProvider = 'stub';
+
+  getProducts(): Promise<SubscriptionProduct[]> {
+    return fetchProducts();
+  }
+
+  async purchaseSubscription(productId: string): Promise<PurchaseResult> {
+    const { data, error } = await supabase.rpc('stub_purchase_subscription', {
+      p_product_id: productId,
+    });
+
+    if (error) return { success: false, error: error.message };
+    if (!data?.success) return { success: false, error: data?.error || 'Purchase failed' };
+    return { success: true, tier: data.tier, balance: data.balance };
+  }
+
+  // Ends the subscription right away, to try the free tier again
+  async cancelSubscription(): Promise<PurchaseResult> {
+    const { data, error } = await supabase.rpc('stub_cancel_subscription');
+
+    if (error) return { success: false, error: error.message };
+    if (!data?.success) return { success: false, error: data?.error || 'Cancel failed' };
+    return { success: true, tier: data.tier };
+  }
+
+  // The stub store approves every purchase. verify-purchase accepts its
+  // receipts when STUB_PURCHASES is on.
+  async buyTokenPack(packId: string): Promise<StoreReceiptResult> {
+    const transactionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    return { success: true, receipt: `stub:${packId}:${transactionId}`, transactionId };
+  }
+}
+
+// Stand-in until a store SDK is wired up: lists the plans but cannot buy them
+class UnavailablePurchaseProvider implements PurchaseProvider {
+  id = 'unavailable';
+
+  getProducts(): Promise<SubscriptionProduct[]> {
+    return fetchProducts();
+  }
+
+  async purchaseSubscription(): Promise<PurchaseResult> {
+    return { success: false, error: 'In-app purchases are not available yet' };
+  }
+}
+
+let provider: PurchaseProvider | null = null;
+
+// EXPO_PUBLIC_PURCHASE_PROVIDER picks the provider. Development builds use
+// the stub when nothing is set.
+export function getPurchaseProvider(): PurchaseProvider {
+  if (provider) return provider;
+
+  const requested = process.env.EXPO_PUBLIC_PURCHASE_PROVIDER || (__DEV__ ? 'stub' : '');
+  provider = requested === 'stub' ? new StubPurchaseProvider() : new UnavailablePurchaseProvider();
+  return provider;
+}
@@ -1,5 +1,7 @@
 import { RealtimeChannel, RealtimeChannelSendResponse } from '@supabase/supabase-js';
 import { supabase } from './supabase';
+import type { ListenEvent } from './listenTogether';
+import type { CoWriteEvent } from './coWriting';
 
 export interface PresenceData {
   id: string;
@@ -10,6 +12,16 @@ export interface PresenceData {
   typing: boolean;
   currentChapter?: string;
   currentSection?: string;
+  // Set while in a listen-together session
+  listening?: {
+    sessionId: string;
+    since: number;
+  };
+  // Set while in a co-writing session
+  coWriting?: {
+    sessionId: string;
+    since: number;
+  };
 }
 
 export interface RealtimeMessage {
@@ -19,9 +31,21 @@ export interface RealtimeMessage {
   timestamp: number;
 }
 
+export interface StoryChannelOptions {
+  onPresenceChange?: (presence: Map<string, PresenceData>) => void;
+  onMessage?: (message: RealtimeMessage) => void;
+  onListen?: (event: ListenEvent) => void;
+  onCoWrite?: (event: CoWriteEvent) => void;
+  onError?: (error: Error) => void;
+}
+
 export class RealtimeManager {
   private channels: Map<string, RealtimeChannel> = new Map();
+  // Several screens and stores can share one story channel
+  private listeners: Map<string, Set<StoryChannelOptions>> = new Map();
   private userPresences: Map<string, PresenceData> = new Map();
+  // What this device last tracked on each story channel
+  private ownPresences: Map<string, PresenceData> = new Map();
   private isConnecting = false;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
@@ -37,18 +61,33 @@ export class RealtimeManager {
    */
   async connectToStory(
     storyId: string,
-    options: {
-      onPresenceChange?: (presence: Map<string, PresenceData>) => void;
-      onMessage?: (message: RealtimeMessage) => void;
-      onError?: (error: Error) => void;
-    } = {}
+    options: StoryChannelOptions = {}
   ): Promise<RealtimeChannel | null> {
-    if (this.channels.has(storyId)) {
-      return this.channels.get(storyId) || null;
+    const listeners = this.listeners.get(storyId) || new Set<StoryChannelOptions>();
+    listeners.add(options);
+    this.listeners.set(storyId, listeners);
+
+    const existing = this.channels.get(storyId);
+    if (existing && existing.state !== 'closed' && existing.state !== 'errored') {
+      return existing;
     }
 
+    return this.openChannel(storyId);
+  }
+
+  /**
+   * Join the story channel and fan its events out to every listener
+   */
+  private async openChannel(storyId: string): Promise<RealtimeChannel | null> {
+    const emit = (callback: (listener: StoryChannelOptions) => void) => {
+      this.listeners.get(storyId)?.forEach(callback);
+    };
+
     try {
       const channel = supabase.channel(`story:${storyId}`);
+      // Registered straight away: if another store already joined this topic,
+      // supabase hands back the joined channel and the subscribe callback never runs
+      this.channels.set(storyId, channel);
 
       // Track presence
       channel.on('presence', { event: 'sync' }, () => {
@@ -64,7 +103,7 @@ export class RealtimeManager {
         });
 
         this.userPresences = newPresences;
-        options.onPresenceChange?.(newPresences);
+        emit(listener => listener.onPresenceChange?.(newPresences));
       });
 
       // Listen for messages
@@ -76,7 +115,7 @@ export class RealtimeManager {
             userId: payload.userId || 'unknown',
             timestamp: payload.timestamp || Date.now(),
           };
-          options.onMessage?.(message);
+          emit(listener => listener.onMessage?.(message));
         } catch (error) {
           console.error('Error processing realtime message:', error);
         }
@@ -84,39 +123,48 @@ export class RealtimeManager {
 
       // Listen for typing indicators
       channel.on('broadcast', { event: 'typing' }, (payload) => {
-        options.onMessage?.({
+        emit(listener => listener.onMessage?.({
           type: 'typing',
           payload: payload,
           userId: payload.userId || 'unknown',
           timestamp: Date.now(),
-        });
+        }));
       });
 
       channel.on('broadcast', { event: 'typing-stop' }, (payload) => {
-        options.onMessage?.({
+        emit(listener => listener.onMessage?.({
           type: 'typing-stop',
           payload: payload,
           userId: payload.userId || 'unknown',
           timestamp: Date.now(),
-        });
+        }));
+      });
+
+      // Listen-together playback
+      channel.on('broadcast', { event: 'listen' }, ({ payload }) => {
+        emit(listener => listener.onListen?.(payload as ListenEvent));
+      });
+
+      // Co-writing edits and cursors
+      channel.on('broadcast', { event: 'cowrite' }, ({ payload }) => {
+        emit(listener => listener.onCoWrite?.(payload as CoWriteEvent));
       });
 
       // Listen for errors
       channel.on('broadcast', { event: 'error' }, (payload) => {
-        options.onError?.(new Error(payload.error || 'Realtime error'));
+        emit(listener => listener.onError?.(new Error(payload.error || 'Realtime error')));
       });
 
       // Subscribe to the channel
       await channel.subscribe((status) => {
         if (status === 'SUBSCRIBED') {
-          this.channels.set(storyId, channel);
           this.isConnecting = false;
           console.log(`Connected to story ${storyId}`);
         } else if (status === 'CHANNEL_ERROR') {
-          options.onError?.(new Error('Failed to connect to realtime channel'));
+          emit(listener => listener.onError?.(new Error('Failed to connect to realtime channel')));
           this.handleReconnect(storyId);
         } else if (status === 'TIMED_OUT') {
-          options.onError?.(new Error('Realtime connection timed out'));
+          emit(listener => listener.onError?.(new Error('Realtime connection timed out')));
           this.handleReconnect(storyId);
         }
       });
@@ -124,16 +172,27 @@ export class RealtimeManager {
       return channel;
     } catch (error) {
       console.error('Error connecting to realtime channel:', error);
-      options.onError?.(error as Error);
+      this.channels.delete(storyId);
+      emit(listener => listener.onError?.(error as Error));
       this.handleReconnect(storyId);
       return null;
     }
   }
 
   /**
-   * Disconnect from a realtime channel
+   * Disconnect from a realtime channel. Passing the options given to
+   * connectToStory removes only that listener; the channel closes once no
+   * listeners are left.
    */
-  async disconnectFromStory(storyId: string): Promise<void> {
+  async disconnectFromStory(storyId: string, options?: StoryChannelOptions): Promise<void> {
+    const listeners = this.listeners.get(storyId);
+    if (options && listeners) {
+      listeners.delete(options);
+      if (listeners.size > 0) return;
+    }
+    this.listeners.delete(storyId);
+    this.ownPresences.delete(storyId);
+
     const channel = this.channels.get(storyId);
     if (channel) {
       await channel.unsubscribe();
@@ -162,6 +221,69 @@ export class RealtimeManager {
     });
   }
 
+  /**
+   * Publish this user's presence so other members see it on sync. A channel
+   * holds one presence per device, so fields tracked by other stores are
+   * kept; pass a field as undefined to clear it.
+   */
+  async trackPresence(
+    storyId: string,
+    presence: PresenceData,
+    channel?: RealtimeChannel
+  ): Promise<RealtimeChannelSendResponse | null> {
+    const targetChannel = channel || this.channels.get(storyId);
+    if (!targetChannel) {
+      console.warn(`No channel found for story ${storyId}`);
+      return null;
+    }
+
+    const merged = { ...this.ownPresences.get(storyId), ...presence };
+    this.ownPresences.set(storyId, merged);
+    return targetChannel.track(merged);
+  }
+
+  /**
+   * Send a listen-together event to the other members of the story
+   */
+  sendListenEvent(
+    storyId: string,
+    event: ListenEvent,
+    channel?: RealtimeChannel
+  ): Promise<RealtimeChannelSendResponse | null> {
+    const targetChannel = channel || this.channels.get(storyId);
+    if (!targetChannel) {
+      console.warn(`No channel found for story ${storyId}`);
+      return Promise.resolve(null);
+    }
+
+    return targetChannel.send({
+      type: 'broadcast',
+      event: 'listen',
+      payload: event,
+    });
+  }
+
+  /**
+   * Send a co-writing event to the other members of the story
+   */
+  sendCoWriteEvent(
+    storyId: string,
+    event: CoWriteEvent,
+    channel?: RealtimeChannel
+  ): Promise<RealtimeChannelSendResponse | null> {
+    const targetChannel = channel || this.channels.get(storyId);
+    if (!targetChannel) {
+      console.warn(`No channel found for story ${storyId}`);
+      return Promise.resolve(null);
+    }
+
+    return targetChannel.send({
+      type: 'broadcast',
+      event: 'cowrite',
+      payload: event,
+    });
+  }
+
   /**
    * Send a message
    */
@@ -250,7 +372,7 @@ export class RealtimeManager {
       if (channel) {
         try {
           await channel.unsubscribe();
-          await this.connectToStory(storyId);
+          await this.openChannel(storyId);
         } catch (error) {
           this.handleReconnect(storyId, attempt + 1);
         }
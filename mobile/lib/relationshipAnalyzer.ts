@@ -1,19 +1,28 @@
 import { supabase } from './supabase';
-import { useStoriesStore } from '../stores/storiesStore';
+import type { RelationshipSnapshot, Theme } from './types';
 
 export interface RelationshipAnalysis {
+  totalChapters: number;
   communicationFrequency: number;
   writingBalance: number;
+  responseTime: {
+    averageHours: number | null;
+    responses: number;
+  };
   themePreferences: {
-    preferredThemes: string[];
-    sharedThemes: string[];
+    preferredThemes: Theme[];
+    sharedThemes: Theme[];
     diversityScore: number;
   };
   streakSync: {
     currentStreak: number;
-    syncScore: number;
+    // null when the couple only writes in group stories
+    syncScore: number | null;
     lastSyncDate: string | null;
   };
+  // Shared stories with other writers too. They count towards balance and
+  // tone, but not towards response time or turn-taking.
+  groupStories: number;
   emotionalTone: {
     positivity: number;
     engagement: number;
@@ -22,6 +31,44 @@ export interface RelationshipAnalysis {
   suggestions: string[];
 }
 
+// What get_relationship_metrics returns for the analysis window
+interface RelationshipMetrics {
+  user_1: string;
+  user_2: string;
+  chapters_count: number;
+  user_1_words: number;
+  user_2_words: number;
+  writing_balance: number | null;
+  avg_response_hours: number | null;
+  responses_count: number;
+  positivity: number | null;
+  engagement: number | null;
+  depth: number | null;
+}
+
+interface SharedStories {
+  storyIds: string[];
+  groupStoryIds: Set<string>;
+}
+
+interface ChapterActivity {
+  id: string;
+  story_id: string;
+  author_id: string;
+  created_at: string;
+}
+
+const ANALYSIS_DAYS = 30;
+const ALL_THEMES: Theme[] = ['romance', 'fantasy', 'our_future'];
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Tone is stored as matching words per 1000 words. Ten per 1000 already reads
+// as a strongly toned chapter, so that is the top of the 0-100 scale.
+export function toneScore(perThousandWords: number | null): number {
+  if (perThousandWords === null) return 50;
+  return Math.min(100, Math.round(perThousandWords * 10));
+}
+
 export class RelationshipAnalyzer {
   private static instance: RelationshipAnalyzer;
 
@@ -32,23 +79,50 @@ export class RelationshipAnalyzer {
     return RelationshipAnalyzer.instance;
   }
 
-  async analyzeRelationship(storyId: string): Promise<RelationshipAnalysis> {
+  // Analyses every story both partners are members of. Word-based metrics
+  // (balance, response time, tone) come from the server, which reads the
+  // chapter text; the rest is worked out from chapter metadata here.
+  async analyzeRelationship(relationshipId: string): Promise<RelationshipAnalysis> {
     try {
-      // Fetch story data with chapters
-      const { data: story, error: storyError } = await supabase
-        .from('stories')
-        .select(`
-          *,
-          chapters(*),
-          story_members(*)
-        `)
-        .eq('id', storyId)
+      const { data: relationship, error: relationshipError } = await supabase
+        .from('relationships')
+        .select('id, user_1, user_2')
+        .eq('id', relationshipId)
         .single();
 
-      if (storyError) throw storyError;
-      if (!story) throw new Error('Story not found');
+      if (relationshipError) throw relationshipError;
+      if (!relationship) throw new Error('Relationship not found');
+
+      const partners: [string, string] = [relationship.user_1, relationship.user_2];
+      const { storyIds, groupStoryIds } = await this.fetchSharedStories(partners);
+
+      const [stories, chapters, metrics] = await Promise.all([
+        this.fetchStoryThemes(storyIds),
+        this.fetchChapterActivity(storyIds, partners),
+        this.fetchMetrics(relationshipId),
+      ]);
+
+      const analysis: RelationshipAnalysis = {
+        totalChapters: chapters.length,
+        communicationFrequency: this.calculateCommunicationFrequency(chapters),
+        // Nothing written recently means nobody is ahead
+        writingBalance: metrics?.writing_balance ?? 100,
+        responseTime: {
+          averageHours: metrics?.avg_response_hours ?? null,
+          responses: metrics?.responses_count ?? 0,
+        },
+        themePreferences: this.analyzeThemePreferences(chapters, stories, partners),
+        streakSync: this.calculateStreakSync(chapters, groupStoryIds),
+        groupStories: groupStoryIds.size,
+        emotionalTone: {
+          positivity: toneScore(metrics?.positivity ?? null),
+          engagement: toneScore(metrics?.engagement ?? null),
+          depth: toneScore(metrics?.depth ?? null),
+        },
+        suggestions: [],
+      };
 
-      const analysis = await this.performAnalysis(story);
+      analysis.suggestions = this.generateSuggestions(analysis);
       return analysis;
     } catch (error) {
       console.error('Error analyzing relationship:', error);
@@ -56,98 +130,134 @@ export class RelationshipAnalyzer {
     }
   }
 
-  private async performAnalysis(story: any): Promise<RelationshipAnalysis> {
-    const chapters = story.chapters || [];
-    const members = story.story_members || [];
-
-    // Get user profiles
-    const { data: profiles } = await supabase
-      .from('profiles')
-      .select('*')
-      .in('id', members.map((m: any) => m.user_id));
-
-    const analysis: RelationshipAnalysis = {
-      communicationFrequency: this.calculateCommunicationFrequency(chapters),
-      writingBalance: this.calculateWritingBalance(chapters, members),
-      themePreferences: this.analyzeThemePreferences(chapters),
-      streakSync: this.calculateStreakSync(chapters),
-      emotionalTone: this.analyzeEmotionalTone(chapters),
-      suggestions: []
-    };
+  // Daily snapshots for the last `days`, oldest first
+  async getTrends(relationshipId: string, days = 90): Promise<RelationshipSnapshot[]> {
+    const { data, error } = await supabase.rpc('get_relationship_trends', {
+      p_relationship_id: relationshipId,
+      p_days: days,
+    });
 
-    // Generate suggestions based on analysis
-    analysis.suggestions = this.generateSuggestions(analysis);
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Could not load relationship trends');
+    return data.snapshots as RelationshipSnapshot[];
+  }
+
+  // Stories both partners are members of, and which of them have more writers
+  private async fetchSharedStories([user1, user2]: [string, string]): Promise<SharedStories> {
+    const { data, error } = await supabase
+      .from('story_members')
+      .select('story_id, user_id')
+      .in('user_id', [user1, user2]);
+
+    if (error) throw error;
+
+    const storiesByUser = (userId: string) =>
+      new Set((data || []).filter(m => m.user_id === userId).map(m => m.story_id as string));
+    const user2Stories = storiesByUser(user2);
+    const storyIds = [...storiesByUser(user1)].filter(storyId => user2Stories.has(storyId));
+
+    if (storyIds.length === 0) return { storyIds, groupStoryIds: new Set() };
+
+    const { data: members, error: membersError } = await supabase
+      .from('story_members')
+      .select('story_id')
+      .in('story_id', storyIds);
 
-    return analysis;
+    if (membersError) throw membersError;
+
+    const memberCounts = new Map<string, number>();
+    (members || []).forEach(m => memberCounts.set(m.story_id, (memberCounts.get(m.story_id) || 0) + 1));
+    const groupStoryIds = new Set(storyIds.filter(storyId => (memberCounts.get(storyId) || 0) > 2));
+
+    return { storyIds, groupStoryIds };
   }
 
-  private calculateCommunicationFrequency(chapters: any[]): number {
-    if (chapters.length === 0) return 0;
+  private async fetchStoryThemes(storyIds: string[]): Promise<Map<string, Theme>> {
+    if (storyIds.length === 0) return new Map();
 
-    const now = new Date();
-    const storyStartDate = new Date(chapters[0].created_at);
-    const daysActive = Math.max(1, Math.floor((now.getTime() - storyStartDate.getTime()) / (1000 * 60 * 60 * 24)));
+    const { data, error } = await supabase
+      .from('stories')
+      .select('id, theme')
+      .in('id', storyIds);
 
-    const chapterFrequency = (chapters.length / daysActive) * 7; // Chapters per week
-    return Math.min(100, Math.round(chapterFrequency * 10)); // Scale to 0-100
+    if (error) throw error;
+    return new Map((data || []).map(story => [story.id as string, story.theme as Theme]));
   }
 
-  private calculateWritingBalance(chapters: any[], members: any[]): number {
-    if (chapters.length === 0) return 50; // Perfect balance
+  private async fetchChapterActivity(storyIds: string[], partners: [string, string]): Promise<ChapterActivity[]> {
+    if (storyIds.length === 0) return [];
 
-    const userChapterCounts: { [key: string]: number } = {};
+    const { data, error } = await supabase
+      .from('chapters')
+      .select('id, story_id, author_id, created_at')
+      .in('story_id', storyIds)
+      .in('author_id', partners)
+      .order('created_at', { ascending: true });
 
-    chapters.forEach((chapter) => {
-      const authorId = chapter.user_id;
-      userChapterCounts[authorId] = (userChapterCounts[authorId] || 0) + 1;
+    if (error) throw error;
+    return (data || []) as ChapterActivity[];
+  }
+
+  private async fetchMetrics(relationshipId: string): Promise<RelationshipMetrics | null> {
+    const { data, error } = await supabase.rpc('get_relationship_metrics', {
+      p_relationship_id: relationshipId,
+      p_days: ANALYSIS_DAYS,
     });
 
-    const totalChapters = chapters.length;
-    let balance = 0;
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Could not load relationship metrics');
+    return data.metrics as RelationshipMetrics | null;
+  }
 
-    members.forEach((member) => {
-      const userChapters = userChapterCounts[member.user_id] || 0;
-      const percentage = (userChapters / totalChapters) * 100;
-      // Calculate deviation from 50% (perfect balance)
-      balance += Math.abs(percentage - 50);
-    });
+  private calculateCommunicationFrequency(chapters: ChapterActivity[]): number {
+    const since = Date.now() - ANALYSIS_DAYS * DAY_MS;
+    const recent = chapters.filter(c => new Date(c.created_at).getTime() >= since).length;
 
-    // Convert balance score (lower is better)
-    const balanceScore = Math.max(0, 100 - (balance / members.length) * 2);
-    return Math.round(balanceScore);
+    const chaptersPerWeek = (recent / ANALYSIS_DAYS) * 7;
+    return Math.min(100, Math.round(chaptersPerWeek * 10)); // Scale to 0-100
   }
 
-  private analyzeThemePreferences(chapters: any[]): RelationshipAnalysis['themePreferences'] {
-    const themes = chapters.map((chapter) => chapter.theme || 'unknown');
-    const themeCounts: { [key: string]: number } = {};
+  // Themes come from the story each chapter belongs to, weighted by how much
+  // was written in it. A theme is shared when both partners have written in it.
+  private analyzeThemePreferences(
+    chapters: ChapterActivity[],
+    stories: Map<string, Theme>,
+    [user1, user2]: [string, string]
+  ): RelationshipAnalysis['themePreferences'] {
+    const themeCounts = new Map<Theme, number>();
+    const authorsByTheme = new Map<Theme, Set<string>>();
 
-    themes.forEach((theme) => {
-      themeCounts[theme] = (themeCounts[theme] || 0) + 1;
+    chapters.forEach((chapter) => {
+      const theme = stories.get(chapter.story_id);
+      if (!theme) return;
+      themeCounts.set(theme, (themeCounts.get(theme) || 0) + 1);
+      authorsByTheme.set(theme, (authorsByTheme.get(theme) || new Set()).add(chapter.author_id));
     });
 
-    const sortedThemes = Object.entries(themeCounts)
+    const preferredThemes = [...themeCounts.entries()]
       .sort(([, a], [, b]) => b - a)
       .map(([theme]) => theme);
 
-    const totalChapters = chapters.length;
-    const preferredThemes = sortedThemes.slice(0, 3); // Top 3 themes
-    const sharedThemes = preferredThemes.filter(theme =>
-      chapters.filter(c => c.theme === theme).length >= Math.ceil(totalChapters / 2)
-    );
-
-    // Calculate diversity score (number of unique themes)
-    const diversity = Object.keys(themeCounts).length;
-    const maxPossibleThemes = 12; // Assuming 12 predefined themes
-    const diversityScore = Math.min(100, (diversity / maxPossibleThemes) * 100);
+    const sharedThemes = preferredThemes.filter(theme => {
+      const authors = authorsByTheme.get(theme);
+      return !!authors && authors.has(user1) && authors.has(user2);
+    });
 
     return {
       preferredThemes,
       sharedThemes,
-      diversityScore: Math.round(diversityScore)
+      diversityScore: Math.round((themeCounts.size / ALL_THEMES.length) * 100),
     };
   }
 
-  private calculateStreakSync(chapters: any[]): RelationshipAnalysis['streakSync'] {
+  // The streak counts days back from today (or yesterday, if nobody has
+  // written yet today) with at least one chapter. Sync is how often a chapter
+  // was written by the other partner than the one before it in the same story;
+  // group stories are left out, since their turn order decides who follows whom.
+  private calculateStreakSync(
+    chapters: ChapterActivity[],
+    groupStoryIds: Set<string>
+  ): RelationshipAnalysis['streakSync'] {
     if (chapters.length === 0) {
       return {
         currentStreak: 0,
@@ -156,80 +266,43 @@ export class RelationshipAnalyzer {
       };
     }
 
-    // Sort chapters by date
-    const sortedChapters = [...chapters].sort(
-      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-    );
+    const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+    const writtenDays = new Set(chapters.map(c => dayKey(new Date(c.created_at))));
 
     let currentStreak = 0;
-    let lastDate = new Date(sortedChapters[0].created_at);
-    let lastSyncDate: string | null = null;
-
-    for (let i = 1; i < sortedChapters.length; i++) {
-      const currentDate = new Date(sortedChapters[i].created_at);
-      const daysDiff = Math.floor((currentDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-
-      if (daysDiff <= 3) { // Consider within 3 days as part of streak
-        currentStreak++;
-        lastSyncDate = sortedChapters[i].created_at;
-      } else {
-        break;
-      }
-      lastDate = currentDate;
+    const day = new Date();
+    if (!writtenDays.has(dayKey(day))) {
+      day.setTime(day.getTime() - DAY_MS);
     }
-
-    // Sync score based on regularity of contributions
-    const totalDays = Math.ceil(
-      (new Date().getTime() - new Date(sortedChapters[0].created_at).getTime()) / (1000 * 60 * 60 * 24)
-    );
-    const expectedChapters = Math.max(1, Math.floor(totalDays / 7)); // Expected weekly chapters
-    const syncScore = Math.min(100, (chapters.length / expectedChapters) * 50);
-
-    return {
-      currentStreak: currentStreak + 1, // Include first chapter
-      syncScore: Math.round(syncScore),
-      lastSyncDate
-    };
-  }
-
-  private analyzeEmotionalTone(chapters: any[]): RelationshipAnalysis['emotionalTone'] {
-    if (chapters.length === 0) {
-      return {
-        positivity: 50,
-        engagement: 50,
-        depth: 50
-      };
+    while (writtenDays.has(dayKey(day))) {
+      currentStreak++;
+      day.setTime(day.getTime() - DAY_MS);
     }
 
-    // Simple emotional analysis based on text features
-    const positiveWords = ['love', 'happy', 'joy', 'wonderful', 'amazing', 'beautiful', 'perfect', 'great'];
-    const engagementWords = ['wonder', 'curious', 'explore', 'discover', 'imagine', 'think', 'feel'];
-    const depthWords = ['soul', 'heart', 'deep', 'meaning', 'purpose', 'journey', 'connection', 'intimate'];
-
-    let positivityScore = 0;
-    let engagementScore = 0;
-    let depthScore = 0;
-    let totalWords = 0;
+    const lastAuthorByStory = new Map<string, string>();
+    let followUps = 0;
+    let alternations = 0;
+    let lastSyncDate: string | null = null;
 
     chapters.forEach((chapter) => {
-      const text = chapter.content || '';
-      const words = text.toLowerCase().split(/\s+/);
-
-      words.forEach((word) => {
-        totalWords++;
-        if (positiveWords.some(pw => word.includes(pw))) positivityScore++;
-        if (engagementWords.some(ew => word.includes(ew))) engagementScore++;
-        if (depthWords.some(dw => word.includes(dw))) depthScore++;
-      });
+      if (groupStoryIds.has(chapter.story_id)) return;
+      const previousAuthor = lastAuthorByStory.get(chapter.story_id);
+      if (previousAuthor) {
+        followUps++;
+        if (previousAuthor !== chapter.author_id) {
+          alternations++;
+          lastSyncDate = chapter.created_at;
+        }
+      }
+      lastAuthorByStory.set(chapter.story_id, chapter.author_id);
     });
 
-    // Normalize scores
-    const normalize = (score: number, total: number) => total > 0 ? (score / total) * 100 : 50;
+    const writesAsCouple = chapters.some(chapter => !groupStoryIds.has(chapter.story_id));
 
     return {
-      positivity: Math.min(100, Math.round(normalize(positivityScore, totalWords))),
-      engagement: Math.min(100, Math.round(normalize(engagementScore, totalWords))),
-      depth: Math.min(100, Math.round(normalize(depthScore, totalWords)))
+      currentStreak,
+      syncScore: !writesAsCouple ? null : followUps > 0 ? Math.round((alternations / followUps) * 100) : 0,
+      lastSyncDate
     };
   }
 
@@ -248,14 +321,21 @@ export class RelationshipAnalyzer {
       suggestions.push('Try to balance your writing contributions more evenly');
     }
 
+    // Response time suggestions
+    if (analysis.responseTime.averageHours !== null && analysis.responseTime.averageHours > 72) {
+      suggestions.push('Replies are taking a few days. A short chapter keeps the story moving');
+    }
+
     // Theme preferences suggestions
-    if (analysis.themePreferences.diversityScore < 30) {
+    if (analysis.themePreferences.diversityScore < 50) {
       suggestions.push('Try exploring different story themes to keep things fresh');
     }
 
     // Streak sync suggestions
-    if (analysis.streakSync.syncScore < 50) {
-      suggestions.push('Establish a regular writing schedule to maintain sync');
+    if (analysis.streakSync.syncScore !== null && analysis.streakSync.syncScore < 50) {
+      suggestions.push('Take turns more often so you both shape the story');
+    } else if (analysis.streakSync.syncScore === null && analysis.groupStories > 0) {
+      suggestions.push('Start a story just for the two of you alongside your group stories');
     }
 
     // Emotional tone suggestions
@@ -273,13 +353,14 @@ export class RelationshipAnalyzer {
   }
 
   // Utility methods
-  async getRelationshipStats(storyId: string) {
-    const analysis = await this.analyzeRelationship(storyId);
+  async getRelationshipStats(relationshipId: string) {
+    const analysis = await this.analyzeRelationship(relationshipId);
 
     return {
-      totalChapters: analysis.communicationFrequency * 7 / 10, // Rough estimate
+      totalChapters: analysis.totalChapters,
       averageChaptersPerWeek: Math.round(analysis.communicationFrequency / 10),
       balanceScore: analysis.writingBalance,
+      averageResponseHours: analysis.responseTime.averageHours,
       currentStreak: analysis.streakSync.currentStreak,
       syncScore: analysis.streakSync.syncScore,
       topThemes: analysis.themePreferences.preferredThemes.slice(0, 2),
@@ -289,4 +370,4 @@ export class RelationshipAnalyzer {
   }
 }
 
-export const relationshipAnalyzer = RelationshipAnalyzer.getInstance();
\ No newline at end of file
+export const relationshipAnalyzer = RelationshipAnalyzer.getInstance();
@@ -0,0 +1,31 @@
+/**
+ * Story Bible
+ *
+ * Notes a story's writers keep next to the chapters: how their world works,
+ * the places in it, what happened when, their inside jokes and the plot
+ * points they are saving for later. The server starts every bible with the
+ * built-in sections and gives the AI functions a trimmed copy as context.
+ */
+
+import type { StoryBibleSection, StoryBibleSectionKind } from './types';
+
+// The server holds sections to the same limits
+export const MAX_BIBLE_TITLE_LENGTH = 60;
+export const MAX_BIBLE_SECTION_LENGTH = 10000;
+
+// How long typing pauses before a section is saved
+export const BIBLE_SAVE_DELAY_MS = 800;
+
+export const BIBLE_SECTION_HINTS: Record<StoryBibleSectionKind, string> = {
+  world: 'How your world works: its rules, magic, technology or anything that is always true.',
+  places: 'Names and details of the places your story visits.',
+  timeline: 'What happened when, so nobody has to reread to check.',
+  inside_jokes: 'The running jokes and phrases only the two of you get.',
+  plot_points: 'Twists and moments you are saving for later chapters.',
+  custom: 'Anything else worth remembering.',
+};
+
+export const sortBibleSections = (sections: StoryBibleSection[]): StoryBibleSection[] =>
+  [...sections].sort((a, b) =>
+    a.position !== b.position ? a.position - b.position : a.created_at.localeCompare(b.created_at)
+  );
@@ -1,8 +1,11 @@
 import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
+import JSZip from 'jszip';
+import { supabase, isSupabaseConfigured } from './supabase';
 import { Story, Chapter } from './types';
 
-export type ExportFormat = 'pdf' | 'markdown' | 'text';
+export type ExportFormat = 'pdf' | 'epub' | 'markdown' | 'text';
 export type Theme = 'romance' | 'fantasy' | 'our_future';
 
 const THEME_INFO: Record<Theme, { label: string; emoji: string }> = {
@@ -11,32 +14,102 @@ const THEME_INFO: Record<Theme, { label: string; emoji: string }> = {
   our_future: { label: 'Our Future', emoji: '🌟' },
 };
 
+const THEME_COLORS: Record<Theme, { primary: string; bg: string }> = {
+  romance: { primary: '#E91E63', bg: '#FCE4EC' },
+  fantasy: { primary: '#9C27B0', bg: '#F3E5F5' },
+  our_future: { primary: '#2196F3', bg: '#E3F2FD' },
+};
+
+// A5 in points (72 per inch), a common size for printed keepsake books
+const PDF_PAGE_WIDTH = 420;
+const PDF_PAGE_HEIGHT = 595;
+
+// Image types every ePub 3 reader must support
+const EPUB_IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
 export interface ExportOptions {
   format: ExportFormat;
   includeMetadata: boolean;
   includeInspiration: boolean;
+  includeImages: boolean;
+}
+
+/**
+ * An image downloaded for a book. Kept as base64 so the PDF renderer and the
+ * ePub archive can embed it without going back to the network.
+ */
+export interface ExportImage {
+  id: string;
+  mimeType: string;
+  base64: string;
+  caption: string | null;
+  altText: string | null;
+}
+
+/**
+ * Everything a book needs besides the story text
+ */
+export interface ExportBookAssets {
+  authors: Record<string, string>;
+  cover: ExportImage | null;
+  chapterImages: Record<string, ExportImage[]>;
+}
+
+interface ChapterMediaRow {
+  id: string;
+  chapter_id: string;
+  storage_path: string;
+  mime_type: string;
+  caption: string | null;
+  alt_text: string | null;
 }
 
 export async function exportStory(
   story: Story,
   chapters: Chapter[],
   inspirations: string[],
-  options: ExportOptions
+  options: ExportOptions,
+  authors: Record<string, string> = {}
 ): Promise<void> {
-  const content = generateStoryContent(story, chapters, inspirations, options);
-
   const fileName = `${story.title.replace(/[^a-zA-Z0-9]/g, '_')}_export`;
   const fileUri = FileSystem.documentDirectory + `${fileName}.${getFileExtension(options.format)}`;
 
   try {
-    await FileSystem.writeAsStringAsync(fileUri, content, {
-      encoding: FileSystem.EncodingType.UTF8,
-    });
+    if (options.format === 'pdf' || options.format === 'epub') {
+      const assets = await loadBookAssets(story, chapters, authors, options.includeImages);
+
+      if (options.format === 'pdf') {
+        const html = generateBookHTML(story, chapters, inspirations, options, assets);
+        const { uri } = await Print.printToFileAsync({
+          html,
+          width: PDF_PAGE_WIDTH,
+          height: PDF_PAGE_HEIGHT,
+        });
+        await FileSystem.deleteAsync(fileUri, { idempotent: true });
+        await FileSystem.moveAsync({ from: uri, to: fileUri });
+      } else {
+        const epub = await generateEpub(story, chapters, inspirations, options, assets);
+        await FileSystem.writeAsStringAsync(fileUri, epub, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+      }
+    } else {
+      const content = generateStoryContent(story, chapters, inspirations, options);
+      await FileSystem.writeAsStringAsync(fileUri, content, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+    }
 
     if (await Sharing.isAvailableAsync()) {
       await Sharing.shareAsync(fileUri, {
         mimeType: getMimeType(options.format),
         dialogTitle: `Exported: ${story.title}`,
+        UTI: getUTI(options.format),
       });
     } else {
       console.error('Sharing is not available on this device');
@@ -47,11 +120,165 @@ export async function exportStory(
   }
 }
 
+/**
+ * Download a book rendered by the export-worker and open the share sheet
+ */
+export async function shareExportDownload(
+  story: Story,
+  format: ExportFormat,
+  downloadUrl: string
+): Promise<void> {
+  const fileName = `${story.title.replace(/[^a-zA-Z0-9]/g, '_')}_export`;
+  const fileUri = FileSystem.documentDirectory + `${fileName}.${getFileExtension(format)}`;
+
+  const result = await FileSystem.downloadAsync(downloadUrl, fileUri);
+  if (result.status !== 200) {
+    throw new Error(`Download failed with status ${result.status}`);
+  }
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(fileUri, {
+      mimeType: getMimeType(format),
+      dialogTitle: `Exported: ${story.title}`,
+      UTI: getUTI(format),
+    });
+  } else {
+    console.error('Sharing is not available on this device');
+  }
+}
+
+/**
+ * Download the cover art and chapter images for a book. Images that fail to
+ * download are left out rather than failing the whole export.
+ */
+export async function loadBookAssets(
+  story: Story,
+  chapters: Chapter[],
+  authors: Record<string, string>,
+  includeImages: boolean
+): Promise<ExportBookAssets> {
+  const assets: ExportBookAssets = { authors, cover: null, chapterImages: {} };
+
+  if (!includeImages) {
+    return assets;
+  }
+
+  if (story.cover_image_url) {
+    assets.cover = await downloadImage(story.cover_image_url, `cover_${story.id}`, null, story.title);
+  }
+
+  if (!isSupabaseConfigured() || chapters.length === 0) {
+    return assets;
+  }
+
+  const { data, error } = await supabase
+    .from('chapter_media')
+    .select('id, chapter_id, storage_path, mime_type, caption, alt_text')
+    .in('chapter_id', chapters.map(c => c.id))
+    .eq('media_type', 'image')
+    .eq('status', 'active')
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error loading chapter images for export:', error);
+    return assets;
+  }
+
+  for (const row of (data || []) as unknown as ChapterMediaRow[]) {
+    const { data: urlData } = supabase.storage.from('media').getPublicUrl(row.storage_path);
+    const image = await downloadImage(urlData.publicUrl, row.id, row.caption, row.alt_text);
+    if (image) {
+      assets.chapterImages[row.chapter_id] = [...(assets.chapterImages[row.chapter_id] || []), image];
+    }
+  }
+
+  return assets;
+}
+
+async function downloadImage(
+  url: string,
+  id: string,
+  caption: string | null,
+  altText: string | null
+): Promise<ExportImage | null> {
+  const localUri = `${FileSystem.cacheDirectory}export_${id}`;
+
+  try {
+    const result = await FileSystem.downloadAsync(url, localUri);
+    if (result.status !== 200) {
+      console.warn(`Skipping image ${id}: download returned ${result.status}`);
+      return null;
+    }
+
+    const contentType = (result.headers['Content-Type'] || result.headers['content-type'] || '')
+      .split(';')[0]
+      .trim()
+      .toLowerCase();
+    if (!EPUB_IMAGE_EXTENSIONS[contentType]) {
+      console.warn(`Skipping image ${id}: unsupported type ${contentType || 'unknown'}`);
+      return null;
+    }
+
+    const base64 = await FileSystem.readAsStringAsync(localUri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    return { id, mimeType: contentType, base64, caption, altText };
+  } catch (error) {
+    console.warn(`Skipping image ${id}:`, error);
+    return null;
+  } finally {
+    await FileSystem.deleteAsync(localUri, { idempotent: true });
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Chapter content can be plain text or rich text HTML. Reduce it to plain
+ * paragraphs so the same text renders in the PDF and as valid ePub XHTML.
+ */
+function toParagraphs(content: string): string[] {
+  return content
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split(/\n\s*\n|\n/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+}
+
+// "Alex & Sam", in the order they first wrote a chapter
+function getAuthorLine(chapters: Chapter[], authors: Record<string, string>): string {
+  const names = [...new Set(chapters.map(c => c.author_id))]
+    .map(id => authors[id])
+    .filter((name): name is string => !!name);
+  return names.join(' & ');
+}
+
+function getChapterAuthor(chapter: Chapter, authors: Record<string, string>): string | null {
+  return authors[chapter.author_id] || null;
+}
+
 function generateStoryContent(
   story: Story,
   chapters: Chapter[],
   inspirations: string[],
-  options: ExportFormat
+  options: ExportOptions,
+  assets?: ExportBookAssets
 ): string {
   const { format, includeMetadata, includeInspiration } = options;
   const theme = THEME_INFO[story.theme];
@@ -68,7 +295,7 @@ function generateStoryContent(
     }
 
     content += '## Story\n\n';
-    chapters.forEach((chapter, index) => {
+    chapters.forEach((chapter) => {
       content += `### Chapter ${chapter.chapter_number}\n\n`;
       content += chapter.content + '\n\n';
     });
@@ -95,7 +322,7 @@ function generateStoryContent(
     }
 
     content += 'Story:\n\n';
-    chapters.forEach((chapter, index) => {
+    chapters.forEach((chapter) => {
       content += `Chapter ${chapter.chapter_number}\n`;
       content += '-'.repeat(15) + '\n\n';
       content += chapter.content + '\n\n';
@@ -112,163 +339,365 @@ function generateStoryContent(
     content += '\n---\n';
     content += `Exported from Parallel Story Builder\n`;
 
-  } else if (format === 'pdf') {
-    content = generateHTMLContent(story, chapters, inspirations, options);
+  } else {
+    content = generateBookHTML(
+      story,
+      chapters,
+      inspirations,
+      options,
+      assets || { authors: {}, cover: null, chapterImages: {} }
+    );
   }
 
   return content;
 }
 
-function generateHTMLContent(
+/**
+ * Print-ready HTML for the PDF: cover, title page, table of contents, then one
+ * chapter per page. Images are inlined as data URIs.
+ */
+function generateBookHTML(
   story: Story,
   chapters: Chapter[],
   inspirations: string[],
-  options: ExportOptions
+  options: ExportOptions,
+  assets: ExportBookAssets
 ): string {
   const { includeMetadata, includeInspiration } = options;
   const theme = THEME_INFO[story.theme];
+  const colors = THEME_COLORS[story.theme];
+  const authorLine = getAuthorLine(chapters, assets.authors);
 
-  const themeColors: Record<Theme, { primary: string; bg: string }> = {
-    romance: { primary: '#E91E63', bg: '#FCE4EC' },
-    fantasy: { primary: '#9C27B0', bg: '#F3E5F5' },
-    our_future: { primary: '#2196F3', bg: '#E3F2FD' },
-  };
-
-  const colors = themeColors[story.theme];
+  const dataUri = (image: ExportImage) => `data:${image.mimeType};base64,${image.base64}`;
 
-  let html = `
-<!DOCTYPE html>
+  return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${story.title}</title>
+    <title>${escapeXml(story.title)}</title>
     <style>
+        @page {
+            margin: 48px 40px;
+        }
         body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            font-family: Georgia, 'Times New Roman', serif;
+            font-size: 12pt;
             line-height: 1.6;
             margin: 0;
-            padding: 2rem;
-            background-color: ${colors.bg};
             color: #333;
         }
-        .container {
-            max-width: 800px;
-            margin: 0 auto;
-            background: white;
-            padding: 2rem;
-            border-radius: 8px;
-            box-shadow: 0 2px 8px rgba(0,0,0,0.1);
+        .page {
+            page-break-after: always;
+        }
+        .cover {
+            text-align: center;
+        }
+        .cover img {
+            max-width: 100%;
+            max-height: 480px;
         }
-        .header {
+        .title-page {
             text-align: center;
-            margin-bottom: 2rem;
+            padding-top: 120px;
         }
         .title {
             color: ${colors.primary};
-            font-size: 2.5rem;
-            margin-bottom: 0.5rem;
+            font-size: 28pt;
+            margin-bottom: 8px;
         }
         .theme-emoji {
-            font-size: 2rem;
+            font-size: 24pt;
         }
-        .metadata {
-            background: ${colors.bg};
-            padding: 1rem;
-            border-radius: 4px;
-            margin-bottom: 2rem;
-            font-size: 0.9rem;
+        .byline {
+            font-size: 14pt;
+            font-style: italic;
+            margin-top: 24px;
         }
-        .chapter {
-            margin-bottom: 2rem;
+        .metadata {
+            margin-top: 48px;
+            font-size: 10pt;
+            color: #666;
         }
-        .chapter-title {
+        .toc h2,
+        .inspirations h2 {
             color: ${colors.primary};
-            font-size: 1.5rem;
-            margin-bottom: 1rem;
-            border-bottom: 2px solid ${colors.primary};
-            padding-bottom: 0.5rem;
         }
-        .inspirations {
-            background: #f5f5f5;
-            padding: 1rem;
-            border-radius: 4px;
-            margin-top: 2rem;
+        .toc ol {
+            padding-left: 0;
+            list-style: none;
+        }
+        .toc li {
+            margin: 8px 0;
+            border-bottom: 1px dotted #ccc;
+        }
+        .toc .toc-author {
+            float: right;
+            font-style: italic;
+            color: #666;
         }
-        .inspirations h3 {
+        .chapter-title {
             color: ${colors.primary};
+            font-size: 18pt;
+            margin-bottom: 4px;
+        }
+        .chapter-author {
+            font-style: italic;
+            color: #666;
             margin-top: 0;
+            margin-bottom: 24px;
         }
-        .inspiration-item {
-            margin: 0.5rem 0;
-            padding-left: 1.5rem;
-            position: relative;
+        .chapter p {
+            text-indent: 1.5em;
+            margin: 0 0 8px;
+        }
+        figure {
+            margin: 16px 0;
+            text-align: center;
+            page-break-inside: avoid;
+        }
+        figure img {
+            max-width: 100%;
+            max-height: 320px;
         }
-        .inspiration-item:before {
-            content: "💡";
-            position: absolute;
-            left: 0;
+        figcaption {
+            font-size: 10pt;
+            color: #666;
+            margin-top: 4px;
+        }
+        .inspiration-item {
+            margin: 8px 0;
         }
         .footer {
             text-align: center;
-            margin-top: 2rem;
-            padding-top: 1rem;
-            border-top: 1px solid #e0e0e0;
+            padding-top: 200px;
             color: #666;
-            font-size: 0.9rem;
-        }
-        @media print {
-            body { background: white; }
-            .container { box-shadow: none; }
+            font-size: 10pt;
         }
     </style>
 </head>
 <body>
-    <div class="container">
-        <div class="header">
-            <h1 class="title">${story.title}</h1>
-            <div class="theme-emoji">${theme.emoji}</div>
-        </div>
+    ${assets.cover ? `
+    <div class="page cover">
+        <img src="${dataUri(assets.cover)}" alt="${escapeXml(story.title)} cover" />
+    </div>
+    ` : ''}
 
+    <div class="page title-page">
+        <h1 class="title">${escapeXml(story.title)}</h1>
+        <div class="theme-emoji">${theme.emoji}</div>
+        ${authorLine ? `<p class="byline">by ${escapeXml(authorLine)}</p>` : ''}
         ${includeMetadata ? `
         <div class="metadata">
-            <p><strong>Theme:</strong> ${theme.label}</p>
-            <p><strong>Created:</strong> ${new Date(story.created_at).toLocaleDateString()}</p>
+            <p>${theme.label} • Begun ${new Date(story.created_at).toLocaleDateString()}</p>
+            <p>${chapters.length} chapter${chapters.length !== 1 ? 's' : ''}</p>
         </div>
         ` : ''}
+    </div>
 
-        <div class="story-content">
-            ${chapters.map((chapter, index) => `
-            <div class="chapter">
-                <h2 class="chapter-title">Chapter ${chapter.chapter_number}</h2>
-                <p>${chapter.content.replace(/\n/g, '</p><p>')}</p>
-            </div>
-            `).join('')}
-        </div>
+    <div class="page toc">
+        <h2>Contents</h2>
+        <ol>
+            ${chapters.map(chapter => {
+              const author = getChapterAuthor(chapter, assets.authors);
+              return `<li>Chapter ${chapter.chapter_number}${author ? `<span class="toc-author">${escapeXml(author)}</span>` : ''}</li>`;
+            }).join('\n            ')}
+        </ol>
+    </div>
 
-        ${includeInspiration && inspirations.length > 0 ? `
-        <div class="inspirations">
-            <h3>Inspirations</h3>
-            ${inspirations.map(inspiration => `
-            <div class="inspiration-item">${inspiration}</div>
-            `).join('')}
-        </div>
-        ` : ''}
+    ${chapters.map(chapter => {
+      const author = getChapterAuthor(chapter, assets.authors);
+      const images = assets.chapterImages[chapter.id] || [];
+      return `
+    <div class="page chapter">
+        <h2 class="chapter-title">Chapter ${chapter.chapter_number}</h2>
+        ${author ? `<p class="chapter-author">by ${escapeXml(author)}</p>` : ''}
+        ${toParagraphs(chapter.content).map(p => `<p>${escapeXml(p)}</p>`).join('\n        ')}
+        ${images.map(image => `
+        <figure>
+            <img src="${dataUri(image)}" alt="${escapeXml(image.altText || image.caption || '')}" />
+            ${image.caption ? `<figcaption>${escapeXml(image.caption)}</figcaption>` : ''}
+        </figure>`).join('')}
+    </div>`;
+    }).join('')}
+
+    ${includeInspiration && inspirations.length > 0 ? `
+    <div class="page inspirations">
+        <h2>Inspirations</h2>
+        ${inspirations.map(inspiration => `<p class="inspiration-item">💡 ${escapeXml(inspiration)}</p>`).join('\n        ')}
+    </div>
+    ` : ''}
 
-        <div class="footer">
-            <p>Exported from Parallel Story Builder</p>
-        </div>
+    <div class="footer">
+        <p>Exported from Parallel Story Builder</p>
     </div>
 </body>
 </html>`;
+}
 
-  return html;
+function xhtmlPage(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css" />
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * Build an ePub 3 book and return it as base64
+ */
+async function generateEpub(
+  story: Story,
+  chapters: Chapter[],
+  inspirations: string[],
+  options: ExportOptions,
+  assets: ExportBookAssets
+): Promise<string> {
+  const { includeMetadata, includeInspiration } = options;
+  const theme = THEME_INFO[story.theme];
+  const colors = THEME_COLORS[story.theme];
+  const authorNames = [...new Set(chapters.map(c => c.author_id))]
+    .map(id => assets.authors[id])
+    .filter((name): name is string => !!name);
+  const authorLine = authorNames.join(' & ');
+
+  const zip = new JSZip();
+
+  // The mimetype entry must come first and must not be compressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>`);
+
+  zip.file('OEBPS/styles.css', `body { font-family: Georgia, serif; line-height: 1.6; }
+h1, h2 { color: ${colors.primary}; }
+.title-page { text-align: center; margin-top: 20%; }
+.byline, .chapter-author { font-style: italic; color: #666; }
+.chapter p { text-indent: 1.5em; margin: 0 0 0.5em; }
+.cover { text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; }
+figure { margin: 1em 0; text-align: center; }
+figure img { max-width: 100%; }
+figcaption { font-size: 0.9em; color: #666; }`);
+
+  // Manifest items and spine entries, in reading order
+  const manifest: string[] = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />',
+    '<item id="css" href="styles.css" media-type="text/css" />',
+  ];
+  const spine: string[] = [];
+
+  const addImage = (image: ExportImage, properties?: string): string => {
+    const href = `images/${image.id}.${EPUB_IMAGE_EXTENSIONS[image.mimeType]}`;
+    zip.file(`OEBPS/${href}`, image.base64, { base64: true });
+    manifest.push(
+      `<item id="img-${image.id}" href="${href}" media-type="${image.mimeType}"${properties ? ` properties="${properties}"` : ''} />`
+    );
+    return href;
+  };
+
+  if (assets.cover) {
+    const href = addImage(assets.cover, 'cover-image');
+    zip.file('OEBPS/cover.xhtml', xhtmlPage(story.title, `<div class="cover"><img src="${href}" alt="${escapeXml(story.title)} cover" /></div>`));
+    manifest.push('<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml" />');
+    spine.push('<itemref idref="cover" />');
+  }
+
+  zip.file('OEBPS/title.xhtml', xhtmlPage(story.title, `<section class="title-page" epub:type="titlepage">
+  <h1>${escapeXml(story.title)}</h1>
+  <p>${theme.emoji}</p>
+  ${authorLine ? `<p class="byline">by ${escapeXml(authorLine)}</p>` : ''}
+  ${includeMetadata ? `<p>${theme.label} • Begun ${new Date(story.created_at).toLocaleDateString()}</p>` : ''}
+</section>`));
+  manifest.push('<item id="title" href="title.xhtml" media-type="application/xhtml+xml" />');
+  spine.push('<itemref idref="title" />');
+  spine.push('<itemref idref="nav" />');
+
+  const tocEntries: string[] = [];
+  chapters.forEach((chapter, index) => {
+    const file = `chapter-${index + 1}.xhtml`;
+    const heading = `Chapter ${chapter.chapter_number}`;
+    const author = getChapterAuthor(chapter, assets.authors);
+    const figures = (assets.chapterImages[chapter.id] || []).map(image => {
+      const href = addImage(image);
+      return `<figure>
+  <img src="${href}" alt="${escapeXml(image.altText || image.caption || '')}" />
+  ${image.caption ? `<figcaption>${escapeXml(image.caption)}</figcaption>` : ''}
+</figure>`;
+    });
+
+    zip.file(`OEBPS/${file}`, xhtmlPage(heading, `<section class="chapter" epub:type="chapter">
+  <h2>${heading}</h2>
+  ${author ? `<p class="chapter-author">by ${escapeXml(author)}</p>` : ''}
+  ${toParagraphs(chapter.content).map(p => `<p>${escapeXml(p)}</p>`).join('\n  ')}
+  ${figures.join('\n  ')}
+</section>`));
+    manifest.push(`<item id="chapter-${index + 1}" href="${file}" media-type="application/xhtml+xml" />`);
+    spine.push(`<itemref idref="chapter-${index + 1}" />`);
+    tocEntries.push(`<li><a href="${file}">${heading}${author ? ` — ${escapeXml(author)}` : ''}</a></li>`);
+  });
+
+  if (includeInspiration && inspirations.length > 0) {
+    zip.file('OEBPS/inspirations.xhtml', xhtmlPage('Inspirations', `<section epub:type="appendix">
+  <h2>Inspirations</h2>
+  ${inspirations.map(i => `<p>${escapeXml(i)}</p>`).join('\n  ')}
+</section>`));
+    manifest.push('<item id="inspirations" href="inspirations.xhtml" media-type="application/xhtml+xml" />');
+    spine.push('<itemref idref="inspirations" />');
+    tocEntries.push('<li><a href="inspirations.xhtml">Inspirations</a></li>');
+  }
+
+  zip.file('OEBPS/nav.xhtml', xhtmlPage('Contents', `<nav epub:type="toc" id="toc">
+  <h2>Contents</h2>
+  <ol>
+    ${tocEntries.join('\n    ')}
+  </ol>
+</nav>`));
+
+  // dcterms:modified must be UTC without milliseconds
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${story.id}</dc:identifier>
+    <dc:title>${escapeXml(story.title)}</dc:title>
+    <dc:language>en</dc:language>
+    ${authorNames.map(name => `<dc:creator>${escapeXml(name)}</dc:creator>`).join('\n    ')}
+    <dc:publisher>Parallel Story Builder</dc:publisher>
+    <meta property="dcterms:modified">${modified}</meta>
+    ${assets.cover ? `<meta name="cover" content="img-${assets.cover.id}" />` : ''}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>`);
+
+  return zip.generateAsync({
+    type: 'base64',
+    mimeType: 'application/epub+zip',
+    compression: 'DEFLATE',
+  });
 }
 
 function getFileExtension(format: ExportFormat): string {
   switch (format) {
     case 'pdf':
-      return 'html';
+      return 'pdf';
+    case 'epub':
+      return 'epub';
     case 'markdown':
       return 'md';
     case 'text':
@@ -281,7 +710,9 @@ function getFileExtension(format: ExportFormat): string {
 function getMimeType(format: ExportFormat): string {
   switch (format) {
     case 'pdf':
-      return 'text/html';
+      return 'application/pdf';
+    case 'epub':
+      return 'application/epub+zip';
     case 'markdown':
       return 'text/markdown';
     case 'text':
@@ -291,11 +722,24 @@ function getMimeType(format: ExportFormat): string {
   }
 }
 
+// iOS share sheet type identifiers
+function getUTI(format: ExportFormat): string {
+  switch (format) {
+    case 'pdf':
+      return 'com.adobe.pdf';
+    case 'epub':
+      return 'org.idpf.epub-container';
+    default:
+      return 'public.plain-text';
+  }
+}
+
 export async function previewExportContent(
   story: Story,
   chapters: Chapter[],
   inspirations: string[],
-  options: ExportOptions
+  options: ExportOptions,
+  assets?: ExportBookAssets
 ): Promise<string> {
-  return generateStoryContent(story, chapters, inspirations, options);
-}
\ No newline at end of file
+  return generateStoryContent(story, chapters, inspirations, options, assets);
+}
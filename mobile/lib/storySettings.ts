@@ -0,0 +1,73 @@
+/**
+ * Story Settings
+ *
+ * The rules a story's writers agree on: how turns work, how long a
+ * chapter may be, whether AI enhancement is allowed, the content rating and
+ * how many chapters they are aiming for. The server enforces them on every
+ * chapter write; these helpers let the screens explain them up front.
+ */
+
+import type { ContentRating, Story, StorySettings, TurnMode } from './types';
+
+export const DEFAULT_STORY_SETTINGS: StorySettings = {
+  turnMode: 'timed',
+  minChapterWords: 0,
+  maxChapterWords: null,
+  aiEnhancementAllowed: true,
+  contentRating: 'general',
+  targetChapters: null,
+};
+
+export const TURN_MODE_OPTIONS: { value: TurnMode; label: string; description: string }[] = [
+  { value: 'timed', label: 'Timed turns', description: 'Take turns; a turn passes on once its deadline and grace period run out' },
+  { value: 'alternate', label: 'Strict turns', description: 'Take turns with no deadline' },
+  { value: 'free', label: 'Free for all', description: 'Anyone can write whenever they like' },
+];
+
+export const CONTENT_RATING_OPTIONS: { value: ContentRating; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'teen', label: 'Teen' },
+  { value: 'mature', label: 'Mature' },
+];
+
+export const MIN_WORD_OPTIONS = [0, 50, 100, 250, 500];
+// null: no limit
+export const MAX_WORD_OPTIONS: (number | null)[] = [null, 300, 500, 1000, 2000];
+export const TARGET_CHAPTER_OPTIONS: (number | null)[] = [null, 10, 20, 30, 50];
+
+// How many writers can join with the pairing code; the server allows 2 to 8
+export const GROUP_SIZE_OPTIONS = [2, 3, 4, 5, 6, 8];
+export const DEFAULT_MAX_MEMBERS = 2;
+
+export const getMaxMembers = (story: Story): number => story.max_members ?? DEFAULT_MAX_MEMBERS;
+
+export const getStorySettings = (story: Story): StorySettings => ({
+  turnMode: story.turn_mode ?? DEFAULT_STORY_SETTINGS.turnMode,
+  minChapterWords: story.min_chapter_words ?? DEFAULT_STORY_SETTINGS.minChapterWords,
+  maxChapterWords: story.max_chapter_words ?? DEFAULT_STORY_SETTINGS.maxChapterWords,
+  aiEnhancementAllowed: story.ai_enhancement_allowed ?? DEFAULT_STORY_SETTINGS.aiEnhancementAllowed,
+  contentRating: story.content_rating ?? DEFAULT_STORY_SETTINGS.contentRating,
+  targetChapters: story.target_chapters ?? DEFAULT_STORY_SETTINGS.targetChapters,
+});
+
+/**
+ * Words in a chapter, ignoring rich text markup. Matches the server's count.
+ */
+export const countWords = (text: string): number => {
+  const plain = text.replace(/<[^>]*>/g, ' ').trim();
+  return plain ? plain.split(/\s+/).length : 0;
+};
+
+/**
+ * Why a chapter of this text cannot be submitted, or null when it fits.
+ */
+export const validateChapterLength = (text: string, settings: StorySettings): string | null => {
+  const words = countWords(text);
+  if (words < settings.minChapterWords) {
+    return `Chapters in this story need at least ${settings.minChapterWords} words (this one has ${words})`;
+  }
+  if (settings.maxChapterWords !== null && words > settings.maxChapterWords) {
+    return `Chapters in this story can be at most ${settings.maxChapterWords} words (this one has ${words})`;
+  }
+  return null;
+};
@@ -0,0 +1,74 @@
+/**
+ * Story Turns
+ *
+ * A turn is due turn_deadline_hours after it starts, and after a further
+ * turn_grace_hours the server passes it to the next writer. These helpers
+ * work out where a story's current turn stands from the story row, so the
+ * screens and the reminder scheduler agree on the times.
+ */
+
+import type { Story, TurnSettings } from './types';
+
+export const DEFAULT_TURN_SETTINGS: TurnSettings = {
+  deadlineHours: 24,
+  graceHours: 12,
+  reminderHours: [6, 1],
+};
+
+export const DEADLINE_HOUR_OPTIONS = [12, 24, 48, 72, 168];
+export const GRACE_HOUR_OPTIONS = [0, 6, 12, 24];
+export const REMINDER_HOUR_OPTIONS = [24, 12, 6, 3, 1];
+export const MAX_TURN_REMINDERS = 4;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type TurnPhase = 'on_time' | 'grace' | 'expired';
+
+export interface TurnDeadline {
+  startedAt: Date;
+  deadline: Date;
+  graceEndsAt: Date;
+  phase: TurnPhase;
+}
+
+export const getTurnSettings = (story: Story): TurnSettings => ({
+  deadlineHours: story.turn_deadline_hours ?? DEFAULT_TURN_SETTINGS.deadlineHours,
+  graceHours: story.turn_grace_hours ?? DEFAULT_TURN_SETTINGS.graceHours,
+  reminderHours: story.turn_reminder_hours ?? DEFAULT_TURN_SETTINGS.reminderHours,
+});
+
+/**
+ * Where the current turn stands. Null when nobody holds the turn.
+ */
+export const getTurnDeadline = (story: Story, now: Date = new Date()): TurnDeadline | null => {
+  if (!story.current_turn || !story.turn_started_at) return null;
+
+  const { deadlineHours, graceHours } = getTurnSettings(story);
+  const startedAt = new Date(story.turn_started_at);
+  const deadline = new Date(startedAt.getTime() + deadlineHours * HOUR_MS);
+  const graceEndsAt = new Date(deadline.getTime() + graceHours * HOUR_MS);
+
+  const phase: TurnPhase = now < deadline ? 'on_time' : now < graceEndsAt ? 'grace' : 'expired';
+  return { startedAt, deadline, graceEndsAt, phase };
+};
+
+/**
+ * "5h", "2d 3h", "40m": time left until `until`, or "0m" once it has passed.
+ */
+export const formatTimeLeft = (until: Date, now: Date = new Date()): string => {
+  const minutes = Math.max(0, Math.floor((until.getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+
+  const days = Math.floor(hours / 24);
+  const restHours = hours % 24;
+  return restHours > 0 ? `${days}d ${restHours}h` : `${days}d`;
+};
+
+export const formatHourOption = (hours: number): string => {
+  if (hours === 0) return 'None';
+  if (hours % 24 === 0) return hours === 24 ? '1 day' : `${hours / 24} days`;
+  return `${hours}h`;
+};
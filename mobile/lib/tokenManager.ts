@@ -1,14 +1,8 @@
 import { supabase } from './supabase';
+import type { StoreProvider, TokenPurchase, TokenTransaction } from './types';
+import { buildStatement, getMonthPeriod, TokenStatement } from './tokenStatement';
 
-export interface TokenTransaction {
-  id: string;
-  user_id: string;
-  amount: number;
-  type: 'earned' | 'spent';
-  description: string;
-  created_at: string;
-  metadata?: Record<string, any>;
-}
+export type { TokenTransaction };
 
 export interface PurchaseOption {
   id: string;
@@ -16,16 +10,58 @@ export interface PurchaseOption {
   tokens: number;
   price: number;
   currency: string;
+  description: string;
 }
 
+// For display. What a verified purchase pays comes from token_packs on the server.
 export const PURCHASE_OPTIONS: PurchaseOption[] = [
-  { id: 'starter', name: 'Starter', tokens: 100, price: 0.99, currency: 'USD' },
-  { id: 'monthly', name: 'Monthly', tokens: 500, price: 3.99, currency: 'USD' },
-  { id: 'devoted', name: 'Devoted', tokens: 1200, price: 7.99, currency: 'USD' },
-  { id: 'eternal', name: 'Eternal', tokens: 3000, price: 14.99, currency: 'USD' },
-  { id: 'annual', name: 'Annual', tokens: 15000, price: 49.99, currency: 'USD' },
+  { id: 'starter', name: 'Starter', tokens: 100, price: 0.99, currency: 'USD', description: 'Perfect for beginners' },
+  { id: 'monthly', name: 'Monthly', tokens: 500, price: 3.99, currency: 'USD', description: 'Most popular' },
+  { id: 'devoted', name: 'Devoted', tokens: 1200, price: 7.99, currency: 'USD', description: 'For regular writers' },
+  { id: 'eternal', name: 'Eternal', tokens: 3000, price: 14.99, currency: 'USD', description: 'Best value' },
+  { id: 'annual', name: 'Annual', tokens: 15000, price: 49.99, currency: 'USD', description: 'For serious writers' },
 ];
 
+// Creating a story costs a token when the writer has one. It is charged once
+// the story exists online, keyed by the story id.
+export const STORY_CREATION_COST = 1;
+
+export interface SpendOptions {
+  featureType: string;
+  storyId?: string;
+  chapterId?: string;
+  metadata?: Record<string, any>;
+  // Pass the same key when retrying, so the spend is only charged once
+  idempotencyKey?: string;
+}
+
+export interface LedgerResult {
+  success: boolean;
+  error?: string;
+  transactionId?: string;
+  balance?: number;
+  replayed?: boolean;
+}
+
+/**
+ * Key for one spend. Create it once per user action and reuse it on retries.
+ */
+export const createIdempotencyKey = (scope: string): string =>
+  `${scope}:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const toLedgerResult = (data: any, error: { message: string } | null): LedgerResult => {
+  if (error) return { success: false, error: error.message };
+  if (!data?.success) return { success: false, error: data?.error || 'Token transaction failed' };
+  return {
+    success: true,
+    transactionId: data.transaction_id,
+    balance: data.balance,
+    replayed: data.replayed,
+  };
+};
+
+// Balances only change on the server, through the ledger functions in
+// 20240116000008_token_ledger.sql. The client reads them and asks for spends.
 export class TokenManager {
   static async getTokenBalance(userId: string): Promise<number> {
     try {
@@ -33,21 +69,11 @@ export class TokenManager {
         .from('user_tokens')
         .select('balance')
         .eq('user_id', userId)
-        .single();
-
-      if (error && error.code === 'PGRST116') {
-        // No record exists, create one with default balance
-        const { data: newRecord } = await supabase
-          .from('user_tokens')
-          .insert([{ user_id: userId, balance: 0 }])
-          .select()
-          .single();
-
-        return newRecord?.balance || 0;
-      }
+        .maybeSingle();
 
       if (error) throw error;
 
+      // No account yet means nothing was ever earned
       return data?.balance || 0;
     } catch (error) {
       console.error('Error fetching token balance:', error);
@@ -55,80 +81,76 @@ export class TokenManager {
     }
   }
 
-  static async addTokens(
+  static async spendTokens(
     userId: string,
     amount: number,
     description: string,
-    metadata?: Record<string, any>
-  ): Promise<boolean> {
-    try {
-      // Get current balance
-      const currentBalance = await this.getTokenBalance(userId);
-
-      // Update balance
-      const { error } = await supabase
-        .from('user_tokens')
-        .update({ balance: currentBalance + amount })
-        .eq('user_id', userId);
-
-      if (error) throw error;
-
-      // Record transaction
-      await supabase
-        .from('token_transactions')
-        .insert([{
-          user_id: userId,
-          amount,
-          type: 'earned',
-          description,
-          metadata,
-        }]);
-
-      return true;
-    } catch (error) {
-      console.error('Error adding tokens:', error);
-      return false;
+    options: SpendOptions
+  ): Promise<LedgerResult> {
+    const { data, error } = await supabase.rpc('spend_tokens', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_description: description,
+      p_feature_type: options.featureType,
+      p_idempotency_key: options.idempotencyKey || createIdempotencyKey(options.featureType),
+      p_story_id: options.storyId ?? null,
+      p_chapter_id: options.chapterId ?? null,
+      p_metadata: options.metadata ?? {},
+    });
+
+    const result = toLedgerResult(data, error);
+    if (!result.success) {
+      console.error('Error spending tokens:', result.error);
     }
+    return result;
   }
 
-  static async spendTokens(
-    userId: string,
-    amount: number,
-    description: string,
-    metadata?: Record<string, any>
-  ): Promise<boolean> {
-    try {
-      // Get current balance
-      const currentBalance = await this.getTokenBalance(userId);
-
-      if (currentBalance < amount) {
-        throw new Error('Insufficient token balance');
-      }
-
-      // Update balance
-      const { error } = await supabase
-        .from('user_tokens')
-        .update({ balance: currentBalance - amount })
-        .eq('user_id', userId);
+  /**
+   * Records a pending purchase before the store sheet opens
+   */
+  static async createPurchase(
+    packId: string,
+    store: StoreProvider,
+    idempotencyKey: string
+  ): Promise<TokenPurchase> {
+    const { data, error } = await supabase.rpc('create_token_purchase', {
+      p_pack_id: packId,
+      p_provider: store,
+      p_idempotency_key: idempotencyKey,
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Could not start the purchase');
+    return data.purchase;
+  }
 
-      if (error) throw error;
+  static async cancelPurchase(purchaseId: string): Promise<void> {
+    const { error } = await supabase.rpc('cancel_token_purchase', { p_purchase_id: purchaseId });
+    if (error) {
+      console.error('Error canceling purchase:', error);
+    }
+  }
 
-      // Record transaction
-      await supabase
-        .from('token_transactions')
-        .insert([{
-          user_id: userId,
-          amount: -amount,
-          type: 'spent',
-          description,
-          metadata,
-        }]);
-
-      return true;
-    } catch (error) {
-      console.error('Error spending tokens:', error);
-      return false;
+  /**
+   * Sends the store receipt to verify-purchase, which credits the tokens once
+   * the store confirms it. Safe to retry with the same receipt.
+   */
+  static async verifyPurchase(
+    purchaseId: string,
+    receipt: string,
+    transactionId?: string
+  ): Promise<LedgerResult> {
+    const { data, error } = await supabase.functions.invoke('verify-purchase', {
+      body: { purchaseId, receipt, transactionId },
+    });
+
+    if (error) {
+      // A rejected receipt comes back as a non-2xx answer with the reason in the body
+      const body = await error.context?.json?.().catch(() => null);
+      return { success: false, error: body?.error || error.message };
     }
+    if (!data?.success) return { success: false, error: data?.error || 'Could not verify the purchase' };
+    return { success: true, balance: data.data.balance, replayed: data.data.replayed };
   }
 
   static async getTransactionHistory(userId: string, limit: number = 50): Promise<TokenTransaction[]> {
@@ -149,6 +171,22 @@ export class TokenManager {
     }
   }
 
+  /**
+   * The statement for the month containing `month`
+   */
+  static async getStatement(month: Date): Promise<TokenStatement> {
+    const { from, to } = getMonthPeriod(month);
+    const { data, error } = await supabase.rpc('get_token_statement', {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Failed to load token statement');
+
+    return buildStatement(from, to, data.opening_balance, data.closing_balance, data.transactions || []);
+  }
+
   static async recordDailyActivity(userId: string): Promise<void> {
     try {
       // Check if activity already recorded today
@@ -0,0 +1,200 @@
+/**
+ * Token Statement
+ *
+ * A monthly view of the token ledger: what the writer spent on each feature,
+ * what they earned and where from, and the balance going in and out. The
+ * server returns the month's transactions (get_token_statement); grouping and
+ * the CSV export happen here.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { TokenTransaction } from './types';
+
+export interface StatementLine {
+  key: string;
+  label: string;
+  amount: number; // Always positive; spending and earnings are listed apart
+  count: number;
+}
+
+export interface TokenStatement {
+  from: string;
+  to: string;
+  openingBalance: number;
+  closingBalance: number;
+  earned: number;
+  spent: number;
+  spending: StatementLine[];
+  earnings: StatementLine[];
+  transactions: TokenTransaction[]; // Newest first
+}
+
+// feature_type values written by the edge functions and RPCs
+const FEATURE_LABELS: Record<string, string> = {
+  'ai-enhance': 'AI enhance',
+  'ai-continuation': 'Story continuation',
+  'ai-twist': 'Plot twists',
+  'ai-branch': 'Branch choices',
+  'ai-plot-weaver': 'Plot Weaver',
+  'ai-cover-art': 'Cover art',
+  'ai-character-avatar': 'Character avatars',
+  'ai-story-summary': 'Story summaries',
+  'ai-narrative-analysis': 'Narrative analysis',
+  'ai-style-transfer': 'Style transfer',
+  'ai-character-consistency': 'Consistency checks',
+  'narrate-chapter': 'Narration',
+  export: 'Book exports',
+  story: 'New stories',
+  relationship: 'Relationships',
+  milestone: 'Milestones',
+  couple_wallet: 'Couple wallet',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  achievement: 'Achievements',
+  referral: 'Referrals',
+  gift: 'Gifts',
+  purchase: 'Purchases',
+  signup: 'Welcome bonus',
+  allowance: 'Monthly allowance',
+  other: 'Other',
+};
+
+export const getFeatureLabel = (featureType: string | null): string => {
+  if (!featureType) return 'Other';
+  return FEATURE_LABELS[featureType]
+    || featureType.replace(/^ai-/, '').replace(/[-_]/g, ' ').replace(/^\w/, c => c.toUpperCase());
+};
+
+// Gifts are counted by direction, whichever way they were made
+const getSpendingKey = (transaction: TokenTransaction): string => {
+  if (transaction.type === 'gift') return 'gifts_sent';
+  return transaction.feature_type || 'other';
+};
+
+const getEarningKey = (transaction: TokenTransaction): string => {
+  if (transaction.type === 'gift') return 'gift';
+  if (transaction.type === 'purchase') return 'purchase';
+  if (transaction.feature_type && transaction.feature_type in SOURCE_LABELS) return transaction.feature_type;
+  return 'other';
+};
+
+/**
+ * The month containing `date`, in the device's time zone
+ */
+export const getMonthPeriod = (date: Date): { from: Date; to: Date } => ({
+  from: new Date(date.getFullYear(), date.getMonth(), 1),
+  to: new Date(date.getFullYear(), date.getMonth() + 1, 1),
+});
+
+export const formatStatementMonth = (date: Date): string =>
+  date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+export const buildStatement = (
+  from: Date,
+  to: Date,
+  openingBalance: number,
+  closingBalance: number,
+  transactions: TokenTransaction[]
+): TokenStatement => {
+  const spending = new Map<string, StatementLine>();
+  const earnings = new Map<string, StatementLine>();
+
+  const add = (lines: Map<string, StatementLine>, key: string, label: string, amount: number, count = 1) => {
+    const line = lines.get(key) || { key, label, amount: 0, count: 0 };
+    line.amount += amount;
+    line.count += count;
+    lines.set(key, line);
+  };
+
+  for (const transaction of transactions) {
+    // Rows from before the ledger have no type and mixed signs; they are
+    // listed but not grouped
+    if (!transaction.type) continue;
+
+    if (transaction.type === 'refund') {
+      // A refund cancels a spend, so it lowers that feature's total
+      add(spending, transaction.feature_type || 'other', getFeatureLabel(transaction.feature_type), -transaction.amount, -1);
+    } else if (transaction.type === 'purchase' && transaction.amount < 0) {
+      // A refunded store purchase takes its tokens back out of purchases
+      add(earnings, 'purchase', SOURCE_LABELS.purchase, transaction.amount, -1);
+    } else if (transaction.amount < 0) {
+      const key = getSpendingKey(transaction);
+      add(spending, key, key === 'gifts_sent' ? 'Gifts sent' : getFeatureLabel(transaction.feature_type), -transaction.amount);
+    } else {
+      const key = getEarningKey(transaction);
+      add(earnings, key, SOURCE_LABELS[key], transaction.amount);
+    }
+  }
+
+  const sorted = (lines: Map<string, StatementLine>) =>
+    Array.from(lines.values())
+      .filter(line => line.amount > 0)
+      .sort((a, b) => b.amount - a.amount);
+
+  const spendingLines = sorted(spending);
+  const earningLines = sorted(earnings);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    openingBalance,
+    closingBalance,
+    earned: earningLines.reduce((sum, line) => sum + line.amount, 0),
+    spent: spendingLines.reduce((sum, line) => sum + line.amount, 0),
+    spending: spendingLines,
+    earnings: earningLines,
+    transactions,
+  };
+};
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per transaction, oldest first, with the balance after each
+ */
+export const statementToCsv = (statement: TokenStatement): string => {
+  const rows: (string | number)[][] = [['Date', 'Type', 'Feature', 'Description', 'Amount', 'Balance']];
+
+  let balance = statement.openingBalance;
+  for (const transaction of [...statement.transactions].reverse()) {
+    balance += transaction.amount;
+    rows.push([
+      transaction.created_at,
+      transaction.type || 'legacy',
+      transaction.feature_type || '',
+      transaction.description,
+      transaction.amount,
+      balance,
+    ]);
+  }
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+/**
+ * Write the statement to a CSV file and open the share sheet
+ */
+export async function shareStatementCsv(statement: TokenStatement): Promise<void> {
+  const from = new Date(statement.from);
+  const month = `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, '0')}`;
+  const fileUri = FileSystem.documentDirectory + `token_statement_${month}.csv`;
+
+  await FileSystem.writeAsStringAsync(fileUri, statementToCsv(statement), {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(fileUri, {
+      mimeType: 'text/csv',
+      dialogTitle: `Token statement ${month}`,
+      UTI: 'public.comma-separated-values-text',
+    });
+  } else {
+    console.error('Sharing is not available on this device');
+  }
+}
@@ -4,6 +4,8 @@ import { User } from '@supabase/supabase-js';
 export type Theme = 'romance' | 'fantasy' | 'our_future';
 export type StoryStatus = 'active' | 'paused' | 'completed';
 export type MemberRole = 'creator' | 'partner';
+export type TurnMode = 'alternate' | 'free' | 'timed';
+export type ContentRating = 'general' | 'teen' | 'mature';
 
 // Database table interfaces
 export interface Profile {
@@ -26,14 +28,59 @@ export interface Story {
   pairing_code: string;
   status: StoryStatus;
   current_turn: string | null;
+  turn_started_at?: string | null;
+  turn_deadline_hours?: number;
+  turn_grace_hours?: number;
+  turn_reminder_hours?: number[]; // Hours before the deadline
+  turn_mode?: TurnMode;
+  min_chapter_words?: number;
+  max_chapter_words?: number | null;
+  ai_enhancement_allowed?: boolean;
+  content_rating?: ContentRating;
+  target_chapters?: number | null;
+  max_members?: number;
+  cover_image_url?: string | null;
   created_at: string;
+  updated_at?: string;
+}
+
+export type TurnOutcome = 'written' | 'skipped' | 'passed' | 'expired';
+
+// One turn in a story; outcome and ended_at are null while it is open
+export interface StoryTurn {
+  id: string;
+  story_id: string;
+  user_id: string;
+  started_at: string;
+  deadline_at: string;
+  grace_ends_at: string;
+  ended_at: string | null;
+  outcome: TurnOutcome | null;
+  chapter_id: string | null;
+  passed_to: string | null;
+}
+
+export interface TurnSettings {
+  deadlineHours: number;
+  graceHours: number;
+  reminderHours: number[];
+}
+
+// The rules a couple agrees on for one story
+export interface StorySettings {
+  turnMode: TurnMode;
+  minChapterWords: number;
+  maxChapterWords: number | null; // null: no limit
+  aiEnhancementAllowed: boolean;
+  contentRating: ContentRating;
+  targetChapters: number | null; // null: open-ended
 }
 
 export interface StoryMember {
   story_id: string;
   user_id: string;
   role: MemberRole;
-  turn_order: 1 | 2 | null;
+  turn_order: number | null; // Position in the turn order, 1 writes first
   joined_at: string;
 }
 
@@ -45,8 +92,87 @@ export interface Chapter {
   content: string;
   ai_enhanced_content: string | null;
   context_snippet: string | null;
+  parent_chapter_id: string | null;
+  choice_id: string | null;
   created_at: string;
+  updated_at?: string;
+  // Members who wrote it with the author in a co-writing session
+  co_author_ids?: string[];
   media?: ChapterMedia[];
+  choices?: ChapterChoice[];
+}
+
+// A choice offered at the end of a chapter; the next chapter continues one of them
+export interface ChapterChoice {
+  id: string;
+  chapter_id: string;
+  story_id: string;
+  position: number;
+  title: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type ChapterChoiceDraft = Pick<ChapterChoice, 'title' | 'description'>;
+
+export type ChapterRevisionReason = 'created' | 'edited' | 'restored' | 'resolved';
+
+// One version of a chapter's text, recorded on every change
+export interface ChapterRevision {
+  id: string;
+  chapter_id: string;
+  story_id: string;
+  revision_number: number;
+  content: string;
+  ai_enhanced_content: string | null;
+  context_snippet: string | null;
+  reason: ChapterRevisionReason;
+  restored_from: string | null;
+  edited_by: string | null;
+  created_at: string;
+}
+
+// Why a chapter written offline could not go where it was written for:
+// someone else continued the same place, the turn moved on, or the chapter
+// it continued is gone
+export type ChapterConflictReason = 'taken' | 'turn' | 'missing' | 'rules';
+
+export type ChapterConflictResolution = 'keep_existing' | 'keep_offline' | 'merge' | 'branch';
+
+// A chapter set aside on sync until the couple decides what to do with it.
+// The id is the chapter id the writer's device gave it.
+export interface ChapterConflict {
+  id: string;
+  story_id: string;
+  author_id: string;
+  parent_chapter_id: string | null;
+  choice_id: string | null;
+  existing_chapter_id: string | null;
+  content: string;
+  ai_enhanced_content: string | null;
+  context_snippet: string | null;
+  choices: ChapterChoiceDraft[] | null;
+  reason: ChapterConflictReason;
+  // What the story's rules refused, for 'rules'
+  refusal: string | null;
+  // Set when the chapter was written in a co-writing session
+  co_author_ids: string[];
+  content_rich: RichTextContent | null;
+  status: 'open' | 'resolved';
+  resolution: ChapterConflictResolution | null;
+  chapter_id: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+// Chapter with its place in the story tree
+export interface ChapterNode extends Chapter {
+  choices: ChapterChoice[];
+  choice: ChapterChoice | null;
+  children: ChapterNode[];
 }
 
 export interface Inspiration {
@@ -55,7 +181,76 @@ export interface Inspiration {
   user_id: string;
   content: string;
   created_at: string;
+  updated_at?: string;
   media?: Media[];
+  // Set once a chapter weaves this inspiration in (see the Plot Weaver)
+  woven_chapter_id?: string | null;
+  woven_at?: string | null;
+  woven_by?: string | null;
+  woven_chapter?: Pick<Chapter, 'id' | 'chapter_number'> | null;
+}
+
+// Book export rendered by the export-worker edge function
+export type ExportJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ExportJob {
+  id: string;
+  story_id: string;
+  requested_by: string;
+  format: 'pdf' | 'epub';
+  options: {
+    includeMetadata?: boolean;
+    includeInspiration?: boolean;
+    includeImages?: boolean;
+  };
+  chapter_ids: string[];
+  trigger: 'manual' | 'milestone';
+  rule_id: string | null;
+  milestone_title: string | null;
+  status: ExportJobStatus;
+  progress: number;
+  error: string | null;
+  storage_path: string | null;
+  download_url: string | null;
+  download_expires_at: string | null;
+  tokens_charged: number;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+// Exports a book automatically when the story reaches a milestone
+export type AutoBookTrigger = 'every_n_chapters' | 'story_completed';
+
+export interface AutoBookRule {
+  id: string;
+  story_id: string;
+  created_by: string;
+  trigger_type: AutoBookTrigger;
+  chapter_interval: number | null;
+  format: 'pdf' | 'epub';
+  include_images: boolean;
+  enabled: boolean;
+  last_triggered_chapter_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Narration voices, picked per story for the narrator, each partner and each character
+export type NarrationSpeakerType = 'narrator' | 'partner' | 'character';
+
+export interface StoryVoice {
+  id: string;
+  story_id: string;
+  speaker_type: NarrationSpeakerType;
+  speaker_id: string | null; // Profile id for partners, story_characters id for characters
+  provider: string;
+  voice_id: string;
+  speaking_rate: number;
+  updated_by: string;
+  created_at: string;
+  updated_at: string;
 }
 
 // Composite types for queries
@@ -64,6 +259,7 @@ export interface StoryWithMembers extends Story {
     profile: Profile;
   })[];
   chapters?: Chapter[];
+  chapterTree?: ChapterNode | null;
   updated_at?: string;
 }
 
@@ -98,6 +294,11 @@ export type Database = {
         Insert: Omit<Chapter, 'id' | 'created_at'>;
         Update: Partial<Omit<Chapter, 'id' | 'created_at'>>;
       };
+      chapter_choices: {
+        Row: ChapterChoice;
+        Insert: Omit<ChapterChoice, 'id' | 'created_at'>;
+        Update: Partial<Omit<ChapterChoice, 'id' | 'created_at'>>;
+      };
       inspirations: {
         Row: Inspiration;
         Insert: Omit<Inspiration, 'id' | 'created_at'>;
@@ -177,11 +378,6 @@ export type Database = {
         Insert: Omit<AnalyticsEvent, 'id' | 'created_at'>;
         Update: Partial<Omit<AnalyticsEvent, 'id' | 'created_at'>>;
       };
-      offline_actions: {
-        Row: OfflineAction;
-        Insert: OfflineAction;
-        Update: Partial<OfflineAction>;
-      };
       user_preferences: {
         Row: UserPreferencesFull;
         Insert: Partial<UserPreferencesFull>;
@@ -258,19 +454,119 @@ export interface Presence {
 }
 
 // Tokens & Monetization
-export type TransactionType = 'purchase' | 'spend' | 'bonus' | 'gift';
+export type TransactionType = 'earn' | 'spend' | 'gift' | 'purchase' | 'bonus' | 'refund' | 'adjustment';
 export interface UserTokens {
   user_id: string;
   balance: number;
   purchased_total: number;
   last_earned_at: string;
 }
+// One ledger row. Spends are negative; the balance is the sum of all rows
 export interface TokenTransaction {
   id: string;
   user_id: string;
   amount: number;
-  type: TransactionType;
+  type: TransactionType | null; // null on rows from before the ledger
   feature_type: string | null;
+  description: string;
+  story_id: string | null;
+  chapter_id: string | null;
+  idempotency_key: string | null;
+  reverses_id: string | null; // Set on refunds
+  metadata: Record<string, any> | null;
+  created_at: string;
+}
+
+// A spark pack bought from a store; credited once the receipt is verified
+export type StoreProvider = 'stub' | 'app_store' | 'play_store';
+export type TokenPurchaseStatus = 'pending' | 'credited' | 'failed' | 'refunded' | 'charged_back';
+export interface TokenPurchase {
+  id: string;
+  user_id: string;
+  pack_id: string;
+  tokens: number;
+  provider: StoreProvider;
+  status: TokenPurchaseStatus;
+  provider_transaction_id: string | null;
+  transaction_id: string | null;
+  reversal_transaction_id: string | null;
+  reversal_shortfall: number;
+  failure_reason: string | null;
+  created_at: string;
+  credited_at: string | null;
+  reversed_at: string | null;
+}
+
+// Plans. What each tier unlocks comes from the server (get_entitlements)
+export type SubscriptionTier = 'free' | 'premium';
+export type EntitlementFeatureKey =
+  | 'branches'
+  | 'advanced_twists'
+  | 'voice_packs'
+  | 'premium_art_styles'
+  | 'monthly_tokens';
+export interface FeatureEntitlement {
+  feature: EntitlementFeatureKey;
+  name: string;
+  description: string;
+  gated_values: string[] | null; // Options that need the feature; null gates all of it
+  granted: boolean;
+  quota: number | null; // null means unlimited
+}
+export interface SubscriptionProduct {
+  id: string;
+  tier: Exclude<SubscriptionTier, 'free'>;
+  name: string;
+  billing_period: string;
+}
+export interface Subscription {
+  id: string;
+  user_id: string;
+  product_id: string;
+  tier: Exclude<SubscriptionTier, 'free'>;
+  provider: StoreProvider;
+  provider_transaction_id: string;
+  status: 'active' | 'canceled' | 'expired' | 'refunded';
+  auto_renew: boolean;
+  current_period_start: string;
+  current_period_end: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A token pool shared by the two partners of a relationship
+export type CoupleWalletStatus = 'pending' | 'active' | 'closed';
+export interface CoupleWallet {
+  id: string;
+  relationship_id: string;
+  balance: number;
+  status: CoupleWalletStatus; // pending until the partner accepts
+  created_by: string;
+  created_at: string;
+  activated_at: string | null;
+  closed_at: string | null;
+}
+export interface CoupleWalletMember {
+  wallet_id: string;
+  user_id: string;
+  monthly_cap: number | null; // null means no cap
+  contributed_total: number;
+  joined_at: string | null; // null until the partner opts in
+}
+// Signed like the ledger: funding is positive, spends and the final split negative
+export type CoupleWalletTransactionType = 'fund' | 'spend' | 'refund' | 'split';
+export interface CoupleWalletTransaction {
+  id: string;
+  wallet_id: string;
+  user_id: string;
+  amount: number;
+  type: CoupleWalletTransactionType;
+  feature_type: string | null;
+  description: string;
+  story_id: string | null;
+  chapter_id: string | null;
+  idempotency_key: string | null;
+  reverses_id: string | null;
   created_at: string;
 }
 
@@ -284,6 +580,28 @@ export interface Relationship {
   started_at: string;
 }
 
+// One day of relationship_snapshots: the seven days ending on snapshot_date.
+// Tone values are matching words per 1000 words; the nullable metrics are
+// null when nothing was written in the window.
+export interface RelationshipSnapshot {
+  id: string;
+  relationship_id: string;
+  snapshot_date: string;
+  chapters_count: number;
+  user_1_chapters: number;
+  user_2_chapters: number;
+  user_1_words: number;
+  user_2_words: number;
+  writing_balance: number | null;
+  avg_response_hours: number | null;
+  responses_count: number;
+  positivity: number | null;
+  engagement: number | null;
+  depth: number | null;
+  active_stories: number;
+  created_at: string;
+}
+
 // Gamification
 export interface UserAchievement {
   id: string;
@@ -344,6 +662,21 @@ export interface StoryCharacter {
   style?: 'realistic' | 'cartoon' | 'anime' | 'fantasy';
 }
 
+// Story bible: notes kept alongside the chapters. The built-in sections
+// exist once per story; custom ones can be added and removed.
+export type StoryBibleSectionKind = 'world' | 'places' | 'timeline' | 'inside_jokes' | 'plot_points' | 'custom';
+export interface StoryBibleSection {
+  id: string;
+  story_id: string;
+  kind: StoryBibleSectionKind;
+  title: string;
+  content: string;
+  position: number;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Notifications
 export type NotificationPreferenceKey = 'new_chapter' | 'partner_joined' | 'ai_reminder' | 'daily_intention' | 'weekly_highlights';
 export interface NotificationPreferences {
@@ -403,16 +736,104 @@ export interface RelationshipBlueprint {
 }
 
 // Offline & Error
-export type OfflineActionType = 'CREATE_CHAPTER' | 'JOIN_STORY' | 'UPDATE_PROFILE' | 'CREATE_STORY';
-export interface OfflineAction {
-  id: string;
-  type: OfflineActionType;
-  payload: any;
-  timestamp: number;
-  retries: number;
-  maxRetries: number;
-  status: 'pending' | 'failed' | 'synced';
-  metadata?: Record<string, any>;
+
+// Tables the outbox writes plain rows to
+export type OutboxTable =
+  | 'profiles'
+  | 'user_preferences'
+  | 'notifications'
+  | 'drafts'
+  | 'media_attachments'
+  | 'story_relationships'
+  | 'relationships'
+  | 'daily_intentions'
+  | 'milestones'
+  | 'relationship_questions'
+  | 'partner_insights';
+
+// A write made while offline, replayed against the server in order
+export type OutboxMutation =
+  | {
+      type: 'create_story';
+      // Includes the client-generated id
+      story: Pick<Story, 'id' | 'title' | 'theme' | 'pairing_code' | 'created_by' | 'status' | 'current_turn'>
+        & Partial<Story>;
+    }
+  | {
+      type: 'submit_chapter';
+      chapterId: string;
+      storyId: string;
+      content: string;
+      parentChapterId: string | null;
+      choiceId: string | null;
+      contextSnippet: string | null;
+      aiEnhancedContent: string | null;
+      choices: ChapterChoiceDraft[] | null;
+      inspirationIds: string[] | null;
+      // Set when the chapter was written in a co-writing session
+      coAuthorIds?: string[] | null;
+      contentRich?: RichTextContent | null;
+    }
+  | { type: 'join_story'; pairingCode: string }
+  | { type: 'insert_row'; table: OutboxTable; values: Record<string, unknown> }
+  | { type: 'upsert_row'; table: OutboxTable; values: Record<string, unknown> }
+  | { type: 'update_rows'; table: OutboxTable; match: Record<string, string>; values: Record<string, unknown> }
+  | { type: 'delete_rows'; table: OutboxTable; match: Record<string, string> };
+
+export type OutboxEntryStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  mutation: OutboxMutation;
+  // Short description for the pending sync list
+  label: string;
+  // The id of the row this mutation creates, when it creates one
+  clientId: string | null;
+  // Entries that must reach the server first
+  dependsOn: string[];
+  // A newer entry with the same key replaces this one while it waits
+  coalesceKey: string | null;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  status: OutboxEntryStatus;
+  lastError: string | null;
+}
+
+// What the local story database keeps rows of
+export type LocalRecordKind =
+  | 'story'
+  | 'member'
+  | 'chapter'
+  | 'choice'
+  | 'character'
+  | 'inspiration'
+  | 'media'
+  | 'snapshot';
+
+// A story downloaded for offline reading
+export interface StoryDownload {
+  storyId: string;
+  title: string;
+  downloadedAt: string;
+  syncedAt: string | null;
+  // Newest updated_at synced so far, per mirrored table
+  cursors: Record<string, string>;
+}
+
+// A chapter image thumbnail saved on the device
+export interface OfflineMediaFile {
+  mediaId: string;
+  storyId: string;
+  chapterId: string;
+  uri: string;
+  bytes: number;
+}
+
+export interface OfflineStorageUsage {
+  totalBytes: number;
+  // Bytes used by each downloaded story, rows and thumbnails together
+  stories: Record<string, number>;
 }
 
 // User Story type (from story_members table)
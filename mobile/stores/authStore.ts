@@ -2,8 +2,11 @@ import { create } from 'zustand';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 import { offlineActions } from './offlineStore';
+import { isNetworkError } from '@/lib/outbox';
 import { Profile, NotificationPreferences } from '@/lib/types';
 import { useTokenStore } from './tokenStore';
+import { useCoupleWalletStore } from './coupleWalletStore';
+import { useEntitlementStore } from './entitlementStore';
 import { useNotificationsStore } from './notificationsStore';
 import { AppError as AppErrorClass } from '@/lib/errorHandling';
 
@@ -101,8 +104,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
 
         set({ profile });
 
-        // Fetch token balance
+        // Fetch token balance and plan
         await get().fetchTokenBalance();
+        await useEntitlementStore.getState().fetchEntitlements();
       }
     } catch (error: unknown) {
       console.error('Error initializing auth:', error);
@@ -148,8 +152,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
 
     set({ profile });
 
-    // Fetch token balance
+    // Fetch token balance and plan
     await get().fetchTokenBalance();
+    await useEntitlementStore.getState().fetchEntitlements();
   },
 
   signUp: async (email: string, password: string, displayName: string) => {
@@ -190,8 +195,8 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         isEmailConfirmed: isConfirmed,
       });
 
-      // Initialize token balance
-      useTokenStore.getState().setBalance(100); // Starting balance
+      // Welcome tokens are granted by the server when the profile is created
+      await get().fetchTokenBalance();
     }
   },
 
@@ -201,6 +206,8 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
     set({ user: null, profile: null, session: null, tokenBalance: 0, isEmailConfirmed: false });
     useTokenStore.getState().reset();
+    useCoupleWalletStore.getState().reset();
+    useEntitlementStore.getState().reset();
   },
 
   refreshProfile: async () => {
@@ -318,7 +325,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       }));
 
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.updateProfile(user.id, updates);
 
@@ -389,7 +396,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       useNotificationsStore.getState().updatePreferences(preferences);
 
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.updatePreferences(user.id, { notification_preferences: preferences });
 
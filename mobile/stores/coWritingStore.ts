@@ -0,0 +1,417 @@
+import { create } from 'zustand';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { realtime, PresenceData, StoryChannelOptions } from '@/lib/realtime';
+import { createSessionId } from '@/lib/listenTogether';
+import {
+  CoWriteAnchor,
+  CoWriteDocument,
+  CoWriteEvent,
+  CoWriteOp,
+  CoWriterCursor,
+  createSite,
+  cursorColor,
+} from '@/lib/coWriting';
+
+// A session other members are in, which this user can join
+export interface CoWriteSessionInvite {
+  sessionId: string;
+  userIds: string[];
+}
+
+// Why the last session ended: the chapter went in, or whoever started the
+// session left before submitting it
+export type CoWriteSessionEnd =
+  | { reason: 'finished'; chapterId: string }
+  | { reason: 'left' };
+
+export interface CoWritingState {
+  storyId: string | null;
+  userId: string | null;
+
+  sessionId: string | null;
+  starterId: string | null;
+  participants: string[];
+  text: string;
+  cursors: CoWriterCursor[];
+  invite: CoWriteSessionInvite | null;
+  ended: CoWriteSessionEnd | null;
+  error: string | null;
+
+  // Join the story channel so sessions can be seen and joined
+  watch: (storyId: string) => Promise<void>;
+  unwatch: () => Promise<void>;
+
+  // Starts a session with the draft written so far
+  startSession: (initialText: string) => Promise<void>;
+  joinSession: (sessionId: string) => Promise<void>;
+  leaveSession: () => Promise<void>;
+
+  edit: (nextText: string) => void;
+  setSelection: (start: number, end: number) => void;
+
+  // Members whose words made it into the draft, other than this user
+  getCoAuthorIds: () => string[];
+  // Tells the others the chapter was submitted and ends the session
+  finishSession: (chapterId: string) => Promise<void>;
+  clearEnded: () => void;
+}
+
+// Connection for the watched story
+let channel: RealtimeChannel | null = null;
+let channelOptions: StoryChannelOptions | null = null;
+let presences: Map<string, PresenceData> = new Map();
+
+let doc: CoWriteDocument | null = null;
+let joinedAt = 0;
+
+// Edits are sent in small batches rather than one message per keystroke
+const FLUSH_MS = 100;
+const CURSOR_THROTTLE_MS = 150;
+// How long to wait before asking for the whole draft again when an edit
+// was missed
+const RESYNC_MS = 2000;
+
+let outbox: CoWriteOp[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let cursorTimer: ReturnType<typeof setTimeout> | null = null;
+let lastCursorSent = 0;
+let lastResync = 0;
+
+// Partner carets, kept as anchors so they stay put while text changes
+let remoteCursors: Map<string, { anchor: CoWriteAnchor; head: CoWriteAnchor }> = new Map();
+let ownSelection = { start: 0, end: 0 };
+
+export const useCoWritingStore = create<CoWritingState>((set, get) => {
+  const clearTimers = () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (cursorTimer) {
+      clearTimeout(cursorTimer);
+      cursorTimer = null;
+    }
+  };
+
+  const send = (event: CoWriteEvent) => {
+    const { storyId } = get();
+    if (!storyId) return;
+    realtime.sendCoWriteEvent(storyId, event, channel || undefined)?.catch(error => {
+      console.error('Error sending co-writing event:', error);
+    });
+  };
+
+  const trackPresence = async (sessionId: string | null) => {
+    const { storyId, userId } = get();
+    if (!storyId || !userId) return;
+
+    try {
+      await realtime.trackPresence(storyId, {
+        id: userId,
+        status: 'online',
+        typing: false,
+        lastSeen: Date.now(),
+        coWriting: sessionId ? { sessionId, since: joinedAt } : undefined,
+      }, channel || undefined);
+    } catch (error) {
+      console.error('Error tracking co-writing presence:', error);
+    }
+  };
+
+  const flush = () => {
+    flushTimer = null;
+    const { sessionId, userId } = get();
+    if (!sessionId || !userId || outbox.length === 0) return;
+
+    send({ type: 'ops', sessionId, userId, ops: outbox });
+    outbox = [];
+  };
+
+  const sendCursor = () => {
+    cursorTimer = null;
+    const { sessionId, userId } = get();
+    if (!sessionId || !userId || !doc) return;
+
+    lastCursorSent = Date.now();
+    send({
+      type: 'cursor',
+      sessionId,
+      userId,
+      anchor: doc.anchorAt(ownSelection.start),
+      head: doc.anchorAt(ownSelection.end),
+    });
+  };
+
+  const queueCursor = () => {
+    if (cursorTimer) return;
+    const wait = Math.max(0, CURSOR_THROTTLE_MS - (Date.now() - lastCursorSent));
+    cursorTimer = setTimeout(sendCursor, wait);
+  };
+
+  // Partner carets as indexes into the current text
+  const readCursors = (): CoWriterCursor[] => {
+    if (!doc) return [];
+    const { participants } = get();
+    const cursors: CoWriterCursor[] = [];
+    remoteCursors.forEach((cursor, userId) => {
+      if (!participants.includes(userId)) return;
+      const anchor = doc!.indexOf(cursor.anchor);
+      const head = doc!.indexOf(cursor.head);
+      cursors.push({
+        userId,
+        color: cursorColor(userId),
+        start: Math.min(anchor, head),
+        end: Math.max(anchor, head),
+      });
+    });
+    return cursors;
+  };
+
+  const refresh = () => {
+    if (!doc) return;
+    set({ text: doc.text, cursors: readCursors() });
+  };
+
+  // An edit this device depends on never arrived; ask for the whole draft
+  const resyncIfStuck = () => {
+    const { sessionId, userId } = get();
+    if (!doc?.hasPending || !sessionId || !userId) return;
+    if (Date.now() - lastResync < RESYNC_MS) return;
+    lastResync = Date.now();
+    send({ type: 'join', sessionId, userId });
+  };
+
+  const endSession = async (ended: CoWriteSessionEnd) => {
+    clearTimers();
+    outbox = [];
+    remoteCursors = new Map();
+    doc = null;
+    set({ sessionId: null, starterId: null, participants: [], cursors: [], ended });
+    await trackPresence(null);
+    handlePresenceChange(presences);
+  };
+
+  const handleCoWriteEvent = (event: CoWriteEvent) => {
+    const { sessionId, userId, starterId } = get();
+    if (!sessionId || event.sessionId !== sessionId || !doc) return;
+
+    switch (event.type) {
+      case 'ops':
+        if (event.userId === userId) return;
+        doc.apply(event.ops);
+        refresh();
+        resyncIfStuck();
+        break;
+      case 'cursor':
+        if (event.userId === userId) return;
+        remoteCursors.set(event.userId, { anchor: event.anchor, head: event.head });
+        set({ cursors: readCursors() });
+        break;
+      case 'join':
+        // The starter holds the draft everyone else joined into
+        if (event.userId !== userId && starterId === userId) {
+          flush();
+          send({ type: 'state', sessionId, to: event.userId, ops: doc.snapshot() });
+          sendCursor();
+        }
+        break;
+      case 'state':
+        if (event.to !== userId) return;
+        doc.apply(event.ops);
+        refresh();
+        sendCursor();
+        break;
+      case 'leave':
+        remoteCursors.delete(event.userId);
+        set({ participants: get().participants.filter(id => id !== event.userId) });
+        if (event.userId === starterId) {
+          endSession({ reason: 'left' });
+        } else {
+          set({ cursors: readCursors() });
+        }
+        break;
+      case 'finish':
+        if (starterId !== userId) {
+          endSession({ reason: 'finished', chapterId: event.chapterId });
+        }
+        break;
+    }
+  };
+
+  const handlePresenceChange = (next: Map<string, PresenceData>) => {
+    presences = next;
+    const { sessionId, userId, starterId } = get();
+
+    // Sessions this user could join
+    const sessions = new Map<string, string[]>();
+    next.forEach(p => {
+      if (p.coWriting && p.id !== userId) {
+        sessions.set(p.coWriting.sessionId, [...(sessions.get(p.coWriting.sessionId) || []), p.id]);
+      }
+    });
+    const [invite] = [...sessions.entries()]
+      .filter(([id]) => id !== sessionId)
+      .map(([id, userIds]) => ({ sessionId: id, userIds }));
+    set({ invite: invite || null });
+
+    if (!sessionId) return;
+
+    const participants: string[] = [];
+    next.forEach(p => {
+      if (p.coWriting?.sessionId === sessionId) participants.push(p.id);
+    });
+    if (userId && !participants.includes(userId)) participants.push(userId);
+    set({ participants, cursors: readCursors() });
+
+    // The starter dropped out without saying so
+    if (starterId && starterId !== userId && !participants.includes(starterId)) {
+      endSession({ reason: 'left' });
+    }
+  };
+
+  return {
+    storyId: null,
+    userId: null,
+    sessionId: null,
+    starterId: null,
+    participants: [],
+    text: '',
+    cursors: [],
+    invite: null,
+    ended: null,
+    error: null,
+
+    watch: async (storyId: string) => {
+      if (get().storyId === storyId && channel) return;
+      if (get().storyId) {
+        await get().unwatch();
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      set({ storyId, userId: user.id, error: null });
+
+      channelOptions = {
+        onPresenceChange: handlePresenceChange,
+        onCoWrite: handleCoWriteEvent,
+        onError: (error) => set({ error: error.message }),
+      };
+      channel = await realtime.connectToStory(storyId, channelOptions);
+      handlePresenceChange(realtime.getPresences());
+    },
+
+    unwatch: async () => {
+      const { storyId } = get();
+      await get().leaveSession();
+
+      if (storyId && channelOptions) {
+        await realtime.disconnectFromStory(storyId, channelOptions);
+      }
+
+      channel = null;
+      channelOptions = null;
+      presences = new Map();
+      set({ storyId: null, invite: null, participants: [], ended: null });
+    },
+
+    startSession: async (initialText: string) => {
+      const { storyId, userId } = get();
+      if (!storyId || !userId) {
+        throw new Error('Open a story to write together');
+      }
+
+      const sessionId = createSessionId();
+      joinedAt = Date.now();
+      doc = new CoWriteDocument(createSite(userId));
+      doc.localEdit(initialText);
+      remoteCursors = new Map();
+      outbox = [];
+      set({
+        sessionId,
+        starterId: userId,
+        participants: [userId],
+        text: doc.text,
+        cursors: [],
+        ended: null,
+        error: null,
+      });
+
+      await trackPresence(sessionId);
+    },
+
+    joinSession: async (sessionId: string) => {
+      const { storyId, userId } = get();
+      if (!storyId || !userId) {
+        throw new Error('Open a story to write together');
+      }
+
+      const starterId = [...presences.values()]
+        .filter(p => p.coWriting?.sessionId === sessionId)
+        .sort((a, b) => a.coWriting!.since - b.coWriting!.since)[0]?.id;
+      if (!starterId) {
+        throw new Error('That writing session has ended');
+      }
+
+      joinedAt = Date.now();
+      doc = new CoWriteDocument(createSite(userId));
+      remoteCursors = new Map();
+      outbox = [];
+      lastResync = Date.now();
+      set({ sessionId, starterId, text: '', cursors: [], ended: null, error: null });
+
+      await trackPresence(sessionId);
+      handlePresenceChange(presences);
+      send({ type: 'join', sessionId, userId });
+    },
+
+    leaveSession: async () => {
+      const { sessionId, userId } = get();
+      if (!sessionId) return;
+
+      flush();
+      if (userId) {
+        send({ type: 'leave', sessionId, userId });
+      }
+      await endSession({ reason: 'left' });
+      // Leaving on purpose is not news to this user
+      set({ ended: null });
+    },
+
+    edit: (nextText: string) => {
+      if (!doc || !get().sessionId) return;
+
+      const ops = doc.localEdit(nextText);
+      if (ops.length === 0) return;
+
+      outbox.push(...ops);
+      if (!flushTimer) {
+        flushTimer = setTimeout(flush, FLUSH_MS);
+      }
+      set({ text: doc.text, cursors: readCursors() });
+    },
+
+    setSelection: (start: number, end: number) => {
+      ownSelection = { start, end };
+      if (get().sessionId) queueCursor();
+    },
+
+    getCoAuthorIds: () => {
+      const { userId } = get();
+      return doc ? doc.contributors().filter(id => id !== userId) : [];
+    },
+
+    finishSession: async (chapterId: string) => {
+      const { sessionId } = get();
+      if (!sessionId) return;
+
+      send({ type: 'finish', sessionId, chapterId });
+      await endSession({ reason: 'finished', chapterId });
+      // The submitter already knows
+      set({ ended: null });
+    },
+
+    clearEnded: () => set({ ended: null }),
+  };
+});
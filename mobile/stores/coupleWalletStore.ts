@@ -0,0 +1,176 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import { createIdempotencyKey } from '@/lib/tokenManager';
+import { CoupleWallet, CoupleWalletMember, CoupleWalletTransaction } from '@/lib/types';
+import { useTokenStore } from './tokenStore';
+
+export interface CoupleWalletState {
+  relationshipId: string | null;
+  wallet: CoupleWallet | null;
+  members: CoupleWalletMember[];
+  transactions: CoupleWalletTransaction[]; // Newest first
+  displayNames: Record<string, string>;
+  isLoading: boolean;
+  error: string | null;
+
+  fetchWallet: (relationshipId: string) => Promise<void>;
+  createWallet: (relationshipId: string) => Promise<boolean>;
+  acceptWallet: () => Promise<boolean>;
+  fundWallet: (amount: number) => Promise<boolean>;
+  setMonthlyCap: (userId: string, monthlyCap: number | null) => Promise<boolean>;
+  closeWallet: () => Promise<boolean>;
+  getSpentThisMonth: (userId: string) => number;
+  reset: () => void;
+}
+
+const initialState = {
+  relationshipId: null,
+  wallet: null,
+  members: [],
+  transactions: [],
+  displayNames: {},
+  isLoading: false,
+  error: null,
+};
+
+export const useCoupleWalletStore = create<CoupleWalletState>((set, get) => {
+  // Wallet writes all go through RPCs that answer { success, error?, balance? }.
+  // A returned balance is the caller's personal one.
+  const callWallet = async (fn: string, args: Record<string, unknown>): Promise<boolean> => {
+    set({ isLoading: true, error: null });
+    try {
+      const { data, error } = await supabase.rpc(fn, args);
+      if (error) throw error;
+      if (!data?.success) {
+        set({ error: data?.error || 'Couple wallet update failed', isLoading: false });
+        return false;
+      }
+
+      if (typeof data.balance === 'number') {
+        useTokenStore.getState().setBalance(data.balance);
+      }
+
+      const { relationshipId } = get();
+      if (relationshipId) {
+        await get().fetchWallet(relationshipId);
+      }
+      set({ isLoading: false });
+      return true;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Couple wallet update failed',
+        isLoading: false,
+      });
+      return false;
+    }
+  };
+
+  return {
+    ...initialState,
+
+    fetchWallet: async (relationshipId: string) => {
+      try {
+        set({ relationshipId, error: null });
+
+        const { data: wallet, error } = await supabase
+          .from('couple_wallets')
+          .select('*')
+          .eq('relationship_id', relationshipId)
+          .neq('status', 'closed')
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!wallet) {
+          set({ wallet: null, members: [], transactions: [] });
+          return;
+        }
+
+        const [{ data: members }, { data: transactions }] = await Promise.all([
+          supabase.from('couple_wallet_members').select('*').eq('wallet_id', wallet.id),
+          supabase
+            .from('couple_wallet_transactions')
+            .select('*')
+            .eq('wallet_id', wallet.id)
+            .order('created_at', { ascending: false })
+            .limit(100),
+        ]);
+
+        // Who spent what is shown by name
+        const userIds = (members || []).map((member: CoupleWalletMember) => member.user_id);
+        const { data: profiles } = userIds.length
+          ? await supabase.from('profiles').select('id, display_name').in('id', userIds)
+          : { data: [] };
+
+        const displayNames: Record<string, string> = {};
+        for (const profile of profiles || []) {
+          displayNames[profile.id] = profile.display_name || 'Partner';
+        }
+
+        set({
+          wallet,
+          members: members || [],
+          transactions: transactions || [],
+          displayNames,
+        });
+      } catch (error) {
+        console.error('Error fetching couple wallet:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to load couple wallet' });
+      }
+    },
+
+    createWallet: async (relationshipId: string) => {
+      set({ relationshipId });
+      return callWallet('create_couple_wallet', { p_relationship_id: relationshipId });
+    },
+
+    acceptWallet: async () => {
+      const { wallet } = get();
+      if (!wallet) return false;
+      return callWallet('accept_couple_wallet', { p_wallet_id: wallet.id });
+    },
+
+    fundWallet: async (amount: number) => {
+      const { wallet } = get();
+      if (!wallet) return false;
+      return callWallet('fund_couple_wallet', {
+        p_wallet_id: wallet.id,
+        p_amount: amount,
+        p_idempotency_key: createIdempotencyKey('couple-wallet-fund'),
+      });
+    },
+
+    setMonthlyCap: async (userId: string, monthlyCap: number | null) => {
+      const { wallet } = get();
+      if (!wallet) return false;
+      return callWallet('set_couple_wallet_cap', {
+        p_wallet_id: wallet.id,
+        p_user_id: userId,
+        p_monthly_cap: monthlyCap,
+      });
+    },
+
+    // Whatever is left is split back by what each partner put in
+    closeWallet: async () => {
+      const { wallet } = get();
+      if (!wallet) return false;
+      return callWallet('close_couple_wallet', { p_wallet_id: wallet.id });
+    },
+
+    // Counted the way the server checks the cap: spends less refunds since
+    // the start of the month (UTC)
+    getSpentThisMonth: (userId: string) => {
+      const now = new Date();
+      const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+
+      return get().transactions
+        .filter(transaction =>
+          transaction.user_id === userId
+          && (transaction.type === 'spend' || transaction.type === 'refund')
+          && new Date(transaction.created_at).getTime() >= monthStart
+        )
+        .reduce((sum, transaction) => sum - transaction.amount, 0);
+    },
+
+    reset: () => set(initialState),
+  };
+});
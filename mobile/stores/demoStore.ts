@@ -36,6 +36,8 @@ const DEMO_CHAPTERS: Record<string, Chapter[]> = {
       content: 'The rain tapped gently against my window, each drop reminding me of the miles between us. I picked up my phone, your contact glowing on the screen, and wondered what story we would write together today.',
       ai_enhanced_content: null,
       context_snippet: null,
+      parent_chapter_id: null,
+      choice_id: null,
       created_at: new Date(Date.now() - 86400000).toISOString(),
     },
     {
@@ -46,6 +48,8 @@ const DEMO_CHAPTERS: Record<string, Chapter[]> = {
       content: 'I smiled as my fingers typed the first words of our new chapter. Distance was just a number when our hearts were writing the same story.',
       ai_enhanced_content: null,
       context_snippet: null,
+      parent_chapter_id: 'chapter-1',
+      choice_id: null,
       created_at: new Date().toISOString(),
     },
   ],
@@ -58,6 +62,8 @@ const DEMO_CHAPTERS: Record<string, Chapter[]> = {
       content: 'The ancient dragon stirred from its millennia-long slumber, its golden eyes opening to pierce through the darkness of the cavern. Young apprentice Elara drew her breath, not in fear, but in wonder.',
       ai_enhanced_content: null,
       context_snippet: null,
+      parent_chapter_id: null,
+      choice_id: null,
       created_at: new Date().toISOString(),
     },
   ],
@@ -179,6 +185,8 @@ export const useDemoStore = create<DemoState>((set, get) => ({
       content,
       ai_enhanced_content: null,
       context_snippet: null,
+      parent_chapter_id: chapters[chapters.length - 1]?.id ?? null,
+      choice_id: null,
       created_at: new Date().toISOString(),
     };
 
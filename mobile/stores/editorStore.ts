@@ -1,10 +1,18 @@
 import React from 'react';
 import { create } from 'zustand';
 import { supabase } from '@/lib/supabase';
-import { aiClient } from '@/lib/aiClient';
-import { Chapter, MediaAttachment, DraftState } from '@/lib/types';
+import { aiClient, AIBranchChoice, AIPlotHook } from '@/lib/aiClient';
+import { Chapter, ChapterChoiceDraft, MediaAttachment, DraftState, RichTextContent } from '@/lib/types';
+import {
+  MAX_CHAPTER_CHOICES,
+  getActivePath,
+  normalizeChoiceDrafts,
+  validateChoiceDrafts,
+} from '@/lib/chapterTree';
+import { createClientId, isNetworkError } from '@/lib/outbox';
 import { useTokenStore } from './tokenStore';
 import { useStoriesStore } from './storiesStore';
+import { offlineActions, useOfflineStore } from './offlineStore';
 import { useEffect } from 'react';
 
 // Get Supabase URL for direct fetch calls
@@ -55,6 +63,20 @@ interface EditorState {
   localDrafts: Record<string, DraftState>;
   isSyncingDrafts: boolean;
 
+  // Choice endings for the chapter being written
+  choiceDrafts: ChapterChoiceDraft[];
+
+  // AI-suggested choice endings waiting to be accepted or rejected
+  branchSuggestions: AIBranchChoice[];
+  branchConsequences: string | null;
+  isSuggestingChoices: boolean;
+
+  // Plot hooks woven from inspirations. Accepted hooks mark their
+  // inspirations as used once the chapter is submitted.
+  plotHooks: AIPlotHook[];
+  acceptedPlotHooks: AIPlotHook[];
+  isWeavingPlot: boolean;
+
   // Additional properties for compatibility
   selectedFormat: string | null;
   setFormat: (format: string) => void;
@@ -63,7 +85,15 @@ interface EditorState {
   setDraftContent: (content: string) => void;
   setContextSnippet: (snippet: string | null) => void;
   enhanceWithAI: (storyId: string) => Promise<void>;
-  submitChapter: (storyId: string) => Promise<void>;
+  submitChapter: (storyId: string, branch?: ChapterBranch, credits?: ChapterCredits) => Promise<Chapter>;
+  setChoiceDrafts: (choices: ChapterChoiceDraft[]) => void;
+  suggestBranchChoices: (storyId: string, branch?: ChapterBranch) => Promise<void>;
+  acceptBranchSuggestion: (index: number) => void;
+  rejectBranchSuggestion: (index: number) => void;
+  suggestPlotHooks: (storyId: string, branch?: ChapterBranch) => Promise<void>;
+  acceptPlotHook: (index: number) => void;
+  rejectPlotHook: (index: number) => void;
+  removeAcceptedPlotHook: (inspirationId: string) => void;
 
   // New AI methods
   setSelectedText: (text: string) => void;
@@ -110,6 +140,20 @@ interface DraftState {
   isAutoSaved: boolean;
 }
 
+// Where a new chapter attaches in the story tree. With neither field set the
+// server continues the most recently written branch.
+export interface ChapterBranch {
+  choiceId?: string | null;
+  parentChapterId?: string | null;
+}
+
+// Who else wrote a chapter, for one finished in a co-writing session, and
+// the merged draft in its structured form
+export interface ChapterCredits {
+  coAuthorIds: string[];
+  contentRich?: RichTextContent | null;
+}
+
 // Supported media types
 interface MediaFile {
   uri: string;
@@ -169,6 +213,14 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   localDrafts: {},
   isSyncingDrafts: false,
 
+  choiceDrafts: [],
+  branchSuggestions: [],
+  branchConsequences: null,
+  isSuggestingChoices: false,
+  plotHooks: [],
+  acceptedPlotHooks: [],
+  isWeavingPlot: false,
+
   // Additional properties for compatibility
   selectedFormat: null,
   setFormat: (format: string) => {
@@ -241,12 +293,11 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       throw new Error('Cannot enhance empty content');
     }
 
-    // Deduct tokens for AI enhancement
+    // The server charges for AI enhancement; check the balance before calling
     const enhancementCost = 2;
     if (tokenStore.balance < enhancementCost) {
       throw new Error('Insufficient tokens for AI enhancement');
     }
-    tokenStore.deductTokens(enhancementCost);
 
     set({ isEnhancing: true });
 
@@ -301,12 +352,153 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       console.error('Error enhancing content:', error);
       throw error;
     } finally {
+      tokenStore.fetchBalance();
       set({ isEnhancing: false });
     }
   },
 
-  submitChapter: async (storyId: string) => {
-    const { draftContent, contextSnippet, aiEnhancedContent, mediaAttachments } = get();
+  setChoiceDrafts: (choices: ChapterChoiceDraft[]) => {
+    set({ choiceDrafts: choices });
+  },
+
+  suggestBranchChoices: async (storyId: string, branch: ChapterBranch = {}) => {
+    const { draftContent, choiceDrafts } = get();
+    const { data: { user } } = await supabase.auth.getUser();
+    const tokenStore = useTokenStore.getState();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    // The server charges for choice suggestions; check the balance before calling
+    const branchCost = 1;
+    if (tokenStore.balance < branchCost) {
+      throw new Error('Insufficient tokens for choice suggestions');
+    }
+
+    set({ isSuggestingChoices: true });
+
+    try {
+      // Only ask for as many as there is room for, but never fewer than two
+      const filled = choiceDrafts.filter(d => d.title.trim().length > 0).length;
+      const result = await aiClient.generateBranchChoices({
+        storyId,
+        choiceId: branch.choiceId || undefined,
+        parentChapterId: branch.parentChapterId || undefined,
+        draftContent: draftContent.substring(0, 5000),
+        count: Math.max(2, MAX_CHAPTER_CHOICES - filled),
+      });
+
+      set({
+        branchSuggestions: result.choices,
+        branchConsequences: result.consequences || null,
+        aiCostTracker: get().aiCostTracker + branchCost,
+        tokenCosts: {
+          ...get().tokenCosts,
+          branch: (get().tokenCosts.branch || 0) + branchCost,
+        },
+      });
+    } catch (error) {
+      console.error('Error suggesting choices:', error);
+      throw error;
+    } finally {
+      tokenStore.fetchBalance();
+      set({ isSuggestingChoices: false });
+    }
+  },
+
+  // Accepted suggestions become ordinary drafts, so the writer can still edit them
+  acceptBranchSuggestion: (index: number) => {
+    const { branchSuggestions, choiceDrafts } = get();
+    const suggestion = branchSuggestions[index];
+    if (!suggestion) return;
+
+    const draft = { title: suggestion.title, description: suggestion.teaser || null };
+    const emptySlot = choiceDrafts.findIndex(d => d.title.trim().length === 0);
+    if (emptySlot === -1 && choiceDrafts.length >= MAX_CHAPTER_CHOICES) {
+      throw new Error(`A chapter can end with at most ${MAX_CHAPTER_CHOICES} choices`);
+    }
+
+    set({
+      choiceDrafts: emptySlot === -1
+        ? [...choiceDrafts, draft]
+        : choiceDrafts.map((d, i) => (i === emptySlot ? draft : d)),
+      branchSuggestions: branchSuggestions.filter((_, i) => i !== index),
+    });
+  },
+
+  rejectBranchSuggestion: (index: number) => {
+    set({ branchSuggestions: get().branchSuggestions.filter((_, i) => i !== index) });
+  },
+
+  suggestPlotHooks: async (storyId: string, branch: ChapterBranch = {}) => {
+    const { draftContent, acceptedPlotHooks } = get();
+    const { data: { user } } = await supabase.auth.getUser();
+    const tokenStore = useTokenStore.getState();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    // The server charges for plot hooks; check the balance before calling
+    const weaverCost = 1;
+    if (tokenStore.balance < weaverCost) {
+      throw new Error('Insufficient tokens for plot hooks');
+    }
+
+    set({ isWeavingPlot: true });
+
+    try {
+      const result = await aiClient.weavePlotHooks({
+        storyId,
+        choiceId: branch.choiceId || undefined,
+        parentChapterId: branch.parentChapterId || undefined,
+        draftContent: draftContent.substring(0, 5000),
+        count: 3,
+      });
+
+      // Inspirations already accepted for this chapter are not offered twice
+      const accepted = new Set(acceptedPlotHooks.map(h => h.inspirationId));
+      set({
+        plotHooks: result.hooks.filter(h => !accepted.has(h.inspirationId)),
+        aiCostTracker: get().aiCostTracker + weaverCost,
+        tokenCosts: {
+          ...get().tokenCosts,
+          plotWeaver: (get().tokenCosts.plotWeaver || 0) + weaverCost,
+        },
+      });
+    } catch (error) {
+      console.error('Error weaving plot hooks:', error);
+      throw error;
+    } finally {
+      tokenStore.fetchBalance();
+      set({ isWeavingPlot: false });
+    }
+  },
+
+  // The writer works the hook into the chapter themselves; accepting only
+  // remembers which inspiration the chapter uses
+  acceptPlotHook: (index: number) => {
+    const { plotHooks, acceptedPlotHooks } = get();
+    const hook = plotHooks[index];
+    if (!hook) return;
+
+    set({
+      acceptedPlotHooks: [...acceptedPlotHooks, hook],
+      plotHooks: plotHooks.filter((_, i) => i !== index),
+    });
+  },
+
+  rejectPlotHook: (index: number) => {
+    set({ plotHooks: get().plotHooks.filter((_, i) => i !== index) });
+  },
+
+  removeAcceptedPlotHook: (inspirationId: string) => {
+    set({ acceptedPlotHooks: get().acceptedPlotHooks.filter(h => h.inspirationId !== inspirationId) });
+  },
+
+  submitChapter: async (storyId: string, branch: ChapterBranch = {}, credits?: ChapterCredits) => {
+    const { draftContent, contextSnippet, aiEnhancedContent, choiceDrafts, acceptedPlotHooks } = get();
     const { data: { user } } = await supabase.auth.getUser();
 
     if (!user) {
@@ -317,111 +509,129 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       throw new Error('Cannot submit empty chapter');
     }
 
+    const choiceError = validateChoiceDrafts(choiceDrafts);
+    if (choiceError) {
+      throw new Error(choiceError);
+    }
+
     set({ isSubmitting: true });
 
-    try {
-      // Insert the new chapter with retry logic for duplicate chapter_number errors
-      // On each retry, re-query the database to get the latest chapter number
-      let chapterData;
-      let retries = 0;
-      const maxRetries = 3;
-
-      while (retries < maxRetries) {
-        // Re-fetch the latest chapter number on each retry to handle concurrent submissions
-        const { data: lastChapter, error: fetchError } = await supabase
-          .from('chapters')
-          .select('chapter_number')
-          .eq('story_id', storyId)
-          .order('chapter_number', { ascending: false })
-          .limit(1)
-          .maybeSingle();
-
-        if (fetchError && fetchError.code !== 'PGRST116') {
-          throw fetchError;
-        }
+    // The id is made here so a submission that is retried from the outbox
+    // is recognised by the server if the first attempt got through
+    const chapterId = createClientId();
+    const choices = normalizeChoiceDrafts(choiceDrafts);
+    const submission = {
+      chapterId,
+      storyId,
+      content: draftContent,
+      parentChapterId: branch.parentChapterId ?? null,
+      choiceId: branch.choiceId ?? null,
+      contextSnippet,
+      aiEnhancedContent,
+      choices: choices.length > 0 ? choices : null,
+      inspirationIds: acceptedPlotHooks.length > 0 ? acceptedPlotHooks.map(h => h.inspirationId) : null,
+      coAuthorIds: credits && credits.coAuthorIds.length > 0 ? credits.coAuthorIds : null,
+      contentRich: credits?.contentRich ?? null,
+    };
 
-        const nextChapterNumber = lastChapter ? lastChapter.chapter_number + 1 : 1;
-
-        try {
-          const { data: insertedChapter, error: chapterError } = await supabase
-            .from('chapters')
-            .insert({
-              story_id: storyId,
-              author_id: user.id,
-              chapter_number: nextChapterNumber,
-              content: draftContent,
-              ai_enhanced_content: aiEnhancedContent,
-              context_snippet: contextSnippet,
-              media_attachments: mediaAttachments,
-            })
-            .select()
-            .single();
-
-          if (chapterError) {
-            // If it's a unique constraint violation on chapter_number, retry
-            if (chapterError.code === '23505' && retries < maxRetries - 1) {
-              retries++;
-              continue;
-            }
-            throw chapterError;
-          }
-
-          chapterData = insertedChapter;
-          break;
-        } catch (err) {
-          // On duplicate constraint violation, retry
-          if (err && typeof err === 'object' && 'code' in err && err.code === '23505' && retries < maxRetries - 1) {
-            retries++;
-            continue;
-          }
-          if (retries < maxRetries - 1) {
-            retries++;
-            continue;
-          }
-          throw err;
+    const resetEditor = () => set({
+      draftContent: '',
+      contextSnippet: null,
+      aiEnhancedContent: null,
+      mediaAttachments: [],
+      choiceDrafts: [],
+      branchSuggestions: [],
+      branchConsequences: null,
+      plotHooks: [],
+      acceptedPlotHooks: [],
+      undoStack: [],
+      redoStack: [],
+      lastSavedAt: null,
+    });
+
+    // Offline, or the story itself has not synced yet: the chapter waits in
+    // the outbox and is numbered by the server when it gets there. It is
+    // pinned to the chapter the writer was continuing, so if the partner
+    // wrote there in the meantime the server holds it as a conflict instead
+    // of adding it after a chapter the writer never read.
+    const queueSubmission = async (): Promise<Chapter> => {
+      if (!submission.parentChapterId && !submission.choiceId) {
+        const { currentStory } = useStoriesStore.getState();
+        if (currentStory?.id === storyId) {
+          const path = getActivePath(currentStory.chapterTree ?? null);
+          submission.parentChapterId = path.length > 0 ? path[path.length - 1].id : null;
         }
       }
+      await offlineActions.submitChapter(submission);
+      resetEditor();
+      return {
+        id: chapterId,
+        story_id: storyId,
+        author_id: user.id,
+        chapter_number: 0,
+        content: submission.content,
+        ai_enhanced_content: submission.aiEnhancedContent,
+        context_snippet: submission.contextSnippet,
+        parent_chapter_id: submission.parentChapterId,
+        choice_id: submission.choiceId,
+        created_at: new Date().toISOString(),
+      };
+    };
 
-      if (!chapterData) {
-        throw new Error('Failed to insert chapter after multiple retries');
+    const offline = useOfflineStore.getState();
+
+    try {
+      if (!offline.isConnected || offline.isPending(storyId)) {
+        return await queueSubmission();
       }
 
-      // Get all members to determine next turn
-      const { data: members } = await supabase
-        .from('story_members')
-        .select('*')
-        .eq('story_id', storyId)
-        .order('turn_order', { ascending: true });
-
-      if (members && members.length === 2) {
-        const currentMember = members.find((m) => m.user_id === user.id);
-        const nextMember = members.find((m) => m.user_id !== user.id);
-
-        if (nextMember) {
-          // Update current_turn in stories table
-          await supabase
-            .from('stories')
-            .update({
-              current_turn: nextMember.user_id,
-            })
-            .eq('id', storyId);
+      // The server checks the turn, numbers and inserts the chapter with its
+      // choices and woven inspirations, and passes the turn on in one go
+      const { data, error } = await supabase.rpc('submit_chapter', {
+        p_story_id: storyId,
+        p_content: submission.content,
+        p_parent_chapter_id: submission.parentChapterId,
+        p_choice_id: submission.choiceId,
+        p_context_snippet: submission.contextSnippet,
+        p_ai_enhanced_content: submission.aiEnhancedContent,
+        p_choices: submission.choices,
+        p_inspiration_ids: submission.inspirationIds,
+        p_chapter_id: chapterId,
+      });
+
+      if (error) {
+        if (isNetworkError(error)) return await queueSubmission();
+        throw error;
+      }
+
+      const result = data as unknown as { success: boolean; error?: string; chapter?: Chapter } | null;
+      if (!result?.success || !result.chapter) {
+        throw new Error(result?.error || 'Failed to submit chapter');
+      }
+
+      const chapterData = result.chapter;
+
+      if (submission.coAuthorIds) {
+        const { data: credited, error: creditError } = await supabase.rpc('record_co_written_chapter', {
+          p_chapter_id: chapterId,
+          p_co_author_ids: submission.coAuthorIds,
+          p_content_rich: submission.contentRich,
+        });
+        const creditResult = credited as unknown as { success: boolean; error?: string } | null;
+        if (creditError || !creditResult?.success) {
+          // The chapter is in; only the credit is missing
+          console.error('Error recording co-authors:', creditError || creditResult?.error);
+        } else {
+          chapterData.co_author_ids = submission.coAuthorIds;
         }
       }
 
       // Update stories store to refresh current story
       const storiesStore = useStoriesStore.getState();
+      storiesStore.invalidateStoryCache(storyId);
       await storiesStore.fetchStory(storyId);
 
-      // Reset the editor state
-      set({
-        draftContent: '',
-        contextSnippet: null,
-        aiEnhancedContent: null,
-        mediaAttachments: [],
-        undoStack: [],
-        redoStack: [],
-        lastSavedAt: null,
-      });
+      resetEditor();
 
       return chapterData;
     } catch (error) {
@@ -442,12 +652,11 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       throw new Error('User not authenticated');
     }
 
-    // Deduct tokens for analysis
+    // The server charges for analysis; check the balance before calling
     const analysisCost = 1;
     if (tokenStore.balance < analysisCost) {
       throw new Error('Insufficient tokens for narrative analysis');
     }
-    tokenStore.deductTokens(analysisCost);
 
     set({ isAnalyzing: true, aiResults: null });
 
@@ -486,6 +695,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         isAnalyzing: false
       });
       throw error;
+    } finally {
+      tokenStore.fetchBalance();
     }
   },
 
@@ -497,12 +708,11 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       throw new Error('User not authenticated');
     }
 
-    // Deduct tokens for cover art generation
+    // The server charges for cover art generation; check the balance before calling
     const coverCost = 5;
     if (tokenStore.balance < coverCost) {
       throw new Error('Insufficient tokens for cover art generation');
     }
-    tokenStore.deductTokens(coverCost);
 
     set({ isGeneratingCover: true, aiResults: null });
 
@@ -529,6 +739,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         isGeneratingCover: false
       });
       throw error;
+    } finally {
+      tokenStore.fetchBalance();
     }
   },
 
@@ -540,12 +752,11 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       throw new Error('User not authenticated');
     }
 
-    // Deduct tokens for avatar creation
+    // The server charges for avatar creation; check the balance before calling
     const avatarCost = 3;
     if (tokenStore.balance < avatarCost) {
       throw new Error('Insufficient tokens for avatar creation');
     }
-    tokenStore.deductTokens(avatarCost);
 
     set({ isCreatingAvatar: true, aiResults: null });
 
@@ -572,6 +783,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         isCreatingAvatar: false
       });
       throw error;
+    } finally {
+      tokenStore.fetchBalance();
     }
   },
 
@@ -588,12 +801,11 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       throw new Error('No text selected for style transformation');
     }
 
-    // Deduct tokens for style transformation
+    // The server charges for style transformation; check the balance before calling
     const transformCost = 1;
     if (tokenStore.balance < transformCost) {
       throw new Error('Insufficient tokens for style transformation');
     }
-    tokenStore.deductTokens(transformCost);
 
     set({ isTransformingStyle: true, aiResults: null });
 
@@ -626,6 +838,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         isTransformingStyle: false
       });
       throw error;
+    } finally {
+      tokenStore.fetchBalance();
     }
   },
 
@@ -637,12 +851,11 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       throw new Error('User not authenticated');
     }
 
-    // Deduct tokens for consistency check
+    // The server charges for consistency check; check the balance before calling
     const consistencyCost = 1;
     if (tokenStore.balance < consistencyCost) {
       throw new Error('Insufficient tokens for character consistency check');
     }
-    tokenStore.deductTokens(consistencyCost);
 
     set({ isAnalyzing: true, aiResults: null });
 
@@ -668,6 +881,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         isAnalyzing: false
       });
       throw error;
+    } finally {
+      tokenStore.fetchBalance();
     }
   },
 
@@ -696,22 +911,19 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   },
 
   saveDraft: async (storyId: string) => {
-    const { draftContent, contextSnippet } = get();
-    const tokenStore = useTokenStore.getState();
-
-    // Deduct tokens for saving
-    const saveCost = 0.1;
-    if (tokenStore.balance >= saveCost) {
-      tokenStore.deductTokens(saveCost);
-    }
+    const { draftContent, contextSnippet, localDrafts } = get();
 
+    // Each auto-save replaces the story's previous one. Drafts saved before
+    // draft ids were UUIDs start a new row.
+    const previous = Object.values(localDrafts)
+      .find(d => d.storyId === storyId && d.isAutoSaved && !d.id.startsWith('draft_'));
     const draft: DraftState = {
-      id: `draft_${Date.now()}`,
+      id: previous?.id ?? createClientId(),
       storyId,
       chapterId: '',
       content: draftContent,
       contextSnippet,
-      createdAt: Date.now(),
+      createdAt: previous?.createdAt ?? Date.now(),
       updatedAt: Date.now(),
       isAutoSaved: true,
     };
@@ -725,20 +937,18 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       lastSavedAt: Date.now(),
     }));
 
-    // Sync to server if online
+    // Sent now if online, otherwise once the connection is back
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
-        await supabase
-          .from('drafts')
-          .insert({
-            id: draft.id,
-            user_id: user.id,
-            story_id: storyId,
-            content: draftContent,
-            context_snippet: contextSnippet,
-            is_auto_saved: true,
-          });
+        await offlineActions.saveDraft({
+          id: draft.id,
+          user_id: user.id,
+          story_id: storyId,
+          content: draftContent,
+          context_snippet: contextSnippet,
+          is_auto_saved: true,
+        });
       }
     } catch (error) {
       console.error('Error syncing draft:', error);
@@ -766,12 +976,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       return { localDrafts: newDrafts };
     });
 
-    // Delete from server if online
+    // Delete from server, now or once the connection is back
     try {
-      await supabase
-        .from('drafts')
-        .delete()
-        .eq('id', draftId);
+      await offlineActions.deleteDraft(draftId);
     } catch (error) {
       console.error('Error deleting draft:', error);
     }
@@ -807,21 +1014,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
       if (!user) return;
 
-      // Sync unsynced drafts
-      const unsyncedDrafts = Object.values(localDrafts).filter(d => !d.isAutoSaved);
-
-      for (const draft of unsyncedDrafts) {
-        await supabase
-          .from('drafts')
-          .upsert({
-            id: draft.id,
-            user_id: user.id,
-            story_id: draft.storyId,
-            content: draft.content,
-            context_snippet: draft.contextSnippet,
-            is_auto_saved: draft.isAutoSaved,
-          });
-      }
+      // Local draft changes go out through the outbox
+      await useOfflineStore.getState().processQueue();
 
       // Fetch latest drafts from server
       const { data: serverDrafts } = await supabase
@@ -829,10 +1023,13 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         .select('*')
         .eq('user_id', user.id);
 
-      // Merge with local drafts (server wins for conflicts)
+      // Merge with local drafts (server wins, unless the local copy has
+      // changes still waiting to be sent)
+      const waiting = new Set(useOfflineStore.getState().queue.map(e => e.coalesceKey));
       const mergedDrafts = { ...localDrafts };
       if (serverDrafts) {
         serverDrafts.forEach(serverDraft => {
+          if (waiting.has(`draft:${serverDraft.id}`)) return;
           mergedDrafts[serverDraft.id] = {
             id: serverDraft.id,
             storyId: serverDraft.story_id,
@@ -862,7 +1059,6 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     if (tokenStore.balance < presetCost) {
       throw new Error('Insufficient tokens for style preset');
     }
-    tokenStore.deductTokens(presetCost);
 
     try {
       const result = await aiClient.applyStylePreset({
@@ -883,6 +1079,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     } catch (error) {
       console.error('Error applying style preset:', error);
       throw error;
+    } finally {
+      tokenStore.fetchBalance();
     }
   },
 
@@ -893,7 +1091,6 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     if (tokenStore.balance < profileCost) {
       throw new Error('Insufficient tokens for character profile');
     }
-    tokenStore.deductTokens(profileCost);
 
     try {
       const result = await aiClient.generateCharacterProfile({
@@ -913,6 +1110,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     } catch (error) {
       console.error('Error generating character profile:', error);
       throw error;
+    } finally {
+      tokenStore.fetchBalance();
     }
   },
 
@@ -934,7 +1133,6 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     if (tokenStore.balance < voiceCost) {
       throw new Error('Insufficient tokens for voice maintenance');
     }
-    tokenStore.deductTokens(voiceCost);
 
     try {
       const result = await aiClient.maintainCharacterVoice({
@@ -955,6 +1153,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     } catch (error) {
       console.error('Error maintaining character voice:', error);
       throw error;
+    } finally {
+      tokenStore.fetchBalance();
     }
   },
 
@@ -978,6 +1178,13 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       aiResults: null,
       aiCostTracker: 0,
       mediaAttachments: [],
+      choiceDrafts: [],
+      branchSuggestions: [],
+      branchConsequences: null,
+      isSuggestingChoices: false,
+      plotHooks: [],
+      acceptedPlotHooks: [],
+      isWeavingPlot: false,
       isUploadingMedia: false,
       uploadProgress: 0,
       undoStack: [],
@@ -0,0 +1,119 @@
+import { create } from 'zustand';
+import {
+  Entitlements,
+  FREE_ENTITLEMENTS,
+  clearEntitlements,
+  getQuota,
+  isEntitled,
+  loadEntitlements,
+} from '@/lib/entitlements';
+import { getPurchaseProvider } from '@/lib/purchases';
+import { EntitlementFeatureKey, SubscriptionProduct } from '@/lib/types';
+import { useTokenStore } from './tokenStore';
+
+export interface EntitlementState {
+  entitlements: Entitlements;
+  products: SubscriptionProduct[];
+  isLoading: boolean;
+  isPurchasing: boolean;
+  error: string | null;
+
+  fetchEntitlements: () => Promise<void>;
+  fetchProducts: () => Promise<void>;
+  subscribe: (productId: string) => Promise<boolean>;
+  cancelSubscription: () => Promise<boolean>;
+  can: (feature: EntitlementFeatureKey, value?: string) => boolean;
+  quota: (feature: EntitlementFeatureKey) => number | null | undefined;
+  reset: () => void;
+}
+
+export const useEntitlementStore = create<EntitlementState>((set, get) => ({
+  entitlements: FREE_ENTITLEMENTS,
+  products: [],
+  isLoading: false,
+  isPurchasing: false,
+  error: null,
+
+  fetchEntitlements: async () => {
+    try {
+      set({ isLoading: true, error: null });
+      const entitlements = await loadEntitlements();
+      set({ entitlements, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching entitlements:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load your plan',
+        isLoading: false,
+      });
+    }
+  },
+
+  fetchProducts: async () => {
+    try {
+      const products = await getPurchaseProvider().getProducts();
+      set({ products });
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to load plans' });
+    }
+  },
+
+  subscribe: async (productId: string) => {
+    set({ isPurchasing: true, error: null });
+    try {
+      const result = await getPurchaseProvider().purchaseSubscription(productId);
+      if (!result.success) {
+        set({ error: result.error || 'Purchase failed', isPurchasing: false });
+        return false;
+      }
+
+      if (result.balance !== undefined) {
+        useTokenStore.getState().setBalance(result.balance);
+      }
+      await get().fetchEntitlements();
+      set({ isPurchasing: false });
+      return true;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Purchase failed',
+        isPurchasing: false,
+      });
+      return false;
+    }
+  },
+
+  // Store subscriptions are canceled in the store itself; only the stub
+  // provider can cancel from here
+  cancelSubscription: async () => {
+    const provider = getPurchaseProvider();
+    if (!provider.cancelSubscription) return false;
+
+    set({ isPurchasing: true, error: null });
+    try {
+      const result = await provider.cancelSubscription();
+      if (!result.success) {
+        set({ error: result.error || 'Cancel failed', isPurchasing: false });
+        return false;
+      }
+
+      await get().fetchEntitlements();
+      set({ isPurchasing: false });
+      return true;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Cancel failed',
+        isPurchasing: false,
+      });
+      return false;
+    }
+  },
+
+  can: (feature: EntitlementFeatureKey, value?: string) => isEntitled(get().entitlements, feature, value),
+
+  quota: (feature: EntitlementFeatureKey) => getQuota(get().entitlements, feature),
+
+  reset: () => {
+    clearEntitlements();
+    set({ entitlements: FREE_ENTITLEMENTS, products: [], error: null });
+  },
+}));
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
 import { TokenManager } from '../lib/tokenManager';
+import { useTokenStore } from './tokenStore';
 
 interface Achievement {
   id: string;
@@ -225,13 +226,8 @@ export const useGamificationStore = create<GamificationState>((set, get) => ({
                 max_progress: trigger.count,
               }]);
 
-            // Award tokens
-            await TokenManager.addTokens(
-              userId,
-              definition.points,
-              `Achievement unlocked: ${definition.title}`,
-              { achievement_id: definition.id }
-            );
+            // The server pays the reward when it unlocks the achievement
+            useTokenStore.getState().fetchBalance();
 
             // Update local state
             set(state => ({
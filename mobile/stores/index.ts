@@ -2,14 +2,19 @@ export { useAuthStore } from './authStore';
 export { useStoriesStore } from './storiesStore';
 export { useEditorStore } from './editorStore';
 export { useInspirationsStore } from './inspirationsStore';
+export { useStoryBibleStore } from './storyBibleStore';
 export { useDemoStore } from './demoStore';
 export { useOfflineStore, offlineActions } from './offlineStore';
+export { useOfflineLibraryStore } from './offlineLibraryStore';
 export { useTokenStore } from './tokenStore';
 export { useGamificationStore } from './gamificationStore';
 export { usePresenceStore } from './presenceStore';
 export { useRelationshipStore } from './relationshipStore';
 export { useNotificationsStore } from './notificationsStore';
 export { useSettingsStore } from './settingsStore';
+export { useNarrationStore } from './narrationStore';
+export { useCoupleWalletStore } from './coupleWalletStore';
+export { useEntitlementStore } from './entitlementStore';
 export { useABTestStore } from './abTestStore.tsx';
 
 // Store types
@@ -17,12 +22,17 @@ export type { AuthState } from './authStore';
 export type { StoriesState } from './storiesStore';
 export type { EditorState } from './editorStore';
 export type { InspirationsState } from './inspirationsStore';
+export type { StoryBibleState } from './storyBibleStore';
 export type { DemoState } from './demoStore';
 export type { OfflineState } from './offlineStore';
+export type { OfflineLibraryState } from './offlineLibraryStore';
 export type { TokenState } from './tokenStore';
 export type { GamificationState } from './gamificationStore';
 export type { PresenceState } from './presenceStore';
 export type { RelationshipState } from './relationshipStore';
 export type { NotificationsState } from './notificationsStore';
 export type { SettingsState } from './settingsStore';
+export type { NarrationState } from './narrationStore';
+export type { CoupleWalletState } from './coupleWalletStore';
+export type { EntitlementState } from './entitlementStore';
 export type { ABTestState } from './abTestStore.tsx';
\ No newline at end of file
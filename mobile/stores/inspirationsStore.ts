@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { supabase } from '@/lib/supabase';
 import { Inspiration } from '@/lib/types';
+import { isNetworkError } from '@/lib/outbox';
+import { useOfflineStore } from './offlineStore';
+import { useOfflineLibraryStore } from './offlineLibraryStore';
 
 interface InspirationsState {
   inspirations: Inspiration[];
@@ -19,12 +22,22 @@ export const useInspirationsStore = create<InspirationsState>((set, get) => ({
   fetchInspirations: async (storyId: string) => {
     set({ isLoading: true, error: null });
     try {
+      // Offline, a downloaded story's inspirations are read from the device
+      if (!useOfflineStore.getState().isConnected) {
+        set({ inspirations: await useOfflineLibraryStore.getState().loadInspirations(storyId) });
+        return;
+      }
+
       const { data, error } = await supabase
         .from('inspirations')
-        .select('*')
+        .select('*, woven_chapter:chapters!woven_chapter_id(id, chapter_number)')
         .eq('story_id', storyId)
         .order('created_at', { ascending: false });
 
+      if (error && isNetworkError(error)) {
+        set({ inspirations: await useOfflineLibraryStore.getState().loadInspirations(storyId) });
+        return;
+      }
       if (error) throw error;
 
       set({ inspirations: data || [] });
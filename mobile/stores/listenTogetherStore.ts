@@ -0,0 +1,487 @@
+import { create } from 'zustand';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { realtime, PresenceData, StoryChannelOptions } from '@/lib/realtime';
+import {
+  ListenEvent,
+  ListenParticipant,
+  ListenPlaybackState,
+  ListenSource,
+  HOST_HEARTBEAT_MS,
+  HOST_TIMEOUT_MS,
+  correctDrift,
+  createSessionId,
+  electHost,
+  expectedPosition,
+} from '@/lib/listenTogether';
+import { useNarrationStore, voiceNoteQueueId, isVoiceNoteQueueId, NarrationState } from './narrationStore';
+
+type ListenStateEvent = Extract<ListenEvent, { type: 'state' }>;
+
+// A session other members are in, which this user can join
+export interface ListenSessionInvite {
+  sessionId: string;
+  userIds: string[];
+}
+
+export interface ListenTogetherState {
+  storyId: string | null;
+  userId: string | null;
+
+  sessionId: string | null;
+  role: 'host' | 'follower' | null;
+  hostId: string | null;
+  participants: ListenParticipant[];
+  invite: ListenSessionInvite | null;
+  error: string | null;
+
+  // Join the story channel so sessions can be seen and joined
+  watch: (storyId: string) => Promise<void>;
+  unwatch: () => Promise<void>;
+
+  startSession: () => Promise<void>;
+  joinSession: (sessionId: string) => Promise<void>;
+  leaveSession: () => Promise<void>;
+}
+
+// Connection for the watched story
+let channel: RealtimeChannel | null = null;
+let channelOptions: StoryChannelOptions | null = null;
+let presences: Map<string, PresenceData> = new Map();
+
+// When this user joined the current session; decides who hosts next
+let joinedAt = 0;
+
+// Host heartbeat, or the follower's host watchdog
+let timer: ReturnType<typeof setInterval> | null = null;
+let unsubscribeNarration: (() => void) | null = null;
+
+// Highest state seq seen, so states from a previous host are ignored
+let lastSeq = 0;
+let hostLastHeard = 0;
+
+// A follower reaches the end of a segment a moment before the host's state
+// says so; it is allowed to run ahead this far instead of being pulled back
+const SEGMENT_END_GRACE_MS = 800;
+
+// Followers apply one state at a time; newer states wait here
+let applying = false;
+let pendingState: { event: ListenStateEvent; receivedAt: number } | null = null;
+
+export const useListenTogetherStore = create<ListenTogetherState>((set, get) => {
+  const clearTimer = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    if (unsubscribeNarration) {
+      unsubscribeNarration();
+      unsubscribeNarration = null;
+    }
+  };
+
+  const send = (event: ListenEvent) => {
+    const { storyId } = get();
+    if (!storyId) return;
+    realtime.sendListenEvent(storyId, event, channel || undefined)?.catch(error => {
+      console.error('Error sending listen event:', error);
+    });
+  };
+
+  const trackPresence = async (sessionId: string | null) => {
+    const { storyId, userId } = get();
+    if (!storyId || !userId) return;
+
+    try {
+      await realtime.trackPresence(storyId, {
+        id: userId,
+        status: 'online',
+        typing: false,
+        lastSeen: Date.now(),
+        listening: sessionId ? { sessionId, since: joinedAt } : undefined,
+      }, channel || undefined);
+    } catch (error) {
+      console.error('Error tracking listen presence:', error);
+    }
+  };
+
+  // What the host's player is doing right now, in the shape followers expect
+  const readPlaybackState = async (narration: NarrationState): Promise<ListenPlaybackState | null> => {
+    const { current } = narration;
+    if (!current || narration.storyId !== get().storyId) return null;
+
+    const playing = narration.narrations[current.chapterId];
+    const segment = playing?.segments[current.segmentIndex];
+    let source: ListenSource = { kind: 'narration', chapterId: current.chapterId };
+
+    if (playing?.provider === 'voice_note' && segment) {
+      const note = narration.voiceNotes.find(n => n.mediaId === segment.mediaId);
+      if (!note) return null;
+      source = {
+        kind: 'voice_note',
+        chapterId: note.chapterId,
+        chapterNumber: note.chapterNumber,
+        mediaId: note.mediaId,
+        userId: note.userId,
+        url: note.url,
+        durationMs: note.durationMs,
+      };
+    }
+
+    return {
+      source,
+      segmentIndex: current.segmentIndex,
+      positionMillis: await useNarrationStore.getState().getPositionMillis(),
+      isPlaying: narration.isPlaying,
+      rate: narration.rate,
+    };
+  };
+
+  const broadcastState = async () => {
+    const { sessionId, userId, role } = get();
+    if (role !== 'host' || !sessionId || !userId) return;
+
+    const narration = useNarrationStore.getState();
+    const state = await readPlaybackState(narration);
+    if (!state) return;
+
+    lastSeq += 1;
+    send({
+      type: 'state',
+      sessionId,
+      hostId: userId,
+      seq: lastSeq,
+      chapters: narration.chapters.filter(c => !isVoiceNoteQueueId(c.id)),
+      state,
+    });
+  };
+
+  const startHosting = () => {
+    clearTimer();
+    timer = setInterval(broadcastState, HOST_HEARTBEAT_MS);
+
+    // Play, pause, seek, speed and track changes go out straight away
+    unsubscribeNarration = useNarrationStore.subscribe((state, prev) => {
+      const jumped = Math.abs(state.positionMillis - prev.positionMillis) > 1500;
+      if (
+        state.current?.chapterId !== prev.current?.chapterId ||
+        state.current?.segmentIndex !== prev.current?.segmentIndex ||
+        state.isPlaying !== prev.isPlaying ||
+        state.rate !== prev.rate ||
+        jumped
+      ) {
+        broadcastState();
+      }
+    });
+  };
+
+  const startWatchdog = () => {
+    clearTimer();
+    hostLastHeard = Date.now();
+    timer = setInterval(() => {
+      const { hostId } = get();
+      if (hostId && Date.now() - hostLastHeard > HOST_TIMEOUT_MS) {
+        handOff(hostId);
+      }
+    }, HOST_HEARTBEAT_MS);
+  };
+
+  // The host left or went quiet: everyone elects the same successor
+  const handOff = (goneHostId: string) => {
+    const { userId, participants } = get();
+    const candidates = participants.filter(p => p.userId !== goneHostId);
+    if (userId && !candidates.some(p => p.userId === userId)) {
+      candidates.push({ userId, since: joinedAt });
+    }
+
+    const nextHost = electHost(candidates);
+    set({ hostId: nextHost, participants: candidates });
+
+    if (nextHost === userId) {
+      useNarrationStore.getState().nudgeRate(1);
+      set({ role: 'host' });
+      startHosting();
+      broadcastState();
+    } else {
+      // Give the new host a full timeout to start broadcasting
+      hostLastHeard = Date.now();
+    }
+  };
+
+  // True when this player already moved on to the track after the host's,
+  // and the host is about to do the same
+  const isJustAhead = (narration: NarrationState, event: ListenStateEvent, receivedAt: number) => {
+    const { state } = event;
+    const { current } = narration;
+    if (state.source.kind !== 'narration' || !current || !state.isPlaying) return false;
+
+    const hostNarration = narration.narrations[state.source.chapterId];
+    const hostSegment = hostNarration?.segments[state.segmentIndex];
+    if (!hostNarration || !hostSegment) return false;
+
+    const remaining = hostSegment.durationMs - expectedPosition(state, receivedAt);
+    if (remaining > SEGMENT_END_GRACE_MS) return false;
+
+    if (state.segmentIndex + 1 < hostNarration.segments.length) {
+      return current.chapterId === state.source.chapterId && current.segmentIndex === state.segmentIndex + 1;
+    }
+    const hostChapter = event.chapters.findIndex(c => c.id === state.source.chapterId);
+    return current.segmentIndex === 0 && event.chapters[hostChapter + 1]?.id === current.chapterId;
+  };
+
+  // Bring this player in line with the host's state
+  const applyState = async (event: ListenStateEvent, receivedAt: number) => {
+    const { storyId } = get();
+    if (!storyId) return;
+
+    const narration = useNarrationStore.getState();
+    const { state } = event;
+
+    if (narration.rate !== state.rate) {
+      await narration.setRate(state.rate);
+    }
+
+    // Which queue entry the host's source is, in this player
+    const queueId = state.source.kind === 'voice_note' ? voiceNoteQueueId(state.source.mediaId) : state.source.chapterId;
+    const onSameTrack =
+      narration.storyId === storyId &&
+      narration.current?.chapterId === queueId &&
+      narration.current.segmentIndex === state.segmentIndex &&
+      !narration.isLoading;
+
+    if (!onSameTrack && isJustAhead(narration, event, receivedAt)) return;
+
+    if (!onSameTrack) {
+      const position = expectedPosition(state, receivedAt);
+      if (state.source.kind === 'voice_note') {
+        const { source } = state;
+        await narration.playVoiceNote(storyId, {
+          mediaId: source.mediaId,
+          chapterId: source.chapterId,
+          chapterNumber: source.chapterNumber,
+          userId: source.userId,
+          url: source.url,
+          durationMs: source.durationMs,
+          caption: null,
+        }, position, state.isPlaying);
+      } else {
+        await narration.cue(
+          storyId,
+          event.chapters,
+          { chapterId: state.source.chapterId, segmentIndex: state.segmentIndex },
+          position,
+          state.isPlaying
+        );
+      }
+      return;
+    }
+
+    const current = { chapterId: queueId, segmentIndex: state.segmentIndex };
+
+    if (narration.isPlaying !== state.isPlaying) {
+      await narration.seekTo(current, Math.round(expectedPosition(state, receivedAt)));
+      await narration.togglePlayback();
+      return;
+    }
+
+    const local = await narration.getPositionMillis();
+    const correction = correctDrift(local, expectedPosition(state, receivedAt));
+
+    if (correction.action === 'seek' || (correction.action === 'nudge' && !state.isPlaying)) {
+      await narration.nudgeRate(1);
+      await narration.seekTo(current, Math.round(expectedPosition(state, receivedAt)));
+    } else if (correction.action === 'nudge') {
+      await narration.nudgeRate(correction.factor);
+    } else {
+      await narration.nudgeRate(1);
+    }
+  };
+
+  const queueApply = async (event: ListenStateEvent, receivedAt: number) => {
+    if (applying) {
+      pendingState = { event, receivedAt };
+      return;
+    }
+
+    applying = true;
+    try {
+      let next: { event: ListenStateEvent; receivedAt: number } | null = { event, receivedAt };
+      while (next) {
+        pendingState = null;
+        await applyState(next.event, next.receivedAt);
+        next = pendingState;
+      }
+    } catch (error) {
+      console.error('Error following listen-together host:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to stay in sync' });
+    } finally {
+      applying = false;
+    }
+  };
+
+  const handleListenEvent = (event: ListenEvent) => {
+    const { sessionId, role, hostId, userId } = get();
+    if (!sessionId || event.sessionId !== sessionId) return;
+
+    switch (event.type) {
+      case 'state': {
+        if (event.seq <= lastSeq) return;
+        lastSeq = event.seq;
+        const receivedAt = Date.now();
+        hostLastHeard = receivedAt;
+
+        if (event.hostId === userId) return;
+        if (role === 'host') {
+          // Two hosts after a split: the newer state wins
+          set({ role: 'follower', hostId: event.hostId });
+          startWatchdog();
+        } else if (hostId !== event.hostId) {
+          set({ hostId: event.hostId });
+        }
+        queueApply(event, receivedAt);
+        break;
+      }
+      case 'join':
+        if (role === 'host') broadcastState();
+        break;
+      case 'leave':
+        set({ participants: get().participants.filter(p => p.userId !== event.userId) });
+        if (event.userId === hostId) handOff(event.userId);
+        break;
+    }
+  };
+
+  const handlePresenceChange = (next: Map<string, PresenceData>) => {
+    presences = next;
+    const { sessionId, userId, role, hostId } = get();
+
+    // Sessions this user could join
+    const sessions = new Map<string, string[]>();
+    next.forEach(p => {
+      if (p.listening && p.id !== userId) {
+        sessions.set(p.listening.sessionId, [...(sessions.get(p.listening.sessionId) || []), p.id]);
+      }
+    });
+    const [invite] = [...sessions.entries()]
+      .filter(([id]) => id !== sessionId)
+      .map(([id, userIds]) => ({ sessionId: id, userIds }));
+    set({ invite: invite || null });
+
+    if (!sessionId) return;
+
+    const participants: ListenParticipant[] = [];
+    next.forEach(p => {
+      if (p.listening?.sessionId === sessionId) {
+        participants.push({ userId: p.id, since: p.listening.since });
+      }
+    });
+    set({ participants });
+
+    if (role === 'follower' && hostId && !participants.some(p => p.userId === hostId)) {
+      handOff(hostId);
+    }
+  };
+
+  return {
+    storyId: null,
+    userId: null,
+    sessionId: null,
+    role: null,
+    hostId: null,
+    participants: [],
+    invite: null,
+    error: null,
+
+    watch: async (storyId: string) => {
+      if (get().storyId === storyId && channel) return;
+      if (get().storyId) {
+        await get().unwatch();
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      set({ storyId, userId: user.id, error: null });
+
+      channelOptions = {
+        onPresenceChange: handlePresenceChange,
+        onListen: handleListenEvent,
+        onError: (error) => set({ error: error.message }),
+      };
+      channel = await realtime.connectToStory(storyId, channelOptions);
+      await trackPresence(null);
+    },
+
+    unwatch: async () => {
+      const { storyId } = get();
+      await get().leaveSession();
+
+      if (storyId && channelOptions) {
+        try {
+          await channel?.untrack();
+        } catch (error) {
+          console.error('Error clearing listen presence:', error);
+        }
+        await realtime.disconnectFromStory(storyId, channelOptions);
+      }
+
+      channel = null;
+      channelOptions = null;
+      presences = new Map();
+      set({ storyId: null, invite: null, participants: [] });
+    },
+
+    startSession: async () => {
+      const { storyId, userId } = get();
+      if (!storyId || !userId) {
+        throw new Error('Open a story to listen together');
+      }
+
+      const sessionId = createSessionId();
+      joinedAt = Date.now();
+      set({
+        sessionId,
+        role: 'host',
+        hostId: userId,
+        participants: [{ userId, since: joinedAt }],
+        error: null,
+      });
+
+      await trackPresence(sessionId);
+      startHosting();
+      await broadcastState();
+    },
+
+    joinSession: async (sessionId: string) => {
+      const { storyId, userId } = get();
+      if (!storyId || !userId) {
+        throw new Error('Open a story to listen together');
+      }
+
+      joinedAt = Date.now();
+      lastSeq = 0;
+      set({ sessionId, role: 'follower', hostId: null, error: null });
+
+      await trackPresence(sessionId);
+      handlePresenceChange(presences);
+      startWatchdog();
+      send({ type: 'join', sessionId, userId });
+    },
+
+    leaveSession: async () => {
+      const { sessionId, userId } = get();
+      if (!sessionId) return;
+
+      clearTimer();
+      if (userId) {
+        send({ type: 'leave', sessionId, userId });
+      }
+      useNarrationStore.getState().nudgeRate(1);
+
+      pendingState = null;
+      set({ sessionId: null, role: null, hostId: null, participants: [] });
+      await trackPresence(null);
+      handlePresenceChange(presences);
+    },
+  };
+});
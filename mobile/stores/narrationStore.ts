@@ -0,0 +1,480 @@
+import { create } from 'zustand';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { supabase } from '@/lib/supabase';
+import { aiClient, AIChapterNarration, AINarrationVoice } from '@/lib/aiClient';
+import { NarrationSpeakerType, StoryVoice } from '@/lib/types';
+import { useTokenStore } from './tokenStore';
+
+// Chapters in the order the audiobook plays them
+export interface NarrationChapter {
+  id: string;
+  chapter_number: number;
+}
+
+// Where playback is: a segment of a chapter's narration
+export interface NarrationPosition {
+  chapterId: string;
+  segmentIndex: number;
+}
+
+// A partner's recording attached to a chapter (a chapter_media audio row)
+export interface NarrationVoiceNote {
+  mediaId: string;
+  chapterId: string;
+  chapterNumber: number;
+  userId: string;
+  url: string;
+  durationMs: number;
+  caption: string | null;
+}
+
+// Voice notes play through the same queue as a one-segment narration
+const VOICE_NOTE_PREFIX = 'voice-note:';
+export const voiceNoteQueueId = (mediaId: string) => `${VOICE_NOTE_PREFIX}${mediaId}`;
+export const isVoiceNoteQueueId = (id: string) => id.startsWith(VOICE_NOTE_PREFIX);
+
+export interface NarrationState {
+  storyId: string | null;
+
+  // Voices offered by the TTS provider and the ones this story picked
+  provider: string | null;
+  voices: AINarrationVoice[];
+  defaultVoiceId: string | null;
+  storyVoices: StoryVoice[];
+  characters: { id: string; name: string }[];
+  isLoadingVoices: boolean;
+  voiceNotes: NarrationVoiceNote[];
+
+  // Audiobook queue
+  chapters: NarrationChapter[];
+  narrations: Record<string, AIChapterNarration>;
+  current: NarrationPosition | null;
+  positionMillis: number;
+  rate: number;
+  isPlaying: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  loadVoices: (storyId: string) => Promise<void>;
+  loadVoiceNotes: (storyId: string) => Promise<void>;
+  setVoice: (storyId: string, speakerType: NarrationSpeakerType, speakerId: string | null, voiceId: string | null) => Promise<void>;
+  playStory: (storyId: string, chapters: NarrationChapter[], startChapterId?: string) => Promise<void>;
+  playVoiceNote: (storyId: string, note: NarrationVoiceNote, positionMillis?: number, play?: boolean) => Promise<void>;
+  cue: (storyId: string, chapters: NarrationChapter[], position: NarrationPosition, positionMillis: number, play: boolean) => Promise<void>;
+  setRate: (rate: number) => Promise<void>;
+  nudgeRate: (factor: number) => Promise<void>;
+  getPositionMillis: () => Promise<number>;
+  togglePlayback: () => Promise<void>;
+  seekTo: (position: NarrationPosition, positionMillis: number) => Promise<void>;
+  skipToChapter: (chapterId: string) => Promise<void>;
+  nextChapter: () => Promise<void>;
+  previousChapter: () => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+// Only one narration plays at a time, across every screen
+let sound: Audio.Sound | null = null;
+
+// Bumped on every load, so callbacks from a replaced sound are ignored
+let playbackToken = 0;
+
+// Small speed-up or slow-down on top of the chosen rate, used to catch up
+// with a listen-together host without an audible jump
+let rateNudge = 1;
+
+// Chapters being narrated right now, so a prefetch and a skip share one request
+const pendingNarrations = new Map<string, Promise<AIChapterNarration>>();
+
+export const useNarrationStore = create<NarrationState>((set, get) => {
+  const chapterAfter = (chapterId: string, offset: number) => {
+    const { chapters } = get();
+    const index = chapters.findIndex(c => c.id === chapterId);
+    return index === -1 ? undefined : chapters[index + offset];
+  };
+
+  const ensureNarration = (chapterId: string): Promise<AIChapterNarration> => {
+    const existing = get().narrations[chapterId];
+    if (existing) return Promise.resolve(existing);
+
+    const pending = pendingNarrations.get(chapterId);
+    if (pending) return pending;
+
+    if (isVoiceNoteQueueId(chapterId)) {
+      return Promise.reject(new Error('Voice note is no longer available'));
+    }
+
+    const request = aiClient.narrateChapter(chapterId)
+      .then((narration) => {
+        // The server charges only for new audio; pick up the new balance
+        if (narration.tokensCharged > 0) {
+          useTokenStore.getState().fetchBalance();
+        }
+        set({ narrations: { ...get().narrations, [chapterId]: narration } });
+        return narration;
+      })
+      .finally(() => pendingNarrations.delete(chapterId));
+
+    pendingNarrations.set(chapterId, request);
+    return request;
+  };
+
+  const unloadSound = async () => {
+    const previous = sound;
+    sound = null;
+    if (previous) {
+      try {
+        await previous.unloadAsync();
+      } catch (error) {
+        console.error('Error unloading narration:', error);
+      }
+    }
+  };
+
+  // Move on when a segment ends: the next segment, then the next chapter
+  const advance = () => {
+    const { current, narrations } = get();
+    if (!current) return;
+
+    const narration = narrations[current.chapterId];
+    if (narration && current.segmentIndex + 1 < narration.segments.length) {
+      loadSegment({ chapterId: current.chapterId, segmentIndex: current.segmentIndex + 1 }, 0, true);
+      return;
+    }
+
+    const next = chapterAfter(current.chapterId, 1);
+    if (next) {
+      loadSegment({ chapterId: next.id, segmentIndex: 0 }, 0, true);
+    } else {
+      // End of the story: rewind so play starts over
+      const first = get().chapters[0];
+      unloadSound();
+      set({ isPlaying: false, positionMillis: 0, current: first ? { chapterId: first.id, segmentIndex: 0 } : null });
+    }
+  };
+
+  const loadSegment = async (position: NarrationPosition, positionMillis: number, play: boolean) => {
+    const token = ++playbackToken;
+    rateNudge = 1;
+    set({ isLoading: true, error: null, current: position, positionMillis });
+
+    try {
+      const narration = await ensureNarration(position.chapterId);
+      if (token !== playbackToken) return;
+
+      const segment = narration.segments[position.segmentIndex];
+      if (!segment) {
+        throw new Error(`Chapter ${narration.chapterNumber} has no narration`);
+      }
+
+      await unloadSound();
+      const { sound: next } = await Audio.Sound.createAsync(
+        { uri: segment.url },
+        { shouldPlay: play, positionMillis, rate: get().rate, shouldCorrectPitch: true, progressUpdateIntervalMillis: 500 },
+        (status: AVPlaybackStatus) => {
+          if (token !== playbackToken || !status.isLoaded) return;
+          set({ positionMillis: status.positionMillis });
+          if (status.didJustFinish) advance();
+        }
+      );
+
+      if (token !== playbackToken) {
+        await next.unloadAsync();
+        return;
+      }
+
+      sound = next;
+      set({ isPlaying: play });
+
+      // Fetch the next chapter while the last part of this one plays
+      if (position.segmentIndex === narration.segments.length - 1) {
+        const following = chapterAfter(position.chapterId, 1);
+        if (following) {
+          ensureNarration(following.id).catch(error => console.error('Error preparing next chapter:', error));
+        }
+      }
+    } catch (error) {
+      if (token !== playbackToken) return;
+      console.error('Error playing narration:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to play narration', isPlaying: false });
+    } finally {
+      if (token === playbackToken) {
+        set({ isLoading: false });
+      }
+    }
+  };
+
+  return {
+    storyId: null,
+    provider: null,
+    voices: [],
+    defaultVoiceId: null,
+    storyVoices: [],
+    characters: [],
+    isLoadingVoices: false,
+    voiceNotes: [],
+    chapters: [],
+    narrations: {},
+    current: null,
+    positionMillis: 0,
+    rate: 1,
+    isPlaying: false,
+    isLoading: false,
+    error: null,
+
+    loadVoices: async (storyId: string) => {
+      set({ isLoadingVoices: true, error: null });
+      try {
+        const [available, { data: storyVoices, error: voicesError }, { data: characters }] = await Promise.all([
+          aiClient.getNarrationVoices(),
+          supabase.from('story_voices').select('*').eq('story_id', storyId),
+          supabase.from('story_characters').select('id, name').eq('story_id', storyId).order('name'),
+        ]);
+
+        if (voicesError) throw voicesError;
+
+        set({
+          provider: available.provider,
+          voices: available.voices,
+          defaultVoiceId: available.defaultVoiceId,
+          storyVoices: (storyVoices || []) as unknown as StoryVoice[],
+          characters: (characters || []) as unknown as { id: string; name: string }[],
+        });
+      } catch (error) {
+        console.error('Error loading narration voices:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to load voices' });
+      } finally {
+        set({ isLoadingVoices: false });
+      }
+    },
+
+    loadVoiceNotes: async (storyId: string) => {
+      try {
+        const { data, error } = await supabase
+          .from('chapter_media')
+          .select('id, chapter_id, user_id, storage_path, caption, dimensions, metadata, created_at, chapter:chapters!inner(story_id, chapter_number)')
+          .eq('media_type', 'audio')
+          .eq('chapter.story_id', storyId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        const voiceNotes = ((data || []) as any[])
+          // Narration audio lives in the same table; only recordings are voice notes
+          .filter(row => !row.metadata?.narration)
+          .map(row => ({
+            mediaId: row.id,
+            chapterId: row.chapter_id,
+            chapterNumber: row.chapter?.chapter_number || 0,
+            userId: row.user_id,
+            url: supabase.storage.from('media').getPublicUrl(row.storage_path).data.publicUrl,
+            durationMs: Math.round((row.dimensions?.duration || 0) * 1000),
+            caption: row.caption,
+          }))
+          .sort((a, b) => a.chapterNumber - b.chapterNumber);
+
+        set({ voiceNotes });
+      } catch (error) {
+        console.error('Error loading voice notes:', error);
+      }
+    },
+
+    // A null voiceId goes back to the default for that speaker
+    setVoice: async (storyId, speakerType, speakerId, voiceId) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { provider, storyVoices } = get();
+
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!provider) {
+        throw new Error('Voices are not loaded yet');
+      }
+
+      const existing = storyVoices.find(v => v.speaker_type === speakerType && v.speaker_id === speakerId);
+
+      if (!voiceId) {
+        if (existing) {
+          const { error } = await supabase.from('story_voices').delete().eq('id', existing.id);
+          if (error) throw error;
+        }
+      } else if (existing) {
+        const { error } = await supabase
+          .from('story_voices')
+          .update({ provider, voice_id: voiceId, updated_by: user.id, updated_at: new Date().toISOString() })
+          .eq('id', existing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('story_voices')
+          .insert({
+            story_id: storyId,
+            speaker_type: speakerType,
+            speaker_id: speakerId,
+            provider,
+            voice_id: voiceId,
+            updated_by: user.id,
+          });
+        if (error) throw error;
+      }
+
+      // Narrations made with the old voice no longer apply
+      const voiceNoteEntries = Object.entries(get().narrations).filter(([id]) => isVoiceNoteQueueId(id));
+      set({ narrations: Object.fromEntries(voiceNoteEntries) });
+      await get().loadVoices(storyId);
+    },
+
+    playStory: async (storyId, chapters, startChapterId) => {
+      if (chapters.length === 0) return;
+
+      if (get().storyId !== storyId) {
+        await get().stop();
+        set({ storyId, narrations: {} });
+      }
+      set({ chapters });
+
+      await Audio.setAudioModeAsync({
+        playsInSilentModeIOS: true,
+        staysActiveInBackground: true,
+      });
+
+      const start = chapters.find(c => c.id === startChapterId) || chapters[0];
+      await loadSegment({ chapterId: start.id, segmentIndex: 0 }, 0, true);
+    },
+
+    playVoiceNote: async (storyId, note, positionMillis = 0, play = true) => {
+      const queueId = voiceNoteQueueId(note.mediaId);
+
+      if (get().storyId !== storyId) {
+        await get().stop();
+        set({ storyId, narrations: {} });
+      }
+
+      // A voice note plays on its own, as a queue of one
+      set({
+        chapters: [{ id: queueId, chapter_number: note.chapterNumber }],
+        narrations: {
+          ...get().narrations,
+          [queueId]: {
+            chapterId: queueId,
+            chapterNumber: note.chapterNumber,
+            provider: 'voice_note',
+            durationMs: note.durationMs,
+            segments: [{
+              mediaId: note.mediaId,
+              url: note.url,
+              speakerType: 'partner',
+              speakerId: note.userId,
+              voiceId: '',
+              durationMs: note.durationMs,
+            }],
+            cached: true,
+            tokensCharged: 0,
+          },
+        },
+      });
+
+      await Audio.setAudioModeAsync({
+        playsInSilentModeIOS: true,
+        staysActiveInBackground: true,
+      });
+
+      await loadSegment({ chapterId: queueId, segmentIndex: 0 }, positionMillis, play);
+    },
+
+    // Load a position without going through the chapter list, e.g. to follow
+    // a listen-together host
+    cue: async (storyId, chapters, position, positionMillis, play) => {
+      if (get().storyId !== storyId) {
+        await get().stop();
+        set({ storyId, narrations: {} });
+      }
+      set({ chapters });
+      await loadSegment(position, positionMillis, play);
+    },
+
+    setRate: async (rate: number) => {
+      set({ rate });
+      if (sound) {
+        await sound.setRateAsync(rate * rateNudge, true);
+      }
+    },
+
+    nudgeRate: async (factor: number) => {
+      if (factor === rateNudge) return;
+      rateNudge = factor;
+      if (sound) {
+        await sound.setRateAsync(get().rate * factor, true);
+      }
+    },
+
+    // Exact position of the sound playing, rather than the last progress update
+    getPositionMillis: async () => {
+      if (sound) {
+        const status = await sound.getStatusAsync();
+        if (status.isLoaded) return status.positionMillis;
+      }
+      return get().positionMillis;
+    },
+
+    togglePlayback: async () => {
+      const { current, positionMillis, isPlaying } = get();
+
+      if (!sound) {
+        if (current) {
+          await loadSegment(current, positionMillis, true);
+        }
+        return;
+      }
+
+      if (isPlaying) {
+        await sound.pauseAsync();
+        set({ isPlaying: false });
+      } else {
+        await sound.playAsync();
+        set({ isPlaying: true });
+      }
+    },
+
+    seekTo: async (position, positionMillis) => {
+      const { current, isPlaying } = get();
+      if (
+        sound &&
+        current?.chapterId === position.chapterId &&
+        current.segmentIndex === position.segmentIndex
+      ) {
+        await sound.setPositionAsync(positionMillis);
+        set({ positionMillis });
+        return;
+      }
+      await loadSegment(position, positionMillis, isPlaying);
+    },
+
+    skipToChapter: async (chapterId: string) => {
+      await loadSegment({ chapterId, segmentIndex: 0 }, 0, true);
+    },
+
+    nextChapter: async () => {
+      const { current } = get();
+      const next = current && chapterAfter(current.chapterId, 1);
+      if (next) {
+        await loadSegment({ chapterId: next.id, segmentIndex: 0 }, 0, get().isPlaying);
+      }
+    },
+
+    // Like a music player: restart the chapter, or go back one if at its start
+    previousChapter: async () => {
+      const { current, positionMillis, isPlaying } = get();
+      if (!current) return;
+
+      const atStart = current.segmentIndex === 0 && positionMillis < 3000;
+      const target = atStart ? chapterAfter(current.chapterId, -1) : undefined;
+      await loadSegment({ chapterId: target?.id || current.chapterId, segmentIndex: 0 }, 0, isPlaying);
+    },
+
+    stop: async () => {
+      playbackToken++;
+      await unloadSound();
+      set({ current: null, positionMillis: 0, isPlaying: false, isLoading: false });
+    },
+  };
+});
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { supabase } from '@/lib/supabase';
 import { offlineActions } from './offlineStore';
+import { isNetworkError } from '@/lib/outbox';
 import { AppError, Notification as NotificationType, NotificationPreferences } from '@/lib/types';
 import { useAuthStore } from './authStore';
 
@@ -201,7 +202,7 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
       await get().performAction(notificationId, 'viewed');
 
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429') {
+      if (isNetworkError(error)) {
         // Queue for offline sync
         await offlineActions.updateNotification(user.id, notificationId, { read_at: new Date().toISOString() });
 
@@ -254,7 +255,7 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
       }));
 
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429') {
+      if (isNetworkError(error)) {
         // Queue all unread notifications for offline sync
         const unreadIds = get().notifications.filter(n => !n.read_at).map(n => n.id);
         for (const id of unreadIds) {
@@ -342,7 +343,7 @@ export const useNotificationsStore = create<NotificationsState>((set, get) => ({
       set({ preferences: updatedPreferences });
 
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429') {
+      if (isNetworkError(error)) {
         // Queue for offline sync
         await offlineActions.updatePreferences(user.id, { notification_preferences: updatedPreferences });
 
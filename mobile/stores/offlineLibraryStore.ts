@@ -0,0 +1,390 @@
+import { create } from 'zustand';
+import * as FileSystem from 'expo-file-system';
+import { supabase } from '@/lib/supabase';
+import { buildChapterTree } from '@/lib/chapterTree';
+import {
+  OFFLINE_MEDIA_DIRECTORY,
+  deleteMediaFiles,
+  getDownload,
+  getMediaFiles,
+  getRecord,
+  getRecords,
+  getStorageUsage,
+  keepOnlyRecords,
+  listDownloads,
+  putMediaFile,
+  putRecords,
+  removeStoryData,
+  saveDownload,
+} from '@/lib/localDatabase';
+import type {
+  Chapter,
+  ChapterChoice,
+  Inspiration,
+  LocalRecordKind,
+  Media,
+  OfflineStorageUsage,
+  Profile,
+  Story,
+  StoryCharacter,
+  StoryDownload,
+  StoryMember,
+  StoryWithMembers,
+} from '@/lib/types';
+import { useOfflineStore } from './offlineStore';
+
+// A row committed just after a sync can carry an updated_at from before it,
+// so each sync asks again for a few minutes before its cursor
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+const THUMBNAIL_SIZE = 400;
+
+// Tables mirrored row by row, each with its own cursor
+const STORY_TABLES = [
+  { table: 'chapters', kind: 'chapter' },
+  { table: 'chapter_choices', kind: 'choice' },
+  { table: 'story_characters', kind: 'character' },
+  { table: 'inspirations', kind: 'inspiration' },
+] as const;
+
+type SyncedRow = { id: string; updated_at?: string | null };
+
+type ChapterMediaRow = SyncedRow & {
+  chapter_id: string;
+  media_type: string;
+  storage_path: string;
+  status: string;
+  caption: string | null;
+  position: number;
+};
+
+type StoredMember = StoryMember & { id: string; profile: Profile };
+
+export interface OfflineLibraryState {
+  // State
+  downloads: Record<string, StoryDownload>;
+  usage: OfflineStorageUsage;
+  syncingStoryIds: string[];
+
+  // Actions
+  loadDownloads: () => Promise<void>;
+  setStoryDownloaded: (storyId: string, downloaded: boolean) => Promise<void>;
+  syncStory: (storyId: string) => Promise<void>;
+  syncDownloadedStories: () => Promise<void>;
+  loadStory: (storyId: string) => Promise<StoryWithMembers | null>;
+  loadStories: () => Promise<StoryWithMembers[]>;
+  loadInspirations: (storyId: string) => Promise<Inspiration[]>;
+  loadCharacters: (storyId: string) => Promise<StoryCharacter[]>;
+  loadMedia: (storyId: string) => Promise<Media[]>;
+}
+
+const since = (cursor: string) => new Date(new Date(cursor).getTime() - CURSOR_OVERLAP_MS).toISOString();
+
+const newestUpdate = (rows: SyncedRow[], cursor: string | undefined): string | undefined =>
+  rows.reduce<string | undefined>(
+    (newest, row) => (row.updated_at && (!newest || row.updated_at > newest) ? row.updated_at : newest),
+    cursor
+  );
+
+// Rows of a story table changed since the cursor, then every id still on
+// the server so rows deleted there are dropped here too
+const syncStoryTable = async (
+  storyId: string,
+  table: typeof STORY_TABLES[number]['table'],
+  kind: LocalRecordKind,
+  cursor: string | undefined
+): Promise<string | undefined> => {
+  let query = supabase.from(table).select('*').eq('story_id', storyId);
+  if (cursor) {
+    query = query.gt('updated_at', since(cursor));
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as SyncedRow[];
+  await putRecords(kind, storyId, rows);
+
+  const { data: ids, error: idsError } = await supabase.from(table).select('id').eq('story_id', storyId);
+  if (idsError) throw idsError;
+  await keepOnlyRecords(kind, storyId, ((ids || []) as unknown as { id: string }[]).map(row => row.id));
+
+  return newestUpdate(rows, cursor);
+};
+
+const downloadThumbnail = async (storyId: string, row: ChapterMediaRow) => {
+  const { data } = supabase.storage.from('media').getPublicUrl(row.storage_path, {
+    transform: { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, resize: 'cover' },
+  });
+  const directory = `${OFFLINE_MEDIA_DIRECTORY}${storyId}/`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+  const result = await FileSystem.downloadAsync(data.publicUrl, `${directory}${row.id}.jpg`);
+  if (result.status !== 200) {
+    await FileSystem.deleteAsync(result.uri, { idempotent: true });
+    throw new Error(`Thumbnail download failed with status ${result.status}`);
+  }
+
+  const info = await FileSystem.getInfoAsync(result.uri, { size: true });
+  await putMediaFile({
+    mediaId: row.id,
+    storyId,
+    chapterId: row.chapter_id,
+    uri: result.uri,
+    bytes: info.exists ? info.size : 0,
+  });
+};
+
+// Chapter media has no story_id, so it is matched through its chapter.
+// Images in use get a thumbnail on the device; the rest only their row.
+const syncStoryMedia = async (storyId: string, cursor: string | undefined): Promise<string | undefined> => {
+  let query = supabase
+    .from('chapter_media')
+    .select('id, chapter_id, media_type, storage_path, status, caption, position, updated_at, chapter:chapters!inner(story_id)')
+    .eq('chapter.story_id', storyId);
+  if (cursor) {
+    query = query.gt('updated_at', since(cursor));
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const changed = ((data || []) as unknown as (ChapterMediaRow & { chapter?: unknown })[])
+    .map(({ chapter: _chapter, ...row }) => row);
+  await putRecords('media', storyId, changed);
+
+  const { data: ids, error: idsError } = await supabase
+    .from('chapter_media')
+    .select('id, chapter:chapters!inner(story_id)')
+    .eq('chapter.story_id', storyId);
+  if (idsError) throw idsError;
+  await keepOnlyRecords('media', storyId, ((ids || []) as unknown as { id: string }[]).map(row => row.id));
+
+  const media = await getRecords<ChapterMediaRow>('media', storyId);
+  const images = new Map(
+    media
+      .filter(row => row.media_type === 'image' && row.status === 'active')
+      .map(row => [row.id, row])
+  );
+  const changedIds = new Set(changed.map(row => row.id));
+  const files = await getMediaFiles(storyId);
+
+  await deleteMediaFiles(files.filter(file => !images.has(file.mediaId) || changedIds.has(file.mediaId)));
+
+  const kept = new Set(files.filter(file => images.has(file.mediaId) && !changedIds.has(file.mediaId)).map(file => file.mediaId));
+  for (const row of images.values()) {
+    if (kept.has(row.id)) continue;
+    try {
+      await downloadThumbnail(storyId, row);
+    } catch (thumbnailError) {
+      // The text still reads offline; the next sync tries again
+      console.warn(`Could not save thumbnail ${row.id}:`, thumbnailError);
+    }
+  }
+
+  return newestUpdate(changed, cursor);
+};
+
+const byChapterOrder = (a: Chapter, b: Chapter) =>
+  a.chapter_number - b.chapter_number || a.created_at.localeCompare(b.created_at);
+
+export const useOfflineLibraryStore = create<OfflineLibraryState>((set, get) => ({
+  // Initial state
+  downloads: {},
+  usage: { totalBytes: 0, stories: {} },
+  syncingStoryIds: [],
+
+  // Actions
+  loadDownloads: async () => {
+    try {
+      const [downloads, usage] = await Promise.all([listDownloads(), getStorageUsage()]);
+      set({
+        downloads: Object.fromEntries(downloads.map(download => [download.storyId, download])),
+        usage,
+      });
+    } catch (error) {
+      console.error('Error loading offline stories:', error);
+    }
+  },
+
+  // Downloading starts with a full sync; removing drops everything kept
+  setStoryDownloaded: async (storyId: string, downloaded: boolean) => {
+    if (!downloaded) {
+      await removeStoryData(storyId);
+      await get().loadDownloads();
+      return;
+    }
+
+    if (!useOfflineStore.getState().isConnected) {
+      throw new Error('Connect to the internet to download this story');
+    }
+
+    await saveDownload({
+      storyId,
+      title: '',
+      downloadedAt: new Date().toISOString(),
+      syncedAt: null,
+      cursors: {},
+    });
+    try {
+      await get().syncStory(storyId);
+    } catch (error) {
+      await removeStoryData(storyId);
+      await get().loadDownloads();
+      throw error;
+    }
+  },
+
+  // Brings a downloaded story up to date. Stories not downloaded are skipped.
+  syncStory: async (storyId: string) => {
+    if (!useOfflineStore.getState().isConnected || get().syncingStoryIds.includes(storyId)) return;
+
+    const download = await getDownload(storyId);
+    if (!download) return;
+
+    set((state) => ({ syncingStoryIds: [...state.syncingStoryIds, storyId] }));
+
+    try {
+      const { data: story, error: storyError } = await supabase
+        .from('stories')
+        .select('*')
+        .eq('id', storyId)
+        .single();
+      if (storyError) throw storyError;
+
+      const { data: members, error: membersError } = await supabase
+        .from('story_members')
+        .select('*, profile:profiles(*)')
+        .eq('story_id', storyId)
+        .order('turn_order');
+      if (membersError) throw membersError;
+
+      const storyRow = story as unknown as Story;
+      const memberRows = ((members || []) as unknown as (StoryMember & { profile: Profile })[])
+        .map(member => ({ ...member, id: `${storyId}:${member.user_id}` }));
+
+      await putRecords('story', storyId, [storyRow]);
+      await putRecords('member', storyId, memberRows);
+      await keepOnlyRecords('member', storyId, memberRows.map(member => member.id));
+
+      const cursors = { ...download.cursors };
+      for (const { table, kind } of STORY_TABLES) {
+        const cursor = await syncStoryTable(storyId, table, kind, cursors[table]);
+        if (cursor) cursors[table] = cursor;
+      }
+      const mediaCursor = await syncStoryMedia(storyId, cursors.chapter_media);
+      if (mediaCursor) cursors.chapter_media = mediaCursor;
+
+      await saveDownload({
+        ...download,
+        title: storyRow.title,
+        syncedAt: new Date().toISOString(),
+        cursors,
+      });
+    } catch (error) {
+      console.error(`Error syncing offline story ${storyId}:`, error);
+      throw error;
+    } finally {
+      set((state) => ({ syncingStoryIds: state.syncingStoryIds.filter(id => id !== storyId) }));
+      await get().loadDownloads();
+    }
+  },
+
+  syncDownloadedStories: async () => {
+    const downloads = await listDownloads();
+    for (const download of downloads) {
+      try {
+        await get().syncStory(download.storyId);
+      } catch {
+        // Logged by syncStory; the other stories still sync
+      }
+    }
+  },
+
+  // The story as it was at the last sync, shaped like fetchStory's result
+  loadStory: async (storyId: string) => {
+    const story = await getRecord<Story>('story', storyId);
+    if (!story) return null;
+
+    const [members, chapters, choices] = await Promise.all([
+      getRecords<StoredMember>('member', storyId),
+      getRecords<Chapter>('chapter', storyId),
+      getRecords<ChapterChoice>('choice', storyId),
+    ]);
+
+    chapters.sort(byChapterOrder);
+    choices.sort((a, b) => a.position - b.position);
+
+    return {
+      ...story,
+      members: members
+        .map(({ id: _id, ...member }) => member)
+        .sort((a, b) => (a.turn_order ?? Infinity) - (b.turn_order ?? Infinity)),
+      mediaAttachments: [],
+      chapters: chapters.map(chapter => ({
+        ...chapter,
+        choices: choices.filter(choice => choice.chapter_id === chapter.id),
+      })),
+      chapterTree: buildChapterTree(chapters, choices),
+    } as StoryWithMembers;
+  },
+
+  loadStories: async () => {
+    const downloads = await listDownloads();
+    const stories = await Promise.all(downloads.map(download => get().loadStory(download.storyId)));
+    return stories.filter((story): story is StoryWithMembers => story !== null);
+  },
+
+  // Newest first, with the woven chapter looked up locally
+  loadInspirations: async (storyId: string) => {
+    const [inspirations, chapters] = await Promise.all([
+      getRecords<Inspiration>('inspiration', storyId),
+      getRecords<Chapter>('chapter', storyId),
+    ]);
+    const chapterNumbers = new Map(chapters.map(chapter => [chapter.id, chapter.chapter_number]));
+
+    return inspirations
+      .map(inspiration => ({
+        ...inspiration,
+        woven_chapter: inspiration.woven_chapter_id && chapterNumbers.has(inspiration.woven_chapter_id)
+          ? { id: inspiration.woven_chapter_id, chapter_number: chapterNumbers.get(inspiration.woven_chapter_id)! }
+          : null,
+      }))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+
+  loadCharacters: async (storyId: string) => {
+    const characters = await getRecords<StoryCharacter>('character', storyId);
+    return characters.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  // Saved thumbnails, in chapter order, for the media gallery
+  loadMedia: async (storyId: string) => {
+    const [files, media, chapters] = await Promise.all([
+      getMediaFiles(storyId),
+      getRecords<ChapterMediaRow>('media', storyId),
+      getRecords<Chapter>('chapter', storyId),
+    ]);
+    const rows = new Map(media.map(row => [row.id, row]));
+    const chapterNumbers = new Map(chapters.map(chapter => [chapter.id, chapter.chapter_number]));
+
+    return files
+      .filter(file => rows.has(file.mediaId))
+      .sort((a, b) =>
+        (chapterNumbers.get(a.chapterId) ?? 0) - (chapterNumbers.get(b.chapterId) ?? 0) ||
+        rows.get(a.mediaId)!.position - rows.get(b.mediaId)!.position
+      )
+      .map(file => ({
+        id: file.mediaId,
+        uri: file.uri,
+        type: 'image' as const,
+        title: rows.get(file.mediaId)?.caption || undefined,
+        size: file.bytes,
+      }));
+  },
+}));
+
+// Catch downloaded stories up whenever the connection comes back
+useOfflineStore.subscribe((state, prev) => {
+  if (state.isConnected && !prev.isConnected) {
+    useOfflineLibraryStore.getState().syncDownloadedStories()
+      .catch(error => console.error('Offline library sync failed:', error));
+  }
+});
@@ -1,88 +1,65 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { supabase } from '@/lib/supabase';
-import { offlineStorage } from '@/lib/offlineStorage';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  MAX_OUTBOX_ATTEMPTS,
+  OutboxRejectedError,
+  backoffDelay,
+  createClientId,
+  mutationRefs,
+  runMutation,
+} from '@/lib/outbox';
 import type {
-  Chapter,
-  Story,
-  UserStory,
+  OutboxEntry,
+  OutboxMutation,
+  OutboxTable,
   Profile,
-  OfflineAction,
-  OfflineActionType
-} from '@/types/supabase';
+} from '@/lib/types';
 
-interface OfflineStore {
+export interface OfflineState {
   // State
   isConnected: boolean;
   isSyncing: boolean;
-  queue: OfflineAction[];
+  queue: OutboxEntry[];
   lastSyncAt: number | null;
 
   // Actions
   setConnectionStatus: (connected: boolean) => void;
-  addAction: (action: OfflineAction) => Promise<void>;
+  enqueue: (mutation: OutboxMutation, options: EnqueueOptions) => Promise<string>;
   processQueue: () => Promise<void>;
+  retryEntry: (id: string) => Promise<void>;
+  discardEntry: (id: string) => void;
   clearQueue: () => void;
-  removeAction: (id: string) => void;
+  isPending: (clientId: string) => boolean;
   syncOfflineData: () => Promise<void>;
-  retryAction: (id: string) => void;
 }
 
-// Define offline action types
-export interface OfflineAction {
-  id: string;
-  type: OfflineActionType;
-  payload: any;
-  timestamp: number;
-  retries: number;
-  maxRetries: number;
-  status: 'pending' | 'failed' | 'synced';
-  metadata?: Record<string, any>;
+export interface EnqueueOptions {
+  label: string;
+  clientId?: string;
+  coalesceKey?: string;
 }
 
-// Enhanced Supabase client with offline support
-const offlineSupabase = {
-  ...supabase,
-  async from(table: string) {
-    const base = supabase.from(table);
-    return {
-      ...base,
-      async insert(data: any) {
-        try {
-          return await base.insert(data);
-        } catch (error: any) {
-          if (error.code === 'PGRST116' || error.code === '429') {
-            // Network error or rate limit
-            throw error;
-          }
-          throw error;
-        }
-      },
-      async update(data: any) {
-        try {
-          return await base.update(data);
-        } catch (error: any) {
-          if (error.code === 'PGRST116' || error.code === '429') {
-            throw error;
-          }
-          throw error;
-        }
-      },
-      async delete() {
-        try {
-          return await base.delete();
-        } catch (error: any) {
-          if (error.code === 'PGRST116' || error.code === '429') {
-            throw error;
-          }
-          throw error;
-        }
-      }
-    };
+// Wakes the queue when the next backed-off entry is due
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleRetry = (queue: OutboxEntry[], process: () => Promise<void>) => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
   }
+
+  const waiting = queue.filter(entry => entry.status === 'pending');
+  if (waiting.length === 0) return;
+
+  const nextAt = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    process().catch(error => console.error('Outbox retry failed:', error));
+  }, Math.max(0, nextAt - Date.now()));
 };
 
-export const useOfflineStore = create<OfflineStore>()(
+export const useOfflineStore = create<OfflineState>()(
   persist(
     (set, get) => ({
       // Initial state
@@ -98,196 +75,291 @@ export const useOfflineStore = create<OfflineStore>()(
         // Auto-sync when connection is restored
         if (connected && get().queue.length > 0) {
           get().processQueue();
+        } else if (!connected && retryTimer) {
+          clearTimeout(retryTimer);
+          retryTimer = null;
         }
       },
 
-      addAction: async (action: Omit<OfflineAction, 'id' | 'timestamp' | 'status'>) => {
-        const newAction: OfflineAction = {
-          ...action,
-          id: `${action.type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp: Date.now(),
+      // Adds a mutation behind everything already queued and returns its
+      // entry id. It waits for any queued entry creating a row it refers to.
+      enqueue: async (mutation: OutboxMutation, { label, clientId, coalesceKey }: EnqueueOptions) => {
+        const refs = new Set(mutationRefs(mutation));
+        const entry: OutboxEntry = {
+          id: createClientId(),
+          mutation,
+          label,
+          clientId: clientId ?? null,
+          dependsOn: [],
+          coalesceKey: coalesceKey ?? null,
+          createdAt: Date.now(),
+          attempts: 0,
+          nextAttemptAt: Date.now(),
           status: 'pending',
+          lastError: null,
         };
 
-        set((state) => ({
-          queue: [...state.queue, newAction],
-        }));
+        set((state) => {
+          // A write to the same row that has not been tried yet is superseded
+          // by this one, and whatever waited on it now waits on this entry
+          const replaced = new Set(
+            coalesceKey
+              ? state.queue.filter(e => e.coalesceKey === coalesceKey && e.attempts === 0).map(e => e.id)
+              : []
+          );
+          const queue = state.queue
+            .filter(e => !replaced.has(e.id))
+            .map(e => (e.dependsOn.some(id => replaced.has(id))
+              ? { ...e, dependsOn: e.dependsOn.map(id => (replaced.has(id) ? entry.id : id)) }
+              : e));
+          entry.dependsOn = queue
+            .filter(e => e.clientId !== null && refs.has(e.clientId))
+            .map(e => e.id);
+          return { queue: [...queue, entry] };
+        });
 
-        // Try to sync immediately if connected
         if (get().isConnected) {
-          try {
-            await get().processQueue();
-          } catch (error) {
-            // Sync failed, action remains in queue
-            console.warn('Initial sync failed, action queued for later:', error);
-          }
+          get().processQueue().catch(error => {
+            console.warn('Initial sync failed, mutation queued for later:', error);
+          });
         }
+
+        return entry.id;
       },
 
+      // Replays due entries oldest first. An entry whose dependencies are
+      // still queued waits, and so does everything depending on it.
       processQueue: async () => {
-        const { queue, retryAction } = get();
-        const pendingActions = queue.filter(action => action.status === 'pending');
-
-        if (pendingActions.length === 0) return;
+        if (get().isSyncing || !get().isConnected) return;
 
         set({ isSyncing: true });
 
-        for (const action of pendingActions) {
-          try {
-            await retryAction(action.id);
-
-            // Small delay between actions to avoid rate limiting
-            await new Promise(resolve => setTimeout(resolve, 500));
-          } catch (error) {
-            // Continue with next action if one fails
-            console.error(`Failed to process action ${action.id}:`, error);
+        try {
+          const attempted = new Set<string>();
+
+          for (;;) {
+            const { queue } = get();
+            const queuedIds = new Set(queue.map(e => e.id));
+            const next = queue.find(entry =>
+              entry.status === 'pending' &&
+              !attempted.has(entry.id) &&
+              entry.nextAttemptAt <= Date.now() &&
+              entry.dependsOn.every(id => !queuedIds.has(id))
+            );
+
+            if (!next) break;
+            attempted.add(next.id);
+
+            try {
+              await runMutation(next.mutation);
+              set((state) => ({
+                queue: state.queue.filter(e => e.id !== next.id),
+                lastSyncAt: Date.now(),
+              }));
+            } catch (error) {
+              const rejected = error instanceof OutboxRejectedError;
+              const attempts = next.attempts + 1;
+              const message = error instanceof Error ? error.message : String(error);
+              console.error(`Outbox entry ${next.id} (${next.mutation.type}) failed:`, error);
+
+              set((state) => ({
+                queue: state.queue.map(e =>
+                  e.id === next.id
+                    ? {
+                        ...e,
+                        attempts,
+                        lastError: message,
+                        status: rejected || attempts >= MAX_OUTBOX_ATTEMPTS ? 'failed' : 'pending',
+                        nextAttemptAt: Date.now() + backoffDelay(attempts),
+                      }
+                    : e
+                ),
+              }));
+
+              if (!get().isConnected) break;
+            }
+          }
+        } finally {
+          set({ isSyncing: false });
+          if (get().isConnected) {
+            scheduleRetry(get().queue, get().processQueue);
           }
         }
-
-        set({ isSyncing: false });
       },
 
-      retryAction: async (id: string) => {
-        const { queue } = get();
-        const action = queue.find(a => a.id === id);
-
-        if (!action) return;
-
-        // Check if max retries reached
-        if (action.retries >= action.maxRetries) {
-          set((state) => ({
-            queue: state.queue.map(a =>
-              a.id === id ? { ...a, status: 'failed' } : a
-            ),
-          }));
-          return;
-        }
-
-        try {
-          let result;
-
-          switch (action.type) {
-            case 'CREATE_CHAPTER':
-              result = await offlineSupabase
-                .from('chapters')
-                .insert(action.payload.chapter);
-              break;
-
-            case 'JOIN_STORY':
-              result = await offlineSupabase
-                .from('user_stories')
-                .insert(action.payload.userStory);
-              break;
-
-            case 'UPDATE_PROFILE':
-              result = await offlineSupabase
-                .from('profiles')
-                .update(action.payload.updates)
-                .eq('id', action.payload.profileId);
-              break;
-
-            case 'CREATE_STORY':
-              result = await offlineSupabase
-                .from('stories')
-                .insert(action.payload.story);
-              break;
-
-            default:
-              throw new Error(`Unknown action type: ${action.type}`);
-          }
+      // Gives a failed entry a fresh set of attempts
+      retryEntry: async (id: string) => {
+        set((state) => ({
+          queue: state.queue.map(e =>
+            e.id === id
+              ? { ...e, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: null }
+              : e
+          ),
+        }));
+        await get().processQueue();
+      },
 
-          if (result.error) {
-            throw result.error;
+      // Drops an entry and everything waiting on it, which could never sync
+      discardEntry: (id: string) => {
+        set((state) => {
+          const discarded = new Set([id]);
+          let grew = true;
+          while (grew) {
+            grew = false;
+            for (const entry of state.queue) {
+              if (!discarded.has(entry.id) && entry.dependsOn.some(dep => discarded.has(dep))) {
+                discarded.add(entry.id);
+                grew = true;
+              }
+            }
           }
-
-          // Mark as synced
-          set((state) => ({
-            queue: state.queue.map(a =>
-              a.id === id ? { ...a, status: 'synced', retries: a.retries + 1 } : a
-            ),
-            lastSyncAt: Date.now(),
-          }));
-
-          // Remove synced actions after a delay
-          setTimeout(() => {
-            set((state) => ({
-              queue: state.queue.filter(a => a.id !== id),
-            }));
-          }, 5000);
-
-        } catch (error: any) {
-          console.error(`Retry failed for action ${id}:`, error);
-
-          // Update retry count
-          set((state) => ({
-            queue: state.queue.map(a =>
-              a.id === id ? { ...a, retries: a.retries + 1 } : a
-            ),
-          }));
-
-          throw error;
-        }
+          return { queue: state.queue.filter(e => !discarded.has(e.id)) };
+        });
       },
 
       clearQueue: () => {
         set({ queue: [] });
       },
 
-      removeAction: (id: string) => {
-        set((state) => ({
-          queue: state.queue.filter(action => action.id !== id),
-        }));
+      // Whether a row created offline is still waiting to reach the server
+      isPending: (clientId: string) => {
+        return get().queue.some(e => e.clientId === clientId);
       },
 
       syncOfflineData: async () => {
+        // A manual sync retries everything that is waiting, now
+        set((state) => ({
+          queue: state.queue.map(e => (e.status === 'pending' ? { ...e, nextAttemptAt: Date.now() } : e)),
+        }));
         await get().processQueue();
       },
     }),
     {
-      name: 'offline-storage',
+      name: 'offline-outbox',
+      storage: createJSONStorage(() => AsyncStorage),
       partialize: (state) => ({
         queue: state.queue,
         lastSyncAt: state.lastSyncAt,
       }),
+      // Pick up where the last session left off
+      onRehydrateStorage: () => (state) => {
+        if (state && state.queue.length > 0) {
+          state.processQueue().catch(error => console.error('Outbox sync after restart failed:', error));
+        }
+      },
     }
   )
 );
 
-// Utility functions for common offline operations
+const enqueue = (mutation: OutboxMutation, options: EnqueueOptions) =>
+  useOfflineStore.getState().enqueue(mutation, options);
+
+const insertRow = (table: OutboxTable, values: Record<string, unknown>, label: string) => {
+  // Every row gets its id here, so later mutations can refer to it
+  const id = typeof values.id === 'string' ? values.id : createClientId();
+  return enqueue({ type: 'insert_row', table, values: { ...values, id } }, { label, clientId: id });
+};
+
+// Typed mutations for the stores. Each returns the outbox entry id.
 export const offlineActions = {
-  createChapter: async (chapter: Omit<Chapter, 'id' | 'created_at' | 'updated_at'>) => {
-    return useOfflineStore.getState().addAction({
-      type: 'CREATE_CHAPTER',
-      payload: { chapter },
-      retries: 0,
-      maxRetries: 3,
-    });
+  createStory: async (story: Extract<OutboxMutation, { type: 'create_story' }>['story']) => {
+    return enqueue({ type: 'create_story', story }, { label: `Create "${story.title}"`, clientId: story.id });
   },
 
-  joinStory: async (userStory: Omit<UserStory, 'id' | 'created_at' | 'updated_at'>) => {
-    return useOfflineStore.getState().addAction({
-      type: 'JOIN_STORY',
-      payload: { userStory },
-      retries: 0,
-      maxRetries: 3,
-    });
+  submitChapter: async (chapter: Omit<Extract<OutboxMutation, { type: 'submit_chapter' }>, 'type'>) => {
+    return enqueue({ type: 'submit_chapter', ...chapter }, { label: 'Submit chapter', clientId: chapter.chapterId });
+  },
+
+  joinStory: async (pairingCode: string) => {
+    return enqueue({ type: 'join_story', pairingCode }, { label: `Join story ${pairingCode}` });
   },
 
   updateProfile: async (profileId: string, updates: Partial<Profile>) => {
-    return useOfflineStore.getState().addAction({
-      type: 'UPDATE_PROFILE',
-      payload: { profileId, updates },
-      retries: 0,
-      maxRetries: 3,
-    });
+    return enqueue(
+      { type: 'update_rows', table: 'profiles', match: { id: profileId }, values: updates },
+      { label: 'Update profile', coalesceKey: `profile:${profileId}` }
+    );
   },
 
-  createStory: async (story: Omit<Story, 'id' | 'created_at' | 'updated_at'>) => {
-    return useOfflineStore.getState().addAction({
-      type: 'CREATE_STORY',
-      payload: { story },
-      retries: 0,
-      maxRetries: 3,
-    });
+  updatePreferences: async (userId: string, updates: Record<string, unknown>) => {
+    return enqueue(
+      {
+        type: 'update_rows',
+        table: 'user_preferences',
+        match: { user_id: userId },
+        values: { ...updates, updated_at: new Date().toISOString() },
+      },
+      { label: 'Update preferences', coalesceKey: `preferences:${userId}` }
+    );
   },
-};
\ No newline at end of file
+
+  updateNotification: async (userId: string, notificationId: string, updates: { read_at: string }) => {
+    return enqueue(
+      { type: 'update_rows', table: 'notifications', match: { id: notificationId, user_id: userId }, values: updates },
+      { label: 'Mark notification read', coalesceKey: `notification:${notificationId}` }
+    );
+  },
+
+  saveDraft: async (draft: Record<string, unknown> & { id: string }) => {
+    return enqueue(
+      { type: 'upsert_row', table: 'drafts', values: draft },
+      { label: 'Save draft', clientId: draft.id, coalesceKey: `draft:${draft.id}` }
+    );
+  },
+
+  deleteDraft: async (draftId: string) => {
+    return enqueue(
+      { type: 'delete_rows', table: 'drafts', match: { id: draftId } },
+      { label: 'Delete draft', coalesceKey: `draft:${draftId}` }
+    );
+  },
+
+  addMediaAttachment: async (attachment: Record<string, unknown>) => {
+    return insertRow('media_attachments', attachment, 'Add media');
+  },
+
+  removeMediaAttachment: async (attachmentId: string) => {
+    return enqueue(
+      { type: 'delete_rows', table: 'media_attachments', match: { id: attachmentId } },
+      { label: 'Remove media' }
+    );
+  },
+
+  linkStoryToRelationship: async (link: Record<string, unknown>) => {
+    return insertRow('story_relationships', link, 'Link story');
+  },
+
+  unlinkStoryFromRelationship: async (storyId: string, userId: string) => {
+    return enqueue(
+      { type: 'delete_rows', table: 'story_relationships', match: { story_id: storyId, user_id: userId } },
+      { label: 'Unlink story' }
+    );
+  },
+
+  createRelationship: async (relationship: Record<string, unknown>) => {
+    return insertRow('relationships', relationship, 'Create relationship');
+  },
+
+  updateRelationshipStatus: async (relationshipId: string, status: string) => {
+    return enqueue(
+      { type: 'update_rows', table: 'relationships', match: { id: relationshipId }, values: { status } },
+      { label: `Set relationship ${status}`, coalesceKey: `relationship-status:${relationshipId}` }
+    );
+  },
+
+  setDailyIntention: async (intention: Record<string, unknown>) => {
+    return insertRow('daily_intentions', intention, 'Set daily intention');
+  },
+
+  addMilestone: async (milestone: Record<string, unknown>) => {
+    return insertRow('milestones', milestone, 'Add milestone');
+  },
+
+  askQuestion: async (question: Record<string, unknown>) => {
+    return insertRow('relationship_questions', question, 'Ask question');
+  },
+
+  addInsight: async (insight: Record<string, unknown>) => {
+    return insertRow('partner_insights', insight, 'Add insight');
+  },
+};
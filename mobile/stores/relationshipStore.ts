@@ -1,8 +1,11 @@
 import { create } from 'zustand';
 import { supabase } from '@/lib/supabase';
-import { offlineActions } from './offlineStore';
+import { offlineActions, useOfflineStore } from './offlineStore';
+import { isNetworkError } from '@/lib/outbox';
+import { getSnapshot, saveSnapshot } from '@/lib/localDatabase';
 import { useAuthStore } from './authStore';
 import { useTokenStore } from './tokenStore';
+import { useCoupleWalletStore } from './coupleWalletStore';
 import { useNotificationsStore } from './notificationsStore';
 import { AppError } from '@/lib/types';
 
@@ -156,6 +159,37 @@ const isSupabaseConfigured = (): boolean => {
   return url !== '' && !url.includes('your-project') && key !== '' && !key.includes('your-anon');
 };
 
+// What the dashboard needs to render without a connection
+type RelationshipSnapshotState = Pick<
+  RelationshipState,
+  | 'currentRelationship'
+  | 'relationship'
+  | 'dailyIntention'
+  | 'milestones'
+  | 'activeQuestions'
+  | 'relationshipQuestions'
+  | 'partnerInsights'
+  | 'relationshipStats'
+>;
+
+// Puts back the last relationship loaded for the signed-in user, if any
+const restoreRelationshipSnapshot = async (
+  set: (state: Partial<RelationshipState>) => void
+): Promise<boolean> => {
+  const userId = useAuthStore.getState().user?.id;
+  if (!userId) return false;
+
+  try {
+    const snapshot = await getSnapshot<RelationshipSnapshotState>(`relationship:${userId}`);
+    if (!snapshot) return false;
+    set({ ...snapshot, isLoading: false, error: null });
+    return true;
+  } catch (error) {
+    console.error('Error loading saved relationship:', error);
+    return false;
+  }
+};
+
 export const useRelationshipStore = create<RelationshipState>((set, get) => ({
   // Initial state
   currentRelationship: null,
@@ -190,12 +224,17 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
       throw new Error('User not authenticated');
     }
 
-    // Deduct tokens for relationship creation
+    // Charge for relationship creation
     const creationCost = 10;
     if (tokenStore.balance < creationCost) {
       throw new Error('Insufficient tokens to create a relationship');
     }
-    tokenStore.deductTokens(creationCost);
+    const charged = await tokenStore.spendTokens(creationCost, 'Started a relationship', {
+      featureType: 'relationship',
+    });
+    if (!charged) {
+      throw new Error(useTokenStore.getState().error || 'Could not charge tokens for this relationship');
+    }
 
     try {
       // Create the relationship
@@ -229,7 +268,7 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
 
       return data.id;
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.createRelationship({
           user_id: user.id,
@@ -245,6 +284,12 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
   },
 
   fetchRelationship: async () => {
+    // Offline, the dashboard shows what it last loaded on this device
+    if (!useOfflineStore.getState().isConnected) {
+      await restoreRelationshipSnapshot(set);
+      return;
+    }
+
     const { data: { user } } = await supabase.auth.getUser();
 
     if (!user) {
@@ -280,8 +325,24 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
           get().fetchPartnerInsights(),
           get().refreshRelationshipStats(),
         ]);
+
+        const snapshot: RelationshipSnapshotState = {
+          currentRelationship: relationship,
+          relationship,
+          dailyIntention: get().dailyIntention,
+          milestones: get().milestones,
+          activeQuestions: get().activeQuestions,
+          relationshipQuestions: get().relationshipQuestions,
+          partnerInsights: get().partnerInsights,
+          relationshipStats: get().relationshipStats,
+        };
+        saveSnapshot(`relationship:${user.id}`, snapshot)
+          .catch(snapshotError => console.warn('Could not save relationship for offline use:', snapshotError));
       }
     } catch (error: any) {
+      if (isNetworkError(error) && await restoreRelationshipSnapshot(set)) {
+        return;
+      }
       set({ error: error instanceof Error ? error.message : 'Unknown error' });
       console.error('Error fetching relationship:', error);
     } finally {
@@ -311,6 +372,13 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
           : null,
       }));
 
+      // Ending the relationship closes the couple wallet on the server and
+      // returns each partner's share to their own balance
+      if (status === 'ended') {
+        useCoupleWalletStore.getState().reset();
+        await useTokenStore.getState().fetchBalance();
+      }
+
       // Create milestone for status change
       await supabase
         .from('milestones')
@@ -322,7 +390,7 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
           created_by: user.id,
         });
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.updateRelationshipStatus(currentRelationship.id, status);
 
@@ -343,18 +411,11 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
   setDailyIntention: async (intention: string) => {
     const { currentRelationship } = get();
     const { data: { user } } = await supabase.auth.getUser();
-    const tokenStore = useTokenStore.getState();
 
     if (!currentRelationship || !user) {
       throw new Error('No active relationship or user not authenticated');
     }
 
-    // Deduct tokens for setting intention
-    const intentionCost = 0.5;
-    if (tokenStore.balance >= intentionCost) {
-      tokenStore.deductTokens(intentionCost);
-    }
-
     set({ isSettingIntention: true });
 
     try {
@@ -410,7 +471,7 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
         },
       });
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.setDailyIntention({
           relationship_id: currentRelationship.id,
@@ -464,7 +525,7 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
           });
       }
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Update local state for immediate UI feedback
         set((state) => ({
           dailyIntention: state.dailyIntention
@@ -536,12 +597,17 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
       throw new Error('No active relationship or user not authenticated');
     }
 
-    // Deduct tokens for milestone creation
+    // Charge for milestone creation
     const milestoneCost = 1;
     if (tokenStore.balance < milestoneCost) {
       throw new Error('Insufficient tokens to create milestone');
     }
-    tokenStore.deductTokens(milestoneCost);
+    const charged = await tokenStore.spendTokens(milestoneCost, 'Added a relationship milestone', {
+      featureType: 'milestone',
+    });
+    if (!charged) {
+      throw new Error(useTokenStore.getState().error || 'Could not charge tokens for this milestone');
+    }
 
     try {
       const { data, error } = await supabase
@@ -562,7 +628,7 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
 
       return data.id;
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.addMilestone({
           ...milestone,
@@ -619,19 +685,11 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
   askQuestion: async (question: string, category: RelationshipQuestion['category']) => {
     const { currentRelationship } = get();
     const { data: { user } } = await supabase.auth.getUser();
-    const tokenStore = useTokenStore.getState();
 
     if (!currentRelationship || !user) {
       throw new Error('No active relationship or user not authenticated');
     }
 
-    // Deduct tokens for asking question
-    const questionCost = 0.5;
-    if (tokenStore.balance < questionCost) {
-      throw new Error('Insufficient tokens to ask question');
-    }
-    tokenStore.deductTokens(questionCost);
-
     try {
       const { data, error } = await supabase
         .from('relationship_questions')
@@ -665,7 +723,7 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
         },
       });
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.askQuestion({
           relationship_id: currentRelationship.id,
@@ -750,7 +808,7 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
         });
       }
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Update local state for immediate UI feedback
         set((state) => ({
           activeQuestions: state.activeQuestions.map(q =>
@@ -791,19 +849,11 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
   addInsight: async (insight: string, category: PartnerInsight['category'], shareWithPartner: boolean) => {
     const { currentRelationship } = get();
     const { data: { user } } = await supabase.auth.getUser();
-    const tokenStore = useTokenStore.getState();
 
     if (!currentRelationship || !user) {
       throw new Error('No active relationship or user not authenticated');
     }
 
-    // Deduct tokens for adding insight
-    const insightCost = 0.3;
-    if (tokenStore.balance < insightCost) {
-      throw new Error('Insufficient tokens to add insight');
-    }
-    tokenStore.deductTokens(insightCost);
-
     try {
       const { data, error } = await supabase
         .from('partner_insights')
@@ -825,7 +875,7 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
 
       return data.id;
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.addInsight({
           relationship_id: currentRelationship.id,
@@ -879,7 +929,7 @@ export const useRelationshipStore = create<RelationshipState>((set, get) => ({
         ),
       }));
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Update local state for immediate UI feedback
         set((state) => ({
           partnerInsights: state.partnerInsights.map(i =>
@@ -1,17 +1,33 @@
 import { create } from 'zustand';
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
-import { offlineActions } from './offlineStore';
+import { offlineActions, useOfflineStore } from './offlineStore';
+import { useOfflineLibraryStore } from './offlineLibraryStore';
 import { initializeQueryCache, createSupabaseQuery } from '@/lib/queryCache';
 import { cacheManager } from '@/lib/cacheManager';
 import { useCache } from '@/hooks/useCache';
-import { Story, StoryWithMembers, Chapter, Theme, AppError, MediaAttachment } from '@/lib/types';
+import { Story, StoryWithMembers, Chapter, ChapterChoice, ChapterNode, Theme, AppError, MediaAttachment, ExportJob, ExportJobStatus, AutoBookRule, ChapterRevision, ChapterConflict, ChapterConflictResolution, StoryTurn, TurnSettings, StorySettings } from '@/lib/types';
+import { scheduleNotification, notificationScheduler } from '@/lib/notificationScheduler';
+import { buildChapterTree } from '@/lib/chapterTree';
+import { getTurnDeadline, getTurnSettings } from '@/lib/storyTurns';
+import { DEFAULT_STORY_SETTINGS, getStorySettings } from '@/lib/storySettings';
+import { createClientId, isNetworkError } from '@/lib/outbox';
+import { STORY_CREATION_COST } from '@/lib/tokenManager';
 import { useTokenStore } from './tokenStore';
 import { useEditorStore } from './editorStore';
 
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
+const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '';
+
 // Initialize query cache
 initializeQueryCache(supabase);
 
+// Realtime channels following export jobs, closed once a job finishes
+const exportChannels = new Map<string, RealtimeChannel>();
+
+// Milestone books already announced on this device
+const announcedMilestoneBooks = new Set<string>();
+
 interface StoriesState {
   stories: StoryWithMembers[];
   currentStory: StoryWithMembers | null;
@@ -22,14 +38,7 @@ interface StoriesState {
   isConfigured: boolean;
   presenceInterval: NodeJS.Timeout | null;
 
-  // Offline queue and cache
-  offlineQueue: Array<{
-    id: string;
-    type: 'create' | 'update' | 'delete';
-    data: any;
-    timestamp: number;
-    synced: boolean;
-  }>;
+  // Query cache
   queryCache: {
     stories: Record<string, any>;
     chapters: Record<string, any>;
@@ -50,16 +59,25 @@ interface StoriesState {
 
   // Story export integration
   exportQueue: Array<{
-    id: string;
+    id: string; // export_jobs id
     storyId: string;
-    format: 'pdf' | 'epub' | 'txt';
+    format: ExportJob['format'];
     includeImages: boolean;
     chapters: string[];
-    status: 'pending' | 'processing' | 'completed' | 'failed';
+    status: ExportJobStatus;
     progress: number;
     error?: string;
+    downloadUrl?: string;
+    expiresAt?: string;
   }>;
 
+  // Automatic milestone books, by story id
+  autoBookRules: Record<string, AutoBookRule | null>;
+  milestoneBooks: Record<string, ExportJob[]>;
+
+  // Open chapter conflicts, by story id
+  chapterConflicts: Record<string, ChapterConflict[]>;
+
   // Media attachments
   mediaAttachments: Record<string, MediaAttachment[]>;
 
@@ -74,12 +92,14 @@ interface StoriesState {
   // Methods
   fetchStories: () => Promise<void>;
   fetchStory: (storyId: string) => Promise<void>;
-  createStory: (title: string, theme: Theme) => Promise<string>;
+  createStory: (title: string, theme: Theme, settings?: Partial<StorySettings>) => Promise<string>;
   joinStory: (pairingCode: string) => Promise<void>;
   setCurrentStory: (story: StoryWithMembers | null) => void;
   subscribeToStory: (storyId: string) => Promise<void>;
   unsubscribe: () => void;
   fetchLatestChapter: (storyId: string) => Promise<void>;
+  fetchChapterTree: (storyId: string) => Promise<ChapterNode | null>;
+  setStoryCover: (storyId: string, coverImageUrl: string | null) => Promise<void>;
   invalidateStoriesCache: () => void;
   invalidateStoryCache: (storyId: string) => void;
 
@@ -89,7 +109,25 @@ interface StoriesState {
   linkStoryToRelationship: (storyId: string, partnerId: string) => Promise<void>;
   unlinkStoryFromRelationship: (storyId: string) => Promise<void>;
   submitExportRequest: (storyId: string, options: ExportOptions) => Promise<string>;
-  processOfflineQueue: () => Promise<void>;
+  updateExportJob: (job: ExportJob) => void;
+  removeExport: (jobId: string) => void;
+  fetchAutoBookRule: (storyId: string) => Promise<AutoBookRule | null>;
+  saveAutoBookRule: (storyId: string, rule: AutoBookRuleInput | null) => Promise<void>;
+  fetchMilestoneBooks: (storyId: string) => Promise<void>;
+  fetchChapterRevisions: (chapterId: string) => Promise<ChapterRevision[]>;
+  restoreChapterRevision: (storyId: string, revisionId: string) => Promise<void>;
+  fetchStoryTurns: (storyId: string, limit?: number) => Promise<StoryTurn[]>;
+  skipTurn: (storyId: string) => Promise<void>;
+  passTurn: (storyId: string, toUserId?: string) => Promise<void>;
+  updateTurnSettings: (storyId: string, settings: TurnSettings) => Promise<void>;
+  updateStorySettings: (storyId: string, settings: StorySettings) => Promise<void>;
+  updateStoryWriters: (storyId: string, memberOrder: string[], maxMembers: number) => Promise<void>;
+  fetchChapterConflicts: (storyId: string) => Promise<ChapterConflict[]>;
+  resolveChapterConflict: (
+    conflict: ChapterConflict,
+    resolution: ChapterConflictResolution,
+    options?: { content?: string; choiceTitles?: [string, string] }
+  ) => Promise<void>;
   trackTokenUsage: (feature: string, cost: number) => void;
   updateUserPresence: (storyId: string, presence: any) => void;
   removeUserPresence: (userId: string) => void;
@@ -106,14 +144,88 @@ const isSupabaseConfigured = (): boolean => {
   return url !== '' && !url.includes('your-project') && key !== '' && !key.includes('your-anon');
 };
 
+// Reminders before the turn deadline live on the device of the writer whose
+// turn it is. Every time a story is loaded they are rescheduled from the
+// current turn, or cleared when the turn is someone else's. A story nobody
+// has joined yet has no deadline to keep, and only timed turns have one.
+const syncTurnReminders = async (story: StoryWithMembers) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    const turn = getTurnDeadline(story);
+
+    if (
+      !user ||
+      story.current_turn !== user.id ||
+      !turn ||
+      turn.phase === 'expired' ||
+      story.members.length < 2 ||
+      getStorySettings(story).turnMode !== 'timed'
+    ) {
+      await notificationScheduler.cancelTurnReminders(story.id);
+      return;
+    }
+
+    await notificationScheduler.scheduleTurnReminder(
+      story.id,
+      story.title,
+      turn.deadline,
+      getTurnSettings(story).reminderHours
+    );
+  } catch (error) {
+    console.error('Error scheduling turn reminders:', error);
+  }
+};
+
+// Load chapters and their choice endings and assemble the story tree
+const loadChapterTree = async (
+  storyId: string
+): Promise<{ chapters: Chapter[]; tree: ChapterNode | null }> => {
+  const { data: chapterData, error: chapterError } = await supabase
+    .from('chapters')
+    .select('*')
+    .eq('story_id', storyId)
+    .order('chapter_number', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (chapterError) throw chapterError;
+
+  const { data: choiceData, error: choiceError } = await supabase
+    .from('chapter_choices')
+    .select('*')
+    .eq('story_id', storyId)
+    .order('position', { ascending: true });
+
+  if (choiceError) throw choiceError;
+
+  const chapters = (chapterData || []) as Chapter[];
+  const choices = (choiceData || []) as ChapterChoice[];
+
+  return {
+    chapters: chapters.map(chapter => ({
+      ...chapter,
+      choices: choices.filter(choice => choice.chapter_id === chapter.id),
+    })),
+    tree: buildChapterTree(chapters, choices),
+  };
+};
+
+// Offline, the stories downloaded to the device join those already loaded
+const withOfflineStories = async (loaded: StoryWithMembers[]): Promise<StoryWithMembers[]> => {
+  const offline = await useOfflineLibraryStore.getState().loadStories();
+  const offlineIds = new Set(offline.map(story => story.id));
+  return [...offline, ...loaded.filter(story => !offlineIds.has(story.id))];
+};
+
 interface ExportOptions {
-  format: 'pdf' | 'epub' | 'txt';
+  format: ExportJob['format'];
   includeImages: boolean;
-  chapters?: string[];
-  title?: string;
-  author?: string;
+  includeMetadata?: boolean;
+  includeInspiration?: boolean;
+  chapters?: string[]; // Chapter ids in reading order; defaults to the latest branch
 }
 
+type AutoBookRuleInput = Pick<AutoBookRule, 'trigger_type' | 'chapter_interval' | 'format' | 'include_images'>;
+
 export const useStoriesStore = create<StoriesState>((set, get) => ({
   stories: [],
   currentStory: null,
@@ -124,8 +236,7 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
   isConfigured: isSupabaseConfigured(),
   presenceInterval: null,
 
-  // Offline queue and cache
-  offlineQueue: [],
+  // Query cache
   queryCache: {
     stories: {},
     chapters: {},
@@ -140,6 +251,9 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
 
   // Story export integration
   exportQueue: [],
+  autoBookRules: {},
+  milestoneBooks: {},
+  chapterConflicts: {},
 
   // Media attachments
   mediaAttachments: {},
@@ -154,6 +268,16 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
 
     set({ isLoading: true, error: null });
 
+    if (!useOfflineStore.getState().isConnected) {
+      try {
+        set({ stories: await withOfflineStories(get().stories) });
+      } catch (error) {
+        console.error('Error loading offline stories:', error);
+      }
+      set({ isLoading: false });
+      return;
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
@@ -212,7 +336,8 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
                 *,
                 profile:profiles(*)
               `)
-              .eq('story_id', member.story_id);
+              .eq('story_id', member.story_id)
+              .order('turn_order');
 
             // Fetch media attachments for this story
             const { data: mediaData } = await supabase
@@ -250,14 +375,19 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
         }
       );
 
+      if (!result.data && isNetworkError(result.error)) {
+        set({ stories: await withOfflineStories(get().stories), isLoading: false });
+        return;
+      }
+
       set({
         stories: result.data || [],
         isLoading: false,
         error: result.error,
       });
 
-      // Process offline queue after fetching
-      await get().processOfflineQueue();
+      // Send anything written offline now that the server is reachable
+      await useOfflineStore.getState().processQueue();
     } catch (error: unknown) {
       set({ error: error instanceof Error ? error.message : 'Unknown error' });
       console.error('Error fetching stories:', error);
@@ -272,6 +402,9 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
 
     set({ isLoading: true, error: null });
 
+    // Keep the downloaded copy current whenever the story is opened online
+    useOfflineLibraryStore.getState().syncStory(storyId).catch(() => {});
+
     try {
       // Use cached query if available
       const cacheKey = `story:${storyId}`;
@@ -279,6 +412,7 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
 
       if (cachedStory) {
         set({ currentStory: cachedStory });
+        syncTurnReminders(cachedStory);
         // Prefetch story in background
         queryCache.prefetch(
           ['story', storyId],
@@ -292,6 +426,21 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
         return;
       }
 
+      // Offline, a downloaded story is read from the device
+      const readOffline = async () => {
+        const offlineStory = await useOfflineLibraryStore.getState().loadStory(storyId);
+        set({
+          currentStory: offlineStory || (get().currentStory?.id === storyId ? get().currentStory : null),
+          isLoading: false,
+          error: offlineStory || get().currentStory?.id === storyId ? null : 'This story is not available offline',
+        });
+      };
+
+      if (!useOfflineStore.getState().isConnected) {
+        await readOffline();
+        return;
+      }
+
       // Create query function
       const fetchStoryQuery = async () => {
         const { data: storyData, error: storyError } = await supabase
@@ -308,17 +457,22 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
             *,
             profile:profiles(*)
           `)
-          .eq('story_id', storyId);
+          .eq('story_id', storyId)
+          .order('turn_order');
 
         const { data: mediaData } = await supabase
           .from('media_attachments')
           .select('*')
           .eq('story_id', storyId);
 
+        const { chapters, tree } = await loadChapterTree(storyId);
+
         const storyWithMembers = {
           ...storyData,
           members: membersData || [],
           mediaAttachments: mediaData || [],
+          chapters,
+          chapterTree: tree,
         };
 
         // Cache the result
@@ -341,12 +495,21 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
         }
       );
 
+      if (!result.data && isNetworkError(result.error)) {
+        await readOffline();
+        return;
+      }
+
       set({
         currentStory: result.data,
         isLoading: false,
         error: result.error,
       });
 
+      if (result.data) {
+        syncTurnReminders(result.data);
+      }
+
       // Update media attachments state
       if (result.data?.id) {
         set((state) => ({
@@ -363,7 +526,7 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
     }
   },
 
-  createStory: async (title: string, theme: Theme) => {
+  createStory: async (title: string, theme: Theme, settings: Partial<StorySettings> = {}) => {
     const { data: { user } } = await supabase.auth.getUser();
 
     if (!user) {
@@ -372,21 +535,25 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
 
     const pairingCode = generatePairingCode();
     const tokenStore = useTokenStore.getState();
+    const rules = { ...DEFAULT_STORY_SETTINGS, ...settings };
+    // The id is made here so a story created offline can be written in
+    // before it reaches the server
     const storyData = {
+      id: createClientId(),
       title,
       created_by: user.id,
       theme,
       pairing_code: pairingCode,
       status: 'active' as const,
       current_turn: user.id,
+      turn_mode: rules.turnMode,
+      min_chapter_words: rules.minChapterWords,
+      max_chapter_words: rules.maxChapterWords,
+      ai_enhancement_allowed: rules.aiEnhancementAllowed,
+      content_rating: rules.contentRating,
+      target_chapters: rules.targetChapters,
     };
 
-    // Deduct token for creation
-    const creationCost = 1;
-    if (tokenStore.balance >= creationCost) {
-      tokenStore.deductTokens(creationCost);
-    }
-
     try {
       // Try to create online first
       const { data, error } = await supabase
@@ -407,6 +574,14 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
           turn_order: 1,
         });
 
+      if (tokenStore.balance >= STORY_CREATION_COST) {
+        await tokenStore.spendTokens(STORY_CREATION_COST, `Created "${title}"`, {
+          featureType: 'story',
+          storyId: data.id,
+          idempotencyKey: `story:${data.id}`,
+        });
+      }
+
       // Create relationship link if partner exists
       const { data: partnerData } = await supabase
         .from('relationships')
@@ -428,35 +603,16 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
       return data.id;
 
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Network error or rate limit - queue for offline sync
         await offlineActions.createStory(storyData);
 
-        // Add to offline queue
-        const queueId = `queue_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        set((state) => ({
-          offlineQueue: [
-            ...state.offlineQueue,
-            {
-              id: queueId,
-              type: 'create',
-              data: storyData,
-              timestamp: Date.now(),
-              synced: false,
-            }
-          ]
-        }));
-
-        // Return a temporary ID for local state management
-        const tempId = `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
         // Add to local state for immediate UI feedback
         set((state) => ({
           stories: [...state.stories, {
-            id: tempId,
             ...storyData,
             members: [{
-              story_id: tempId,
+              story_id: storyData.id,
               user_id: user.id,
               role: 'creator',
               turn_order: 1,
@@ -497,9 +653,6 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
       const { data: result, error: joinError } = await supabase
         .rpc('join_story_by_pairing_code', {
           p_pairing_code: pairingCode,
-          p_user_id: user.id,
-          p_role: 'partner',
-          p_turn_order: 2
         });
 
       if (joinError) {
@@ -565,16 +718,11 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
       return storyWithMembers as StoryWithMembers;
 
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Network error - queue for offline sync
         const { data: { user } } = await supabase.auth.getUser();
         if (user) {
-          await offlineActions.joinStory({
-            story_id: pairingCode,
-            user_id: user.id,
-            role: 'partner' as const,
-            turn_order: 2,
-          });
+          await offlineActions.joinStory(pairingCode);
         }
 
         throw new AppError('Story join queued for offline sync', 'medium', 'network', 'OFFLINE_QUEUE', {
@@ -631,6 +779,20 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
           get().trackTokenUsage('realtime_update', 0.05);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'chapter_choices',
+          filter: `story_id=eq.${storyId}`,
+        },
+        async () => {
+          // Choice endings changed, rebuild the story tree
+          get().invalidateStoryCache(storyId);
+          await get().fetchStory(storyId);
+        }
+      )
       .on(
         'postgres_changes',
         {
@@ -685,6 +847,30 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
           await get().fetchStory(storyId);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'export_jobs',
+          filter: `story_id=eq.${storyId}`,
+        },
+        async (payload) => {
+          const job = payload.new as ExportJob;
+          if (job.trigger !== 'milestone' || job.status !== 'completed' || announcedMilestoneBooks.has(job.id)) {
+            return;
+          }
+          announcedMilestoneBooks.add(job.id);
+
+          // The worker pushes to devices in the background; this covers an open app
+          await scheduleNotification('milestone', {}, {
+            milestoneTitle: `${job.milestone_title || 'Milestone reached'} - your book is ready`,
+            storyId,
+            exportJobId: job.id,
+          });
+          await get().fetchMilestoneBooks(storyId);
+        }
+      )
       .subscribe();
 
     // Track presence with properly managed interval
@@ -783,6 +969,72 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
     }
   },
 
+  fetchChapterTree: async (storyId: string) => {
+    if (!isSupabaseConfigured()) {
+      return null;
+    }
+
+    // Offline, chapters come from the downloaded copy or the story already open
+    const readOffline = async () => {
+      const offlineStory = await useOfflineLibraryStore.getState().loadStory(storyId);
+      const story = offlineStory || (get().currentStory?.id === storyId ? get().currentStory : null);
+      if (!story?.chapters) {
+        throw new Error('This story is not available offline');
+      }
+      return {
+        chapters: story.chapters,
+        tree: story.chapterTree
+          ?? buildChapterTree(story.chapters, story.chapters.flatMap(chapter => chapter.choices || [])),
+      };
+    };
+
+    try {
+      const { chapters, tree } = useOfflineStore.getState().isConnected
+        ? await loadChapterTree(storyId).catch((error) => {
+            if (isNetworkError(error)) return readOffline();
+            throw error;
+          })
+        : await readOffline();
+
+      // Keep the current story in sync so screens reading it see new branches
+      set((state) => (
+        state.currentStory?.id === storyId
+          ? { currentStory: { ...state.currentStory, chapters, chapterTree: tree } }
+          : {}
+      ));
+
+      return tree;
+    } catch (error) {
+      console.error('Error fetching chapter tree:', error);
+      throw error;
+    }
+  },
+
+  setStoryCover: async (storyId: string, coverImageUrl: string | null) => {
+    const { data: result, error } = await supabase
+      .rpc('set_story_cover', {
+        p_story_id: storyId,
+        p_cover_image_url: coverImageUrl,
+      });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to save cover art');
+    }
+
+    const coverResult = result as unknown as { success: boolean; error?: string };
+    if (!coverResult.success) {
+      throw new Error(coverResult.error || 'Failed to save cover art');
+    }
+
+    get().invalidateStoryCache(storyId);
+    set((state) => ({
+      stories: state.stories.map(s => (s.id === storyId ? { ...s, cover_image_url: coverImageUrl } : s)),
+      currentStory: state.currentStory?.id === storyId
+        ? { ...state.currentStory, cover_image_url: coverImageUrl }
+        : state.currentStory,
+    }));
+  },
+
   // New methods
   addMediaAttachment: async (storyId: string, attachment: Omit<MediaAttachment, 'id' | 'uploaded_at'>) => {
     const { data: { user } } = await supabase.auth.getUser();
@@ -839,7 +1091,7 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
 
       return data.id;
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.addMediaAttachment({
           story_id: storyId,
@@ -943,7 +1195,7 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
       // Refresh story
       await get().fetchStory(storyId);
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.removeMediaAttachment(attachmentId);
 
@@ -1001,7 +1253,7 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
 
       return data.id;
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.linkStoryToRelationship({
           story_id: storyId,
@@ -1053,7 +1305,7 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
         return { storyRelationships: newState };
       });
     } catch (error: any) {
-      if (error.code === 'PGRST116' || error.code === '429' || !isSupabaseConfigured()) {
+      if (isNetworkError(error) || !isSupabaseConfigured()) {
         // Queue for offline sync
         await offlineActions.unlinkStoryFromRelationship(storyId, user.id);
 
@@ -1072,117 +1324,393 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
   },
 
   submitExportRequest: async (storyId: string, options: ExportOptions) => {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { session } } = await supabase.auth.getSession();
 
-    if (!user) {
+    if (!session) {
       throw new Error('User not authenticated');
     }
 
-    const exportId = `export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // The export-worker renders the book; tokens are charged only if it succeeds
+    const { data, error } = await supabase
+      .from('export_jobs')
+      .insert({
+        story_id: storyId,
+        requested_by: session.user.id,
+        format: options.format,
+        options: {
+          includeImages: options.includeImages,
+          includeMetadata: options.includeMetadata ?? true,
+          includeInspiration: options.includeInspiration ?? false,
+        },
+        chapter_ids: options.chapters || [],
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    const job = data as unknown as ExportJob;
 
-    // Add to export queue
     set((state) => ({
       exportQueue: [
         ...state.exportQueue,
         {
-          id: exportId,
+          id: job.id,
           storyId,
-          format: options.format,
+          format: job.format,
           includeImages: options.includeImages,
-          chapters: options.chapters || [],
-          status: 'pending',
-          progress: 0,
+          chapters: job.chapter_ids,
+          status: job.status,
+          progress: job.progress,
         }
       ]
     }));
 
-    // Deduct tokens for export
-    const exportCost = 5; // Base cost for export
-    const tokenStore = useTokenStore.getState();
-    if (tokenStore.balance >= exportCost) {
-      tokenStore.deductTokens(exportCost);
+    // Follow the worker's progress
+    const channel = supabase
+      .channel(`export:${job.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'export_jobs',
+          filter: `id=eq.${job.id}`,
+        },
+        (payload) => {
+          get().updateExportJob(payload.new as ExportJob);
+        }
+      )
+      .subscribe();
+    exportChannels.set(job.id, channel);
+
+    // Start the worker without waiting for it. Once it returns, read the job
+    // back in case a realtime update was missed.
+    fetch(`${SUPABASE_URL}/functions/v1/export-worker`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ jobId: job.id }),
+    })
+      .then(async () => {
+        const { data: latest } = await supabase
+          .from('export_jobs')
+          .select('*')
+          .eq('id', job.id)
+          .single();
+        if (latest) {
+          get().updateExportJob(latest as unknown as ExportJob);
+        }
+      })
+      .catch((workerError) => {
+        console.error('Error starting export:', workerError);
+        get().updateExportJob({ ...job, status: 'failed', error: 'Could not start the export' });
+      });
+
+    return job.id;
+  },
+
+  updateExportJob: (job: ExportJob) => {
+    const existing = get().exportQueue.find(item => item.id === job.id);
+    if (!existing) return;
+
+    set((state) => ({
+      exportQueue: state.exportQueue.map(item =>
+        item.id === job.id
+          ? {
+              ...item,
+              status: job.status,
+              progress: job.progress,
+              error: job.error ?? undefined,
+              downloadUrl: job.download_url ?? undefined,
+              expiresAt: job.download_expires_at ?? undefined,
+            }
+          : item
+      )
+    }));
+
+    // The worker charged the account; bring the local balance in line once
+    if (job.status === 'completed' && existing.status !== 'completed' && job.tokens_charged > 0) {
+      useTokenStore.getState().fetchBalance();
+      get().trackTokenUsage('export', job.tokens_charged);
     }
 
-    return exportId;
+    if (job.status === 'completed' || job.status === 'failed') {
+      const channel = exportChannels.get(job.id);
+      if (channel) {
+        supabase.removeChannel(channel);
+        exportChannels.delete(job.id);
+      }
+    }
   },
 
-  processOfflineQueue: async () => {
-    const { offlineQueue } = get();
+  removeExport: (jobId: string) => {
+    const channel = exportChannels.get(jobId);
+    if (channel) {
+      supabase.removeChannel(channel);
+      exportChannels.delete(jobId);
+    }
+    set((state) => ({
+      exportQueue: state.exportQueue.filter(item => item.id !== jobId)
+    }));
+  },
 
-    if (offlineQueue.length === 0) return;
+  // Newest first; chapter_revisions is filled by a trigger on every change
+  fetchChapterRevisions: async (chapterId: string) => {
+    const { data, error } = await supabase
+      .from('chapter_revisions')
+      .select('*')
+      .eq('chapter_id', chapterId)
+      .order('revision_number', { ascending: false });
 
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const promises = offlineQueue
-      .filter(item => !item.synced)
-      .map(async (item) => {
-        try {
-          // Process each queued item
-          switch (item.type) {
-            case 'create':
-              // Re-create story or other data
-              if (item.data.title) {
-                // Story creation
-                const { error } = await supabase
-                  .from('stories')
-                  .insert(item.data);
-                if (!error) {
-                  set((state) => ({
-                    offlineQueue: state.offlineQueue.map(q =>
-                      q.id === item.id ? { ...q, synced: true } : q
-                    )
-                  }));
-                }
-              }
-              break;
-            case 'update':
-              // Update existing data
-              if (item.data.story_id) {
-                // Story update or other update
-                const { error } = await supabase
-                  .from('stories')
-                  .update(item.data.updates || {})
-                  .eq('id', item.data.story_id);
-                if (!error) {
-                  set((state) => ({
-                    offlineQueue: state.offlineQueue.map(q =>
-                      q.id === item.id ? { ...q, synced: true } : q
-                    )
-                  }));
-                }
-              }
-              break;
-            case 'delete':
-              // Delete data
-              if (item.data.storyId) {
-                const { error } = await supabase
-                  .from('stories')
-                  .delete()
-                  .eq('id', item.data.storyId);
-                if (!error) {
-                  set((state) => ({
-                    offlineQueue: state.offlineQueue.map(q =>
-                      q.id === item.id ? { ...q, synced: true } : q
-                    )
-                  }));
-                }
-              }
-              break;
-          }
-        } catch (error) {
-          console.error('Error processing offline queue item:', error);
-        }
-      });
+    if (error) throw error;
+    return (data || []) as unknown as ChapterRevision[];
+  },
+
+  // Only the chapter author can restore; the restore becomes a new revision
+  restoreChapterRevision: async (storyId: string, revisionId: string) => {
+    const { data, error } = await supabase.rpc('restore_chapter_revision', {
+      p_revision_id: revisionId,
+    });
+
+    if (error) throw error;
+    const result = data as unknown as { success: boolean; error?: string } | null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Failed to restore revision');
+    }
+
+    get().invalidateStoryCache(storyId);
+    await get().fetchStory(storyId);
+  },
+
+  fetchStoryTurns: async (storyId: string, limit = 20) => {
+    const { data, error } = await supabase
+      .from('story_turns')
+      .select('*')
+      .eq('story_id', storyId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as unknown as StoryTurn[];
+  },
+
+  // Skipping gives the turn to the next writer; the server checks it is ours
+  skipTurn: async (storyId: string) => {
+    const { data, error } = await supabase.rpc('skip_turn', {
+      p_story_id: storyId,
+    });
+
+    if (error) throw error;
+    const result = data as unknown as { success: boolean; error?: string } | null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Failed to skip your turn');
+    }
+
+    get().invalidateStoryCache(storyId);
+    await get().fetchStory(storyId);
+  },
+
+  passTurn: async (storyId: string, toUserId?: string) => {
+    const { data, error } = await supabase.rpc('pass_turn', {
+      p_story_id: storyId,
+      p_to_user_id: toUserId ?? null,
+    });
+
+    if (error) throw error;
+    const result = data as unknown as { success: boolean; error?: string } | null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Failed to pass the pen');
+    }
+
+    get().invalidateStoryCache(storyId);
+    await get().fetchStory(storyId);
+  },
+
+  updateTurnSettings: async (storyId: string, settings: TurnSettings) => {
+    const { data, error } = await supabase.rpc('update_turn_settings', {
+      p_story_id: storyId,
+      p_deadline_hours: settings.deadlineHours,
+      p_grace_hours: settings.graceHours,
+      p_reminder_hours: settings.reminderHours,
+    });
+
+    if (error) throw error;
+    const result = data as unknown as { success: boolean; error?: string } | null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Failed to save turn settings');
+    }
+
+    get().invalidateStoryCache(storyId);
+    await get().fetchStory(storyId);
+  },
+
+  updateStorySettings: async (storyId: string, settings: StorySettings) => {
+    const { data, error } = await supabase.rpc('update_story_settings', {
+      p_story_id: storyId,
+      p_turn_mode: settings.turnMode,
+      p_min_chapter_words: settings.minChapterWords,
+      p_max_chapter_words: settings.maxChapterWords,
+      p_ai_enhancement_allowed: settings.aiEnhancementAllowed,
+      p_content_rating: settings.contentRating,
+      p_target_chapters: settings.targetChapters,
+    });
+
+    if (error) throw error;
+    const result = data as unknown as { success: boolean; error?: string } | null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Failed to save story settings');
+    }
+
+    get().invalidateStoryCache(storyId);
+    await get().fetchStory(storyId);
+  },
+
+  updateStoryWriters: async (storyId: string, memberOrder: string[], maxMembers: number) => {
+    const { data, error } = await supabase.rpc('update_story_writers', {
+      p_story_id: storyId,
+      p_member_order: memberOrder,
+      p_max_members: maxMembers,
+    });
+
+    if (error) throw error;
+    const result = data as unknown as { success: boolean; error?: string } | null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Failed to save writers');
+    }
+
+    get().invalidateStoryCache(storyId);
+    await get().fetchStory(storyId);
+  },
+
+  fetchChapterConflicts: async (storyId: string) => {
+    const { data, error } = await supabase
+      .from('chapter_conflicts')
+      .select('*')
+      .eq('story_id', storyId)
+      .eq('status', 'open')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching chapter conflicts:', error);
+      return get().chapterConflicts[storyId] || [];
+    }
+
+    const conflicts = (data as unknown as ChapterConflict[]) || [];
+    set((state) => ({ chapterConflicts: { ...state.chapterConflicts, [storyId]: conflicts } }));
+    return conflicts;
+  },
+
+  resolveChapterConflict: async (
+    conflict: ChapterConflict,
+    resolution: ChapterConflictResolution,
+    options: { content?: string; choiceTitles?: [string, string] } = {}
+  ) => {
+    const { data, error } = await supabase.rpc('resolve_chapter_conflict', {
+      p_conflict_id: conflict.id,
+      p_resolution: resolution,
+      p_content: options.content ?? null,
+      p_choice_titles: options.choiceTitles ?? null,
+    });
+
+    if (error) throw error;
+    const result = data as unknown as { success: boolean; error?: string } | null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Failed to resolve conflict');
+    }
+
+    get().invalidateStoryCache(conflict.story_id);
+    await Promise.all([
+      get().fetchStory(conflict.story_id),
+      get().fetchChapterConflicts(conflict.story_id),
+    ]);
+  },
+
+  fetchAutoBookRule: async (storyId: string) => {
+    const { data, error } = await supabase
+      .from('auto_book_rules')
+      .select('*')
+      .eq('story_id', storyId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching auto book rule:', error);
+      return null;
+    }
+
+    const rule = (data as unknown as AutoBookRule) || null;
+    set((state) => ({ autoBookRules: { ...state.autoBookRules, [storyId]: rule } }));
+    return rule;
+  },
 
-    await Promise.allSettled(promises);
+  saveAutoBookRule: async (storyId: string, rule: AutoBookRuleInput | null) => {
+    const existing = get().autoBookRules[storyId];
 
-    // Remove synced items from queue after a delay
-    setTimeout(() => {
+    // Turning the rule off keeps its history so old milestones are not repeated
+    if (!rule) {
+      if (!existing) return;
+      const { error } = await supabase
+        .from('auto_book_rules')
+        .update({ enabled: false, updated_at: new Date().toISOString() })
+        .eq('id', existing.id);
+      if (error) throw error;
       set((state) => ({
-        offlineQueue: state.offlineQueue.filter(q => !q.synced)
+        autoBookRules: { ...state.autoBookRules, [storyId]: { ...existing, enabled: false } }
       }));
-    }, 5000);
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const values = {
+      ...rule,
+      chapter_interval: rule.trigger_type === 'every_n_chapters' ? rule.chapter_interval : null,
+      enabled: true,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = existing
+      ? await supabase
+          .from('auto_book_rules')
+          .update(values)
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('auto_book_rules')
+          .insert({ ...values, story_id: storyId, created_by: user.id })
+          .select()
+          .single();
+
+    if (error) throw error;
+    set((state) => ({
+      autoBookRules: { ...state.autoBookRules, [storyId]: data as unknown as AutoBookRule }
+    }));
+  },
+
+  fetchMilestoneBooks: async (storyId: string) => {
+    const { data, error } = await supabase
+      .from('export_jobs')
+      .select('*')
+      .eq('story_id', storyId)
+      .eq('trigger', 'milestone')
+      .eq('status', 'completed')
+      .order('completed_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error('Error fetching milestone books:', error);
+      return;
+    }
+
+    set((state) => ({
+      milestoneBooks: { ...state.milestoneBooks, [storyId]: (data || []) as unknown as ExportJob[] }
+    }));
   },
 
   trackTokenUsage: (feature: string, cost: number) => {
@@ -1192,12 +1720,6 @@ export const useStoriesStore = create<StoriesState>((set, get) => ({
         [feature]: (state.aiTokenUsage[feature] || 0) + cost,
       }
     }));
-
-    // Update token store
-    const tokenStore = useTokenStore.getState();
-    if (cost > 0) {
-      tokenStore.deductTokens(cost);
-    }
   },
 
   updateUserPresence: (storyId: string, presence: any) => {
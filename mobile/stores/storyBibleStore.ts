@@ -0,0 +1,275 @@
+import { create } from 'zustand';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { StoryBibleSection } from '@/lib/types';
+import {
+  BIBLE_SAVE_DELAY_MS,
+  MAX_BIBLE_SECTION_LENGTH,
+  MAX_BIBLE_TITLE_LENGTH,
+  sortBibleSections,
+} from '@/lib/storyBible';
+
+export interface StoryBibleState {
+  storyId: string | null;
+  sections: StoryBibleSection[];
+  // Text typed but not saved yet, by section id
+  drafts: Record<string, string>;
+  // Sections a partner changed while this user had unsaved text in them
+  changedByPartner: string[];
+  savingIds: string[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Loads the bible and follows the partner's edits until close
+  openBible: (storyId: string) => Promise<void>;
+  closeBible: () => Promise<void>;
+
+  editSection: (sectionId: string, content: string) => void;
+  saveSection: (sectionId: string) => Promise<void>;
+  // Drops this user's unsaved text in favour of the saved section
+  discardDraft: (sectionId: string) => void;
+  addSection: (title: string) => Promise<void>;
+  renameSection: (sectionId: string, title: string) => Promise<void>;
+  removeSection: (sectionId: string) => Promise<void>;
+}
+
+let channel: RealtimeChannel | null = null;
+const saveTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+const clearSaveTimer = (sectionId: string) => {
+  const timer = saveTimers.get(sectionId);
+  if (timer) {
+    clearTimeout(timer);
+    saveTimers.delete(sectionId);
+  }
+};
+
+const without = <T>(record: Record<string, T>, key: string): Record<string, T> => {
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+};
+
+export const useStoryBibleStore = create<StoryBibleState>((set, get) => {
+  const upsertSection = (section: StoryBibleSection) => {
+    const others = get().sections.filter(s => s.id !== section.id);
+    set({ sections: sortBibleSections([...others, section]) });
+  };
+
+  const handleRemoteChange = (section: StoryBibleSection) => {
+    const { sections, drafts, changedByPartner } = get();
+    const current = sections.find(s => s.id === section.id);
+    // Our own saves come back too
+    if (current && current.updated_at === section.updated_at) return;
+
+    upsertSection(section);
+    const draft = drafts[section.id];
+    if (draft !== undefined && draft !== section.content && !changedByPartner.includes(section.id)) {
+      set({ changedByPartner: [...changedByPartner, section.id] });
+    }
+  };
+
+  const handleRemoteDelete = (sectionId: string) => {
+    clearSaveTimer(sectionId);
+    set({
+      sections: get().sections.filter(s => s.id !== sectionId),
+      drafts: without(get().drafts, sectionId),
+      changedByPartner: get().changedByPartner.filter(id => id !== sectionId),
+    });
+  };
+
+  const fetchSections = async (storyId: string): Promise<StoryBibleSection[]> => {
+    const { data, error } = await supabase
+      .from('story_bible_sections')
+      .select('*')
+      .eq('story_id', storyId);
+
+    if (error) throw error;
+    return (data || []) as StoryBibleSection[];
+  };
+
+  return {
+    storyId: null,
+    sections: [],
+    drafts: {},
+    changedByPartner: [],
+    savingIds: [],
+    isLoading: false,
+    error: null,
+
+    openBible: async (storyId: string) => {
+      if (get().storyId && get().storyId !== storyId) {
+        await get().closeBible();
+      }
+
+      set({ storyId, isLoading: true, error: null });
+      try {
+        let sections = await fetchSections(storyId);
+
+        // A story's first visit adds the built-in sections
+        if (!sections.some(s => s.kind !== 'custom')) {
+          const { data, error } = await supabase.rpc('ensure_story_bible', { p_story_id: storyId });
+          if (error) throw error;
+
+          const result = data as unknown as { success: boolean; error?: string } | null;
+          if (!result?.success) {
+            throw new Error(result?.error || 'Failed to start the story bible');
+          }
+          sections = await fetchSections(storyId);
+        }
+
+        if (get().storyId !== storyId) return;
+        set({ sections: sortBibleSections(sections) });
+
+        if (!channel) {
+          channel = supabase
+            .channel(`story-bible:${storyId}`)
+            .on(
+              'postgres_changes',
+              {
+                event: '*',
+                schema: 'public',
+                table: 'story_bible_sections',
+                filter: `story_id=eq.${storyId}`,
+              },
+              (payload) => {
+                if (payload.eventType === 'DELETE') {
+                  const old = payload.old as Partial<StoryBibleSection>;
+                  if (old.id) handleRemoteDelete(old.id);
+                } else {
+                  handleRemoteChange(payload.new as StoryBibleSection);
+                }
+              }
+            )
+            .subscribe();
+        }
+      } catch (error) {
+        console.error('Error loading story bible:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to load the story bible' });
+      } finally {
+        set({ isLoading: false });
+      }
+    },
+
+    closeBible: async () => {
+      // Unsaved text goes in before leaving
+      const pending = Object.keys(get().drafts);
+      await Promise.all(pending.map(sectionId => get().saveSection(sectionId).catch(() => undefined)));
+
+      if (channel) {
+        await channel.unsubscribe();
+        channel = null;
+      }
+      set({ storyId: null, sections: [], drafts: {}, changedByPartner: [], savingIds: [], error: null });
+    },
+
+    editSection: (sectionId: string, content: string) => {
+      set({ drafts: { ...get().drafts, [sectionId]: content.slice(0, MAX_BIBLE_SECTION_LENGTH) } });
+
+      clearSaveTimer(sectionId);
+      saveTimers.set(sectionId, setTimeout(() => {
+        saveTimers.delete(sectionId);
+        get().saveSection(sectionId).catch(error => {
+          console.error('Error saving story bible section:', error);
+        });
+      }, BIBLE_SAVE_DELAY_MS));
+    },
+
+    saveSection: async (sectionId: string) => {
+      clearSaveTimer(sectionId);
+      const content = get().drafts[sectionId];
+      if (content === undefined) return;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      set({ savingIds: [...get().savingIds, sectionId] });
+      try {
+        const { data, error } = await supabase
+          .from('story_bible_sections')
+          .update({ content, updated_by: user.id })
+          .eq('id', sectionId)
+          .select()
+          .single();
+
+        if (error) {
+          set({ error: error.message });
+          throw error;
+        }
+
+        upsertSection(data as StoryBibleSection);
+        // Typing may have carried on while this was saving
+        if (get().drafts[sectionId] === content) {
+          set({
+            drafts: without(get().drafts, sectionId),
+            changedByPartner: get().changedByPartner.filter(id => id !== sectionId),
+          });
+        }
+      } finally {
+        set({ savingIds: get().savingIds.filter(id => id !== sectionId) });
+      }
+    },
+
+    discardDraft: (sectionId: string) => {
+      clearSaveTimer(sectionId);
+      set({
+        drafts: without(get().drafts, sectionId),
+        changedByPartner: get().changedByPartner.filter(id => id !== sectionId),
+      });
+    },
+
+    addSection: async (title: string) => {
+      const { storyId, sections } = get();
+      const trimmed = title.trim().slice(0, MAX_BIBLE_TITLE_LENGTH);
+      if (!storyId) {
+        throw new Error('Open a story bible first');
+      }
+      if (!trimmed) {
+        throw new Error('Give the section a name');
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const position = sections.reduce((max, s) => Math.max(max, s.position), -1) + 1;
+      const { data, error } = await supabase
+        .from('story_bible_sections')
+        .insert({ story_id: storyId, kind: 'custom', title: trimmed, position, updated_by: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      upsertSection(data as StoryBibleSection);
+    },
+
+    renameSection: async (sectionId: string, title: string) => {
+      const trimmed = title.trim().slice(0, MAX_BIBLE_TITLE_LENGTH);
+      if (!trimmed) {
+        throw new Error('Give the section a name');
+      }
+
+      const { data, error } = await supabase
+        .from('story_bible_sections')
+        .update({ title: trimmed })
+        .eq('id', sectionId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      upsertSection(data as StoryBibleSection);
+    },
+
+    removeSection: async (sectionId: string) => {
+      const { error } = await supabase
+        .from('story_bible_sections')
+        .delete()
+        .eq('id', sectionId);
+
+      if (error) throw error;
+      handleRemoteDelete(sectionId);
+    },
+  };
+});
@@ -1,21 +1,29 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
-import { TokenManager, PURCHASE_OPTIONS, TokenTransaction } from '../lib/tokenManager';
+import {
+  TokenManager,
+  PURCHASE_OPTIONS,
+  TokenTransaction,
+  SpendOptions,
+  createIdempotencyKey,
+} from '../lib/tokenManager';
+import { getPurchaseProvider } from '../lib/purchases';
+import type { TokenStatement } from '../lib/tokenStatement';
 
 interface TokenState {
   balance: number;
   tokens: number;
   transactions: TokenTransaction[];
+  statement: TokenStatement | null;
   isLoading: boolean;
   error: string | null;
 
   // Actions
   fetchBalance: () => Promise<void>;
   fetchTransactions: () => Promise<void>;
-  addTokens: (amount: number, description: string, metadata?: any) => Promise<boolean>;
-  spendTokens: (amount: number, description: string, metadata?: any) => Promise<boolean>;
+  fetchStatement: (month: Date) => Promise<void>;
+  spendTokens: (amount: number, description: string, options: SpendOptions) => Promise<boolean>;
   purchaseTokens: (optionId: string) => Promise<boolean>;
-  deductTokens: (amount: number) => void;
 
   // Reset
   clearError: () => void;
@@ -23,34 +31,31 @@ interface TokenState {
   reset: () => void;
 }
 
-interface User {
-  id: string | null;
-}
-
 // Get current user
-const getCurrentUser = (): string | null => {
-  const { data: { user } } = supabase.auth.getUser();
+const getCurrentUser = async (): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
   return user?.id || null;
 };
 
-export const useTokenStore = create<TokenState>((set, get) => ({
-  balance: 100,
-  tokens: 100,
+export const useTokenStore = create<TokenState>((set) => ({
+  balance: 0,
+  tokens: 0,
   transactions: [],
+  statement: null,
   isLoading: false,
   error: null,
 
   fetchBalance: async () => {
     try {
       set({ isLoading: true, error: null });
-      const userId = getCurrentUser();
+      const userId = await getCurrentUser();
       if (!userId) {
         set({ error: 'No user logged in', isLoading: false });
         return;
       }
 
       const balance = await TokenManager.getTokenBalance(userId);
-      set({ balance, isLoading: false });
+      set({ balance, tokens: balance, isLoading: false });
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to fetch balance',
@@ -62,7 +67,7 @@ export const useTokenStore = create<TokenState>((set, get) => ({
   fetchTransactions: async () => {
     try {
       set({ isLoading: true, error: null });
-      const userId = getCurrentUser();
+      const userId = await getCurrentUser();
       if (!userId) {
         set({ error: 'No user logged in', isLoading: false });
         return;
@@ -78,62 +83,35 @@ export const useTokenStore = create<TokenState>((set, get) => ({
     }
   },
 
-  addTokens: async (amount: number, description: string, metadata?: any) => {
+  fetchStatement: async (month: Date) => {
     try {
-      const userId = getCurrentUser();
-      if (!userId) return false;
-
-      const success = await TokenManager.addTokens(userId, amount, description, metadata);
-      if (success) {
-        // Update local state
-        set(state => ({
-          balance: state.balance + amount,
-          transactions: [
-            {
-              id: Date.now().toString(),
-              user_id: userId,
-              amount,
-              type: 'earned',
-              description,
-              created_at: new Date().toISOString(),
-              metadata,
-            },
-            ...state.transactions,
-          ],
-        }));
-      }
-      return success;
+      set({ isLoading: true, error: null });
+      const statement = await TokenManager.getStatement(month);
+      set({ statement, isLoading: false });
     } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to add tokens' });
-      return false;
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch statement',
+        isLoading: false
+      });
     }
   },
 
-  spendTokens: async (amount: number, description: string, metadata?: any) => {
+  spendTokens: async (amount: number, description: string, options: SpendOptions) => {
     try {
-      const userId = getCurrentUser();
+      const userId = await getCurrentUser();
       if (!userId) return false;
 
-      const success = await TokenManager.spendTokens(userId, amount, description, metadata);
-      if (success) {
-        // Update local state
-        set(state => ({
-          balance: state.balance - amount,
-          transactions: [
-            {
-              id: Date.now().toString(),
-              user_id: userId,
-              amount: -amount,
-              type: 'spent',
-              description,
-              created_at: new Date().toISOString(),
-              metadata,
-            },
-            ...state.transactions,
-          ],
-        }));
+      const result = await TokenManager.spendTokens(userId, amount, description, options);
+      if (!result.success) {
+        set({ error: result.error || 'Failed to spend tokens' });
+        return false;
+      }
+
+      // The server's balance is the truth, replayed spends included
+      if (result.balance !== undefined) {
+        set({ balance: result.balance, tokens: result.balance });
       }
-      return success;
+      return true;
     } catch (error) {
       set({ error: error instanceof Error ? error.message : 'Failed to spend tokens' });
       return false;
@@ -150,33 +128,45 @@ export const useTokenStore = create<TokenState>((set, get) => ({
         return false;
       }
 
-      // TODO: Implement IAP integration
-      // For now, simulate purchase
-      const mockSuccess = await new Promise<boolean>(resolve => {
-        setTimeout(() => {
-          resolve(Math.random() > 0.1); // 90% success rate
-        }, 1000);
-      });
+      const provider = getPurchaseProvider();
+      if (!provider.store || !provider.buyTokenPack) {
+        set({ error: 'In-app purchases are not available yet', isLoading: false });
+        return false;
+      }
 
-      if (mockSuccess) {
-        const success = await TokenManager.addTokens(
-          getCurrentUser()!,
-          option.tokens,
-          `Purchased ${option.name} package`,
-          { purchase_id: optionId, price: option.price }
-        );
-
-        if (success) {
-          set(state => ({
-            balance: state.balance + option.tokens,
-            isLoading: false,
-          }));
-          return true;
-        }
+      // Tokens are credited by the server once the store receipt is
+      // verified, never by the client
+      const purchase = await TokenManager.createPurchase(
+        option.id,
+        provider.store,
+        createIdempotencyKey(`token-pack-${option.id}`)
+      );
+
+      const storeResult = await provider.buyTokenPack(option.id);
+      if (!storeResult.success || !storeResult.receipt) {
+        await TokenManager.cancelPurchase(purchase.id);
+        set({
+          error: storeResult.canceled ? null : storeResult.error || 'Purchase failed',
+          isLoading: false,
+        });
+        return false;
       }
 
-      set({ error: 'Purchase failed', isLoading: false });
-      return false;
+      const result = await TokenManager.verifyPurchase(
+        purchase.id,
+        storeResult.receipt,
+        storeResult.transactionId
+      );
+      if (!result.success) {
+        set({ error: result.error || 'Could not verify the purchase', isLoading: false });
+        return false;
+      }
+
+      if (result.balance !== undefined) {
+        set({ balance: result.balance, tokens: result.balance });
+      }
+      set({ isLoading: false });
+      return true;
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Purchase failed',
@@ -190,10 +180,5 @@ export const useTokenStore = create<TokenState>((set, get) => ({
 
   setBalance: (balance: number) => set({ balance, tokens: balance }),
 
-  reset: () => set({ balance: 0, tokens: 0, transactions: [], error: null }),
-
-  deductTokens: (amount: number) => {
-    const currentBalance = get().balance;
-    set({ balance: Math.max(0, currentBalance - amount), tokens: Math.max(0, currentBalance - amount) });
-  },
+  reset: () => set({ balance: 0, tokens: 0, transactions: [], statement: null, error: null }),
 }));
\ No newline at end of file
@@ -0,0 +1,85 @@
+// supabase/functions/_shared/storyBible.ts
+// The story bible as prompt context for the AI writing functions.
+
+// The functions import different supabase-js builds, so only the calls used
+// here are typed
+interface StoryBibleClient {
+  from(table: string): any;
+}
+
+// The story bible goes into every prompt, so it is trimmed to this length.
+// Short sections are kept whole and the longer ones share what is left.
+const MAX_STORY_BIBLE_LENGTH = 1500;
+// A section with less room than this is left out rather than cut to a stub
+const MIN_STORY_BIBLE_SECTION_LENGTH = 40;
+
+interface StoryBibleSection {
+  title: string;
+  content: string;
+}
+
+// Cuts text to a length, at a word boundary where there is one
+function clipText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+// The story bible as prompt context, at most MAX_STORY_BIBLE_LENGTH characters
+function trimStoryBible(
+  sections: StoryBibleSection[],
+  sanitize: (input: string) => string
+): string {
+  const entries = sections
+    .map(section => ({
+      title: sanitize(section.title),
+      text: sanitize(section.content.replace(/\s+/g, ' ')),
+    }))
+    .filter(entry => entry.text.length > 0);
+
+  // Hand out the room shortest section first, so what a short section does
+  // not need goes to the longer ones
+  let budget = MAX_STORY_BIBLE_LENGTH - entries.reduce((total, entry) => total + entry.title.length + 3, 0);
+  let remaining = entries.length;
+  const limits = new Map<typeof entries[number], number>();
+  for (const entry of [...entries].sort((a, b) => a.text.length - b.text.length)) {
+    const limit = Math.min(entry.text.length, Math.floor(Math.max(budget, 0) / remaining));
+    limits.set(entry, limit);
+    budget -= limit;
+    remaining--;
+  }
+
+  return entries
+    .filter(entry => limits.get(entry)! >= Math.min(entry.text.length, MIN_STORY_BIBLE_SECTION_LENGTH))
+    .map(entry => `${entry.title}: ${clipText(entry.text, limits.get(entry)!)}`)
+    .join('\n');
+}
+
+// The trimmed story bible, or an empty string when the user is not in the
+// story or it has none. Sections go through the calling function's prompt
+// sanitizer before they are measured.
+export async function loadStoryBible(
+  supabase: StoryBibleClient,
+  storyId: string,
+  userId: string,
+  sanitize: (input: string) => string
+): Promise<string> {
+  const [{ data: story }, { data: member }] = await Promise.all([
+    supabase.from('stories').select('created_by').eq('id', storyId).maybeSingle(),
+    supabase.from('story_members').select('user_id').eq('story_id', storyId).eq('user_id', userId).maybeSingle(),
+  ]);
+  if (!story || (story.created_by !== userId && !member)) return '';
+
+  const { data: sections, error } = await supabase
+    .from('story_bible_sections')
+    .select('title, content')
+    .eq('story_id', storyId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Story bible error:', error);
+    return '';
+  }
+  return trimStoryBible(sections || [], sanitize);
+}
@@ -0,0 +1,136 @@
+// supabase/functions/_shared/tokenLedger.ts
+// Charging for paid AI calls through the token ledger. Every function that
+// charges for its work uses these, with a service role client.
+
+// The functions import different supabase-js builds, so only the calls used
+// here are typed
+interface LedgerClient {
+  rpc(fn: string, args?: Record<string, unknown>): PromiseLike<{ data: any; error: any }>;
+  from(table: string): any;
+}
+
+export interface TokenCharge {
+  transactionId: string;
+}
+
+export interface ChargeRequest {
+  userId: string;
+  amount: number;
+  feature: string; // Ledger feature type, and the prefix of the idempotency key
+  description: string;
+  idempotencyKey: string;
+  storyId?: string | null;
+  chapterId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+// Either the call was charged and may run, the key belongs to a call that
+// already finished (send its response again), or the call must not run
+export type ChargeOutcome =
+  | { charge: TokenCharge }
+  | { stored: unknown }
+  | { error: string; status: number };
+
+// Charges the user for one call. A key that was charged before never runs
+// the model a second time: a finished call returns what it answered, and a
+// refunded or still running one is turned away.
+export async function chargeTokens(
+  ledger: LedgerClient,
+  request: ChargeRequest
+): Promise<ChargeOutcome> {
+  const { data, error } = await ledger.rpc('spend_tokens', {
+    p_user_id: request.userId,
+    p_amount: request.amount,
+    p_description: request.description,
+    p_feature_type: request.feature,
+    p_idempotency_key: `${request.feature}:${request.idempotencyKey}`,
+    p_story_id: request.storyId ?? null,
+    p_chapter_id: request.chapterId ?? null,
+    p_metadata: request.metadata ?? null,
+  });
+
+  // A key first used for another charge is refused as a replay, and counts
+  // as a failure like a spend that could not be paid
+  if (error || !data?.success) {
+    return {
+      error: data?.error || 'Could not charge tokens for this request',
+      status: data?.replayed ? 409 : 402,
+    };
+  }
+
+  if (!data.replayed) {
+    return { charge: { transactionId: data.transaction_id } };
+  }
+
+  const { data: stored } = await ledger
+    .from('token_call_results')
+    .select('response')
+    .eq('transaction_id', data.transaction_id)
+    .maybeSingle();
+
+  if (stored) {
+    return { stored: stored.response };
+  }
+
+  return (await isRefunded(ledger, request.userId, data.transaction_id))
+    ? { error: 'This request failed and was refunded. Send it again as a new request.', status: 409 }
+    : { error: 'This request is already being processed', status: 409 };
+}
+
+// A spend is refunded into the ledger it came from. Refunds to the personal
+// ledger (also those of a closed couple wallet) are keyed by the spend; a
+// couple wallet's own refund points back at it.
+async function isRefunded(
+  ledger: LedgerClient,
+  userId: string,
+  transactionId: string
+): Promise<boolean> {
+  const { data: personal } = await ledger
+    .from('token_transactions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('idempotency_key', `refund:${transactionId}`)
+    .maybeSingle();
+  if (personal) return true;
+
+  const { data: pooled } = await ledger
+    .from('couple_wallet_transactions')
+    .select('id')
+    .eq('reverses_id', transactionId)
+    .maybeSingle();
+  return !!pooled;
+}
+
+// Keeps the response of a paid call, so a retry with the same key gets it
+// back instead of running the model again
+export async function storeResult(
+  ledger: LedgerClient,
+  charge: TokenCharge | null,
+  response: unknown
+): Promise<void> {
+  if (!charge) return;
+
+  const { error } = await ledger
+    .from('token_call_results')
+    .upsert({ transaction_id: charge.transactionId, response });
+  if (error) {
+    console.error('Token call result error:', error);
+  }
+}
+
+// Gives the tokens back when the call fails after it was charged
+export async function refundTokens(
+  ledger: LedgerClient,
+  charge: TokenCharge | null,
+  reason: string
+): Promise<void> {
+  if (!charge) return;
+
+  const { error } = await ledger.rpc('refund_token_transaction', {
+    p_transaction_id: charge.transactionId,
+    p_reason: reason,
+  });
+  if (error) {
+    console.error('Token refund error:', error);
+  }
+}
@@ -1,6 +1,7 @@
 // supabase/functions/ai-character-avatar/index.ts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts'
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
 
@@ -19,6 +20,31 @@ interface AvatarRequest {
   height?: number
   userId?: string
   storyId?: string
+  idempotencyKey?: string // Same key on a retry, so the call is charged once
+}
+
+// Charged through the token ledger before generating, refunded if it fails. Cached avatars are free.
+const TOKEN_COST = 3
+
+// Plans live in the database (tier_entitlements), so the function asks
+// instead of deciding who is premium
+async function checkEntitlement(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  feature: string,
+  value?: string
+): Promise<{ allowed: boolean; error?: string }> {
+  const { data, error } = await supabase.rpc('check_entitlement', {
+    p_user_id: userId,
+    p_feature: feature,
+    p_value: value ?? null,
+  })
+
+  if (error) {
+    console.error('Entitlement check error:', error)
+    return { allowed: false, error: 'Could not check your plan' }
+  }
+  return { allowed: !!data?.allowed, error: data?.error }
 }
 
 serve(async (req: Request) => {
@@ -26,17 +52,18 @@ serve(async (req: Request) => {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  let charge: TokenCharge | null = null
+
   try {
     const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
     if (!geminiApiKey) {
       throw new Error('GEMINI_API_KEY is not configured');
     }
 
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
     const {
       characterName,
       characterDescription,
@@ -46,7 +73,8 @@ serve(async (req: Request) => {
       width = 512,
       height = 512,
       userId,
-      storyId
+      storyId,
+      idempotencyKey
     }: AvatarRequest = await req.json()
 
     if (!characterName || !characterDescription) {
@@ -56,6 +84,22 @@ serve(async (req: Request) => {
       )
     }
 
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'userId is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    // Some styles are premium
+    const entitlement = await checkEntitlement(supabaseClient, userId, 'premium_art_styles', style)
+    if (!entitlement.allowed) {
+      return new Response(
+        JSON.stringify({ success: false, error: entitlement.error, upgrade: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
     // Safety check using Gemini
     const safetyPrompt = `Analyze this character description for safety violations (hate speech, sexual explicitness, or extreme violence): "${characterName}: ${characterDescription}". 
 Return ONLY "SAFE" if it is safe, or "UNSAFE: [reason]" if it is not.`;
@@ -119,6 +163,28 @@ Return ONLY "SAFE" if it is safe, or "UNSAFE: [reason]" if it is not.`;
       )
     }
 
+    const charged = await chargeTokens(supabaseClient, {
+      userId,
+      amount: TOKEN_COST,
+      feature: 'ai-character-avatar',
+      description: 'AI character avatar',
+      idempotencyKey: idempotencyKey || crypto.randomUUID(),
+      storyId,
+    })
+    if ('stored' in charged) {
+      return new Response(
+        JSON.stringify(charged.stored),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+    if ('error' in charged) {
+      return new Response(
+        JSON.stringify({ success: false, error: charged.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: charged.status }
+      )
+    }
+    charge = charged.charge
+
     // Generate Image using Pollinations.ai (free & high quality alternative)
     // Format: https://image.pollinations.ai/prompt/[prompt]?width=[width]&height=[height]&model=[model]&seed=[seed]&nologo=true
     const seed = Math.floor(Math.random() * 1000000);
@@ -144,7 +210,7 @@ Return ONLY "SAFE" if it is safe, or "UNSAFE: [reason]" if it is not.`;
       })
 
     // Log character usage
-    if (userId && storyId) {
+    if (storyId) {
       await supabaseClient
         .from('story_characters')
         .upsert({
@@ -161,27 +227,29 @@ Return ONLY "SAFE" if it is safe, or "UNSAFE: [reason]" if it is not.`;
     }
 
     // Log usage
-    if (userId) {
-      await supabaseClient.rpc('log_ai_usage', {
-        p_user_id: userId,
-        p_function_name: 'ai-character-avatar',
-        p_tokens_used: 0,
-        p_cost: estimatedCost,
-        p_story_id: storyId,
-      })
+    await supabaseClient.rpc('log_ai_usage', {
+      p_user_id: userId,
+      p_function_name: 'ai-character-avatar',
+      p_tokens_used: 0,
+      p_cost: estimatedCost,
+      p_story_id: storyId,
+    })
+
+    const response = {
+      success: true,
+      data: result,
+      cached: false,
+      character_name: characterName
     }
+    await storeResult(supabaseClient, charge, response)
 
     return new Response(
-      JSON.stringify({
-        success: true,
-        data: result,
-        cached: false,
-        character_name: characterName
-      }),
+      JSON.stringify(response),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
   } catch (error) {
     console.error('Character avatar generation error:', error)
+    await refundTokens(supabaseClient, charge, 'Refund: AI character avatar failed')
     return new Response(
       JSON.stringify({ error: (error as Error).message }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,25 +13,32 @@ interface ConsistencyRequest {
   checkNewContent?: string
   userId?: string
   action?: 'check' | 'analyze' | 'update'
+  idempotencyKey?: string // Same key on a retry, so the call is charged once
 }
 
+// Charged through the token ledger once the story is loaded, refunded if the check fails
+const TOKEN_COST = 1
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  let charge: TokenCharge | null = null
+
   try {
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
 
     const {
       storyId,
       chapterId,
       checkNewContent,
       userId,
-      action = 'analyze'
+      action = 'analyze',
+      idempotencyKey
     }: ConsistencyRequest = await req.json()
 
     if (!storyId) {
@@ -40,6 +48,13 @@ serve(async (req) => {
       )
     }
 
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'userId is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
     // Get all characters for this story
     const { data: characters, error: charactersError } = await supabaseClient
       .from('story_characters')
@@ -86,6 +101,28 @@ serve(async (req) => {
       )
     }
 
+    const charged = await chargeTokens(supabaseClient, {
+      userId,
+      amount: TOKEN_COST,
+      feature: 'ai-character-consistency',
+      description: 'Character consistency check',
+      idempotencyKey: idempotencyKey || crypto.randomUUID(),
+      storyId,
+    })
+    if ('stored' in charged) {
+      return new Response(
+        JSON.stringify(charged.stored),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+    if ('error' in charged) {
+      return new Response(
+        JSON.stringify({ success: false, error: charged.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: charged.status }
+      )
+    }
+    charge = charged.charge
+
     let consistencyData: any = {
       characters: characters.map(c => ({
         id: c.id,
@@ -344,26 +381,28 @@ serve(async (req) => {
       })
 
     // Log usage
-    if (userId) {
-      await supabaseClient.rpc('log_ai_usage', {
-        p_user_id: userId,
-        p_function_name: 'ai-character-consistency',
-        p_tokens_used: 0,
-        p_cost: 0.01, // Flat fee for consistency check
-        p_story_id: storyId,
-      })
+    await supabaseClient.rpc('log_ai_usage', {
+      p_user_id: userId,
+      p_function_name: 'ai-character-consistency',
+      p_tokens_used: 0,
+      p_cost: 0.01, // Flat fee for consistency check
+      p_story_id: storyId,
+    })
+
+    const response = {
+      success: true,
+      data: consistencyData,
+      cached: false
     }
+    await storeResult(supabaseClient, charge, response)
 
     return new Response(
-      JSON.stringify({
-        success: true,
-        data: consistencyData,
-        cached: false
-      }),
+      JSON.stringify(response),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
   } catch (error) {
     console.error('Character consistency error:', error)
+    await refundTokens(supabaseClient, charge, 'Refund: character consistency check failed')
     return new Response(
       JSON.stringify({ error: error.message }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
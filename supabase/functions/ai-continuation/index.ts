@@ -1,6 +1,8 @@
 // supabase/functions/ai-continuation/index.ts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts';
+import { loadStoryBible } from '../_shared/storyBible.ts';
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
 
@@ -8,6 +10,8 @@ interface ContinuationRequest {
   storyContext: string;
   recentChapters: string[];
   theme: string;
+  storyId?: string;
+  idempotencyKey?: string; // Same key on a retry, so the call is charged once
 }
 
 interface ContinuationResponse {
@@ -27,6 +31,9 @@ type Theme = typeof ALLOWED_THEMES[number];
 // Rate limit
 const DAILY_RATE_LIMIT = 10;
 
+// Charged through the token ledger before the model runs, refunded if it fails
+const TOKEN_COST = 1;
+
 // Helper function to sanitize user input to prevent prompt injection
 function sanitizeInput(input: string): string {
   // Remove potential prompt injection patterns
@@ -172,6 +179,13 @@ serve(async (req) => {
     return new Response('Method not allowed', { status: 405, headers: corsHeaders });
   }
 
+  // Service role: charging tokens is server only
+  const ledger = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  let charge: TokenCharge | null = null;
+
   try {
     // Validate request size before parsing JSON
     try {
@@ -220,7 +234,7 @@ serve(async (req) => {
       });
     }
 
-    const { storyContext, recentChapters, theme }: ContinuationRequest = await req.json();
+    const { storyContext, recentChapters, theme, storyId, idempotencyKey }: ContinuationRequest = await req.json();
 
     // Validate required fields
     if (!storyContext || typeof storyContext !== 'string') {
@@ -307,6 +321,29 @@ serve(async (req) => {
     const sanitizedStoryContext = sanitizeInput(storyContext);
     const sanitizedChapters = recentChapters.map(ch => sanitizeInput(ch));
 
+    const storyBible = storyId ? await loadStoryBible(supabase, storyId, user.id, sanitizeInput) : '';
+
+    const charged = await chargeTokens(ledger, {
+      userId: user.id,
+      amount: TOKEN_COST,
+      feature: 'ai-continuation',
+      description: 'AI story continuation',
+      idempotencyKey: idempotencyKey || crypto.randomUUID(),
+      storyId,
+    });
+    if ('stored' in charged) {
+      return new Response(JSON.stringify(charged.stored), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if ('error' in charged) {
+      return new Response(JSON.stringify({ success: false, error: charged.error }), {
+        status: charged.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    charge = charged.charge;
+
     const themeGuidance: Record<Theme, string> = {
       romance: 'Keep suggestions romantic, focusing on emotional connection and relationship development.',
       fantasy: 'Include magical elements, adventures, and fantastical possibilities.',
@@ -316,10 +353,10 @@ serve(async (req) => {
     // Call Gemini API with API key in header
     const prompt = `Story context: "${sanitizedStoryContext}"
 Theme: ${validatedTheme}
-Recent chapters: ${sanitizedChapters.map((c, i) => `Chapter ${i + 1}: ${c}`).join('\n')}
+${storyBible ? `Story bible (their world, places, timeline, inside jokes and plans):\n${storyBible}\n` : ''}Recent chapters: ${sanitizedChapters.map((c, i) => `Chapter ${i + 1}: ${c}`).join('\n')}
 
 ${themeGuidance[validatedTheme]}
-
+${storyBible ? 'Stay consistent with the story bible, and work in its planned plot points and inside jokes where they fit.\n' : ''}
 Suggest 3 potential narrative directions for the next chapter.
 Each should be 1-2 sentences max.
 Return as a JSON array of strings: ["direction 1", "direction 2", "direction 3"]`;
@@ -337,6 +374,7 @@ Return as a JSON array of strings: ["direction 1", "direction 2", "direction 3"]
     });
 
     if (!geminiResponse.ok) {
+      await refundTokens(ledger, charge, 'Refund: AI story continuation failed');
       return new Response(JSON.stringify({ error: 'AI service unavailable' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -357,12 +395,16 @@ Return as a JSON array of strings: ["direction 1", "direction 2", "direction 3"]
         .slice(0, 3);
     }
 
-    return new Response(JSON.stringify({ suggestions }), {
+    const response = { suggestions };
+    await storeResult(ledger, charge, response);
+
+    return new Response(JSON.stringify(response), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
     console.error('Error in ai-continuation function:', error);
+    await refundTokens(ledger, charge, 'Refund: AI story continuation failed');
     return new Response(JSON.stringify({ error: 'Internal server error' }), {
       status: 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -1,6 +1,7 @@
 // supabase/functions/ai-cover-art/index.ts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,6 +16,31 @@ interface CoverArtRequest {
   height?: number
   userId?: string
   storyId?: string
+  idempotencyKey?: string // Same key on a retry, so the call is charged once
+}
+
+// Charged through the token ledger before generating, refunded if it fails. Cached covers are free.
+const TOKEN_COST = 5
+
+// Plans live in the database (tier_entitlements), so the function asks
+// instead of deciding who is premium
+async function checkEntitlement(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  feature: string,
+  value?: string
+): Promise<{ allowed: boolean; error?: string }> {
+  const { data, error } = await supabase.rpc('check_entitlement', {
+    p_user_id: userId,
+    p_feature: feature,
+    p_value: value ?? null,
+  })
+
+  if (error) {
+    console.error('Entitlement check error:', error)
+    return { allowed: false, error: 'Could not check your plan' }
+  }
+  return { allowed: !!data?.allowed, error: data?.error }
 }
 
 serve(async (req: Request) => {
@@ -22,13 +48,14 @@ serve(async (req: Request) => {
     return new Response('ok', { headers: corsHeaders })
   }
 
-  try {
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  let charge: TokenCharge | null = null
 
-    const { prompt, storyTitle, style = 'professional book cover', width = 1024, height = 1024, userId, storyId }: CoverArtRequest = await req.json()
+  try {
+    const { prompt, storyTitle, style = 'professional book cover', width = 1024, height = 1024, userId, storyId, idempotencyKey }: CoverArtRequest = await req.json()
 
     if (!prompt) {
       return new Response(
@@ -37,6 +64,23 @@ serve(async (req: Request) => {
       )
     }
 
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'userId is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    // Some styles are premium; checked before the cache so a cached cover is
+    // not a way around it
+    const entitlement = await checkEntitlement(supabaseClient, userId, 'premium_art_styles', style)
+    if (!entitlement.allowed) {
+      return new Response(
+        JSON.stringify({ success: false, error: entitlement.error, upgrade: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
     const enhancedPrompt = storyTitle
       ? `Book cover for "${storyTitle}": ${prompt}. Professional book cover design, ${style}, high quality, detailed illustration, cinematic lighting`
       : `Professional book cover: ${prompt}. ${style}, high quality, detailed illustration, cinematic lighting`
@@ -60,6 +104,28 @@ serve(async (req: Request) => {
       )
     }
 
+    const charged = await chargeTokens(supabaseClient, {
+      userId,
+      amount: TOKEN_COST,
+      feature: 'ai-cover-art',
+      description: 'AI cover art',
+      idempotencyKey: idempotencyKey || crypto.randomUUID(),
+      storyId,
+    })
+    if ('stored' in charged) {
+      return new Response(
+        JSON.stringify(charged.stored),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+    if ('error' in charged) {
+      return new Response(
+        JSON.stringify({ success: false, error: charged.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: charged.status }
+      )
+    }
+    charge = charged.charge
+
     // Generate Image using Pollinations.ai (free & high quality alternative)
     const seed = Math.floor(Math.random() * 1000000);
     const imageUrl = `https://image.pollinations.ai/prompt/${encodeURIComponent(enhancedPrompt)}?width=${width}&height=${height}&seed=${seed}&nologo=true`;
@@ -83,26 +149,28 @@ serve(async (req: Request) => {
       })
 
     // Log usage
-    if (userId) {
-      await supabaseClient.rpc('log_ai_usage', {
-        p_user_id: userId,
-        p_function_name: 'ai-cover-art',
-        p_tokens_used: 0,
-        p_cost: estimatedCost,
-        p_story_id: storyId,
-      })
+    await supabaseClient.rpc('log_ai_usage', {
+      p_user_id: userId,
+      p_function_name: 'ai-cover-art',
+      p_tokens_used: 0,
+      p_cost: estimatedCost,
+      p_story_id: storyId,
+    })
+
+    const response = {
+      success: true,
+      data: result,
+      cached: false
     }
+    await storeResult(supabaseClient, charge, response)
 
     return new Response(
-      JSON.stringify({
-        success: true,
-        data: result,
-        cached: false
-      }),
+      JSON.stringify(response),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
   } catch (error) {
     console.error('Cover art generation error:', error)
+    await refundTokens(supabaseClient, charge, 'Refund: AI cover art failed')
     return new Response(
       JSON.stringify({ error: (error as Error).message }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
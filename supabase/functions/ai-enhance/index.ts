@@ -2,13 +2,17 @@
 // supabase-functions-disable-jwt
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts';
+import { loadStoryBible } from '../_shared/storyBible.ts';
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
 
 interface EnhanceRequest {
   content: string;
   context?: string;
+  storyId?: string;
   userId?: string;  // For bypassing JWT auth with PKCE flow
+  idempotencyKey?: string; // Same key on a retry, so the call is charged once
 }
 
 interface EnhanceResponse {
@@ -26,6 +30,16 @@ const ALLOWED_THEMES = ['romance', 'fantasy', 'our_future'] as const;
 // Rate limit
 const DAILY_RATE_LIMIT = 100;
 
+// How far the model may go, from the story's content rating
+const RATING_GUIDANCE: Record<string, string> = {
+  general: 'Keep it suitable for all ages: affectionate but never sexual or graphic.',
+  teen: 'Keep it suitable for teens: romance and tension are fine, nothing explicit or graphic.',
+  mature: 'Mature themes are allowed, but keep intimate moments tasteful rather than explicit.',
+};
+
+// Charged through the token ledger before the model runs, refunded if it fails
+const TOKEN_COST = 2;
+
 // Helper function to sanitize user input to prevent prompt injection
 function sanitizeInput(input: string): string {
   // Remove potential prompt injection patterns
@@ -163,6 +177,9 @@ serve(async (req) => {
     return new Response('Method not allowed', { status: 405, headers: corsHeaders });
   }
 
+  let supabase: ReturnType<typeof createClient> | null = null;
+  let charge: TokenCharge | null = null;
+
   try {
     // Validate request size before parsing JSON
     try {
@@ -219,10 +236,10 @@ serve(async (req) => {
       userId = jwtPayload.sub as string;
     }
 
-    // Create Supabase client
-    const supabase = createClient(
+    // Service role: charging tokens is server only
+    supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
     // TODO: Re-enable rate limiting once ai_usage table is set up
@@ -239,7 +256,7 @@ serve(async (req) => {
     // }
 
     // Use already-parsed request body
-    const { content, context } = requestBody;
+    const { content, context, storyId } = requestBody;
 
     // Validate required fields
     if (!content || typeof content !== 'string') {
@@ -275,6 +292,47 @@ serve(async (req) => {
       });
     }
 
+    // The story's rules decide whether AI may touch its chapters, and how far
+    let contentRating = 'general';
+    if (storyId) {
+      const { data: story } = await supabase
+        .from('stories')
+        .select('ai_enhancement_allowed, content_rating')
+        .eq('id', storyId)
+        .maybeSingle();
+
+      if (story?.ai_enhancement_allowed === false) {
+        return new Response(JSON.stringify({ success: false, error: 'AI enhancement is turned off for this story' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      contentRating = story?.content_rating ?? 'general';
+    }
+
+    const storyBible = storyId ? await loadStoryBible(supabase, storyId, userId, sanitizeInput) : '';
+
+    const charged = await chargeTokens(supabase, {
+      userId,
+      amount: TOKEN_COST,
+      feature: 'ai-enhance',
+      description: 'AI enhancement',
+      idempotencyKey: requestBody.idempotencyKey || crypto.randomUUID(),
+      storyId,
+    });
+    if ('stored' in charged) {
+      return new Response(JSON.stringify(charged.stored), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if ('error' in charged) {
+      return new Response(JSON.stringify({ success: false, error: charged.error }), {
+        status: charged.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    charge = charged.charge;
+
     // Sanitize inputs to prevent prompt injection
     const sanitizedContent = sanitizeInput(content);
     const sanitizedContext = context ? sanitizeInput(context) : '';
@@ -283,11 +341,15 @@ serve(async (req) => {
     const systemPrompt = `You are a romantic co-writer helping a couple write their shared story.
 Enhance the following text with sensory details, emotional depth, and vivid imagery
 while preserving the user's voice and plot. Keep it playful and romantic.
+${RATING_GUIDANCE[contentRating] ?? RATING_GUIDANCE.general}
 Return ONLY the enhanced text, no explanations or meta-commentary.`;
 
+    const bibleContext = storyBible
+      ? `Story bible (keep names, places and facts consistent with it):\n${storyBible}\n\n`
+      : '';
     const userPrompt = sanitizedContext
-      ? `Context from their real life: "${sanitizedContext}"\n\nTheir chapter text: "${sanitizedContent}"`
-      : `Their chapter text: "${sanitizedContent}"`;
+      ? `${bibleContext}Context from their real life: "${sanitizedContext}"\n\nTheir chapter text: "${sanitizedContent}"`
+      : `${bibleContext}Their chapter text: "${sanitizedContent}"`;
 
     const geminiResponse = await fetch(GEMINI_API_URL, {
       method: 'POST',
@@ -311,6 +373,7 @@ Return ONLY the enhanced text, no explanations or meta-commentary.`;
     if (!geminiResponse.ok) {
       const errorText = await geminiResponse.text();
       console.error('Gemini API error:', errorText);
+      await refundTokens(supabase, charge, 'Refund: AI enhancement failed');
       return new Response(JSON.stringify({ error: 'AI service unavailable' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -325,12 +388,17 @@ Return ONLY the enhanced text, no explanations or meta-commentary.`;
       success: true,
       data: { enhancedContent }
     };
+    await storeResult(supabase, charge, response);
+
     return new Response(JSON.stringify(response), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
     console.error('Error in ai-enhance function:', error);
+    if (supabase) {
+      await refundTokens(supabase, charge, 'Refund: AI enhancement failed');
+    }
     return new Response(JSON.stringify({
       success: false,
       error: 'Internal server error'
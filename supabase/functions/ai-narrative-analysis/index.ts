@@ -1,6 +1,7 @@
 // supabase/functions/ai-narrative-analysis/index.ts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts'
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
 
@@ -15,30 +16,36 @@ interface AnalysisRequest {
   userId?: string
   storyId?: string
   includeDetailedBreakdown?: boolean
+  idempotencyKey?: string // Same key on a retry, so the call is charged once
 }
 
+// Charged through the token ledger before the model runs, refunded if it fails. Cached analyses are free.
+const TOKEN_COST = 1
+
 serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  let charge: TokenCharge | null = null
+
   try {
     const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
     if (!geminiApiKey) {
       throw new Error('GEMINI_API_KEY is not configured');
     }
 
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
     const {
       storyContent,
       chapterId,
       userId,
       storyId,
-      includeDetailedBreakdown = false
+      includeDetailedBreakdown = false,
+      idempotencyKey
     }: AnalysisRequest = await req.json()
 
     if (!storyContent) {
@@ -48,6 +55,13 @@ serve(async (req: Request) => {
       )
     }
 
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'userId is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
     // Cache check
     const contentHash = btoa(storyContent.substring(0, 500)).substring(0, 32)
     const cacheKey = `narrative-analysis:${contentHash}:${includeDetailedBreakdown}`
@@ -68,6 +82,28 @@ serve(async (req: Request) => {
       )
     }
 
+    const charged = await chargeTokens(supabaseClient, {
+      userId,
+      amount: TOKEN_COST,
+      feature: 'ai-narrative-analysis',
+      description: 'AI narrative analysis',
+      idempotencyKey: idempotencyKey || crypto.randomUUID(),
+      storyId,
+    })
+    if ('stored' in charged) {
+      return new Response(
+        JSON.stringify(charged.stored),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+    if ('error' in charged) {
+      return new Response(
+        JSON.stringify({ success: false, error: charged.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: charged.status }
+      )
+    }
+    charge = charged.charge
+
     // Prepare detailed prompt
     const analysisPrompt = `Analyze the following narrative content and provide insights as an expert literary analyst.
 Story Content: "${storyContent.substring(0, 15000)}"
@@ -127,6 +163,7 @@ Return ONLY the JSON.`;
     if (!geminiResponse.ok) {
       const error = await geminiResponse.text()
       console.error('Gemini API error:', error)
+      await refundTokens(supabaseClient, charge, 'Refund: AI narrative analysis failed')
       return new Response(JSON.stringify({ error: 'AI service unavailable' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -164,7 +201,7 @@ Return ONLY the JSON.`;
       })
 
     // Save analysis result to story_analyses table
-    if (userId && storyId) {
+    if (storyId) {
       await supabaseClient
         .from('story_analyses')
         .upsert({
@@ -179,28 +216,30 @@ Return ONLY the JSON.`;
     }
 
     // Log usage
-    if (userId) {
-      await supabaseClient.rpc('log_ai_usage', {
-        p_user_id: userId,
-        p_function_name: 'ai-narrative-analysis',
-        p_tokens_used: 0,
-        p_cost: estimatedCost,
-        p_story_id: storyId,
-      })
+    await supabaseClient.rpc('log_ai_usage', {
+      p_user_id: userId,
+      p_function_name: 'ai-narrative-analysis',
+      p_tokens_used: 0,
+      p_cost: estimatedCost,
+      p_story_id: storyId,
+    })
+
+    const response = {
+      success: true,
+      data: analysis,
+      cached: false,
+      estimated_cost: estimatedCost,
+      chapter_id: chapterId
     }
+    await storeResult(supabaseClient, charge, response)
 
     return new Response(
-      JSON.stringify({
-        success: true,
-        data: analysis,
-        cached: false,
-        estimated_cost: estimatedCost,
-        chapter_id: chapterId
-      }),
+      JSON.stringify(response),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
   } catch (error) {
     console.error('Narrative analysis error:', error)
+    await refundTokens(supabaseClient, charge, 'Refund: AI narrative analysis failed')
     return new Response(
       JSON.stringify({ error: (error as Error).message }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
@@ -0,0 +1,463 @@
+// supabase/functions/ai-plot-weaver/index.ts
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
+
+interface PlotWeaverRequest {
+  storyId: string;
+  choiceId?: string;        // Choice the writer is continuing, if any
+  parentChapterId?: string; // Chapter being continued when there is no choice
+  draftContent?: string;    // The chapter the writer is working on
+  count?: number;
+  userId?: string;  // For bypassing JWT auth with PKCE flow
+  idempotencyKey?: string; // Same key on a retry, so the call is only charged once
+}
+
+interface PlotHook {
+  inspirationId: string;
+  inspiration: string;
+  hook: string;      // What happens in the story
+  howToUse: string;  // Where and how to work it into the chapter
+}
+
+interface PlotWeaverResponse {
+  hooks: PlotHook[];
+  unusedCount: number;
+}
+
+// Security constants
+const MAX_DRAFT_LENGTH = 5000;
+const MAX_CHAPTER_LENGTH = 2000;
+const MAX_CONTEXT_CHAPTERS = 3;
+const MAX_INSPIRATIONS = 20;
+const MAX_INSPIRATION_LENGTH = 500;
+const MAX_REQUEST_SIZE = 1_048_576; // 1MB in bytes
+
+// Charged through the token ledger before the model runs, refunded if it fails
+const TOKEN_COST = 1;
+
+const MIN_HOOKS = 1;
+const MAX_HOOKS = 5;
+const DEFAULT_HOOKS = 3;
+const MAX_HOOK_LENGTH = 600;
+
+// Helper function to sanitize user input to prevent prompt injection
+function sanitizeInput(input: string): string {
+  // Remove potential prompt injection patterns
+  return input
+    .replace(/<script[^>]*>.*?<\/script>/gis, '') // Remove script tags
+    .replace(/<[^>]*>/g, '') // Remove any HTML tags
+    .replace(/javascript:/gi, '') // Remove javascript: protocol
+    .replace(/on\w+\s*=/gi, '') // Remove event handlers like onclick=
+    .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
+    .trim();
+}
+
+// Helper function to get CORS headers with proper origin validation
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigins = Deno.env.get('ALLOWED_ORIGINS')?.split(',') || [];
+  const requestOrigin = origin || '';
+
+  // Default allowed origins for local development
+  const defaultLocalOrigins = [
+    'http://localhost:3000',
+    'http://localhost:3001',
+    'http://localhost:8081',
+    'http://127.0.0.1:3000',
+    'http://127.0.0.1:3001',
+    'http://192.168.1.1:8081',
+    'exp://192.168.1.1:8081',
+    'exp://127.0.0.1:8081',
+  ];
+
+  const allAllowedOrigins = [...defaultLocalOrigins, ...allowedOrigins];
+
+  // Validate origin against allowed list
+  const validOrigin = allAllowedOrigins.includes(requestOrigin)
+    ? requestOrigin
+    : allowedOrigins[0] || requestOrigin || '*';
+
+  return {
+    'Access-Control-Allow-Origin': validOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+    'Access-Control-Allow-Credentials': 'true',
+  };
+}
+
+// Helper function to validate GEMINI_API_KEY
+function validateApiKey(): string {
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey || apiKey.trim().length === 0) {
+    throw new Error('GEMINI_API_KEY is not configured');
+  }
+  return apiKey;
+}
+
+// Helper function to check request size
+function validateRequestSize(req: Request): void {
+  const contentLength = req.headers.get('content-length');
+  if (contentLength) {
+    const size = parseInt(contentLength, 10);
+    if (size > MAX_REQUEST_SIZE) {
+      throw new Error(`Request size exceeds ${MAX_REQUEST_SIZE} bytes`);
+    }
+  }
+}
+
+// Helper function to decode JWT without verification
+function decodeJWT(token: string): { sub?: string; exp?: number; [key: string]: any } | null {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    const payload = parts[1];
+    const padded = payload + '='.repeat((4 - payload.length % 4) % 4);
+    const decoded = atob(padded.replace(/-/g, '+').replace(/_/g, '/'));
+    return JSON.parse(decoded);
+  } catch {
+    return null;
+  }
+}
+
+
+// Gemini sometimes wraps JSON in prose or code fences; pull out the object
+function parseWeaverJson(text: string): any {
+  const cleaned = text.replace(/```json|```/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const match = cleaned.match(/\{[\s\S]*\}/);
+    return match ? JSON.parse(match[0]) : null;
+  }
+}
+
+// Keep hooks that point at one of the inspirations we sent, one hook per inspiration
+function normalizeHooks(
+  raw: any,
+  inspirations: { id: string; content: string }[],
+  count: number
+): PlotHook[] {
+  if (!Array.isArray(raw)) return [];
+
+  const byRef = new Map(inspirations.map((inspiration, index) => [String(index + 1), inspiration]));
+  const used = new Set<string>();
+  const hooks: PlotHook[] = [];
+
+  for (const item of raw) {
+    if (!item || typeof item.hook !== 'string') continue;
+    const inspiration = byRef.get(String(item.inspiration).replace(/[^0-9]/g, ''));
+    if (!inspiration || used.has(inspiration.id)) continue;
+
+    const hook = sanitizeInput(item.hook).substring(0, MAX_HOOK_LENGTH);
+    if (!hook) continue;
+    used.add(inspiration.id);
+
+    hooks.push({
+      inspirationId: inspiration.id,
+      inspiration: inspiration.content,
+      hook,
+      howToUse: typeof item.howToUse === 'string' ? sanitizeInput(item.howToUse).substring(0, MAX_HOOK_LENGTH) : '',
+    });
+    if (hooks.length === count) break;
+  }
+  return hooks;
+}
+
+serve(async (req) => {
+  // Validate GEMINI_API_KEY at function start
+  let geminiApiKey: string;
+  try {
+    geminiApiKey = validateApiKey();
+  } catch (error) {
+    console.error('API key validation error:', error);
+    return new Response(JSON.stringify({ error: 'Service configuration error' }), {
+      status: 500,
+      headers: { ...getCorsHeaders(req.headers.get('Origin')), 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Get CORS headers with origin validation
+  const corsHeaders = getCorsHeaders(req.headers.get('Origin'));
+
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Validate POST method
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  }
+
+  // Service role client: the function reads the story on the writer's behalf,
+  // so membership is checked explicitly below. Charging tokens is server only.
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  let charge: TokenCharge | null = null;
+
+  try {
+    // Validate request size before parsing JSON
+    try {
+      validateRequestSize(req);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 413,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse request body first to get userId (for PKCE flow workaround)
+    const requestBody = await req.json() as PlotWeaverRequest;
+    let userId: string;
+
+    // Try to get userId from request body first (PKCE workaround)
+    if (requestBody.userId) {
+      userId = requestBody.userId;
+    } else {
+      // Fall back to JWT auth
+      const authToken = req.headers.get('x-auth-token') || req.headers.get('Authorization');
+      if (!authToken) {
+        return new Response(JSON.stringify({ error: 'Missing authorization or userId' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const jwtPayload = decodeJWT(authToken.replace('Bearer ', ''));
+      if (!jwtPayload || !jwtPayload.sub) {
+        return new Response(JSON.stringify({ error: 'Invalid token format' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      userId = jwtPayload.sub as string;
+    }
+
+    const { storyId, choiceId, parentChapterId, draftContent } = requestBody;
+
+    // Validate required fields
+    if (!storyId || typeof storyId !== 'string') {
+      return new Response(JSON.stringify({ error: 'Story ID is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (draftContent && draftContent.length > MAX_DRAFT_LENGTH) {
+      return new Response(JSON.stringify({
+        error: `Draft exceeds maximum length of ${MAX_DRAFT_LENGTH} characters`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const count = Math.min(
+      MAX_HOOKS,
+      Math.max(MIN_HOOKS, Math.round(Number(requestBody.count) || DEFAULT_HOOKS))
+    );
+
+    const { data: story } = await supabase
+      .from('stories')
+      .select('id, title, theme, created_by')
+      .eq('id', storyId)
+      .single();
+
+    if (!story) {
+      return new Response(JSON.stringify({ success: false, error: 'Story not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: members } = await supabase
+      .from('story_members')
+      .select('user_id, profile:profiles(display_name)')
+      .eq('story_id', storyId);
+
+    if (story.created_by !== userId && !(members || []).some((m: any) => m.user_id === userId)) {
+      return new Response(JSON.stringify({ success: false, error: 'Not a member of this story' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Unused inspirations from both partners, oldest first so nothing waits forever
+    const { data: inspirationRows } = await supabase
+      .from('inspirations')
+      .select('id, user_id, content')
+      .eq('story_id', storyId)
+      .is('woven_chapter_id', null)
+      .order('created_at', { ascending: true })
+      .limit(MAX_INSPIRATIONS);
+
+    const inspirations = (inspirationRows || [])
+      .map((i: any) => ({ id: i.id, user_id: i.user_id, content: sanitizeInput(i.content).substring(0, MAX_INSPIRATION_LENGTH) }))
+      .filter(i => i.content.length > 0);
+
+    if (inspirations.length === 0) {
+      const data: PlotWeaverResponse = { hooks: [], unusedCount: 0 };
+      return new Response(JSON.stringify({ success: true, data }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Work out which chapter the writer is continuing
+    let fromChapterId = parentChapterId || null;
+    if (choiceId) {
+      const { data: choice } = await supabase
+        .from('chapter_choices')
+        .select('chapter_id')
+        .eq('id', choiceId)
+        .eq('story_id', storyId)
+        .single();
+      fromChapterId = choice?.chapter_id ?? fromChapterId;
+    }
+
+    if (!fromChapterId) {
+      const { data: latest } = await supabase
+        .from('chapters')
+        .select('id')
+        .eq('story_id', storyId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      fromChapterId = latest?.id ?? null;
+    }
+
+    // Walk up the branch so the context only contains chapters on this path
+    const path: { chapter_number: number; content: string }[] = [];
+    let cursor = fromChapterId;
+    while (cursor && path.length < MAX_CONTEXT_CHAPTERS) {
+      const { data: chapter } = await supabase
+        .from('chapters')
+        .select('chapter_number, content, parent_chapter_id')
+        .eq('id', cursor)
+        .eq('story_id', storyId)
+        .single();
+      if (!chapter) break;
+      path.unshift({ chapter_number: chapter.chapter_number, content: chapter.content });
+      cursor = chapter.parent_chapter_id;
+    }
+
+    const names: Record<string, string> = Object.fromEntries(
+      (members || []).map((m: any) => [m.user_id, sanitizeInput(m.profile?.display_name || 'A partner')])
+    );
+
+    const storySoFar = path
+      .map(c => `Chapter ${c.chapter_number}:\n${sanitizeInput(c.content).substring(0, MAX_CHAPTER_LENGTH)}`)
+      .join('\n\n');
+
+    const inspirationList = inspirations
+      .map((i, index) => `${index + 1}. (from ${names[i.user_id] || 'a partner'}) ${i.content}`)
+      .join('\n');
+
+    const draftText = draftContent?.trim()
+      ? `\n\nThe chapter they are writing now:\n${sanitizeInput(draftContent)}`
+      : '';
+
+    const prompt = `You are a romantic co-writer helping a couple write "${sanitizeInput(story.title)}" together (${story.theme} theme).
+They collect small moments from their real life as inspirations and want them woven into the story.
+
+Story so far on this branch:
+${storySoFar || 'This is the first chapter.'}${draftText}
+
+Unused inspirations:
+${inspirationList}
+
+Pick up to ${count} of these inspirations that fit the next chapter best. For each, write a concrete plot hook: a specific event, line of dialogue or detail that transforms the real moment into the story's world without breaking its tone. Then say where in the chapter it fits and how to use it.
+
+Return ONLY JSON in this shape, no explanations:
+{"hooks": [{"inspiration": <number from the list>, "hook": "...", "howToUse": "..."}]}`;
+
+    const charged = await chargeTokens(supabase, {
+      userId,
+      amount: TOKEN_COST,
+      feature: 'ai-plot-weaver',
+      description: 'AI plot hooks',
+      idempotencyKey: requestBody.idempotencyKey || crypto.randomUUID(),
+      storyId,
+    });
+    if ('stored' in charged) {
+      return new Response(JSON.stringify(charged.stored), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if ('error' in charged) {
+      return new Response(JSON.stringify({ success: false, error: charged.error }), {
+        status: charged.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    charge = charged.charge;
+
+    const geminiResponse = await fetch(GEMINI_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': geminiApiKey,
+      },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: { temperature: 0.85, maxOutputTokens: 1000 },
+      }),
+    });
+
+    if (!geminiResponse.ok) {
+      const errorText = await geminiResponse.text();
+      console.error('Gemini API error:', errorText);
+      await refundTokens(supabase, charge, 'Refund: AI plot weaving failed');
+      return new Response(JSON.stringify({ success: false, error: 'AI service unavailable' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const geminiData = await geminiResponse.json();
+    const responseText = geminiData.candidates?.[0]?.content?.parts?.[0]?.text || '';
+
+    let parsed: any = null;
+    try {
+      parsed = parseWeaverJson(responseText);
+    } catch {
+      parsed = null;
+    }
+
+    const hooks = normalizeHooks(parsed?.hooks, inspirations, count);
+    if (hooks.length === 0) {
+      console.error('Unusable ai-plot-weaver response:', responseText);
+      await refundTokens(supabase, charge, 'Refund: AI plot weaving failed');
+      return new Response(JSON.stringify({ success: false, error: 'Could not weave plot hooks, please try again' }), {
+        status: 502,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const data: PlotWeaverResponse = { hooks, unusedCount: inspirations.length };
+
+    // Return consistent response structure for both mobile and web
+    const response = { success: true, data };
+    await storeResult(supabase, charge, response);
+
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in ai-plot-weaver function:', error);
+    await refundTokens(supabase, charge, 'Refund: AI plot weaving failed');
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,6 +1,7 @@
 // supabase/functions/ai-story-summary/index.ts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts'
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
 
@@ -16,8 +17,12 @@ interface SummaryRequest {
   maxLength?: number
   userId?: string
   storyId?: string
+  idempotencyKey?: string // Same key on a retry, so the call is charged once
 }
 
+// Charged through the token ledger before the model runs, refunded if it fails. Cached summaries are free.
+const TOKEN_COST = 1
+
 // Helper function to sanitize user input to prevent prompt injection
 function sanitizeInput(input: string): string {
   return input
@@ -31,18 +36,19 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  let charge: TokenCharge | null = null
+
   try {
     const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
     if (!geminiApiKey) {
       throw new Error('GEMINI_API_KEY is not configured');
     }
 
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
-    const { storyContent, title, style = 'short', maxLength = 200, userId, storyId }: SummaryRequest = await req.json()
+    const { storyContent, title, style = 'short', maxLength = 200, userId, storyId, idempotencyKey }: SummaryRequest = await req.json()
 
     if (!storyContent) {
       return new Response(
@@ -51,6 +57,13 @@ serve(async (req) => {
       )
     }
 
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'userId is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
     // Cache check
     const sanitizedContent = sanitizeInput(storyContent);
     const contentHash = btoa(sanitizedContent).substring(0, 32)
@@ -72,6 +85,28 @@ serve(async (req) => {
       )
     }
 
+    const charged = await chargeTokens(supabaseClient, {
+      userId,
+      amount: TOKEN_COST,
+      feature: 'ai-story-summary',
+      description: 'AI story summary',
+      idempotencyKey: idempotencyKey || crypto.randomUUID(),
+      storyId,
+    })
+    if ('stored' in charged) {
+      return new Response(
+        JSON.stringify(charged.stored),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+    if ('error' in charged) {
+      return new Response(
+        JSON.stringify({ success: false, error: charged.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: charged.status }
+      )
+    }
+    charge = charged.charge
+
     // Prepare prompt
     let systemPrompt = ''
     switch (style) {
@@ -112,6 +147,7 @@ serve(async (req) => {
     if (!geminiResponse.ok) {
       const error = await geminiResponse.text()
       console.error('Gemini API error:', error)
+      await refundTokens(supabaseClient, charge, 'Refund: AI story summary failed')
       return new Response(JSON.stringify({ error: 'AI service unavailable' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -122,6 +158,7 @@ serve(async (req) => {
 
     // Check for safety blocks
     if (geminiData.promptFeedback?.blockReason) {
+      await refundTokens(supabaseClient, charge, 'Refund: story summary blocked by safety filters')
       return new Response(
         JSON.stringify({ error: 'Content violates safety guidelines' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
@@ -146,27 +183,29 @@ serve(async (req) => {
       })
 
     // Log usage
-    if (userId) {
-      await supabaseClient.rpc('log_ai_usage', {
-        p_user_id: userId,
-        p_function_name: 'ai-story-summary',
-        p_tokens_used: 0,
-        p_cost: estimatedCost,
-        p_story_id: storyId,
-      })
+    await supabaseClient.rpc('log_ai_usage', {
+      p_user_id: userId,
+      p_function_name: 'ai-story-summary',
+      p_tokens_used: 0,
+      p_cost: estimatedCost,
+      p_story_id: storyId,
+    })
+
+    const response = {
+      success: true,
+      data: { summary },
+      cached: false,
+      estimated_cost: estimatedCost
     }
+    await storeResult(supabaseClient, charge, response)
 
     return new Response(
-      JSON.stringify({
-        success: true,
-        data: { summary },
-        cached: false,
-        estimated_cost: estimatedCost
-      }),
+      JSON.stringify(response),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
   } catch (error) {
     console.error('Story summary generation error:', error)
+    await refundTokens(supabaseClient, charge, 'Refund: AI story summary failed')
     return new Response(
       JSON.stringify({ error: error.message }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
@@ -1,6 +1,7 @@
 // supabase/functions/ai-style-transfer/index.ts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts'
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
 
@@ -16,8 +17,12 @@ interface StyleTransferRequest {
   userId?: string
   storyId?: string
   chapterId?: string
+  idempotencyKey?: string // Same key on a retry, so the call is charged once
 }
 
+// Charged through the token ledger before the model runs, refunded if it fails. Cached rewrites are free.
+const TOKEN_COST = 1
+
 const stylePrompts = {
   romantic: 'Rewrite with a romantic tone. Use poetic language, tender emotions, beautiful descriptions, and heartfelt expressions. Focus on love, passion, and emotional depth.',
   playful: 'Rewrite with a playful and light-hearted tone. Use humor, wit, and creative wordplay. Make it fun and engaging while maintaining the original meaning.',
@@ -34,24 +39,26 @@ serve(async (req: Request) => {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  let charge: TokenCharge | null = null
+
   try {
     const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
     if (!geminiApiKey) {
       throw new Error('GEMINI_API_KEY is not configured');
     }
 
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
     const {
       text,
       targetStyle,
       preserveMeaning = true,
       userId,
       storyId,
-      chapterId
+      chapterId,
+      idempotencyKey
     }: StyleTransferRequest = await req.json()
 
     if (!text || !targetStyle) {
@@ -68,6 +75,29 @@ serve(async (req: Request) => {
       )
     }
 
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'userId is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    // A story can turn AI rewriting off for its chapters
+    if (storyId) {
+      const { data: story } = await supabaseClient
+        .from('stories')
+        .select('ai_enhancement_allowed')
+        .eq('id', storyId)
+        .maybeSingle()
+
+      if (story?.ai_enhancement_allowed === false) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'AI enhancement is turned off for this story' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+        )
+      }
+    }
+
     // Cache check
     const cacheKey = `style-transfer:${btoa(text.substring(0, 100) + targetStyle)}`
     const cachedResponse = await supabaseClient
@@ -87,6 +117,28 @@ serve(async (req: Request) => {
       )
     }
 
+    const charged = await chargeTokens(supabaseClient, {
+      userId,
+      amount: TOKEN_COST,
+      feature: 'ai-style-transfer',
+      description: 'AI style transfer',
+      idempotencyKey: idempotencyKey || crypto.randomUUID(),
+      storyId,
+    })
+    if ('stored' in charged) {
+      return new Response(
+        JSON.stringify(charged.stored),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+    if ('error' in charged) {
+      return new Response(
+        JSON.stringify({ success: false, error: charged.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: charged.status }
+      )
+    }
+    charge = charged.charge
+
     const stylePrompt = stylePrompts[targetStyle as keyof typeof stylePrompts]
     const fullPrompt = `Original Text: "${text}"\n\nStyle Instructions: ${stylePrompt}\n\n${preserveMeaning ? 'Important: Preserve the original meaning and core facts.' : 'Feel free to adapt the content slightly for the style.'}\n\nPlease rewrite the text in the specified style. Return only the rewritten text.`;
 
@@ -114,6 +166,7 @@ serve(async (req: Request) => {
     if (!geminiResponse.ok) {
       const error = await geminiResponse.text()
       console.error('Gemini API error:', error)
+      await refundTokens(supabaseClient, charge, 'Refund: AI style transfer failed')
       return new Response(JSON.stringify({ error: 'AI service unavailable' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -123,6 +176,7 @@ serve(async (req: Request) => {
     const geminiData = await geminiResponse.json();
 
     if (geminiData.promptFeedback?.blockReason) {
+      await refundTokens(supabaseClient, charge, 'Refund: style transfer blocked by safety filters')
       return new Response(
         JSON.stringify({ error: 'Content violates safety guidelines' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
@@ -150,31 +204,33 @@ serve(async (req: Request) => {
       })
 
     // Log usage
-    if (userId) {
-      await supabaseClient.rpc('log_ai_usage', {
-        p_user_id: userId,
-        p_function_name: 'ai-style-transfer',
-        p_tokens_used: 0,
-        p_cost: estimatedCost,
-        p_story_id: storyId,
-      })
+    await supabaseClient.rpc('log_ai_usage', {
+      p_user_id: userId,
+      p_function_name: 'ai-style-transfer',
+      p_tokens_used: 0,
+      p_cost: estimatedCost,
+      p_story_id: storyId,
+    })
+
+    const response = {
+      success: true,
+      data: {
+        original_text: text,
+        transformed_text: transformedText,
+        style: targetStyle,
+      },
+      cached: false,
+      estimated_cost: estimatedCost
     }
+    await storeResult(supabaseClient, charge, response)
 
     return new Response(
-      JSON.stringify({
-        success: true,
-        data: {
-          original_text: text,
-          transformed_text: transformedText,
-          style: targetStyle,
-        },
-        cached: false,
-        estimated_cost: estimatedCost
-      }),
+      JSON.stringify(response),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
   } catch (error) {
     console.error('Style transfer error:', error)
+    await refundTokens(supabaseClient, charge, 'Refund: AI style transfer failed')
     return new Response(
       JSON.stringify({ error: (error as Error).message }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
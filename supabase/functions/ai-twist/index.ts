@@ -1,6 +1,8 @@
 // supabase/functions/ai-twist/index.ts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { chargeTokens, refundTokens, storeResult, TokenCharge } from '../_shared/tokenLedger.ts';
+import { loadStoryBible } from '../_shared/storyBible.ts';
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
 
@@ -8,6 +10,9 @@ interface TwistRequest {
   storyContext: string;
   recentChapters: string[];
   context?: string;
+  storyId?: string;
+  mode?: 'standard' | 'advanced'; // advanced needs the advanced_twists entitlement
+  idempotencyKey?: string; // Same key on a retry, so the call is charged once
 }
 
 interface TwistResponse {
@@ -24,6 +29,9 @@ const MAX_REQUEST_SIZE = 1_048_576; // 1MB in bytes
 // Rate limit
 const DAILY_RATE_LIMIT = 10;
 
+// Charged through the token ledger before the model runs, refunded if it fails
+const TOKEN_COST = 1;
+
 // Helper function to sanitize user input to prevent prompt injection
 function sanitizeInput(input: string): string {
   // Remove potential prompt injection patterns
@@ -135,6 +143,27 @@ async function checkAndIncrementRateLimit(
   return { allowed: data?.allowed ?? false, currentCount: data?.count ?? 0 };
 }
 
+// Plans live in the database (tier_entitlements), so the function asks
+// instead of deciding who is premium
+async function checkEntitlement(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  feature: string,
+  value?: string
+): Promise<{ allowed: boolean; error?: string }> {
+  const { data, error } = await supabase.rpc('check_entitlement', {
+    p_user_id: userId,
+    p_feature: feature,
+    p_value: value ?? null,
+  });
+
+  if (error) {
+    console.error('Entitlement check error:', error);
+    return { allowed: false, error: 'Could not check your plan' };
+  }
+  return { allowed: !!data?.allowed, error: data?.error };
+}
+
 serve(async (req) => {
   // Validate GEMINI_API_KEY at function start
   let geminiApiKey: string;
@@ -161,6 +190,13 @@ serve(async (req) => {
     return new Response('Method not allowed', { status: 405, headers: corsHeaders });
   }
 
+  // Service role: charging tokens is server only
+  const ledger = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  let charge: TokenCharge | null = null;
+
   try {
     // Validate request size before parsing JSON
     try {
@@ -209,7 +245,7 @@ serve(async (req) => {
       });
     }
 
-    const { storyContext, recentChapters, context }: TwistRequest = await req.json();
+    const { storyContext, recentChapters, context, storyId, mode = 'standard', idempotencyKey }: TwistRequest = await req.json();
 
     // Validate required fields
     if (!storyContext || typeof storyContext !== 'string') {
@@ -289,14 +325,56 @@ serve(async (req) => {
     const sanitizedChapters = recentChapters.map(ch => sanitizeInput(ch));
     const sanitizedContext = context ? sanitizeInput(context) : '';
 
+    if (mode === 'advanced') {
+      const entitlement = await checkEntitlement(ledger, user.id, 'advanced_twists');
+      if (!entitlement.allowed) {
+        return new Response(JSON.stringify({ success: false, error: entitlement.error, upgrade: true }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const storyBible = storyId ? await loadStoryBible(supabase, storyId, user.id, sanitizeInput) : '';
+
+    const charged = await chargeTokens(ledger, {
+      userId: user.id,
+      amount: TOKEN_COST,
+      feature: 'ai-twist',
+      description: 'AI plot twists',
+      idempotencyKey: idempotencyKey || crypto.randomUUID(),
+      storyId,
+    });
+    if ('stored' in charged) {
+      return new Response(JSON.stringify(charged.stored), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if ('error' in charged) {
+      return new Response(JSON.stringify({ success: false, error: charged.error }), {
+        status: charged.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    charge = charged.charge;
+
+    // Advanced twists are planned across the story: each comes with a setup
+    // to plant in the next chapter and the payoff it leads to
+    const instructions = mode === 'advanced'
+      ? `Suggest 2-3 plot twists that would surprise and delight a couple writing this story together.
+Plan each twist across the whole story: what happens, a small setup to plant in the next chapter, and how it pays off later.
+Use earlier chapters for foreshadowing that is already there. Consider their real-life context if provided.
+Return as a JSON array of strings, each formatted as "Twist. Setup: ... Payoff: ..."`
+      : `Suggest 2-3 plot twists that would surprise and delight a couple writing this story together.
+Each twist should be 1-2 sentences max. Consider their real-life context if provided.
+Return as a JSON array of strings, like: ["twist 1", "twist 2", "twist 3"]`;
+
     // Call Gemini API with API key in header
     const prompt = `Given this story context: "${sanitizedStoryContext}"
-Recent chapters: ${sanitizedChapters.map((c, i) => `Chapter ${i + 1}: ${c}`).join('\n')}
+${storyBible ? `Story bible (their world, places, timeline, inside jokes and plans):\n${storyBible}\nTwists must not break the story bible's rules.\n` : ''}Recent chapters: ${sanitizedChapters.map((c, i) => `Chapter ${i + 1}: ${c}`).join('\n')}
 ${sanitizedContext ? `Real-life context: "${sanitizedContext}"` : ''}
 
-Suggest 2-3 plot twists that would surprise and delight a couple writing this story together.
-Each twist should be 1-2 sentences max. Consider their real-life context if provided.
-Return as a JSON array of strings, like: ["twist 1", "twist 2", "twist 3"]`;
+${instructions}`;
 
     const geminiResponse = await fetch(GEMINI_API_URL, {
       method: 'POST',
@@ -306,11 +384,12 @@ Return as a JSON array of strings, like: ["twist 1", "twist 2", "twist 3"]`;
       },
       body: JSON.stringify({
         contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: { temperature: 0.9, maxOutputTokens: 500 },
+        generationConfig: { temperature: 0.9, maxOutputTokens: mode === 'advanced' ? 1000 : 500 },
       }),
     });
 
     if (!geminiResponse.ok) {
+      await refundTokens(ledger, charge, 'Refund: AI plot twists failed');
       return new Response(JSON.stringify({ error: 'AI service unavailable' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -333,12 +412,16 @@ Return as a JSON array of strings, like: ["twist 1", "twist 2", "twist 3"]`;
         .slice(0, 3);
     }
 
-    return new Response(JSON.stringify({ twists }), {
+    const response = { success: true, data: { twists } };
+    await storeResult(ledger, charge, response);
+
+    return new Response(JSON.stringify(response), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
     console.error('Error in ai-twist function:', error);
+    await refundTokens(ledger, charge, 'Refund: AI plot twists failed');
     return new Response(JSON.stringify({ error: 'Internal server error' }), {
       status: 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,1013 @@
+// supabase/functions/export-worker/index.ts
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1';
+import JSZip from 'https://esm.sh/jszip@3.10.1';
+
+interface ExportWorkerRequest {
+  jobId: string;
+  userId?: string;  // Set by the database dispatch; trusted only with the worker secret
+}
+
+interface ExportJob {
+  id: string;
+  story_id: string;
+  requested_by: string;
+  format: 'pdf' | 'epub';
+  options: {
+    includeMetadata?: boolean;
+    includeInspiration?: boolean;
+    includeImages?: boolean;
+  };
+  chapter_ids: string[];
+  trigger: 'manual' | 'milestone';
+  milestone_title: string | null;
+}
+
+interface BookChapter {
+  id: string;
+  chapter_number: number;
+  content: string;
+  author_id: string;
+}
+
+interface BookImage {
+  id: string;
+  mimeType: string;
+  bytes: Uint8Array;
+  caption: string | null;
+  altText: string | null;
+}
+
+interface Book {
+  id: string;
+  title: string;
+  theme: Theme;
+  createdAt: string;
+  authors: Record<string, string>;
+  chapters: BookChapter[];
+  inspirations: string[];
+  cover: BookImage | null;
+  chapterImages: Record<string, BookImage[]>;
+  includeMetadata: boolean;
+}
+
+type Theme = 'romance' | 'fantasy' | 'our_future';
+
+// Security constants
+const MAX_REQUEST_SIZE = 1_048_576; // 1MB in bytes
+const MAX_CHAPTERS = 500;
+const MAX_IMAGES = 60;
+const MAX_IMAGE_BYTES = 5_242_880; // 5MB per image
+
+// Charged once the book is stored, never for failed jobs. Milestone books are free.
+const EXPORT_TOKEN_COST = 5;
+const DOWNLOAD_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+const THEME_INFO: Record<Theme, { label: string; color: string }> = {
+  romance: { label: 'Romance', color: '#E91E63' },
+  fantasy: { label: 'Fantasy', color: '#9C27B0' },
+  our_future: { label: 'Our Future', color: '#2196F3' },
+};
+
+// Image types every ePub 3 reader must support. pdf-lib can only embed JPEG and PNG.
+const EPUB_IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// A5 in points, matching the on-device PDF export
+const PAGE_WIDTH = 420;
+const PAGE_HEIGHT = 595;
+const MARGIN_X = 40;
+const MARGIN_TOP = 48;
+const MARGIN_BOTTOM = 56;
+const BODY_SIZE = 11;
+const LINE_HEIGHT = BODY_SIZE * 1.5;
+
+// Helper function to get CORS headers with proper origin validation
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigins = Deno.env.get('ALLOWED_ORIGINS')?.split(',') || [];
+  const requestOrigin = origin || '';
+
+  // Default allowed origins for local development
+  const defaultLocalOrigins = [
+    'http://localhost:3000',
+    'http://localhost:3001',
+    'http://localhost:8081',
+    'http://127.0.0.1:3000',
+    'http://127.0.0.1:3001',
+    'http://192.168.1.1:8081',
+    'exp://192.168.1.1:8081',
+    'exp://127.0.0.1:8081',
+  ];
+
+  const allAllowedOrigins = [...defaultLocalOrigins, ...allowedOrigins];
+
+  // Validate origin against allowed list
+  const validOrigin = allAllowedOrigins.includes(requestOrigin)
+    ? requestOrigin
+    : allowedOrigins[0] || requestOrigin || '*';
+
+  return {
+    'Access-Control-Allow-Origin': validOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+    'Access-Control-Allow-Credentials': 'true',
+  };
+}
+
+// Helper function to check request size
+function validateRequestSize(req: Request): void {
+  const contentLength = req.headers.get('content-length');
+  if (contentLength) {
+    const size = parseInt(contentLength, 10);
+    if (size > MAX_REQUEST_SIZE) {
+      throw new Error(`Request size exceeds ${MAX_REQUEST_SIZE} bytes`);
+    }
+  }
+}
+
+// Compare the dispatch secret without stopping at the first differing character
+function secretMatches(given: string | null, expected: string | undefined): boolean {
+  if (!given || !expected || given.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= given.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Chapter content can be plain text or rich text HTML. Reduce it to plain
+ * paragraphs so the same text renders in the PDF and as valid ePub XHTML.
+ */
+function toParagraphs(content: string): string[] {
+  return content
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split(/\n\s*\n|\n/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+}
+
+// "Alex & Sam", in the order they first wrote a chapter
+function getAuthorNames(book: Book): string[] {
+  return [...new Set(book.chapters.map(c => c.author_id))]
+    .map(id => book.authors[id])
+    .filter((name): name is string => !!name);
+}
+
+function hexToRgb(hex: string) {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+}
+
+// The standard PDF fonts only cover WinAnsi; drop anything they cannot draw (emoji etc.)
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/\t/g, ' ')
+    .replace(/[^\x20-\x7E\xA0-\xFF–—‘’“”•…]/g, '');
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of toWinAnsi(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    // Break words that are wider than the page on their own
+    let rest = word;
+    while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+      let cut = rest.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    line = rest;
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Chapters to export. Jobs list their chapters in reading order; without a
+ * list the book follows the most recent branch from its tip back to the start.
+ */
+async function loadChapters(supabase: SupabaseClient, job: ExportJob): Promise<BookChapter[]> {
+  if (job.chapter_ids.length > 0) {
+    const { data, error } = await supabase
+      .from('chapters')
+      .select('id, chapter_number, content, author_id')
+      .eq('story_id', job.story_id)
+      .in('id', job.chapter_ids.slice(0, MAX_CHAPTERS));
+    if (error) throw error;
+
+    const byId = new Map((data || []).map((c: BookChapter) => [c.id, c]));
+    return job.chapter_ids
+      .map(id => byId.get(id))
+      .filter((c): c is BookChapter => !!c);
+  }
+
+  const { data: chapters, error } = await supabase
+    .from('chapters')
+    .select('id, chapter_number, content, author_id, parent_chapter_id, created_at')
+    .eq('story_id', job.story_id)
+    .order('created_at', { ascending: true })
+    .limit(MAX_CHAPTERS);
+  if (error) throw error;
+  if (!chapters || chapters.length === 0) return [];
+
+  const byId = new Map(chapters.map((c: any) => [c.id, c]));
+  const path: BookChapter[] = [];
+  let cursor: any = chapters[chapters.length - 1];
+  while (cursor && path.length < MAX_CHAPTERS) {
+    path.unshift({
+      id: cursor.id,
+      chapter_number: cursor.chapter_number,
+      content: cursor.content,
+      author_id: cursor.author_id,
+    });
+    cursor = cursor.parent_chapter_id ? byId.get(cursor.parent_chapter_id) : null;
+  }
+  return path;
+}
+
+async function toBookImage(
+  blob: Blob,
+  id: string,
+  caption: string | null,
+  altText: string | null
+): Promise<BookImage | null> {
+  const mimeType = (blob.type || '').split(';')[0].trim().toLowerCase();
+  if (!EPUB_IMAGE_EXTENSIONS[mimeType] || blob.size > MAX_IMAGE_BYTES) {
+    console.warn(`Skipping image ${id}: ${mimeType || 'unknown type'}, ${blob.size} bytes`);
+    return null;
+  }
+  return { id, mimeType, bytes: new Uint8Array(await blob.arrayBuffer()), caption, altText };
+}
+
+// Images that fail to download are left out rather than failing the whole export
+async function loadImages(
+  supabase: SupabaseClient,
+  book: Book,
+  coverUrl: string | null
+): Promise<void> {
+  if (coverUrl) {
+    try {
+      const response = await fetch(coverUrl);
+      if (response.ok) {
+        book.cover = await toBookImage(await response.blob(), `cover-${book.id}`, null, book.title);
+      } else {
+        console.warn(`Skipping cover: download returned ${response.status}`);
+      }
+    } catch (error) {
+      console.warn('Skipping cover:', error);
+    }
+  }
+
+  if (book.chapters.length === 0) return;
+
+  const { data: media, error } = await supabase
+    .from('chapter_media')
+    .select('id, chapter_id, storage_path, caption, alt_text')
+    .in('chapter_id', book.chapters.map(c => c.id))
+    .eq('media_type', 'image')
+    .eq('status', 'active')
+    .order('position', { ascending: true })
+    .limit(MAX_IMAGES);
+
+  if (error) {
+    console.error('Error loading chapter images for export:', error);
+    return;
+  }
+
+  for (const row of media || []) {
+    const { data: blob, error: downloadError } = await supabase.storage.from('media').download(row.storage_path);
+    if (downloadError || !blob) {
+      console.warn(`Skipping image ${row.id}:`, downloadError);
+      continue;
+    }
+    const image = await toBookImage(blob, row.id, row.caption, row.alt_text);
+    if (image) {
+      book.chapterImages[row.chapter_id] = [...(book.chapterImages[row.chapter_id] || []), image];
+    }
+  }
+}
+
+/**
+ * Lay the book out on A5 pages: cover, title page, contents with page
+ * numbers, then each chapter starting on a new page.
+ */
+async function renderPdf(book: Book, onProgress: (fraction: number) => Promise<void>): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(toWinAnsi(book.title));
+  pdf.setAuthor(toWinAnsi(getAuthorNames(book).join(' & ')));
+  pdf.setProducer('Parallel Story Builder');
+
+  const body = await pdf.embedFont(StandardFonts.TimesRoman);
+  const italic = await pdf.embedFont(StandardFonts.TimesRomanItalic);
+  const bold = await pdf.embedFont(StandardFonts.TimesRomanBold);
+  const accent = hexToRgb(THEME_INFO[book.theme].color);
+  const muted = rgb(0.4, 0.4, 0.4);
+  const ink = rgb(0.2, 0.2, 0.2);
+  const textWidth = PAGE_WIDTH - MARGIN_X * 2;
+
+  const embed = async (image: BookImage): Promise<PDFImage | null> => {
+    try {
+      if (image.mimeType === 'image/jpeg') return await pdf.embedJpg(image.bytes);
+      if (image.mimeType === 'image/png') return await pdf.embedPng(image.bytes);
+    } catch (error) {
+      console.warn(`Skipping image ${image.id}:`, error);
+    }
+    return null;
+  };
+
+  const drawCentered = (page: PDFPage, text: string, y: number, font: PDFFont, size: number, color = ink) => {
+    for (const line of wrapText(text, font, size, textWidth)) {
+      page.drawText(line, { x: (PAGE_WIDTH - font.widthOfTextAtSize(line, size)) / 2, y, size, font, color });
+      y -= size * 1.4;
+    }
+    return y;
+  };
+
+  // Cover
+  if (book.cover) {
+    const cover = await embed(book.cover);
+    if (cover) {
+      const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      const { width, height } = cover.scaleToFit(PAGE_WIDTH, PAGE_HEIGHT);
+      page.drawImage(cover, { x: (PAGE_WIDTH - width) / 2, y: (PAGE_HEIGHT - height) / 2, width, height });
+    }
+  }
+
+  // Title page
+  const titlePage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let titleY = drawCentered(titlePage, book.title, PAGE_HEIGHT - 200, bold, 26, accent);
+  const authorLine = getAuthorNames(book).join(' & ');
+  if (authorLine) {
+    titleY = drawCentered(titlePage, `by ${authorLine}`, titleY - 20, italic, 14);
+  }
+  if (book.includeMetadata) {
+    const theme = THEME_INFO[book.theme].label;
+    const begun = new Date(book.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    titleY = drawCentered(titlePage, `${theme} • Begun ${begun}`, titleY - 40, body, 10, muted);
+    drawCentered(titlePage, `${book.chapters.length} chapter${book.chapters.length !== 1 ? 's' : ''}`, titleY, body, 10, muted);
+  }
+
+  // Reserve the contents pages now and fill them in once the chapter pages are known
+  const tocEntries = book.chapters.length + (book.inspirations.length > 0 ? 1 : 0);
+  const tocLinesPerPage = Math.floor((PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM - 40) / LINE_HEIGHT);
+  const tocPages = Array.from(
+    { length: Math.max(1, Math.ceil(tocEntries / tocLinesPerPage)) },
+    () => pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  );
+  const tocItems: { label: string; author: string | null; page: number }[] = [];
+
+  let page = titlePage;
+  let y = 0;
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN_TOP;
+  };
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN_BOTTOM) newPage();
+  };
+  const drawParagraph = (text: string, font: PDFFont, size: number, indent = 0, color = ink) => {
+    const lines = wrapText(text, font, size, textWidth - indent);
+    lines.forEach((line, index) => {
+      ensureSpace(size * 1.5);
+      page.drawText(line, { x: MARGIN_X + (index === 0 ? indent : 0), y: y - size, size, font, color });
+      y -= size * 1.5;
+    });
+  };
+
+  for (let index = 0; index < book.chapters.length; index++) {
+    const chapter = book.chapters[index];
+    const author = book.authors[chapter.author_id] || null;
+
+    newPage();
+    tocItems.push({ label: `Chapter ${chapter.chapter_number}`, author, page: pdf.getPageCount() });
+    drawParagraph(`Chapter ${chapter.chapter_number}`, bold, 18, 0, accent);
+    if (author) drawParagraph(`by ${author}`, italic, BODY_SIZE, 0, muted);
+    y -= LINE_HEIGHT;
+
+    for (const paragraph of toParagraphs(chapter.content)) {
+      drawParagraph(paragraph, body, BODY_SIZE, 16);
+      y -= 4;
+    }
+
+    for (const image of book.chapterImages[chapter.id] || []) {
+      const embedded = await embed(image);
+      if (!embedded) continue;
+      const { width, height } = embedded.scaleToFit(textWidth, 260);
+      ensureSpace(height + 24);
+      y -= 12;
+      page.drawImage(embedded, { x: MARGIN_X + (textWidth - width) / 2, y: y - height, width, height });
+      y -= height + 6;
+      if (image.caption) {
+        for (const line of wrapText(image.caption, italic, 9, textWidth)) {
+          ensureSpace(14);
+          page.drawText(line, { x: (PAGE_WIDTH - italic.widthOfTextAtSize(line, 9)) / 2, y: y - 9, size: 9, font: italic, color: muted });
+          y -= 13;
+        }
+      }
+    }
+
+    await onProgress((index + 1) / book.chapters.length);
+  }
+
+  if (book.inspirations.length > 0) {
+    newPage();
+    tocItems.push({ label: 'Inspirations', author: null, page: pdf.getPageCount() });
+    drawParagraph('Inspirations', bold, 18, 0, accent);
+    y -= LINE_HEIGHT;
+    for (const inspiration of book.inspirations) {
+      drawParagraph(`• ${inspiration}`, body, BODY_SIZE);
+      y -= 4;
+    }
+  }
+
+  // Fill in the contents
+  tocPages.forEach((tocPage, pageIndex) => {
+    let tocY = PAGE_HEIGHT - MARGIN_TOP;
+    if (pageIndex === 0) {
+      tocPage.drawText('Contents', { x: MARGIN_X, y: tocY - 18, size: 18, font: bold, color: accent });
+      tocY -= 40;
+    }
+    for (const item of tocItems.slice(pageIndex * tocLinesPerPage, (pageIndex + 1) * tocLinesPerPage)) {
+      const pageLabel = String(item.page);
+      tocPage.drawText(item.label, { x: MARGIN_X, y: tocY - BODY_SIZE, size: BODY_SIZE, font: body, color: ink });
+      if (item.author) {
+        const authorText = toWinAnsi(item.author);
+        tocPage.drawText(authorText, {
+          x: MARGIN_X + 110,
+          y: tocY - BODY_SIZE,
+          size: BODY_SIZE,
+          font: italic,
+          color: muted,
+        });
+      }
+      tocPage.drawText(pageLabel, {
+        x: PAGE_WIDTH - MARGIN_X - body.widthOfTextAtSize(pageLabel, BODY_SIZE),
+        y: tocY - BODY_SIZE,
+        size: BODY_SIZE,
+        font: body,
+        color: ink,
+      });
+      tocY -= LINE_HEIGHT;
+    }
+  });
+
+  // Page numbers on everything after the cover and title page
+  const firstNumbered = book.cover ? 2 : 1;
+  pdf.getPages().forEach((p, index) => {
+    if (index <= firstNumbered - 1) return;
+    const label = String(index + 1);
+    p.drawText(label, {
+      x: (PAGE_WIDTH - body.widthOfTextAtSize(label, 9)) / 2,
+      y: MARGIN_BOTTOM / 2,
+      size: 9,
+      font: body,
+      color: muted,
+    });
+  });
+
+  return await pdf.save();
+}
+
+function xhtmlPage(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css" />
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * Build an ePub 3 book, laid out the same way as the on-device export
+ */
+async function renderEpub(book: Book, onProgress: (fraction: number) => Promise<void>): Promise<Uint8Array> {
+  const theme = THEME_INFO[book.theme];
+  const authorNames = getAuthorNames(book);
+  const authorLine = authorNames.join(' & ');
+
+  const zip = new JSZip();
+
+  // The mimetype entry must come first and must not be compressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>`);
+
+  zip.file('OEBPS/styles.css', `body { font-family: Georgia, serif; line-height: 1.6; }
+h1, h2 { color: ${theme.color}; }
+.title-page { text-align: center; margin-top: 20%; }
+.byline, .chapter-author { font-style: italic; color: #666; }
+.chapter p { text-indent: 1.5em; margin: 0 0 0.5em; }
+.cover { text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; }
+figure { margin: 1em 0; text-align: center; }
+figure img { max-width: 100%; }
+figcaption { font-size: 0.9em; color: #666; }`);
+
+  // Manifest items and spine entries, in reading order
+  const manifest: string[] = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />',
+    '<item id="css" href="styles.css" media-type="text/css" />',
+  ];
+  const spine: string[] = [];
+
+  const addImage = (image: BookImage, properties?: string): string => {
+    const href = `images/${image.id}.${EPUB_IMAGE_EXTENSIONS[image.mimeType]}`;
+    zip.file(`OEBPS/${href}`, image.bytes);
+    manifest.push(
+      `<item id="img-${image.id}" href="${href}" media-type="${image.mimeType}"${properties ? ` properties="${properties}"` : ''} />`
+    );
+    return href;
+  };
+
+  if (book.cover) {
+    const href = addImage(book.cover, 'cover-image');
+    zip.file('OEBPS/cover.xhtml', xhtmlPage(book.title, `<div class="cover"><img src="${href}" alt="${escapeXml(book.title)} cover" /></div>`));
+    manifest.push('<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml" />');
+    spine.push('<itemref idref="cover" />');
+  }
+
+  zip.file('OEBPS/title.xhtml', xhtmlPage(book.title, `<section class="title-page" epub:type="titlepage">
+  <h1>${escapeXml(book.title)}</h1>
+  ${authorLine ? `<p class="byline">by ${escapeXml(authorLine)}</p>` : ''}
+  ${book.includeMetadata ? `<p>${theme.label} • Begun ${new Date(book.createdAt).toLocaleDateString('en-US')}</p>` : ''}
+</section>`));
+  manifest.push('<item id="title" href="title.xhtml" media-type="application/xhtml+xml" />');
+  spine.push('<itemref idref="title" />');
+  spine.push('<itemref idref="nav" />');
+
+  const tocEntries: string[] = [];
+  for (let index = 0; index < book.chapters.length; index++) {
+    const chapter = book.chapters[index];
+    const file = `chapter-${index + 1}.xhtml`;
+    const heading = `Chapter ${chapter.chapter_number}`;
+    const author = book.authors[chapter.author_id] || null;
+    const figures = (book.chapterImages[chapter.id] || []).map(image => {
+      const href = addImage(image);
+      return `<figure>
+  <img src="${href}" alt="${escapeXml(image.altText || image.caption || '')}" />
+  ${image.caption ? `<figcaption>${escapeXml(image.caption)}</figcaption>` : ''}
+</figure>`;
+    });
+
+    zip.file(`OEBPS/${file}`, xhtmlPage(heading, `<section class="chapter" epub:type="chapter">
+  <h2>${heading}</h2>
+  ${author ? `<p class="chapter-author">by ${escapeXml(author)}</p>` : ''}
+  ${toParagraphs(chapter.content).map(p => `<p>${escapeXml(p)}</p>`).join('\n  ')}
+  ${figures.join('\n  ')}
+</section>`));
+    manifest.push(`<item id="chapter-${index + 1}" href="${file}" media-type="application/xhtml+xml" />`);
+    spine.push(`<itemref idref="chapter-${index + 1}" />`);
+    tocEntries.push(`<li><a href="${file}">${heading}${author ? ` — ${escapeXml(author)}` : ''}</a></li>`);
+
+    await onProgress((index + 1) / book.chapters.length);
+  }
+
+  if (book.inspirations.length > 0) {
+    zip.file('OEBPS/inspirations.xhtml', xhtmlPage('Inspirations', `<section epub:type="appendix">
+  <h2>Inspirations</h2>
+  ${book.inspirations.map(i => `<p>${escapeXml(i)}</p>`).join('\n  ')}
+</section>`));
+    manifest.push('<item id="inspirations" href="inspirations.xhtml" media-type="application/xhtml+xml" />');
+    spine.push('<itemref idref="inspirations" />');
+    tocEntries.push('<li><a href="inspirations.xhtml">Inspirations</a></li>');
+  }
+
+  zip.file('OEBPS/nav.xhtml', xhtmlPage('Contents', `<nav epub:type="toc" id="toc">
+  <h2>Contents</h2>
+  <ol>
+    ${tocEntries.join('\n    ')}
+  </ol>
+</nav>`));
+
+  // dcterms:modified must be UTC without milliseconds
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${book.id}</dc:identifier>
+    <dc:title>${escapeXml(book.title)}</dc:title>
+    <dc:language>en</dc:language>
+    ${authorNames.map(name => `<dc:creator>${escapeXml(name)}</dc:creator>`).join('\n    ')}
+    <dc:publisher>Parallel Story Builder</dc:publisher>
+    <meta property="dcterms:modified">${modified}</meta>
+    ${book.cover ? `<meta name="cover" content="img-${book.cover.id}" />` : ''}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>`);
+
+  return await zip.generateAsync({
+    type: 'uint8array',
+    mimeType: 'application/epub+zip',
+    compression: 'DEFLATE',
+  });
+}
+
+/**
+ * Record a finished milestone book on the partners' relationship timeline.
+ * Stories without a relationship (solo stories) only get the notification.
+ */
+async function recordBookMilestone(
+  supabase: SupabaseClient,
+  job: ExportJob,
+  storyTitle: string,
+  coverUrl: string | null,
+  memberIds: string[]
+): Promise<void> {
+  const partnerId = memberIds.find(id => id !== job.requested_by);
+  if (!partnerId) return;
+
+  const { data: relationship } = await supabase
+    .from('relationships')
+    .select('id')
+    .eq('user_1', job.requested_by < partnerId ? job.requested_by : partnerId)
+    .eq('user_2', job.requested_by < partnerId ? partnerId : job.requested_by)
+    .maybeSingle();
+
+  if (!relationship) return;
+
+  const { error } = await supabase.from('relationship_milestones').insert({
+    relationship_id: relationship.id,
+    title: job.milestone_title || `"${storyTitle}" became a book`,
+    description: `Your book "${storyTitle}" is ready to download`,
+    category: 'story',
+    photos: coverUrl ? [coverUrl] : [],
+    created_by: job.requested_by,
+  });
+  if (error) console.error('Error recording book milestone:', error);
+}
+
+// Push a 'milestone' notification to every device of every member
+async function notifyBookReady(
+  supabase: SupabaseClient,
+  job: ExportJob,
+  storyTitle: string,
+  memberIds: string[]
+): Promise<void> {
+  const messages: Record<string, unknown>[] = [];
+
+  for (const memberId of memberIds) {
+    const { data: tokens } = await supabase.rpc('get_active_push_tokens', { p_user_id: memberId });
+    for (const { token } of (tokens || []) as { token: string }[]) {
+      messages.push({
+        to: token,
+        title: '🎯 Relationship Milestone!',
+        body: `${job.milestone_title || storyTitle} - your book is ready`,
+        sound: 'default',
+        priority: 'high',
+        channelId: 'milestones',
+        categoryId: 'milestone',
+        data: { type: 'milestone', screen: 'milestones', storyId: job.story_id, exportJobId: job.id },
+      });
+    }
+  }
+
+  if (messages.length === 0) return;
+
+  try {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify(messages),
+    });
+    if (!response.ok) {
+      console.error('Expo push error:', await response.text());
+    }
+  } catch (error) {
+    console.error('Error sending book notifications:', error);
+  }
+}
+
+serve(async (req) => {
+  // Get CORS headers with origin validation
+  const corsHeaders = getCorsHeaders(req.headers.get('Origin'));
+
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Validate POST method
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  }
+
+  // Service role client: the worker moves jobs along and writes to the private
+  // exports bucket, so ownership is checked explicitly below
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  let claimedJobId: string | null = null;
+
+  try {
+    // Validate request size before parsing JSON
+    try {
+      validateRequestSize(req);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 413,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const requestBody = await req.json() as ExportWorkerRequest;
+    let userId: string;
+
+    // Milestone jobs are started by the database, which signs the call with
+    // the shared worker secret and names the job's owner. Everyone else is
+    // the user their session token belongs to.
+    const fromDatabase = secretMatches(
+      req.headers.get('x-export-worker-secret'),
+      Deno.env.get('EXPORT_WORKER_SECRET')
+    );
+
+    if (fromDatabase && requestBody.userId) {
+      userId = requestBody.userId;
+    } else {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser(
+        authHeader.replace('Bearer ', '')
+      );
+      if (authError || !user) {
+        return new Response(JSON.stringify({ error: 'Invalid authorization' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      userId = user.id;
+    }
+
+    const { jobId } = requestBody;
+    if (!jobId || typeof jobId !== 'string') {
+      return new Response(JSON.stringify({ success: false, error: 'Job ID is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Claim the job. Only a pending job can be claimed, so a job is never
+    // rendered (or charged) twice when the worker is invoked again.
+    const { data: job } = await supabase
+      .from('export_jobs')
+      .update({ status: 'processing', progress: 5, started_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('requested_by', userId)
+      .eq('status', 'pending')
+      .select('id, story_id, requested_by, format, options, chapter_ids, trigger, milestone_title')
+      .maybeSingle() as { data: ExportJob | null };
+
+    if (!job) {
+      return new Response(JSON.stringify({ success: false, error: 'Export job not found or already started' }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    claimedJobId = job.id;
+
+    const setProgress = async (progress: number) => {
+      await supabase.from('export_jobs').update({ progress: Math.round(progress) }).eq('id', job.id);
+    };
+
+    const tokenCost = job.trigger === 'milestone' ? 0 : EXPORT_TOKEN_COST;
+
+    // Check the balance up front so nobody waits for a book they cannot pay for.
+    // The charge itself only happens once the file is stored.
+    if (tokenCost > 0) {
+      const { data: tokens } = await supabase
+        .from('user_tokens')
+        .select('balance')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (!tokens || tokens.balance < tokenCost) {
+        throw new Error(`Exporting a book costs ${tokenCost} tokens`);
+      }
+    }
+
+    const { data: story } = await supabase
+      .from('stories')
+      .select('id, title, theme, created_at, created_by, cover_image_url')
+      .eq('id', job.story_id)
+      .single();
+
+    if (!story) {
+      throw new Error('Story not found');
+    }
+
+    const { data: members } = await supabase
+      .from('story_members')
+      .select('user_id, profile:profiles(display_name)')
+      .eq('story_id', story.id);
+
+    // Membership may have changed since the job was queued
+    const memberIds = [...new Set([story.created_by, ...(members || []).map((m: any) => m.user_id as string)])];
+    if (!memberIds.includes(userId)) {
+      throw new Error('Not a member of this story');
+    }
+
+    const book: Book = {
+      id: story.id,
+      title: story.title,
+      theme: (THEME_INFO[story.theme as Theme] ? story.theme : 'romance') as Theme,
+      createdAt: story.created_at,
+      authors: Object.fromEntries(
+        (members || [])
+          .filter((m: any) => m.profile?.display_name)
+          .map((m: any) => [m.user_id, m.profile.display_name])
+      ),
+      chapters: await loadChapters(supabase, job),
+      inspirations: [],
+      cover: null,
+      chapterImages: {},
+      includeMetadata: job.options?.includeMetadata !== false,
+    };
+
+    if (book.chapters.length === 0) {
+      throw new Error('This story has no chapters to export yet');
+    }
+
+    if (job.options?.includeInspiration) {
+      const { data: inspirations } = await supabase
+        .from('inspirations')
+        .select('content')
+        .eq('story_id', story.id)
+        .order('created_at', { ascending: true });
+      book.inspirations = (inspirations || []).map((i: { content: string }) => i.content);
+    }
+
+    await setProgress(15);
+
+    if (job.options?.includeImages !== false) {
+      await loadImages(supabase, book, story.cover_image_url);
+    }
+
+    await setProgress(30);
+
+    // Rendering takes progress from 30% to 80%, reported at most every 10%
+    let reported = 30;
+    const onRenderProgress = async (fraction: number) => {
+      const progress = 30 + fraction * 50;
+      if (progress - reported >= 10) {
+        reported = progress;
+        await setProgress(progress);
+      }
+    };
+
+    const file = job.format === 'pdf'
+      ? await renderPdf(book, onRenderProgress)
+      : await renderEpub(book, onRenderProgress);
+
+    await setProgress(85);
+
+    const storagePath = `${story.id}/${job.id}.${job.format}`;
+    const { error: uploadError } = await supabase.storage
+      .from('exports')
+      .upload(storagePath, file, {
+        contentType: job.format === 'pdf' ? 'application/pdf' : 'application/epub+zip',
+        upsert: true,
+      });
+    if (uploadError) throw uploadError;
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from('exports')
+      .createSignedUrl(storagePath, DOWNLOAD_URL_TTL_SECONDS);
+    if (signError || !signed) {
+      await supabase.storage.from('exports').remove([storagePath]);
+      throw signError || new Error('Could not create download link');
+    }
+
+    await setProgress(95);
+
+    // Charge last: a job that fails anywhere above costs nothing. A job that is
+    // picked up twice is still charged once.
+    if (tokenCost > 0) {
+      const { data: spend, error: spendError } = await supabase.rpc('spend_tokens', {
+        p_user_id: userId,
+        p_amount: tokenCost,
+        p_description: `Exported "${story.title}" as ${job.format === 'pdf' ? 'PDF' : 'ePub'}`,
+        p_feature_type: 'export',
+        p_idempotency_key: `export:${job.id}`,
+        p_story_id: story.id,
+        p_metadata: { export_job_id: job.id, format: job.format },
+      });
+
+      if (spendError || !spend?.success) {
+        await supabase.storage.from('exports').remove([storagePath]);
+        throw new Error(spend?.error || 'Could not charge tokens for this export');
+      }
+    }
+
+    const expiresAt = new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000).toISOString();
+    await supabase
+      .from('export_jobs')
+      .update({
+        status: 'completed',
+        progress: 100,
+        storage_path: storagePath,
+        download_url: signed.signedUrl,
+        download_expires_at: expiresAt,
+        tokens_charged: tokenCost,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', job.id);
+
+    if (job.trigger === 'milestone') {
+      await recordBookMilestone(supabase, job, story.title, story.cover_image_url, memberIds);
+      await notifyBookReady(supabase, job, story.title, memberIds);
+    }
+
+    // Return consistent response structure for both mobile and web
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        jobId: job.id,
+        status: 'completed',
+        downloadUrl: signed.signedUrl,
+        expiresAt,
+        tokensCharged: tokenCost,
+      },
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in export-worker function:', error);
+    const message = error instanceof Error ? error.message : 'Export failed';
+
+    if (claimedJobId) {
+      await supabase
+        .from('export_jobs')
+        .update({ status: 'failed', error: message, completed_at: new Date().toISOString() })
+        .eq('id', claimedJobId);
+    }
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: claimedJobId ? message : 'Internal server error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,644 @@
+// supabase/functions/narrate-chapter/index.ts
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { getTtsProvider, TtsProvider } from './providers.ts';
+import { chargeTokens } from '../_shared/tokenLedger.ts';
+
+interface NarrateRequest {
+  action?: 'narrate' | 'voices';
+  chapterId?: string; // Required for 'narrate'
+  userId?: string;  // For bypassing JWT auth with PKCE flow
+}
+
+type SpeakerType = 'narrator' | 'partner' | 'character';
+
+interface StoryVoice {
+  speaker_type: SpeakerType;
+  speaker_id: string | null;
+  provider: string;
+  voice_id: string;
+  speaking_rate: number;
+}
+
+interface Speaker {
+  type: SpeakerType;
+  id: string | null;
+}
+
+interface Segment {
+  text: string;
+  speaker: Speaker;
+  voiceId: string;
+  speakingRate: number;
+  key: string; // Cache key of the audio for this text and voice
+}
+
+interface StoredSegment {
+  media_id: string;
+  storage_path: string;
+  speaker_type: SpeakerType;
+  speaker_id: string | null;
+  voice_id: string;
+  duration_ms: number;
+}
+
+interface NarrationSegment {
+  mediaId: string;
+  url: string;
+  speakerType: SpeakerType;
+  speakerId: string | null;
+  voiceId: string;
+  durationMs: number;
+}
+
+interface NarrateResponse {
+  chapterId: string;
+  chapterNumber: number;
+  provider: string;
+  durationMs: number;
+  segments: NarrationSegment[];
+  cached: boolean;
+  tokensCharged: number;
+}
+
+// Security constants
+const MAX_REQUEST_SIZE = 1_048_576; // 1MB in bytes
+const MAX_CHAPTER_LENGTH = 20_000;
+const MAX_SEGMENTS = 80;
+
+// Narrating a chapter for the first time costs a token; cached audio is free
+const NARRATION_TOKEN_COST = 1;
+
+// How far from a quote to look for the character who said it
+const ATTRIBUTION_WINDOW = 60;
+
+// Helper function to get CORS headers with proper origin validation
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigins = Deno.env.get('ALLOWED_ORIGINS')?.split(',') || [];
+  const requestOrigin = origin || '';
+
+  // Default allowed origins for local development
+  const defaultLocalOrigins = [
+    'http://localhost:3000',
+    'http://localhost:3001',
+    'http://localhost:8081',
+    'http://127.0.0.1:3000',
+    'http://127.0.0.1:3001',
+    'http://192.168.1.1:8081',
+    'exp://192.168.1.1:8081',
+    'exp://127.0.0.1:8081',
+  ];
+
+  const allAllowedOrigins = [...defaultLocalOrigins, ...allowedOrigins];
+
+  // Validate origin against allowed list
+  const validOrigin = allAllowedOrigins.includes(requestOrigin)
+    ? requestOrigin
+    : allowedOrigins[0] || requestOrigin || '*';
+
+  return {
+    'Access-Control-Allow-Origin': validOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+    'Access-Control-Allow-Credentials': 'true',
+  };
+}
+
+// Helper function to check request size
+function validateRequestSize(req: Request): void {
+  const contentLength = req.headers.get('content-length');
+  if (contentLength) {
+    const size = parseInt(contentLength, 10);
+    if (size > MAX_REQUEST_SIZE) {
+      throw new Error(`Request size exceeds ${MAX_REQUEST_SIZE} bytes`);
+    }
+  }
+}
+
+// Helper function to decode JWT without verification
+function decodeJWT(token: string): { sub?: string; exp?: number; [key: string]: any } | null {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    const payload = parts[1];
+    const padded = payload + '='.repeat((4 - payload.length % 4) % 4);
+    const decoded = atob(padded.replace(/-/g, '+').replace(/_/g, '/'));
+    return JSON.parse(decoded);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Chapter content can be plain text or rich text HTML. Reduce it to plain
+ * paragraphs before reading it aloud.
+ */
+function toParagraphs(content: string): string[] {
+  return content
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split(/\n\s*\n|\n/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The character named closest to a quote, looking after it first
+// ("...," said Mia) and then before it (Mia whispered, "...")
+function attributeQuote(
+  before: string,
+  after: string,
+  characters: { id: string; pattern: RegExp }[]
+): string | null {
+  const nearest = (text: string, fromEnd: boolean) => {
+    let best: { id: string; distance: number } | null = null;
+    for (const character of characters) {
+      for (const match of text.matchAll(character.pattern)) {
+        const index = match.index ?? 0;
+        const distance = fromEnd ? text.length - index : index;
+        if (!best || distance < best.distance) best = { id: character.id, distance };
+      }
+    }
+    return best?.id ?? null;
+  };
+
+  return nearest(after.substring(0, ATTRIBUTION_WINDOW), false)
+    ?? nearest(before.substring(Math.max(0, before.length - ATTRIBUTION_WINDOW)), true);
+}
+
+// Split a paragraph into narration and dialogue. Dialogue goes to the
+// character it is attributed to; everything else is read by the chapter's
+// author voice.
+function splitParagraph(
+  paragraph: string,
+  author: Speaker,
+  characters: { id: string; pattern: RegExp }[]
+): { text: string; speaker: Speaker }[] {
+  const parts: { text: string; speaker: Speaker }[] = [];
+  const quote = /“([^”]+)”|"([^"]+)"/g;
+  let last = 0;
+
+  for (const match of paragraph.matchAll(quote)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const narration = paragraph.substring(last, start).trim();
+    if (narration) parts.push({ text: narration, speaker: author });
+
+    const characterId = attributeQuote(paragraph.substring(0, start), paragraph.substring(end), characters);
+    parts.push({
+      text: (match[1] ?? match[2]).trim(),
+      speaker: characterId ? { type: 'character', id: characterId } : author,
+    });
+    last = end;
+  }
+
+  const rest = paragraph.substring(last).trim();
+  if (rest) parts.push({ text: rest, speaker: author });
+  return parts.filter(p => /\w/.test(p.text));
+}
+
+// Break text that is too long for one synthesize call at sentence ends
+function chunkText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of text.match(/[^.!?]+[.!?]+["'”’]?\s*|[^.!?]+$/g) || [text]) {
+    if (current && current.length + sentence.length > maxChars) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    // A single sentence longer than the limit is cut at the limit
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const piece = sentence.substring(i, i + maxChars);
+      if (current.length + piece.length > maxChars) {
+        chunks.push(current.trim());
+        current = '';
+      }
+      current += piece;
+    }
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Voice packs the listener has not unlocked. The plan rules live in the
+// database, so each pack is checked there.
+async function getLockedVoicePacks(
+  supabase: SupabaseClient,
+  userId: string,
+  provider: TtsProvider
+): Promise<Set<string>> {
+  const locked = new Set<string>();
+  for (const pack of new Set(provider.voices.map(v => v.pack))) {
+    const { data, error } = await supabase.rpc('check_entitlement', {
+      p_user_id: userId,
+      p_feature: 'voice_packs',
+      p_value: pack,
+    });
+    if (error || !data?.allowed) locked.add(pack);
+  }
+  return locked;
+}
+
+// Character voice, then the author's partner voice, then the story narrator,
+// then the provider default. Voices saved for another provider, or from a
+// pack the listener has not unlocked, are skipped.
+function resolveVoice(
+  speaker: Speaker,
+  author: Speaker,
+  voices: StoryVoice[],
+  provider: TtsProvider,
+  lockedPacks: Set<string>
+): { voiceId: string; speakingRate: number } {
+  const usable = voices.filter(v =>
+    v.provider === provider.id
+    && provider.voices.some(pv => pv.id === v.voice_id && !lockedPacks.has(pv.pack))
+  );
+  const find = (s: Speaker) => usable.find(v => v.speaker_type === s.type && v.speaker_id === s.id);
+
+  const voice = find(speaker) || find(author) || find({ type: 'narrator', id: null });
+  return voice
+    ? { voiceId: voice.voice_id, speakingRate: Number(voice.speaking_rate) || 1 }
+    : { voiceId: provider.defaultVoiceId, speakingRate: 1 };
+}
+
+async function buildSegments(
+  supabase: SupabaseClient,
+  chapter: { story_id: string; author_id: string; content: string },
+  provider: TtsProvider,
+  lockedPacks: Set<string>
+): Promise<Segment[]> {
+  const [{ data: voices }, { data: characters }] = await Promise.all([
+    supabase
+      .from('story_voices')
+      .select('speaker_type, speaker_id, provider, voice_id, speaking_rate')
+      .eq('story_id', chapter.story_id),
+    supabase
+      .from('story_characters')
+      .select('id, name')
+      .eq('story_id', chapter.story_id),
+  ]);
+
+  // Whole-word, case-insensitive; longer names first so "Mia Rose" beats "Mia"
+  const characterPatterns = (characters || [])
+    .filter((c: any) => typeof c.name === 'string' && c.name.trim().length > 0)
+    .sort((a: any, b: any) => b.name.length - a.name.length)
+    .map((c: any) => ({ id: c.id as string, pattern: new RegExp(`\\b${escapeRegExp(c.name.trim())}\\b`, 'gi') }));
+
+  const author: Speaker = { type: 'partner', id: chapter.author_id };
+  const parts = toParagraphs(chapter.content.substring(0, MAX_CHAPTER_LENGTH))
+    .flatMap(paragraph => splitParagraph(paragraph, author, characterPatterns));
+
+  // Neighbouring parts read by the same voice become one segment
+  const merged: { text: string; speaker: Speaker; voiceId: string; speakingRate: number }[] = [];
+  for (const part of parts) {
+    const voice = resolveVoice(part.speaker, author, (voices || []) as StoryVoice[], provider, lockedPacks);
+    const previous = merged[merged.length - 1];
+    if (previous && previous.voiceId === voice.voiceId && previous.speakingRate === voice.speakingRate) {
+      previous.text += `\n${part.text}`;
+    } else {
+      merged.push({ text: part.text, speaker: part.speaker, ...voice });
+    }
+  }
+
+  const segments: Segment[] = [];
+  for (const part of merged) {
+    for (const text of chunkText(part.text, provider.maxChars)) {
+      segments.push({
+        ...part,
+        text,
+        key: await sha256(`${provider.id}|${part.voiceId}|${part.speakingRate}|${text}`),
+      });
+    }
+  }
+
+  if (segments.length > MAX_SEGMENTS) {
+    throw new Error('This chapter is too long to narrate');
+  }
+  return segments;
+}
+
+function publicUrl(supabase: SupabaseClient, storagePath: string): string {
+  return supabase.storage.from('media').getPublicUrl(storagePath).data.publicUrl;
+}
+
+function toResponse(
+  supabase: SupabaseClient,
+  chapter: { id: string; chapter_number: number },
+  provider: string,
+  segments: StoredSegment[],
+  cached: boolean,
+  tokensCharged: number
+): NarrateResponse {
+  return {
+    chapterId: chapter.id,
+    chapterNumber: chapter.chapter_number,
+    provider,
+    durationMs: segments.reduce((sum, s) => sum + s.duration_ms, 0),
+    segments: segments.map(s => ({
+      mediaId: s.media_id,
+      url: publicUrl(supabase, s.storage_path),
+      speakerType: s.speaker_type,
+      speakerId: s.speaker_id,
+      voiceId: s.voice_id,
+      durationMs: s.duration_ms,
+    })),
+    cached,
+    tokensCharged,
+  };
+}
+
+serve(async (req) => {
+  // Get CORS headers with origin validation
+  const corsHeaders = getCorsHeaders(req.headers.get('Origin'));
+
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Validate POST method
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  }
+
+  let provider: TtsProvider;
+  try {
+    provider = getTtsProvider();
+  } catch (error) {
+    console.error('TTS provider configuration error:', error);
+    return new Response(JSON.stringify({ success: false, error: 'Service configuration error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Service role client: narration audio is written to storage and
+  // chapter_media on the reader's behalf, so membership is checked explicitly
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  try {
+    // Validate request size before parsing JSON
+    try {
+      validateRequestSize(req);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 413,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse request body first to get userId (for PKCE flow workaround)
+    const requestBody = await req.json() as NarrateRequest;
+    let userId: string;
+
+    // Try to get userId from request body first (PKCE workaround)
+    if (requestBody.userId) {
+      userId = requestBody.userId;
+    } else {
+      // Fall back to JWT auth
+      const authToken = req.headers.get('x-auth-token') || req.headers.get('Authorization');
+      if (!authToken) {
+        return new Response(JSON.stringify({ error: 'Missing authorization or userId' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const jwtPayload = decodeJWT(authToken.replace('Bearer ', ''));
+      if (!jwtPayload || !jwtPayload.sub) {
+        return new Response(JSON.stringify({ error: 'Invalid token format' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      userId = jwtPayload.sub as string;
+    }
+
+    // The voices this deployment can narrate with, for voice pickers
+    if (requestBody.action === 'voices') {
+      return new Response(JSON.stringify({
+        success: true,
+        data: { provider: provider.id, defaultVoiceId: provider.defaultVoiceId, voices: provider.voices },
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { chapterId } = requestBody;
+    if (!chapterId || typeof chapterId !== 'string') {
+      return new Response(JSON.stringify({ success: false, error: 'Chapter ID is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: chapter } = await supabase
+      .from('chapters')
+      .select('id, story_id, author_id, chapter_number, content')
+      .eq('id', chapterId)
+      .single();
+
+    if (!chapter) {
+      return new Response(JSON.stringify({ success: false, error: 'Chapter not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [{ data: story }, { data: membership }] = await Promise.all([
+      supabase.from('stories').select('id, title, created_by').eq('id', chapter.story_id).single(),
+      supabase.from('story_members').select('user_id').eq('story_id', chapter.story_id).eq('user_id', userId).maybeSingle(),
+    ]);
+
+    if (!story || (story.created_by !== userId && !membership)) {
+      return new Response(JSON.stringify({ success: false, error: 'Not a member of this story' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const lockedPacks = await getLockedVoicePacks(supabase, userId, provider);
+    const segments = await buildSegments(supabase, chapter, provider, lockedPacks);
+    if (segments.length === 0) {
+      return new Response(JSON.stringify({ success: false, error: 'This chapter has nothing to read aloud' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Same text and same voices: hand back the narration made last time
+    const contentHash = await sha256(segments.map(s => s.key).join('|'));
+    const { data: existing } = await supabase
+      .from('chapter_narrations')
+      .select('segments')
+      .eq('chapter_id', chapter.id)
+      .eq('content_hash', contentHash)
+      .maybeSingle();
+
+    if (existing) {
+      const data = toResponse(supabase, chapter, provider.id, existing.segments as StoredSegment[], true, 0);
+      return new Response(JSON.stringify({ success: true, data }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Audio for unchanged segments is reused, even when other segments changed
+    const { data: cachedMedia } = await supabase
+      .from('chapter_media')
+      .select('id, storage_path, dimensions, metadata')
+      .eq('chapter_id', chapter.id)
+      .eq('media_type', 'audio')
+      .eq('status', 'active')
+      .in('metadata->>narration_key', segments.map(s => s.key));
+
+    const cachedByKey = new Map<string, any>((cachedMedia || []).map((m: any) => [m.metadata?.narration_key, m]));
+    const missing = segments.filter(s => !cachedByKey.has(s.key));
+    const tokenCost = missing.length > 0 ? NARRATION_TOKEN_COST : 0;
+
+    // Check the balance before synthesizing; the charge happens once the audio is stored
+    if (tokenCost > 0) {
+      const { data: tokens } = await supabase
+        .from('user_tokens')
+        .select('balance')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (!tokens || tokens.balance < tokenCost) {
+        return new Response(JSON.stringify({ success: false, error: `Narrating a new chapter costs ${tokenCost} token` }), {
+          status: 402,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const created: { id: string; storage_path: string }[] = [];
+    try {
+      for (const segment of missing) {
+        if (cachedByKey.has(segment.key)) continue; // Same text twice in one chapter
+
+        const audio = await provider.synthesize(segment.text, segment.voiceId, { speakingRate: segment.speakingRate });
+        const storagePath = `narration/${chapter.story_id}/${chapter.id}/${segment.key}.${audio.extension}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from('media')
+          .upload(storagePath, audio.audio, { contentType: audio.mimeType, upsert: true });
+        if (uploadError) throw uploadError;
+
+        const { data: media, error: mediaError } = await supabase
+          .from('chapter_media')
+          .insert({
+            chapter_id: chapter.id,
+            user_id: userId,
+            media_type: 'audio',
+            storage_path: storagePath,
+            file_name: `chapter-${chapter.chapter_number}-narration.${audio.extension}`,
+            file_size: audio.audio.length,
+            mime_type: audio.mimeType,
+            dimensions: { duration: audio.durationMs },
+            alt_text: `Narration of chapter ${chapter.chapter_number}`,
+            metadata: {
+              narration: true,
+              narration_key: segment.key,
+              provider: provider.id,
+              voice_id: segment.voiceId,
+            },
+          })
+          .select('id, storage_path, dimensions, metadata')
+          .single();
+        if (mediaError || !media) throw mediaError || new Error('Could not save narration audio');
+
+        created.push({ id: media.id, storage_path: storagePath });
+        cachedByKey.set(segment.key, media);
+      }
+
+      // Charge last: a narration that fails anywhere above costs nothing. The key
+      // is the audio this request made, so every synthesis is paid for once.
+      if (tokenCost > 0) {
+        const charged = await chargeTokens(supabase, {
+          userId,
+          amount: tokenCost,
+          feature: 'narrate-chapter',
+          description: `Narrated chapter ${chapter.chapter_number} of "${story.title}"`,
+          idempotencyKey: `${chapter.id}:${created[0]?.id ?? contentHash}`,
+          storyId: story.id,
+          chapterId: chapter.id,
+          metadata: { provider: provider.id, segments: missing.length },
+        });
+
+        if (!('charge' in charged)) {
+          throw new Error('error' in charged ? charged.error : 'Could not charge tokens for this narration');
+        }
+      }
+    } catch (error) {
+      // Nothing half-made stays behind in the cache
+      if (created.length > 0) {
+        await supabase.from('chapter_media').delete().in('id', created.map(m => m.id));
+        await supabase.storage.from('media').remove(created.map(m => m.storage_path));
+      }
+      throw error;
+    }
+
+    const stored: StoredSegment[] = segments.map(segment => {
+      const media = cachedByKey.get(segment.key);
+      return {
+        media_id: media.id,
+        storage_path: media.storage_path,
+        speaker_type: segment.speaker.type,
+        speaker_id: segment.speaker.id,
+        voice_id: segment.voiceId,
+        duration_ms: Number(media.dimensions?.duration) || 0,
+      };
+    });
+
+    await supabase
+      .from('chapter_narrations')
+      .upsert({
+        chapter_id: chapter.id,
+        story_id: chapter.story_id,
+        content_hash: contentHash,
+        provider: provider.id,
+        segments: stored,
+        duration_ms: stored.reduce((sum, s) => sum + s.duration_ms, 0),
+        requested_by: userId,
+      }, { onConflict: 'chapter_id,content_hash' });
+
+    const data = toResponse(supabase, chapter, provider.id, stored, false, tokenCost);
+
+    // Return consistent response structure for both mobile and web
+    return new Response(JSON.stringify({ success: true, data }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in narrate-chapter function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
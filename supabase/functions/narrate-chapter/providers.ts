@@ -0,0 +1,167 @@
+// supabase/functions/narrate-chapter/providers.ts
+// Text-to-speech providers. narrate-chapter only talks to the TtsProvider
+// interface, so a new service is one more implementation plus a case in
+// getTtsProvider.
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+  gender: 'female' | 'male' | 'neutral';
+  language: string;
+  pack: string; // 'standard', or a voice pack that may need premium (see voice_packs in tier_entitlements)
+}
+
+export interface SynthesizeOptions {
+  speakingRate: number; // 0.5 - 2.0, 1.0 is normal speed
+}
+
+export interface SynthesizedAudio {
+  audio: Uint8Array;
+  mimeType: string;
+  extension: string;
+  durationMs: number;
+}
+
+export interface TtsProvider {
+  id: string;
+  voices: TtsVoice[];
+  defaultVoiceId: string;
+  maxChars: number; // Longest text one synthesize call accepts
+  synthesize(text: string, voiceId: string, options: SynthesizeOptions): Promise<SynthesizedAudio>;
+}
+
+// Google Cloud Text-to-Speech. Needs GOOGLE_TTS_API_KEY.
+class GoogleTtsProvider implements TtsProvider {
+  id = 'google';
+  defaultVoiceId = 'en-US-Neural2-F';
+  maxChars = 4500; // The API limit is 5000 bytes of input
+
+  voices: TtsVoice[] = [
+    { id: 'en-US-Neural2-F', name: 'Ava', gender: 'female', language: 'en-US', pack: 'standard' },
+    { id: 'en-US-Neural2-C', name: 'Claire', gender: 'female', language: 'en-US', pack: 'standard' },
+    { id: 'en-US-Neural2-D', name: 'Daniel', gender: 'male', language: 'en-US', pack: 'standard' },
+    { id: 'en-US-Neural2-J', name: 'James', gender: 'male', language: 'en-US', pack: 'standard' },
+    { id: 'en-GB-Neural2-A', name: 'Amelia', gender: 'female', language: 'en-GB', pack: 'standard' },
+    { id: 'en-GB-Neural2-B', name: 'Oliver', gender: 'male', language: 'en-GB', pack: 'standard' },
+    { id: 'en-US-Studio-O', name: 'Olivia', gender: 'female', language: 'en-US', pack: 'studio' },
+    { id: 'en-US-Studio-Q', name: 'Quinn', gender: 'male', language: 'en-US', pack: 'studio' },
+  ];
+
+  constructor(private apiKey: string) {}
+
+  async synthesize(text: string, voiceId: string, options: SynthesizeOptions): Promise<SynthesizedAudio> {
+    const voice = this.voices.find(v => v.id === voiceId) || this.voices[0];
+
+    const response = await fetch('https://texttospeech.googleapis.com/v1/text:synthesize', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        input: { text },
+        voice: { languageCode: voice.language, name: voice.id },
+        audioConfig: { audioEncoding: 'MP3', speakingRate: options.speakingRate },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Google TTS error:', errorText);
+      throw new Error('Text-to-speech service unavailable');
+    }
+
+    const { audioContent } = await response.json();
+    const binary = atob(audioContent || '');
+    const audio = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      audio[i] = binary.charCodeAt(i);
+    }
+
+    // Google returns 32 kbps MP3, so the size gives the length
+    return { audio, mimeType: 'audio/mpeg', extension: 'mp3', durationMs: Math.round((audio.length * 8) / 32) };
+  }
+}
+
+// Offline provider for local development and tests. Produces a quiet tone per
+// voice that lasts as long as the text would take to read, so queues, chapter
+// markers and seeking behave like real narration without any API key.
+class LocalTtsProvider implements TtsProvider {
+  id = 'local';
+  defaultVoiceId = 'local-warm';
+  maxChars = 2000;
+
+  voices: TtsVoice[] = [
+    { id: 'local-warm', name: 'Warm (test tone)', gender: 'neutral', language: 'en-US', pack: 'standard' },
+    { id: 'local-bright', name: 'Bright (test tone)', gender: 'female', language: 'en-US', pack: 'standard' },
+    { id: 'local-deep', name: 'Deep (test tone)', gender: 'male', language: 'en-US', pack: 'standard' },
+    { id: 'local-studio', name: 'Studio (test tone)', gender: 'neutral', language: 'en-US', pack: 'studio' },
+  ];
+
+  private pitches: Record<string, number> = {
+    'local-warm': 330,
+    'local-bright': 440,
+    'local-deep': 220,
+    'local-studio': 550,
+  };
+
+  async synthesize(text: string, voiceId: string, options: SynthesizeOptions): Promise<SynthesizedAudio> {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    // About 150 words a minute at normal speed
+    const durationMs = Math.max(500, Math.round((words / 2.5) * 1000 / options.speakingRate));
+    const audio = encodeTone(this.pitches[voiceId] || this.pitches[this.defaultVoiceId], durationMs);
+    return { audio, mimeType: 'audio/wav', extension: 'wav', durationMs };
+  }
+}
+
+// 8 kHz mono 16-bit PCM WAV with a soft sine tone
+function encodeTone(frequency: number, durationMs: number): Uint8Array {
+  const sampleRate = 8000;
+  const samples = Math.round((sampleRate * durationMs) / 1000);
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples * 2, true);
+
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.1;
+    view.setInt16(44 + i * 2, Math.round(value * 32767), true);
+  }
+
+  return new Uint8Array(buffer);
+}
+
+// TTS_PROVIDER picks the provider. Without it, Google is used when its key is
+// set and the local provider otherwise.
+export function getTtsProvider(): TtsProvider {
+  const requested = Deno.env.get('TTS_PROVIDER');
+  const googleKey = Deno.env.get('GOOGLE_TTS_API_KEY');
+
+  switch (requested || (googleKey ? 'google' : 'local')) {
+    case 'google':
+      if (!googleKey) {
+        throw new Error('GOOGLE_TTS_API_KEY is required for the google TTS provider');
+      }
+      return new GoogleTtsProvider(googleKey);
+    case 'local':
+      return new LocalTtsProvider();
+    default:
+      throw new Error(`Unknown TTS provider: ${requested}`);
+  }
+}
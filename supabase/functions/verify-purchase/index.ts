@@ -0,0 +1,239 @@
+// supabase/functions/verify-purchase/index.ts
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { getStoreAdapter, NotificationAuthError, ReceiptError } from './stores.ts';
+
+// Two callers share this function:
+// - The apps, with the buyer's JWT, to verify a receipt: { purchaseId, receipt, transactionId? }
+// - Store server notifications, at ?notification=<provider>, authenticated by
+//   the store adapter instead of a JWT
+interface VerifyRequest {
+  purchaseId: string; // From create_token_purchase
+  receipt: string;
+  transactionId?: string; // The store transaction, when the receipt holds several
+}
+
+const MAX_REQUEST_SIZE = 262_144; // 256KB; App Store receipts can be large
+
+// Helper function to get CORS headers with proper origin validation
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigins = Deno.env.get('ALLOWED_ORIGINS')?.split(',') || [];
+  const requestOrigin = origin || '';
+
+  // Default allowed origins for local development
+  const defaultLocalOrigins = [
+    'http://localhost:3000',
+    'http://localhost:3001',
+    'http://localhost:8081',
+    'http://127.0.0.1:3000',
+    'http://127.0.0.1:3001',
+    'http://192.168.1.1:8081',
+    'exp://192.168.1.1:8081',
+    'exp://127.0.0.1:8081',
+  ];
+
+  const allAllowedOrigins = [...defaultLocalOrigins, ...allowedOrigins];
+
+  // Validate origin against allowed list
+  const validOrigin = allAllowedOrigins.includes(requestOrigin)
+    ? requestOrigin
+    : allowedOrigins[0] || requestOrigin || '*';
+
+  return {
+    'Access-Control-Allow-Origin': validOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+    'Access-Control-Allow-Credentials': 'true',
+  };
+}
+
+// Helper function to check request size
+function validateRequestSize(req: Request): void {
+  const contentLength = req.headers.get('content-length');
+  if (contentLength) {
+    const size = parseInt(contentLength, 10);
+    if (size > MAX_REQUEST_SIZE) {
+      throw new Error(`Request size exceeds ${MAX_REQUEST_SIZE} bytes`);
+    }
+  }
+}
+
+function jsonResponse(body: unknown, status: number, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Refunds and chargebacks reported by a store. Each one reverses the tokens
+// of the purchase it names; a store that resends a notification changes
+// nothing the second time.
+async function handleNotification(
+  req: Request,
+  provider: string,
+  supabase: ReturnType<typeof createClient>,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const adapter = getStoreAdapter(provider);
+  if (!adapter) {
+    return jsonResponse({ success: false, error: `${provider} is not set up` }, 404, corsHeaders);
+  }
+
+  let reversals;
+  try {
+    reversals = await adapter.parseNotification(req);
+  } catch (error) {
+    if (error instanceof NotificationAuthError) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401, corsHeaders);
+    }
+    throw error;
+  }
+
+  let reversed = 0;
+  for (const reversal of reversals) {
+    const { data, error } = await supabase.rpc('reverse_token_purchase', {
+      p_provider: adapter.id,
+      p_provider_transaction_id: reversal.transactionId,
+      p_kind: reversal.kind,
+      p_reason: reversal.reason,
+    });
+
+    // Stores retry notifications that fail, so a database error is a 500.
+    // A purchase this project never credited (a subscription, or another
+    // app's product) is not an error.
+    if (error) {
+      console.error('Purchase reversal error:', error);
+      return jsonResponse({ success: false, error: 'Could not reverse the purchase' }, 500, corsHeaders);
+    }
+    if (data?.success && !data.replayed) {
+      reversed++;
+      if (data.shortfall > 0) {
+        console.warn(`Purchase ${data.purchase_id} reversed with ${data.shortfall} tokens already spent`);
+      }
+    }
+  }
+
+  return jsonResponse({ success: true, data: { reversed } }, 200, corsHeaders);
+}
+
+serve(async (req) => {
+  // Get CORS headers with origin validation
+  const corsHeaders = getCorsHeaders(req.headers.get('Origin'));
+
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Validate POST method
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  }
+
+  // Service role: crediting and reversing purchases is server only
+  const ledger = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  try {
+    // Validate request size before parsing JSON
+    try {
+      validateRequestSize(req);
+    } catch (error) {
+      return jsonResponse({ success: false, error: (error as Error).message }, 413, corsHeaders);
+    }
+
+    const notificationProvider = new URL(req.url).searchParams.get('notification');
+    if (notificationProvider) {
+      return await handleNotification(req, notificationProvider, ledger, corsHeaders);
+    }
+
+    // Verify auth. The gateway does not check JWTs for this function (store
+    // notifications have none), so the buyer's token is checked here.
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401, corsHeaders);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Invalid authorization' }, 401, corsHeaders);
+    }
+
+    const { purchaseId, receipt, transactionId }: VerifyRequest = await req.json();
+
+    if (!purchaseId || typeof purchaseId !== 'string') {
+      return jsonResponse({ success: false, error: 'purchaseId is required' }, 400, corsHeaders);
+    }
+    if (!receipt || typeof receipt !== 'string') {
+      return jsonResponse({ success: false, error: 'receipt is required' }, 400, corsHeaders);
+    }
+
+    const { data: purchase } = await ledger
+      .from('token_purchases')
+      .select('id, user_id, pack_id, provider, status')
+      .eq('id', purchaseId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!purchase) {
+      return jsonResponse({ success: false, error: 'Purchase not found' }, 404, corsHeaders);
+    }
+
+    // Credited purchases fall through: verifying the same receipt again
+    // returns the first credit
+    if (purchase.status !== 'pending' && purchase.status !== 'credited') {
+      return jsonResponse({ success: false, error: `This purchase is already ${purchase.status}` }, 409, corsHeaders);
+    }
+
+    const adapter = getStoreAdapter(purchase.provider);
+    if (!adapter) {
+      return jsonResponse({ success: false, error: 'This store is not available' }, 400, corsHeaders);
+    }
+
+    let verified;
+    try {
+      verified = await adapter.verifyReceipt(receipt, { productId: purchase.pack_id, transactionId });
+    } catch (error) {
+      if (error instanceof ReceiptError) {
+        await ledger.rpc('fail_token_purchase', { p_purchase_id: purchase.id, p_reason: error.message });
+        return jsonResponse({ success: false, error: error.message }, 402, corsHeaders);
+      }
+      // The store is down or slow; the purchase stays pending so the app can retry
+      console.error('Receipt verification error:', error);
+      return jsonResponse({ success: false, error: 'Could not reach the store. Try again shortly.' }, 502, corsHeaders);
+    }
+
+    const { data: credit, error: creditError } = await ledger.rpc('credit_token_purchase', {
+      p_purchase_id: purchase.id,
+      p_provider_transaction_id: verified.transactionId,
+      p_product_id: verified.productId,
+    });
+
+    if (creditError || !credit?.success) {
+      console.error('Purchase credit error:', creditError || credit?.error);
+      return jsonResponse({ success: false, error: credit?.error || 'Could not credit the purchase' }, 409, corsHeaders);
+    }
+
+    return jsonResponse({
+      success: true,
+      data: {
+        purchaseId: credit.purchase_id,
+        tokens: credit.tokens,
+        balance: credit.balance,
+        replayed: credit.replayed,
+      },
+    }, 200, corsHeaders);
+  } catch (error) {
+    console.error('Error in verify-purchase function:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500, corsHeaders);
+  }
+});
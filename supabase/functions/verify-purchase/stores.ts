@@ -0,0 +1,167 @@
+// supabase/functions/verify-purchase/stores.ts
+// Store adapters. verify-purchase only talks to the StoreAdapter interface, so
+// a new store is one more implementation plus a case in getStoreAdapter.
+
+export interface VerifiedPurchase {
+  productId: string;
+  transactionId: string; // The store's id for this purchase
+}
+
+export interface StoreReversal {
+  transactionId: string;
+  kind: 'refunded' | 'charged_back';
+  reason: string;
+}
+
+export interface StoreAdapter {
+  id: string;
+  // Asks the store whether the receipt is a real, paid purchase. Throws
+  // ReceiptError when the store says no; any other error means "try again".
+  verifyReceipt(receipt: string, expected: { productId: string; transactionId?: string }): Promise<VerifiedPurchase>;
+  // Checks that a server notification came from the store and returns the
+  // refunds and chargebacks in it. Throws NotificationAuthError otherwise.
+  parseNotification(req: Request): Promise<StoreReversal[]>;
+}
+
+export class ReceiptError extends Error {}
+
+export class NotificationAuthError extends Error {}
+
+// A store that approves any receipt it made itself, for development and
+// tests. Only used when STUB_PURCHASES is 'on'. Receipts look like
+// `stub:<productId>:<transactionId>`; a transaction id starting with
+// 'declined' is rejected.
+//
+// Refunds are posted by hand with the service role key:
+// { "reversals": [{ "transactionId": "...", "kind": "refunded" }] }
+class StubStoreAdapter implements StoreAdapter {
+  id = 'stub';
+
+  constructor(private serviceRoleKey: string) {}
+
+  verifyReceipt(receipt: string): Promise<VerifiedPurchase> {
+    const [prefix, productId, transactionId] = receipt.split(':');
+    if (prefix !== 'stub' || !productId || !transactionId) {
+      return Promise.reject(new ReceiptError('Not a stub receipt'));
+    }
+    if (transactionId.startsWith('declined')) {
+      return Promise.reject(new ReceiptError('The stub store declined this purchase'));
+    }
+    return Promise.resolve({ productId, transactionId });
+  }
+
+  async parseNotification(req: Request): Promise<StoreReversal[]> {
+    if (req.headers.get('Authorization') !== `Bearer ${this.serviceRoleKey}`) {
+      throw new NotificationAuthError('Stub notifications need the service role key');
+    }
+
+    const { reversals } = await req.json();
+    if (!Array.isArray(reversals)) return [];
+
+    return reversals
+      .filter((r: Partial<StoreReversal>) => typeof r.transactionId === 'string')
+      .map((r: Partial<StoreReversal>) => ({
+        transactionId: r.transactionId as string,
+        kind: r.kind === 'charged_back' ? 'charged_back' : 'refunded',
+        reason: r.reason || 'Stub refund',
+      }));
+  }
+}
+
+interface AppStoreTransaction {
+  product_id: string;
+  transaction_id: string;
+  purchase_date_ms: string;
+  cancellation_date_ms?: string;
+  cancellation_reason?: string; // '1' when the buyer reported a problem with the app
+}
+
+// Apple's verifyReceipt endpoint. Needs APPLE_SHARED_SECRET, which also
+// authenticates Apple's server notifications (they carry it as `password`).
+class AppStoreAdapter implements StoreAdapter {
+  id = 'app_store';
+
+  private static PRODUCTION_URL = 'https://buy.itunes.apple.com/verifyReceipt';
+  private static SANDBOX_URL = 'https://sandbox.itunes.apple.com/verifyReceipt';
+  private static SANDBOX_RECEIPT = 21007;
+
+  constructor(private sharedSecret: string) {}
+
+  private async post(url: string, receipt: string) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        'receipt-data': receipt,
+        password: this.sharedSecret,
+        'exclude-old-transactions': false,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`App Store returned ${response.status}`);
+    }
+    return await response.json();
+  }
+
+  async verifyReceipt(
+    receipt: string,
+    expected: { productId: string; transactionId?: string }
+  ): Promise<VerifiedPurchase> {
+    let result = await this.post(AppStoreAdapter.PRODUCTION_URL, receipt);
+    // Receipts from TestFlight and development builds are checked against the sandbox
+    if (result.status === AppStoreAdapter.SANDBOX_RECEIPT) {
+      result = await this.post(AppStoreAdapter.SANDBOX_URL, receipt);
+    }
+
+    if (result.status !== 0) {
+      throw new ReceiptError(`The App Store rejected the receipt (${result.status})`);
+    }
+
+    const transactions: AppStoreTransaction[] = result.receipt?.in_app || [];
+    const matching = transactions
+      .filter(t => t.product_id === expected.productId && !t.cancellation_date_ms)
+      .filter(t => !expected.transactionId || t.transaction_id === expected.transactionId)
+      .sort((a, b) => Number(b.purchase_date_ms) - Number(a.purchase_date_ms));
+
+    if (matching.length === 0) {
+      throw new ReceiptError('The receipt does not contain this purchase');
+    }
+    return { productId: matching[0].product_id, transactionId: matching[0].transaction_id };
+  }
+
+  async parseNotification(req: Request): Promise<StoreReversal[]> {
+    const notification = await req.json();
+    if (notification.password !== this.sharedSecret) {
+      throw new NotificationAuthError('Notification password does not match');
+    }
+    if (notification.notification_type !== 'REFUND') return [];
+
+    const transactions: AppStoreTransaction[] = notification.unified_receipt?.latest_receipt_info || [];
+    return transactions
+      .filter(t => t.cancellation_date_ms)
+      .map(t => ({
+        transactionId: t.transaction_id,
+        // Apple does not tell refunds and chargebacks apart
+        kind: 'refunded' as const,
+        reason: t.cancellation_reason === '1' ? 'Refunded: problem with the app' : 'Refunded by Apple',
+      }));
+  }
+}
+
+// Null when the store is not set up on this project
+export function getStoreAdapter(provider: string): StoreAdapter | null {
+  if (provider === 'stub') {
+    if (Deno.env.get('STUB_PURCHASES') !== 'on') return null;
+    return new StubStoreAdapter(Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+  }
+
+  if (provider === 'app_store') {
+    const sharedSecret = Deno.env.get('APPLE_SHARED_SECRET');
+    return sharedSecret ? new AppStoreAdapter(sharedSecret) : null;
+  }
+
+  // Google Play needs a service account for the Android Publisher API; not
+  // wired up yet
+  return null;
+}
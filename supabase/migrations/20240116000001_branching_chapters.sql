@@ -0,0 +1,261 @@
+-- Branching chapters
+-- A chapter can end with 2-4 named choices. The next chapter continues one of
+-- them, so a story's chapters form a tree instead of a single numbered list.
+
+-- 1. Choices offered at the end of a chapter
+CREATE TABLE IF NOT EXISTS public.chapter_choices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chapter_id UUID NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position BETWEEN 1 AND 4),
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  description TEXT NULL CHECK (description IS NULL OR char_length(description) <= 500),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (chapter_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_choices_chapter_id ON public.chapter_choices(chapter_id);
+CREATE INDEX IF NOT EXISTS idx_chapter_choices_story_id ON public.chapter_choices(story_id);
+
+-- 2. Tree columns on chapters
+ALTER TABLE public.chapters
+  ADD COLUMN IF NOT EXISTS parent_chapter_id UUID REFERENCES public.chapters(id) ON DELETE CASCADE;
+ALTER TABLE public.chapters
+  ADD COLUMN IF NOT EXISTS choice_id UUID REFERENCES public.chapter_choices(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.chapters.parent_chapter_id IS 'Chapter this one continues. NULL only for the first chapter of a story';
+COMMENT ON COLUMN public.chapters.choice_id IS 'Choice on the parent chapter that this chapter continues. NULL when the parent has no choices';
+COMMENT ON COLUMN public.chapters.chapter_number IS 'Depth in the story tree (parent chapter_number + 1). Sibling branches share a number';
+
+-- Existing stories are linear: link each chapter to the one before it
+WITH ordered AS (
+  SELECT id, LAG(id) OVER (PARTITION BY story_id ORDER BY chapter_number) AS prev_id
+  FROM public.chapters
+)
+UPDATE public.chapters c
+SET parent_chapter_id = ordered.prev_id
+FROM ordered
+WHERE c.id = ordered.id
+  AND ordered.prev_id IS NOT NULL
+  AND c.parent_chapter_id IS NULL;
+
+-- chapter_number is no longer unique per story once branches exist
+ALTER TABLE public.chapters DROP CONSTRAINT IF EXISTS chapters_story_id_chapter_number_key;
+
+-- One first chapter per story, one plain continuation per chapter and one
+-- continuation per choice. These take over the race protection the old
+-- UNIQUE(story_id, chapter_number) constraint gave concurrent submissions.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chapters_story_root
+  ON public.chapters(story_id) WHERE parent_chapter_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chapters_linear_continuation
+  ON public.chapters(parent_chapter_id) WHERE parent_chapter_id IS NOT NULL AND choice_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chapters_choice_continuation
+  ON public.chapters(choice_id) WHERE choice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_chapters_parent_chapter_id ON public.chapters(parent_chapter_id);
+
+-- 3. Keep the tree consistent on insert and stop chapters being moved later
+CREATE OR REPLACE FUNCTION public.set_chapter_branch_position()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parent public.chapters;
+  v_choice public.chapter_choices;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.parent_chapter_id IS DISTINCT FROM OLD.parent_chapter_id
+      OR (NEW.choice_id IS DISTINCT FROM OLD.choice_id AND NEW.choice_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'A chapter cannot be moved to another branch'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_chapter_id IS NULL THEN
+    IF NEW.choice_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A chapter that continues a choice needs a parent chapter'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.chapter_number := 1;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM public.chapters WHERE id = NEW.parent_chapter_id;
+  IF NOT FOUND OR v_parent.story_id <> NEW.story_id THEN
+    RAISE EXCEPTION 'Parent chapter must belong to the same story'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.choice_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.chapter_choices WHERE chapter_id = v_parent.id) THEN
+      RAISE EXCEPTION 'The previous chapter ends with choices; pick one to continue'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    SELECT * INTO v_choice FROM public.chapter_choices WHERE id = NEW.choice_id;
+    IF NOT FOUND OR v_choice.chapter_id <> v_parent.id THEN
+      RAISE EXCEPTION 'Choice does not belong to the parent chapter'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.chapter_number := v_parent.chapter_number + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_set_chapter_branch_position ON public.chapters;
+CREATE TRIGGER trg_set_chapter_branch_position
+  BEFORE INSERT OR UPDATE OF parent_chapter_id, choice_id ON public.chapters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_chapter_branch_position();
+
+-- 4. RLS for chapter_choices
+-- Members can read choices. Writes go through set_chapter_choices so the
+-- 2-4 rule and the author check live in one place.
+ALTER TABLE public.chapter_choices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Story members can view chapter choices" ON public.chapter_choices;
+CREATE POLICY "Story members can view chapter choices"
+  ON public.chapter_choices FOR SELECT
+  USING (
+    public.is_member_of_story(story_id)
+    OR
+    public.is_story_creator(story_id)
+  );
+
+-- 5. Replace the choices at the end of a chapter
+-- Pass an empty array to remove them. Choices are locked once the story has
+-- continued from the chapter, so existing branches never lose their choice.
+CREATE OR REPLACE FUNCTION public.set_chapter_choices(
+  p_chapter_id UUID,
+  p_choices JSONB
+) RETURNS JSON AS $$
+DECLARE
+  v_chapter public.chapters;
+  v_count INTEGER;
+  v_choice JSONB;
+  v_position INTEGER := 0;
+BEGIN
+  SELECT * INTO v_chapter FROM public.chapters WHERE id = p_chapter_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Chapter not found');
+  END IF;
+
+  IF v_chapter.author_id <> auth.uid() THEN
+    RETURN json_build_object('success', false, 'error', 'Only the chapter author can set its choices');
+  END IF;
+
+  IF p_choices IS NULL OR jsonb_typeof(p_choices) <> 'array' THEN
+    RETURN json_build_object('success', false, 'error', 'Choices must be an array');
+  END IF;
+
+  v_count := jsonb_array_length(p_choices);
+  IF v_count <> 0 AND (v_count < 2 OR v_count > 4) THEN
+    RETURN json_build_object('success', false, 'error', 'A chapter must end with 2 to 4 choices');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_choices) AS e
+    WHERE COALESCE(trim(e->>'title'), '') = ''
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Every choice needs a title');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.chapters WHERE parent_chapter_id = p_chapter_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Choices cannot change after the story has continued');
+  END IF;
+
+  DELETE FROM public.chapter_choices WHERE chapter_id = p_chapter_id;
+
+  FOR v_choice IN SELECT * FROM jsonb_array_elements(p_choices) LOOP
+    v_position := v_position + 1;
+    INSERT INTO public.chapter_choices (chapter_id, story_id, position, title, description, created_by)
+    VALUES (
+      p_chapter_id,
+      v_chapter.story_id,
+      v_position,
+      trim(v_choice->>'title'),
+      NULLIF(trim(COALESCE(v_choice->>'description', '')), ''),
+      auth.uid()
+    );
+  END LOOP;
+
+  RETURN json_build_object(
+    'success', true,
+    'choices', (
+      SELECT COALESCE(json_agg(c ORDER BY c.position), '[]'::json)
+      FROM public.chapter_choices c
+      WHERE c.chapter_id = p_chapter_id
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.set_chapter_choices IS 'Replaces the 2-4 choices at the end of a chapter. Called by add_chapter for the author, and only before anyone continues the chapter.';
+
+-- 6. Add a chapter together with its choices
+-- Inserting the chapter and then calling set_chapter_choices left a gap in
+-- which the chapter had no choices and could be continued linearly. Both now
+-- happen in one transaction, and clients no longer set choices on their own.
+CREATE OR REPLACE FUNCTION public.add_chapter(
+  p_story_id UUID,
+  p_content TEXT,
+  p_parent_chapter_id UUID DEFAULT NULL,
+  p_choice_id UUID DEFAULT NULL,
+  p_context_snippet TEXT DEFAULT NULL,
+  p_ai_enhanced_content TEXT DEFAULT NULL,
+  p_choices JSONB DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_chapter public.chapters;
+  v_result JSON;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF NOT (public.is_member_of_story(p_story_id) OR public.is_story_creator(p_story_id)) THEN
+    RETURN json_build_object('success', false, 'error', 'Story not found');
+  END IF;
+
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot submit empty chapter');
+  END IF;
+
+  BEGIN
+    -- chapter_number comes from the parent in set_chapter_branch_position
+    INSERT INTO public.chapters (
+      story_id, author_id, chapter_number, parent_chapter_id, choice_id,
+      content, ai_enhanced_content, context_snippet
+    ) VALUES (
+      p_story_id, v_user_id, 1, p_parent_chapter_id, p_choice_id,
+      p_content, p_ai_enhanced_content, p_context_snippet
+    )
+    RETURNING * INTO v_chapter;
+
+    IF p_choices IS NOT NULL AND jsonb_array_length(p_choices) > 0 THEN
+      v_result := public.set_chapter_choices(v_chapter.id, p_choices);
+      IF NOT COALESCE((v_result->>'success')::BOOLEAN, false) THEN
+        RAISE EXCEPTION '%', COALESCE(v_result->>'error', 'Failed to save chapter choices')
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RETURN json_build_object('success', false, 'error', 'Your partner already continued this part of the story. Refresh to read it.');
+    WHEN check_violation THEN
+      RETURN json_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  RETURN json_build_object('success', true, 'chapter', row_to_json(v_chapter));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.set_chapter_choices FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_chapter FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.add_chapter(UUID, TEXT, UUID, UUID, TEXT, TEXT, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.add_chapter IS 'Inserts a chapter and the choices at its end in one transaction';
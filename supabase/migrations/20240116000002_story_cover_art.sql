@@ -0,0 +1,35 @@
+-- Story cover art
+-- Keeps the AI cover art with the story so it can be shown on the story page
+-- and used as the cover of exported books.
+
+ALTER TABLE public.stories
+  ADD COLUMN IF NOT EXISTS cover_image_url TEXT NULL;
+
+COMMENT ON COLUMN public.stories.cover_image_url IS 'Cover art for the story, shown on the story page and used as the book cover on export';
+
+-- Only the creator can update stories, but either partner can generate the
+-- cover, so the cover is set through this function instead.
+CREATE OR REPLACE FUNCTION public.set_story_cover(
+  p_story_id UUID,
+  p_cover_image_url TEXT
+) RETURNS JSON AS $$
+BEGIN
+  IF NOT (public.is_member_of_story(p_story_id) OR public.is_story_creator(p_story_id)) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this story');
+  END IF;
+
+  IF p_cover_image_url IS NOT NULL AND p_cover_image_url !~ '^https://' THEN
+    RETURN json_build_object('success', false, 'error', 'Cover must be an https URL');
+  END IF;
+
+  UPDATE public.stories
+  SET cover_image_url = p_cover_image_url
+  WHERE id = p_story_id;
+
+  RETURN json_build_object('success', true, 'cover_image_url', p_cover_image_url);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_story_cover(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.set_story_cover IS 'Sets or clears the cover art of a story. Any member of the story can call it.';
@@ -0,0 +1,81 @@
+-- Export jobs
+-- Book exports (PDF / ePub) are rendered server-side by the export-worker edge
+-- function. Clients insert a pending job, then follow its progress over
+-- realtime. Tokens are only charged once the file has been stored.
+
+CREATE TABLE IF NOT EXISTS public.export_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  format TEXT NOT NULL CHECK (format IN ('pdf', 'epub')),
+  options JSONB NOT NULL DEFAULT '{}'::jsonb, -- {includeMetadata, includeInspiration, includeImages}
+  chapter_ids UUID[] NOT NULL DEFAULT '{}', -- Chapters to include, in reading order. Empty = latest branch
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  error TEXT NULL,
+  storage_path TEXT NULL, -- Path in the exports bucket
+  download_url TEXT NULL, -- Signed URL, valid until download_expires_at
+  download_expires_at TIMESTAMPTZ NULL,
+  tokens_charged INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ NULL,
+  completed_at TIMESTAMPTZ NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_jobs_requested_by ON public.export_jobs(requested_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_export_jobs_story_id ON public.export_jobs(story_id);
+CREATE INDEX IF NOT EXISTS idx_export_jobs_pending ON public.export_jobs(created_at) WHERE status = 'pending';
+
+CREATE OR REPLACE FUNCTION public.touch_export_job()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_touch_export_job ON public.export_jobs;
+CREATE TRIGGER trg_touch_export_job
+  BEFORE UPDATE ON public.export_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_export_job();
+
+-- RLS: people see and request their own exports. Only the worker (service
+-- role) moves a job along, so there is no update policy.
+ALTER TABLE public.export_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their export jobs" ON public.export_jobs;
+CREATE POLICY "Users can view their export jobs"
+  ON public.export_jobs FOR SELECT
+  USING (requested_by = auth.uid());
+
+DROP POLICY IF EXISTS "Story members can request exports" ON public.export_jobs;
+CREATE POLICY "Story members can request exports"
+  ON public.export_jobs FOR INSERT
+  WITH CHECK (
+    requested_by = auth.uid()
+    AND status = 'pending'
+    AND progress = 0
+    AND tokens_charged = 0
+    AND storage_path IS NULL
+    AND download_url IS NULL
+    AND (public.is_member_of_story(story_id) OR public.is_story_creator(story_id))
+  );
+
+-- Clients follow progress over realtime
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.export_jobs;
+  END IF;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Private bucket for finished books; downloads go through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('exports', 'exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE public.export_jobs IS 'Server-side book exports. Rendered by the export-worker edge function; tokens are charged only when a job completes.';
@@ -0,0 +1,289 @@
+-- Milestone books
+-- A story can have a rule that turns it into a book automatically, either
+-- every N chapters or when the story is completed. The rule queues an
+-- export job; when the export-worker finishes it, the book is recorded as a
+-- 'story' relationship milestone and both partners are notified.
+
+-- relationship_milestones is used by the app but was never created by a
+-- migration; create it to match the RelationshipMilestone type
+CREATE TABLE IF NOT EXISTS public.relationship_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  relationship_id UUID NOT NULL REFERENCES public.relationships(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  category TEXT NOT NULL DEFAULT 'relationship' CHECK (category IN ('personal', 'relationship', 'story', 'achievement')),
+  photos TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_relationship_milestones_relationship_id ON public.relationship_milestones(relationship_id, date DESC);
+
+ALTER TABLE public.relationship_milestones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Partners can view relationship milestones" ON public.relationship_milestones;
+CREATE POLICY "Partners can view relationship milestones"
+  ON public.relationship_milestones FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.relationships r
+    WHERE r.id = relationship_id AND auth.uid() IN (r.user_1, r.user_2)
+  ));
+
+DROP POLICY IF EXISTS "Partners can add relationship milestones" ON public.relationship_milestones;
+CREATE POLICY "Partners can add relationship milestones"
+  ON public.relationship_milestones FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.relationships r
+      WHERE r.id = relationship_id AND auth.uid() IN (r.user_1, r.user_2)
+    )
+  );
+
+DROP POLICY IF EXISTS "Authors can update their relationship milestones" ON public.relationship_milestones;
+CREATE POLICY "Authors can update their relationship milestones"
+  ON public.relationship_milestones FOR UPDATE
+  USING (created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Authors can delete their relationship milestones" ON public.relationship_milestones;
+CREATE POLICY "Authors can delete their relationship milestones"
+  ON public.relationship_milestones FOR DELETE
+  USING (created_by = auth.uid());
+
+-- One rule per story, shared by its members
+CREATE TABLE IF NOT EXISTS public.auto_book_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL UNIQUE REFERENCES public.stories(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  trigger_type TEXT NOT NULL CHECK (trigger_type IN ('every_n_chapters', 'story_completed')),
+  chapter_interval INTEGER NULL CHECK (chapter_interval IS NULL OR chapter_interval BETWEEN 1 AND 500),
+  format TEXT NOT NULL DEFAULT 'pdf' CHECK (format IN ('pdf', 'epub')),
+  include_images BOOLEAN NOT NULL DEFAULT TRUE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_triggered_chapter_count INTEGER NOT NULL DEFAULT 0, -- Stops the same milestone from queuing twice
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (trigger_type <> 'every_n_chapters' OR chapter_interval IS NOT NULL)
+);
+
+ALTER TABLE public.auto_book_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Story members can view auto book rules" ON public.auto_book_rules;
+CREATE POLICY "Story members can view auto book rules"
+  ON public.auto_book_rules FOR SELECT
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+DROP POLICY IF EXISTS "Story members can create auto book rules" ON public.auto_book_rules;
+CREATE POLICY "Story members can create auto book rules"
+  ON public.auto_book_rules FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND (public.is_member_of_story(story_id) OR public.is_story_creator(story_id))
+  );
+
+DROP POLICY IF EXISTS "Story members can update auto book rules" ON public.auto_book_rules;
+CREATE POLICY "Story members can update auto book rules"
+  ON public.auto_book_rules FOR UPDATE
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id))
+  WITH CHECK (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+-- Members only edit the settings. The story, the author and the last
+-- milestone stay as they are; the milestone triggers run as the function
+-- owner and are the only ones that move last_triggered_chapter_count.
+CREATE OR REPLACE FUNCTION public.guard_auto_book_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND (
+    NEW.story_id IS DISTINCT FROM OLD.story_id
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.last_triggered_chapter_count IS DISTINCT FROM OLD.last_triggered_chapter_count
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  ) THEN
+    RAISE EXCEPTION 'Only the settings of an auto book rule can be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_auto_book_rules ON public.auto_book_rules;
+CREATE TRIGGER guard_auto_book_rules
+  BEFORE UPDATE ON public.auto_book_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_auto_book_rules();
+
+DROP POLICY IF EXISTS "Story members can delete auto book rules" ON public.auto_book_rules;
+CREATE POLICY "Story members can delete auto book rules"
+  ON public.auto_book_rules FOR DELETE
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+-- Milestone jobs are queued by the database, not by a person pressing export
+ALTER TABLE public.export_jobs
+  ADD COLUMN IF NOT EXISTS trigger TEXT NOT NULL DEFAULT 'manual' CHECK (trigger IN ('manual', 'milestone')),
+  ADD COLUMN IF NOT EXISTS rule_id UUID NULL REFERENCES public.auto_book_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS milestone_title TEXT NULL;
+
+-- Both partners can see (and download) milestone books
+DROP POLICY IF EXISTS "Users can view their export jobs" ON public.export_jobs;
+CREATE POLICY "Users can view their export jobs"
+  ON public.export_jobs FOR SELECT
+  USING (
+    requested_by = auth.uid()
+    OR (trigger = 'milestone' AND (public.is_member_of_story(story_id) OR public.is_story_creator(story_id)))
+  );
+
+DROP POLICY IF EXISTS "Story members can request exports" ON public.export_jobs;
+CREATE POLICY "Story members can request exports"
+  ON public.export_jobs FOR INSERT
+  WITH CHECK (
+    requested_by = auth.uid()
+    AND trigger = 'manual'
+    AND rule_id IS NULL
+    AND status = 'pending'
+    AND progress = 0
+    AND tokens_charged = 0
+    AND storage_path IS NULL
+    AND download_url IS NULL
+    AND (public.is_member_of_story(story_id) OR public.is_story_creator(story_id))
+  );
+
+-- Start the export-worker for a job. Needs pg_net, the worker URL in
+-- app.settings.export_worker_url and the worker's EXPORT_WORKER_SECRET in
+-- app.settings.export_worker_secret; without them the job waits until the
+-- worker is called for it. The secret is what lets the call name the job's
+-- owner instead of sending a session token.
+CREATE OR REPLACE FUNCTION public.dispatch_export_job(p_job_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_url TEXT := current_setting('app.settings.export_worker_url', true);
+  v_secret TEXT := current_setting('app.settings.export_worker_secret', true);
+  v_requested_by UUID;
+BEGIN
+  IF v_url IS NULL OR v_url = '' OR v_secret IS NULL OR v_secret = ''
+    OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    RETURN;
+  END IF;
+
+  SELECT requested_by INTO v_requested_by FROM public.export_jobs WHERE id = p_job_id;
+
+  PERFORM net.http_post(
+    url := v_url,
+    body := jsonb_build_object('jobId', p_job_id, 'userId', v_requested_by),
+    headers := jsonb_build_object('Content-Type', 'application/json', 'x-export-worker-secret', v_secret)
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Never block the chapter or story write that reached the milestone
+    RAISE NOTICE 'Could not dispatch export job %: %', p_job_id, SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.queue_milestone_book(
+  p_rule public.auto_book_rules,
+  p_milestone_title TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_job_id UUID;
+BEGIN
+  INSERT INTO public.export_jobs (story_id, requested_by, format, options, trigger, rule_id, milestone_title)
+  VALUES (
+    p_rule.story_id,
+    p_rule.created_by,
+    p_rule.format,
+    jsonb_build_object('includeImages', p_rule.include_images, 'includeMetadata', true, 'includeInspiration', false),
+    'milestone',
+    p_rule.id,
+    p_milestone_title
+  )
+  RETURNING id INTO v_job_id;
+
+  PERFORM public.dispatch_export_job(v_job_id);
+  RETURN v_job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Every N chapters
+CREATE OR REPLACE FUNCTION public.check_chapter_book_milestone()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_rule public.auto_book_rules;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_rule
+  FROM public.auto_book_rules
+  WHERE story_id = NEW.story_id
+    AND enabled
+    AND trigger_type = 'every_n_chapters'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM public.chapters WHERE story_id = NEW.story_id;
+
+  IF v_count % v_rule.chapter_interval = 0 AND v_count > v_rule.last_triggered_chapter_count THEN
+    UPDATE public.auto_book_rules
+    SET last_triggered_chapter_count = v_count, updated_at = NOW()
+    WHERE id = v_rule.id;
+
+    PERFORM public.queue_milestone_book(v_rule, v_count || ' chapters written together');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_check_chapter_book_milestone ON public.chapters;
+CREATE TRIGGER trg_check_chapter_book_milestone
+  AFTER INSERT ON public.chapters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_chapter_book_milestone();
+
+-- When the story is completed
+CREATE OR REPLACE FUNCTION public.check_story_completed_book_milestone()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_rule public.auto_book_rules;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_rule
+  FROM public.auto_book_rules
+  WHERE story_id = NEW.id
+    AND enabled
+    AND trigger_type = 'story_completed'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM public.chapters WHERE story_id = NEW.id;
+
+  -- Reopening and completing again only makes a new book if chapters were added
+  IF v_count > 0 AND v_count > v_rule.last_triggered_chapter_count THEN
+    UPDATE public.auto_book_rules
+    SET last_triggered_chapter_count = v_count, updated_at = NOW()
+    WHERE id = v_rule.id;
+
+    PERFORM public.queue_milestone_book(v_rule, '"' || NEW.title || '" is complete');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_check_story_completed_book_milestone ON public.stories;
+CREATE TRIGGER trg_check_story_completed_book_milestone
+  AFTER UPDATE OF status ON public.stories
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION public.check_story_completed_book_milestone();
+
+REVOKE EXECUTE ON FUNCTION public.guard_auto_book_rules FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.auto_book_rules IS 'Per-story rule that exports a book automatically every N chapters or when the story is completed';
+COMMENT ON FUNCTION public.guard_auto_book_rules IS 'Rejects direct updates to an auto book rule''s story, author and milestone history; members may only change its settings';
+COMMENT ON FUNCTION public.dispatch_export_job IS 'Calls the export-worker for a job through pg_net, signed with app.settings.export_worker_secret, when the worker URL and secret are set';
@@ -0,0 +1,53 @@
+-- Woven inspirations
+-- The Plot Weaver turns inspirations into plot hooks. Once a chapter uses
+-- one, the inspiration is marked as woven in and links to that chapter.
+
+ALTER TABLE public.inspirations
+  ADD COLUMN IF NOT EXISTS woven_chapter_id UUID NULL REFERENCES public.chapters(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS woven_at TIMESTAMPTZ NULL,
+  ADD COLUMN IF NOT EXISTS woven_by UUID NULL REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inspirations_unwoven ON public.inspirations(story_id, created_at) WHERE woven_chapter_id IS NULL;
+
+COMMENT ON COLUMN public.inspirations.woven_chapter_id IS 'Chapter that wove this inspiration into the story; NULL while unused';
+
+-- Inspirations belong to whoever added them, but either partner can weave
+-- them into a chapter, so they are marked through this function.
+CREATE OR REPLACE FUNCTION public.mark_inspirations_woven(
+  p_chapter_id UUID,
+  p_inspiration_ids UUID[]
+) RETURNS JSON AS $$
+DECLARE
+  v_story_id UUID;
+  v_author_id UUID;
+  v_count INTEGER;
+BEGIN
+  SELECT story_id, author_id INTO v_story_id, v_author_id
+  FROM public.chapters
+  WHERE id = p_chapter_id;
+
+  IF v_story_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Chapter not found');
+  END IF;
+
+  IF v_author_id <> auth.uid() THEN
+    RETURN json_build_object('success', false, 'error', 'Only the chapter author can weave inspirations into it');
+  END IF;
+
+  UPDATE public.inspirations
+  SET woven_chapter_id = p_chapter_id,
+      woven_at = NOW(),
+      woven_by = auth.uid()
+  WHERE id = ANY(p_inspiration_ids)
+    AND story_id = v_story_id
+    AND woven_chapter_id IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN json_build_object('success', true, 'woven', v_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.mark_inspirations_woven(UUID, UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION public.mark_inspirations_woven IS 'Links inspirations to the chapter that used them. Only the chapter author can call it, and only for inspirations of the same story that are not woven in yet.';
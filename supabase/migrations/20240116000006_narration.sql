@@ -0,0 +1,83 @@
+-- Narration
+-- Chapters can be read aloud by the narrate-chapter edge function. Each story
+-- picks a voice per partner (used for the chapters they wrote) and per
+-- character (used for their dialogue). Generated audio is stored in the media
+-- bucket and registered in chapter_media as 'audio' rows, so unchanged text is
+-- never synthesized twice.
+
+CREATE TABLE IF NOT EXISTS public.story_voices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  speaker_type TEXT NOT NULL CHECK (speaker_type IN ('narrator', 'partner', 'character')),
+  speaker_id UUID NULL, -- Profile id for partners, story_characters id for characters, NULL for the narrator
+  provider TEXT NOT NULL,
+  voice_id TEXT NOT NULL,
+  speaking_rate NUMERIC(3,2) NOT NULL DEFAULT 1.0 CHECK (speaking_rate BETWEEN 0.5 AND 2.0),
+  updated_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((speaker_type = 'narrator') = (speaker_id IS NULL))
+);
+
+-- One voice per speaker; the narrator has no speaker_id
+CREATE UNIQUE INDEX IF NOT EXISTS idx_story_voices_speaker
+  ON public.story_voices(story_id, speaker_type, COALESCE(speaker_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE public.story_voices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Story members can view voices" ON public.story_voices;
+CREATE POLICY "Story members can view voices"
+  ON public.story_voices FOR SELECT
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+DROP POLICY IF EXISTS "Story members can choose voices" ON public.story_voices;
+CREATE POLICY "Story members can choose voices"
+  ON public.story_voices FOR INSERT
+  WITH CHECK (
+    updated_by = auth.uid()
+    AND (public.is_member_of_story(story_id) OR public.is_story_creator(story_id))
+  );
+
+DROP POLICY IF EXISTS "Story members can change voices" ON public.story_voices;
+CREATE POLICY "Story members can change voices"
+  ON public.story_voices FOR UPDATE
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id))
+  WITH CHECK (updated_by = auth.uid());
+
+DROP POLICY IF EXISTS "Story members can reset voices" ON public.story_voices;
+CREATE POLICY "Story members can reset voices"
+  ON public.story_voices FOR DELETE
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+-- A narrated chapter: the ordered audio segments for one version of the text
+-- and one set of voices. content_hash changes when either does.
+CREATE TABLE IF NOT EXISTS public.chapter_narrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chapter_id UUID NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  content_hash TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{media_id, storage_path, speaker_type, speaker_id, voice_id, duration_ms}]
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  requested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (chapter_id, content_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_narrations_story_id ON public.chapter_narrations(story_id, created_at DESC);
+
+-- Audio segments are looked up by their cache key before synthesizing
+CREATE INDEX IF NOT EXISTS idx_chapter_media_narration_key
+  ON public.chapter_media(chapter_id, (metadata->>'narration_key'))
+  WHERE media_type = 'audio';
+
+-- Only the edge function (service role) writes narrations
+ALTER TABLE public.chapter_narrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Story members can view narrations" ON public.chapter_narrations;
+CREATE POLICY "Story members can view narrations"
+  ON public.chapter_narrations FOR SELECT
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+COMMENT ON TABLE public.story_voices IS 'Narration voice per story for the narrator, each partner and each character';
+COMMENT ON TABLE public.chapter_narrations IS 'Narrated chapters. Segments point at chapter_media audio rows created by the narrate-chapter edge function.';
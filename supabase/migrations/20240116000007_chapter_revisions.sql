@@ -0,0 +1,138 @@
+-- Chapter revisions
+-- Every version of a chapter's text is kept. A trigger records the new text
+-- whenever a chapter is created or its content changes, so edits made from
+-- any client (or the SQL editor) end up in the history. Authors can restore
+-- an earlier revision, which is itself recorded as a new revision.
+
+CREATE TABLE IF NOT EXISTS public.chapter_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chapter_id UUID NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  ai_enhanced_content TEXT NULL,
+  context_snippet TEXT NULL,
+  reason TEXT NOT NULL DEFAULT 'edited' CHECK (reason IN ('created', 'edited', 'restored')),
+  restored_from UUID NULL REFERENCES public.chapter_revisions(id) ON DELETE SET NULL,
+  edited_by UUID NULL REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (chapter_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_revisions_chapter_id ON public.chapter_revisions(chapter_id, revision_number DESC);
+
+-- Written only by the trigger below; members can read their story's history
+ALTER TABLE public.chapter_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Story members can view chapter revisions" ON public.chapter_revisions;
+CREATE POLICY "Story members can view chapter revisions"
+  ON public.chapter_revisions FOR SELECT
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+-- Records the chapter's text after an insert or a content change.
+-- restore_chapter_revision marks its update through app.revision_* settings.
+CREATE OR REPLACE FUNCTION public.record_chapter_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_next INTEGER;
+  v_reason TEXT;
+  v_restored_from UUID;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.ai_enhanced_content IS NOT DISTINCT FROM OLD.ai_enhanced_content THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO v_next
+  FROM public.chapter_revisions
+  WHERE chapter_id = NEW.id;
+
+  IF TG_OP = 'INSERT' THEN
+    v_reason := 'created';
+  ELSE
+    v_reason := COALESCE(NULLIF(current_setting('app.revision_reason', true), ''), 'edited');
+    v_restored_from := NULLIF(current_setting('app.revision_restored_from', true), '')::UUID;
+  END IF;
+
+  INSERT INTO public.chapter_revisions (
+    chapter_id, story_id, revision_number, content, ai_enhanced_content,
+    context_snippet, reason, restored_from, edited_by
+  ) VALUES (
+    NEW.id, NEW.story_id, v_next, NEW.content, NEW.ai_enhanced_content,
+    NEW.context_snippet, v_reason, v_restored_from, COALESCE(auth.uid(), NEW.author_id)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_record_chapter_revision ON public.chapters;
+CREATE TRIGGER trg_record_chapter_revision
+  AFTER INSERT OR UPDATE OF content, ai_enhanced_content ON public.chapters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_chapter_revision();
+
+-- Existing chapters start their history with the text they have now
+INSERT INTO public.chapter_revisions (
+  chapter_id, story_id, revision_number, content, ai_enhanced_content,
+  context_snippet, reason, edited_by, created_at
+)
+SELECT c.id, c.story_id, 1, c.content, c.ai_enhanced_content,
+  c.context_snippet, 'created', c.author_id, c.created_at
+FROM public.chapters c
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.chapter_revisions r WHERE r.chapter_id = c.id
+);
+
+-- Puts an earlier revision's text back on the chapter. The trigger records it
+-- as a new 'restored' revision, so nothing in the history is lost.
+CREATE OR REPLACE FUNCTION public.restore_chapter_revision(
+  p_revision_id UUID
+) RETURNS JSON AS $$
+DECLARE
+  v_revision public.chapter_revisions;
+  v_author_id UUID;
+  v_new_revision INTEGER;
+BEGIN
+  SELECT * INTO v_revision FROM public.chapter_revisions WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Revision not found');
+  END IF;
+
+  SELECT author_id INTO v_author_id FROM public.chapters WHERE id = v_revision.chapter_id FOR UPDATE;
+
+  IF v_author_id IS DISTINCT FROM auth.uid() THEN
+    RETURN json_build_object('success', false, 'error', 'Only the chapter author can restore a revision');
+  END IF;
+
+  PERFORM set_config('app.revision_reason', 'restored', true);
+  PERFORM set_config('app.revision_restored_from', v_revision.id::TEXT, true);
+
+  UPDATE public.chapters
+  SET content = v_revision.content,
+      ai_enhanced_content = v_revision.ai_enhanced_content,
+      context_snippet = v_revision.context_snippet
+  WHERE id = v_revision.chapter_id;
+
+  PERFORM set_config('app.revision_reason', '', true);
+  PERFORM set_config('app.revision_restored_from', '', true);
+
+  SELECT MAX(revision_number) INTO v_new_revision
+  FROM public.chapter_revisions
+  WHERE chapter_id = v_revision.chapter_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'chapter_id', v_revision.chapter_id,
+    'revision_number', v_new_revision
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT SELECT ON public.chapter_revisions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_chapter_revision(UUID) TO authenticated;
+
+COMMENT ON TABLE public.chapter_revisions IS 'Every version of every chapter, written by trg_record_chapter_revision';
+COMMENT ON FUNCTION public.restore_chapter_revision IS 'Restores an earlier revision of a chapter. Only the chapter author can call it; the restore is recorded as a new revision.';
@@ -0,0 +1,607 @@
+-- Token ledger
+-- Every earn, spend, gift and refund is one row in token_transactions, written
+-- by apply_token_transaction while it holds a lock on the user's account. A
+-- user's balance is the sum of their rows; user_tokens.balance is a copy of
+-- that sum for fast reads. Clients can no longer write either table: they
+-- spend through spend_tokens, and earn through the functions below that check
+-- why the tokens are owed. Edge functions charge with the service role.
+--
+-- Each write may carry an idempotency key. Repeating a write with a key that
+-- was already used returns the first result instead of charging again, so a
+-- retried request is safe. The repeat must be the same write: a key used
+-- with another amount or feature is refused.
+
+-- user_tokens grew two shapes over time (available_tokens here, balance in
+-- the referral functions and the clients). balance is the one that stays.
+ALTER TABLE public.user_tokens
+  ADD COLUMN IF NOT EXISTS balance INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS purchased_total INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_earned_at TIMESTAMPTZ NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_tokens_user_id_unique ON public.user_tokens(user_id);
+
+ALTER TABLE public.token_transactions
+  ADD COLUMN IF NOT EXISTS type TEXT NULL,
+  ADD COLUMN IF NOT EXISTS feature_type TEXT NULL,
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT NULL,
+  ADD COLUMN IF NOT EXISTS reverses_id UUID NULL REFERENCES public.token_transactions(id) ON DELETE SET NULL;
+
+-- Ledger rows are signed (spends are negative) and no longer split by token type
+ALTER TABLE public.token_transactions
+  ALTER COLUMN token_type DROP NOT NULL,
+  ALTER COLUMN balance_before DROP NOT NULL,
+  ALTER COLUMN balance_after DROP NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_token_transactions_idempotency
+  ON public.token_transactions(user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- A transaction can be refunded once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_token_transactions_reverses
+  ON public.token_transactions(reverses_id)
+  WHERE reverses_id IS NOT NULL;
+
+-- What a paid AI call answered, by the spend that paid for it. A retry with
+-- the same idempotency key gets this back instead of running the call again
+-- for free. The spend may be in either ledger (a couple wallet pays from its
+-- own), so there is no foreign key. Server only.
+CREATE TABLE IF NOT EXISTS public.token_call_results (
+  transaction_id UUID PRIMARY KEY,
+  response JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.token_call_results ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.token_call_results FROM authenticated, anon;
+
+-- The balance, derived from the ledger. Runs as the caller, so users only
+-- see their own.
+CREATE OR REPLACE FUNCTION public.token_balance(p_user_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(amount), 0)::INTEGER
+  FROM public.token_transactions
+  WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
+
+-- Older rows stored spends as positive amounts, so their sum is not the
+-- balance. One opening entry per user makes the ledger add up to what they
+-- hold today.
+INSERT INTO public.token_transactions (
+  user_id, amount, type, description, idempotency_key, balance_before, balance_after
+)
+SELECT ut.user_id,
+  ut.available_tokens - public.token_balance(ut.user_id),
+  'adjustment',
+  'Opening balance',
+  'opening-balance',
+  public.token_balance(ut.user_id),
+  ut.available_tokens
+FROM public.user_tokens ut
+WHERE ut.available_tokens <> public.token_balance(ut.user_id)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.token_transactions t
+    WHERE t.user_id = ut.user_id AND t.idempotency_key = 'opening-balance'
+  );
+
+UPDATE public.user_tokens SET balance = public.token_balance(user_id);
+
+-- The only function that writes the ledger. Positive amounts add tokens,
+-- negative amounts take them away; the balance never goes below zero.
+-- Returns the existing transaction when the idempotency key was used before.
+CREATE OR REPLACE FUNCTION public.apply_token_transaction(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_type TEXT,
+  p_description TEXT,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_feature_type TEXT DEFAULT NULL,
+  p_story_id UUID DEFAULT NULL,
+  p_chapter_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL,
+  p_reverses_id UUID DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_balance INTEGER;
+  v_existing public.token_transactions;
+  v_transaction_id UUID;
+BEGIN
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must not be zero');
+  END IF;
+
+  IF p_type NOT IN ('earn', 'spend', 'gift', 'purchase', 'bonus', 'refund', 'adjustment') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid transaction type');
+  END IF;
+
+  IF p_type = 'spend' AND p_amount > 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Spends must be negative');
+  END IF;
+
+  -- Every write for a user waits on this row, so balance checks cannot race
+  INSERT INTO public.user_tokens (user_id) VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  PERFORM 1 FROM public.user_tokens WHERE user_id = p_user_id FOR UPDATE;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM public.token_transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    -- A key names one transaction. Sent again for another amount or feature
+    -- it is refused, so a spend cannot take a key the server charges under
+    -- and pass for that charge.
+    IF FOUND AND (
+      v_existing.amount IS DISTINCT FROM p_amount
+      OR v_existing.type IS DISTINCT FROM p_type
+      OR v_existing.feature_type IS DISTINCT FROM p_feature_type
+    ) THEN
+      RETURN json_build_object(
+        'success', false,
+        'error', 'This idempotency key was already used for a different transaction',
+        'replayed', true
+      );
+    END IF;
+
+    IF FOUND THEN
+      RETURN json_build_object(
+        'success', true,
+        'transaction_id', v_existing.id,
+        'amount', v_existing.amount,
+        'balance', public.token_balance(p_user_id),
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  v_balance := public.token_balance(p_user_id);
+
+  IF v_balance + p_amount < 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Insufficient tokens. Required: ' || ABS(p_amount) || ', Available: ' || v_balance,
+      'balance', v_balance
+    );
+  END IF;
+
+  INSERT INTO public.token_transactions (
+    user_id, amount, type, feature_type, description, balance_before, balance_after,
+    idempotency_key, reverses_id, story_id, chapter_id, metadata
+  ) VALUES (
+    p_user_id, p_amount, p_type, p_feature_type, p_description, v_balance, v_balance + p_amount,
+    p_idempotency_key, p_reverses_id, p_story_id, p_chapter_id, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.user_tokens
+  SET balance = v_balance + p_amount,
+      purchased_total = purchased_total + CASE WHEN p_type = 'purchase' THEN p_amount ELSE 0 END,
+      last_earned_at = CASE WHEN p_amount > 0 THEN NOW() ELSE last_earned_at END,
+      updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', p_amount,
+    'balance', v_balance + p_amount,
+    'replayed', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Spends the caller's own tokens. Edge functions call it with the service
+-- role to charge for AI work on behalf of a user.
+DROP FUNCTION IF EXISTS public.spend_tokens(UUID, INTEGER, TEXT, TEXT, UUID, UUID, JSONB);
+CREATE OR REPLACE FUNCTION public.spend_tokens(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_description TEXT,
+  p_feature_type TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_story_id UUID DEFAULT NULL,
+  p_chapter_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+) RETURNS JSON AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'You can only spend your own tokens');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  RETURN public.apply_token_transaction(
+    p_user_id, -p_amount, 'spend', p_description, p_idempotency_key,
+    p_feature_type, p_story_id, p_chapter_id, p_metadata
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Adds (or with a negative amount, removes) tokens. Server only: clients earn
+-- through redeem_gift_code, send_gift and redeem_referral_code, which check
+-- that the tokens are owed, and through the achievements they unlock.
+DROP FUNCTION IF EXISTS public.add_tokens(UUID, INT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION public.add_tokens(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_type TEXT,
+  p_description TEXT,
+  p_feature_type TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+) RETURNS JSON AS $$
+BEGIN
+  RETURN public.apply_token_transaction(
+    p_user_id, p_amount, p_type, p_description, p_idempotency_key,
+    p_feature_type, NULL, NULL, p_metadata
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Gives back the tokens of a spend, for work that failed after it was paid
+-- for. Refunding the same transaction twice returns the first refund.
+CREATE OR REPLACE FUNCTION public.refund_token_transaction(
+  p_transaction_id UUID,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_original public.token_transactions;
+BEGIN
+  SELECT * INTO v_original FROM public.token_transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  IF v_original.type IS DISTINCT FROM 'spend' THEN
+    RETURN json_build_object('success', false, 'error', 'Only spends can be refunded');
+  END IF;
+
+  RETURN public.apply_token_transaction(
+    v_original.user_id,
+    -v_original.amount,
+    'refund',
+    COALESCE(p_reason, 'Refund: ' || v_original.description),
+    'refund:' || v_original.id,
+    v_original.feature_type,
+    v_original.story_id,
+    v_original.chapter_id,
+    jsonb_build_object('refunded_transaction_id', v_original.id),
+    v_original.id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redeems a gift code for the caller
+CREATE OR REPLACE FUNCTION public.redeem_gift_code(
+  p_code TEXT
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_gift public.gift_codes;
+  v_result JSON;
+BEGIN
+  SELECT * INTO v_gift FROM public.gift_codes WHERE code = UPPER(p_code) FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid gift code');
+  END IF;
+
+  IF v_gift.redeemed THEN
+    RETURN json_build_object('success', false, 'error', 'This gift code has already been redeemed');
+  END IF;
+
+  IF v_gift.expires_at < NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'This gift code has expired');
+  END IF;
+
+  IF v_gift.purchaser_id = v_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'You cannot redeem your own gift code');
+  END IF;
+
+  v_result := public.apply_token_transaction(
+    v_user_id, v_gift.amount, 'gift', 'Redeemed gift code',
+    'gift-code:' || v_gift.id, 'gift_redemption', NULL, NULL,
+    jsonb_build_object('gift_code_id', v_gift.id, 'from_user_id', v_gift.purchaser_id)
+  );
+
+  IF NOT (v_result->>'success')::BOOLEAN THEN
+    RETURN v_result;
+  END IF;
+
+  UPDATE public.gift_codes
+  SET redeemed = TRUE, redeemed_by = v_user_id, redeemed_at = NOW()
+  WHERE id = v_gift.id;
+
+  RETURN json_build_object(
+    'success', true,
+    'amount', v_gift.amount,
+    'balance', v_result->'balance'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Moves tokens from the caller to another user in one transaction
+CREATE OR REPLACE FUNCTION public.send_gift(
+  p_to_user_id UUID,
+  p_amount INTEGER,
+  p_message TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_key TEXT := COALESCE(p_idempotency_key, gen_random_uuid()::TEXT);
+  v_sent JSON;
+  v_gift_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  IF p_to_user_id = v_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'You cannot send sparks to yourself');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_to_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient not found');
+  END IF;
+
+  v_sent := public.apply_token_transaction(
+    v_user_id, -p_amount, 'gift', 'Sent a gift', 'gift-sent:' || v_key, 'direct_gift', NULL, NULL,
+    jsonb_build_object('to_user_id', p_to_user_id)
+  );
+
+  IF NOT (v_sent->>'success')::BOOLEAN OR (v_sent->>'replayed')::BOOLEAN THEN
+    RETURN v_sent;
+  END IF;
+
+  INSERT INTO public.gifts (from_user_id, to_user_id, amount, message)
+  VALUES (v_user_id, p_to_user_id, p_amount, p_message)
+  RETURNING id INTO v_gift_id;
+
+  PERFORM public.apply_token_transaction(
+    p_to_user_id, p_amount, 'gift', 'Received a gift', 'gift-received:' || v_gift_id, 'direct_gift', NULL, NULL,
+    jsonb_build_object('from_user_id', v_user_id, 'gift_id', v_gift_id)
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'gift_id', v_gift_id,
+    'balance', v_sent->'balance'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redeems a friend's referral code for the caller and pays the bonus to both
+-- sides. The referral row is created here, not by the client, and each user
+-- can be referred once: the bonus is keyed by the referred user, so neither
+-- side can be paid twice for them.
+DROP FUNCTION IF EXISTS public.award_referral_bonus(UUID, INT);
+DROP FUNCTION IF EXISTS public.complete_referral(UUID);
+CREATE OR REPLACE FUNCTION public.redeem_referral_code(
+  p_code TEXT
+) RETURNS JSON AS $$
+DECLARE
+  c_bonus CONSTANT INTEGER := 50;
+  v_user_id UUID := auth.uid();
+  v_referrer_id UUID;
+  v_referral_id UUID;
+  v_result JSON;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Two redemptions by the same user wait on each other here
+  PERFORM 1 FROM public.profiles WHERE id = v_user_id FOR UPDATE;
+
+  SELECT id INTO v_referrer_id
+  FROM public.profiles
+  WHERE referral_code = UPPER(btrim(COALESCE(p_code, '')));
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Referral code not found');
+  END IF;
+
+  IF v_referrer_id = v_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'You cannot use your own referral code');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.referrals
+    WHERE referred_user_id = v_user_id AND status = 'completed'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'You have already used a referral code');
+  END IF;
+
+  INSERT INTO public.referrals (referrer_id, referred_user_id, referral_code, status, reward_amount, completed_at)
+  VALUES (v_referrer_id, v_user_id, UPPER(btrim(p_code)), 'completed', c_bonus, NOW())
+  ON CONFLICT (referrer_id, referred_user_id) DO UPDATE
+  SET status = 'completed', reward_amount = c_bonus, completed_at = NOW()
+  RETURNING id INTO v_referral_id;
+
+  v_result := public.apply_token_transaction(
+    v_user_id, c_bonus, 'bonus', 'Joined with a referral code',
+    'referral:' || v_user_id, 'referral', NULL, NULL,
+    jsonb_build_object('referral_id', v_referral_id)
+  );
+
+  IF NOT (v_result->>'success')::BOOLEAN THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  PERFORM public.apply_token_transaction(
+    v_referrer_id, c_bonus, 'bonus', 'A friend joined with your referral code',
+    'referral:' || v_user_id, 'referral', NULL, NULL,
+    jsonb_build_object('referral_id', v_referral_id)
+  );
+
+  UPDATE public.profiles
+  SET referred_by = v_referrer_id
+  WHERE id = v_user_id;
+
+  UPDATE public.profiles
+  SET referral_count = (
+    SELECT COUNT(*) FROM public.referrals
+    WHERE referrer_id = v_referrer_id AND status = 'completed'
+  )
+  WHERE id = v_referrer_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'amount', c_bonus,
+    'balance', v_result->'balance'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Referrals are only created by redeem_referral_code
+DROP POLICY IF EXISTS "Users can insert their own referrals" ON public.referrals;
+REVOKE INSERT, UPDATE, DELETE ON public.referrals FROM authenticated, anon;
+
+-- Achievement rewards are paid where achievements unlock: the chapter and
+-- streak triggers call check_and_unlock_achievements, which pays each
+-- achievement once. Clients can no longer write progress or unlocks, or call
+-- the unlock functions, so rewards follow work that was actually done.
+DROP FUNCTION IF EXISTS public.claim_achievement_reward(TEXT);
+
+CREATE OR REPLACE FUNCTION public.check_and_unlock_achievements(
+  p_user_id UUID,
+  p_condition_type TEXT,
+  p_condition_value INTEGER
+)
+RETURNS TABLE(unlocked_achievement_id UUID, unlocked_achievement_name TEXT, unlocked_points INTEGER) AS $$
+DECLARE
+  v_achievement RECORD;
+  v_progress INTEGER;
+  v_new_progress INTEGER;
+BEGIN
+  FOR v_achievement IN
+    SELECT ad.id, ad.name, ad.points, ad.rarity, ad.condition_value
+    FROM public.achievement_definitions ad
+    WHERE ad.condition_type = p_condition_type
+      AND NOT EXISTS (
+        SELECT 1 FROM public.user_achievements ua
+        WHERE ua.user_id = p_user_id AND ua.achievement_id = ad.id AND ua.is_unlocked
+      )
+  LOOP
+    SELECT COALESCE(ua.progress, 0) INTO v_progress
+    FROM public.user_achievements ua
+    WHERE ua.user_id = p_user_id AND ua.achievement_id = v_achievement.id;
+
+    v_new_progress := COALESCE(v_progress, 0) + p_condition_value;
+
+    INSERT INTO public.user_achievements (user_id, achievement_id, progress)
+    VALUES (p_user_id, v_achievement.id, v_new_progress)
+    ON CONFLICT (user_id, achievement_id)
+    DO UPDATE SET
+      progress = excluded.progress,
+      updated_at = NOW();
+
+    IF v_new_progress >= v_achievement.condition_value THEN
+      UPDATE public.user_achievements ua
+      SET is_unlocked = TRUE,
+          unlocked_at = NOW()
+      WHERE ua.user_id = p_user_id AND ua.achievement_id = v_achievement.id;
+
+      -- Rewards are fixed by rarity so the reward table stays small
+      PERFORM public.apply_token_transaction(
+        p_user_id,
+        CASE v_achievement.rarity
+          WHEN 'legendary' THEN 300
+          WHEN 'epic' THEN 200
+          WHEN 'rare' THEN 100
+          ELSE 50
+        END,
+        'earn', 'Achievement unlocked: ' || v_achievement.name,
+        'achievement:' || v_achievement.id, 'achievement', NULL, NULL,
+        jsonb_build_object('achievement_id', v_achievement.id)
+      );
+
+      RETURN QUERY SELECT v_achievement.id, v_achievement.name, v_achievement.points;
+    END IF;
+  END LOOP;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Users can update own achievements" ON public.user_achievements;
+
+REVOKE INSERT, UPDATE, DELETE ON public.user_achievements FROM authenticated, anon;
+REVOKE INSERT, UPDATE, DELETE ON public.achievement_definitions FROM authenticated, anon;
+
+-- New accounts start with 100 tokens, paid once through the ledger
+CREATE OR REPLACE FUNCTION public.grant_signup_tokens(
+  p_user_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM public.apply_token_transaction(
+    p_user_id, 100, 'bonus', 'Welcome bonus', 'welcome', 'signup'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.grant_signup_tokens_on_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.grant_signup_tokens(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_grant_signup_tokens ON public.profiles;
+CREATE TRIGGER trg_grant_signup_tokens
+  AFTER INSERT ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.grant_signup_tokens_on_profile();
+
+-- Users read their own account and ledger; nobody writes them directly
+ALTER TABLE public.user_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.token_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own tokens" ON public.user_tokens;
+CREATE POLICY "Users can view own tokens"
+  ON public.user_tokens FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own transactions" ON public.token_transactions;
+CREATE POLICY "Users can view own transactions"
+  ON public.token_transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own transactions" ON public.token_transactions;
+
+REVOKE INSERT, UPDATE, DELETE ON public.user_tokens FROM authenticated, anon;
+REVOKE INSERT, UPDATE, DELETE ON public.token_transactions FROM authenticated, anon;
+
+-- Functions are executable by everyone unless revoked
+REVOKE EXECUTE ON FUNCTION public.apply_token_transaction FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_tokens FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_token_transaction FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grant_signup_tokens FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_and_unlock_achievements FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.update_writing_streak FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.spend_tokens FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.token_balance FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.apply_token_transaction TO service_role;
+GRANT EXECUTE ON FUNCTION public.add_tokens TO service_role;
+GRANT EXECUTE ON FUNCTION public.refund_token_transaction TO service_role;
+GRANT EXECUTE ON FUNCTION public.spend_tokens TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.token_balance TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.redeem_gift_code TO authenticated;
+GRANT EXECUTE ON FUNCTION public.send_gift TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_referral_code TO authenticated;
+
+COMMENT ON FUNCTION public.apply_token_transaction IS 'Writes one ledger row under a lock on the user''s account. Idempotent per (user, idempotency key); a key sent again with another amount, type or feature is refused. Server only.';
+COMMENT ON FUNCTION public.spend_tokens IS 'Spends the caller''s tokens (any user''s with the service role). Returns {success, transaction_id, balance, replayed}.';
+COMMENT ON FUNCTION public.refund_token_transaction IS 'Reverses a spend once. Server only.';
+COMMENT ON FUNCTION public.token_balance IS 'A user''s balance: the sum of their ledger rows';
@@ -0,0 +1,56 @@
+-- Token statement
+-- A statement covers one period of the caller's ledger: the balance going in,
+-- the balance coming out, and every transaction in between. The client passes
+-- the period bounds so months follow the writer's own time zone; grouping by
+-- feature and source happens in the app.
+
+CREATE INDEX IF NOT EXISTS idx_token_transactions_user_created
+  ON public.token_transactions(user_id, created_at DESC);
+
+-- Runs as the caller, so RLS keeps it to their own ledger
+CREATE OR REPLACE FUNCTION public.get_token_statement(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_opening INTEGER;
+  v_closing INTEGER;
+  v_transactions JSON;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid statement period');
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0)::INTEGER INTO v_opening
+  FROM public.token_transactions
+  WHERE user_id = v_user_id AND created_at < p_from;
+
+  SELECT COALESCE(SUM(amount), 0)::INTEGER INTO v_closing
+  FROM public.token_transactions
+  WHERE user_id = v_user_id AND created_at < p_to;
+
+  SELECT COALESCE(json_agg(t ORDER BY t.created_at DESC), '[]'::json) INTO v_transactions
+  FROM (
+    SELECT id, user_id, amount, type, feature_type, description, story_id, chapter_id,
+      idempotency_key, reverses_id, metadata, created_at
+    FROM public.token_transactions
+    WHERE user_id = v_user_id AND created_at >= p_from AND created_at < p_to
+  ) t;
+
+  RETURN json_build_object(
+    'success', true,
+    'opening_balance', v_opening,
+    'closing_balance', v_closing,
+    'transactions', v_transactions
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.get_token_statement(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+
+COMMENT ON FUNCTION public.get_token_statement IS 'The caller''s ledger for [p_from, p_to): opening and closing balance plus the transactions, newest first';
@@ -0,0 +1,641 @@
+-- Couple wallets
+-- An opt-in token pool shared by the two partners of a relationship. One
+-- partner opens it and the other accepts; from then on both can move tokens
+-- in from their own balance. AI features used on a story both partners write
+-- in are paid from the pool first, within each partner's monthly cap, and
+-- fall back to the writer's own tokens when the pool cannot cover them.
+--
+-- When the relationship ends, or either partner closes the wallet, what is
+-- left goes back to the partners in proportion to what each put in.
+
+-- The app tracks a relationship as active, paused or ended
+ALTER TABLE public.relationships DROP CONSTRAINT IF EXISTS relationships_status_check;
+ALTER TABLE public.relationships ADD CONSTRAINT relationships_status_check
+  CHECK (status IN ('pending', 'accepted', 'declined', 'blocked', 'active', 'paused', 'ended'));
+
+CREATE TABLE IF NOT EXISTS public.couple_wallets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  relationship_id UUID NOT NULL REFERENCES public.relationships(id) ON DELETE CASCADE,
+  balance INTEGER NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'closed')),
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  activated_at TIMESTAMPTZ NULL,
+  closed_at TIMESTAMPTZ NULL
+);
+
+-- A relationship has at most one open wallet
+CREATE UNIQUE INDEX IF NOT EXISTS idx_couple_wallets_open_relationship
+  ON public.couple_wallets(relationship_id)
+  WHERE status <> 'closed';
+
+CREATE TABLE IF NOT EXISTS public.couple_wallet_members (
+  wallet_id UUID NOT NULL REFERENCES public.couple_wallets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  monthly_cap INTEGER NULL CHECK (monthly_cap IS NULL OR monthly_cap >= 0), -- NULL: no cap
+  contributed_total INTEGER NOT NULL DEFAULT 0,
+  joined_at TIMESTAMPTZ NULL, -- Set when the partner opts in
+  PRIMARY KEY (wallet_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_couple_wallet_members_user_id ON public.couple_wallet_members(user_id);
+
+-- Signed like the personal ledger: funding is positive, spends and the final
+-- split are negative
+CREATE TABLE IF NOT EXISTS public.couple_wallet_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_id UUID NOT NULL REFERENCES public.couple_wallets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('fund', 'spend', 'refund', 'split')),
+  feature_type TEXT NULL,
+  description TEXT NOT NULL,
+  story_id UUID NULL REFERENCES public.stories(id) ON DELETE SET NULL,
+  chapter_id UUID NULL REFERENCES public.chapters(id) ON DELETE SET NULL,
+  idempotency_key TEXT NULL,
+  reverses_id UUID NULL REFERENCES public.couple_wallet_transactions(id) ON DELETE SET NULL,
+  metadata JSONB NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_couple_wallet_transactions_wallet
+  ON public.couple_wallet_transactions(wallet_id, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_couple_wallet_transactions_idempotency
+  ON public.couple_wallet_transactions(wallet_id, user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_couple_wallet_transactions_reverses
+  ON public.couple_wallet_transactions(reverses_id)
+  WHERE reverses_id IS NOT NULL;
+
+-- SECURITY DEFINER so the policies below do not recurse through RLS
+CREATE OR REPLACE FUNCTION public.is_couple_wallet_member(p_wallet_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.couple_wallet_members
+    WHERE wallet_id = p_wallet_id AND user_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+ALTER TABLE public.couple_wallets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.couple_wallet_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.couple_wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Partners can view their couple wallet" ON public.couple_wallets;
+CREATE POLICY "Partners can view their couple wallet"
+  ON public.couple_wallets FOR SELECT
+  USING (public.is_couple_wallet_member(id));
+
+DROP POLICY IF EXISTS "Partners can view couple wallet members" ON public.couple_wallet_members;
+CREATE POLICY "Partners can view couple wallet members"
+  ON public.couple_wallet_members FOR SELECT
+  USING (public.is_couple_wallet_member(wallet_id));
+
+DROP POLICY IF EXISTS "Partners can view couple wallet history" ON public.couple_wallet_transactions;
+CREATE POLICY "Partners can view couple wallet history"
+  ON public.couple_wallet_transactions FOR SELECT
+  USING (public.is_couple_wallet_member(wallet_id));
+
+-- The active wallet that pays for p_user_id's AI work on a story, if any:
+-- both partners have to be writing the story
+CREATE OR REPLACE FUNCTION public.couple_wallet_for_story(
+  p_user_id UUID,
+  p_story_id UUID
+) RETURNS UUID AS $$
+  SELECT w.id
+  FROM public.couple_wallets w
+  JOIN public.relationships r ON r.id = w.relationship_id
+  WHERE w.status = 'active'
+    AND p_user_id IN (r.user_1, r.user_2)
+    AND EXISTS (
+      SELECT 1 FROM public.story_members sm
+      WHERE sm.story_id = p_story_id AND sm.user_id = r.user_1
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.story_members sm
+      WHERE sm.story_id = p_story_id AND sm.user_id = r.user_2
+    )
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Spends from the pool for one partner. Returns success false (without
+-- writing anything) when the pool or the partner's cap cannot cover it.
+CREATE OR REPLACE FUNCTION public.spend_from_couple_wallet(
+  p_wallet_id UUID,
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_description TEXT,
+  p_feature_type TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_story_id UUID DEFAULT NULL,
+  p_chapter_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_wallet public.couple_wallets;
+  v_member public.couple_wallet_members;
+  v_existing public.couple_wallet_transactions;
+  v_spent_this_month INTEGER;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_wallet FROM public.couple_wallets WHERE id = p_wallet_id FOR UPDATE;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM public.couple_wallet_transactions
+    WHERE wallet_id = p_wallet_id AND user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    -- The same key for another amount or feature is refused, as in the
+    -- personal ledger
+    IF FOUND AND (
+      v_existing.amount IS DISTINCT FROM -p_amount
+      OR v_existing.type IS DISTINCT FROM 'spend'
+      OR v_existing.feature_type IS DISTINCT FROM p_feature_type
+    ) THEN
+      RETURN json_build_object(
+        'success', false,
+        'error', 'This idempotency key was already used for a different transaction',
+        'replayed', true
+      );
+    END IF;
+
+    IF FOUND THEN
+      RETURN json_build_object(
+        'success', true,
+        'transaction_id', v_existing.id,
+        'amount', v_existing.amount,
+        'balance', public.token_balance(p_user_id),
+        'wallet_balance', v_wallet.balance,
+        'source', 'couple_wallet',
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF v_wallet.status IS DISTINCT FROM 'active' OR v_wallet.balance < p_amount THEN
+    RETURN json_build_object('success', false, 'error', 'The couple wallet cannot cover this');
+  END IF;
+
+  SELECT * INTO v_member
+  FROM public.couple_wallet_members
+  WHERE wallet_id = p_wallet_id AND user_id = p_user_id;
+
+  IF v_member.monthly_cap IS NOT NULL THEN
+    -- Refunds give cap room back
+    SELECT COALESCE(-SUM(amount), 0)::INTEGER INTO v_spent_this_month
+    FROM public.couple_wallet_transactions
+    WHERE wallet_id = p_wallet_id
+      AND user_id = p_user_id
+      AND type IN ('spend', 'refund')
+      AND created_at >= date_trunc('month', NOW());
+
+    IF v_spent_this_month + p_amount > v_member.monthly_cap THEN
+      RETURN json_build_object('success', false, 'error', 'Your monthly couple wallet cap is reached');
+    END IF;
+  END IF;
+
+  INSERT INTO public.couple_wallet_transactions (
+    wallet_id, user_id, amount, type, feature_type, description,
+    story_id, chapter_id, idempotency_key, metadata
+  ) VALUES (
+    p_wallet_id, p_user_id, -p_amount, 'spend', p_feature_type, p_description,
+    p_story_id, p_chapter_id, p_idempotency_key, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.couple_wallets SET balance = balance - p_amount WHERE id = p_wallet_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', -p_amount,
+    'balance', public.token_balance(p_user_id),
+    'wallet_balance', v_wallet.balance - p_amount,
+    'source', 'couple_wallet',
+    'replayed', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- spend_tokens now tries the couple wallet first for work on a couple's
+-- story. A retried key is answered from wherever the first spend went, and
+-- a key the wallet refuses as a different spend is not tried again on the
+-- writer's own balance.
+CREATE OR REPLACE FUNCTION public.spend_tokens(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_description TEXT,
+  p_feature_type TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_story_id UUID DEFAULT NULL,
+  p_chapter_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_wallet_id UUID;
+  v_result JSON;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'You can only spend your own tokens');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  IF p_story_id IS NOT NULL AND NOT (
+    p_idempotency_key IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.token_transactions
+      WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key
+    )
+  ) THEN
+    v_wallet_id := public.couple_wallet_for_story(p_user_id, p_story_id);
+
+    IF v_wallet_id IS NOT NULL THEN
+      v_result := public.spend_from_couple_wallet(
+        v_wallet_id, p_user_id, p_amount, p_description, p_feature_type,
+        p_idempotency_key, p_story_id, p_chapter_id, p_metadata
+      );
+
+      IF (v_result->>'success')::BOOLEAN OR COALESCE((v_result->>'replayed')::BOOLEAN, false) THEN
+        RETURN v_result;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN public.apply_token_transaction(
+    p_user_id, -p_amount, 'spend', p_description, p_idempotency_key,
+    p_feature_type, p_story_id, p_chapter_id, p_metadata
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refunds a spend from either the personal ledger or a couple wallet. A
+-- wallet spend is returned to the wallet, or to the partner once it closed.
+CREATE OR REPLACE FUNCTION public.refund_token_transaction(
+  p_transaction_id UUID,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_original public.token_transactions;
+  v_pool_spend public.couple_wallet_transactions;
+  v_wallet public.couple_wallets;
+  v_existing UUID;
+  v_refund_id UUID;
+BEGIN
+  SELECT * INTO v_original FROM public.token_transactions WHERE id = p_transaction_id;
+
+  IF FOUND THEN
+    IF v_original.type IS DISTINCT FROM 'spend' THEN
+      RETURN json_build_object('success', false, 'error', 'Only spends can be refunded');
+    END IF;
+
+    RETURN public.apply_token_transaction(
+      v_original.user_id,
+      -v_original.amount,
+      'refund',
+      COALESCE(p_reason, 'Refund: ' || v_original.description),
+      'refund:' || v_original.id,
+      v_original.feature_type,
+      v_original.story_id,
+      v_original.chapter_id,
+      jsonb_build_object('refunded_transaction_id', v_original.id),
+      v_original.id
+    );
+  END IF;
+
+  SELECT * INTO v_pool_spend FROM public.couple_wallet_transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  IF v_pool_spend.type <> 'spend' THEN
+    RETURN json_build_object('success', false, 'error', 'Only spends can be refunded');
+  END IF;
+
+  SELECT * INTO v_wallet FROM public.couple_wallets WHERE id = v_pool_spend.wallet_id FOR UPDATE;
+
+  SELECT id INTO v_existing FROM public.couple_wallet_transactions WHERE reverses_id = v_pool_spend.id;
+  IF FOUND THEN
+    RETURN json_build_object('success', true, 'transaction_id', v_existing, 'replayed', true);
+  END IF;
+
+  IF v_wallet.status = 'closed' THEN
+    RETURN public.apply_token_transaction(
+      v_pool_spend.user_id,
+      -v_pool_spend.amount,
+      'refund',
+      COALESCE(p_reason, 'Refund: ' || v_pool_spend.description),
+      'refund:' || v_pool_spend.id,
+      v_pool_spend.feature_type,
+      v_pool_spend.story_id,
+      v_pool_spend.chapter_id,
+      jsonb_build_object('refunded_wallet_transaction_id', v_pool_spend.id)
+    );
+  END IF;
+
+  INSERT INTO public.couple_wallet_transactions (
+    wallet_id, user_id, amount, type, feature_type, description,
+    story_id, chapter_id, idempotency_key, reverses_id
+  ) VALUES (
+    v_pool_spend.wallet_id, v_pool_spend.user_id, -v_pool_spend.amount, 'refund',
+    v_pool_spend.feature_type, COALESCE(p_reason, 'Refund: ' || v_pool_spend.description),
+    v_pool_spend.story_id, v_pool_spend.chapter_id, 'refund:' || v_pool_spend.id, v_pool_spend.id
+  )
+  RETURNING id INTO v_refund_id;
+
+  UPDATE public.couple_wallets SET balance = balance - v_pool_spend.amount WHERE id = v_wallet.id;
+
+  RETURN json_build_object(
+    'success', true,
+    'transaction_id', v_refund_id,
+    'wallet_balance', v_wallet.balance - v_pool_spend.amount,
+    'source', 'couple_wallet',
+    'replayed', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Returns what is left to the partners, in proportion to what each put in
+-- (evenly if nobody did), and closes the wallet. The last partner in the
+-- loop gets the rounding remainder.
+CREATE OR REPLACE FUNCTION public.split_couple_wallet(
+  p_wallet_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_wallet public.couple_wallets;
+  v_member public.couple_wallet_members;
+  v_total_contributed INTEGER;
+  v_member_count INTEGER;
+  v_index INTEGER := 0;
+  v_left INTEGER;
+  v_share INTEGER;
+BEGIN
+  SELECT * INTO v_wallet FROM public.couple_wallets WHERE id = p_wallet_id FOR UPDATE;
+
+  IF NOT FOUND OR v_wallet.status = 'closed' THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(GREATEST(contributed_total, 0)), 0), COUNT(*)
+  INTO v_total_contributed, v_member_count
+  FROM public.couple_wallet_members
+  WHERE wallet_id = p_wallet_id;
+
+  v_left := v_wallet.balance;
+
+  FOR v_member IN
+    SELECT * FROM public.couple_wallet_members
+    WHERE wallet_id = p_wallet_id
+    ORDER BY joined_at NULLS LAST, user_id
+  LOOP
+    v_index := v_index + 1;
+
+    IF v_index = v_member_count THEN
+      v_share := v_left;
+    ELSIF v_total_contributed > 0 THEN
+      v_share := v_wallet.balance * GREATEST(v_member.contributed_total, 0) / v_total_contributed;
+    ELSE
+      v_share := v_wallet.balance / v_member_count;
+    END IF;
+
+    v_left := v_left - v_share;
+
+    IF v_share > 0 THEN
+      PERFORM public.apply_token_transaction(
+        v_member.user_id, v_share, 'refund', 'Your share of the couple wallet',
+        'couple-wallet-split:' || p_wallet_id, 'couple_wallet', NULL, NULL,
+        jsonb_build_object('wallet_id', p_wallet_id)
+      );
+
+      INSERT INTO public.couple_wallet_transactions (wallet_id, user_id, amount, type, description)
+      VALUES (p_wallet_id, v_member.user_id, -v_share, 'split', 'Share returned when the wallet closed');
+    END IF;
+  END LOOP;
+
+  UPDATE public.couple_wallets
+  SET balance = 0, status = 'closed', closed_at = NOW()
+  WHERE id = p_wallet_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Ending (or deleting) a relationship splits its wallet
+CREATE OR REPLACE FUNCTION public.split_couple_wallets_on_relationship_end()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_wallet_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' OR NEW.status IN ('ended', 'declined', 'blocked') THEN
+    FOR v_wallet_id IN
+      SELECT id FROM public.couple_wallets
+      WHERE relationship_id = OLD.id AND status <> 'closed'
+    LOOP
+      PERFORM public.split_couple_wallet(v_wallet_id);
+    END LOOP;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_split_couple_wallets_on_end ON public.relationships;
+CREATE TRIGGER trg_split_couple_wallets_on_end
+  AFTER UPDATE OF status ON public.relationships
+  FOR EACH ROW
+  EXECUTE FUNCTION public.split_couple_wallets_on_relationship_end();
+
+DROP TRIGGER IF EXISTS trg_split_couple_wallets_on_delete ON public.relationships;
+CREATE TRIGGER trg_split_couple_wallets_on_delete
+  BEFORE DELETE ON public.relationships
+  FOR EACH ROW
+  EXECUTE FUNCTION public.split_couple_wallets_on_relationship_end();
+
+-- Opens a wallet for the caller's relationship. It is active once the
+-- partner accepts.
+CREATE OR REPLACE FUNCTION public.create_couple_wallet(
+  p_relationship_id UUID
+) RETURNS JSON AS $$
+DECLARE
+  v_relationship public.relationships;
+  v_wallet_id UUID;
+BEGIN
+  SELECT * INTO v_relationship FROM public.relationships WHERE id = p_relationship_id;
+
+  IF NOT FOUND OR auth.uid() NOT IN (v_relationship.user_1, v_relationship.user_2) THEN
+    RETURN json_build_object('success', false, 'error', 'Relationship not found');
+  END IF;
+
+  IF v_relationship.status NOT IN ('accepted', 'active', 'paused') THEN
+    RETURN json_build_object('success', false, 'error', 'The relationship is not active');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.couple_wallets
+    WHERE relationship_id = p_relationship_id AND status <> 'closed'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'This relationship already has a couple wallet');
+  END IF;
+
+  INSERT INTO public.couple_wallets (relationship_id, created_by)
+  VALUES (p_relationship_id, auth.uid())
+  RETURNING id INTO v_wallet_id;
+
+  INSERT INTO public.couple_wallet_members (wallet_id, user_id, joined_at)
+  VALUES
+    (v_wallet_id, v_relationship.user_1, CASE WHEN v_relationship.user_1 = auth.uid() THEN NOW() END),
+    (v_wallet_id, v_relationship.user_2, CASE WHEN v_relationship.user_2 = auth.uid() THEN NOW() END);
+
+  RETURN json_build_object('success', true, 'wallet_id', v_wallet_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.accept_couple_wallet(
+  p_wallet_id UUID
+) RETURNS JSON AS $$
+BEGIN
+  UPDATE public.couple_wallet_members
+  SET joined_at = NOW()
+  WHERE wallet_id = p_wallet_id AND user_id = auth.uid() AND joined_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'No couple wallet invitation to accept');
+  END IF;
+
+  UPDATE public.couple_wallets
+  SET status = 'active', activated_at = NOW()
+  WHERE id = p_wallet_id
+    AND status = 'pending'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.couple_wallet_members
+      WHERE wallet_id = p_wallet_id AND joined_at IS NULL
+    );
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Moves tokens from the caller's balance into the pool
+CREATE OR REPLACE FUNCTION public.fund_couple_wallet(
+  p_wallet_id UUID,
+  p_amount INTEGER,
+  p_idempotency_key TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_key TEXT := COALESCE(p_idempotency_key, gen_random_uuid()::TEXT);
+  v_wallet public.couple_wallets;
+  v_spent JSON;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  IF NOT public.is_couple_wallet_member(p_wallet_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Couple wallet not found');
+  END IF;
+
+  SELECT * INTO v_wallet FROM public.couple_wallets WHERE id = p_wallet_id FOR UPDATE;
+
+  IF v_wallet.status <> 'active' THEN
+    RETURN json_build_object('success', false, 'error', 'The couple wallet is not active');
+  END IF;
+
+  v_spent := public.apply_token_transaction(
+    v_user_id, -p_amount, 'spend', 'Added to the couple wallet',
+    'couple-wallet-fund:' || v_key, 'couple_wallet', NULL, NULL,
+    jsonb_build_object('wallet_id', p_wallet_id)
+  );
+
+  IF NOT (v_spent->>'success')::BOOLEAN OR (v_spent->>'replayed')::BOOLEAN THEN
+    RETURN v_spent;
+  END IF;
+
+  INSERT INTO public.couple_wallet_transactions (wallet_id, user_id, amount, type, description, idempotency_key)
+  VALUES (p_wallet_id, v_user_id, p_amount, 'fund', 'Added tokens', 'fund:' || v_key);
+
+  UPDATE public.couple_wallets SET balance = balance + p_amount WHERE id = p_wallet_id;
+
+  UPDATE public.couple_wallet_members
+  SET contributed_total = contributed_total + p_amount
+  WHERE wallet_id = p_wallet_id AND user_id = v_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'balance', v_spent->'balance',
+    'wallet_balance', v_wallet.balance + p_amount
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Sets how much a partner may spend from the pool each month. Either
+-- partner can set either cap; NULL removes it.
+CREATE OR REPLACE FUNCTION public.set_couple_wallet_cap(
+  p_wallet_id UUID,
+  p_user_id UUID,
+  p_monthly_cap INTEGER
+) RETURNS JSON AS $$
+BEGIN
+  IF NOT public.is_couple_wallet_member(p_wallet_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Couple wallet not found');
+  END IF;
+
+  IF p_monthly_cap IS NOT NULL AND p_monthly_cap < 0 THEN
+    RETURN json_build_object('success', false, 'error', 'The cap cannot be negative');
+  END IF;
+
+  UPDATE public.couple_wallet_members
+  SET monthly_cap = p_monthly_cap
+  WHERE wallet_id = p_wallet_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Partner not found in this wallet');
+  END IF;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Either partner can leave the pool at any time; the balance is split
+CREATE OR REPLACE FUNCTION public.close_couple_wallet(
+  p_wallet_id UUID
+) RETURNS JSON AS $$
+BEGIN
+  IF NOT public.is_couple_wallet_member(p_wallet_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Couple wallet not found');
+  END IF;
+
+  PERFORM public.split_couple_wallet(p_wallet_id);
+
+  RETURN json_build_object('success', true, 'balance', public.token_balance(auth.uid()));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE INSERT, UPDATE, DELETE ON public.couple_wallets FROM authenticated, anon;
+REVOKE INSERT, UPDATE, DELETE ON public.couple_wallet_members FROM authenticated, anon;
+REVOKE INSERT, UPDATE, DELETE ON public.couple_wallet_transactions FROM authenticated, anon;
+GRANT SELECT ON public.couple_wallets TO authenticated;
+GRANT SELECT ON public.couple_wallet_members TO authenticated;
+GRANT SELECT ON public.couple_wallet_transactions TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.spend_from_couple_wallet FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.split_couple_wallet FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.couple_wallet_for_story FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_token_transaction FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.spend_tokens FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.refund_token_transaction TO service_role;
+GRANT EXECUTE ON FUNCTION public.spend_tokens TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.create_couple_wallet(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_couple_wallet(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.fund_couple_wallet(UUID, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_couple_wallet_cap(UUID, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_couple_wallet(UUID) TO authenticated;
+
+COMMENT ON TABLE public.couple_wallets IS 'Token pools shared by the two partners of a relationship';
+COMMENT ON TABLE public.couple_wallet_transactions IS 'Who put in and spent what from a couple wallet';
+COMMENT ON FUNCTION public.spend_tokens IS 'Spends the caller''s tokens (any user''s with the service role). Work on a couple''s story is paid from their couple wallet first. Returns {success, transaction_id, balance, replayed, source?}.';
+COMMENT ON FUNCTION public.split_couple_wallet IS 'Returns a couple wallet''s balance to the partners in proportion to their contributions and closes it';
@@ -0,0 +1,457 @@
+-- Entitlements
+-- What each plan unlocks is defined here and nowhere else. Edge functions
+-- ask check_entitlement before running a gated feature, the apps load
+-- get_entitlements and lock the same options in their UI, and the branch
+-- trigger below reads the same rows.
+--
+-- A writer is premium while they have a subscription whose period has not
+-- ended. Subscriptions are only written by the server: activate_subscription
+-- with the service role once a purchase is verified, or the stub provider on
+-- projects that set app.settings.stub_purchases to 'on' for testing.
+
+-- 1. Features and what each tier gets
+CREATE TABLE IF NOT EXISTS public.entitlement_features (
+  feature TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  -- Options only some tiers may use (art styles, voice packs). NULL means the
+  -- whole feature is gated.
+  gated_values TEXT[] NULL
+);
+
+-- A tier has a feature when it has a row here. quota NULL means unlimited.
+CREATE TABLE IF NOT EXISTS public.tier_entitlements (
+  tier TEXT NOT NULL CHECK (tier IN ('free', 'premium')),
+  feature TEXT NOT NULL REFERENCES public.entitlement_features(feature) ON DELETE CASCADE,
+  quota INTEGER NULL CHECK (quota IS NULL OR quota >= 0),
+  PRIMARY KEY (tier, feature)
+);
+
+INSERT INTO public.entitlement_features (feature, name, description, gated_values) VALUES
+  ('branches', 'Story branches', 'Chapters that end with choices, per story', NULL),
+  ('advanced_twists', 'Advanced twists', 'Twists planned across the whole story, with setups and payoffs', NULL),
+  ('voice_packs', 'Voice packs', 'Studio narration voices', ARRAY['studio']),
+  ('premium_art_styles', 'Premium art styles', 'Watercolor, comic book, anime and more for covers and characters',
+    ARRAY['digital painting', 'watercolor', 'comic book', 'abstract art', 'anime', 'fantasy']),
+  ('monthly_tokens', 'Monthly tokens', 'Tokens added at the start of every month', NULL)
+ON CONFLICT (feature) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  gated_values = EXCLUDED.gated_values;
+
+INSERT INTO public.tier_entitlements (tier, feature, quota) VALUES
+  ('free', 'branches', 3),
+  ('free', 'monthly_tokens', 50),
+  ('premium', 'branches', NULL),
+  ('premium', 'advanced_twists', NULL),
+  ('premium', 'voice_packs', NULL),
+  ('premium', 'premium_art_styles', NULL),
+  ('premium', 'monthly_tokens', 500)
+ON CONFLICT (tier, feature) DO UPDATE SET quota = EXCLUDED.quota;
+
+-- 2. Subscriptions
+CREATE TABLE IF NOT EXISTS public.subscription_products (
+  id TEXT PRIMARY KEY, -- The store product id
+  tier TEXT NOT NULL CHECK (tier IN ('premium')),
+  name TEXT NOT NULL,
+  billing_period INTERVAL NOT NULL
+);
+
+INSERT INTO public.subscription_products (id, tier, name, billing_period) VALUES
+  ('premium_monthly', 'premium', 'Premium Monthly', INTERVAL '1 month'),
+  ('premium_annual', 'premium', 'Premium Annual', INTERVAL '1 year')
+ON CONFLICT (id) DO UPDATE SET
+  tier = EXCLUDED.tier,
+  name = EXCLUDED.name,
+  billing_period = EXCLUDED.billing_period;
+
+CREATE TABLE IF NOT EXISTS public.subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  product_id TEXT NOT NULL REFERENCES public.subscription_products(id),
+  tier TEXT NOT NULL CHECK (tier IN ('premium')),
+  provider TEXT NOT NULL CHECK (provider IN ('stub', 'app_store', 'play_store')),
+  provider_transaction_id TEXT NOT NULL, -- The store's id for the subscription, kept across renewals
+  -- canceled: will not renew, but stays active until the period ends
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'canceled', 'expired', 'refunded')),
+  auto_renew BOOLEAN NOT NULL DEFAULT true,
+  current_period_start TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  current_period_end TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, provider_transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_period
+  ON public.subscriptions(user_id, current_period_end DESC);
+
+ALTER TABLE public.entitlement_features ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tier_entitlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subscription_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view entitlement features" ON public.entitlement_features;
+CREATE POLICY "Anyone can view entitlement features"
+  ON public.entitlement_features FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view tier entitlements" ON public.tier_entitlements;
+CREATE POLICY "Anyone can view tier entitlements"
+  ON public.tier_entitlements FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view subscription products" ON public.subscription_products;
+CREATE POLICY "Anyone can view subscription products"
+  ON public.subscription_products FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can view their own subscriptions" ON public.subscriptions;
+CREATE POLICY "Users can view their own subscriptions"
+  ON public.subscriptions FOR SELECT
+  USING (user_id = auth.uid());
+
+-- 3. Tier and entitlement checks
+CREATE OR REPLACE FUNCTION public.user_tier(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE WHEN EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = p_user_id
+      AND status IN ('active', 'canceled')
+      AND current_period_end > NOW()
+  ) THEN 'premium' ELSE 'free' END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- {allowed, tier, quota, error?}. A value outside a feature's gated_values is
+-- always allowed. No access check; callers go through check_entitlement.
+CREATE OR REPLACE FUNCTION public.entitlement_for(
+  p_user_id UUID,
+  p_feature TEXT,
+  p_value TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_tier TEXT := public.user_tier(p_user_id);
+  v_feature public.entitlement_features;
+  v_quota INTEGER;
+BEGIN
+  SELECT * INTO v_feature FROM public.entitlement_features WHERE feature = p_feature;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('allowed', false, 'tier', v_tier, 'error', 'Unknown feature: ' || p_feature);
+  END IF;
+
+  IF v_feature.gated_values IS NOT NULL AND (p_value IS NULL OR NOT p_value = ANY(v_feature.gated_values)) THEN
+    RETURN json_build_object('allowed', true, 'tier', v_tier, 'quota', NULL);
+  END IF;
+
+  SELECT quota INTO v_quota
+  FROM public.tier_entitlements
+  WHERE tier = v_tier AND feature = p_feature;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'allowed', false,
+      'tier', v_tier,
+      'error', v_feature.name || ' are part of Premium'
+    );
+  END IF;
+
+  RETURN json_build_object('allowed', true, 'tier', v_tier, 'quota', v_quota);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- For edge functions (service role) and for a user asking about themselves
+CREATE OR REPLACE FUNCTION public.check_entitlement(
+  p_user_id UUID,
+  p_feature TEXT,
+  p_value TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RETURN json_build_object('allowed', false, 'error', 'You can only check your own plan');
+  END IF;
+
+  RETURN public.entitlement_for(p_user_id, p_feature, p_value);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- The caller's tier, subscription and every feature with whether they have
+-- it, for the apps to gate their UI
+CREATE OR REPLACE FUNCTION public.get_entitlements()
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_tier TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  v_tier := public.user_tier(v_user_id);
+
+  RETURN json_build_object(
+    'success', true,
+    'tier', v_tier,
+    'subscription', (
+      SELECT row_to_json(s)
+      FROM public.subscriptions s
+      WHERE s.user_id = v_user_id
+        AND s.status IN ('active', 'canceled')
+        AND s.current_period_end > NOW()
+      ORDER BY s.current_period_end DESC
+      LIMIT 1
+    ),
+    'features', (
+      SELECT COALESCE(json_agg(json_build_object(
+        'feature', f.feature,
+        'name', f.name,
+        'description', f.description,
+        'gated_values', f.gated_values,
+        'granted', t.feature IS NOT NULL,
+        'quota', t.quota
+      ) ORDER BY f.feature), '[]'::json)
+      FROM public.entitlement_features f
+      LEFT JOIN public.tier_entitlements t ON t.feature = f.feature AND t.tier = v_tier
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 4. Branch points per story follow the author's branches quota. Checked when
+-- a chapter gets its first choice, so replacing choices never counts twice.
+CREATE OR REPLACE FUNCTION public.enforce_branch_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entitlement JSON;
+  v_quota INTEGER;
+BEGIN
+  IF NEW.created_by IS NULL OR EXISTS (
+    SELECT 1 FROM public.chapter_choices WHERE chapter_id = NEW.chapter_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  v_entitlement := public.entitlement_for(NEW.created_by, 'branches');
+  v_quota := (v_entitlement->>'quota')::INTEGER;
+
+  IF v_quota IS NOT NULL AND (
+    SELECT COUNT(DISTINCT chapter_id) FROM public.chapter_choices
+    WHERE story_id = NEW.story_id AND chapter_id <> NEW.chapter_id
+  ) >= v_quota THEN
+    RAISE EXCEPTION 'Free stories can branch % times. Premium unlocks unlimited branches', v_quota
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_enforce_branch_quota ON public.chapter_choices;
+CREATE TRIGGER trg_enforce_branch_quota
+  BEFORE INSERT ON public.chapter_choices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_branch_quota();
+
+-- 5. Monthly allowance
+-- Each writer gets their tier's monthly_tokens once a month, keyed by the
+-- month so a second run never pays twice.
+CREATE OR REPLACE FUNCTION public.grant_monthly_allowance(p_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_month DATE := DATE_TRUNC('month', NOW())::DATE;
+  v_allowance INTEGER;
+  v_granted INTEGER;
+BEGIN
+  v_allowance := COALESCE((public.entitlement_for(p_user_id, 'monthly_tokens')->>'quota')::INTEGER, 0);
+
+  -- What this month already paid, so an upgrade only adds the difference
+  SELECT COALESCE(SUM(amount), 0)::INTEGER INTO v_granted
+  FROM public.token_transactions
+  WHERE user_id = p_user_id
+    AND feature_type = 'allowance'
+    AND created_at >= v_month;
+
+  IF v_allowance > v_granted THEN
+    PERFORM public.apply_token_transaction(
+      p_user_id, v_allowance - v_granted, 'bonus', 'Monthly token allowance',
+      'allowance:' || to_char(v_month, 'YYYY-MM') || ':' || v_allowance, 'allowance'
+    );
+  END IF;
+
+  UPDATE public.user_tokens
+  SET monthly_allowance = GREATEST(v_allowance, v_granted),
+      last_monthly_reset = v_month,
+      updated_at = NOW()
+  WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs daily: lapses ended subscriptions (stub ones renew themselves), then
+-- pays this month's allowance to everyone who has not had it yet
+CREATE OR REPLACE FUNCTION public.reset_monthly_allowance()
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  UPDATE public.subscriptions s
+  SET current_period_start = s.current_period_end,
+      current_period_end = s.current_period_end + p.billing_period,
+      updated_at = NOW()
+  FROM public.subscription_products p
+  WHERE p.id = s.product_id
+    AND s.provider = 'stub'
+    AND s.status = 'active'
+    AND s.auto_renew
+    AND s.current_period_end <= NOW();
+
+  UPDATE public.subscriptions
+  SET status = 'expired', updated_at = NOW()
+  WHERE status IN ('active', 'canceled')
+    AND current_period_end <= NOW();
+
+  FOR v_user_id IN
+    SELECT user_id FROM public.user_tokens
+    WHERE last_monthly_reset < DATE_TRUNC('month', NOW())
+  LOOP
+    PERFORM public.grant_monthly_allowance(v_user_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('reset_monthly_allowance', '5 0 * * *', 'SELECT public.reset_monthly_allowance()');
+  ELSE
+    RAISE NOTICE 'pg_cron extension not available, skipping scheduled job creation';
+  END IF;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not schedule cron job: %', SQLERRM;
+END;
+$$;
+
+-- 6. Writing subscriptions
+-- Called with the service role once a store purchase or renewal is verified.
+-- The same store transaction updates its row instead of adding one.
+CREATE OR REPLACE FUNCTION public.activate_subscription(
+  p_user_id UUID,
+  p_product_id TEXT,
+  p_provider TEXT,
+  p_provider_transaction_id TEXT,
+  p_period_start TIMESTAMPTZ,
+  p_period_end TIMESTAMPTZ,
+  p_auto_renew BOOLEAN DEFAULT true
+) RETURNS JSON AS $$
+DECLARE
+  v_product public.subscription_products;
+  v_subscription public.subscriptions;
+BEGIN
+  SELECT * INTO v_product FROM public.subscription_products WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown product');
+  END IF;
+
+  INSERT INTO public.subscriptions (
+    user_id, product_id, tier, provider, provider_transaction_id,
+    status, auto_renew, current_period_start, current_period_end
+  ) VALUES (
+    p_user_id, p_product_id, v_product.tier, p_provider, p_provider_transaction_id,
+    'active', p_auto_renew, p_period_start, p_period_end
+  )
+  ON CONFLICT (provider, provider_transaction_id) DO UPDATE SET
+    product_id = EXCLUDED.product_id,
+    tier = EXCLUDED.tier,
+    status = 'active',
+    auto_renew = EXCLUDED.auto_renew,
+    current_period_start = EXCLUDED.current_period_start,
+    current_period_end = GREATEST(public.subscriptions.current_period_end, EXCLUDED.current_period_end),
+    updated_at = NOW()
+  WHERE public.subscriptions.user_id = EXCLUDED.user_id
+  RETURNING * INTO v_subscription;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'This purchase belongs to another account');
+  END IF;
+
+  -- Upgrading mid-month tops the allowance up to the new tier's
+  PERFORM public.grant_monthly_allowance(p_user_id);
+
+  RETURN json_build_object(
+    'success', true,
+    'subscription', row_to_json(v_subscription),
+    'tier', public.user_tier(p_user_id),
+    'balance', public.token_balance(p_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Stub provider for development and testing: subscribes the caller without a
+-- store. Refused unless app.settings.stub_purchases is 'on'.
+CREATE OR REPLACE FUNCTION public.stub_purchase_subscription(
+  p_product_id TEXT
+) RETURNS JSON AS $$
+DECLARE
+  v_product public.subscription_products;
+BEGIN
+  IF COALESCE(current_setting('app.settings.stub_purchases', true), '') <> 'on' THEN
+    RETURN json_build_object('success', false, 'error', 'Stub purchases are turned off');
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_product FROM public.subscription_products WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown product');
+  END IF;
+
+  RETURN public.activate_subscription(
+    auth.uid(), p_product_id, 'stub', 'stub:' || gen_random_uuid(),
+    NOW(), NOW() + v_product.billing_period, true
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Ends the caller's stub subscriptions right away, to test the free tier again
+CREATE OR REPLACE FUNCTION public.stub_cancel_subscription()
+RETURNS JSON AS $$
+BEGIN
+  IF COALESCE(current_setting('app.settings.stub_purchases', true), '') <> 'on' THEN
+    RETURN json_build_object('success', false, 'error', 'Stub purchases are turned off');
+  END IF;
+
+  UPDATE public.subscriptions
+  SET status = 'expired', auto_renew = false, current_period_end = NOW(), updated_at = NOW()
+  WHERE user_id = auth.uid()
+    AND provider = 'stub'
+    AND status IN ('active', 'canceled');
+
+  RETURN json_build_object('success', true, 'tier', public.user_tier(auth.uid()));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE INSERT, UPDATE, DELETE ON public.subscriptions FROM authenticated, anon;
+GRANT SELECT ON public.subscriptions TO authenticated;
+GRANT SELECT ON public.entitlement_features, public.tier_entitlements, public.subscription_products TO anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.entitlement_for FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grant_monthly_allowance FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reset_monthly_allowance FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.activate_subscription FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.user_tier FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.user_tier(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.check_entitlement(UUID, TEXT, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_entitlements() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.activate_subscription TO service_role;
+GRANT EXECUTE ON FUNCTION public.reset_monthly_allowance TO service_role;
+GRANT EXECUTE ON FUNCTION public.stub_purchase_subscription(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.stub_cancel_subscription() TO authenticated;
+
+COMMENT ON TABLE public.tier_entitlements IS 'What each tier unlocks. A missing row means the tier does not have the feature; quota NULL means unlimited';
+COMMENT ON FUNCTION public.check_entitlement IS 'Whether a user may use a feature (or one gated option of it). Returns {allowed, tier, quota, error?}';
+COMMENT ON FUNCTION public.activate_subscription IS 'Records a verified subscription purchase or renewal. Service role only';
+COMMENT ON FUNCTION public.reset_monthly_allowance IS 'Daily job: renews stub subscriptions, expires lapsed ones and pays monthly token allowances';
@@ -0,0 +1,361 @@
+-- Token purchases
+-- Buying a spark pack starts as a pending token_purchases row. The app then
+-- buys the pack from the store and hands the receipt to the verify-purchase
+-- edge function, which checks it with the store and only then credits the
+-- tokens through credit_token_purchase (service role). The credit is keyed by
+-- the purchase, so verifying the same receipt twice pays once.
+--
+-- When the store reports a refund or chargeback, reverse_token_purchase takes
+-- the tokens back through the ledger. Tokens the buyer already spent cannot
+-- be taken back; what is missing is kept on the purchase as the shortfall.
+
+-- 1. Packs
+-- What each store product is worth. The apps list the same packs, but only
+-- these rows decide how many tokens a verified purchase pays.
+CREATE TABLE IF NOT EXISTS public.token_packs (
+  id TEXT PRIMARY KEY, -- The store product id
+  name TEXT NOT NULL,
+  tokens INTEGER NOT NULL CHECK (tokens > 0),
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  active BOOLEAN NOT NULL DEFAULT true
+);
+
+INSERT INTO public.token_packs (id, name, tokens, price_cents, currency) VALUES
+  ('starter', 'Starter', 100, 99, 'USD'),
+  ('monthly', 'Monthly', 500, 399, 'USD'),
+  ('devoted', 'Devoted', 1200, 799, 'USD'),
+  ('eternal', 'Eternal', 3000, 1499, 'USD'),
+  ('annual', 'Annual', 15000, 4999, 'USD')
+ON CONFLICT (id) DO UPDATE SET
+  name = EXCLUDED.name,
+  tokens = EXCLUDED.tokens,
+  price_cents = EXCLUDED.price_cents,
+  currency = EXCLUDED.currency;
+
+-- 2. Purchases
+CREATE TABLE IF NOT EXISTS public.token_purchases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pack_id TEXT NOT NULL REFERENCES public.token_packs(id),
+  tokens INTEGER NOT NULL CHECK (tokens > 0), -- What the pack paid when it was bought
+  provider TEXT NOT NULL CHECK (provider IN ('stub', 'app_store', 'play_store')),
+  -- pending: waiting for a verified receipt
+  -- credited: verified and paid out
+  -- failed: the receipt was rejected, or the buyer backed out of the store
+  -- refunded / charged_back: the store gave the money back; the tokens were reversed
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'credited', 'failed', 'refunded', 'charged_back')),
+  provider_transaction_id TEXT NULL, -- The store's id for the purchase, set once verified
+  transaction_id UUID NULL REFERENCES public.token_transactions(id) ON DELETE SET NULL,
+  reversal_transaction_id UUID NULL REFERENCES public.token_transactions(id) ON DELETE SET NULL,
+  reversal_shortfall INTEGER NOT NULL DEFAULT 0, -- Tokens already spent when the purchase was reversed
+  failure_reason TEXT NULL,
+  idempotency_key TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  credited_at TIMESTAMPTZ NULL,
+  reversed_at TIMESTAMPTZ NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A store receipt pays for one purchase only
+CREATE UNIQUE INDEX IF NOT EXISTS idx_token_purchases_provider_transaction
+  ON public.token_purchases(provider, provider_transaction_id)
+  WHERE provider_transaction_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_token_purchases_idempotency
+  ON public.token_purchases(user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_token_purchases_user
+  ON public.token_purchases(user_id, created_at DESC);
+
+ALTER TABLE public.token_packs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.token_purchases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view token packs" ON public.token_packs;
+CREATE POLICY "Anyone can view token packs"
+  ON public.token_packs FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can view their own token purchases" ON public.token_purchases;
+CREATE POLICY "Users can view their own token purchases"
+  ON public.token_purchases FOR SELECT
+  USING (user_id = auth.uid());
+
+-- 3. Starting and ending a purchase (the buyer)
+-- Records the purchase before the store sheet opens, so every receipt has a
+-- row to land on. Repeating the idempotency key returns the same purchase.
+CREATE OR REPLACE FUNCTION public.create_token_purchase(
+  p_pack_id TEXT,
+  p_provider TEXT,
+  p_idempotency_key TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_pack public.token_packs;
+  v_purchase public.token_purchases;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_provider NOT IN ('stub', 'app_store', 'play_store') THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown store');
+  END IF;
+
+  IF p_provider = 'stub' AND COALESCE(current_setting('app.settings.stub_purchases', true), '') <> 'on' THEN
+    RETURN json_build_object('success', false, 'error', 'Stub purchases are turned off');
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_purchase
+    FROM public.token_purchases
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN json_build_object('success', true, 'purchase', row_to_json(v_purchase), 'replayed', true);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_pack FROM public.token_packs WHERE id = p_pack_id AND active;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown token pack');
+  END IF;
+
+  INSERT INTO public.token_purchases (user_id, pack_id, tokens, provider, idempotency_key)
+  VALUES (v_user_id, v_pack.id, v_pack.tokens, p_provider, p_idempotency_key)
+  RETURNING * INTO v_purchase;
+
+  RETURN json_build_object('success', true, 'purchase', row_to_json(v_purchase), 'replayed', false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The buyer backed out of the store sheet. Only pending purchases can be
+-- canceled; once a receipt is verified the purchase stands.
+CREATE OR REPLACE FUNCTION public.cancel_token_purchase(
+  p_purchase_id UUID
+) RETURNS JSON AS $$
+BEGIN
+  UPDATE public.token_purchases
+  SET status = 'failed', failure_reason = 'Canceled', updated_at = NOW()
+  WHERE id = p_purchase_id
+    AND user_id = auth.uid()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Purchase not found');
+  END IF;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Verification results (verify-purchase, service role)
+-- Pays out a purchase whose receipt the store confirmed. A purchase that was
+-- already credited with the same receipt returns the first credit.
+CREATE OR REPLACE FUNCTION public.credit_token_purchase(
+  p_purchase_id UUID,
+  p_provider_transaction_id TEXT,
+  p_product_id TEXT
+) RETURNS JSON AS $$
+DECLARE
+  v_purchase public.token_purchases;
+  v_pack public.token_packs;
+  v_result JSON;
+BEGIN
+  SELECT * INTO v_purchase FROM public.token_purchases WHERE id = p_purchase_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Purchase not found');
+  END IF;
+
+  IF v_purchase.status = 'credited' AND v_purchase.provider_transaction_id = p_provider_transaction_id THEN
+    RETURN json_build_object(
+      'success', true,
+      'purchase_id', v_purchase.id,
+      'tokens', v_purchase.tokens,
+      'balance', public.token_balance(v_purchase.user_id),
+      'replayed', true
+    );
+  END IF;
+
+  IF v_purchase.status <> 'pending' THEN
+    RETURN json_build_object('success', false, 'error', 'This purchase is already ' || v_purchase.status);
+  END IF;
+
+  IF p_product_id IS DISTINCT FROM v_purchase.pack_id THEN
+    UPDATE public.token_purchases
+    SET status = 'failed', failure_reason = 'The receipt is for a different pack', updated_at = NOW()
+    WHERE id = v_purchase.id;
+    RETURN json_build_object('success', false, 'error', 'The receipt is for a different pack');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.token_purchases
+    WHERE provider = v_purchase.provider
+      AND provider_transaction_id = p_provider_transaction_id
+      AND id <> v_purchase.id
+  ) THEN
+    UPDATE public.token_purchases
+    SET status = 'failed', failure_reason = 'The receipt was already used', updated_at = NOW()
+    WHERE id = v_purchase.id;
+    RETURN json_build_object('success', false, 'error', 'The receipt was already used');
+  END IF;
+
+  SELECT * INTO v_pack FROM public.token_packs WHERE id = v_purchase.pack_id;
+
+  v_result := public.apply_token_transaction(
+    v_purchase.user_id, v_purchase.tokens, 'purchase', 'Bought the ' || v_pack.name || ' pack',
+    'token-purchase:' || v_purchase.id, 'token_pack', NULL, NULL,
+    jsonb_build_object(
+      'purchase_id', v_purchase.id,
+      'pack_id', v_purchase.pack_id,
+      'provider', v_purchase.provider,
+      'provider_transaction_id', p_provider_transaction_id
+    )
+  );
+
+  IF NOT (v_result->>'success')::BOOLEAN THEN
+    RETURN v_result;
+  END IF;
+
+  UPDATE public.token_purchases
+  SET status = 'credited',
+      provider_transaction_id = p_provider_transaction_id,
+      transaction_id = (v_result->>'transaction_id')::UUID,
+      credited_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_purchase.id;
+
+  RETURN json_build_object(
+    'success', true,
+    'purchase_id', v_purchase.id,
+    'tokens', v_purchase.tokens,
+    'balance', v_result->'balance',
+    'replayed', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The store rejected the receipt
+CREATE OR REPLACE FUNCTION public.fail_token_purchase(
+  p_purchase_id UUID,
+  p_reason TEXT
+) RETURNS JSON AS $$
+BEGIN
+  UPDATE public.token_purchases
+  SET status = 'failed', failure_reason = p_reason, updated_at = NOW()
+  WHERE id = p_purchase_id AND status = 'pending';
+
+  RETURN json_build_object('success', FOUND);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Refunds and chargebacks (store notifications, service role)
+-- Takes a refunded purchase's tokens back. The reversal is a negative
+-- 'purchase' row pointing at the credit, so the ledger and purchased_total
+-- both net out. Reporting the same refund again changes nothing.
+CREATE OR REPLACE FUNCTION public.reverse_token_purchase(
+  p_provider TEXT,
+  p_provider_transaction_id TEXT,
+  p_kind TEXT,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_purchase public.token_purchases;
+  v_taken INTEGER;
+  v_result JSON;
+BEGIN
+  IF p_kind NOT IN ('refunded', 'charged_back') THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown reversal');
+  END IF;
+
+  SELECT * INTO v_purchase
+  FROM public.token_purchases
+  WHERE provider = p_provider AND provider_transaction_id = p_provider_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Purchase not found');
+  END IF;
+
+  IF v_purchase.status IN ('refunded', 'charged_back') THEN
+    RETURN json_build_object(
+      'success', true,
+      'purchase_id', v_purchase.id,
+      'shortfall', v_purchase.reversal_shortfall,
+      'replayed', true
+    );
+  END IF;
+
+  IF v_purchase.status <> 'credited' THEN
+    RETURN json_build_object('success', false, 'error', 'This purchase was never credited');
+  END IF;
+
+  -- Hold the account so the balance read here is the one reversed against
+  PERFORM 1 FROM public.user_tokens WHERE user_id = v_purchase.user_id FOR UPDATE;
+
+  v_taken := LEAST(v_purchase.tokens, GREATEST(public.token_balance(v_purchase.user_id), 0));
+
+  IF v_taken > 0 THEN
+    v_result := public.apply_token_transaction(
+      v_purchase.user_id, -v_taken, 'purchase',
+      CASE p_kind WHEN 'refunded' THEN 'Purchase refunded' ELSE 'Purchase charged back' END,
+      'token-purchase-reversal:' || v_purchase.id, 'token_pack', NULL, NULL,
+      jsonb_build_object(
+        'purchase_id', v_purchase.id,
+        'kind', p_kind,
+        'reason', p_reason,
+        'shortfall', v_purchase.tokens - v_taken
+      ),
+      v_purchase.transaction_id
+    );
+
+    IF NOT (v_result->>'success')::BOOLEAN THEN
+      RETURN v_result;
+    END IF;
+  END IF;
+
+  UPDATE public.token_purchases
+  SET status = p_kind,
+      reversal_transaction_id = (v_result->>'transaction_id')::UUID,
+      reversal_shortfall = v_purchase.tokens - v_taken,
+      failure_reason = p_reason,
+      reversed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_purchase.id;
+
+  RETURN json_build_object(
+    'success', true,
+    'purchase_id', v_purchase.id,
+    'tokens', v_taken,
+    'shortfall', v_purchase.tokens - v_taken,
+    'balance', public.token_balance(v_purchase.user_id),
+    'replayed', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE INSERT, UPDATE, DELETE ON public.token_purchases FROM authenticated, anon;
+REVOKE INSERT, UPDATE, DELETE ON public.token_packs FROM authenticated, anon;
+GRANT SELECT ON public.token_purchases TO authenticated;
+GRANT SELECT ON public.token_packs TO anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.credit_token_purchase FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_token_purchase FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_token_purchase FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_token_purchase FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_token_purchase FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.create_token_purchase(TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_token_purchase(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.credit_token_purchase TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_token_purchase TO service_role;
+GRANT EXECUTE ON FUNCTION public.reverse_token_purchase TO service_role;
+
+COMMENT ON TABLE public.token_purchases IS 'Spark pack purchases: pending until verify-purchase checks the store receipt, then credited, failed, refunded or charged_back';
+COMMENT ON FUNCTION public.create_token_purchase IS 'Starts a purchase of a token pack for the caller. Returns {success, purchase, replayed}';
+COMMENT ON FUNCTION public.credit_token_purchase IS 'Credits a purchase whose receipt was verified, once per purchase. Service role only';
+COMMENT ON FUNCTION public.reverse_token_purchase IS 'Takes back the tokens of a refunded or charged back purchase, once. Service role only';
@@ -0,0 +1,314 @@
+-- Relationship snapshots
+-- How a couple writes together, measured across every story both partners
+-- are members of:
+--   - writing balance: how evenly the words are shared (100 = half each)
+--   - response time: hours between a chapter and the partner's chapter that
+--     continues it (parent_chapter_id)
+--   - tone: positive, engaged and deep words per 1000 words
+--
+-- relationship_metrics computes them for any period. A daily job stores one
+-- snapshot per relationship covering the trailing seven days, so the
+-- relationship screen can chart the trends over weeks and months.
+
+CREATE TABLE IF NOT EXISTS public.relationship_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  relationship_id UUID NOT NULL REFERENCES public.relationships(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL, -- Last day of the seven-day window
+  chapters_count INTEGER NOT NULL DEFAULT 0,
+  user_1_chapters INTEGER NOT NULL DEFAULT 0,
+  user_2_chapters INTEGER NOT NULL DEFAULT 0,
+  user_1_words INTEGER NOT NULL DEFAULT 0,
+  user_2_words INTEGER NOT NULL DEFAULT 0,
+  -- NULL when nothing was written in the window
+  writing_balance INTEGER NULL CHECK (writing_balance BETWEEN 0 AND 100),
+  avg_response_hours NUMERIC(8, 2) NULL,
+  responses_count INTEGER NOT NULL DEFAULT 0,
+  positivity NUMERIC(6, 2) NULL,
+  engagement NUMERIC(6, 2) NULL,
+  depth NUMERIC(6, 2) NULL,
+  active_stories INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (relationship_id, snapshot_date)
+);
+
+ALTER TABLE public.relationship_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Partners can view their relationship snapshots" ON public.relationship_snapshots;
+CREATE POLICY "Partners can view their relationship snapshots"
+  ON public.relationship_snapshots FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.relationships r
+      WHERE r.id = relationship_id
+        AND auth.uid() IN (r.user_1, r.user_2)
+    )
+  );
+
+-- Words that count towards each tone, matched at the start of a word
+-- ('love' also matches 'lovely')
+CREATE OR REPLACE FUNCTION public.count_tone_words(p_text TEXT, p_pattern TEXT)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER FROM regexp_matches(lower(p_text), '\m(' || p_pattern || ')', 'g');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Metrics for one relationship over [p_from, p_to). No access check; callers
+-- go through get_relationship_metrics or the snapshot job.
+CREATE OR REPLACE FUNCTION public.relationship_metrics(
+  p_relationship_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+) RETURNS JSON AS $$
+DECLARE
+  c_positive CONSTANT TEXT := 'love|happy|joy|wonderful|amazing|beautiful|perfect|great';
+  c_engaged CONSTANT TEXT := 'wonder|curious|explore|discover|imagine|think|feel';
+  c_deep CONSTANT TEXT := 'soul|heart|deep|meaning|purpose|journey|connection|intimate';
+  v_relationship public.relationships;
+  v_result JSON;
+BEGIN
+  SELECT * INTO v_relationship FROM public.relationships WHERE id = p_relationship_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  WITH shared_stories AS (
+    SELECT a.story_id
+    FROM public.story_members a
+    JOIN public.story_members b ON b.story_id = a.story_id
+    WHERE a.user_id = v_relationship.user_1
+      AND b.user_id = v_relationship.user_2
+  ),
+  written AS (
+    SELECT c.id, c.story_id, c.author_id, c.created_at, c.parent_chapter_id,
+      -- Rich text chapters are stored as HTML
+      regexp_replace(COALESCE(c.content, ''), '<[^>]*>', ' ', 'g') AS plain
+    FROM public.chapters c
+    WHERE c.story_id IN (SELECT story_id FROM shared_stories)
+      AND c.author_id IN (v_relationship.user_1, v_relationship.user_2)
+      AND c.created_at >= p_from
+      AND c.created_at < p_to
+  ),
+  counted AS (
+    SELECT w.*,
+      COALESCE(array_length(regexp_split_to_array(btrim(w.plain), '\s+'), 1), 0)
+        - CASE WHEN btrim(w.plain) = '' THEN 1 ELSE 0 END AS words
+    FROM written w
+  ),
+  totals AS (
+    SELECT
+      COUNT(*)::INTEGER AS chapters_count,
+      COUNT(*) FILTER (WHERE author_id = v_relationship.user_1)::INTEGER AS user_1_chapters,
+      COUNT(*) FILTER (WHERE author_id = v_relationship.user_2)::INTEGER AS user_2_chapters,
+      COALESCE(SUM(words) FILTER (WHERE author_id = v_relationship.user_1), 0)::INTEGER AS user_1_words,
+      COALESCE(SUM(words) FILTER (WHERE author_id = v_relationship.user_2), 0)::INTEGER AS user_2_words,
+      COALESCE(SUM(words), 0)::INTEGER AS words,
+      COALESCE(SUM(public.count_tone_words(plain, c_positive)), 0) AS positive_words,
+      COALESCE(SUM(public.count_tone_words(plain, c_engaged)), 0) AS engaged_words,
+      COALESCE(SUM(public.count_tone_words(plain, c_deep)), 0) AS deep_words,
+      COUNT(DISTINCT story_id)::INTEGER AS active_stories
+    FROM counted
+  ),
+  -- A response is a chapter that continues the partner's chapter
+  responses AS (
+    SELECT EXTRACT(EPOCH FROM (w.created_at - p.created_at)) / 3600.0 AS hours
+    FROM written w
+    JOIN public.chapters p ON p.id = w.parent_chapter_id
+    WHERE p.author_id IN (v_relationship.user_1, v_relationship.user_2)
+      AND p.author_id <> w.author_id
+  )
+  SELECT json_build_object(
+    'user_1', v_relationship.user_1,
+    'user_2', v_relationship.user_2,
+    'chapters_count', t.chapters_count,
+    'user_1_chapters', t.user_1_chapters,
+    'user_2_chapters', t.user_2_chapters,
+    'user_1_words', t.user_1_words,
+    'user_2_words', t.user_2_words,
+    'writing_balance', CASE WHEN t.words > 0
+      THEN ROUND(100 - ABS(t.user_1_words - t.user_2_words) * 100.0 / t.words)::INTEGER
+    END,
+    'avg_response_hours', (SELECT ROUND(AVG(hours)::NUMERIC, 2) FROM responses),
+    'responses_count', (SELECT COUNT(*)::INTEGER FROM responses),
+    'positivity', CASE WHEN t.words > 0 THEN ROUND(t.positive_words * 1000.0 / t.words, 2) END,
+    'engagement', CASE WHEN t.words > 0 THEN ROUND(t.engaged_words * 1000.0 / t.words, 2) END,
+    'depth', CASE WHEN t.words > 0 THEN ROUND(t.deep_words * 1000.0 / t.words, 2) END,
+    'active_stories', t.active_stories
+  ) INTO v_result
+  FROM totals t;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Stores the seven days ending on p_date (UTC). Taking the same day again
+-- replaces it, so a late chapter is picked up by a rerun.
+CREATE OR REPLACE FUNCTION public.take_relationship_snapshot(
+  p_relationship_id UUID,
+  p_date DATE
+) RETURNS VOID AS $$
+DECLARE
+  v_metrics JSON;
+BEGIN
+  v_metrics := public.relationship_metrics(
+    p_relationship_id,
+    (p_date - 6)::TIMESTAMP AT TIME ZONE 'UTC',
+    (p_date + 1)::TIMESTAMP AT TIME ZONE 'UTC'
+  );
+
+  IF v_metrics IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.relationship_snapshots (
+    relationship_id, snapshot_date, chapters_count, user_1_chapters, user_2_chapters,
+    user_1_words, user_2_words, writing_balance, avg_response_hours, responses_count,
+    positivity, engagement, depth, active_stories
+  ) VALUES (
+    p_relationship_id, p_date,
+    (v_metrics->>'chapters_count')::INTEGER,
+    (v_metrics->>'user_1_chapters')::INTEGER,
+    (v_metrics->>'user_2_chapters')::INTEGER,
+    (v_metrics->>'user_1_words')::INTEGER,
+    (v_metrics->>'user_2_words')::INTEGER,
+    (v_metrics->>'writing_balance')::INTEGER,
+    (v_metrics->>'avg_response_hours')::NUMERIC,
+    (v_metrics->>'responses_count')::INTEGER,
+    (v_metrics->>'positivity')::NUMERIC,
+    (v_metrics->>'engagement')::NUMERIC,
+    (v_metrics->>'depth')::NUMERIC,
+    (v_metrics->>'active_stories')::INTEGER
+  )
+  ON CONFLICT (relationship_id, snapshot_date) DO UPDATE SET
+    chapters_count = EXCLUDED.chapters_count,
+    user_1_chapters = EXCLUDED.user_1_chapters,
+    user_2_chapters = EXCLUDED.user_2_chapters,
+    user_1_words = EXCLUDED.user_1_words,
+    user_2_words = EXCLUDED.user_2_words,
+    writing_balance = EXCLUDED.writing_balance,
+    avg_response_hours = EXCLUDED.avg_response_hours,
+    responses_count = EXCLUDED.responses_count,
+    positivity = EXCLUDED.positivity,
+    engagement = EXCLUDED.engagement,
+    depth = EXCLUDED.depth,
+    active_stories = EXCLUDED.active_stories,
+    created_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Daily job: yesterday's snapshot for every relationship still together
+CREATE OR REPLACE FUNCTION public.take_relationship_snapshots()
+RETURNS VOID AS $$
+DECLARE
+  v_yesterday DATE := (NOW() AT TIME ZONE 'UTC')::DATE - 1;
+  v_relationship_id UUID;
+BEGIN
+  FOR v_relationship_id IN
+    SELECT id FROM public.relationships
+    WHERE status IN ('accepted', 'active', 'paused')
+  LOOP
+    PERFORM public.take_relationship_snapshot(v_relationship_id, v_yesterday);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('take_relationship_snapshots', '15 0 * * *', 'SELECT public.take_relationship_snapshots()');
+  ELSE
+    RAISE NOTICE 'pg_cron extension not available, skipping scheduled job creation';
+  END IF;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not schedule cron job: %', SQLERRM;
+END;
+$$;
+
+-- Twelve weeks of history for relationships that already exist, so the
+-- charts are not empty on the first day
+DO $$
+DECLARE
+  v_relationship_id UUID;
+  v_date DATE;
+BEGIN
+  FOR v_relationship_id IN
+    SELECT id FROM public.relationships
+    WHERE status IN ('accepted', 'active', 'paused')
+  LOOP
+    FOR v_date IN
+      SELECT generate_series((NOW() AT TIME ZONE 'UTC')::DATE - 84, (NOW() AT TIME ZONE 'UTC')::DATE - 1, INTERVAL '1 day')::DATE
+    LOOP
+      PERFORM public.take_relationship_snapshot(v_relationship_id, v_date);
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Partner check shared by the two functions below
+CREATE OR REPLACE FUNCTION public.is_relationship_partner(p_relationship_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.relationships
+    WHERE id = p_relationship_id AND auth.uid() IN (user_1, user_2)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The caller's relationship metrics for the last p_days, computed now
+CREATE OR REPLACE FUNCTION public.get_relationship_metrics(
+  p_relationship_id UUID,
+  p_days INTEGER DEFAULT 30
+) RETURNS JSON AS $$
+BEGIN
+  IF NOT public.is_relationship_partner(p_relationship_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Relationship not found');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'metrics', public.relationship_metrics(
+      p_relationship_id,
+      NOW() - make_interval(days => GREATEST(p_days, 1)),
+      NOW()
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Stored snapshots for the last p_days, oldest first
+CREATE OR REPLACE FUNCTION public.get_relationship_trends(
+  p_relationship_id UUID,
+  p_days INTEGER DEFAULT 90
+) RETURNS JSON AS $$
+BEGIN
+  IF NOT public.is_relationship_partner(p_relationship_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Relationship not found');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'snapshots', COALESCE((
+      SELECT json_agg(s ORDER BY s.snapshot_date)
+      FROM public.relationship_snapshots s
+      WHERE s.relationship_id = p_relationship_id
+        AND s.snapshot_date >= (NOW() AT TIME ZONE 'UTC')::DATE - GREATEST(p_days, 1)
+    ), '[]'::json)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE INSERT, UPDATE, DELETE ON public.relationship_snapshots FROM authenticated, anon;
+GRANT SELECT ON public.relationship_snapshots TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.relationship_metrics FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.take_relationship_snapshot FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.take_relationship_snapshots FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_relationship_metrics FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_relationship_trends FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.take_relationship_snapshots TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_relationship_metrics(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_relationship_trends(UUID, INTEGER) TO authenticated;
+
+COMMENT ON TABLE public.relationship_snapshots IS 'One row per relationship per day: writing balance, response time and tone over the seven days ending on snapshot_date';
+COMMENT ON FUNCTION public.relationship_metrics IS 'Writing balance, response time and tone for a relationship across all shared stories in [p_from, p_to)';
+COMMENT ON FUNCTION public.get_relationship_trends IS 'The caller''s relationship snapshots for the last p_days. Returns {success, snapshots}';
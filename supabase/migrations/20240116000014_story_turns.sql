@@ -0,0 +1,358 @@
+-- Story turns
+-- stories.current_turn says whose turn it is; story_turns records every turn:
+-- when it started, when it is due, and how it ended. A turn is due
+-- turn_deadline_hours after it starts (24 by default) and expires, passing to
+-- the next member, once the grace period after the deadline has also run out.
+--
+-- Turns are opened and closed by triggers on stories.current_turn, so every
+-- path that moves the turn (writing a chapter, advance_turn, the RPCs below)
+-- is recorded the same way. Reminders before the deadline are scheduled on
+-- the writer's device from turn_reminder_hours.
+
+-- 1. Turn settings, per story
+ALTER TABLE public.stories
+  ADD COLUMN IF NOT EXISTS turn_started_at TIMESTAMPTZ NULL,
+  ADD COLUMN IF NOT EXISTS turn_deadline_hours INTEGER NOT NULL DEFAULT 24
+    CHECK (turn_deadline_hours BETWEEN 1 AND 168),
+  ADD COLUMN IF NOT EXISTS turn_grace_hours INTEGER NOT NULL DEFAULT 12
+    CHECK (turn_grace_hours BETWEEN 0 AND 72),
+  -- Hours before the deadline to remind the writer
+  ADD COLUMN IF NOT EXISTS turn_reminder_hours INTEGER[] NOT NULL DEFAULT '{6,1}'
+    CHECK (cardinality(turn_reminder_hours) <= 4 AND 0 < ALL(turn_reminder_hours));
+
+-- 2. Turn records
+CREATE TABLE IF NOT EXISTS public.story_turns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deadline_at TIMESTAMPTZ NOT NULL,
+  grace_ends_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NULL,
+  -- NULL while the turn is open
+  outcome TEXT NULL CHECK (outcome IN ('written', 'skipped', 'passed', 'expired')),
+  chapter_id UUID NULL REFERENCES public.chapters(id) ON DELETE SET NULL,
+  passed_to UUID NULL REFERENCES public.profiles(id) ON DELETE SET NULL,
+  CHECK ((ended_at IS NULL) = (outcome IS NULL))
+);
+
+-- One open turn per story
+CREATE UNIQUE INDEX IF NOT EXISTS idx_story_turns_open ON public.story_turns(story_id) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_story_turns_story_id ON public.story_turns(story_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_story_turns_grace_ends_at ON public.story_turns(grace_ends_at) WHERE ended_at IS NULL;
+
+ALTER TABLE public.story_turns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Story members can view turns" ON public.story_turns;
+CREATE POLICY "Story members can view turns"
+  ON public.story_turns FOR SELECT
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+REVOKE INSERT, UPDATE, DELETE ON public.story_turns FROM authenticated, anon;
+GRANT SELECT ON public.story_turns TO authenticated;
+
+-- 3. Opening and closing turns
+-- The member after p_user_id in turn order, wrapping around. Returns
+-- p_user_id itself when they are the only member.
+CREATE OR REPLACE FUNCTION public.next_story_member(p_story_id UUID, p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_members UUID[];
+  v_position INTEGER;
+BEGIN
+  SELECT array_agg(user_id ORDER BY turn_order NULLS LAST, joined_at, user_id) INTO v_members
+  FROM public.story_members
+  WHERE story_id = p_story_id;
+
+  IF v_members IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_position := array_position(v_members, p_user_id);
+  IF v_position IS NULL THEN
+    RETURN v_members[1];
+  END IF;
+
+  RETURN v_members[(v_position % array_length(v_members, 1)) + 1];
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Turns already in progress start from the last chapter (or the story's
+-- creation when nothing has been written yet)
+UPDATE public.stories s
+SET turn_started_at = COALESCE(
+  (SELECT MAX(c.created_at) FROM public.chapters c WHERE c.story_id = s.id),
+  s.created_at
+)
+WHERE s.current_turn IS NOT NULL AND s.turn_started_at IS NULL;
+
+INSERT INTO public.story_turns (story_id, user_id, started_at, deadline_at, grace_ends_at)
+SELECT
+  s.id,
+  s.current_turn,
+  s.turn_started_at,
+  s.turn_started_at + make_interval(hours => s.turn_deadline_hours),
+  s.turn_started_at + make_interval(hours => s.turn_deadline_hours + s.turn_grace_hours)
+FROM public.stories s
+WHERE s.current_turn IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.story_turns t WHERE t.story_id = s.id AND t.ended_at IS NULL);
+
+-- turn_started_at only changes with the turn, so a member cannot move their
+-- own deadline by writing to it
+CREATE OR REPLACE FUNCTION public.stamp_turn_started_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.current_turn IS DISTINCT FROM OLD.current_turn THEN
+    NEW.turn_started_at := CASE WHEN NEW.current_turn IS NULL THEN NULL ELSE NOW() END;
+  ELSE
+    NEW.turn_started_at := OLD.turn_started_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_turn_started_at ON public.stories;
+CREATE TRIGGER stamp_turn_started_at
+  BEFORE INSERT OR UPDATE ON public.stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_turn_started_at();
+
+-- Closes the open turn when current_turn moves and opens the next one. A turn
+-- the RPCs below have not already closed (skipped, passed, expired) ended
+-- because its writer wrote: it is 'written' when they added a chapter during
+-- the turn, and 'passed' when the turn was moved without one.
+CREATE OR REPLACE FUNCTION public.record_story_turn()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_open public.story_turns;
+  v_chapter_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.current_turn IS NOT DISTINCT FROM OLD.current_turn THEN
+    -- New deadlines apply to the turn in progress
+    IF NEW.turn_deadline_hours IS DISTINCT FROM OLD.turn_deadline_hours
+      OR NEW.turn_grace_hours IS DISTINCT FROM OLD.turn_grace_hours THEN
+      UPDATE public.story_turns
+      SET deadline_at = started_at + make_interval(hours => NEW.turn_deadline_hours),
+          grace_ends_at = started_at + make_interval(hours => NEW.turn_deadline_hours + NEW.turn_grace_hours)
+      WHERE story_id = NEW.id AND ended_at IS NULL;
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_open FROM public.story_turns
+  WHERE story_id = NEW.id AND ended_at IS NULL
+  FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT id INTO v_chapter_id FROM public.chapters
+    WHERE story_id = NEW.id
+      AND author_id = v_open.user_id
+      AND created_at >= v_open.started_at
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    UPDATE public.story_turns
+    SET ended_at = NOW(),
+        outcome = CASE WHEN v_chapter_id IS NOT NULL THEN 'written' ELSE 'passed' END,
+        chapter_id = v_chapter_id,
+        passed_to = CASE WHEN v_chapter_id IS NULL THEN NEW.current_turn END
+    WHERE id = v_open.id;
+  END IF;
+
+  IF NEW.current_turn IS NOT NULL THEN
+    INSERT INTO public.story_turns (story_id, user_id, started_at, deadline_at, grace_ends_at)
+    VALUES (
+      NEW.id,
+      NEW.current_turn,
+      NEW.turn_started_at,
+      NEW.turn_started_at + make_interval(hours => NEW.turn_deadline_hours),
+      NEW.turn_started_at + make_interval(hours => NEW.turn_deadline_hours + NEW.turn_grace_hours)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_story_turn ON public.stories;
+CREATE TRIGGER record_story_turn
+  AFTER INSERT OR UPDATE OF current_turn, turn_deadline_hours, turn_grace_hours ON public.stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_story_turn();
+
+-- 4. Skip my turn and pass the pen (the writer whose turn it is)
+-- Skipping gives the turn to the next member in order. Passing the pen hands
+-- it to a chosen member (the next one by default); in a two-person story
+-- both land on the partner, but the turn records tell them apart.
+CREATE OR REPLACE FUNCTION public.hand_over_turn(
+  p_story_id UUID,
+  p_outcome TEXT,
+  p_to_user_id UUID
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_story public.stories;
+  v_to_user_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_story FROM public.stories WHERE id = p_story_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = v_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Story not found');
+  END IF;
+
+  IF v_story.current_turn IS DISTINCT FROM v_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'It is not your turn');
+  END IF;
+
+  v_to_user_id := COALESCE(p_to_user_id, public.next_story_member(p_story_id, v_user_id));
+
+  IF v_to_user_id IS NULL OR v_to_user_id = v_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'There is nobody to hand the turn to yet');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = v_to_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'That writer is not in this story');
+  END IF;
+
+  UPDATE public.story_turns
+  SET ended_at = NOW(), outcome = p_outcome, passed_to = v_to_user_id
+  WHERE story_id = p_story_id AND ended_at IS NULL;
+
+  UPDATE public.stories SET current_turn = v_to_user_id WHERE id = p_story_id;
+
+  RETURN json_build_object('success', true, 'current_turn', v_to_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.skip_turn(p_story_id UUID)
+RETURNS JSON AS $$
+BEGIN
+  RETURN public.hand_over_turn(p_story_id, 'skipped', NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.pass_turn(p_story_id UUID, p_to_user_id UUID DEFAULT NULL)
+RETURNS JSON AS $$
+BEGIN
+  RETURN public.hand_over_turn(p_story_id, 'passed', p_to_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Turn settings (any member)
+CREATE OR REPLACE FUNCTION public.update_turn_settings(
+  p_story_id UUID,
+  p_deadline_hours INTEGER,
+  p_grace_hours INTEGER,
+  p_reminder_hours INTEGER[]
+) RETURNS JSON AS $$
+DECLARE
+  v_reminder_hours INTEGER[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = auth.uid()
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Story not found');
+  END IF;
+
+  IF p_deadline_hours IS NULL OR p_deadline_hours NOT BETWEEN 1 AND 168 THEN
+    RETURN json_build_object('success', false, 'error', 'The deadline must be between 1 hour and 7 days');
+  END IF;
+
+  IF p_grace_hours IS NULL OR p_grace_hours NOT BETWEEN 0 AND 72 THEN
+    RETURN json_build_object('success', false, 'error', 'The grace period must be between 0 and 72 hours');
+  END IF;
+
+  -- Reminders after the turn has started only; duplicates dropped, latest first
+  SELECT COALESCE(array_agg(DISTINCT h ORDER BY h DESC), '{}') INTO v_reminder_hours
+  FROM unnest(COALESCE(p_reminder_hours, '{}')) AS h
+  WHERE h BETWEEN 1 AND p_deadline_hours;
+
+  IF cardinality(v_reminder_hours) > 4 THEN
+    RETURN json_build_object('success', false, 'error', 'Choose up to 4 reminders');
+  END IF;
+
+  UPDATE public.stories
+  SET turn_deadline_hours = p_deadline_hours,
+      turn_grace_hours = p_grace_hours,
+      turn_reminder_hours = v_reminder_hours
+  WHERE id = p_story_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'turn_deadline_hours', p_deadline_hours,
+    'turn_grace_hours', p_grace_hours,
+    'turn_reminder_hours', v_reminder_hours
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Expiry
+-- Turns still open when their grace period ends go to the next member.
+-- Paused and completed stories keep their turn, and so do stories nobody has
+-- joined yet.
+CREATE OR REPLACE FUNCTION public.expire_story_turns()
+RETURNS INTEGER AS $$
+DECLARE
+  v_turn public.story_turns;
+  v_next UUID;
+  v_expired INTEGER := 0;
+BEGIN
+  FOR v_turn IN
+    SELECT t.* FROM public.story_turns t
+    JOIN public.stories s ON s.id = t.story_id
+    WHERE t.ended_at IS NULL
+      AND t.grace_ends_at < NOW()
+      AND s.status = 'active'
+    FOR UPDATE OF t SKIP LOCKED
+  LOOP
+    v_next := public.next_story_member(v_turn.story_id, v_turn.user_id);
+    CONTINUE WHEN v_next IS NULL OR v_next = v_turn.user_id;
+
+    UPDATE public.story_turns
+    SET ended_at = NOW(), outcome = 'expired', passed_to = v_next
+    WHERE id = v_turn.id;
+
+    UPDATE public.stories SET current_turn = v_next WHERE id = v_turn.story_id;
+    v_expired := v_expired + 1;
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire_story_turns', '*/15 * * * *', 'SELECT public.expire_story_turns()');
+  ELSE
+    RAISE NOTICE 'pg_cron extension not available, skipping scheduled job creation';
+  END IF;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not schedule cron job: %', SQLERRM;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hand_over_turn FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_story_turns FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.skip_turn FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.pass_turn FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.update_turn_settings FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.expire_story_turns TO service_role;
+GRANT EXECUTE ON FUNCTION public.skip_turn(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.pass_turn(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_turn_settings(UUID, INTEGER, INTEGER, INTEGER[]) TO authenticated;
+
+COMMENT ON TABLE public.story_turns IS 'Every turn in a story: when it started, when it was due and how it ended (written, skipped, passed or expired)';
+COMMENT ON FUNCTION public.skip_turn IS 'The writer whose turn it is gives it to the next member without writing';
+COMMENT ON FUNCTION public.pass_turn IS 'The writer whose turn it is hands the pen to another member (the next one by default)';
+COMMENT ON FUNCTION public.expire_story_turns IS 'Moves turns whose grace period has ended to the next member. Run by pg_cron every 15 minutes';
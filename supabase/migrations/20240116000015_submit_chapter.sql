@@ -0,0 +1,235 @@
+-- Submit chapter
+-- Writing a chapter used to be several client calls: add the chapter with
+-- its choices, link woven inspirations, then move stories.current_turn
+-- to the partner. A writer could insert out of turn, two writers could race
+-- for the same chapter number, and the turn update failed for anyone but the
+-- story creator. submit_chapter does all of it in one transaction with the
+-- story row locked, and chapters can no longer be inserted directly. The
+-- turn and its settings can no longer be written directly either.
+
+-- 1. The chapter the story is currently being written from: the leaf of the
+-- branch with the most recent activity, as the apps' getActivePath picks it
+CREATE OR REPLACE FUNCTION public.story_active_leaf(p_story_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_chapter_id UUID;
+  v_next_id UUID;
+BEGIN
+  SELECT id INTO v_chapter_id
+  FROM public.chapters
+  WHERE story_id = p_story_id AND parent_chapter_id IS NULL
+  ORDER BY created_at
+  LIMIT 1;
+
+  WHILE v_chapter_id IS NOT NULL LOOP
+    SELECT child.id INTO v_next_id
+    FROM public.chapters child
+    WHERE child.parent_chapter_id = v_chapter_id
+    ORDER BY (
+      WITH RECURSIVE subtree AS (
+        SELECT c.id, c.created_at FROM public.chapters c WHERE c.id = child.id
+        UNION ALL
+        SELECT c.id, c.created_at
+        FROM public.chapters c
+        JOIN subtree s ON c.parent_chapter_id = s.id
+      )
+      SELECT MAX(created_at) FROM subtree
+    ) DESC
+    LIMIT 1;
+
+    EXIT WHEN v_next_id IS NULL;
+    v_chapter_id := v_next_id;
+  END LOOP;
+
+  RETURN v_chapter_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 2. advance_turn follows the same order as the turn RPCs. It used to rely on
+-- turn_order 1 and 2 and moved the turn even when current_turn was empty.
+CREATE OR REPLACE FUNCTION advance_turn(story_uuid UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_current UUID;
+  v_next UUID;
+BEGIN
+  SELECT current_turn INTO v_current FROM public.stories WHERE id = story_uuid;
+
+  v_next := public.next_story_member(story_uuid, v_current);
+
+  IF v_next IS DISTINCT FROM v_current THEN
+    UPDATE public.stories SET current_turn = v_next WHERE id = story_uuid;
+  END IF;
+
+  RETURN v_next;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Submit a chapter (the member whose turn it is)
+-- With neither p_choice_id nor p_parent_chapter_id the chapter continues the
+-- active leaf. The chapter number comes from the parent, and the streak from
+-- the existing chapter triggers.
+CREATE OR REPLACE FUNCTION public.submit_chapter(
+  p_story_id UUID,
+  p_content TEXT,
+  p_parent_chapter_id UUID DEFAULT NULL,
+  p_choice_id UUID DEFAULT NULL,
+  p_context_snippet TEXT DEFAULT NULL,
+  p_ai_enhanced_content TEXT DEFAULT NULL,
+  p_choices JSONB DEFAULT NULL,
+  p_inspiration_ids UUID[] DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_story public.stories;
+  v_parent public.chapters;
+  v_chapter public.chapters;
+  v_result JSON;
+  v_next_turn UUID;
+  v_streak INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot submit empty chapter');
+  END IF;
+
+  -- Every submission to a story waits here, so the parent and chapter number
+  -- below cannot change under us
+  SELECT * INTO v_story FROM public.stories WHERE id = p_story_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = v_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Story not found');
+  END IF;
+
+  -- Nobody holds the turn before the first writer is set; any member may start
+  IF v_story.current_turn IS NOT NULL AND NOT is_user_turn(p_story_id, v_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'It is not your turn');
+  END IF;
+
+  IF p_choice_id IS NOT NULL THEN
+    SELECT ch.* INTO v_parent
+    FROM public.chapter_choices cc
+    JOIN public.chapters ch ON ch.id = cc.chapter_id
+    WHERE cc.id = p_choice_id AND cc.story_id = p_story_id;
+
+    IF NOT FOUND THEN
+      RETURN json_build_object('success', false, 'error', 'That choice no longer exists');
+    END IF;
+  ELSIF p_parent_chapter_id IS NOT NULL THEN
+    SELECT * INTO v_parent
+    FROM public.chapters
+    WHERE id = p_parent_chapter_id AND story_id = p_story_id;
+
+    IF NOT FOUND THEN
+      RETURN json_build_object('success', false, 'error', 'Previous chapter not found');
+    END IF;
+  ELSE
+    SELECT * INTO v_parent FROM public.chapters WHERE id = public.story_active_leaf(p_story_id);
+
+    IF FOUND AND EXISTS (SELECT 1 FROM public.chapter_choices WHERE chapter_id = v_parent.id) THEN
+      IF EXISTS (
+        SELECT 1 FROM public.chapter_choices cc
+        WHERE cc.chapter_id = v_parent.id
+          AND NOT EXISTS (SELECT 1 FROM public.chapters c WHERE c.choice_id = cc.id)
+      ) THEN
+        RETURN json_build_object('success', false, 'error', 'The last chapter ends with choices. Pick one to continue.');
+      END IF;
+      RETURN json_build_object('success', false, 'error', 'Every choice in the last chapter has been written. Continue one of the branches instead.');
+    END IF;
+  END IF;
+
+  -- The insert and the choices succeed or fail together
+  BEGIN
+    INSERT INTO public.chapters (
+      story_id, author_id, chapter_number, parent_chapter_id, choice_id,
+      content, ai_enhanced_content, context_snippet
+    ) VALUES (
+      p_story_id, v_user_id, COALESCE(v_parent.chapter_number + 1, 1), v_parent.id, p_choice_id,
+      p_content, p_ai_enhanced_content, p_context_snippet
+    )
+    RETURNING * INTO v_chapter;
+
+    IF p_choices IS NOT NULL AND jsonb_array_length(p_choices) > 0 THEN
+      v_result := public.set_chapter_choices(v_chapter.id, p_choices);
+      IF NOT COALESCE((v_result->>'success')::BOOLEAN, false) THEN
+        RAISE EXCEPTION '%', COALESCE(v_result->>'error', 'Failed to save chapter choices')
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RETURN json_build_object('success', false, 'error', 'Your partner already continued this part of the story. Refresh to read it.');
+    WHEN check_violation THEN
+      RETURN json_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  -- The chapter is saved either way; inspirations are only linked to it
+  IF p_inspiration_ids IS NOT NULL AND cardinality(p_inspiration_ids) > 0 THEN
+    BEGIN
+      PERFORM public.mark_inspirations_woven(v_chapter.id, p_inspiration_ids);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not mark inspirations woven for chapter %: %', v_chapter.id, SQLERRM;
+    END;
+  END IF;
+
+  -- Take the open turn first so it is recorded as written, then hand it on
+  IF v_story.current_turn IS NULL THEN
+    UPDATE public.stories SET current_turn = v_user_id WHERE id = p_story_id;
+  END IF;
+  v_next_turn := advance_turn(p_story_id);
+
+  SELECT current_streak INTO v_streak FROM public.writing_streaks WHERE user_id = v_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'chapter', row_to_json(v_chapter),
+    'current_turn', v_next_turn,
+    'streak', COALESCE(v_streak, 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Chapters are only created through submit_chapter
+DROP POLICY IF EXISTS "Story members can create chapters" ON public.chapters;
+DROP FUNCTION IF EXISTS public.add_chapter(UUID, TEXT, UUID, UUID, TEXT, TEXT, JSONB);
+
+-- 5. The creator may still update their story, but the turn and its settings
+-- only change through the RPCs, which run as the function owner. Otherwise a
+-- creator could take every turn or move their own deadline.
+CREATE OR REPLACE FUNCTION public.guard_story_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND (
+    NEW.current_turn IS DISTINCT FROM OLD.current_turn
+    OR NEW.turn_deadline_hours IS DISTINCT FROM OLD.turn_deadline_hours
+    OR NEW.turn_grace_hours IS DISTINCT FROM OLD.turn_grace_hours
+    OR NEW.turn_reminder_hours IS DISTINCT FROM OLD.turn_reminder_hours
+  ) THEN
+    RAISE EXCEPTION 'The turn and turn settings can only be changed through the story RPCs'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_story_rules ON public.stories;
+CREATE TRIGGER guard_story_rules
+  BEFORE UPDATE ON public.stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_story_rules();
+
+REVOKE EXECUTE ON FUNCTION public.story_active_leaf FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION advance_turn FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_chapter FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.guard_story_rules FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.submit_chapter(UUID, TEXT, UUID, UUID, TEXT, TEXT, JSONB, UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION public.submit_chapter IS 'Writes a chapter for the member whose turn it is: resolves the parent, numbers and inserts the chapter with its choices, links woven inspirations and passes the turn on, all in one transaction';
+COMMENT ON FUNCTION advance_turn IS 'Moves the turn to the next member after the current writer';
+COMMENT ON FUNCTION public.guard_story_rules IS 'Rejects direct updates to a story''s turn and turn settings; the RPCs that own them run as the function owner';
@@ -0,0 +1,349 @@
+-- Story settings
+-- The rules a couple agrees on for one story:
+--   - turn mode: 'alternate' (strict turns, no deadline), 'timed' (strict
+--     turns that expire after the deadline and grace period) or 'free'
+--     (anyone may write at any time)
+--   - minimum and maximum chapter length, in words
+--   - whether AI enhancement may be used on chapters
+--   - content rating, which the AI features follow
+--   - target length in chapters, shown as progress
+--
+-- Any member can change them. They are enforced where chapters are written:
+-- the turn mode in submit_chapter, the length and AI rules in a trigger on
+-- chapters (so edits are held to them too), and the AI rules again in the
+-- enhancement functions.
+
+-- 1. Settings, per story
+-- Existing stories keep the deadlines they had, so 'timed' is the default
+ALTER TABLE public.stories
+  ADD COLUMN IF NOT EXISTS turn_mode TEXT NOT NULL DEFAULT 'timed'
+    CHECK (turn_mode IN ('alternate', 'free', 'timed')),
+  ADD COLUMN IF NOT EXISTS min_chapter_words INTEGER NOT NULL DEFAULT 0
+    CHECK (min_chapter_words BETWEEN 0 AND 5000),
+  ADD COLUMN IF NOT EXISTS max_chapter_words INTEGER NULL
+    CHECK (max_chapter_words IS NULL OR max_chapter_words BETWEEN 50 AND 20000),
+  ADD COLUMN IF NOT EXISTS ai_enhancement_allowed BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS content_rating TEXT NOT NULL DEFAULT 'general'
+    CHECK (content_rating IN ('general', 'teen', 'mature')),
+  ADD COLUMN IF NOT EXISTS target_chapters INTEGER NULL
+    CHECK (target_chapters IS NULL OR target_chapters BETWEEN 1 AND 500);
+
+ALTER TABLE public.stories DROP CONSTRAINT IF EXISTS stories_chapter_words_range;
+ALTER TABLE public.stories ADD CONSTRAINT stories_chapter_words_range
+  CHECK (max_chapter_words IS NULL OR max_chapter_words >= min_chapter_words);
+
+-- 2. Words in a chapter, ignoring rich text markup
+CREATE OR REPLACE FUNCTION public.count_words(p_text TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN btrim(plain) = '' THEN 0
+    ELSE array_length(regexp_split_to_array(btrim(plain), '\s+'), 1)
+  END
+  FROM (SELECT regexp_replace(COALESCE(p_text, ''), '<[^>]*>', ' ', 'g') AS plain) t;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 3. Length and AI rules on every chapter write
+-- Edits are only checked when they change the text, so tightening the rules
+-- does not lock older chapters.
+CREATE OR REPLACE FUNCTION public.enforce_story_settings()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_story public.stories;
+  v_words INTEGER;
+BEGIN
+  SELECT * INTO v_story FROM public.stories WHERE id = NEW.story_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.content IS DISTINCT FROM OLD.content THEN
+    v_words := public.count_words(NEW.content);
+
+    IF v_words < v_story.min_chapter_words THEN
+      RAISE EXCEPTION 'Chapters in this story need at least % words (this one has %)',
+        v_story.min_chapter_words, v_words
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_story.max_chapter_words IS NOT NULL AND v_words > v_story.max_chapter_words THEN
+      RAISE EXCEPTION 'Chapters in this story can be at most % words (this one has %)',
+        v_story.max_chapter_words, v_words
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF NOT v_story.ai_enhancement_allowed
+    AND NEW.ai_enhanced_content IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.ai_enhanced_content IS DISTINCT FROM OLD.ai_enhanced_content) THEN
+    RAISE EXCEPTION 'AI enhancement is turned off for this story'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_story_settings ON public.chapters;
+CREATE TRIGGER enforce_story_settings
+  BEFORE INSERT OR UPDATE OF content, ai_enhanced_content ON public.chapters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_story_settings();
+
+-- 4. Submit chapter, following the turn mode
+-- In a free-for-all story the writer takes the pen before writing, so the
+-- turn records show who actually wrote; the turn is then passed on as usual.
+CREATE OR REPLACE FUNCTION public.submit_chapter(
+  p_story_id UUID,
+  p_content TEXT,
+  p_parent_chapter_id UUID DEFAULT NULL,
+  p_choice_id UUID DEFAULT NULL,
+  p_context_snippet TEXT DEFAULT NULL,
+  p_ai_enhanced_content TEXT DEFAULT NULL,
+  p_choices JSONB DEFAULT NULL,
+  p_inspiration_ids UUID[] DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_story public.stories;
+  v_parent public.chapters;
+  v_chapter public.chapters;
+  v_result JSON;
+  v_next_turn UUID;
+  v_streak INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot submit empty chapter');
+  END IF;
+
+  -- Every submission to a story waits here, so the parent and chapter number
+  -- below cannot change under us
+  SELECT * INTO v_story FROM public.stories WHERE id = p_story_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = v_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Story not found');
+  END IF;
+
+  -- Nobody holds the turn before the first writer is set; any member may start
+  IF v_story.turn_mode <> 'free'
+    AND v_story.current_turn IS NOT NULL
+    AND NOT is_user_turn(p_story_id, v_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'It is not your turn');
+  END IF;
+
+  IF p_choice_id IS NOT NULL THEN
+    SELECT ch.* INTO v_parent
+    FROM public.chapter_choices cc
+    JOIN public.chapters ch ON ch.id = cc.chapter_id
+    WHERE cc.id = p_choice_id AND cc.story_id = p_story_id;
+
+    IF NOT FOUND THEN
+      RETURN json_build_object('success', false, 'error', 'That choice no longer exists');
+    END IF;
+  ELSIF p_parent_chapter_id IS NOT NULL THEN
+    SELECT * INTO v_parent
+    FROM public.chapters
+    WHERE id = p_parent_chapter_id AND story_id = p_story_id;
+
+    IF NOT FOUND THEN
+      RETURN json_build_object('success', false, 'error', 'Previous chapter not found');
+    END IF;
+  ELSE
+    SELECT * INTO v_parent FROM public.chapters WHERE id = public.story_active_leaf(p_story_id);
+
+    IF FOUND AND EXISTS (SELECT 1 FROM public.chapter_choices WHERE chapter_id = v_parent.id) THEN
+      IF EXISTS (
+        SELECT 1 FROM public.chapter_choices cc
+        WHERE cc.chapter_id = v_parent.id
+          AND NOT EXISTS (SELECT 1 FROM public.chapters c WHERE c.choice_id = cc.id)
+      ) THEN
+        RETURN json_build_object('success', false, 'error', 'The last chapter ends with choices. Pick one to continue.');
+      END IF;
+      RETURN json_build_object('success', false, 'error', 'Every choice in the last chapter has been written. Continue one of the branches instead.');
+    END IF;
+  END IF;
+
+  -- The insert and the choices succeed or fail together
+  BEGIN
+    INSERT INTO public.chapters (
+      story_id, author_id, chapter_number, parent_chapter_id, choice_id,
+      content, ai_enhanced_content, context_snippet
+    ) VALUES (
+      p_story_id, v_user_id, COALESCE(v_parent.chapter_number + 1, 1), v_parent.id, p_choice_id,
+      p_content, p_ai_enhanced_content, p_context_snippet
+    )
+    RETURNING * INTO v_chapter;
+
+    IF p_choices IS NOT NULL AND jsonb_array_length(p_choices) > 0 THEN
+      v_result := public.set_chapter_choices(v_chapter.id, p_choices);
+      IF NOT COALESCE((v_result->>'success')::BOOLEAN, false) THEN
+        RAISE EXCEPTION '%', COALESCE(v_result->>'error', 'Failed to save chapter choices')
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RETURN json_build_object('success', false, 'error', 'Your partner already continued this part of the story. Refresh to read it.');
+    WHEN check_violation THEN
+      RETURN json_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  -- The chapter is saved either way; inspirations are only linked to it
+  IF p_inspiration_ids IS NOT NULL AND cardinality(p_inspiration_ids) > 0 THEN
+    BEGIN
+      PERFORM public.mark_inspirations_woven(v_chapter.id, p_inspiration_ids);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not mark inspirations woven for chapter %: %', v_chapter.id, SQLERRM;
+    END;
+  END IF;
+
+  -- Take the turn first so it is recorded as written, then hand it on
+  IF v_story.current_turn IS DISTINCT FROM v_user_id THEN
+    UPDATE public.stories SET current_turn = v_user_id WHERE id = p_story_id;
+  END IF;
+  v_next_turn := advance_turn(p_story_id);
+
+  SELECT current_streak INTO v_streak FROM public.writing_streaks WHERE user_id = v_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'chapter', row_to_json(v_chapter),
+    'current_turn', v_next_turn,
+    'streak', COALESCE(v_streak, 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Only timed stories expire turns
+CREATE OR REPLACE FUNCTION public.expire_story_turns()
+RETURNS INTEGER AS $$
+DECLARE
+  v_turn public.story_turns;
+  v_next UUID;
+  v_expired INTEGER := 0;
+BEGIN
+  FOR v_turn IN
+    SELECT t.* FROM public.story_turns t
+    JOIN public.stories s ON s.id = t.story_id
+    WHERE t.ended_at IS NULL
+      AND t.grace_ends_at < NOW()
+      AND s.status = 'active'
+      AND s.turn_mode = 'timed'
+    FOR UPDATE OF t SKIP LOCKED
+  LOOP
+    v_next := public.next_story_member(v_turn.story_id, v_turn.user_id);
+    CONTINUE WHEN v_next IS NULL OR v_next = v_turn.user_id;
+
+    UPDATE public.story_turns
+    SET ended_at = NOW(), outcome = 'expired', passed_to = v_next
+    WHERE id = v_turn.id;
+
+    UPDATE public.stories SET current_turn = v_next WHERE id = v_turn.story_id;
+    v_expired := v_expired + 1;
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Edit the settings (any member)
+CREATE OR REPLACE FUNCTION public.update_story_settings(
+  p_story_id UUID,
+  p_turn_mode TEXT,
+  p_min_chapter_words INTEGER,
+  p_max_chapter_words INTEGER,
+  p_ai_enhancement_allowed BOOLEAN,
+  p_content_rating TEXT,
+  p_target_chapters INTEGER
+) RETURNS JSON AS $$
+DECLARE
+  v_story public.stories;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = auth.uid()
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Story not found');
+  END IF;
+
+  IF p_turn_mode IS NULL OR p_turn_mode NOT IN ('alternate', 'free', 'timed') THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown turn mode');
+  END IF;
+
+  IF p_min_chapter_words IS NULL OR p_min_chapter_words NOT BETWEEN 0 AND 5000 THEN
+    RETURN json_build_object('success', false, 'error', 'The minimum length must be between 0 and 5,000 words');
+  END IF;
+
+  IF p_max_chapter_words IS NOT NULL AND p_max_chapter_words NOT BETWEEN 50 AND 20000 THEN
+    RETURN json_build_object('success', false, 'error', 'The maximum length must be between 50 and 20,000 words');
+  END IF;
+
+  IF p_max_chapter_words < p_min_chapter_words THEN
+    RETURN json_build_object('success', false, 'error', 'The maximum length cannot be below the minimum');
+  END IF;
+
+  IF p_content_rating IS NULL OR p_content_rating NOT IN ('general', 'teen', 'mature') THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown content rating');
+  END IF;
+
+  IF p_target_chapters IS NOT NULL AND p_target_chapters NOT BETWEEN 1 AND 500 THEN
+    RETURN json_build_object('success', false, 'error', 'The target must be between 1 and 500 chapters');
+  END IF;
+
+  UPDATE public.stories
+  SET turn_mode = p_turn_mode,
+      min_chapter_words = p_min_chapter_words,
+      max_chapter_words = p_max_chapter_words,
+      ai_enhancement_allowed = COALESCE(p_ai_enhancement_allowed, true),
+      content_rating = p_content_rating,
+      target_chapters = p_target_chapters
+  WHERE id = p_story_id
+  RETURNING * INTO v_story;
+
+  RETURN json_build_object(
+    'success', true,
+    'turn_mode', v_story.turn_mode,
+    'min_chapter_words', v_story.min_chapter_words,
+    'max_chapter_words', v_story.max_chapter_words,
+    'ai_enhancement_allowed', v_story.ai_enhancement_allowed,
+    'content_rating', v_story.content_rating,
+    'target_chapters', v_story.target_chapters
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. The settings only change through update_story_settings, like the turn
+CREATE OR REPLACE FUNCTION public.guard_story_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND (
+    NEW.current_turn IS DISTINCT FROM OLD.current_turn
+    OR NEW.turn_deadline_hours IS DISTINCT FROM OLD.turn_deadline_hours
+    OR NEW.turn_grace_hours IS DISTINCT FROM OLD.turn_grace_hours
+    OR NEW.turn_reminder_hours IS DISTINCT FROM OLD.turn_reminder_hours
+    OR NEW.turn_mode IS DISTINCT FROM OLD.turn_mode
+    OR NEW.min_chapter_words IS DISTINCT FROM OLD.min_chapter_words
+    OR NEW.max_chapter_words IS DISTINCT FROM OLD.max_chapter_words
+    OR NEW.ai_enhancement_allowed IS DISTINCT FROM OLD.ai_enhancement_allowed
+    OR NEW.content_rating IS DISTINCT FROM OLD.content_rating
+    OR NEW.target_chapters IS DISTINCT FROM OLD.target_chapters
+  ) THEN
+    RAISE EXCEPTION 'The turn and story settings can only be changed through the story RPCs'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.update_story_settings FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.count_words(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_story_settings(UUID, TEXT, INTEGER, INTEGER, BOOLEAN, TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.update_story_settings IS 'Sets a story''s turn mode, chapter length limits, AI enhancement rule, content rating and target length. Any member can call it.';
+COMMENT ON FUNCTION public.enforce_story_settings IS 'Holds chapter writes to the story''s length limits and AI enhancement rule';
+COMMENT ON COLUMN public.stories.turn_mode IS 'alternate: strict turns without a deadline; timed: strict turns that expire; free: anyone may write at any time';
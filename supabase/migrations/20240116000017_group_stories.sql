@@ -0,0 +1,304 @@
+-- Group stories
+-- Stories were written by exactly two people: turn_order could only be 1 or
+-- 2 and the pairing code stopped working once a partner had joined. A story
+-- now takes up to max_members writers, who join with the same pairing code
+-- and take turns in an order the members can change.
+--
+-- Relationship metrics still look at the couple only. In a group story the
+-- turn order decides who follows whom, so a partner continuing the other's
+-- chapter says little about how quickly they reply to each other; response
+-- time only counts stories the two of them write alone.
+
+-- 1. How many writers a story takes
+ALTER TABLE public.stories
+  ADD COLUMN IF NOT EXISTS max_members INTEGER NOT NULL DEFAULT 2;
+
+ALTER TABLE public.stories DROP CONSTRAINT IF EXISTS stories_max_members_range;
+ALTER TABLE public.stories
+  ADD CONSTRAINT stories_max_members_range CHECK (max_members BETWEEN 2 AND 8);
+
+-- 2. Any number of turn positions, one member per position. Existing
+-- stories keep their order; members without a position go last.
+ALTER TABLE public.story_members DROP CONSTRAINT IF EXISTS story_members_turn_order_check;
+
+UPDATE public.story_members sm
+SET turn_order = ordered.position
+FROM (
+  SELECT story_id, user_id,
+    row_number() OVER (PARTITION BY story_id ORDER BY turn_order NULLS LAST, joined_at, user_id) AS position
+  FROM public.story_members
+) ordered
+WHERE sm.story_id = ordered.story_id
+  AND sm.user_id = ordered.user_id
+  AND sm.turn_order IS DISTINCT FROM ordered.position;
+
+ALTER TABLE public.story_members
+  ADD CONSTRAINT story_members_turn_order_check CHECK (turn_order >= 1);
+
+-- Checked at the end of each statement, so one UPDATE can swap positions
+ALTER TABLE public.story_members DROP CONSTRAINT IF EXISTS story_members_turn_order_unique;
+ALTER TABLE public.story_members
+  ADD CONSTRAINT story_members_turn_order_unique UNIQUE (story_id, turn_order)
+  DEFERRABLE INITIALLY IMMEDIATE;
+
+-- A member added without a position takes the next one
+CREATE OR REPLACE FUNCTION public.assign_member_turn_order()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.turn_order IS NULL THEN
+    SELECT COALESCE(MAX(turn_order), 0) + 1 INTO NEW.turn_order
+    FROM public.story_members
+    WHERE story_id = NEW.story_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_member_turn_order ON public.story_members;
+CREATE TRIGGER assign_member_turn_order
+  BEFORE INSERT ON public.story_members
+  FOR EACH ROW EXECUTE FUNCTION public.assign_member_turn_order();
+
+-- 3. Joining by pairing code works until the story is full. The new writer
+-- goes last in the turn order. The caller always joins themselves, as a
+-- partner: the old signature took the user id and role from the client.
+DROP FUNCTION IF EXISTS join_story_by_pairing_code(TEXT, UUID, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION join_story_by_pairing_code(
+  p_pairing_code TEXT
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_story public.stories;
+  v_member_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Concurrent joins wait here, so two people cannot take the last seat
+  SELECT * INTO v_story FROM public.stories WHERE pairing_code = p_pairing_code FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid pairing code');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = v_story.id AND user_id = v_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Already a member of this story');
+  END IF;
+
+  SELECT COUNT(*) INTO v_member_count FROM public.story_members WHERE story_id = v_story.id;
+
+  IF v_member_count >= v_story.max_members THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', format('This story is full (%s writers)', v_story.max_members)
+    );
+  END IF;
+
+  INSERT INTO public.story_members (story_id, user_id, role)
+  VALUES (v_story.id, v_user_id, 'partner');
+
+  RETURN json_build_object(
+    'success', true,
+    'story_id', v_story.id,
+    'story_title', v_story.title,
+    'pairing_code', v_story.pairing_code
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Turn order and group size (any member)
+-- p_member_order lists every member's user id, first writer first.
+CREATE OR REPLACE FUNCTION public.update_story_writers(
+  p_story_id UUID,
+  p_member_order UUID[],
+  p_max_members INTEGER
+) RETURNS JSON AS $$
+DECLARE
+  v_member_count INTEGER;
+BEGIN
+  PERFORM 1 FROM public.stories WHERE id = p_story_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = auth.uid()
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Story not found');
+  END IF;
+
+  SELECT COUNT(*) INTO v_member_count FROM public.story_members WHERE story_id = p_story_id;
+
+  IF p_max_members IS NULL OR p_max_members NOT BETWEEN 2 AND 8 THEN
+    RETURN json_build_object('success', false, 'error', 'A story can have 2 to 8 writers');
+  END IF;
+
+  IF p_max_members < v_member_count THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', format('This story already has %s writers', v_member_count)
+    );
+  END IF;
+
+  IF p_member_order IS NULL
+    OR cardinality(p_member_order) <> v_member_count
+    OR (SELECT COUNT(DISTINCT u) FROM unnest(p_member_order) u) <> v_member_count
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_member_order) u
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = u
+      )
+    )
+  THEN
+    RETURN json_build_object('success', false, 'error', 'The writers changed. Refresh and try again.');
+  END IF;
+
+  UPDATE public.story_members sm
+  SET turn_order = o.position
+  FROM unnest(p_member_order) WITH ORDINALITY AS o(user_id, position)
+  WHERE sm.story_id = p_story_id
+    AND sm.user_id = o.user_id
+    AND sm.turn_order IS DISTINCT FROM o.position;
+
+  UPDATE public.stories SET max_members = p_max_members WHERE id = p_story_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'max_members', p_max_members,
+    'member_order', p_member_order
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Relationship metrics: as before, plus the number of group stories the
+-- couple wrote in, and response time limited to stories for two
+CREATE OR REPLACE FUNCTION public.relationship_metrics(
+  p_relationship_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+) RETURNS JSON AS $$
+DECLARE
+  c_positive CONSTANT TEXT := 'love|happy|joy|wonderful|amazing|beautiful|perfect|great';
+  c_engaged CONSTANT TEXT := 'wonder|curious|explore|discover|imagine|think|feel';
+  c_deep CONSTANT TEXT := 'soul|heart|deep|meaning|purpose|journey|connection|intimate';
+  v_relationship public.relationships;
+  v_result JSON;
+BEGIN
+  SELECT * INTO v_relationship FROM public.relationships WHERE id = p_relationship_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  WITH shared_stories AS (
+    SELECT a.story_id,
+      (SELECT COUNT(*) FROM public.story_members m WHERE m.story_id = a.story_id) > 2 AS is_group
+    FROM public.story_members a
+    JOIN public.story_members b ON b.story_id = a.story_id
+    WHERE a.user_id = v_relationship.user_1
+      AND b.user_id = v_relationship.user_2
+  ),
+  written AS (
+    SELECT c.id, c.story_id, c.author_id, c.created_at, c.parent_chapter_id, s.is_group,
+      -- Rich text chapters are stored as HTML
+      regexp_replace(COALESCE(c.content, ''), '<[^>]*>', ' ', 'g') AS plain
+    FROM public.chapters c
+    JOIN shared_stories s ON s.story_id = c.story_id
+    WHERE c.author_id IN (v_relationship.user_1, v_relationship.user_2)
+      AND c.created_at >= p_from
+      AND c.created_at < p_to
+  ),
+  counted AS (
+    SELECT w.*,
+      COALESCE(array_length(regexp_split_to_array(btrim(w.plain), '\s+'), 1), 0)
+        - CASE WHEN btrim(w.plain) = '' THEN 1 ELSE 0 END AS words
+    FROM written w
+  ),
+  totals AS (
+    SELECT
+      COUNT(*)::INTEGER AS chapters_count,
+      COUNT(*) FILTER (WHERE author_id = v_relationship.user_1)::INTEGER AS user_1_chapters,
+      COUNT(*) FILTER (WHERE author_id = v_relationship.user_2)::INTEGER AS user_2_chapters,
+      COALESCE(SUM(words) FILTER (WHERE author_id = v_relationship.user_1), 0)::INTEGER AS user_1_words,
+      COALESCE(SUM(words) FILTER (WHERE author_id = v_relationship.user_2), 0)::INTEGER AS user_2_words,
+      COALESCE(SUM(words), 0)::INTEGER AS words,
+      COALESCE(SUM(public.count_tone_words(plain, c_positive)), 0) AS positive_words,
+      COALESCE(SUM(public.count_tone_words(plain, c_engaged)), 0) AS engaged_words,
+      COALESCE(SUM(public.count_tone_words(plain, c_deep)), 0) AS deep_words,
+      COUNT(DISTINCT story_id)::INTEGER AS active_stories,
+      COUNT(DISTINCT story_id) FILTER (WHERE is_group)::INTEGER AS group_stories
+    FROM counted
+  ),
+  -- A response is a chapter that continues the partner's chapter in a story
+  -- the two of them write alone
+  responses AS (
+    SELECT EXTRACT(EPOCH FROM (w.created_at - p.created_at)) / 3600.0 AS hours
+    FROM written w
+    JOIN public.chapters p ON p.id = w.parent_chapter_id
+    WHERE NOT w.is_group
+      AND p.author_id IN (v_relationship.user_1, v_relationship.user_2)
+      AND p.author_id <> w.author_id
+  )
+  SELECT json_build_object(
+    'user_1', v_relationship.user_1,
+    'user_2', v_relationship.user_2,
+    'chapters_count', t.chapters_count,
+    'user_1_chapters', t.user_1_chapters,
+    'user_2_chapters', t.user_2_chapters,
+    'user_1_words', t.user_1_words,
+    'user_2_words', t.user_2_words,
+    'writing_balance', CASE WHEN t.words > 0
+      THEN ROUND(100 - ABS(t.user_1_words - t.user_2_words) * 100.0 / t.words)::INTEGER
+    END,
+    'avg_response_hours', (SELECT ROUND(AVG(hours)::NUMERIC, 2) FROM responses),
+    'responses_count', (SELECT COUNT(*)::INTEGER FROM responses),
+    'positivity', CASE WHEN t.words > 0 THEN ROUND(t.positive_words * 1000.0 / t.words, 2) END,
+    'engagement', CASE WHEN t.words > 0 THEN ROUND(t.engaged_words * 1000.0 / t.words, 2) END,
+    'depth', CASE WHEN t.words > 0 THEN ROUND(t.deep_words * 1000.0 / t.words, 2) END,
+    'active_stories', t.active_stories,
+    'group_stories', t.group_stories
+  ) INTO v_result
+  FROM totals t;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 6. The group size only changes through update_story_writers
+CREATE OR REPLACE FUNCTION public.guard_story_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND (
+    NEW.current_turn IS DISTINCT FROM OLD.current_turn
+    OR NEW.turn_deadline_hours IS DISTINCT FROM OLD.turn_deadline_hours
+    OR NEW.turn_grace_hours IS DISTINCT FROM OLD.turn_grace_hours
+    OR NEW.turn_reminder_hours IS DISTINCT FROM OLD.turn_reminder_hours
+    OR NEW.turn_mode IS DISTINCT FROM OLD.turn_mode
+    OR NEW.min_chapter_words IS DISTINCT FROM OLD.min_chapter_words
+    OR NEW.max_chapter_words IS DISTINCT FROM OLD.max_chapter_words
+    OR NEW.ai_enhancement_allowed IS DISTINCT FROM OLD.ai_enhancement_allowed
+    OR NEW.content_rating IS DISTINCT FROM OLD.content_rating
+    OR NEW.target_chapters IS DISTINCT FROM OLD.target_chapters
+    OR NEW.max_members IS DISTINCT FROM OLD.max_members
+  ) THEN
+    RAISE EXCEPTION 'The turn and story settings can only be changed through the story RPCs'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.assign_member_turn_order FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.relationship_metrics FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION join_story_by_pairing_code FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.update_story_writers FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION join_story_by_pairing_code(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_story_writers(UUID, UUID[], INTEGER) TO authenticated;
+
+COMMENT ON COLUMN public.stories.max_members IS 'How many writers can join the story with its pairing code (2 to 8)';
+COMMENT ON FUNCTION join_story_by_pairing_code IS 'Adds the caller to the story with this pairing code, last in the turn order, while the story has room';
+COMMENT ON FUNCTION public.update_story_writers IS 'Sets a story''s turn order (every member''s user id, first writer first) and how many writers it takes. Any member can call it.';
+COMMENT ON FUNCTION public.relationship_metrics IS 'Writing balance, response time and tone for a relationship across all shared stories in [p_from, p_to). Response time only counts stories the couple writes alone.';
@@ -0,0 +1,213 @@
+-- Offline outbox
+-- The app queues writes made offline and replays them in order once it is
+-- back online. Rows created offline get their id on the device, so a chapter
+-- written offline can point at a story that was also created offline. Two
+-- things are needed on the server for that:
+--   - the drafts table the editor has been saving to
+--   - submit_chapter taking the chapter's id from the client, and treating a
+--     second submission of the same id as already done, since a replay can
+--     follow a submission whose response never arrived
+
+-- 1. Drafts
+CREATE TABLE IF NOT EXISTS public.drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  chapter_id UUID NULL REFERENCES public.chapters(id) ON DELETE SET NULL,
+  content TEXT NOT NULL DEFAULT '',
+  context_snippet TEXT NULL,
+  is_auto_saved BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_drafts_user_story ON public.drafts(user_id, story_id);
+
+CREATE OR REPLACE FUNCTION public.touch_draft()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_draft ON public.drafts;
+CREATE TRIGGER touch_draft
+  BEFORE UPDATE ON public.drafts
+  FOR EACH ROW EXECUTE FUNCTION public.touch_draft();
+
+ALTER TABLE public.drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own drafts" ON public.drafts;
+CREATE POLICY "Users can manage their own drafts"
+  ON public.drafts FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.story_members
+      WHERE story_id = drafts.story_id AND user_id = auth.uid()
+    )
+  );
+
+-- 2. submit_chapter with a client chapter id. The new parameter changes the
+-- signature, so the old function goes.
+DROP FUNCTION IF EXISTS public.submit_chapter(UUID, TEXT, UUID, UUID, TEXT, TEXT, JSONB, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.submit_chapter(
+  p_story_id UUID,
+  p_content TEXT,
+  p_parent_chapter_id UUID DEFAULT NULL,
+  p_choice_id UUID DEFAULT NULL,
+  p_context_snippet TEXT DEFAULT NULL,
+  p_ai_enhanced_content TEXT DEFAULT NULL,
+  p_choices JSONB DEFAULT NULL,
+  p_inspiration_ids UUID[] DEFAULT NULL,
+  p_chapter_id UUID DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_story public.stories;
+  v_parent public.chapters;
+  v_chapter public.chapters;
+  v_result JSON;
+  v_next_turn UUID;
+  v_streak INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot submit empty chapter');
+  END IF;
+
+  -- Every submission to a story waits here, so the parent and chapter number
+  -- below cannot change under us
+  SELECT * INTO v_story FROM public.stories WHERE id = p_story_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = v_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Story not found');
+  END IF;
+
+  -- A replay of a submission that already went through. The turn has moved
+  -- on since, so this is answered before the turn check.
+  IF p_chapter_id IS NOT NULL THEN
+    SELECT * INTO v_chapter FROM public.chapters WHERE id = p_chapter_id;
+
+    IF FOUND THEN
+      IF v_chapter.story_id <> p_story_id OR v_chapter.author_id <> v_user_id THEN
+        RETURN json_build_object('success', false, 'error', 'Chapter id already in use');
+      END IF;
+
+      SELECT current_streak INTO v_streak FROM public.writing_streaks WHERE user_id = v_user_id;
+
+      RETURN json_build_object(
+        'success', true,
+        'chapter', row_to_json(v_chapter),
+        'current_turn', v_story.current_turn,
+        'streak', COALESCE(v_streak, 0)
+      );
+    END IF;
+  END IF;
+
+  -- Nobody holds the turn before the first writer is set; any member may start
+  IF v_story.turn_mode <> 'free'
+    AND v_story.current_turn IS NOT NULL
+    AND NOT is_user_turn(p_story_id, v_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'It is not your turn');
+  END IF;
+
+  IF p_choice_id IS NOT NULL THEN
+    SELECT ch.* INTO v_parent
+    FROM public.chapter_choices cc
+    JOIN public.chapters ch ON ch.id = cc.chapter_id
+    WHERE cc.id = p_choice_id AND cc.story_id = p_story_id;
+
+    IF NOT FOUND THEN
+      RETURN json_build_object('success', false, 'error', 'That choice no longer exists');
+    END IF;
+  ELSIF p_parent_chapter_id IS NOT NULL THEN
+    SELECT * INTO v_parent
+    FROM public.chapters
+    WHERE id = p_parent_chapter_id AND story_id = p_story_id;
+
+    IF NOT FOUND THEN
+      RETURN json_build_object('success', false, 'error', 'Previous chapter not found');
+    END IF;
+  ELSE
+    SELECT * INTO v_parent FROM public.chapters WHERE id = public.story_active_leaf(p_story_id);
+
+    IF FOUND AND EXISTS (SELECT 1 FROM public.chapter_choices WHERE chapter_id = v_parent.id) THEN
+      IF EXISTS (
+        SELECT 1 FROM public.chapter_choices cc
+        WHERE cc.chapter_id = v_parent.id
+          AND NOT EXISTS (SELECT 1 FROM public.chapters c WHERE c.choice_id = cc.id)
+      ) THEN
+        RETURN json_build_object('success', false, 'error', 'The last chapter ends with choices. Pick one to continue.');
+      END IF;
+      RETURN json_build_object('success', false, 'error', 'Every choice in the last chapter has been written. Continue one of the branches instead.');
+    END IF;
+  END IF;
+
+  -- The insert and the choices succeed or fail together
+  BEGIN
+    INSERT INTO public.chapters (
+      id, story_id, author_id, chapter_number, parent_chapter_id, choice_id,
+      content, ai_enhanced_content, context_snippet
+    ) VALUES (
+      COALESCE(p_chapter_id, gen_random_uuid()), p_story_id, v_user_id,
+      COALESCE(v_parent.chapter_number + 1, 1), v_parent.id, p_choice_id,
+      p_content, p_ai_enhanced_content, p_context_snippet
+    )
+    RETURNING * INTO v_chapter;
+
+    IF p_choices IS NOT NULL AND jsonb_array_length(p_choices) > 0 THEN
+      v_result := public.set_chapter_choices(v_chapter.id, p_choices);
+      IF NOT COALESCE((v_result->>'success')::BOOLEAN, false) THEN
+        RAISE EXCEPTION '%', COALESCE(v_result->>'error', 'Failed to save chapter choices')
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RETURN json_build_object('success', false, 'error', 'Your partner already continued this part of the story. Refresh to read it.');
+    WHEN check_violation THEN
+      RETURN json_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  -- The chapter is saved either way; inspirations are only linked to it
+  IF p_inspiration_ids IS NOT NULL AND cardinality(p_inspiration_ids) > 0 THEN
+    BEGIN
+      PERFORM public.mark_inspirations_woven(v_chapter.id, p_inspiration_ids);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not mark inspirations woven for chapter %: %', v_chapter.id, SQLERRM;
+    END;
+  END IF;
+
+  -- Take the turn first so it is recorded as written, then hand it on
+  IF v_story.current_turn IS DISTINCT FROM v_user_id THEN
+    UPDATE public.stories SET current_turn = v_user_id WHERE id = p_story_id;
+  END IF;
+  v_next_turn := advance_turn(p_story_id);
+
+  SELECT current_streak INTO v_streak FROM public.writing_streaks WHERE user_id = v_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'chapter', row_to_json(v_chapter),
+    'current_turn', v_next_turn,
+    'streak', COALESCE(v_streak, 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.submit_chapter FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.touch_draft FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.submit_chapter(UUID, TEXT, UUID, UUID, TEXT, TEXT, JSONB, UUID[], UUID) TO authenticated;
+
+COMMENT ON TABLE public.drafts IS 'Unsubmitted chapter drafts, one row per draft, synced from the editor';
+COMMENT ON FUNCTION public.submit_chapter IS 'Writes a chapter for the member whose turn it is: resolves the parent, numbers and inserts the chapter with its choices, links woven inspirations and passes the turn on, all in one transaction. Submitting a p_chapter_id that was already written returns that chapter.';
@@ -0,0 +1,588 @@
+-- Chapter conflicts
+-- When both partners write while offline, the second chapter to reach the
+-- server finds its place in the story taken (or the turn gone), or the
+-- story's rules changed under it (a new word limit, a previous chapter that
+-- now ends with choices). Instead of rejecting it, submit_chapter sets it
+-- aside as a conflict when the outbox asks it to, and the couple decides
+-- what happens to it: keep the chapter already in the story, keep the
+-- offline one, merge the two (also how a chapter is edited to fit the rules),
+-- or make the offline one an alternate branch. Text that gets replaced stays
+-- in the chapter's revision history, and the set-aside text stays on the
+-- conflict row, so nothing anyone wrote is lost.
+
+-- 1. Conflicts
+CREATE TABLE IF NOT EXISTS public.chapter_conflicts (
+  -- The chapter id the client gave the submission, so a replay finds it
+  id UUID PRIMARY KEY,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  parent_chapter_id UUID NULL REFERENCES public.chapters(id) ON DELETE SET NULL,
+  choice_id UUID NULL REFERENCES public.chapter_choices(id) ON DELETE SET NULL,
+  existing_chapter_id UUID NULL REFERENCES public.chapters(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  ai_enhanced_content TEXT NULL,
+  context_snippet TEXT NULL,
+  choices JSONB NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('taken', 'turn', 'missing', 'rules')),
+  -- What the story's rules refused, for 'rules'
+  refusal TEXT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  resolution TEXT NULL CHECK (resolution IN ('keep_existing', 'keep_offline', 'merge', 'branch')),
+  chapter_id UUID NULL REFERENCES public.chapters(id) ON DELETE SET NULL,
+  resolved_by UUID NULL REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_conflicts_open
+  ON public.chapter_conflicts(story_id, created_at) WHERE status = 'open';
+
+-- Written only by the functions below
+ALTER TABLE public.chapter_conflicts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Story members can view chapter conflicts" ON public.chapter_conflicts;
+CREATE POLICY "Story members can view chapter conflicts"
+  ON public.chapter_conflicts FOR SELECT
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+-- 2. Resolution revisions
+ALTER TABLE public.chapter_revisions DROP CONSTRAINT IF EXISTS chapter_revisions_reason_check;
+ALTER TABLE public.chapter_revisions
+  ADD CONSTRAINT chapter_revisions_reason_check
+  CHECK (reason IN ('created', 'edited', 'restored', 'resolved'));
+
+-- 3. Let a conflict turn a plain continuation into one of two branches.
+-- Chapters still cannot be moved otherwise; resolve_chapter_conflict marks
+-- its update through app.chapter_conflict_branch.
+CREATE OR REPLACE FUNCTION public.set_chapter_branch_position()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parent public.chapters;
+  v_choice public.chapter_choices;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.choice_id IS NULL
+      AND NEW.choice_id IS NOT NULL
+      AND NEW.parent_chapter_id IS NOT DISTINCT FROM OLD.parent_chapter_id
+      AND current_setting('app.chapter_conflict_branch', true) = 'on' THEN
+      SELECT * INTO v_choice FROM public.chapter_choices WHERE id = NEW.choice_id;
+      IF NOT FOUND OR v_choice.chapter_id IS DISTINCT FROM NEW.parent_chapter_id THEN
+        RAISE EXCEPTION 'Choice does not belong to the parent chapter'
+          USING ERRCODE = 'check_violation';
+      END IF;
+      RETURN NEW;
+    END IF;
+
+    IF NEW.parent_chapter_id IS DISTINCT FROM OLD.parent_chapter_id
+      OR (NEW.choice_id IS DISTINCT FROM OLD.choice_id AND NEW.choice_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'A chapter cannot be moved to another branch'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_chapter_id IS NULL THEN
+    IF NEW.choice_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A chapter that continues a choice needs a parent chapter'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.chapter_number := 1;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM public.chapters WHERE id = NEW.parent_chapter_id;
+  IF NOT FOUND OR v_parent.story_id <> NEW.story_id THEN
+    RAISE EXCEPTION 'Parent chapter must belong to the same story'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.choice_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.chapter_choices WHERE chapter_id = v_parent.id) THEN
+      RAISE EXCEPTION 'The previous chapter ends with choices; pick one to continue'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    SELECT * INTO v_choice FROM public.chapter_choices WHERE id = NEW.choice_id;
+    IF NOT FOUND OR v_choice.chapter_id <> v_parent.id THEN
+      RAISE EXCEPTION 'Choice does not belong to the parent chapter'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.chapter_number := v_parent.chapter_number + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. The chapter now holding the place a submission meant to take: the
+-- continuation of its choice, of its parent, or the story's first chapter
+CREATE OR REPLACE FUNCTION public.chapter_at_place(
+  p_story_id UUID,
+  p_parent_chapter_id UUID,
+  p_choice_id UUID
+) RETURNS public.chapters AS $$
+DECLARE
+  v_chapter public.chapters;
+BEGIN
+  IF p_choice_id IS NOT NULL THEN
+    SELECT * INTO v_chapter FROM public.chapters
+    WHERE story_id = p_story_id AND choice_id = p_choice_id;
+  ELSIF p_parent_chapter_id IS NOT NULL THEN
+    SELECT * INTO v_chapter FROM public.chapters
+    WHERE story_id = p_story_id AND parent_chapter_id = p_parent_chapter_id AND choice_id IS NULL;
+  ELSE
+    SELECT * INTO v_chapter FROM public.chapters
+    WHERE story_id = p_story_id AND parent_chapter_id IS NULL;
+  END IF;
+
+  RETURN v_chapter;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 5. Set a submission aside
+CREATE OR REPLACE FUNCTION public.hold_chapter_conflict(
+  p_conflict_id UUID,
+  p_story_id UUID,
+  p_author_id UUID,
+  p_parent_chapter_id UUID,
+  p_choice_id UUID,
+  p_content TEXT,
+  p_ai_enhanced_content TEXT,
+  p_context_snippet TEXT,
+  p_choices JSONB,
+  p_reason TEXT,
+  p_refusal TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_existing public.chapters;
+  v_conflict public.chapter_conflicts;
+BEGIN
+  -- A chapter whose parent is gone has no place left to compare with
+  IF p_reason <> 'missing' THEN
+    v_existing := public.chapter_at_place(p_story_id, p_parent_chapter_id, p_choice_id);
+  END IF;
+
+  INSERT INTO public.chapter_conflicts (
+    id, story_id, author_id, parent_chapter_id, choice_id, existing_chapter_id,
+    content, ai_enhanced_content, context_snippet, choices, reason, refusal
+  ) VALUES (
+    p_conflict_id, p_story_id, p_author_id,
+    COALESCE(
+      (SELECT chapter_id FROM public.chapter_choices WHERE id = p_choice_id),
+      (SELECT id FROM public.chapters WHERE id = p_parent_chapter_id)
+    ),
+    (SELECT id FROM public.chapter_choices WHERE id = p_choice_id),
+    v_existing.id, p_content, p_ai_enhanced_content, p_context_snippet,
+    CASE WHEN p_choices IS NOT NULL AND jsonb_array_length(p_choices) > 0 THEN p_choices END,
+    p_reason, p_refusal
+  )
+  RETURNING * INTO v_conflict;
+
+  RETURN json_build_object('success', true, 'conflict', row_to_json(v_conflict));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. submit_chapter, able to hold conflicts. With p_hold_conflicts (sent by
+-- the outbox) a chapter whose place was taken, whose turn has moved on, whose
+-- parent is gone or that the story's rules refuse is set aside instead of
+-- rejected, so the text written offline is never dropped. In that mode no
+-- parent and no choice means the writer saw an empty story, not "continue
+-- the latest chapter", since the latest chapter may be one they never read.
+DROP FUNCTION IF EXISTS public.submit_chapter(UUID, TEXT, UUID, UUID, TEXT, TEXT, JSONB, UUID[], UUID);
+
+CREATE OR REPLACE FUNCTION public.submit_chapter(
+  p_story_id UUID,
+  p_content TEXT,
+  p_parent_chapter_id UUID DEFAULT NULL,
+  p_choice_id UUID DEFAULT NULL,
+  p_context_snippet TEXT DEFAULT NULL,
+  p_ai_enhanced_content TEXT DEFAULT NULL,
+  p_choices JSONB DEFAULT NULL,
+  p_inspiration_ids UUID[] DEFAULT NULL,
+  p_chapter_id UUID DEFAULT NULL,
+  p_hold_conflicts BOOLEAN DEFAULT false
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_story public.stories;
+  v_parent public.chapters;
+  v_chapter public.chapters;
+  v_conflict public.chapter_conflicts;
+  v_result JSON;
+  v_next_turn UUID;
+  v_streak INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot submit empty chapter');
+  END IF;
+
+  IF p_hold_conflicts AND p_chapter_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Held submissions need a chapter id');
+  END IF;
+
+  -- Every submission to a story waits here, so the parent and chapter number
+  -- below cannot change under us
+  SELECT * INTO v_story FROM public.stories WHERE id = p_story_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = p_story_id AND user_id = v_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Story not found');
+  END IF;
+
+  -- A replay of a submission that already went through, or was set aside.
+  -- The turn has moved on since, so this is answered before the turn check.
+  IF p_chapter_id IS NOT NULL THEN
+    SELECT * INTO v_chapter FROM public.chapters WHERE id = p_chapter_id;
+
+    IF FOUND THEN
+      IF v_chapter.story_id <> p_story_id OR v_chapter.author_id <> v_user_id THEN
+        RETURN json_build_object('success', false, 'error', 'Chapter id already in use');
+      END IF;
+
+      SELECT current_streak INTO v_streak FROM public.writing_streaks WHERE user_id = v_user_id;
+
+      RETURN json_build_object(
+        'success', true,
+        'chapter', row_to_json(v_chapter),
+        'current_turn', v_story.current_turn,
+        'streak', COALESCE(v_streak, 0)
+      );
+    END IF;
+
+    SELECT * INTO v_conflict FROM public.chapter_conflicts WHERE id = p_chapter_id;
+
+    IF FOUND THEN
+      IF v_conflict.story_id <> p_story_id OR v_conflict.author_id <> v_user_id THEN
+        RETURN json_build_object('success', false, 'error', 'Chapter id already in use');
+      END IF;
+      RETURN json_build_object('success', true, 'conflict', row_to_json(v_conflict));
+    END IF;
+  END IF;
+
+  -- Nobody holds the turn before the first writer is set; any member may start
+  IF v_story.turn_mode <> 'free'
+    AND v_story.current_turn IS NOT NULL
+    AND NOT is_user_turn(p_story_id, v_user_id) THEN
+    IF p_hold_conflicts THEN
+      RETURN public.hold_chapter_conflict(
+        p_chapter_id, p_story_id, v_user_id, p_parent_chapter_id, p_choice_id,
+        p_content, p_ai_enhanced_content, p_context_snippet, p_choices, 'turn'
+      );
+    END IF;
+    RETURN json_build_object('success', false, 'error', 'It is not your turn');
+  END IF;
+
+  IF p_choice_id IS NOT NULL THEN
+    SELECT ch.* INTO v_parent
+    FROM public.chapter_choices cc
+    JOIN public.chapters ch ON ch.id = cc.chapter_id
+    WHERE cc.id = p_choice_id AND cc.story_id = p_story_id;
+
+    IF NOT FOUND THEN
+      IF p_hold_conflicts THEN
+        RETURN public.hold_chapter_conflict(
+          p_chapter_id, p_story_id, v_user_id, p_parent_chapter_id, p_choice_id,
+          p_content, p_ai_enhanced_content, p_context_snippet, p_choices, 'missing'
+        );
+      END IF;
+      RETURN json_build_object('success', false, 'error', 'That choice no longer exists');
+    END IF;
+  ELSIF p_parent_chapter_id IS NOT NULL THEN
+    SELECT * INTO v_parent
+    FROM public.chapters
+    WHERE id = p_parent_chapter_id AND story_id = p_story_id;
+
+    IF NOT FOUND THEN
+      IF p_hold_conflicts THEN
+        RETURN public.hold_chapter_conflict(
+          p_chapter_id, p_story_id, v_user_id, p_parent_chapter_id, p_choice_id,
+          p_content, p_ai_enhanced_content, p_context_snippet, p_choices, 'missing'
+        );
+      END IF;
+      RETURN json_build_object('success', false, 'error', 'Previous chapter not found');
+    END IF;
+  ELSIF NOT p_hold_conflicts THEN
+    SELECT * INTO v_parent FROM public.chapters WHERE id = public.story_active_leaf(p_story_id);
+
+    IF FOUND AND EXISTS (SELECT 1 FROM public.chapter_choices WHERE chapter_id = v_parent.id) THEN
+      IF EXISTS (
+        SELECT 1 FROM public.chapter_choices cc
+        WHERE cc.chapter_id = v_parent.id
+          AND NOT EXISTS (SELECT 1 FROM public.chapters c WHERE c.choice_id = cc.id)
+      ) THEN
+        RETURN json_build_object('success', false, 'error', 'The last chapter ends with choices. Pick one to continue.');
+      END IF;
+      RETURN json_build_object('success', false, 'error', 'Every choice in the last chapter has been written. Continue one of the branches instead.');
+    END IF;
+  END IF;
+
+  -- The insert and the choices succeed or fail together
+  BEGIN
+    INSERT INTO public.chapters (
+      id, story_id, author_id, chapter_number, parent_chapter_id, choice_id,
+      content, ai_enhanced_content, context_snippet
+    ) VALUES (
+      COALESCE(p_chapter_id, gen_random_uuid()), p_story_id, v_user_id,
+      COALESCE(v_parent.chapter_number + 1, 1), v_parent.id, p_choice_id,
+      p_content, p_ai_enhanced_content, p_context_snippet
+    )
+    RETURNING * INTO v_chapter;
+
+    IF p_choices IS NOT NULL AND jsonb_array_length(p_choices) > 0 THEN
+      v_result := public.set_chapter_choices(v_chapter.id, p_choices);
+      IF NOT COALESCE((v_result->>'success')::BOOLEAN, false) THEN
+        RAISE EXCEPTION '%', COALESCE(v_result->>'error', 'Failed to save chapter choices')
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  EXCEPTION
+    WHEN unique_violation THEN
+      IF p_hold_conflicts THEN
+        RETURN public.hold_chapter_conflict(
+          p_chapter_id, p_story_id, v_user_id, v_parent.id, p_choice_id,
+          p_content, p_ai_enhanced_content, p_context_snippet, p_choices, 'taken'
+        );
+      END IF;
+      RETURN json_build_object('success', false, 'error', 'Your partner already continued this part of the story. Refresh to read it.');
+    WHEN check_violation THEN
+      IF p_hold_conflicts THEN
+        RETURN public.hold_chapter_conflict(
+          p_chapter_id, p_story_id, v_user_id, v_parent.id, p_choice_id,
+          p_content, p_ai_enhanced_content, p_context_snippet, p_choices, 'rules', SQLERRM
+        );
+      END IF;
+      RETURN json_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  -- The chapter is saved either way; inspirations are only linked to it
+  IF p_inspiration_ids IS NOT NULL AND cardinality(p_inspiration_ids) > 0 THEN
+    BEGIN
+      PERFORM public.mark_inspirations_woven(v_chapter.id, p_inspiration_ids);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not mark inspirations woven for chapter %: %', v_chapter.id, SQLERRM;
+    END;
+  END IF;
+
+  -- Take the turn first so it is recorded as written, then hand it on
+  IF v_story.current_turn IS DISTINCT FROM v_user_id THEN
+    UPDATE public.stories SET current_turn = v_user_id WHERE id = p_story_id;
+  END IF;
+  v_next_turn := advance_turn(p_story_id);
+
+  SELECT current_streak INTO v_streak FROM public.writing_streaks WHERE user_id = v_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'chapter', row_to_json(v_chapter),
+    'current_turn', v_next_turn,
+    'streak', COALESCE(v_streak, 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Decide what happens to a conflict
+--   keep_existing  the chapter in the story stays; the offline one is archived
+--   keep_offline   the offline text replaces it, or fills the place if it is free
+--   merge          p_content (the couple's combined text) replaces it
+--   branch         both stay, as two choices at the end of the chapter before;
+--                  when that chapter already ends with choices and nothing
+--                  took the place, the offline one is added as another choice
+-- p_choice_titles names the branches: the existing chapter's, then the new one's.
+CREATE OR REPLACE FUNCTION public.resolve_chapter_conflict(
+  p_conflict_id UUID,
+  p_resolution TEXT,
+  p_content TEXT DEFAULT NULL,
+  p_choice_titles TEXT[] DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_conflict public.chapter_conflicts;
+  v_existing public.chapters;
+  v_parent public.chapters;
+  v_chapter_id UUID;
+  v_choice_id UUID;
+  v_position INTEGER;
+  v_choice JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_resolution NOT IN ('keep_existing', 'keep_offline', 'merge', 'branch') THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown resolution');
+  END IF;
+
+  SELECT * INTO v_conflict FROM public.chapter_conflicts WHERE id = p_conflict_id;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.story_members WHERE story_id = v_conflict.story_id AND user_id = v_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Conflict not found');
+  END IF;
+
+  -- Waits for submissions to the story, then for anyone else resolving this
+  PERFORM 1 FROM public.stories WHERE id = v_conflict.story_id FOR UPDATE;
+  SELECT * INTO v_conflict FROM public.chapter_conflicts WHERE id = p_conflict_id FOR UPDATE;
+
+  IF v_conflict.status <> 'open' THEN
+    RETURN json_build_object('success', false, 'error', 'Your partner already resolved this');
+  END IF;
+
+  IF p_resolution = 'merge' AND (p_content IS NULL OR btrim(p_content) = '') THEN
+    RETURN json_build_object('success', false, 'error', 'The merged chapter is empty');
+  END IF;
+
+  -- The place may have been filled since the conflict was held
+  IF v_conflict.reason <> 'missing' THEN
+    v_existing := public.chapter_at_place(v_conflict.story_id, v_conflict.parent_chapter_id, v_conflict.choice_id);
+  END IF;
+
+  BEGIN
+    IF p_resolution = 'keep_existing' THEN
+      IF v_existing.id IS NULL THEN
+        RETURN json_build_object('success', false, 'error', 'Nothing is in the story in its place anymore. Add the offline chapter or merge it instead.');
+      END IF;
+      v_chapter_id := v_existing.id;
+
+    ELSIF p_resolution IN ('keep_offline', 'merge') AND v_existing.id IS NOT NULL THEN
+      PERFORM set_config('app.revision_reason', 'resolved', true);
+
+      UPDATE public.chapters
+      SET content = COALESCE(CASE WHEN p_resolution = 'merge' THEN p_content END, v_conflict.content),
+          ai_enhanced_content = CASE WHEN p_resolution = 'merge' THEN NULL ELSE v_conflict.ai_enhanced_content END,
+          context_snippet = CASE WHEN p_resolution = 'merge' THEN context_snippet ELSE v_conflict.context_snippet END,
+          author_id = CASE WHEN p_resolution = 'merge' THEN author_id ELSE v_conflict.author_id END
+      WHERE id = v_existing.id;
+
+      PERFORM set_config('app.revision_reason', '', true);
+      v_chapter_id := v_existing.id;
+
+    ELSIF p_resolution IN ('keep_offline', 'merge') THEN
+      -- Nothing took the place, so the chapter goes in now. A parent that was
+      -- deleted is replaced by the end of the story.
+      IF v_conflict.parent_chapter_id IS NULL AND v_conflict.reason = 'missing' THEN
+        SELECT * INTO v_parent FROM public.chapters WHERE id = public.story_active_leaf(v_conflict.story_id);
+        IF FOUND AND EXISTS (SELECT 1 FROM public.chapter_choices WHERE chapter_id = v_parent.id) THEN
+          RETURN json_build_object('success', false, 'error', 'The story ends with choices now. Copy the text into a new chapter instead.');
+        END IF;
+      ELSIF v_conflict.parent_chapter_id IS NOT NULL THEN
+        SELECT * INTO v_parent FROM public.chapters WHERE id = v_conflict.parent_chapter_id;
+      END IF;
+
+      INSERT INTO public.chapters (
+        id, story_id, author_id, chapter_number, parent_chapter_id, choice_id,
+        content, ai_enhanced_content, context_snippet
+      ) VALUES (
+        v_conflict.id, v_conflict.story_id, v_conflict.author_id,
+        COALESCE(v_parent.chapter_number + 1, 1), v_parent.id,
+        CASE WHEN v_parent.id = v_conflict.parent_chapter_id THEN v_conflict.choice_id END,
+        COALESCE(CASE WHEN p_resolution = 'merge' THEN p_content END, v_conflict.content),
+        CASE WHEN p_resolution = 'merge' THEN NULL ELSE v_conflict.ai_enhanced_content END,
+        v_conflict.context_snippet
+      );
+      v_chapter_id := v_conflict.id;
+
+    ELSIF p_resolution = 'branch' THEN
+      IF v_existing.id IS NOT NULL THEN
+        IF v_existing.parent_chapter_id IS NULL THEN
+          RETURN json_build_object('success', false, 'error', 'Both chapters start the story, so only one can. Keep one or merge them.');
+        END IF;
+        SELECT * INTO v_parent FROM public.chapters WHERE id = v_existing.parent_chapter_id;
+      ELSIF v_conflict.parent_chapter_id IS NOT NULL
+        AND EXISTS (SELECT 1 FROM public.chapter_choices WHERE chapter_id = v_conflict.parent_chapter_id) THEN
+        SELECT * INTO v_parent FROM public.chapters WHERE id = v_conflict.parent_chapter_id;
+      ELSE
+        RETURN json_build_object('success', false, 'error', 'Nothing was written in its place, so keep it instead');
+      END IF;
+
+      -- A plain continuation becomes the first of two choices
+      IF v_existing.id IS NOT NULL AND v_existing.choice_id IS NULL THEN
+        INSERT INTO public.chapter_choices (chapter_id, story_id, position, title, created_by)
+        VALUES (
+          v_parent.id, v_parent.story_id, 1,
+          left(COALESCE(NULLIF(btrim(p_choice_titles[1]), ''), 'As it was written'), 120),
+          v_existing.author_id
+        )
+        RETURNING id INTO v_choice_id;
+
+        PERFORM set_config('app.chapter_conflict_branch', 'on', true);
+        UPDATE public.chapters SET choice_id = v_choice_id WHERE id = v_existing.id;
+        PERFORM set_config('app.chapter_conflict_branch', '', true);
+      END IF;
+
+      SELECT COALESCE(MAX(position), 0) + 1 INTO v_position
+      FROM public.chapter_choices WHERE chapter_id = v_parent.id;
+
+      IF v_position > 4 THEN
+        RETURN json_build_object('success', false, 'error', 'That chapter already ends with four choices. Keep one or merge them.');
+      END IF;
+
+      INSERT INTO public.chapter_choices (chapter_id, story_id, position, title, created_by)
+      VALUES (
+        v_parent.id, v_parent.story_id, v_position,
+        left(COALESCE(NULLIF(btrim(p_choice_titles[2]), ''), 'Another way'), 120),
+        v_conflict.author_id
+      )
+      RETURNING id INTO v_choice_id;
+
+      INSERT INTO public.chapters (
+        id, story_id, author_id, chapter_number, parent_chapter_id, choice_id,
+        content, ai_enhanced_content, context_snippet
+      ) VALUES (
+        v_conflict.id, v_conflict.story_id, v_conflict.author_id,
+        v_parent.chapter_number + 1, v_parent.id, v_choice_id,
+        v_conflict.content, v_conflict.ai_enhanced_content, v_conflict.context_snippet
+      );
+      v_chapter_id := v_conflict.id;
+    END IF;
+
+    -- A chapter that went in new keeps the choices it was written with. The
+    -- author check in set_chapter_choices is skipped: either partner decides.
+    IF v_chapter_id = v_conflict.id AND v_conflict.choices IS NOT NULL THEN
+      v_position := 0;
+      FOR v_choice IN SELECT * FROM jsonb_array_elements(v_conflict.choices) LOOP
+        v_position := v_position + 1;
+        INSERT INTO public.chapter_choices (chapter_id, story_id, position, title, description, created_by)
+        VALUES (
+          v_chapter_id, v_conflict.story_id, v_position,
+          trim(v_choice->>'title'),
+          NULLIF(trim(COALESCE(v_choice->>'description', '')), ''),
+          v_conflict.author_id
+        );
+      END LOOP;
+    END IF;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RETURN json_build_object('success', false, 'error', 'The story changed while you were deciding. Refresh and try again.');
+    WHEN check_violation THEN
+      RETURN json_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  UPDATE public.chapter_conflicts
+  SET status = 'resolved',
+      resolution = p_resolution,
+      chapter_id = v_chapter_id,
+      resolved_by = v_user_id,
+      resolved_at = NOW()
+  WHERE id = p_conflict_id;
+
+  RETURN json_build_object('success', true, 'chapter_id', v_chapter_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.submit_chapter FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resolve_chapter_conflict FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.chapter_at_place FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.hold_chapter_conflict FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.submit_chapter(UUID, TEXT, UUID, UUID, TEXT, TEXT, JSONB, UUID[], UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_chapter_conflict(UUID, TEXT, TEXT, TEXT[]) TO authenticated;
+
+COMMENT ON TABLE public.chapter_conflicts IS 'Chapters written offline that could not go where they were written for, kept until the couple decides what to do with them';
+COMMENT ON FUNCTION public.submit_chapter IS 'Writes a chapter for the member whose turn it is: resolves the parent, numbers and inserts the chapter with its choices, links woven inspirations and passes the turn on, all in one transaction. Submitting a p_chapter_id that was already written returns that chapter. With p_hold_conflicts a chapter that cannot go in is kept as a chapter_conflicts row.';
+COMMENT ON FUNCTION public.resolve_chapter_conflict IS 'Settles a chapter conflict by keeping the existing chapter, keeping the offline one, merging them, or making the offline one an alternate branch.';
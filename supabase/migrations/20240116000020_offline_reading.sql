@@ -0,0 +1,77 @@
+-- Offline reading
+-- The app keeps a local copy of each story a user downloads and refreshes it
+-- by asking only for rows changed since its last sync. That needs an
+-- updated_at on every table it mirrors, kept current on every update.
+--   - stories, chapters, chapter_choices and inspirations gain the column
+--   - story_characters and chapter_media already have it, but only the RPCs
+--     set it; a trigger now covers direct updates too
+
+-- 1. Shared trigger
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. Columns, starting from when each row was created
+ALTER TABLE public.stories ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+ALTER TABLE public.chapters ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+ALTER TABLE public.chapter_choices ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+ALTER TABLE public.inspirations ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+
+UPDATE public.stories SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE public.chapters SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE public.chapter_choices SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE public.inspirations SET updated_at = created_at WHERE updated_at IS NULL;
+
+ALTER TABLE public.stories ALTER COLUMN updated_at SET DEFAULT NOW(), ALTER COLUMN updated_at SET NOT NULL;
+ALTER TABLE public.chapters ALTER COLUMN updated_at SET DEFAULT NOW(), ALTER COLUMN updated_at SET NOT NULL;
+ALTER TABLE public.chapter_choices ALTER COLUMN updated_at SET DEFAULT NOW(), ALTER COLUMN updated_at SET NOT NULL;
+ALTER TABLE public.inspirations ALTER COLUMN updated_at SET DEFAULT NOW(), ALTER COLUMN updated_at SET NOT NULL;
+
+-- 3. Triggers
+DROP TRIGGER IF EXISTS touch_stories_updated_at ON public.stories;
+CREATE TRIGGER touch_stories_updated_at
+  BEFORE UPDATE ON public.stories
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS touch_chapters_updated_at ON public.chapters;
+CREATE TRIGGER touch_chapters_updated_at
+  BEFORE UPDATE ON public.chapters
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS touch_chapter_choices_updated_at ON public.chapter_choices;
+CREATE TRIGGER touch_chapter_choices_updated_at
+  BEFORE UPDATE ON public.chapter_choices
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS touch_inspirations_updated_at ON public.inspirations;
+CREATE TRIGGER touch_inspirations_updated_at
+  BEFORE UPDATE ON public.inspirations
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS touch_story_characters_updated_at ON public.story_characters;
+CREATE TRIGGER touch_story_characters_updated_at
+  BEFORE UPDATE ON public.story_characters
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS touch_chapter_media_updated_at ON public.chapter_media;
+CREATE TRIGGER touch_chapter_media_updated_at
+  BEFORE UPDATE ON public.chapter_media
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- 4. Indexes for "changed since" queries
+CREATE INDEX IF NOT EXISTS idx_chapters_story_updated_at ON public.chapters(story_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_chapter_choices_story_updated_at ON public.chapter_choices(story_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_inspirations_story_updated_at ON public.inspirations(story_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_story_characters_story_updated_at ON public.story_characters(story_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_chapter_media_updated_at ON public.chapter_media(chapter_id, updated_at);
+
+REVOKE EXECUTE ON FUNCTION public.touch_updated_at FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.stories.updated_at IS 'Last change to the story row, for incremental offline sync';
+COMMENT ON COLUMN public.chapters.updated_at IS 'Last change to the chapter row, for incremental offline sync';
+COMMENT ON COLUMN public.chapter_choices.updated_at IS 'Last change to the choice, for incremental offline sync';
+COMMENT ON COLUMN public.inspirations.updated_at IS 'Last change to the inspiration, for incremental offline sync';
@@ -0,0 +1,124 @@
+-- Co-writing
+-- Partners can write one chapter together in a live session over the story's
+-- realtime channel. The session itself never touches the database: edits are
+-- merged on each device, and when it ends the member who started it submits
+-- the chapter through submit_chapter as usual. This records who else wrote
+-- it, and the merged document in its structured form. A co-written chapter
+-- that synced late and was set aside as a chapter conflict keeps both on the
+-- conflict until the couple resolves it.
+
+-- 1. Co-authors
+ALTER TABLE public.chapters ADD COLUMN IF NOT EXISTS co_author_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.chapter_conflicts
+  ADD COLUMN IF NOT EXISTS co_author_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS content_rich JSONB NULL;
+
+-- 2. Record a co-written chapter, or a held one
+-- Only the chapter's author can name co-authors, and only members of the
+-- story count. Running it again replaces the list.
+CREATE OR REPLACE FUNCTION public.record_co_written_chapter(
+  p_chapter_id UUID,
+  p_co_author_ids UUID[],
+  p_content_rich JSONB DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_chapter public.chapters;
+  v_conflict public.chapter_conflicts;
+  v_story_id UUID;
+  v_author_id UUID;
+  v_co_authors UUID[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_chapter FROM public.chapters WHERE id = p_chapter_id FOR UPDATE;
+
+  IF FOUND THEN
+    v_story_id := v_chapter.story_id;
+    v_author_id := v_chapter.author_id;
+  ELSE
+    SELECT * INTO v_conflict FROM public.chapter_conflicts
+    WHERE id = p_chapter_id AND status = 'open'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN json_build_object('success', false, 'error', 'Chapter not found');
+    END IF;
+    v_story_id := v_conflict.story_id;
+    v_author_id := v_conflict.author_id;
+  END IF;
+
+  IF v_author_id <> v_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'Only the chapter''s author can name its co-authors');
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT sm.user_id), '{}')
+  INTO v_co_authors
+  FROM public.story_members sm
+  WHERE sm.story_id = v_story_id
+    AND sm.user_id = ANY(COALESCE(p_co_author_ids, '{}'))
+    AND sm.user_id <> v_user_id;
+
+  IF v_chapter.id IS NOT NULL THEN
+    UPDATE public.chapters
+    SET co_author_ids = v_co_authors,
+        content_rich = COALESCE(p_content_rich, content_rich)
+    WHERE id = p_chapter_id;
+  ELSE
+    UPDATE public.chapter_conflicts
+    SET co_author_ids = v_co_authors,
+        content_rich = COALESCE(p_content_rich, content_rich)
+    WHERE id = p_chapter_id;
+  END IF;
+
+  RETURN json_build_object('success', true, 'co_author_ids', v_co_authors);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Resolving a held chapter passes its co-authors and rich text on to the
+-- chapter it became. Offline text that went in as written brings both; a
+-- merge credits everyone who wrote either version, and drops the rich text,
+-- which no longer matches the merged text.
+CREATE OR REPLACE FUNCTION public.apply_conflict_co_writing()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'resolved' OR OLD.status = 'resolved' OR NEW.chapter_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.resolution IN ('keep_offline', 'branch') THEN
+    UPDATE public.chapters
+    SET co_author_ids = array_remove(NEW.co_author_ids, author_id),
+        content_rich = NEW.content_rich
+    WHERE id = NEW.chapter_id;
+  ELSIF NEW.resolution = 'merge' THEN
+    UPDATE public.chapters
+    SET co_author_ids = array_remove(
+          ARRAY(SELECT DISTINCT unnest(co_author_ids || NEW.co_author_ids || NEW.author_id)),
+          author_id
+        ),
+        content_rich = NULL
+    WHERE id = NEW.chapter_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_conflict_co_writing ON public.chapter_conflicts;
+CREATE TRIGGER apply_conflict_co_writing
+  AFTER UPDATE OF status ON public.chapter_conflicts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_conflict_co_writing();
+
+REVOKE EXECUTE ON FUNCTION public.record_co_written_chapter FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.apply_conflict_co_writing FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.record_co_written_chapter(UUID, UUID[], JSONB) TO authenticated;
+
+COMMENT ON COLUMN public.chapters.co_author_ids IS 'Members who wrote the chapter with its author in a co-writing session';
+COMMENT ON FUNCTION public.record_co_written_chapter IS 'Names the members who co-wrote a chapter, and stores the merged rich text document, for the chapter''s author. A chapter held as a conflict keeps them on the conflict.';
+COMMENT ON FUNCTION public.apply_conflict_co_writing IS 'Passes a resolved chapter conflict''s co-authors and rich text on to the chapter it became';
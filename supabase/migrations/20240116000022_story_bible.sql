@@ -0,0 +1,121 @@
+-- Story bible
+-- A per-story document for what is not a chapter: world rules, places, the
+-- timeline, inside jokes and plot points planned for later. It is kept as
+-- sections so partners editing different parts never overwrite each other,
+-- and it syncs over realtime. The AI functions read a trimmed copy of it as
+-- context.
+
+-- 1. Sections
+CREATE TABLE IF NOT EXISTS public.story_bible_sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  -- The built-in sections appear once per story; 'custom' ones any number of times
+  kind TEXT NOT NULL DEFAULT 'custom'
+    CHECK (kind IN ('world', 'places', 'timeline', 'inside_jokes', 'plot_points', 'custom')),
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 60),
+  content TEXT NOT NULL DEFAULT '' CHECK (char_length(content) <= 10000),
+  position INTEGER NOT NULL DEFAULT 0,
+  updated_by UUID NULL REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_story_bible_sections_kind
+  ON public.story_bible_sections(story_id, kind) WHERE kind <> 'custom';
+
+CREATE INDEX IF NOT EXISTS idx_story_bible_sections_story
+  ON public.story_bible_sections(story_id, position);
+
+DROP TRIGGER IF EXISTS touch_story_bible_sections_updated_at ON public.story_bible_sections;
+CREATE TRIGGER touch_story_bible_sections_updated_at
+  BEFORE UPDATE ON public.story_bible_sections
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- A section stays in its story and keeps its kind, so a built-in section
+-- cannot be turned into a custom one and deleted
+CREATE OR REPLACE FUNCTION public.pin_story_bible_section()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.story_id IS DISTINCT FROM OLD.story_id OR NEW.kind IS DISTINCT FROM OLD.kind THEN
+    RAISE EXCEPTION 'A story bible section cannot be moved to another story or change its kind'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pin_story_bible_section ON public.story_bible_sections;
+CREATE TRIGGER pin_story_bible_section
+  BEFORE UPDATE ON public.story_bible_sections
+  FOR EACH ROW EXECUTE FUNCTION public.pin_story_bible_section();
+
+-- 2. Any writer in the story can read and edit every section
+ALTER TABLE public.story_bible_sections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Story members can view the story bible" ON public.story_bible_sections;
+CREATE POLICY "Story members can view the story bible"
+  ON public.story_bible_sections FOR SELECT
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+DROP POLICY IF EXISTS "Story members can add story bible sections" ON public.story_bible_sections;
+CREATE POLICY "Story members can add story bible sections"
+  ON public.story_bible_sections FOR INSERT
+  WITH CHECK (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+DROP POLICY IF EXISTS "Story members can edit the story bible" ON public.story_bible_sections;
+CREATE POLICY "Story members can edit the story bible"
+  ON public.story_bible_sections FOR UPDATE
+  USING (public.is_member_of_story(story_id) OR public.is_story_creator(story_id))
+  WITH CHECK (public.is_member_of_story(story_id) OR public.is_story_creator(story_id));
+
+-- The built-in sections stay; they can only be emptied
+DROP POLICY IF EXISTS "Story members can remove custom story bible sections" ON public.story_bible_sections;
+CREATE POLICY "Story members can remove custom story bible sections"
+  ON public.story_bible_sections FOR DELETE
+  USING (kind = 'custom' AND (public.is_member_of_story(story_id) OR public.is_story_creator(story_id)));
+
+-- 3. Start a story's bible with the built-in sections. Safe to call by both
+-- partners at once, and again later.
+CREATE OR REPLACE FUNCTION public.ensure_story_bible(p_story_id UUID)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF NOT (public.is_member_of_story(p_story_id) OR public.is_story_creator(p_story_id)) THEN
+    RETURN json_build_object('success', false, 'error', 'Not a member of this story');
+  END IF;
+
+  INSERT INTO public.story_bible_sections (story_id, kind, title, position)
+  VALUES
+    (p_story_id, 'world', 'World', 0),
+    (p_story_id, 'places', 'Places', 1),
+    (p_story_id, 'timeline', 'Timeline', 2),
+    (p_story_id, 'inside_jokes', 'Inside Jokes', 3),
+    (p_story_id, 'plot_points', 'Planned Plot Points', 4)
+  ON CONFLICT (story_id, kind) WHERE kind <> 'custom' DO NOTHING;
+
+  RETURN json_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_story_bible FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.pin_story_bible_section FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.ensure_story_bible(UUID) TO authenticated;
+
+-- 4. Partners see each other's edits as they are saved
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.story_bible_sections;
+  END IF;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMENT ON TABLE public.story_bible_sections IS 'Sections of a story''s bible: world rules, places, timeline, inside jokes, planned plot points and custom notes';
+COMMENT ON FUNCTION public.ensure_story_bible IS 'Adds the built-in story bible sections a story does not have yet.';
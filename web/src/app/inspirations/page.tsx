@@ -453,6 +453,17 @@ export default function AllInspirationsPage() {
                     </div>
                   )}
 
+                  {/* Chapter that wove it in */}
+                  {inspiration.woven_chapter && (
+                    <Link
+                      href={`/stories/${inspiration.story_id}?branch=${inspiration.woven_chapter.id}`}
+                      className="inline-flex items-center gap-2 mb-4 text-sm font-accent text-amethyst-600 dark:text-amethyst-400 hover:text-rose-500 dark:hover:text-rose-400 transition-colors"
+                    >
+                      <Sparkles className="w-4 h-4" />
+                      Woven into Chapter {inspiration.woven_chapter.chapter_number}
+                    </Link>
+                  )}
+
                   {/* Footer */}
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2 text-sm text-ink-500 dark:text-dark-textMuted">
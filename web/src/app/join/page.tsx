@@ -51,9 +51,6 @@ export default function JoinStoryPage() {
       const { data: result, error: joinError } = await supabase
         .rpc('join_story_by_pairing_code', {
           p_pairing_code: pairingCode.trim(),
-          p_user_id: user.id,
-          p_role: 'partner',
-          p_turn_order: 2
         });
 
       if (joinError) {
@@ -11,12 +11,14 @@ import {
   User,
   BookOpen,
   Sparkles,
+  History,
 } from 'lucide-react';
 import { getSupabaseClient } from '@/lib/supabase';
 import { useAuthStore } from '@/stores/authStore';
 import type { Story, Chapter } from '@/types';
 import { formatDate } from '@/lib/utils';
 import toast, { Toaster } from 'react-hot-toast';
+import { ChapterHistoryDialog } from '@/components/ChapterHistoryDialog';
 
 const themeColors: Record<string, string> = {
   romance: 'from-rose-400 to-rose-600',
@@ -42,6 +44,7 @@ export default function ChapterViewPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [authorName, setAuthorName] = useState<string>('');
   const [canEdit, setCanEdit] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   useEffect(() => {
     loadChapter();
@@ -164,6 +167,13 @@ export default function ChapterViewPage() {
           </div>
 
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowHistory(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-dark-bgSecondary text-ink-950 dark:text-dark-text rounded-lg font-accent shadow-soft hover:shadow-medium transition-all"
+            >
+              <History className="w-4 h-4" />
+              History
+            </button>
             {canEdit && (
               <Link
                 href={`/stories/${storyId}/write?chapterId=${chapterId}`}
@@ -259,6 +269,14 @@ export default function ChapterViewPage() {
           </div>
         </motion.div>
       </div>
+
+      <ChapterHistoryDialog
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        chapter={chapter}
+        canRestore={canEdit}
+        onRestored={loadChapter}
+      />
     </>
   );
 }
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import {
   ArrowLeft,
@@ -380,6 +381,15 @@ export default function StoryInspirationsPage() {
                           ))}
                         </div>
                       )}
+                      {inspiration.woven_chapter && (
+                        <Link
+                          href={`/stories/${storyId}?branch=${inspiration.woven_chapter.id}`}
+                          className="inline-flex items-center gap-2 mt-3 text-sm font-accent text-amethyst-600 dark:text-amethyst-400 hover:text-rose-500 dark:hover:text-rose-400 transition-colors"
+                        >
+                          <Sparkles className="w-4 h-4" />
+                          Woven into Chapter {inspiration.woven_chapter.chapter_number}
+                        </Link>
+                      )}
                       <p className="text-sm text-ink-500 dark:text-dark-textMuted mt-3">
                         {new Date(inspiration.created_at).toLocaleDateString('en-US', {
                           month: 'short',
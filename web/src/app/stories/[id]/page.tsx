@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import {
   ArrowLeft,
@@ -19,12 +19,17 @@ import {
   Check,
   Download,
   RefreshCw,
+  GitBranch,
+  Headphones,
 } from 'lucide-react';
 import { getSupabaseClient } from '@/lib/supabase';
-import type { StoryWithMembers, Chapter, StoryMember, Profile } from '@/types';
+import type { StoryWithMembers, ChapterNode, StoryMember, Profile } from '@/types';
+import { fetchChapterTree, flattenChapterTree, getActivePath, getBranchPath, getOpenChoices } from '@/lib/chapterTree';
 import { formatDate, cn, generatePairingCode, formatPairingCode, isOldPairingCodeFormat } from '@/lib/utils';
 import toast, { Toaster } from 'react-hot-toast';
 import { ShareableCardDialog } from '@/components/ShareableCardDialog';
+import { NarrationPlayer } from '@/components/NarrationPlayer';
+import { useNarrationStore } from '@/stores/narrationStore';
 
 const themeColors: Record<string, string> = {
   romance: 'from-rose-400 to-rose-600',
@@ -41,18 +46,27 @@ const themeEmojis: Record<string, string> = {
 export default function StoryDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const storyId = params.id as string;
+  const branchId = searchParams.get('branch'); // Chapter whose branch to show instead of the latest one
 
   const [story, setStory] = useState<StoryWithMembers | null>(null);
-  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [chapters, setChapters] = useState<ChapterNode[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showPairingCode, setShowPairingCode] = useState(false);
   const [showShareCardDialog, setShowShareCardDialog] = useState(false);
+  const [showNarration, setShowNarration] = useState(false);
   const [copied, setCopied] = useState(false);
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [hasBranches, setHasBranches] = useState(false);
 
   useEffect(() => {
     loadStory();
+  }, [storyId, branchId]);
+
+  // Narration keeps playing while the player is closed, but not after leaving the story
+  useEffect(() => {
+    return () => useNarrationStore.getState().stop();
   }, [storyId]);
 
   const loadStory = async () => {
@@ -89,16 +103,10 @@ export default function StoryDetailPage() {
         })) || [],
       } as StoryWithMembers);
 
-      // Load chapters
-      const { data: chaptersData, error: chaptersError } = await supabase
-        .from('chapters')
-        .select('*')
-        .eq('story_id', storyId)
-        .order('chapter_number', { ascending: true });
-
-      if (chaptersError) throw chaptersError;
-
-      setChapters((chaptersData || []) as unknown as Chapter[]);
+      // Load chapters, following the branch that was written most recently
+      const chapterTree = await fetchChapterTree(storyId);
+      setChapters(branchId ? getBranchPath(chapterTree, branchId) : getActivePath(chapterTree));
+      setHasBranches(flattenChapterTree(chapterTree).some(node => node.choices.length > 0));
     } catch (error) {
       console.error('Error loading story:', error);
       toast.error('Failed to load story');
@@ -108,6 +116,14 @@ export default function StoryDetailPage() {
     }
   };
 
+  const lastChapter = chapters[chapters.length - 1];
+  const endingChoices = lastChapter?.choices || [];
+  const openChoiceIds = new Set(lastChapter ? getOpenChoices(lastChapter).map(choice => choice.id) : []);
+  // When the last chapter ends with choices, the next chapter has to pick one
+  const newChapterHref = endingChoices.length > 0
+    ? '#what-happens-next'
+    : `/stories/${storyId}/write`;
+
   const copyPairingCode = () => {
     if (story?.pairing_code) {
       const formattedCode = formatPairingCode(story.pairing_code);
@@ -248,12 +264,21 @@ export default function StoryDetailPage() {
                   Inspirations
                 </Link>
                 <Link
-                  href={`/stories/${story.id}/write`}
+                  href={newChapterHref}
                   className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-dark-bgSecondary text-ink-950 dark:text-dark-text rounded-full font-accent font-medium hover:shadow-elegant transition-all"
                 >
                   <Edit3 className="w-4 h-4" />
                   Write
                 </Link>
+                {chapters.length > 0 && (
+                  <button
+                    onClick={() => setShowNarration(true)}
+                    className="p-2 bg-white/20 text-white rounded-full hover:bg-white/30 transition-colors"
+                    title="Listen"
+                  >
+                    <Headphones className="w-5 h-5" />
+                  </button>
+                )}
                 <button
                   onClick={() => setShowShareCardDialog(true)}
                   className="p-2 bg-white/20 text-white rounded-full hover:bg-white/30 transition-colors"
@@ -326,13 +351,24 @@ export default function StoryDetailPage() {
         >
           <div className="flex items-center justify-between mb-6">
             <h2 className="font-display text-2xl text-ink-950 dark:text-dark-text">Chapters</h2>
-            <Link
-              href={`/stories/${story.id}/write`}
-              className="flex items-center gap-2 px-4 py-2 bg-rose-500 dark:bg-dark-rose text-white rounded-full font-accent text-sm hover:bg-rose-600 dark:hover:bg-rose-400 transition-colors"
-            >
-              <Plus className="w-4 h-4" />
-              New Chapter
-            </Link>
+            <div className="flex items-center gap-2">
+              {hasBranches && (
+                <Link
+                  href={`/stories/${story.id}/tree`}
+                  className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-dark-bgSecondary text-ink-950 dark:text-dark-text rounded-full font-accent text-sm shadow-soft hover:shadow-medium transition-all"
+                >
+                  <GitBranch className="w-4 h-4" />
+                  Story Map
+                </Link>
+              )}
+              <Link
+                href={newChapterHref}
+                className="flex items-center gap-2 px-4 py-2 bg-rose-500 dark:bg-dark-rose text-white rounded-full font-accent text-sm hover:bg-rose-600 dark:hover:bg-rose-400 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                New Chapter
+              </Link>
+            </div>
           </div>
 
           {chapters.length === 0 ? (
@@ -371,6 +407,12 @@ export default function StoryDetailPage() {
                           <h3 className="font-display text-lg text-ink-950 dark:text-dark-text mb-1 group-hover:text-rose-500 dark:group-hover:text-dark-rose transition-colors">
                             Chapter {chapter.chapter_number}
                           </h3>
+                          {chapter.choice && (
+                            <p className="flex items-center gap-1 text-sm text-amethyst-600 dark:text-amethyst-400 font-accent mb-1">
+                              <GitBranch className="w-3 h-3" />
+                              {chapter.choice.title}
+                            </p>
+                          )}
                           <p className="font-body text-ink-600 dark:text-dark-textSecondary line-clamp-2 mb-2">
                             {chapter.content.replace(/<[^>]*>/g, '').substring(0, 200)}
                           </p>
@@ -395,11 +437,63 @@ export default function StoryDetailPage() {
                   </Link>
                 </motion.div>
               ))}
+
+              {/* Choice endings of the last chapter */}
+              {endingChoices.length > 0 && (
+                <div id="what-happens-next" className="pt-4">
+                  <h3 className="font-display text-xl text-ink-950 dark:text-dark-text mb-4">What happens next?</h3>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    {endingChoices.map((choice) => {
+                      const isOpen = openChoiceIds.has(choice.id);
+                      return isOpen ? (
+                        <Link
+                          key={choice.id}
+                          href={`/stories/${story.id}/write?choiceId=${choice.id}`}
+                          className="group p-5 bg-white dark:bg-dark-bgSecondary rounded-2xl border-2 border-amethyst-200 dark:border-amethyst-800 hover:border-amethyst-400 dark:hover:border-amethyst-600 hover:shadow-medium transition-all"
+                        >
+                          <p className="font-accent font-semibold text-ink-950 dark:text-dark-text group-hover:text-amethyst-600 dark:group-hover:text-amethyst-400">
+                            {choice.title}
+                          </p>
+                          {choice.description && (
+                            <p className="font-body text-sm text-ink-600 dark:text-dark-textSecondary mt-1">{choice.description}</p>
+                          )}
+                          <p className="flex items-center gap-1 text-xs text-amethyst-500 dark:text-amethyst-400 mt-3">
+                            <Edit3 className="w-3 h-3" />
+                            Write this path
+                          </p>
+                        </Link>
+                      ) : (
+                        <div
+                          key={choice.id}
+                          className="p-5 bg-cream-100 dark:bg-dark-bgTertiary rounded-2xl border-2 border-cream-200 dark:border-dark-border opacity-60"
+                        >
+                          <p className="font-accent font-semibold text-ink-950 dark:text-dark-text">{choice.title}</p>
+                          <p className="flex items-center gap-1 text-xs text-ink-500 dark:text-dark-textMuted mt-3">
+                            <Check className="w-3 h-3" />
+                            Already written
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </motion.div>
       </div>
 
+      {/* Audiobook */}
+      <NarrationPlayer
+        open={showNarration}
+        onClose={() => setShowNarration(false)}
+        story={{ id: story.id, title: story.title }}
+        chapters={chapters}
+        partners={Object.fromEntries(
+          story.members.map(member => [member.user_id, member.profile?.display_name || 'Partner'])
+        )}
+      />
+
       {/* Share Card Dialog */}
       <ShareableCardDialog
         open={showShareCardDialog}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, GitBranch, Edit3, Sprout } from 'lucide-react';
+import { getSupabaseClient } from '@/lib/supabase';
+import { useAuthStore } from '@/stores/authStore';
+import type { ChapterNode, Profile } from '@/types';
+import {
+  fetchChapterTree,
+  getActivePath,
+  getBranchTips,
+  getOpenChoices,
+  getUnpickedChoices,
+} from '@/lib/chapterTree';
+import { formatDate, cn } from '@/lib/utils';
+import toast, { Toaster } from 'react-hot-toast';
+
+// Indent per branch level; deeper levels stop indenting so cards stay readable
+const MAX_INDENT_DEPTH = 5;
+
+export default function StoryTreePage() {
+  const params = useParams();
+  const router = useRouter();
+  const { profile } = useAuthStore();
+  const storyId = params.id as string;
+
+  const [title, setTitle] = useState('');
+  const [tree, setTree] = useState<ChapterNode | null>(null);
+  const [authors, setAuthors] = useState<Record<string, Profile>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadTree();
+  }, [storyId]);
+
+  const loadTree = async () => {
+    try {
+      const supabase = getSupabaseClient();
+
+      const { data: storyData, error: storyError } = await supabase
+        .from('stories')
+        .select(`
+          title,
+          story_members (
+            user_id,
+            profile:profiles (
+              id,
+              display_name,
+              avatar_url
+            )
+          )
+        `)
+        .eq('id', storyId)
+        .single();
+
+      if (storyError) throw storyError;
+
+      const storyDataAny = storyData as any;
+      setTitle(storyDataAny?.title || '');
+      setAuthors(
+        Object.fromEntries(
+          (storyDataAny?.story_members || []).map((m: any) => [m.user_id, m.profile])
+        )
+      );
+
+      setTree(await fetchChapterTree(storyId));
+    } catch (error) {
+      console.error('Error loading story map:', error);
+      toast.error('Failed to load story map');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+          className="w-12 h-12 border-4 border-rose-200 dark:border-rose-900 border-t-rose-500 dark:border-t-rose-400 rounded-full"
+        />
+      </div>
+    );
+  }
+
+  const activeIds = new Set(getActivePath(tree).map(node => node.id));
+  const storylines = getBranchTips(tree).length;
+  const unpicked = getUnpickedChoices(tree);
+
+  const getAuthorName = (authorId: string) => {
+    if (profile && authorId === profile.id) return 'You';
+    return authors[authorId]?.display_name || 'Partner';
+  };
+
+  const indent = (depth: number) => ({ marginLeft: `${Math.min(depth, MAX_INDENT_DEPTH) * 1.5}rem` });
+
+  const renderChapter = (node: ChapterNode, depth: number) => {
+    const isActive = activeIds.has(node.id);
+    return (
+      <Link
+        key={node.id}
+        href={`/stories/${storyId}?branch=${node.id}`}
+        style={indent(depth)}
+        className={cn(
+          'group block p-4 bg-white dark:bg-dark-bgSecondary rounded-xl shadow-soft hover:shadow-medium transition-all',
+          isActive && 'border-l-4 border-rose-500 dark:border-dark-rose'
+        )}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <span className="font-display text-ink-950 dark:text-dark-text group-hover:text-rose-500 dark:group-hover:text-dark-rose transition-colors">
+            Chapter {node.chapter_number}
+          </span>
+          {isActive && (
+            <span className="text-xs font-accent text-rose-500 dark:text-dark-rose">Current path</span>
+          )}
+        </div>
+        {node.choice && (
+          <p className="flex items-center gap-1 text-sm text-amethyst-600 dark:text-amethyst-400 font-accent mb-1">
+            <GitBranch className="w-3 h-3" />
+            {node.choice.title}
+          </p>
+        )}
+        <p className="font-body text-sm text-ink-600 dark:text-dark-textSecondary line-clamp-2">
+          {node.content.replace(/<[^>]*>/g, '').substring(0, 160)}
+        </p>
+        <p className="text-xs text-ink-500 dark:text-dark-textMuted mt-2">
+          By {getAuthorName(node.author_id)} • {formatDate(node.created_at)}
+        </p>
+      </Link>
+    );
+  };
+
+  // Linear chapters stay at the same depth; each choice starts an indented branch
+  const renderBranch = (node: ChapterNode, depth: number): React.ReactNode => {
+    if (node.choices.length === 0) {
+      return (
+        <div key={node.id} className="space-y-3">
+          {renderChapter(node, depth)}
+          {node.children.map(child => renderBranch(child, depth))}
+        </div>
+      );
+    }
+
+    const openIds = new Set(getOpenChoices(node).map(choice => choice.id));
+    return (
+      <div key={node.id} className="space-y-3">
+        {renderChapter(node, depth)}
+        {node.choices.map((choice) => {
+          const child = node.children.find(c => c.choice_id === choice.id);
+          if (child) {
+            return renderBranch(child, depth + 1);
+          }
+          const isUnpicked = openIds.has(choice.id) && node.children.length > 0;
+          return (
+            <Link
+              key={choice.id}
+              href={`/stories/${storyId}/write?choiceId=${choice.id}`}
+              style={indent(depth + 1)}
+              className="block p-4 rounded-xl border-2 border-dashed border-amethyst-200 dark:border-amethyst-800 hover:border-amethyst-400 dark:hover:border-amethyst-600 transition-colors"
+            >
+              <p className="font-accent font-semibold text-ink-950 dark:text-dark-text">{choice.title}</p>
+              {choice.description && (
+                <p className="font-body text-sm text-ink-600 dark:text-dark-textSecondary mt-1">{choice.description}</p>
+              )}
+              <p className="flex items-center gap-1 text-xs text-amethyst-600 dark:text-amethyst-400 mt-2">
+                {isUnpicked ? <Sprout className="w-3 h-3" /> : <Edit3 className="w-3 h-3" />}
+                {isUnpicked ? 'Revive this path' : 'Write this path'}
+              </p>
+            </Link>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Toaster
+        position="top-center"
+        toastOptions={{
+          style: {
+            background: '#2D2A2E',
+            color: '#FAF7F5',
+            fontFamily: 'var(--font-body)',
+          },
+        }}
+      />
+
+      <div className="max-w-4xl mx-auto space-y-8">
+        <motion.button
+          onClick={() => router.push(`/stories/${storyId}`)}
+          className="flex items-center gap-2 text-ink-700 dark:text-dark-textSecondary hover:text-rose-500 dark:hover:text-dark-rose font-body transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Back to Story
+        </motion.button>
+
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <p className="text-sm text-ink-600 dark:text-dark-textMuted font-body">{title}</p>
+          <h1 className="font-display text-3xl text-ink-950 dark:text-dark-text flex items-center gap-2">
+            <GitBranch className="w-6 h-6 text-amethyst-500 dark:text-amethyst-400" />
+            Story Map
+          </h1>
+          <p className="text-sm text-ink-600 dark:text-dark-textSecondary font-body mt-2">
+            {storylines} {storylines === 1 ? 'storyline' : 'storylines'} • {unpicked.length} unpicked {unpicked.length === 1 ? 'choice' : 'choices'}
+          </p>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+        >
+          {tree ? (
+            renderBranch(tree, 0)
+          ) : (
+            <div className="text-center py-16 bg-white dark:bg-dark-bgSecondary rounded-2xl shadow-soft">
+              <p className="font-body text-ink-700 dark:text-dark-textSecondary">No chapters yet</p>
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </>
+  );
+}
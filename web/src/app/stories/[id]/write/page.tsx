@@ -16,12 +16,27 @@ import {
   Mic,
   Clock,
   Pencil,
+  GitBranch,
+  Plus,
+  Check,
 } from 'lucide-react';
 import { getSupabaseClient, isSupabaseConfigured } from '@/lib/supabase';
 import { useAuthStore } from '@/stores/authStore';
 import { useEditorStore } from '@/stores/editorStore';
-import type { Story, Chapter } from '@/types';
-import type { EnhancementType } from '@/lib/aiClient';
+import type { Story, Chapter, ChapterChoice, ChapterChoiceDraft } from '@/types';
+import {
+  fetchChapterTree,
+  findChoice,
+  getActivePath,
+  normalizeChoiceDrafts,
+  validateChoiceDrafts,
+  MAX_CHAPTER_CHOICES,
+  MIN_CHAPTER_CHOICES,
+  MAX_CHOICE_TITLE_LENGTH,
+  MAX_CHOICE_DESCRIPTION_LENGTH,
+} from '@/lib/chapterTree';
+import { countWords, isAIEnhancementAllowed, validateChapterLength } from '@/lib/storySettings';
+import type { AIBranchChoice, AIPlotHook, EnhancementType } from '@/lib/aiClient';
 import { cn } from '@/lib/utils';
 import toast, { Toaster } from 'react-hot-toast';
 import RichTextEditor from '@/components/RichTextEditor';
@@ -53,6 +68,7 @@ export default function WriteChapterPage() {
   const editorStore = useEditorStore();
   const storyId = params.id as string;
   const chapterId = searchParams.get('chapterId'); // Get chapter ID for edit mode
+  const choiceId = searchParams.get('choiceId'); // Choice on the previous chapter this one continues
 
   const [story, setStory] = useState<Story | null>(null);
   const [content, setContent] = useState('');
@@ -70,6 +86,14 @@ export default function WriteChapterPage() {
   const [isEditMode, setIsEditMode] = useState(false);
   const [isLoadingChapter, setIsLoadingChapter] = useState(false);
   const [originalChapter, setOriginalChapter] = useState<Chapter | null>(null);
+  const [continuingChoice, setContinuingChoice] = useState<ChapterChoice | null>(null);
+  const [choiceDrafts, setChoiceDrafts] = useState<ChapterChoiceDraft[]>([]);
+  const [branchSuggestions, setBranchSuggestions] = useState<AIBranchChoice[]>([]);
+  const [branchConsequences, setBranchConsequences] = useState<string | null>(null);
+  const [isSuggestingChoices, setIsSuggestingChoices] = useState(false);
+  const [plotHooks, setPlotHooks] = useState<AIPlotHook[]>([]);
+  const [acceptedPlotHooks, setAcceptedPlotHooks] = useState<AIPlotHook[]>([]);
+  const [isWeavingPlot, setIsWeavingPlot] = useState(false);
 
   // Use ref to track last saved content for auto-save comparison
   const lastSavedContentRef = useRef('');
@@ -89,7 +113,7 @@ export default function WriteChapterPage() {
         loadChapterCount();
       }
     }
-  }, [storyId, profile, isLoadingAuth, chapterId]);
+  }, [storyId, profile, isLoadingAuth, chapterId, choiceId]);
 
   // Load draft from localStorage on mount
   useEffect(() => {
@@ -211,23 +235,162 @@ export default function WriteChapterPage() {
     }
   };
 
+  // Find the chapter a new one continues. A choiceId in the URL pins it to that
+  // choice; otherwise it continues the most recently written branch.
+  const resolveChapterParent = async () => {
+    const tree = await fetchChapterTree(storyId);
+
+    if (choiceId) {
+      const found = findChoice(tree, choiceId);
+      if (!found) throw new Error('That choice no longer exists');
+      return { parent: found.chapter, choice: found.choice };
+    }
+
+    const leaf = getActivePath(tree).pop() || null;
+    if (leaf && leaf.choices.length > 0) {
+      throw new Error('The last chapter ends with choices. Pick one to continue.');
+    }
+    return { parent: leaf, choice: null };
+  };
+
   const loadChapterCount = async () => {
     try {
-      const supabase = getSupabaseClient();
-      const { data, error } = await supabase
-        .from('chapters')
-        .select('chapter_number')
-        .eq('story_id', storyId)
-        .order('chapter_number', { ascending: false })
-        .limit(1);
-
-      if (error) throw error;
-      setChapterNumber(((data?.[0] as any)?.chapter_number ?? 0) + 1);
+      const { parent, choice } = await resolveChapterParent();
+      setChapterNumber(parent ? parent.chapter_number + 1 : 1);
+      setContinuingChoice(choice);
     } catch (error) {
       console.error('Error loading chapter count:', error);
+      if (error instanceof Error) {
+        toast.error(error.message);
+      }
     }
   };
 
+  const addChoiceDraft = () => {
+    const next = choiceDrafts.length === 0
+      ? Array.from({ length: MIN_CHAPTER_CHOICES }, () => ({ title: '', description: null }))
+      : [...choiceDrafts, { title: '', description: null }];
+    setChoiceDrafts(next.slice(0, MAX_CHAPTER_CHOICES));
+  };
+
+  const updateChoiceDraft = (index: number, title: string) => {
+    setChoiceDrafts(choiceDrafts.map((choice, i) => (i === index ? { ...choice, title } : choice)));
+  };
+
+  const updateChoiceDescription = (index: number, description: string) => {
+    setChoiceDrafts(choiceDrafts.map((choice, i) => (i === index ? { ...choice, description } : choice)));
+  };
+
+  const removeChoiceDraft = (index: number) => {
+    const remaining = choiceDrafts.filter((_, i) => i !== index);
+    // A single choice is not a choice, so drop the section entirely
+    setChoiceDrafts(remaining.length < MIN_CHAPTER_CHOICES ? [] : remaining);
+  };
+
+  const suggestChoices = async () => {
+    if (!isSupabaseConfigured()) {
+      toast.error('AI features require Supabase configuration. Please set up your .env file.');
+      return;
+    }
+
+    setIsSuggestingChoices(true);
+
+    try {
+      // Dynamic import to avoid SSR issues
+      const { aiClient } = await import('@/lib/aiClient');
+
+      // Only ask for as many as there is room for, but never fewer than two
+      const filled = choiceDrafts.filter(d => d.title.trim().length > 0).length;
+      const result = await aiClient.generateBranchChoices({
+        storyId,
+        choiceId: choiceId || undefined,
+        draftContent: content.replace(/<[^>]*>/g, '').substring(0, 5000),
+        count: Math.max(MIN_CHAPTER_CHOICES, MAX_CHAPTER_CHOICES - filled),
+      });
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to suggest choices');
+      }
+
+      setBranchSuggestions(result.data.choices);
+      setBranchConsequences(result.data.consequences || null);
+    } catch (error) {
+      console.error('Choice suggestion error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to suggest choices');
+    } finally {
+      setIsSuggestingChoices(false);
+    }
+  };
+
+  // Accepted suggestions become ordinary drafts, so they can still be edited
+  const acceptSuggestion = (index: number) => {
+    const suggestion = branchSuggestions[index];
+    const emptySlot = choiceDrafts.findIndex(d => d.title.trim().length === 0);
+    if (emptySlot === -1 && choiceDrafts.length >= MAX_CHAPTER_CHOICES) {
+      toast.error(`A chapter can end with at most ${MAX_CHAPTER_CHOICES} choices`);
+      return;
+    }
+
+    const draft = { title: suggestion.title, description: suggestion.teaser || null };
+    setChoiceDrafts(emptySlot === -1
+      ? [...choiceDrafts, draft]
+      : choiceDrafts.map((d, i) => (i === emptySlot ? draft : d)));
+    setBranchSuggestions(branchSuggestions.filter((_, i) => i !== index));
+  };
+
+  const rejectSuggestion = (index: number) => {
+    setBranchSuggestions(branchSuggestions.filter((_, i) => i !== index));
+  };
+
+  const weavePlotHooks = async () => {
+    if (!isSupabaseConfigured()) {
+      toast.error('AI features require Supabase configuration. Please set up your .env file.');
+      return;
+    }
+
+    setIsWeavingPlot(true);
+
+    try {
+      // Dynamic import to avoid SSR issues
+      const { aiClient } = await import('@/lib/aiClient');
+
+      const result = await aiClient.weavePlotHooks({
+        storyId,
+        choiceId: choiceId || undefined,
+        draftContent: content.replace(/<[^>]*>/g, '').substring(0, 5000),
+        count: 3,
+      });
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to weave plot hooks');
+      }
+
+      if (result.data.unusedCount === 0) {
+        toast('Add inspirations to this story and the Plot Weaver will turn them into ideas.');
+      }
+
+      // Inspirations already accepted for this chapter are not offered twice
+      const accepted = new Set(acceptedPlotHooks.map(h => h.inspirationId));
+      setPlotHooks(result.data.hooks.filter(h => !accepted.has(h.inspirationId)));
+    } catch (error) {
+      console.error('Plot weaver error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to weave plot hooks');
+    } finally {
+      setIsWeavingPlot(false);
+    }
+  };
+
+  // The writer works the hook in themselves; accepting only remembers which
+  // inspiration this chapter uses, so it can be linked once the chapter is saved
+  const acceptPlotHook = (index: number) => {
+    setAcceptedPlotHooks([...acceptedPlotHooks, plotHooks[index]]);
+    setPlotHooks(plotHooks.filter((_, i) => i !== index));
+  };
+
+  const rejectPlotHook = (index: number) => {
+    setPlotHooks(plotHooks.filter((_, i) => i !== index));
+  };
+
   const loadChapterForEdit = async (id: string) => {
     setIsLoadingChapter(true);
     try {
@@ -262,81 +425,21 @@ export default function WriteChapterPage() {
     }
   };
 
+  // Auto-save keeps the draft on this device. Only handleSave publishes a
+  // chapter, since submitting one also passes the turn to the partner.
   const autoSaveChapter = async () => {
     if (!content.trim() || content.trim().length < MIN_CONTENT_LENGTH) {
       return;
     }
 
-    const supabase = getSupabaseClient();
-
-    // Get current user ID from store or double check with Supabase
-    const { data: { user } } = await supabase.auth.getUser();
-    const userId = profile?.id || user?.id;
-
-    if (!userId) {
-      console.warn('Auto-save skipped: No authenticated user found');
-      return;
-    }
-
-    try {
-      // Fetch the latest chapter number at this moment to handle race conditions
-      const { data: lastChapter } = await supabase
-        .from('chapters')
-        .select('chapter_number')
-        .eq('story_id', storyId)
-        .order('chapter_number', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      const nextChapterNumber = lastChapter ? (lastChapter as any).chapter_number + 1 : 1;
+    const draftKey = chapterId ? EDIT_DRAFT_STORAGE_KEY(storyId, chapterId) : DRAFT_STORAGE_KEY(storyId);
+    localStorage.setItem(draftKey, JSON.stringify({
+      content,
+      contextSnippet,
+      savedAt: Date.now(),
+    }));
 
-      // Try to insert with retry logic for race condition
-      let retries = 0;
-      const maxRetries = 3;
-
-      while (retries < maxRetries) {
-        const { data: insertedChapter, error: chapterError } = await supabase
-          .from('chapters')
-          .insert([{
-            story_id: storyId,
-            author_id: userId,
-            chapter_number: nextChapterNumber,
-            content: content.trim(),
-            context_snippet: contextSnippet.trim() || null,
-          }] as any)
-          .select()
-          .maybeSingle();
-
-        // If unique constraint violation (race condition), retry
-        if (chapterError?.code === '23505' && retries < maxRetries - 1) {
-          retries++;
-          await new Promise(resolve => setTimeout(resolve, 100 * retries)); // Exponential backoff
-          continue;
-        }
-
-        if (chapterError) {
-          throw chapterError;
-        }
-
-        // Successfully saved
-        setLastSaved(Date.now());
-        setHasUnsavedChanges(false);
-        setChapterNumber(nextChapterNumber + 1);
-        lastSavedContentRef.current = content;
-
-        // Clear localStorage draft after successful save
-        try {
-          localStorage.removeItem(DRAFT_STORAGE_KEY(storyId));
-        } catch (e) {
-          // Ignore storage errors
-        }
-
-        return insertedChapter;
-      }
-    } catch (error) {
-      console.error('Auto-save error:', error);
-      throw error;
-    }
+    setLastSaved(Date.now());
   };
 
   const handleSave = async () => {
@@ -356,6 +459,19 @@ export default function WriteChapterPage() {
       return;
     }
 
+    // The story's own length rules; the server checks them again
+    const lengthError = validateChapterLength(content, story);
+    if (lengthError) {
+      toast.error(lengthError);
+      return;
+    }
+
+    const choiceError = validateChoiceDrafts(choiceDrafts);
+    if (!isEditMode && choiceError) {
+      toast.error(choiceError);
+      return;
+    }
+
     setIsSaving(true);
 
     try {
@@ -418,75 +534,35 @@ export default function WriteChapterPage() {
         return;
       }
 
-      // CREATE MODE: Create new chapter
-      // Fetch the latest chapter number at this moment to handle race conditions
-      const { data: lastChapter, error: fetchError } = await supabase
-        .from('chapters')
-        .select('chapter_number')
-        .eq('story_id', storyId)
-        .order('chapter_number', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      if (fetchError) {
-        throw fetchError;
+      // CREATE MODE: the server checks the turn, numbers and inserts the
+      // chapter with its choices and woven inspirations, and passes the turn on
+      const choices = normalizeChoiceDrafts(choiceDrafts);
+      const { data, error: submitError } = await supabase
+        .rpc('submit_chapter', {
+          p_story_id: storyId,
+          p_content: content.trim(),
+          p_choice_id: choiceId,
+          p_context_snippet: contextSnippet.trim() || null,
+          p_choices: choices.length > 0 ? choices : null,
+          p_inspiration_ids: acceptedPlotHooks.length > 0 ? acceptedPlotHooks.map(h => h.inspirationId) : null,
+        });
+
+      if (submitError) {
+        console.error('Supabase error saving chapter:', submitError);
+        throw submitError;
       }
 
-      const nextChapterNumber = lastChapter ? (lastChapter as any).chapter_number + 1 : 1;
-
-      // Try to insert with retry logic for race conditions
-      let retries = 0;
-      const maxRetries = 3;
-      let savedChapter = null;
-
-      while (retries < maxRetries) {
-        const { data: insertedChapter, error: chapterError } = await supabase
-          .from('chapters')
-          .insert([{
-            story_id: storyId,
-            author_id: userId,
-            chapter_number: nextChapterNumber,
-            content: content.trim(),
-            context_snippet: contextSnippet.trim() || null,
-          }] as any)
-          .select()
-          .single();
-
-        // If unique constraint violation (race condition), fetch again and retry
-        if (chapterError?.code === '23505' && retries < maxRetries - 1) {
-          retries++;
-          // Re-fetch the latest chapter number
-          const { data: reFetchedChapter } = await supabase
-            .from('chapters')
-            .select('chapter_number')
-            .eq('story_id', storyId)
-            .order('chapter_number', { ascending: false })
-            .limit(1)
-            .maybeSingle();
-
-          const retryChapterNumber = reFetchedChapter ? (reFetchedChapter as any).chapter_number + 1 : 1;
-          // Use a closure to capture the updated chapter number
-          // Note: In production, you'd want to restructure this loop differently
-          break; // For now, break and let user retry
-        }
-
-        if (chapterError) {
-          console.error('Supabase error saving chapter:', chapterError);
-          throw chapterError;
-        }
-
-        savedChapter = insertedChapter;
-        break;
+      const result = data as unknown as { success: boolean; error?: string; chapter?: Chapter } | null;
+      if (!result?.success || !result.chapter) {
+        throw new Error(result?.error || 'Failed to save chapter');
       }
 
-      if (!savedChapter) {
-        throw new Error('Failed to save chapter after retries');
-      }
+      const savedChapter = result.chapter;
 
       // Update state after successful save
       setLastSaved(Date.now());
       setHasUnsavedChanges(false);
-      setChapterNumber(nextChapterNumber + 1);
+      setChapterNumber(savedChapter.chapter_number + 1);
       lastSavedContentRef.current = content;
 
       // Clear localStorage draft after successful save
@@ -497,10 +573,10 @@ export default function WriteChapterPage() {
       }
 
       toast.success('Chapter saved!');
-      router.push(`/stories/${storyId}/chapter/${(savedChapter as any).id}`);
+      router.push(`/stories/${storyId}/chapter/${savedChapter.id}`);
     } catch (error) {
       console.error('Error saving chapter:', error);
-      toast.error('Failed to save chapter. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to save chapter. Please try again.');
     } finally {
       setIsSaving(false);
     }
@@ -518,6 +594,11 @@ export default function WriteChapterPage() {
       return;
     }
 
+    if (!canEnhance) {
+      toast.error('AI enhancement is turned off for this story');
+      return;
+    }
+
     setIsEnhancing(true);
 
     try {
@@ -557,7 +638,9 @@ export default function WriteChapterPage() {
     toast.success('Writing prompt added!');
   };
 
-  const wordCount = content.trim().split(/\s+/).filter(Boolean).length;
+  const wordCount = countWords(content);
+  const canEnhance = isAIEnhancementAllowed(story);
+  const maxWords = story?.max_chapter_words ?? null;
 
   return (
     <>
@@ -622,7 +705,7 @@ export default function WriteChapterPage() {
 
             {/* Word count */}
             <span className="hidden sm:inline-block px-3 py-1 rounded-full bg-cream-200 dark:bg-dark-bgTertiary text-ink-700 dark:text-dark-textSecondary text-sm font-body">
-              {wordCount} words
+              {wordCount}{maxWords !== null ? ` / ${maxWords}` : ''} words
             </span>
 
             {/* Preview toggle */}
@@ -695,6 +778,20 @@ export default function WriteChapterPage() {
               </div>
             ) : (
               <div className="space-y-4">
+                {/* Path being continued */}
+                {continuingChoice && !isEditMode && (
+                  <div className="bg-amethyst-50 dark:bg-amethyst-950/20 rounded-xl p-4 border border-amethyst-200 dark:border-amethyst-800">
+                    <p className="flex items-center gap-2 text-xs uppercase tracking-wide text-ink-600 dark:text-dark-textMuted font-accent">
+                      <GitBranch className="w-3 h-3" />
+                      Continuing the path
+                    </p>
+                    <p className="font-display text-lg text-amethyst-700 dark:text-amethyst-300 mt-1">{continuingChoice.title}</p>
+                    {continuingChoice.description && (
+                      <p className="text-sm text-ink-700 dark:text-dark-textSecondary font-body mt-1">{continuingChoice.description}</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Context snippet */}
                 <div className="bg-white dark:bg-dark-bgSecondary rounded-xl shadow-soft p-4">
                   <label className="flex items-center gap-2 text-sm font-accent text-ink-800 dark:text-dark-text mb-2">
@@ -717,6 +814,182 @@ export default function WriteChapterPage() {
                   placeholder="Begin writing your chapter here... Let your imagination flow freely."
                 />
 
+                {/* Choice endings */}
+                {!isEditMode && (
+                  <div className="bg-white dark:bg-dark-bgSecondary rounded-xl shadow-soft p-4">
+                    <label className="flex items-center gap-2 text-sm font-accent text-ink-800 dark:text-dark-text mb-1">
+                      <GitBranch className="w-4 h-4 text-amethyst-500 dark:text-amethyst-400" />
+                      Choice ending (optional)
+                    </label>
+                    <p className="text-xs text-ink-600 dark:text-dark-textMuted font-body mb-3">
+                      End on a decision with {MIN_CHAPTER_CHOICES}-{MAX_CHAPTER_CHOICES} paths. The next chapter picks one.
+                    </p>
+                    <div className="space-y-2">
+                      {choiceDrafts.map((choice, index) => (
+                        <div key={index} className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={choice.title}
+                              maxLength={MAX_CHOICE_TITLE_LENGTH}
+                              onChange={(e) => updateChoiceDraft(index, e.target.value)}
+                              placeholder={`Choice ${index + 1}, e.g. 'Open the letter'`}
+                              className="flex-1 px-4 py-2 bg-cream-100 dark:bg-dark-bgTertiary rounded-lg text-ink-950 dark:text-dark-text placeholder:text-ink-500 dark:placeholder:text-dark-textMuted focus:outline-none focus:ring-2 focus:ring-amethyst-300 dark:focus:ring-amethyst-700"
+                            />
+                            <button
+                              onClick={() => removeChoiceDraft(index)}
+                              className="p-2 hover:bg-cream-200 dark:hover:bg-dark-bgTertiary rounded-lg transition-colors"
+                              title="Remove choice"
+                            >
+                              <X className="w-4 h-4 text-ink-600 dark:text-dark-textSecondary" />
+                            </button>
+                          </div>
+                          {choice.description !== null && (
+                            <input
+                              type="text"
+                              value={choice.description}
+                              maxLength={MAX_CHOICE_DESCRIPTION_LENGTH}
+                              onChange={(e) => updateChoiceDescription(index, e.target.value)}
+                              placeholder="Where this path leads (optional)"
+                              className="w-full px-4 py-2 text-sm bg-cream-50 dark:bg-dark-bgTertiary rounded-lg text-ink-800 dark:text-dark-textSecondary placeholder:text-ink-500 dark:placeholder:text-dark-textMuted focus:outline-none focus:ring-2 focus:ring-amethyst-300 dark:focus:ring-amethyst-700"
+                            />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    {choiceDrafts.length < MAX_CHAPTER_CHOICES && (
+                      <div className="mt-2 flex items-center gap-4">
+                        <button
+                          onClick={addChoiceDraft}
+                          className="flex items-center gap-2 text-sm font-accent text-amethyst-600 dark:text-amethyst-400 hover:text-amethyst-700 dark:hover:text-amethyst-300 transition-colors"
+                        >
+                          <Plus className="w-4 h-4" />
+                          {choiceDrafts.length === 0 ? 'End with choices' : 'Add choice'}
+                        </button>
+                        <button
+                          onClick={suggestChoices}
+                          disabled={isSuggestingChoices}
+                          className="flex items-center gap-2 text-sm font-accent text-rose-500 dark:text-dark-rose hover:text-rose-600 dark:hover:text-rose-300 disabled:opacity-50 transition-colors"
+                        >
+                          <Sparkles className={cn('w-4 h-4', isSuggestingChoices && 'animate-pulse')} />
+                          {isSuggestingChoices ? 'Thinking...' : 'Suggest choices'}
+                        </button>
+                      </div>
+                    )}
+
+                    {branchConsequences && (
+                      <div className="mt-4 pt-4 border-t border-cream-200 dark:border-dark-border">
+                        <p className="text-xs font-accent uppercase text-ink-600 dark:text-dark-textMuted">Where this leaves things</p>
+                        <p className="text-sm text-ink-800 dark:text-dark-textSecondary font-body mt-1">{branchConsequences}</p>
+                      </div>
+                    )}
+                    {branchSuggestions.length > 0 && (
+                      <div className="mt-3 space-y-2">
+                        {branchSuggestions.map((suggestion, index) => (
+                          <div
+                            key={`${suggestion.title}-${index}`}
+                            className="p-3 rounded-lg border-2 border-dashed border-rose-200 dark:border-rose-900"
+                          >
+                            <div className="flex items-start justify-between gap-2">
+                              <p className="font-accent font-semibold text-ink-950 dark:text-dark-text">{suggestion.title}</p>
+                              <span className="text-xs capitalize text-rose-500 dark:text-dark-rose">{suggestion.tone}</span>
+                            </div>
+                            {suggestion.teaser && (
+                              <p className="text-sm text-ink-600 dark:text-dark-textSecondary font-body mt-1">{suggestion.teaser}</p>
+                            )}
+                            <div className="flex items-center gap-3 mt-2">
+                              <button
+                                onClick={() => acceptSuggestion(index)}
+                                className="flex items-center gap-1 text-sm font-accent text-amethyst-600 dark:text-amethyst-400 hover:text-amethyst-700 dark:hover:text-amethyst-300 transition-colors"
+                              >
+                                <Check className="w-4 h-4" />
+                                Use it
+                              </button>
+                              <button
+                                onClick={() => rejectSuggestion(index)}
+                                className="flex items-center gap-1 text-sm font-accent text-ink-600 dark:text-dark-textSecondary hover:text-ink-800 dark:hover:text-dark-text transition-colors"
+                              >
+                                <X className="w-4 h-4" />
+                                Dismiss
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Plot Weaver */}
+                {!isEditMode && (
+                  <div className="bg-white dark:bg-dark-bgSecondary rounded-xl shadow-soft p-4">
+                    <label className="flex items-center gap-2 text-sm font-accent text-ink-800 dark:text-dark-text mb-1">
+                      <Lightbulb className="w-4 h-4 text-gold-500 dark:text-dark-gold" />
+                      Plot Weaver
+                    </label>
+                    <p className="text-xs text-ink-600 dark:text-dark-textMuted font-body mb-3">
+                      Turn moments you both saved as inspirations into ideas for this chapter.
+                    </p>
+                    {acceptedPlotHooks.length > 0 && (
+                      <div className="space-y-2 mb-3">
+                        {acceptedPlotHooks.map((hook) => (
+                          <div key={hook.inspirationId} className="flex items-start gap-2">
+                            <Check className="w-4 h-4 mt-0.5 text-amethyst-500 dark:text-amethyst-400 flex-shrink-0" />
+                            <p className="flex-1 text-sm text-ink-800 dark:text-dark-text font-body">{hook.hook}</p>
+                            <button
+                              onClick={() => setAcceptedPlotHooks(acceptedPlotHooks.filter(h => h.inspirationId !== hook.inspirationId))}
+                              className="p-1 hover:bg-cream-200 dark:hover:bg-dark-bgTertiary rounded-lg transition-colors"
+                              title="Stop weaving this inspiration"
+                            >
+                              <X className="w-4 h-4 text-ink-600 dark:text-dark-textSecondary" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <button
+                      onClick={weavePlotHooks}
+                      disabled={isWeavingPlot}
+                      className="flex items-center gap-2 text-sm font-accent text-rose-500 dark:text-dark-rose hover:text-rose-600 dark:hover:text-rose-300 disabled:opacity-50 transition-colors"
+                    >
+                      <Sparkles className={cn('w-4 h-4', isWeavingPlot && 'animate-pulse')} />
+                      {isWeavingPlot ? 'Weaving...' : 'Weave inspirations'}
+                    </button>
+                    {plotHooks.length > 0 && (
+                      <div className="mt-3 space-y-2">
+                        {plotHooks.map((hook, index) => (
+                          <div
+                            key={hook.inspirationId}
+                            className="p-3 rounded-lg border-2 border-dashed border-rose-200 dark:border-rose-900"
+                          >
+                            <p className="text-xs font-accent uppercase text-ink-600 dark:text-dark-textMuted">From &ldquo;{hook.inspiration}&rdquo;</p>
+                            <p className="font-accent font-semibold text-ink-950 dark:text-dark-text mt-1">{hook.hook}</p>
+                            {hook.howToUse && (
+                              <p className="text-sm text-ink-600 dark:text-dark-textSecondary font-body mt-1">{hook.howToUse}</p>
+                            )}
+                            <div className="flex items-center gap-3 mt-2">
+                              <button
+                                onClick={() => acceptPlotHook(index)}
+                                className="flex items-center gap-1 text-sm font-accent text-amethyst-600 dark:text-amethyst-400 hover:text-amethyst-700 dark:hover:text-amethyst-300 transition-colors"
+                              >
+                                <Check className="w-4 h-4" />
+                                Weave it in
+                              </button>
+                              <button
+                                onClick={() => rejectPlotHook(index)}
+                                className="flex items-center gap-1 text-sm font-accent text-ink-600 dark:text-dark-textSecondary hover:text-ink-800 dark:hover:text-dark-text transition-colors"
+                              >
+                                <X className="w-4 h-4" />
+                                Dismiss
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Writing prompt */}
                 <button
                   onClick={() => setShowPrompt(!showPrompt)}
@@ -815,11 +1088,13 @@ export default function WriteChapterPage() {
                   </div>
 
                   <p className="text-sm text-ink-700 dark:text-dark-textSecondary mb-6 font-body">
-                    Enhance your writing with AI assistance
+                    {canEnhance
+                      ? 'Enhance your writing with AI assistance'
+                      : 'AI enhancement is turned off for this story'}
                   </p>
 
                   <div className="space-y-3">
-                    {aiEnhancements.map((enhancement) => (
+                    {canEnhance && aiEnhancements.map((enhancement) => (
                       <button
                         key={enhancement.id}
                         onClick={() => handleEnhance(enhancement.id as EnhancementType)}
@@ -88,13 +88,10 @@ export default function NewStoryPage() {
       // Create first chapter with story starter
       if (starterIndex !== null) {
         await supabase
-          .from('chapters')
-          .insert([{
-            story_id: (data as any).id,
-            author_id: profile.id,
-            chapter_number: 1,
-            content: storyStarters[starterIndex],
-          }] as any);
+          .rpc('submit_chapter', {
+            p_story_id: (data as any).id,
+            p_content: storyStarters[starterIndex],
+          });
       }
 
       toast.success('Story created! Invite your partner to start writing together.');
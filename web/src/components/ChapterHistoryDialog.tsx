@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { X, History, RotateCcw, Loader2, Sparkles } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { Chapter, ChapterRevision } from '@/types';
+import {
+  describeRevision,
+  diffWords,
+  fetchChapterRevisions,
+  getDiffStats,
+  restoreChapterRevision,
+  toPlainText,
+} from '@/lib/chapterRevisions';
+import { cn, formatRelative } from '@/lib/utils';
+
+interface ChapterHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  chapter: Chapter;
+  // Only the author can restore; everyone in the story can read the history
+  canRestore: boolean;
+  onRestored: () => void;
+}
+
+type CompareMode = 'revisions' | 'enhancement';
+
+export function ChapterHistoryDialog({ open, onClose, chapter, canRestore, onRestored }: ChapterHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<ChapterRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [mode, setMode] = useState<CompareMode>('revisions');
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchChapterRevisions(chapter.id)
+      .then((loaded) => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        // Newest first: compare the latest edit by default
+        setToId(loaded[0]?.id || null);
+        setFromId(loaded[1]?.id || loaded[0]?.id || null);
+      })
+      .catch((error) => {
+        console.error('Error loading chapter history:', error);
+        toast.error('Failed to load chapter history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, chapter.id, chapter.content]);
+
+  const diff = useMemo(() => {
+    if (mode === 'enhancement') {
+      return chapter.ai_enhanced_content
+        ? diffWords(toPlainText(chapter.content), toPlainText(chapter.ai_enhanced_content))
+        : [];
+    }
+    const from = revisions.find(r => r.id === fromId);
+    const to = revisions.find(r => r.id === toId);
+    return from && to ? diffWords(toPlainText(from.content), toPlainText(to.content)) : [];
+  }, [mode, chapter.content, chapter.ai_enhanced_content, revisions, fromId, toId]);
+
+  const stats = getDiffStats(diff);
+
+  if (!open) return null;
+
+  const handleRestore = async (revision: ChapterRevision) => {
+    if (!confirm(`Restore revision ${revision.revision_number}? The current text stays in the history.`)) {
+      return;
+    }
+
+    setRestoringId(revision.id);
+    try {
+      await restoreChapterRevision(revision.id);
+      toast.success(`Revision ${revision.revision_number} restored`);
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const revisionLabel = (revision: ChapterRevision) =>
+    `#${revision.revision_number} · ${describeRevision(revision)} · ${formatRelative(revision.created_at)}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-white dark:bg-dark-bgSecondary rounded-3xl w-full max-w-4xl max-h-[92vh] overflow-hidden flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-5 border-b border-cream-200 dark:border-dark-border">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 rounded-xl bg-gradient-to-br from-amethyst-400 to-rose-500 shadow-lg">
+              <History className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="font-display text-lg text-ink-950 dark:text-dark-text">History</h2>
+              <p className="text-sm text-ink-600 dark:text-dark-textSecondary">Chapter {chapter.chapter_number}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2.5 hover:bg-cream-100 dark:hover:bg-dark-bgTertiary rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-ink-600 dark:text-dark-textSecondary" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-rose-500" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-hidden grid md:grid-cols-[260px_1fr]">
+            {/* Revision list */}
+            <div className="overflow-y-auto border-b md:border-b-0 md:border-r border-cream-200 dark:border-dark-border p-4 space-y-2">
+              {revisions.map((revision, index) => (
+                <div
+                  key={revision.id}
+                  className={cn(
+                    'p-3 rounded-xl border transition-colors',
+                    revision.id === toId && mode === 'revisions'
+                      ? 'border-rose-300 dark:border-rose-800 bg-rose-50 dark:bg-rose-900/20'
+                      : 'border-cream-200 dark:border-dark-border'
+                  )}
+                >
+                  <button
+                    onClick={() => {
+                      setMode('revisions');
+                      setToId(revision.id);
+                      setFromId(revisions[index + 1]?.id || revision.id);
+                    }}
+                    className="w-full text-left"
+                  >
+                    <p className="font-accent text-sm text-ink-950 dark:text-dark-text">
+                      Revision {revision.revision_number}
+                      {index === 0 && <span className="ml-2 text-xs text-rose-500 dark:text-rose-400">Current</span>}
+                    </p>
+                    <p className="text-xs text-ink-600 dark:text-dark-textSecondary">
+                      {describeRevision(revision)} · {formatRelative(revision.created_at)}
+                    </p>
+                  </button>
+                  {canRestore && index > 0 && (
+                    <button
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoringId !== null}
+                      className="mt-2 flex items-center gap-1 text-xs font-accent text-amethyst-600 dark:text-amethyst-400 hover:text-amethyst-700 disabled:opacity-50"
+                    >
+                      {restoringId === revision.id
+                        ? <Loader2 className="w-3 h-3 animate-spin" />
+                        : <RotateCcw className="w-3 h-3" />}
+                      Restore
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="overflow-y-auto p-6">
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <button
+                  onClick={() => setMode('revisions')}
+                  className={cn(
+                    'px-3 py-1.5 rounded-full text-sm font-accent transition-colors',
+                    mode === 'revisions'
+                      ? 'bg-rose-500 dark:bg-dark-rose text-white'
+                      : 'bg-cream-100 dark:bg-dark-bgTertiary text-ink-700 dark:text-dark-textSecondary'
+                  )}
+                >
+                  Compare revisions
+                </button>
+                {chapter.ai_enhanced_content && (
+                  <button
+                    onClick={() => setMode('enhancement')}
+                    className={cn(
+                      'flex items-center gap-1 px-3 py-1.5 rounded-full text-sm font-accent transition-colors',
+                      mode === 'enhancement'
+                        ? 'bg-amethyst-500 text-white'
+                        : 'bg-cream-100 dark:bg-dark-bgTertiary text-ink-700 dark:text-dark-textSecondary'
+                    )}
+                  >
+                    <Sparkles className="w-3 h-3" />
+                    Original vs AI enhanced
+                  </button>
+                )}
+              </div>
+
+              {mode === 'revisions' && revisions.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-ink-700 dark:text-dark-textSecondary">
+                  <select
+                    value={fromId || ''}
+                    onChange={(e) => setFromId(e.target.value)}
+                    className="px-3 py-1.5 rounded-lg bg-cream-50 dark:bg-dark-bgTertiary border border-cream-200 dark:border-dark-border"
+                  >
+                    {revisions.map(revision => (
+                      <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>
+                    ))}
+                  </select>
+                  <span>→</span>
+                  <select
+                    value={toId || ''}
+                    onChange={(e) => setToId(e.target.value)}
+                    className="px-3 py-1.5 rounded-lg bg-cream-50 dark:bg-dark-bgTertiary border border-cream-200 dark:border-dark-border"
+                  >
+                    {revisions.map(revision => (
+                      <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {mode === 'revisions' && revisions.length <= 1 ? (
+                <p className="text-ink-600 dark:text-dark-textSecondary">
+                  This chapter has not been edited since it was written.
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-ink-500 dark:text-dark-textMuted mb-3">
+                    <span className="text-green-600 dark:text-green-400">+{stats.added} words</span>
+                    {' · '}
+                    <span className="text-rose-600 dark:text-rose-400">−{stats.removed} words</span>
+                  </p>
+                  <div className="font-body text-ink-800 dark:text-dark-textSecondary leading-loose whitespace-pre-wrap">
+                    {diff.map((part, index) => (
+                      <span
+                        key={index}
+                        className={cn(
+                          part.op === 'insert' && 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+                          part.op === 'delete' && 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-300 line-through'
+                        )}
+                      >
+                        {part.text}
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
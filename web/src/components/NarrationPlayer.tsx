@@ -0,0 +1,275 @@
+'use client';
+
+import { useEffect } from 'react';
+import { X, Play, Pause, SkipBack, SkipForward, Bookmark, Volume2, Loader2, Headphones } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { NarrationSpeakerType } from '@/types';
+import { useNarrationStore, type NarrationChapter } from '@/stores/narrationStore';
+import { cn } from '@/lib/utils';
+
+interface NarrationPlayerProps {
+  open: boolean;
+  onClose: () => void;
+  story: {
+    id: string;
+    title: string;
+  };
+  // Chapters in reading order; the audiobook plays them one after another
+  chapters: NarrationChapter[];
+  // Display names by user id, for the partner voice pickers
+  partners: Record<string, string>;
+}
+
+interface VoiceRow {
+  key: string;
+  label: string;
+  speakerType: NarrationSpeakerType;
+  speakerId: string | null;
+}
+
+const formatTime = (millis: number) => {
+  const totalSeconds = Math.floor(millis / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export function NarrationPlayer({ open, onClose, story, chapters, partners }: NarrationPlayerProps) {
+  const {
+    storyId,
+    voices,
+    defaultVoiceId,
+    storyVoices,
+    characters,
+    isLoadingVoices,
+    narrations,
+    current,
+    positionMillis,
+    isPlaying,
+    isLoading,
+    error,
+    loadVoices,
+    setVoice,
+    playStory,
+    togglePlayback,
+    skipToChapter,
+    nextChapter,
+    previousChapter,
+  } = useNarrationStore();
+
+  useEffect(() => {
+    if (open) {
+      loadVoices(story.id);
+    }
+  }, [open, story.id, loadVoices]);
+
+  if (!open) return null;
+
+  const isThisStory = storyId === story.id && current !== null;
+  const currentChapter = isThisStory ? chapters.find(c => c.id === current.chapterId) : undefined;
+  const currentNarration = isThisStory ? narrations[current.chapterId] : undefined;
+
+  // Progress through the whole chapter, not just the segment playing
+  const chapterElapsed = currentNarration && current
+    ? currentNarration.segments
+        .slice(0, current.segmentIndex)
+        .reduce((sum, s) => sum + s.durationMs, 0) + positionMillis
+    : 0;
+  const chapterDuration = currentNarration?.durationMs || 0;
+
+  const voiceRows: VoiceRow[] = [
+    { key: 'narrator', label: 'Narrator', speakerType: 'narrator', speakerId: null },
+    ...Object.entries(partners).map(([id, name]) => ({
+      key: `partner-${id}`,
+      label: `${name}'s chapters`,
+      speakerType: 'partner' as const,
+      speakerId: id,
+    })),
+    ...characters.map(c => ({
+      key: `character-${c.id}`,
+      label: c.name,
+      speakerType: 'character' as const,
+      speakerId: c.id,
+    })),
+  ];
+
+  const handlePlay = async () => {
+    if (isThisStory) {
+      await togglePlayback();
+    } else {
+      await playStory(story.id, chapters);
+    }
+  };
+
+  const handleChapterClick = async (chapter: NarrationChapter) => {
+    if (isThisStory) {
+      await skipToChapter(chapter.id);
+    } else {
+      await playStory(story.id, chapters, chapter.id);
+    }
+  };
+
+  const handleVoiceSelect = async (row: VoiceRow, voiceId: string | null) => {
+    try {
+      await setVoice(story.id, row.speakerType, row.speakerId, voiceId);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to change voice');
+    }
+  };
+
+  const chipClass = (selected: boolean) => cn(
+    'px-3 py-1.5 rounded-full text-sm font-accent transition-colors whitespace-nowrap',
+    selected
+      ? 'bg-rose-500 dark:bg-dark-rose text-white'
+      : 'bg-cream-100 dark:bg-dark-bgTertiary text-ink-700 dark:text-dark-textSecondary hover:bg-cream-200 dark:hover:bg-dark-bgSecondary'
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-white dark:bg-dark-bgSecondary rounded-3xl w-full max-w-2xl max-h-[92vh] overflow-hidden flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-5 border-b border-cream-200 dark:border-dark-border">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 rounded-xl bg-gradient-to-br from-rose-400 to-amethyst-500 shadow-lg">
+              <Headphones className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="font-display text-lg text-ink-950 dark:text-dark-text">Listen</h2>
+              <p className="text-sm text-ink-600 dark:text-dark-textSecondary">{story.title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2.5 hover:bg-cream-100 dark:hover:bg-dark-bgTertiary rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-ink-600 dark:text-dark-textSecondary" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-8">
+          {/* Now playing */}
+          <div>
+            <p className="font-accent text-ink-950 dark:text-dark-text mb-3">
+              {currentChapter ? `Chapter ${currentChapter.chapter_number}` : 'Play the story as an audiobook'}
+            </p>
+            <div className="h-1.5 rounded-full bg-cream-200 dark:bg-dark-bgTertiary overflow-hidden">
+              <div
+                className="h-full bg-rose-500 dark:bg-dark-rose transition-all"
+                style={{ width: `${chapterDuration > 0 ? Math.min(100, (chapterElapsed / chapterDuration) * 100) : 0}%` }}
+              />
+            </div>
+            <div className="flex justify-between mt-1 text-xs text-ink-600 dark:text-dark-textSecondary">
+              <span>{formatTime(chapterElapsed)}</span>
+              <span>{formatTime(chapterDuration)}</span>
+            </div>
+
+            <div className="flex items-center justify-center gap-6 mt-4">
+              <button
+                onClick={previousChapter}
+                disabled={!isThisStory}
+                className="p-2 text-ink-950 dark:text-dark-text disabled:opacity-30"
+                aria-label="Previous chapter"
+              >
+                <SkipBack className="w-6 h-6" />
+              </button>
+              <button
+                onClick={handlePlay}
+                disabled={chapters.length === 0}
+                className="w-14 h-14 flex items-center justify-center rounded-full bg-rose-500 dark:bg-dark-rose text-white hover:bg-rose-600 dark:hover:bg-rose-400 transition-colors"
+                aria-label={isPlaying ? 'Pause narration' : 'Play narration'}
+              >
+                {isLoading ? (
+                  <Loader2 className="w-6 h-6 animate-spin" />
+                ) : isThisStory && isPlaying ? (
+                  <Pause className="w-6 h-6" />
+                ) : (
+                  <Play className="w-6 h-6 ml-0.5" />
+                )}
+              </button>
+              <button
+                onClick={nextChapter}
+                disabled={!isThisStory}
+                className="p-2 text-ink-950 dark:text-dark-text disabled:opacity-30"
+                aria-label="Next chapter"
+              >
+                <SkipForward className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && <p className="mt-3 text-sm text-center text-rose-600 dark:text-rose-400">{error}</p>}
+            <p className="mt-3 text-xs text-center text-ink-600 dark:text-dark-textSecondary">
+              Narrating a chapter for the first time costs 1 token. Chapters you have heard before are free.
+            </p>
+          </div>
+
+          {/* Chapter markers */}
+          <div>
+            <h3 className="font-display text-ink-950 dark:text-dark-text mb-2">Chapters</h3>
+            <div className="space-y-1">
+              {chapters.map(chapter => {
+                const narration = narrations[chapter.id];
+                const isCurrent = isThisStory && current?.chapterId === chapter.id;
+                return (
+                  <button
+                    key={chapter.id}
+                    onClick={() => handleChapterClick(chapter)}
+                    className={cn(
+                      'w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left transition-colors',
+                      isCurrent
+                        ? 'bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400'
+                        : 'text-ink-700 dark:text-dark-textSecondary hover:bg-cream-100 dark:hover:bg-dark-bgTertiary'
+                    )}
+                  >
+                    {isCurrent && isPlaying ? <Volume2 className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+                    <span className="flex-1 font-accent">Chapter {chapter.chapter_number}</span>
+                    <span className="text-xs">{narration ? formatTime(narration.durationMs) : ''}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Voices */}
+          <div>
+            <h3 className="font-display text-ink-950 dark:text-dark-text mb-2">Voices</h3>
+            {isLoadingVoices && voices.length === 0 ? (
+              <Loader2 className="w-5 h-5 animate-spin text-rose-500" />
+            ) : (
+              <div className="space-y-4">
+                {voiceRows.map(row => {
+                  const selected = storyVoices.find(
+                    v => v.speaker_type === row.speakerType && v.speaker_id === row.speakerId
+                  )?.voice_id || null;
+                  return (
+                    <div key={row.key}>
+                      <p className="text-sm font-accent text-ink-950 dark:text-dark-text mb-2">{row.label}</p>
+                      <div className="flex flex-wrap gap-2">
+                        <button onClick={() => handleVoiceSelect(row, null)} className={chipClass(!selected)}>
+                          {row.speakerType === 'narrator'
+                            ? `Default (${voices.find(v => v.id === defaultVoiceId)?.name || 'auto'})`
+                            : 'Same as narrator'}
+                        </button>
+                        {voices.map(voice => (
+                          <button
+                            key={voice.id}
+                            onClick={() => handleVoiceSelect(row, voice.id)}
+                            className={chipClass(selected === voice.id)}
+                          >
+                            {voice.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <p className="mt-3 text-xs text-ink-600 dark:text-dark-textSecondary">
+              Each partner&apos;s chapters are read in their voice. Dialogue uses the voice of the character who says it.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
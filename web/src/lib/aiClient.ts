@@ -1,4 +1,5 @@
 import { getSupabaseClient } from './supabase';
+import type { NarrationSpeakerType } from '@/types';
 
 // Get Supabase URL for direct fetch calls
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -96,6 +97,97 @@ export interface AIStyleTransferResponse {
   error?: string;
 }
 
+export type AIBranchTone = 'romantic' | 'playful' | 'dramatic' | 'mysterious' | 'tender' | 'adventurous' | 'humorous';
+
+export interface AIBranchRequest {
+  storyId: string;
+  choiceId?: string;
+  parentChapterId?: string;
+  draftContent?: string;
+  count?: number;
+}
+
+export interface AIBranchChoice {
+  title: string;
+  teaser: string;
+  tone: AIBranchTone;
+}
+
+export interface AIBranchResponse {
+  success: boolean;
+  data?: {
+    consequences: string;
+    choices: AIBranchChoice[];
+  };
+  error?: string;
+}
+
+export interface AIPlotWeaverRequest {
+  storyId: string;
+  choiceId?: string;
+  parentChapterId?: string;
+  draftContent?: string;
+  count?: number;
+}
+
+export interface AIPlotHook {
+  inspirationId: string;
+  inspiration: string;
+  hook: string;
+  howToUse: string;
+}
+
+export interface AIPlotWeaverResponse {
+  success: boolean;
+  data?: {
+    hooks: AIPlotHook[];
+    unusedCount: number;
+  };
+  error?: string;
+}
+
+export interface AINarrationVoice {
+  id: string;
+  name: string;
+  gender: 'female' | 'male' | 'neutral';
+  language: string;
+}
+
+export interface AINarrationVoicesResponse {
+  success: boolean;
+  data?: {
+    provider: string;
+    defaultVoiceId: string;
+    voices: AINarrationVoice[];
+  };
+  error?: string;
+}
+
+export interface AINarrationSegment {
+  mediaId: string;
+  url: string;
+  speakerType: NarrationSpeakerType;
+  speakerId: string | null;
+  voiceId: string;
+  durationMs: number;
+}
+
+export interface AIChapterNarration {
+  chapterId: string;
+  chapterNumber: number;
+  provider: string;
+  durationMs: number;
+  segments: AINarrationSegment[];
+  cached: boolean;
+  tokensCharged: number;
+}
+
+export interface AINarrateChapterResponse {
+  success: boolean;
+  data?: AIChapterNarration;
+  error?: string;
+}
+
 // Enhancement type for web write page
 export type EnhancementType = 'sensory' | 'dialogue' | 'emotional' | 'creative';
 
@@ -166,6 +258,8 @@ class AIClient {
         },
         credentials: 'omit',
         body: JSON.stringify({
+          // The function charges tokens once per key; callers may pass their own to retry safely
+          idempotencyKey: crypto.randomUUID(),
           ...request,
           userId: session.user.id,
         }),
@@ -229,6 +323,26 @@ class AIClient {
     return this.callAIFunction<AIStyleTransferResponse>('ai-style-transfer', request);
   }
 
+  // Branch choices, not cached so asking again gives fresh ideas
+  async generateBranchChoices(request: AIBranchRequest): Promise<AIBranchResponse> {
+    return this.callAIFunction<AIBranchResponse>('ai-branch', request, false);
+  }
+
+  // Plot hooks from unused inspirations, not cached either
+  async weavePlotHooks(request: AIPlotWeaverRequest): Promise<AIPlotWeaverResponse> {
+    return this.callAIFunction<AIPlotWeaverResponse>('ai-plot-weaver', request, false);
+  }
+
+  // Voices offered by the configured text-to-speech provider
+  async getNarrationVoices(): Promise<AINarrationVoicesResponse> {
+    return this.callAIFunction<AINarrationVoicesResponse>('narrate-chapter', { action: 'voices' });
+  }
+
+  // Narrated chapter audio; cached server-side per text and voice
+  async narrateChapter(chapterId: string): Promise<AINarrateChapterResponse> {
+    return this.callAIFunction<AINarrateChapterResponse>('narrate-chapter', { action: 'narrate', chapterId }, false);
+  }
+
   // Update existing chapter
   async updateChapter(chapterId: string, content: string, contextSnippet?: string): Promise<void> {
     const { getSupabaseClient } = await import('./supabase');
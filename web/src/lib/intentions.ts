@@ -19,6 +19,10 @@ export interface Inspiration {
   content: string;
   media?: MediaAttachment[];
   created_at: string;
+  // Set once a chapter weaves this inspiration in (see the Plot Weaver)
+  woven_chapter_id?: string | null;
+  woven_at?: string | null;
+  woven_chapter?: { id: string; chapter_number: number } | null;
 }
 
 export interface MediaAttachment {
@@ -158,7 +162,7 @@ export class IntentionsService {
   async getInspirations(storyId: string): Promise<Inspiration[]> {
     const { data, error } = await this.supabase
       .from('inspirations')
-      .select('*')
+      .select('*, woven_chapter:chapters!woven_chapter_id(id, chapter_number)')
       .eq('story_id', storyId)
       .order('created_at', { ascending: true });
 
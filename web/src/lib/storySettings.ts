@@ -0,0 +1,36 @@
+/**
+ * Story Settings
+ *
+ * The rules a couple agrees on for one story. The server enforces them on
+ * every chapter write; these helpers let the editor explain them up front.
+ */
+
+import type { Story } from '@/types';
+
+/**
+ * Words in a chapter, ignoring rich text markup. Matches the server's count.
+ */
+export const countWords = (text: string): number => {
+  const plain = text.replace(/<[^>]*>/g, ' ').trim();
+  return plain ? plain.split(/\s+/).length : 0;
+};
+
+/**
+ * Why a chapter of this text cannot be saved in the story, or null when it fits.
+ */
+export const validateChapterLength = (text: string, story: Story | null): string | null => {
+  const min = story?.min_chapter_words ?? 0;
+  const max = story?.max_chapter_words ?? null;
+  const words = countWords(text);
+
+  if (words < min) {
+    return `Chapters in this story need at least ${min} words (this one has ${words})`;
+  }
+  if (max !== null && words > max) {
+    return `Chapters in this story can be at most ${max} words (this one has ${words})`;
+  }
+  return null;
+};
+
+export const isAIEnhancementAllowed = (story: Story | null): boolean =>
+  story?.ai_enhancement_allowed ?? true;
@@ -0,0 +1,333 @@
+import { create } from 'zustand';
+import { getSupabaseClient } from '@/lib/supabase';
+import { aiClient, type AIChapterNarration, type AINarrationVoice } from '@/lib/aiClient';
+import type { NarrationSpeakerType, StoryVoice } from '@/types';
+
+// Chapters in the order the audiobook plays them
+export interface NarrationChapter {
+  id: string;
+  chapter_number: number;
+}
+
+// Where playback is: a segment of a chapter's narration
+export interface NarrationPosition {
+  chapterId: string;
+  segmentIndex: number;
+}
+
+interface NarrationState {
+  storyId: string | null;
+
+  // Voices offered by the TTS provider and the ones this story picked
+  provider: string | null;
+  voices: AINarrationVoice[];
+  defaultVoiceId: string | null;
+  storyVoices: StoryVoice[];
+  characters: { id: string; name: string }[];
+  isLoadingVoices: boolean;
+
+  // Audiobook queue
+  chapters: NarrationChapter[];
+  narrations: Record<string, AIChapterNarration>;
+  current: NarrationPosition | null;
+  positionMillis: number;
+  isPlaying: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  loadVoices: (storyId: string) => Promise<void>;
+  setVoice: (storyId: string, speakerType: NarrationSpeakerType, speakerId: string | null, voiceId: string | null) => Promise<void>;
+  playStory: (storyId: string, chapters: NarrationChapter[], startChapterId?: string) => Promise<void>;
+  togglePlayback: () => Promise<void>;
+  seekTo: (position: NarrationPosition, positionMillis: number) => Promise<void>;
+  skipToChapter: (chapterId: string) => Promise<void>;
+  nextChapter: () => Promise<void>;
+  previousChapter: () => Promise<void>;
+  stop: () => void;
+}
+
+// Only one narration plays at a time, across every page
+let audio: HTMLAudioElement | null = null;
+
+// Bumped on every load, so events from a replaced element are ignored
+let playbackToken = 0;
+
+// Chapters being narrated right now, so a prefetch and a skip share one request
+const pendingNarrations = new Map<string, Promise<AIChapterNarration>>();
+
+export const useNarrationStore = create<NarrationState>((set, get) => {
+  const chapterAfter = (chapterId: string, offset: number) => {
+    const { chapters } = get();
+    const index = chapters.findIndex(c => c.id === chapterId);
+    return index === -1 ? undefined : chapters[index + offset];
+  };
+
+  const ensureNarration = (chapterId: string): Promise<AIChapterNarration> => {
+    const existing = get().narrations[chapterId];
+    if (existing) return Promise.resolve(existing);
+
+    const pending = pendingNarrations.get(chapterId);
+    if (pending) return pending;
+
+    const request = aiClient.narrateChapter(chapterId)
+      .then((result) => {
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to narrate chapter');
+        }
+        const narration = result.data;
+        set({ narrations: { ...get().narrations, [chapterId]: narration } });
+        return narration;
+      })
+      .finally(() => pendingNarrations.delete(chapterId));
+
+    pendingNarrations.set(chapterId, request);
+    return request;
+  };
+
+  const releaseAudio = () => {
+    if (audio) {
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+      audio = null;
+    }
+  };
+
+  // Move on when a segment ends: the next segment, then the next chapter
+  const advance = () => {
+    const { current, narrations } = get();
+    if (!current) return;
+
+    const narration = narrations[current.chapterId];
+    if (narration && current.segmentIndex + 1 < narration.segments.length) {
+      loadSegment({ chapterId: current.chapterId, segmentIndex: current.segmentIndex + 1 }, 0, true);
+      return;
+    }
+
+    const next = chapterAfter(current.chapterId, 1);
+    if (next) {
+      loadSegment({ chapterId: next.id, segmentIndex: 0 }, 0, true);
+    } else {
+      // End of the story: rewind so play starts over
+      const first = get().chapters[0];
+      releaseAudio();
+      set({ isPlaying: false, positionMillis: 0, current: first ? { chapterId: first.id, segmentIndex: 0 } : null });
+    }
+  };
+
+  const loadSegment = async (position: NarrationPosition, positionMillis: number, play: boolean) => {
+    const token = ++playbackToken;
+    set({ isLoading: true, error: null, current: position, positionMillis });
+
+    try {
+      const narration = await ensureNarration(position.chapterId);
+      if (token !== playbackToken) return;
+
+      const segment = narration.segments[position.segmentIndex];
+      if (!segment) {
+        throw new Error(`Chapter ${narration.chapterNumber} has no narration`);
+      }
+
+      releaseAudio();
+      const next = new Audio(segment.url);
+      next.preload = 'auto';
+      next.currentTime = positionMillis / 1000;
+      next.ontimeupdate = () => {
+        if (token !== playbackToken) return;
+        set({ positionMillis: Math.round(next.currentTime * 1000) });
+      };
+      next.onended = () => {
+        if (token === playbackToken) advance();
+      };
+      audio = next;
+
+      if (play) {
+        await next.play();
+      }
+      if (token !== playbackToken) return;
+      set({ isPlaying: play });
+
+      // Fetch the next chapter while the last part of this one plays
+      if (position.segmentIndex === narration.segments.length - 1) {
+        const following = chapterAfter(position.chapterId, 1);
+        if (following) {
+          ensureNarration(following.id).catch(error => console.error('Error preparing next chapter:', error));
+        }
+      }
+    } catch (error) {
+      if (token !== playbackToken) return;
+      console.error('Error playing narration:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to play narration', isPlaying: false });
+    } finally {
+      if (token === playbackToken) {
+        set({ isLoading: false });
+      }
+    }
+  };
+
+  return {
+    storyId: null,
+    provider: null,
+    voices: [],
+    defaultVoiceId: null,
+    storyVoices: [],
+    characters: [],
+    isLoadingVoices: false,
+    chapters: [],
+    narrations: {},
+    current: null,
+    positionMillis: 0,
+    isPlaying: false,
+    isLoading: false,
+    error: null,
+
+    loadVoices: async (storyId: string) => {
+      const supabase = getSupabaseClient();
+      set({ isLoadingVoices: true, error: null });
+      try {
+        const [available, { data: storyVoices, error: voicesError }, { data: characters }] = await Promise.all([
+          aiClient.getNarrationVoices(),
+          supabase.from('story_voices').select('*').eq('story_id', storyId),
+          supabase.from('story_characters').select('id, name').eq('story_id', storyId).order('name'),
+        ]);
+
+        if (!available.success || !available.data) {
+          throw new Error(available.error || 'Failed to load voices');
+        }
+        if (voicesError) throw voicesError;
+
+        set({
+          provider: available.data.provider,
+          voices: available.data.voices,
+          defaultVoiceId: available.data.defaultVoiceId,
+          storyVoices: (storyVoices || []) as unknown as StoryVoice[],
+          characters: (characters || []) as unknown as { id: string; name: string }[],
+        });
+      } catch (error) {
+        console.error('Error loading narration voices:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to load voices' });
+      } finally {
+        set({ isLoadingVoices: false });
+      }
+    },
+
+    // A null voiceId goes back to the default for that speaker
+    setVoice: async (storyId, speakerType, speakerId, voiceId) => {
+      const supabase = getSupabaseClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      const { provider, storyVoices } = get();
+
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!provider) {
+        throw new Error('Voices are not loaded yet');
+      }
+
+      const existing = storyVoices.find(v => v.speaker_type === speakerType && v.speaker_id === speakerId);
+
+      if (!voiceId) {
+        if (existing) {
+          const { error } = await supabase.from('story_voices').delete().eq('id', existing.id);
+          if (error) throw error;
+        }
+      } else if (existing) {
+        const { error } = await supabase
+          .from('story_voices')
+          .update({ provider, voice_id: voiceId, updated_by: user.id, updated_at: new Date().toISOString() })
+          .eq('id', existing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('story_voices')
+          .insert({
+            story_id: storyId,
+            speaker_type: speakerType,
+            speaker_id: speakerId,
+            provider,
+            voice_id: voiceId,
+            updated_by: user.id,
+          });
+        if (error) throw error;
+      }
+
+      // Narrations made with the old voice no longer apply
+      set({ narrations: {} });
+      await get().loadVoices(storyId);
+    },
+
+    playStory: async (storyId, chapters, startChapterId) => {
+      if (chapters.length === 0) return;
+
+      if (get().storyId !== storyId) {
+        get().stop();
+        set({ storyId, narrations: {} });
+      }
+      set({ chapters });
+
+      const start = chapters.find(c => c.id === startChapterId) || chapters[0];
+      await loadSegment({ chapterId: start.id, segmentIndex: 0 }, 0, true);
+    },
+
+    togglePlayback: async () => {
+      const { current, positionMillis, isPlaying } = get();
+
+      if (!audio) {
+        if (current) {
+          await loadSegment(current, positionMillis, true);
+        }
+        return;
+      }
+
+      if (isPlaying) {
+        audio.pause();
+        set({ isPlaying: false });
+      } else {
+        await audio.play();
+        set({ isPlaying: true });
+      }
+    },
+
+    seekTo: async (position, positionMillis) => {
+      const { current, isPlaying } = get();
+      if (
+        audio &&
+        current?.chapterId === position.chapterId &&
+        current.segmentIndex === position.segmentIndex
+      ) {
+        audio.currentTime = positionMillis / 1000;
+        set({ positionMillis });
+        return;
+      }
+      await loadSegment(position, positionMillis, isPlaying);
+    },
+
+    skipToChapter: async (chapterId: string) => {
+      await loadSegment({ chapterId, segmentIndex: 0 }, 0, true);
+    },
+
+    nextChapter: async () => {
+      const { current } = get();
+      const next = current && chapterAfter(current.chapterId, 1);
+      if (next) {
+        await loadSegment({ chapterId: next.id, segmentIndex: 0 }, 0, get().isPlaying);
+      }
+    },
+
+    // Like a music player: restart the chapter, or go back one if at its start
+    previousChapter: async () => {
+      const { current, positionMillis, isPlaying } = get();
+      if (!current) return;
+
+      const atStart = current.segmentIndex === 0 && positionMillis < 3000;
+      const target = atStart ? chapterAfter(current.chapterId, -1) : undefined;
+      await loadSegment({ chapterId: target?.id || current.chapterId, segmentIndex: 0 }, 0, isPlaying);
+    },
+
+    stop: () => {
+      playbackToken++;
+      releaseAudio();
+      set({ current: null, positionMillis: 0, isPlaying: false, isLoading: false });
+    },
+  };
+});
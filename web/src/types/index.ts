@@ -4,6 +4,8 @@
 export type Theme = 'romance' | 'fantasy' | 'our_future';
 export type StoryStatus = 'active' | 'paused' | 'completed';
 export type MemberRole = 'creator' | 'partner';
+export type TurnMode = 'alternate' | 'free' | 'timed';
+export type ContentRating = 'general' | 'teen' | 'mature';
 
 export interface Profile {
   id: string;
@@ -21,6 +23,14 @@ export interface Story {
   pairing_code: string;
   status: StoryStatus;
   current_turn: string | null;
+  turn_mode?: TurnMode;
+  min_chapter_words?: number;
+  max_chapter_words?: number | null;
+  ai_enhancement_allowed?: boolean;
+  content_rating?: ContentRating;
+  target_chapters?: number | null;
+  max_members?: number;
+  cover_image_url?: string | null;
   created_at: string;
 }
 
@@ -28,7 +38,7 @@ export interface StoryMember {
   story_id: string;
   user_id: string;
   role: MemberRole;
-  turn_order: 1 | 2 | null;
+  turn_order: number | null; // Position in the turn order, 1 writes first
   joined_at: string;
 }
 
@@ -40,9 +50,47 @@ export interface Chapter {
   content: string;
   ai_enhanced_content: string | null;
   context_snippet: string | null;
+  parent_chapter_id: string | null;
+  choice_id: string | null;
   created_at: string;
 }
 
+export interface ChapterChoice {
+  id: string;
+  chapter_id: string;
+  story_id: string;
+  position: number;
+  title: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type ChapterChoiceDraft = Pick<ChapterChoice, 'title' | 'description'>;
+
+export type ChapterRevisionReason = 'created' | 'edited' | 'restored' | 'resolved';
+
+// One version of a chapter's text, recorded on every change
+export interface ChapterRevision {
+  id: string;
+  chapter_id: string;
+  story_id: string;
+  revision_number: number;
+  content: string;
+  ai_enhanced_content: string | null;
+  context_snippet: string | null;
+  reason: ChapterRevisionReason;
+  restored_from: string | null;
+  edited_by: string | null;
+  created_at: string;
+}
+
+export interface ChapterNode extends Chapter {
+  choices: ChapterChoice[];
+  choice: ChapterChoice | null;
+  children: ChapterNode[];
+}
+
 export interface Inspiration {
   id: string;
   story_id: string;
@@ -59,6 +107,22 @@ export interface MediaAttachment {
   title?: string;
 }
 
+export type NarrationSpeakerType = 'narrator' | 'partner' | 'character';
+
+// Narration voice picked for the narrator, a partner or a character
+export interface StoryVoice {
+  id: string;
+  story_id: string;
+  speaker_type: NarrationSpeakerType;
+  speaker_id: string | null;
+  provider: string;
+  voice_id: string;
+  speaking_rate: number;
+  updated_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface StoryWithMembers extends Story {
   members: (StoryMember & {
     profile: Profile;